@@ -35,7 +35,8 @@ const config: Config.InitialOptions = {
     '@middleware/(.*)': '<rootDir>/src/middleware/$1',
     '@controllers/(.*)': '<rootDir>/src/controllers/$1',
     '@validators/(.*)': '<rootDir>/src/validators/$1',
-    '@types/(.*)': '<rootDir>/src/types/$1'
+    '@types/(.*)': '<rootDir>/src/types/$1',
+    '^@smart-apparel/sensor-frame$': '<rootDir>/../shared/sensor-frame/src'
   },
 
   // Configure coverage reporting
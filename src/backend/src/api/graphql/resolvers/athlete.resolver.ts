@@ -11,11 +11,15 @@ import CircuitBreaker from 'opossum'; // ^6.0.0
 import { Redis } from 'redis'; // ^4.0.0
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'; // ^1.0.0
 import { IAthlete, IBaselineData, IAthletePreferences } from '../../../interfaces/athlete.interface';
+import { IAthleteTrainingLoad, TrainingLoadCoupling, TrainingLoadModel } from '../../../interfaces/load.interface';
+import { IAthleteBaselines, IBaselineState, IBaselineVersion } from '../../../interfaces/baseline.interface';
 import { SENSOR_TYPES, SENSOR_STATUS } from '../../../constants/sensor.constants';
 import { AuthGuard } from '../../guards/auth.guard';
 import { PrivacyGuard } from '../../guards/privacy.guard';
 import { AthleteRepository } from '../../repositories/athlete.repository';
 import { PerformanceMetricsService } from '../../services/performance-metrics.service';
+import { TrainingLoadService } from '../../../services/session/training.load.service';
+import { BaselineService } from '../../../services/session/baseline.service';
 import { Logger } from '../../utils/logger';
 
 // Initialize PubSub with optimized settings for real-time data
@@ -33,7 +37,9 @@ export class AthleteResolver {
     private readonly athleteRepository: AthleteRepository,
     private readonly cacheService: Redis,
     private readonly encryptionService: EncryptionService,
-    private readonly metricsService: PerformanceMetricsService
+    private readonly metricsService: PerformanceMetricsService,
+    private readonly trainingLoadService: TrainingLoadService,
+    private readonly baselineService: BaselineService
   ) {
     this.logger = new Logger('AthleteResolver');
     
@@ -85,6 +91,112 @@ export class AthleteResolver {
     }
   }
 
+  @Query()
+  @UseGuards(PrivacyGuard)
+  async athleteTrainingLoad(
+    @Args('id') id: string,
+    @Args('model') model: string | undefined,
+    @Args('coupling') coupling: string | undefined,
+    @Args('teamId') teamId: string | undefined,
+    @Args('asOf') asOf: string | undefined,
+    @Context() context: { user: any }
+  ): Promise<Record<string, unknown>> {
+    try {
+      const trainingLoad: IAthleteTrainingLoad = await this.trainingLoadService.getAthleteLoad(id, {
+        ...(model && { model: model.toLowerCase() as TrainingLoadModel }),
+        ...(coupling && { coupling: coupling.toLowerCase() as TrainingLoadCoupling }),
+        ...(teamId && { teamId }),
+        ...(asOf && { asOf })
+      });
+
+      return {
+        ...trainingLoad,
+        model: trainingLoad.model.toUpperCase(),
+        coupling: trainingLoad.coupling.toUpperCase()
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching athlete training load: ${error instanceof Error ? error.message : String(error)}`, {
+        athleteId: id,
+        userId: context.user.id
+      });
+      throw error;
+    }
+  }
+
+  @Query()
+  @UseGuards(PrivacyGuard)
+  async athleteBaselines(
+    @Args('id') id: string,
+    @Context() context: { user: any }
+  ): Promise<IAthleteBaselines> {
+    try {
+      return await this.baselineService.getBaselines(id);
+    } catch (error) {
+      this.logger.error(`Error fetching athlete baselines: ${error instanceof Error ? error.message : String(error)}`, {
+        athleteId: id,
+        userId: context.user.id
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  @UseGuards(PrivacyGuard)
+  async pinAthleteBaseline(
+    @Args('id') id: string,
+    @Args('version') version: number | null | undefined,
+    @Context() context: { user: any }
+  ): Promise<IBaselineState> {
+    try {
+      // Pinning no version unpins the baseline
+      return version == null
+        ? await this.baselineService.unpin(id, context.user.id)
+        : await this.baselineService.pin(id, version, context.user.id);
+    } catch (error) {
+      this.logger.error(`Error pinning athlete baseline: ${error instanceof Error ? error.message : String(error)}`, {
+        athleteId: id,
+        userId: context.user.id
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  @UseGuards(PrivacyGuard)
+  async freezeAthleteBaseline(
+    @Args('id') id: string,
+    @Args('frozen') frozen: boolean,
+    @Context() context: { user: any }
+  ): Promise<IBaselineState> {
+    try {
+      return await this.baselineService.setFrozen(id, frozen, context.user.id);
+    } catch (error) {
+      this.logger.error(`Error freezing athlete baseline: ${error instanceof Error ? error.message : String(error)}`, {
+        athleteId: id,
+        userId: context.user.id
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  @UseGuards(PrivacyGuard)
+  async revertAthleteBaseline(
+    @Args('id') id: string,
+    @Args('version') version: number,
+    @Context() context: { user: any }
+  ): Promise<IBaselineVersion> {
+    try {
+      return await this.baselineService.revert(id, version, context.user.id);
+    } catch (error) {
+      this.logger.error(`Error reverting athlete baseline: ${error instanceof Error ? error.message : String(error)}`, {
+        athleteId: id,
+        userId: context.user.id
+      });
+      throw error;
+    }
+  }
+
   @Mutation()
   @UseGuards(PrivacyGuard)
   async updateAthleteBaseline(
@@ -103,6 +215,9 @@ export class AthleteResolver {
         context.user
       );
 
+      // Keep the pushed baseline in the athlete's version history
+      await this.baselineService.recordManualBaseline(id, baselineData, context.user.id);
+
       // Publish update event for real-time subscribers
       await pubsub.publish(ATHLETE_UPDATED_TOPIC, {
         athleteUpdated: athlete
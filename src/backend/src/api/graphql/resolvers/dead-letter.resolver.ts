@@ -0,0 +1,89 @@
+/**
+ * @fileoverview GraphQL resolver implementation for dead-lettered Kafka messages
+ * Restricted to admins; delegates to the dead-letter service for inspection and reprocessing
+ * @version 1.0.0
+ */
+
+import { AuthenticationError, ForbiddenError } from 'apollo-server-express';
+import { IDeadLetterMessage, IDeadLetterFilter } from '../../../interfaces/dead-letter.interface';
+import { createLoggerInstance } from '../../../utils/logger.util';
+
+const logger = createLoggerInstance('DeadLetterResolver');
+
+/**
+ * Ensures the request comes from an authenticated admin
+ */
+const requireAdmin = (context: any): void => {
+  if (!context.user) {
+    throw new AuthenticationError('Authentication required');
+  }
+  if (context.user.role !== 'ADMIN') {
+    throw new ForbiddenError('Admin access required');
+  }
+};
+
+export const deadLetterResolvers = {
+  Query: {
+    /**
+     * Retrieves dead-lettered messages with filtering and pagination
+     */
+    deadLetterMessages: async (
+      _: any,
+      { filter = {} }: { filter?: IDeadLetterFilter },
+      context: any
+    ): Promise<{ messages: IDeadLetterMessage[]; total: number }> => {
+      try {
+        requireAdmin(context);
+        return await context.deadLetterService.listMessages(filter);
+      } catch (error) {
+        logger.error('Error retrieving dead-letter messages', error as Error, { filter });
+        throw error;
+      }
+    },
+
+    /**
+     * Retrieves a single dead-lettered message
+     */
+    deadLetterMessage: async (_: any, { id }: { id: string }, context: any): Promise<IDeadLetterMessage> => {
+      try {
+        requireAdmin(context);
+        return await context.deadLetterService.getMessage(id);
+      } catch (error) {
+        logger.error('Error retrieving dead-letter message', error as Error, { id });
+        throw error;
+      }
+    }
+  },
+
+  Mutation: {
+    /**
+     * Re-publishes a dead-lettered message to its source topic
+     */
+    requeueDeadLetterMessage: async (_: any, { id }: { id: string }, context: any): Promise<IDeadLetterMessage> => {
+      try {
+        requireAdmin(context);
+        return await context.deadLetterService.requeueMessage(id, context.user.id);
+      } catch (error) {
+        logger.error('Error re-queueing dead-letter message', error as Error, { id });
+        throw error;
+      }
+    },
+
+    /**
+     * Discards a dead-lettered message with an optional reason
+     */
+    discardDeadLetterMessage: async (
+      _: any,
+      { id, reason }: { id: string; reason?: string },
+      context: any
+    ): Promise<IDeadLetterMessage> => {
+      try {
+        requireAdmin(context);
+        return await context.deadLetterService.discardMessage(id, context.user.id, reason);
+      } catch (error) {
+        logger.error('Error discarding dead-letter message', error as Error, { id });
+        throw error;
+      }
+    }
+  }
+};
@@ -12,6 +12,9 @@ import { ResolverMetrics } from '@graphql-metrics/core'; // ^1.0.0
 import { alertResolvers } from './alert.resolver';
 import { AthleteResolver } from './athlete.resolver';
 import { SensorResolver } from './sensor.resolver';
+import { deadLetterResolvers } from './dead-letter.resolver';
+import { ISessionMetrics } from '../../../interfaces/session.interface';
+import { IJointRangeOfMotion } from '../../../interfaces/kinematics.interface';
 
 // Initialize performance metrics collector
 const metrics = new ResolverMetrics({
@@ -85,6 +88,7 @@ const wrapResolversWithMetrics = (resolvers: any, prefix: string) => {
 const wrappedAlertResolvers = wrapResolversWithMetrics(alertResolvers, 'Alert');
 const wrappedAthleteResolvers = wrapResolversWithMetrics(AthleteResolver, 'Athlete');
 const wrappedSensorResolvers = wrapResolversWithMetrics(SensorResolver, 'Sensor');
+const wrappedDeadLetterResolvers = wrapResolversWithMetrics(deadLetterResolvers, 'DeadLetter');
 
 /**
  * Combined GraphQL resolvers with performance monitoring and type safety
@@ -95,6 +99,7 @@ export const resolvers = merge(
   wrappedAlertResolvers,
   wrappedAthleteResolvers,
   wrappedSensorResolvers,
+  wrappedDeadLetterResolvers,
   {
     // Root-level resolvers for handling shared types
     Node: {
@@ -106,6 +111,14 @@ export const resolvers = merge(
       }
     },
     
+    // Ranges of motion are stored keyed by joint ID and exposed as a list
+    SessionMetrics: {
+      rangeOfMotion(metrics: ISessionMetrics): IJointRangeOfMotion[] {
+        const ranges: Map<string, IJointRangeOfMotion> | Record<string, IJointRangeOfMotion> = metrics.rangeOfMotion ?? {};
+        return ranges instanceof Map ? Array.from(ranges.values()) : Object.values(ranges);
+      }
+    },
+
     // Date scalar type resolver
     Date: {
       serialize(value: Date) {
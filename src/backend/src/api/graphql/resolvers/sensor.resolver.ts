@@ -4,22 +4,72 @@
  * Implements sensor layer specifications from technical requirements.
  */
 
-import { Resolver, Query, Mutation, Subscription, Args } from '@nestjs/graphql';
+import { Resolver, Query, Mutation, Subscription, Args, Context } from '@nestjs/graphql';
 import { PubSub, withFilter } from 'graphql-subscriptions';
 import { performance } from 'perf_hooks';
 import pino from 'pino';
 
-import { ISensorConfig, ISensorData, ISensorCalibrationParams } from '../../../interfaces/sensor.interface';
+import {
+  ISensorConfig,
+  ISensorData,
+  ISensorCalibrationParams,
+  ISensorMetadata,
+  SensorDataResolution
+} from '../../../interfaces/sensor.interface';
+import { IFirmwareRolloutReport, IFirmwareUpdate } from '../../../interfaces/firmware.interface';
+import {
+  ICalibrationRun,
+  ICalibrationStepResult,
+  ICalibrationVersion,
+  ITemperatureModel
+} from '../../../interfaces/calibration.interface';
+import { IMaintenanceSchedule, MaintenanceStatus } from '../../../interfaces/health.interface';
+import {
+  IGarmentPairing,
+  IGarmentSlot,
+  IGarmentTemplate,
+  ISensorPlacement
+} from '../../../interfaces/garment.interface';
+import { IInventorySensor, ISensorAssignment, InventoryState } from '../../../interfaces/inventory.interface';
 import { SensorRepository } from '../../../db/repositories/sensor.repository';
-import { SENSOR_STATUS, SENSOR_STATUS_CODES, SAMPLING_RATES } from '../../../constants/sensor.constants';
+import { FirmwareService } from '../../../services/sensor/firmware.service';
+import { CalibrationService } from '../../../services/sensor/calibration.service';
+import { CalibrationHistoryService } from '../../../services/sensor/calibration.history.service';
+import { CalibrationProtocolService } from '../../../services/sensor/calibration.protocol.service';
+import { TemperatureCompensationService } from '../../../services/sensor/temperature.compensation.service';
+import { SensorHealthService } from '../../../services/sensor/sensor.health.service';
+import { GarmentService } from '../../../services/sensor/garment.service';
+import { SensorInventoryService } from '../../../services/sensor/sensor.inventory.service';
+import {
+  CALIBRATION_PROTOCOL,
+  SENSOR_STATUS,
+  SENSOR_STATUS_CODES,
+  SENSOR_TYPES,
+  SAMPLING_RATES
+} from '../../../constants/sensor.constants';
 
 // Subscription event names
 const EVENTS = {
   SENSOR_DATA: 'SENSOR_DATA',
   CALIBRATION_PROGRESS: 'CALIBRATION_PROGRESS',
-  SENSOR_STATUS: 'SENSOR_STATUS'
+  SENSOR_STATUS: 'SENSOR_STATUS',
+  FIRMWARE_PROGRESS: 'FIRMWARE_PROGRESS',
+  SENSOR_HEALTH: 'SENSOR_HEALTH',
+  MAINTENANCE_NOTIFICATION: 'MAINTENANCE_NOTIFICATION'
 } as const;
 
+// GraphQL resolution enum values mapped to stored resolutions
+const RESOLUTIONS: Record<string, SensorDataResolution | 'auto'> = {
+  AUTO: 'auto',
+  RAW: 'raw',
+  SECOND: '1s',
+  MINUTE: '1m',
+  HOUR: '1h'
+};
+
+// Sensor data cursors carry the page's resolution and the timestamp of its last point
+const SENSOR_DATA_CURSOR = /^(raw|1s|1m|1h):(\d+)$/;
+
 @Resolver('Sensor')
 export class SensorResolver {
   private readonly logger: pino.Logger;
@@ -28,9 +78,78 @@ export class SensorResolver {
 
   constructor(
     private readonly sensorRepository: SensorRepository,
-    private readonly pubsub: PubSub
+    private readonly pubsub: PubSub,
+    private readonly firmwareService: FirmwareService,
+    private readonly calibrationService: CalibrationService,
+    private readonly calibrationHistoryService: CalibrationHistoryService,
+    private readonly calibrationProtocolService: CalibrationProtocolService,
+    private readonly temperatureCompensationService: TemperatureCompensationService,
+    private readonly sensorHealthService: SensorHealthService,
+    private readonly garmentService: GarmentService,
+    private readonly inventoryService: SensorInventoryService
   ) {
     this.logger = pino({ name: 'SensorResolver' });
+
+    // Forward firmware progress to subscribers; starting and finishing an update also
+    // changes the sensor status
+    this.firmwareService.progressUpdates.subscribe(event => {
+      this.pubsub.publish(`${EVENTS.FIRMWARE_PROGRESS}.${event.sensorId}`, {
+        ...event,
+        state: event.state.toUpperCase()
+      });
+
+      const started = event.state === 'transferring' && event.progress === 0;
+      if (started || event.state === 'applied' || event.state === 'rolled_back') {
+        this.pubsub.publish(`${EVENTS.SENSOR_STATUS}.${event.sensorId}`, {
+          sensorId: event.sensorId,
+          status: event.sensorStatus,
+          statusCode: event.state === 'applied'
+            ? SENSOR_STATUS_CODES.FIRMWARE_UPDATE_SUCCESS
+            : event.state === 'rolled_back' ? SENSOR_STATUS_CODES.FIRMWARE_UPDATE_FAILURE : undefined,
+          error: event.error ?? undefined
+        });
+      }
+    });
+
+    // Forward guided calibration progress; a finished run also changes the sensor status
+    this.calibrationProtocolService.progressUpdates.subscribe(event => {
+      this.pubsub.publish(`${EVENTS.CALIBRATION_PROGRESS}.${event.sensorId}`, {
+        ...event,
+        currentStep: event.step.toUpperCase(),
+        status: event.status.toUpperCase(),
+        step: event.step.toUpperCase(),
+        phase: event.phase.toUpperCase(),
+        result: event.result ? this.toStepResultResponse(event.result) : undefined
+      });
+
+      if (event.status !== 'running') {
+        this.pubsub.publish(`${EVENTS.SENSOR_STATUS}.${event.sensorId}`, {
+          sensorId: event.sensorId,
+          status: event.status === 'completed' ? SENSOR_STATUS.ACTIVE : undefined,
+          statusCode: event.status === 'completed'
+            ? SENSOR_STATUS_CODES.CALIBRATION_SUCCESS
+            : event.status === 'failed' ? SENSOR_STATUS_CODES.CALIBRATION_FAILURE : undefined,
+          error: event.error
+        });
+      }
+    });
+
+    // Forward health metrics, and notify each admin on their own channel
+    this.sensorHealthService.healthUpdates.subscribe(update => {
+      this.pubsub.publish(`${EVENTS.SENSOR_HEALTH}.${update.sensorId}`, {
+        ...update,
+        status: update.status.toUpperCase()
+      });
+    });
+
+    this.sensorHealthService.notifications.subscribe(notification => {
+      for (const recipientId of notification.recipientIds) {
+        this.pubsub.publish(`${EVENTS.MAINTENANCE_NOTIFICATION}.${recipientId}`, {
+          teamId: notification.teamId,
+          maintenance: this.toMaintenanceResponse(notification.maintenance)
+        });
+      }
+    });
   }
 
   /**
@@ -64,13 +183,83 @@ export class SensorResolver {
   }
 
   /**
-   * Initiates and manages sensor calibration process with staged validation
+   * Retrieves sensor data over a time range, served from downsampled rollups when the
+   * range holds more raw packets than the requested point budget. A truncated read is
+   * continued by passing its endCursor as `after`, which keeps the first page's resolution.
    */
-  @Mutation(() => Boolean)
+  @Query()
+  async getSensorData(
+    @Args('id') id: string,
+    @Args('start') start: number,
+    @Args('end') end?: number,
+    @Args('filter') filter?: {
+      minQuality?: number;
+      types?: string[];
+      minConfidence?: number;
+      resolution?: string;
+      maxPoints?: number;
+    },
+    @Args('after') after?: string
+  ) {
+    const startTime = performance.now();
+
+    try {
+      const cursor = after ? SENSOR_DATA_CURSOR.exec(after) : null;
+      if (after && !cursor) {
+        throw new Error(`Invalid sensor data cursor: ${after}`);
+      }
+
+      const series = await this.sensorRepository.getSensorData({
+        sensorId: id,
+        start,
+        end: end ?? Date.now(),
+        resolution: cursor ? cursor[1] as SensorDataResolution : RESOLUTIONS[filter?.resolution ?? 'AUTO'] ?? 'auto',
+        ...(filter?.minQuality !== undefined && { minQuality: filter.minQuality }),
+        ...(filter?.types && { types: filter.types.map(type => type.toLowerCase() as SENSOR_TYPES) }),
+        ...(filter?.minConfidence !== undefined && { minConfidence: filter.minConfidence }),
+        ...(filter?.maxPoints !== undefined && { maxPoints: filter.maxPoints }),
+        ...(cursor && { after: Number(cursor[2]) })
+      });
+
+      const duration = performance.now() - startTime;
+      this.performanceMetrics.set(`getSensorData:${id}`, duration);
+
+      const last = series.data[series.data.length - 1];
+      return {
+        edges: series.data.map(packet => ({
+          ...packet,
+          quality: packet.dataQuality,
+          metadata: packet.metadata && this.toMetadataResponse(packet.metadata)
+        })),
+        pageInfo: {
+          hasNextPage: series.truncated,
+          endCursor: last ? `${series.resolution}:${last.timestamp}` : ''
+        },
+        totalCount: series.data.length,
+        resolution: Object.keys(RESOLUTIONS).find(key => RESOLUTIONS[key] === series.resolution),
+        bucketMs: series.bucketMs
+      };
+    } catch (error) {
+      this.logger.error({
+        op: 'getSensorData',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Initiates and manages sensor calibration process with staged validation; the result is
+   * stored as the sensor's next calibration version
+   */
+  @Mutation()
   async calibrateSensor(
     @Args('id') id: string,
-    @Args('params') params: ISensorCalibrationParams
-  ): Promise<boolean> {
+    @Args('params') params: ISensorCalibrationParams,
+    @Args('conditions') conditions: Record<string, number> | undefined,
+    @Context() context: { user: any }
+  ) {
     const startTime = performance.now();
 
     try {
@@ -93,18 +282,29 @@ export class SensorResolver {
       // Perform staged calibration
       const stages = ['INIT', 'BASELINE', 'ADJUSTMENT', 'VERIFICATION'];
       for (const stage of stages) {
-        await this.pubsub.publish(EVENTS.CALIBRATION_PROGRESS, {
+        await this.pubsub.publish(`${EVENTS.CALIBRATION_PROGRESS}.${id}`, {
           sensorId: id,
-          stage,
-          progress: stages.indexOf(stage) * 25
+          currentStep: stage,
+          progress: stages.indexOf(stage) * 25,
+          estimatedTimeRemaining: (stages.length - stages.indexOf(stage)) * 500
         });
 
         // Simulate stage processing time
         await new Promise(resolve => setTimeout(resolve, 500));
       }
 
-      // Update calibration parameters
-      await this.sensorRepository.updateSensorCalibration(id, params, sensor.__v);
+      // Update calibration parameters; the fitted temperature model is kept
+      const calibratedParams = {
+        ...params,
+        temperatureModel: sensor.calibrationParams?.temperatureModel ?? null
+      };
+      await this.sensorRepository.updateSensorCalibration(id, calibratedParams, sensor.__v);
+
+      const record = await this.calibrationHistoryService.recordCalibration(id, calibratedParams, {
+        operatorId: context.user.id,
+        qualityScore: await this.calibrationService.assessCalibrationQuality(id),
+        ...(conditions && { environmentalConditions: conditions })
+      });
 
       // Update sensor status to active
       await this.sensorRepository.updateSensorStatus(id, SENSOR_STATUS.ACTIVE);
@@ -119,7 +319,7 @@ export class SensorResolver {
       const duration = performance.now() - startTime;
       this.performanceMetrics.set(`calibrateSensor:${id}`, duration);
 
-      return true;
+      return this.toCalibrationResult(record);
     } catch (error) {
       // Handle calibration failure
       await this.sensorRepository.updateSensorStatus(id, SENSOR_STATUS.ERROR);
@@ -139,6 +339,494 @@ export class SensorResolver {
     }
   }
 
+  /**
+   * Lists a sensor's calibration versions, oldest first
+   */
+  @Query()
+  async getCalibrationHistory(@Args('id') id: string) {
+    const history = await this.calibrationHistoryService.getHistory(id);
+    return history.map(record => this.toCalibrationResult(record));
+  }
+
+  /**
+   * Compares the parameters of two calibration versions of a sensor
+   */
+  @Query()
+  async calibrationDiff(
+    @Args('id') id: string,
+    @Args('fromVersion') fromVersion: number,
+    @Args('toVersion') toVersion: number
+  ) {
+    return this.calibrationHistoryService.diffVersions(id, fromVersion, toVersion);
+  }
+
+  /**
+   * Restores an earlier calibration version; data recorded from now on carries the tag of
+   * the new version
+   */
+  @Mutation()
+  async rollbackCalibration(
+    @Args('id') id: string,
+    @Args('version') version: number,
+    @Context() context: { user: any }
+  ) {
+    try {
+      const record = await this.calibrationHistoryService.rollbackToVersion(id, version, context.user.id);
+      this.calibrationService.restoreCalibration(id, record.params);
+
+      return this.toCalibrationResult(record);
+    } catch (error) {
+      this.logger.error({
+        op: 'rollbackCalibration',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a sensor's latest guided calibration run
+   */
+  @Query()
+  async calibrationRun(@Args('id') id: string) {
+    return this.toCalibrationRunResponse(this.calibrationProtocolService.getRun(id));
+  }
+
+  /**
+   * Starts the guided calibration protocol of a sensor
+   */
+  @Mutation()
+  async startCalibrationProtocol(
+    @Args('id') id: string,
+    @Context() context: { user: any }
+  ) {
+    try {
+      const run = await this.calibrationProtocolService.startProtocol(id, context.user.id);
+
+      await this.pubsub.publish(`${EVENTS.SENSOR_STATUS}.${id}`, {
+        sensorId: id,
+        status: SENSOR_STATUS.CALIBRATING
+      });
+
+      return this.toCalibrationRunResponse(run);
+    } catch (error) {
+      this.logger.error({
+        op: 'startCalibrationProtocol',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async cancelCalibrationProtocol(@Args('id') id: string) {
+    return this.toCalibrationRunResponse(this.calibrationProtocolService.cancelProtocol(id));
+  }
+
+  /**
+   * Retrieves a sensor's temperature model with its residual drift per temperature band
+   */
+  @Query()
+  async temperatureModel(@Args('id') id: string) {
+    return this.toTemperatureModelResponse(await this.temperatureCompensationService.getModel(id));
+  }
+
+  /**
+   * Fits a sensor's temperature model from its logged data and applies it as a new calibration
+   */
+  @Mutation()
+  async fitTemperatureModel(
+    @Args('id') id: string,
+    @Args('start') start: number,
+    @Args('end') end: number,
+    @Args('sessionId') sessionId: string | undefined,
+    @Context() context: { user: any }
+  ) {
+    try {
+      const record = await this.temperatureCompensationService.fitModel(
+        id,
+        { start, end, ...(sessionId && { sessionId }) },
+        context.user.id
+      );
+      this.calibrationService.restoreCalibration(id, record.params);
+
+      return this.toCalibrationResult(record);
+    } catch (error) {
+      this.logger.error({
+        op: 'fitTemperatureModel',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates a sensor's health score and battery and recalibration forecasts
+   */
+  @Query()
+  async getSensorHealth(@Args('id') id: string) {
+    return this.sensorHealthService.getSensorHealth(id);
+  }
+
+  /**
+   * Lists a sensor's maintenance entries, optionally in one status
+   */
+  @Query()
+  async maintenanceSchedule(
+    @Args('id') id: string,
+    @Args('status') status?: string
+  ) {
+    const entries = await this.sensorHealthService.listMaintenance(
+      id,
+      status ? status.toLowerCase() as MaintenanceStatus : undefined
+    );
+    return entries.map(entry => this.toMaintenanceResponse(entry));
+  }
+
+  /**
+   * Schedules maintenance of a sensor
+   */
+  @Mutation()
+  async scheduleMaintenance(
+    @Args('id') id: string,
+    @Args('schedule') schedule: { scheduledTime: Date; description: string; duration: number; priority?: number },
+    @Context() context: { user: any }
+  ) {
+    try {
+      const entry = await this.sensorHealthService.scheduleMaintenance(
+        id,
+        { ...schedule, scheduledTime: new Date(schedule.scheduledTime) },
+        context.user.id
+      );
+      return this.toMaintenanceResponse(entry);
+    } catch (error) {
+      this.logger.error({
+        op: 'scheduleMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async completeMaintenance(
+    @Args('maintenanceId') maintenanceId: string,
+    @Context() context: { user: any }
+  ) {
+    return this.toMaintenanceResponse(
+      await this.sensorHealthService.completeMaintenance(maintenanceId, context.user.id)
+    );
+  }
+
+  @Mutation()
+  async cancelMaintenance(
+    @Args('maintenanceId') maintenanceId: string,
+    @Context() context: { user: any }
+  ) {
+    return this.toMaintenanceResponse(
+      await this.sensorHealthService.cancelMaintenance(maintenanceId, context.user.id)
+    );
+  }
+
+  @Query()
+  async garmentTemplates() {
+    const templates = await this.garmentService.listTemplates();
+    return templates.map(template => this.toGarmentTemplateResponse(template));
+  }
+
+  @Query()
+  async garmentTemplate(@Args('id') id: string) {
+    return this.toGarmentTemplateResponse(await this.garmentService.getTemplate(id));
+  }
+
+  @Query()
+  async garmentPairing(@Args('id') id: string) {
+    return this.toPairingResponse(await this.garmentService.getPairing(id));
+  }
+
+  /**
+   * Resolves where a sensor sits through its garment pairing
+   */
+  @Query()
+  async sensorPlacement(@Args('id') id: string) {
+    const placement = await this.garmentService.resolvePlacement(id);
+    return placement ? this.toPlacementResponse(placement) : null;
+  }
+
+  /**
+   * Maps a session's stored readings onto body segments through their garment placements
+   */
+  @Query()
+  async sessionHeatMap(@Args('sessionId') sessionId: string, @Args('sensorType') sensorType?: string) {
+    const cells = await this.garmentService.getSessionHeatMap(
+      sessionId,
+      sensorType ? sensorType.toLowerCase() as SENSOR_TYPES : SENSOR_TYPES.TOF
+    );
+    return cells.map(cell => ({
+      ...cell,
+      segment: cell.segment.toUpperCase(),
+      side: cell.side.toUpperCase()
+    }));
+  }
+
+  /**
+   * Registers a garment template with its sensor slots
+   */
+  @Mutation()
+  async createGarmentTemplate(
+    @Args('input') input: { name: string; description?: string; slots: IGarmentSlot[] },
+    @Context() context: { user: any }
+  ) {
+    try {
+      const template = await this.garmentService.createTemplate({
+        ...input,
+        slots: input.slots.map(slot => ({
+          ...slot,
+          segment: slot.segment.toLowerCase() as IGarmentSlot['segment'],
+          side: slot.side.toLowerCase() as IGarmentSlot['side'],
+          sensorType: slot.sensorType.toLowerCase() as SENSOR_TYPES
+        }))
+      }, context.user.id);
+      return this.toGarmentTemplateResponse(template);
+    } catch (error) {
+      this.logger.error({
+        op: 'createGarmentTemplate',
+        error: error instanceof Error ? error.message : String(error),
+        name: input.name
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Binds the physical sensors of a garment to its template's slots
+   */
+  @Mutation()
+  async pairGarment(
+    @Args('templateId') templateId: string,
+    @Args('bindings') bindings: Array<{ slotId: string; sensorId: string }>,
+    @Args('athleteId') athleteId: string | undefined,
+    @Context() context: { user: any }
+  ) {
+    try {
+      // A slot listed twice cannot be represented as a binding map
+      const slotIds = new Set(bindings.map(binding => binding.slotId));
+      if (slotIds.size !== bindings.length) {
+        throw new Error('Each slot can be bound to one sensor only');
+      }
+
+      const pairing = await this.garmentService.pairGarment(
+        templateId,
+        Object.fromEntries(bindings.map(binding => [binding.slotId, binding.sensorId])),
+        athleteId ?? null,
+        context.user.id
+      );
+      return this.toPairingResponse(pairing);
+    } catch (error) {
+      this.logger.error({
+        op: 'pairGarment',
+        error: error instanceof Error ? error.message : String(error),
+        templateId
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async unpairGarment(
+    @Args('id') id: string,
+    @Context() context: { user: any }
+  ) {
+    return this.toPairingResponse(await this.garmentService.unpairGarment(id, context.user.id));
+  }
+
+  @Query()
+  async sensorInventory(
+    @Args('teamId') teamId: string,
+    @Args('state') state?: string
+  ) {
+    const sensors = await this.inventoryService.listInventory(
+      teamId,
+      state ? state.toLowerCase() as InventoryState : undefined
+    );
+    return sensors.map(sensor => this.toInventoryResponse(sensor));
+  }
+
+  @Query()
+  async inventorySensor(@Args('id') id: string) {
+    return this.toInventoryResponse(await this.inventoryService.getSensor(id));
+  }
+
+  @Query()
+  async sensorAssignments(
+    @Args('id') id: string,
+    @Args('start') start?: Date,
+    @Args('end') end?: Date
+  ) {
+    const assignments = await this.inventoryService.getAssignments(
+      id,
+      start ? new Date(start) : undefined,
+      end ? new Date(end) : undefined
+    );
+    return assignments.map(assignment => this.toAssignmentResponse(assignment));
+  }
+
+  /**
+   * Lists the sensors an athlete wore during a time range
+   */
+  @Query()
+  async athleteSensorAssignments(
+    @Args('athleteId') athleteId: string,
+    @Args('start') start: Date,
+    @Args('end') end: Date
+  ) {
+    const assignments = await this.inventoryService.getAthleteAssignments(athleteId, new Date(start), new Date(end));
+    return assignments.map(assignment => this.toAssignmentResponse(assignment));
+  }
+
+  /**
+   * Resolves the athlete a sensor was checked out to at a time
+   */
+  @Query()
+  async sensorAthlete(
+    @Args('id') id: string,
+    @Args('at') at: number
+  ) {
+    return this.inventoryService.resolveAthlete(id, at);
+  }
+
+  /**
+   * Registers sensors to a team's inventory
+   */
+  @Mutation()
+  async registerSensors(
+    @Args('teamId') teamId: string,
+    @Args('sensorIds') sensorIds: string[],
+    @Context() context: { user: any }
+  ) {
+    try {
+      const sensors = await this.inventoryService.registerSensors(teamId, sensorIds, context.user.id);
+      return sensors.map(sensor => this.toInventoryResponse(sensor));
+    } catch (error) {
+      this.logger.error({
+        op: 'registerSensors',
+        error: error instanceof Error ? error.message : String(error),
+        teamId
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async transferSensor(
+    @Args('id') id: string,
+    @Args('teamId') teamId: string,
+    @Context() context: { user: any }
+  ) {
+    return this.toInventoryResponse(await this.inventoryService.transferSensor(id, teamId, context.user.id));
+  }
+
+  /**
+   * Checks a sensor out to an athlete
+   */
+  @Mutation()
+  async checkoutSensor(
+    @Args('id') id: string,
+    @Args('athleteId') athleteId: string,
+    @Args('at') at: Date | undefined,
+    @Context() context: { user: any }
+  ) {
+    try {
+      const assignment = await this.inventoryService.checkoutSensor(
+        id,
+        athleteId,
+        context.user.id,
+        at ? new Date(at) : undefined
+      );
+      return this.toAssignmentResponse(assignment);
+    } catch (error) {
+      this.logger.error({
+        op: 'checkoutSensor',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id,
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async returnSensor(
+    @Args('id') id: string,
+    @Args('at') at: Date | undefined,
+    @Context() context: { user: any }
+  ) {
+    return this.toAssignmentResponse(
+      await this.inventoryService.returnSensor(id, context.user.id, at ? new Date(at) : undefined)
+    );
+  }
+
+  @Mutation()
+  async reportSensorLost(
+    @Args('id') id: string,
+    @Args('notes') notes: string | undefined,
+    @Context() context: { user: any }
+  ) {
+    return this.toInventoryResponse(await this.inventoryService.reportLost(id, context.user.id, notes));
+  }
+
+  @Mutation()
+  async reportSensorFound(
+    @Args('id') id: string,
+    @Context() context: { user: any }
+  ) {
+    return this.toInventoryResponse(await this.inventoryService.reportFound(id, context.user.id));
+  }
+
+  @Mutation()
+  async retireSensor(
+    @Args('id') id: string,
+    @Args('notes') notes: string | undefined,
+    @Context() context: { user: any }
+  ) {
+    return this.toInventoryResponse(await this.inventoryService.retireSensor(id, context.user.id, notes));
+  }
+
+  /**
+   * Subscription for health metrics of a sensor, published by each health check
+   */
+  @Subscription()
+  async onSensorHealth(
+    @Args('id') id: string
+  ) {
+    return this.pubsub.asyncIterator(`${EVENTS.SENSOR_HEALTH}.${id}`);
+  }
+
+  /**
+   * Subscription for maintenance scheduled on sensors of teams the user administers
+   */
+  @Subscription()
+  async onMaintenanceNotification(
+    @Context() context: { user: any }
+  ) {
+    return this.pubsub.asyncIterator(`${EVENTS.MAINTENANCE_NOTIFICATION}.${context.user.id}`);
+  }
+
+  /**
+   * Subscription for calibration progress of a sensor
+   */
+  @Subscription()
+  async onCalibrationProgress(
+    @Args('id') id: string
+  ) {
+    return this.pubsub.asyncIterator(`${EVENTS.CALIBRATION_PROGRESS}.${id}`);
+  }
+
   /**
    * Subscription for real-time sensor data with backpressure handling
    * and performance optimization
@@ -190,6 +878,113 @@ export class SensorResolver {
     )();
   }
 
+  /**
+   * Lists registered firmware images, optionally only those compatible with a sensor type
+   */
+  @Query()
+  async firmwareImages(@Args('sensorType') sensorType?: string) {
+    const images = await this.firmwareService.listImages(
+      sensorType ? sensorType.toLowerCase() as SENSOR_TYPES : undefined
+    );
+    return images.map(image => ({
+      ...image,
+      sensorTypes: image.sensorTypes.map(type => type.toUpperCase())
+    }));
+  }
+
+  /**
+   * Retrieves a firmware rollout with the state of each sensor update
+   */
+  @Query()
+  async firmwareRollout(@Args('id') id: string) {
+    return this.toRolloutResponse(await this.firmwareService.getRollout(id));
+  }
+
+  /**
+   * Queues a firmware update of a sensor; progress follows on onFirmwareProgress
+   */
+  @Mutation()
+  async updateFirmware(
+    @Args('id') id: string,
+    @Args('version') version: string | undefined,
+    @Context() context: { user: any }
+  ) {
+    try {
+      const update = await this.firmwareService.updateSensor(id, version, context.user.id);
+      return {
+        success: true,
+        version: update.toVersion,
+        timestamp: update.createdAt,
+        updateId: update.id,
+        state: update.state.toUpperCase()
+      };
+    } catch (error) {
+      this.logger.error({
+        op: 'updateFirmware',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts a staged firmware rollout across a team's sensors
+   */
+  @Mutation()
+  async startFirmwareRollout(
+    @Args('input') input: { teamId: string; version: string; stages?: number[]; maxFailureRate?: number },
+    @Context() context: { user: any }
+  ) {
+    try {
+      const report = await this.firmwareService.startRollout(
+        input.teamId,
+        input.version,
+        {
+          ...(input.stages && { stages: input.stages }),
+          ...(input.maxFailureRate !== undefined && { maxFailureRate: input.maxFailureRate })
+        },
+        context.user.id
+      );
+      return this.toRolloutResponse(report);
+    } catch (error) {
+      this.logger.error({
+        op: 'startFirmwareRollout',
+        error: error instanceof Error ? error.message : String(error),
+        teamId: input.teamId
+      });
+      throw error;
+    }
+  }
+
+  @Mutation()
+  async pauseFirmwareRollout(@Args('id') id: string) {
+    await this.firmwareService.pauseRollout(id);
+    return this.toRolloutResponse(await this.firmwareService.getRollout(id));
+  }
+
+  @Mutation()
+  async resumeFirmwareRollout(@Args('id') id: string) {
+    await this.firmwareService.resumeRollout(id);
+    return this.toRolloutResponse(await this.firmwareService.getRollout(id));
+  }
+
+  @Mutation()
+  async cancelFirmwareRollout(@Args('id') id: string) {
+    await this.firmwareService.cancelRollout(id);
+    return this.toRolloutResponse(await this.firmwareService.getRollout(id));
+  }
+
+  /**
+   * Subscription for a sensor's firmware update progress
+   */
+  @Subscription()
+  async onFirmwareProgress(
+    @Args('id') id: string
+  ) {
+    return this.pubsub.asyncIterator(`${EVENTS.FIRMWARE_PROGRESS}.${id}`);
+  }
+
   /**
    * Subscription for sensor status updates
    */
@@ -199,4 +994,167 @@ export class SensorResolver {
   ) {
     return this.pubsub.asyncIterator(`${EVENTS.SENSOR_STATUS}.${id}`);
   }
-}
\ No newline at end of file
+
+  /**
+   * Maps a calibration version to the GraphQL CalibrationResult shape
+   */
+  private toCalibrationResult(record: ICalibrationVersion) {
+    return {
+      success: true,
+      calibrationId: record.id,
+      timestamp: record.createdAt,
+      params: {
+        ...record.params,
+        temperatureModel: record.params.temperatureModel
+          ? this.toTemperatureModelResponse(record.params.temperatureModel)
+          : null,
+        lastValidated: record.createdAt,
+        validationScore: record.qualityScore
+      },
+      quality: record.qualityScore,
+      version: record.version,
+      versionTag: CalibrationHistoryService.toVersionTag(record.version),
+      operatorId: record.operatorId,
+      environmentalConditions: record.environmentalConditions,
+      restoredFrom: record.restoredFrom
+    };
+  }
+
+  /**
+   * Maps a temperature model to the GraphQL TemperatureModel shape
+   */
+  private toTemperatureModelResponse(model: ITemperatureModel) {
+    return {
+      ...model,
+      sensorType: model.sensorType.toUpperCase(),
+      minTemperature: model.temperatureRange.min,
+      maxTemperature: model.temperatureRange.max,
+      residualDrift: {
+        ...model.residualDrift,
+        bands: model.residualDrift.bands.map(band => ({ ...band, band: band.band.toUpperCase() }))
+      }
+    };
+  }
+
+  /**
+   * Maps a garment template to the GraphQL GarmentTemplate shape
+   */
+  private toGarmentTemplateResponse(template: IGarmentTemplate) {
+    return {
+      ...template,
+      slots: template.slots.map(slot => ({
+        ...slot,
+        segment: slot.segment.toUpperCase(),
+        side: slot.side.toUpperCase(),
+        sensorType: slot.sensorType.toUpperCase()
+      }))
+    };
+  }
+
+  /**
+   * Maps a garment pairing to the GraphQL GarmentPairing shape
+   */
+  private toPairingResponse(pairing: IGarmentPairing) {
+    return {
+      ...pairing,
+      bindings: Object.entries(pairing.bindings).map(([slotId, sensorId]) => ({ slotId, sensorId }))
+    };
+  }
+
+  /**
+   * Maps stored sensor data metadata to the GraphQL SensorMetadata shape
+   */
+  private toMetadataResponse(metadata: ISensorMetadata) {
+    return {
+      ...metadata,
+      ...(metadata.placement ? { placement: this.toPlacementResponse(metadata.placement) } : {}),
+      ...(metadata.orientation
+        ? { orientation: { ...metadata.orientation, frame: metadata.orientation.frame.toUpperCase() } }
+        : {})
+    };
+  }
+
+  /**
+   * Maps a sensor placement to the GraphQL SensorPlacement shape
+   */
+  private toPlacementResponse(placement: ISensorPlacement) {
+    return {
+      ...placement,
+      segment: placement.segment.toUpperCase(),
+      side: placement.side.toUpperCase()
+    };
+  }
+
+  /**
+   * Maps an inventory sensor to the GraphQL InventorySensor shape
+   */
+  private toInventoryResponse(sensor: IInventorySensor) {
+    return {
+      ...sensor,
+      state: sensor.state.toUpperCase(),
+      assignment: sensor.assignment ? this.toAssignmentResponse(sensor.assignment) : null
+    };
+  }
+
+  /**
+   * Maps a sensor assignment to the GraphQL SensorAssignment shape
+   */
+  private toAssignmentResponse(assignment: ISensorAssignment) {
+    return {
+      ...assignment,
+      endReason: assignment.endReason?.toUpperCase() ?? null
+    };
+  }
+
+  /**
+   * Maps a maintenance entry to the GraphQL MaintenanceSchedule shape
+   */
+  private toMaintenanceResponse(entry: IMaintenanceSchedule) {
+    return {
+      ...entry,
+      reason: entry.reason.toUpperCase(),
+      status: entry.status.toUpperCase()
+    };
+  }
+
+  /**
+   * Maps a guided calibration run to the GraphQL CalibrationRun shape
+   */
+  private toCalibrationRunResponse(run: ICalibrationRun) {
+    return {
+      ...run,
+      status: run.status.toUpperCase(),
+      step: CALIBRATION_PROTOCOL.steps[run.stepIndex]!.id.toUpperCase(),
+      phase: run.phase.toUpperCase(),
+      results: run.results.map(result => this.toStepResultResponse(result))
+    };
+  }
+
+  /**
+   * Maps a calibration step result to the GraphQL CalibrationStepResult shape
+   */
+  private toStepResultResponse(result: ICalibrationStepResult) {
+    return { ...result, step: result.step.toUpperCase() };
+  }
+
+  /**
+   * Maps a rollout report to the GraphQL FirmwareRollout shape
+   */
+  private toRolloutResponse(report: IFirmwareRolloutReport) {
+    return {
+      ...report.rollout,
+      status: report.rollout.status.toUpperCase(),
+      stateCounts: {
+        queued: report.stateCounts.queued,
+        transferring: report.stateCounts.transferring,
+        verifying: report.stateCounts.verifying,
+        applied: report.stateCounts.applied,
+        rolledBack: report.stateCounts.rolled_back
+      },
+      updates: report.updates.map((update: IFirmwareUpdate) => ({
+        ...update,
+        state: update.state.toUpperCase()
+      }))
+    };
+  }
+}
@@ -6,19 +6,35 @@
  * @version 1.0.0
  */
 
-import { Resolver, Query, Mutation, Subscription, Args } from '@nestjs/graphql';
+import { Resolver, Query, Mutation, Subscription, Args, Context } from '@nestjs/graphql';
 import { Injectable, UseGuards } from '@nestjs/common';
 import { PubSub, withFilter } from 'graphql-subscriptions'; // v2.0.0
 import DataLoader from 'dataloader'; // v2.1.0
 import { Counter, Histogram } from '@opentelemetry/api'; // v1.4.0
 import { v4 as uuidv4 } from 'uuid'; // v9.0.0
 
-import { ISession, ISessionConfig } from '../../../interfaces/session.interface';
+import { ISession, ISessionConfig, ISessionMetrics, ISessionReplay } from '../../../interfaces/session.interface';
 import { SessionManager } from '../../../services/session/session.manager';
+import { SessionReplayService } from '../../../services/session/session.replay';
+import { FilterProfileService } from '../../../services/sensor/filter.profile.service';
+import { MovementEventService } from '../../../services/session/movement.event.service';
 import { SessionRepository } from '../../../db/repositories/session.repository';
+import { SensorRepository } from '../../../db/repositories/sensor.repository';
+import { ISessionGapReport, IFilterProfile, IFilterStage } from '../../../interfaces/sensor.interface';
+import { IMovementEvent, MovementEventType } from '../../../interfaces/movement.interface';
 import { AuthGuard } from '../../guards/auth.guard';
 import { PERFORMANCE_THRESHOLDS } from '../../../constants/system.constants';
 
+/**
+ * Session replay as exposed through GraphQL, with state mapped to the ReplayState enum
+ */
+type SessionReplayResponse = Omit<ISessionReplay, 'state'> & { state: string };
+
+/**
+ * Movement event as exposed through GraphQL, with type mapped to the MovementEventType enum
+ */
+type MovementEventResponse = Omit<IMovementEvent, 'type'> & { type: string };
+
 @Resolver('Session')
 @Injectable()
 export class SessionResolver {
@@ -31,7 +47,11 @@ export class SessionResolver {
         private readonly _sessionRepository: SessionRepository,
         private readonly _pubsub: PubSub,
         private readonly _metrics: any,
-        private readonly _cache: any
+        private readonly _cache: any,
+        private readonly _replayService: SessionReplayService,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _filterProfileService: FilterProfileService,
+        private readonly _movementEventService: MovementEventService
     ) {
         // Initialize DataLoader with batching and caching
         this._sessionLoader = new DataLoader(
@@ -155,6 +175,151 @@ export class SessionResolver {
         }
     }
 
+    @Query('sessionMetrics')
+    @UseGuards(AuthGuard)
+    async getSessionMetrics(
+        @Args('sessionId') sessionId: string,
+        @Args('metricType') metricType: string
+    ): Promise<ISessionMetrics> {
+        const startTime = performance.now();
+
+        try {
+            const metrics = await this._sessionRepository.getSessionMetrics(sessionId);
+            if (!metrics) {
+                throw new Error(`Metrics for session ${sessionId} not found`);
+            }
+            if (metricType === 'GAIT' && !metrics.gait) {
+                throw new Error(`Session ${sessionId} has no gait metrics`);
+            }
+            if (metricType === 'JUMP' && !metrics.jumps) {
+                throw new Error(`Session ${sessionId} has no jump metrics`);
+            }
+            return metrics;
+        } catch (error) {
+            console.error('Error retrieving session metrics:', error);
+            throw error;
+        } finally {
+            this._requestLatency.record(performance.now() - startTime);
+        }
+    }
+
+    @Query()
+    @UseGuards(AuthGuard)
+    async sessionGapReport(@Args('sessionId') sessionId: string): Promise<ISessionGapReport> {
+        const startTime = performance.now();
+
+        try {
+            return await this._sensorRepository.getSessionGapReport(sessionId);
+        } catch (error) {
+            console.error('Error retrieving session gap report:', error);
+            throw error;
+        } finally {
+            this._requestLatency.record(performance.now() - startTime);
+        }
+    }
+
+    @Query()
+    @UseGuards(AuthGuard)
+    async sessionEvents(
+        @Args('sessionId') sessionId: string,
+        @Args('type') type?: string,
+        @Args('from') from?: number,
+        @Args('to') to?: number
+    ): Promise<MovementEventResponse[]> {
+        const startTime = performance.now();
+
+        try {
+            const events = await this._movementEventService.getSessionEvents(sessionId, {
+                ...(type && { type: type.toLowerCase() as MovementEventType }),
+                ...(from != null && { from }),
+                ...(to != null && { to })
+            });
+            return events.map(event => this.toMovementEventResponse(event));
+        } catch (error) {
+            console.error('Error retrieving session movement events:', error);
+            throw error;
+        } finally {
+            this._requestLatency.record(performance.now() - startTime);
+        }
+    }
+
+    @Query()
+    @UseGuards(AuthGuard)
+    async sessionReplay(@Args('id') id: string): Promise<SessionReplayResponse> {
+        return this.toReplayResponse(this._replayService.getReplay(id));
+    }
+
+    @Query()
+    @UseGuards(AuthGuard)
+    async sessionReplays(@Args('sessionId') sessionId: string): Promise<SessionReplayResponse[]> {
+        return this._replayService.listReplays(sessionId).map(replay => this.toReplayResponse(replay));
+    }
+
+    @Mutation()
+    @UseGuards(AuthGuard)
+    async startSessionReplay(
+        @Args('input') input: { sessionId: string; speed?: number; asFastAsPossible?: boolean },
+        @Context() context: { user: any }
+    ): Promise<SessionReplayResponse> {
+        const startTime = performance.now();
+
+        try {
+            const speed = input.asFastAsPossible ? 'max' : input.speed;
+            const replay = await this._replayService.startReplay(input.sessionId, {
+                ...(speed !== undefined && { speed }),
+                requestedBy: context.user.id
+            });
+            return this.toReplayResponse(replay);
+        } catch (error) {
+            console.error('Error starting session replay:', error);
+            throw error;
+        } finally {
+            this._requestLatency.record(performance.now() - startTime);
+        }
+    }
+
+    @Mutation()
+    @UseGuards(AuthGuard)
+    async pauseSessionReplay(@Args('id') id: string): Promise<SessionReplayResponse> {
+        return this.toReplayResponse(this._replayService.pauseReplay(id));
+    }
+
+    @Mutation()
+    @UseGuards(AuthGuard)
+    async resumeSessionReplay(@Args('id') id: string): Promise<SessionReplayResponse> {
+        return this.toReplayResponse(this._replayService.resumeReplay(id));
+    }
+
+    @Mutation()
+    @UseGuards(AuthGuard)
+    async stopSessionReplay(@Args('id') id: string): Promise<SessionReplayResponse> {
+        return this.toReplayResponse(this._replayService.stopReplay(id));
+    }
+
+    @Query()
+    @UseGuards(AuthGuard)
+    async filterProfiles(): Promise<IFilterProfile[]> {
+        return this._filterProfileService.listProfiles();
+    }
+
+    @Mutation()
+    @UseGuards(AuthGuard)
+    async saveFilterProfile(
+        @Args('input') input: { name: string; description?: string; chains: Record<string, IFilterStage[]> },
+        @Context() context: { user: any }
+    ): Promise<IFilterProfile> {
+        const startTime = performance.now();
+
+        try {
+            return await this._filterProfileService.saveProfile(input, context.user.id);
+        } catch (error) {
+            console.error('Error saving filter profile:', error);
+            throw error;
+        } finally {
+            this._requestLatency.record(performance.now() - startTime);
+        }
+    }
+
     @Subscription(() => ISession)
     @UseGuards(AuthGuard)
     sessionUpdated(
@@ -192,6 +357,26 @@ export class SessionResolver {
         );
     }
 
+    /**
+     * Maps replay state onto the ReplayState enum values exposed by the schema
+     */
+    private toReplayResponse(replay: ISessionReplay): SessionReplayResponse {
+        return {
+            ...replay,
+            state: replay.state.toUpperCase()
+        };
+    }
+
+    /**
+     * Maps the event type onto the MovementEventType enum values exposed by the schema
+     */
+    private toMovementEventResponse(event: IMovementEvent): MovementEventResponse {
+        return {
+            ...event,
+            type: event.type.toUpperCase()
+        };
+    }
+
     /**
      * Cleanup subscription resources on client disconnect
      */
@@ -116,6 +116,84 @@ export const athleteTypeDefs = gql`
     updatedAt: Date!
   }
 
+  """
+  Averaging of acute and chronic training loads
+  """
+  enum TrainingLoadModel {
+    EWMA
+    ROLLING
+  }
+
+  """
+  Whether the chronic load includes the acute window
+  """
+  enum TrainingLoadCoupling {
+    COUPLED
+    UNCOUPLED
+  }
+
+  type AcwrBand {
+    lower: Float!
+    upper: Float!
+  }
+
+  """
+  Daily load with the rolling loads as of the end of the day
+  """
+  type TrainingLoadDay {
+    date: String!
+    load: Float!
+    acute: Float!
+    chronic: Float!
+    acwr: Float
+  }
+
+  """
+  Longitudinal training load with acute:chronic workload ratio, monotony and strain
+  """
+  type AthleteTrainingLoad @auth(requires: USER) {
+    athleteId: ID!
+    asOf: String!
+    model: TrainingLoadModel!
+    coupling: TrainingLoadCoupling!
+    acwrBand: AcwrBand!
+    historyDays: Int!
+    acuteLoad: Float!
+    chronicLoad: Float!
+    acwr: Float
+    weeklyLoad: Float!
+    monotony: Float
+    strain: Float
+    series: [TrainingLoadDay!]!
+  }
+
+  """
+  Immutable baseline version with the statistics and sessions it was learned from
+  """
+  type BaselineVersion @auth(requires: USER) {
+    version: Int!
+    baseline: JSON!
+    statistics: JSON!
+    provenance: JSON!
+    createdAt: Date!
+  }
+
+  type BaselineState {
+    activeVersion: Int
+    pinned: Boolean!
+    frozen: Boolean!
+    updatedBy: String
+    updatedAt: Date!
+  }
+
+  """
+  Baseline state with the athlete's baseline versions, newest first
+  """
+  type AthleteBaselines @auth(requires: USER) {
+    state: BaselineState!
+    versions: [BaselineVersion!]!
+  }
+
   """
   Input types for mutations
   """
@@ -159,6 +237,14 @@ export const athleteTypeDefs = gql`
     athleteBaseline(id: ID!): BaselineData @auth(requires: USER)
     athletePerformance(id: ID!): JSON @auth(requires: USER)
     athletePrivacySettings(id: ID!): JSON @auth(requires: USER)
+    athleteTrainingLoad(
+      id: ID!
+      model: TrainingLoadModel
+      coupling: TrainingLoadCoupling
+      teamId: ID
+      asOf: String
+    ): AthleteTrainingLoad @auth(requires: USER)
+    athleteBaselines(id: ID!): AthleteBaselines @auth(requires: USER)
   }
 
   """
@@ -184,6 +270,18 @@ export const athleteTypeDefs = gql`
     updatePrivacySettings(id: ID!, settings: PrivacyInput!): JSON 
       @auth(requires: USER)
       @rateLimit(max: 50, window: "1h")
+
+    pinAthleteBaseline(id: ID!, version: Int): BaselineState
+      @auth(requires: COACH)
+      @rateLimit(max: 50, window: "1h")
+
+    freezeAthleteBaseline(id: ID!, frozen: Boolean!): BaselineState
+      @auth(requires: COACH)
+      @rateLimit(max: 50, window: "1h")
+
+    revertAthleteBaseline(id: ID!, version: Int!): BaselineVersion
+      @auth(requires: COACH)
+      @rateLimit(max: 50, window: "1h")
   }
 
   """
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview GraphQL schema definitions for admin management of dead-lettered Kafka messages
+ * Exposes messages that workers could not parse or process for inspection, re-queueing and discard
+ * @version 1.0.0
+ */
+
+import { gql } from 'graphql-tag'; // ^2.12.6
+
+export const deadLetterSchema = gql`
+  """
+  Category of the failure that dead-lettered a message
+  """
+  enum DeadLetterErrorType {
+    PARSE_ERROR
+    VALIDATION_ERROR
+    PROCESSING_ERROR
+  }
+
+  """
+  Admin lifecycle of a dead-lettered message
+  """
+  enum DeadLetterStatus {
+    PENDING
+    REQUEUED
+    DISCARDED
+  }
+
+  """
+  Kafka message that a worker could not handle, with its failure context
+  """
+  type DeadLetterMessage {
+    id: ID!
+    sourceTopic: String!
+    sourcePartition: Int!
+    sourceOffset: String!
+    workerName: String!
+    errorType: DeadLetterErrorType!
+    errorMessage: String!
+    retryCount: Int!
+    attempts: Int!
+    failedAt: DateTime!
+    key: String
+    payload: String!
+    headers: JSON!
+    status: DeadLetterStatus!
+    resolvedBy: ID
+    resolvedAt: DateTime
+    discardReason: String
+  }
+
+  """
+  Paginated list of dead-lettered messages
+  """
+  type DeadLetterConnection {
+    messages: [DeadLetterMessage!]!
+    total: Int!
+  }
+
+  """
+  Filter options for listing dead-lettered messages
+  """
+  input DeadLetterFilterInput {
+    status: DeadLetterStatus
+    workerName: String
+    sourceTopic: String
+    errorType: DeadLetterErrorType
+    limit: Int
+    offset: Int
+  }
+
+  type Query {
+    """
+    Retrieve dead-lettered messages, most recent failures first
+    """
+    deadLetterMessages(filter: DeadLetterFilterInput): DeadLetterConnection!
+
+    """
+    Retrieve a single dead-lettered message by ID
+    """
+    deadLetterMessage(id: ID!): DeadLetterMessage!
+  }
+
+  type Mutation {
+    """
+    Re-publish a dead-lettered message to its source topic
+    """
+    requeueDeadLetterMessage(id: ID!): DeadLetterMessage!
+
+    """
+    Discard a dead-lettered message
+    """
+    discardDeadLetterMessage(
+      id: ID!
+      reason: String
+    ): DeadLetterMessage!
+  }
+`;
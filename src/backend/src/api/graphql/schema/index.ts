@@ -12,6 +12,7 @@ import { GraphQLSchema, validateSchema } from 'graphql'; // v16.8.0
 import { alertSchema } from './alert.schema';
 import { athleteSchema } from './athlete.schema';
 import { sensorSchema } from './sensor.schema';
+import { deadLetterSchema } from './dead-letter.schema';
 
 /**
  * Base schema containing common types, directives and access control definitions
@@ -131,7 +132,8 @@ function createSchema(): GraphQLSchema {
       BASE_SCHEMA,
       alertSchema,
       athleteSchema,
-      sensorSchema
+      sensorSchema,
+      deadLetterSchema
     ]);
 
     // Validate merged schema types
@@ -173,5 +175,6 @@ export const schema = createSchema();
 export {
   alertSchema,
   athleteSchema,
-  sensorSchema
+  sensorSchema,
+  deadLetterSchema
 };
\ No newline at end of file
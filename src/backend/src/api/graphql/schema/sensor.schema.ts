@@ -21,6 +21,158 @@ const sensorSchema = gql`
     ACTIVE
     ERROR
     MAINTENANCE
+    UPDATING
+  }
+
+  """
+  Enumeration of firmware update states for a single sensor
+  """
+  enum FirmwareUpdateState {
+    QUEUED
+    TRANSFERRING
+    VERIFYING
+    APPLIED
+    ROLLED_BACK
+  }
+
+  """
+  Enumeration of staged firmware rollout states
+  """
+  enum FirmwareRolloutStatus {
+    RUNNING
+    PAUSED
+    HALTED
+    COMPLETED
+    CANCELLED
+  }
+
+  """
+  Enumeration of guided calibration protocol steps
+  """
+  enum CalibrationStep {
+    STATIC_STAND
+    T_POSE
+    SQUAT
+    WALK
+  }
+
+  """
+  Enumeration of guided calibration run states
+  """
+  enum CalibrationRunStatus {
+    RUNNING
+    COMPLETED
+    FAILED
+    CANCELLED
+  }
+
+  """
+  Enumeration of the phases of a guided calibration step
+  """
+  enum CalibrationStepPhase {
+    PREPARING
+    CAPTURING
+    EVALUATING
+  }
+
+  """
+  Temperature bands residual drift is reported for
+  """
+  enum TemperatureBand {
+    COLD
+    NORMAL
+    HOT
+  }
+
+  """
+  Reasons maintenance is scheduled; every reason except MANUAL is raised by health checks
+  """
+  enum MaintenanceReason {
+    BATTERY
+    CALIBRATION
+    PACKET_LOSS
+    ERRORS
+    HEALTH
+    MANUAL
+  }
+
+  """
+  Lifecycle of a maintenance entry
+  """
+  enum MaintenanceStatus {
+    SCHEDULED
+    COMPLETED
+    CANCELLED
+  }
+
+  """
+  Body segments garment template slots place sensors on
+  """
+  enum BodySegment {
+    HEAD
+    TRUNK
+    PELVIS
+    UPPER_ARM
+    FOREARM
+    HAND
+    THIGH
+    SHANK
+    FOOT
+  }
+
+  """
+  Body side of a garment slot; CENTER is used for midline segments
+  """
+  enum BodySide {
+    LEFT
+    RIGHT
+    CENTER
+  }
+
+  """
+  Frame of fused IMU orientations: the body segment when the sensor's placement is known
+  """
+  enum OrientationFrame {
+    SEGMENT
+    SENSOR
+  }
+
+  """
+  Inventory state of a team sensor
+  """
+  enum InventoryState {
+    AVAILABLE
+    CHECKED_OUT
+    LOST
+    RETIRED
+  }
+
+  """
+  Why a sensor assignment ended
+  """
+  enum AssignmentEndReason {
+    RETURNED
+    LOST
+  }
+
+  """
+  Health state of a sensor health metric
+  """
+  enum HealthStatus {
+    HEALTHY
+    DEGRADED
+    CRITICAL
+  }
+
+  """
+  Enumeration of stored sensor data resolutions
+  """
+  enum SensorDataResolution {
+    AUTO
+    RAW
+    SECOND
+    MINUTE
+    HOUR
   }
 
   """
@@ -43,8 +195,22 @@ const sensorSchema = gql`
   """
   input SensorDataFilter {
     minQuality: Float
+    """
+    Reading types to return
+    """
     types: [SensorType!]
+    """
+    Minimum reading confidence; rollup points are filtered on their mean confidence
+    """
     minConfidence: Float
+    """
+    Resolution to read; AUTO picks the finest resolution that fits maxPoints
+    """
+    resolution: SensorDataResolution
+    """
+    Maximum number of data points to return
+    """
+    maxPoints: Int
   }
 
   """
@@ -56,6 +222,44 @@ const sensorSchema = gql`
     calibrationParams: CalibrationParamsInput!
   }
 
+  """
+  Input type for the mounting orientation of a slot's sensor, in degrees
+  """
+  input SlotOrientationInput {
+    roll: Float!
+    pitch: Float!
+    yaw: Float!
+  }
+
+  """
+  Input type for a garment template slot
+  """
+  input GarmentSlotInput {
+    id: String!
+    segment: BodySegment!
+    side: BodySide!
+    orientation: SlotOrientationInput!
+    sensorType: SensorType!
+    label: String
+  }
+
+  """
+  Input type for garment template registration
+  """
+  input GarmentTemplateInput {
+    name: String!
+    description: String
+    slots: [GarmentSlotInput!]!
+  }
+
+  """
+  Input type binding a physical sensor to a template slot
+  """
+  input SlotBindingInput {
+    slotId: String!
+    sensorId: ID!
+  }
+
   """
   Input type for calibration parameters
   """
@@ -65,6 +269,24 @@ const sensorSchema = gql`
     pressureThreshold: Float!
     sampleWindow: Int!
     filterCutoff: Float!
+    calibrationMatrix: [[Float!]!]
+    temperatureCompensation: Float
+  }
+
+  """
+  Input type for starting a staged firmware rollout
+  """
+  input FirmwareRolloutInput {
+    teamId: ID!
+    version: String!
+    """
+    Cumulative percentage of the team's sensors updated by the end of each stage; must end at 100
+    """
+    stages: [Int!]
+    """
+    Share of failed updates in a stage (0-1) that halts the rollout
+    """
+    maxFailureRate: Float
   }
 
   """
@@ -74,6 +296,10 @@ const sensorSchema = gql`
     scheduledTime: DateTime!
     description: String!
     duration: Int!
+    """
+    Priority from 1 (low) to 5 (urgent); defaults to 2
+    """
+    priority: Int
   }
 
   """
@@ -101,10 +327,89 @@ const sensorSchema = gql`
     pressureThreshold: Float!
     sampleWindow: Int!
     filterCutoff: Float!
+    calibrationMatrix: [[Float!]!]
+    temperatureCompensation: Float
+    """
+    Fitted temperature-to-bias model applied to readings before filtering
+    """
+    temperatureModel: TemperatureModel
     lastValidated: DateTime!
     validationScore: Float!
   }
 
+  """
+  Type for the fitted temperature-to-bias curve of one reading channel
+  """
+  type TemperatureChannelModel {
+    channel: Int!
+    """
+    Polynomial coefficients of the bias in °C from the reference temperature, constant term first
+    """
+    coefficients: [Float!]!
+  }
+
+  """
+  Type for the bias left after compensation within one temperature band
+  """
+  type TemperatureBandDrift {
+    band: TemperatureBand!
+    minTemperature: Float
+    maxTemperature: Float
+    sampleCount: Int!
+    """
+    Largest residual bias in the band, absent when the band was not observed
+    """
+    maxResidual: Float
+    withinSpec: Boolean
+  }
+
+  """
+  Type for the bias left after temperature compensation
+  """
+  type TemperatureDriftReport {
+    """
+    Residual bias allowed for the sensor type
+    """
+    spec: Float!
+    rmsResidual: Float!
+    maxResidual: Float!
+    bands: [TemperatureBandDrift!]!
+    withinSpec: Boolean!
+  }
+
+  """
+  Type for a sensor's temperature compensation model
+  """
+  type TemperatureModel {
+    sensorType: SensorType!
+    """
+    Environmental factor the model was fitted against
+    """
+    factor: String!
+    referenceTemperature: Float!
+    minTemperature: Float!
+    maxTemperature: Float!
+    channels: [TemperatureChannelModel!]!
+    sampleCount: Int!
+    residualDrift: TemperatureDriftReport!
+    fittedAt: DateTime!
+  }
+
+  """
+  Type for the temperature compensation applied to a packet
+  """
+  type TemperatureCompensation {
+    factor: String!
+    temperature: Float!
+    band: TemperatureBand!
+    """
+    Bias removed from each compensated channel, by channel index
+    """
+    corrections: JSON!
+    extrapolated: Boolean!
+    withinSpec: Boolean
+  }
+
   """
   Type for sensor reading data
   """
@@ -125,6 +430,173 @@ const sensorSchema = gql`
     quality: Float!
     sensorHealth: Float!
     environmentalConditions: JSON
+    temperatureCompensation: TemperatureCompensation
+    placement: SensorPlacement
+    """
+    Athlete the sensor was checked out to when the data was recorded
+    """
+    athleteId: ID
+    orientation: OrientationEstimate
+  }
+
+  """
+  Type for a unit orientation quaternion, body frame to world frame
+  """
+  type Quaternion {
+    w: Float!
+    x: Float!
+    y: Float!
+    z: Float!
+  }
+
+  """
+  Type for ZYX Euler angles in degrees
+  """
+  type EulerAngles {
+    roll: Float!
+    pitch: Float!
+    yaw: Float!
+  }
+
+  """
+  Type for the fused orientation at one IMU reading
+  """
+  type OrientationSample {
+    timestamp: Float!
+    quaternion: Quaternion!
+    euler: EulerAngles!
+  }
+
+  """
+  Type for the orientation fusion output of a processed IMU packet
+  """
+  type OrientationEstimate {
+    frame: OrientationFrame!
+    """
+    Estimated gyro bias per axis in deg/s
+    """
+    gyroBias: [Float!]!
+    samples: [OrientationSample!]!
+  }
+
+  """
+  Type for the mounting orientation of a slot's sensor, in degrees
+  """
+  type SlotOrientation {
+    roll: Float!
+    pitch: Float!
+    yaw: Float!
+  }
+
+  """
+  Type for a named sensor slot of a garment template
+  """
+  type GarmentSlot {
+    id: String!
+    segment: BodySegment!
+    side: BodySide!
+    orientation: SlotOrientation!
+    sensorType: SensorType!
+    label: String
+  }
+
+  """
+  Type for a garment model with its sensor slots
+  """
+  type GarmentTemplate {
+    id: ID!
+    name: String!
+    description: String
+    slots: [GarmentSlot!]!
+    createdBy: ID!
+    createdAt: DateTime!
+  }
+
+  """
+  Type for a sensor bound to a template slot
+  """
+  type SlotBinding {
+    slotId: String!
+    sensorId: ID!
+  }
+
+  """
+  Type for the physical sensors of a garment bound to its template's slots
+  """
+  type GarmentPairing {
+    id: ID!
+    templateId: ID!
+    athleteId: ID
+    bindings: [SlotBinding!]!
+    pairedBy: ID!
+    pairedAt: DateTime!
+    unpairedAt: DateTime
+  }
+
+  """
+  Type for the placement of a paired sensor, resolved through its garment template
+  """
+  type SensorPlacement {
+    sensorId: ID!
+    pairingId: ID!
+    templateId: ID!
+    templateName: String!
+    slotId: String!
+    segment: BodySegment!
+    side: BodySide!
+    orientation: SlotOrientation!
+    """
+    Canonical location key shared by all garments, e.g. left_thigh or trunk
+    """
+    location: String!
+  }
+
+  """
+  Heat map cell of a body segment, in the layout shared by all garments
+  """
+  type SegmentHeatMapCell {
+    location: String!
+    segment: BodySegment!
+    side: BodySide!
+    row: Int!
+    col: Int!
+    """
+    Mean reading of the segment's sensors
+    """
+    value: Float!
+    sensorCount: Int!
+  }
+
+  """
+  Type for a checkout of a sensor to an athlete
+  """
+  type SensorAssignment {
+    id: ID!
+    sensorId: ID!
+    athleteId: ID!
+    teamId: ID!
+    checkedOutAt: DateTime!
+    checkedOutBy: ID!
+    returnedAt: DateTime
+    endReason: AssignmentEndReason
+    returnedBy: ID
+  }
+
+  """
+  Type for a sensor in a team's inventory
+  """
+  type InventorySensor {
+    sensorId: ID!
+    teamId: ID!
+    state: InventoryState!
+    notes: String
+    registeredBy: ID!
+    registeredAt: DateTime!
+    stateChangedAt: DateTime!
+    """
+    Open assignment while the sensor is checked out
+    """
+    assignment: SensorAssignment
   }
 
   """
@@ -137,6 +609,34 @@ const sensorSchema = gql`
     metadata: SensorMetadata!
     quality: Float!
     processingLatency: Float!
+    """
+    Bucket aggregates when the data was read from a rollup
+    """
+    rollup: SensorDataRollup
+  }
+
+  """
+  Type for the aggregate values of a downsampled sensor data bucket
+  """
+  type SensorDataRollup {
+    packetCount: Int!
+    readingCount: Int!
+    minQuality: Float!
+    maxQuality: Float!
+    """
+    Mean, minimum and maximum of each reading value channel over the bucket
+    """
+    channels: [SensorChannelAggregate!]!
+  }
+
+  """
+  Type for the aggregate values of one reading value channel over a bucket
+  """
+  type SensorChannelAggregate {
+    channel: Int!
+    avg: Float!
+    min: Float!
+    max: Float!
   }
 
   """
@@ -146,6 +646,8 @@ const sensorSchema = gql`
     edges: [SensorData!]!
     pageInfo: PageInfo!
     totalCount: Int!
+    resolution: SensorDataResolution!
+    bucketMs: Int!
   }
 
   """
@@ -165,6 +667,43 @@ const sensorSchema = gql`
     timestamp: DateTime!
     params: CalibrationParams!
     quality: Float!
+    """
+    Calibration version number within the sensor's history
+    """
+    version: Int
+    """
+    Tag stamped as calibrationVersion on data recorded with this calibration
+    """
+    versionTag: String
+    operatorId: ID
+    environmentalConditions: JSON
+    """
+    Version whose parameters were restored, when this calibration is a rollback
+    """
+    restoredFrom: Int
+  }
+
+  """
+  Type for the change of one calibration parameter between two versions
+  """
+  type CalibrationParamChange {
+    """
+    Parameter name; matrix cells are named calibrationMatrix[row][column]
+    """
+    param: String!
+    from: Float
+    to: Float
+    delta: Float
+  }
+
+  """
+  Type for the parameter changes between two calibration versions
+  """
+  type CalibrationDiff {
+    sensorId: ID!
+    fromVersion: Int!
+    toVersion: Int!
+    changes: [CalibrationParamChange!]!
   }
 
   """
@@ -175,6 +714,61 @@ const sensorSchema = gql`
     progress: Float!
     currentStep: String!
     estimatedTimeRemaining: Int!
+    """
+    Guided protocol fields, absent for manual calibrations
+    """
+    runId: ID
+    status: CalibrationRunStatus
+    step: CalibrationStep
+    stepIndex: Int
+    totalSteps: Int
+    attempt: Int
+    maxAttempts: Int
+    phase: CalibrationStepPhase
+    """
+    What the athlete should do during the current step
+    """
+    instruction: String
+    """
+    Result of the capture just evaluated
+    """
+    result: CalibrationStepResult
+    version: Int
+    error: String
+  }
+
+  """
+  Type for the result of one capture of a guided calibration step
+  """
+  type CalibrationStepResult {
+    step: CalibrationStep!
+    attempt: Int!
+    passed: Boolean!
+    sampleCount: Int!
+    metrics: JSON!
+    failures: [String!]!
+  }
+
+  """
+  Type for a guided calibration run of a sensor
+  """
+  type CalibrationRun {
+    id: ID!
+    sensorId: ID!
+    operatorId: ID!
+    status: CalibrationRunStatus!
+    step: CalibrationStep!
+    stepIndex: Int!
+    attempt: Int!
+    phase: CalibrationStepPhase!
+    results: [CalibrationStepResult!]!
+    """
+    Calibration version recorded when the run completed
+    """
+    version: Int
+    error: String
+    startedAt: DateTime!
+    finishedAt: DateTime
   }
 
   """
@@ -193,28 +787,148 @@ const sensorSchema = gql`
     success: Boolean!
     version: String!
     timestamp: DateTime!
+    updateId: ID
+    state: FirmwareUpdateState
+  }
+
+  """
+  Type for a registered firmware image
+  """
+  type FirmwareImage {
+    id: ID!
+    version: String!
+    checksum: String!
+    sensorTypes: [SensorType!]!
+    sizeBytes: Int!
+    releaseNotes: String
+    createdAt: DateTime!
+  }
+
+  """
+  Type for a single sensor's firmware update
+  """
+  type FirmwareUpdate {
+    id: ID!
+    sensorId: ID!
+    stage: Int!
+    fromVersion: String!
+    toVersion: String!
+    state: FirmwareUpdateState!
+    progress: Int!
+    error: String
+    updatedAt: DateTime!
+  }
+
+  """
+  Type for the number of sensor updates in each state
+  """
+  type FirmwareUpdateCounts {
+    queued: Int!
+    transferring: Int!
+    verifying: Int!
+    applied: Int!
+    rolledBack: Int!
+  }
+
+  """
+  Type for a staged firmware rollout across a team's sensors
+  """
+  type FirmwareRollout {
+    id: ID!
+    teamId: ID!
+    version: String!
+    stages: [Int!]!
+    currentStage: Int!
+    status: FirmwareRolloutStatus!
+    maxFailureRate: Float!
+    haltReason: String
+    stateCounts: FirmwareUpdateCounts!
+    updates: [FirmwareUpdate!]!
+    createdAt: DateTime!
+  }
+
+  """
+  Type for firmware update progress events
+  """
+  type FirmwareProgress {
+    updateId: ID!
+    rolloutId: ID
+    sensorId: ID!
+    state: FirmwareUpdateState!
+    progress: Int!
+    version: String!
+    error: String
+    timestamp: DateTime!
   }
 
   """
   Type for maintenance schedule
   """
   type MaintenanceSchedule {
+    id: ID!
     sensorId: ID!
     scheduledTime: DateTime!
     description: String!
     duration: Int!
     priority: Int!
+    reason: MaintenanceReason!
+    status: MaintenanceStatus!
+    createdBy: ID
+    createdAt: DateTime!
+    completedAt: DateTime
   }
 
   """
-  Type for sensor health report
+  Type for maintenance notifications sent to team admins
+  """
+  type MaintenanceNotification {
+    maintenance: MaintenanceSchedule!
+    teamId: ID!
+  }
+
+  """
+  Type for battery life forecasts
+  """
+  type BatteryForecast {
+    level: Float!
+    """
+    Discharge rate in %/h, null without a long enough discharge
+    """
+    dischargeRate: Float
+    remainingHours: Float
+    hoursToLow: Float
+  }
+
+  """
+  Type for recalibration forecasts
+  """
+  type CalibrationForecast {
+    lastCalibration: DateTime
+    qualityScore: Float
+    """
+    Change of the calibration quality score per day over recent versions
+    """
+    qualityTrend: Float
+    dueAt: DateTime!
+    daysRemaining: Float!
+    temperatureWithinSpec: Boolean
+  }
+
+  """
+  Type for sensor health report. Scores range from 0 (failing) to 100 (healthy).
   """
   type SensorHealthReport {
     sensorId: ID!
+    evaluatedAt: DateTime!
     overallHealth: Float!
     batteryHealth: Float!
     calibrationHealth: Float!
     connectionQuality: Float!
+    errorHealth: Float!
+    packetLoss: Float!
+    errorsPerDay: Float!
+    battery: BatteryForecast!
+    calibration: CalibrationForecast!
     lastMaintenance: DateTime
     recommendations: [String!]!
   }
@@ -227,7 +941,7 @@ const sensorSchema = gql`
     timestamp: DateTime!
     metric: String!
     value: Float!
-    status: SensorStatus!
+    status: HealthStatus!
   }
 
   """
@@ -242,9 +956,41 @@ const sensorSchema = gql`
       end: Float
       filter: SensorDataFilter
       pagination: PaginationInput
+      """
+      endCursor of the previous page, continuing the read at the same resolution
+      """
+      after: String
     ): SensorDataConnection!
     getCalibrationHistory(id: ID!): [CalibrationResult!]!
+    calibrationDiff(id: ID!, fromVersion: Int!, toVersion: Int!): CalibrationDiff!
+    calibrationRun(id: ID!): CalibrationRun!
+    temperatureModel(id: ID!): TemperatureModel!
     getSensorHealth(id: ID!): SensorHealthReport!
+    maintenanceSchedule(id: ID!, status: MaintenanceStatus): [MaintenanceSchedule!]!
+    firmwareImages(sensorType: SensorType): [FirmwareImage!]!
+    garmentTemplates: [GarmentTemplate!]!
+    garmentTemplate(id: ID!): GarmentTemplate!
+    garmentPairing(id: ID!): GarmentPairing!
+    """
+    Placement of a sensor through its garment pairing, null when the sensor is not paired
+    """
+    sensorPlacement(id: ID!): SensorPlacement
+    """
+    Segment heat map of a session's stored data, laid out by garment template placement
+    """
+    sessionHeatMap(sessionId: ID!, sensorType: SensorType): [SegmentHeatMapCell!]!
+    sensorInventory(teamId: ID!, state: InventoryState): [InventorySensor!]!
+    inventorySensor(id: ID!): InventorySensor!
+    sensorAssignments(id: ID!, start: DateTime, end: DateTime): [SensorAssignment!]!
+    """
+    Sensors an athlete wore during a time range, for attributing their data
+    """
+    athleteSensorAssignments(athleteId: ID!, start: DateTime!, end: DateTime!): [SensorAssignment!]!
+    """
+    Athlete a sensor was checked out to at a time (Unix ms), null when it was not checked out
+    """
+    sensorAthlete(id: ID!, at: Float!): ID
+    firmwareRollout(id: ID!): FirmwareRollout!
   }
 
   """
@@ -252,11 +998,53 @@ const sensorSchema = gql`
   """
   type Mutation {
     configureSensor(id: ID!, config: SensorConfigInput!): SensorConfig!
-    calibrateSensor(id: ID!, params: CalibrationParamsInput!): CalibrationResult!
+    calibrateSensor(id: ID!, params: CalibrationParamsInput!, conditions: JSON): CalibrationResult!
+    """
+    Restores the parameters of an earlier calibration version as the sensor's next version
+    """
+    rollbackCalibration(id: ID!, version: Int!): CalibrationResult!
+    """
+    Starts the guided calibration protocol; progress follows on onCalibrationProgress
+    """
+    startCalibrationProtocol(id: ID!): CalibrationRun!
+    cancelCalibrationProtocol(id: ID!): CalibrationRun!
+    """
+    Fits the sensor's temperature model from data logged between start and end (Unix ms)
+    and applies it as the sensor's next calibration version
+    """
+    fitTemperatureModel(id: ID!, start: Float!, end: Float!, sessionId: ID): CalibrationResult!
     startSensor(id: ID!): OperationResult!
     stopSensor(id: ID!): OperationResult!
-    updateFirmware(id: ID!): UpdateResult!
+    """
+    Updates a sensor to the given firmware version, or the newest compatible version
+    """
+    updateFirmware(id: ID!, version: String): UpdateResult!
+    startFirmwareRollout(input: FirmwareRolloutInput!): FirmwareRollout!
+    pauseFirmwareRollout(id: ID!): FirmwareRollout!
+    """
+    Resumes a paused rollout, or continues a halted rollout with its next stage
+    """
+    resumeFirmwareRollout(id: ID!): FirmwareRollout!
+    cancelFirmwareRollout(id: ID!): FirmwareRollout!
     scheduleMaintenance(id: ID!, schedule: MaintenanceInput!): MaintenanceSchedule!
+    createGarmentTemplate(input: GarmentTemplateInput!): GarmentTemplate!
+    """
+    Binds the physical sensors of a garment to its template's slots
+    """
+    pairGarment(templateId: ID!, bindings: [SlotBindingInput!]!, athleteId: ID): GarmentPairing!
+    unpairGarment(id: ID!): GarmentPairing!
+    registerSensors(teamId: ID!, sensorIds: [ID!]!): [InventorySensor!]!
+    transferSensor(id: ID!, teamId: ID!): InventorySensor!
+    """
+    Checks a sensor out to an athlete; a past time records a swap after the fact
+    """
+    checkoutSensor(id: ID!, athleteId: ID!, at: DateTime): SensorAssignment!
+    returnSensor(id: ID!, at: DateTime): SensorAssignment!
+    reportSensorLost(id: ID!, notes: String): InventorySensor!
+    reportSensorFound(id: ID!): InventorySensor!
+    retireSensor(id: ID!, notes: String): InventorySensor!
+    completeMaintenance(maintenanceId: ID!): MaintenanceSchedule!
+    cancelMaintenance(maintenanceId: ID!): MaintenanceSchedule!
   }
 
   """
@@ -267,6 +1055,11 @@ const sensorSchema = gql`
     onSensorStatusChange(id: ID!): SensorStatus!
     onCalibrationProgress(id: ID!): CalibrationProgress!
     onSensorHealth(id: ID!): SensorHealthUpdate!
+    """
+    Maintenance scheduled by health checks on sensors of teams the user administers
+    """
+    onMaintenanceNotification: MaintenanceNotification!
+    onFirmwareProgress(id: ID!): FirmwareProgress!
   }
 `;
 
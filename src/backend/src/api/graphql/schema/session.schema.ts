@@ -41,6 +41,8 @@ export const sessionSchema = gql`
     FORCE_DISTRIBUTION
     RANGE_OF_MOTION
     KINEMATIC
+    GAIT
+    JUMP
   }
 
   """
@@ -58,7 +60,9 @@ export const sessionSchema = gql`
   type SessionMetrics {
     muscleActivity: MuscleActivityMetrics!
     forceDistribution: ForceDistributionMetrics!
-    rangeOfMotion: RangeOfMotionMetrics!
+    rangeOfMotion: [RangeOfMotionMetrics!]!
+    gait: GaitAnalysis
+    jumps: JumpAnalysis
     anomalyScores: AnomalyScores!
     performanceIndicators: PerformanceIndicators!
   }
@@ -84,13 +88,140 @@ export const sessionSchema = gql`
   }
 
   """
-  Type for range of motion tracking
+  Type for the range of motion of one joint angle, in degrees
   """
   type RangeOfMotionMetrics {
+    """
+    Side, joint and movement, e.g. left_knee_flexion
+    """
+    jointId: String!
+    """
+    hip, knee or ankle
+    """
+    joint: String!
+    side: String!
+    """
+    Anatomical plane: sagittal, frontal or transverse
+    """
+    plane: String!
+    """
+    flexion, abduction or dorsiflexion
+    """
+    movement: String!
+    """
+    Range of motion of the latest repetition, or of the window without repetitions
+    """
     current: Float!
+    min: Float!
+    max: Float!
+    """
+    Mean repetition range of motion
+    """
     baseline: Float!
     deviation: Float!
-    timestamp: DateTime!
+    reps: [JointRepetition!]!
+  }
+
+  """
+  Type for the range of motion of one repetition, trough to trough
+  """
+  type JointRepetition {
+    start: Float!
+    peak: Float!
+    end: Float!
+    min: Float!
+    max: Float!
+    rom: Float!
+  }
+
+  """
+  Type for running gait over the session's recent strides. Summaries are null when no stride
+  in the window could measure them
+  """
+  type GaitAnalysis {
+    strideCount: Int!
+    """
+    Steps per minute
+    """
+    cadence: Float
+    groundContactTimeMs: Float
+    flightTimeMs: Float
+    strideLengthM: Float
+    verticalOscillationCm: Float
+    """
+    Difference between left and right mean contact times relative to their mean
+    """
+    contactTimeAsymmetry: Float
+    strides: [GaitStride!]!
+  }
+
+  """
+  Type for the gait measurements of one stride, foot strike to foot strike
+  """
+  type GaitStride {
+    timestamp: Float!
+    side: String!
+    strideTimeMs: Float!
+    cadence: Float!
+    groundContactTimeMs: Float
+    """
+    tof when contact was measured from leg load, imu when from the stride's toe-off
+    """
+    contactSource: String
+    flightTimeMs: Float
+    verticalOscillationCm: Float
+    strideLengthM: Float
+  }
+
+  """
+  Type for the session's jumps: counts and landing load since the session started, summaries
+  over recent jumps
+  """
+  type JumpAnalysis {
+    jumpCount: Int!
+    """
+    Sum of landing peak forces in body weights
+    """
+    cumulativeLandingLoadBw: Float!
+    jumpHeightCm: Float
+    impulseJumpHeightCm: Float
+    takeOffAsymmetry: Float
+    landingPeakForceBw: Float
+    landingRfdBwPerS: Float
+    kneeValgusDeg: Float
+    """
+    Mean landing quality (0-100) of the most recent landings
+    """
+    landingQuality: Float
+    jumps: [Jump!]!
+  }
+
+  """
+  Type for the take-off and landing metrics of one jump
+  """
+  type Jump {
+    timestamp: Float!
+    landing: Float!
+    flightTimeMs: Float!
+    """
+    Flight-time method
+    """
+    jumpHeightCm: Float!
+    """
+    Impulse method, from the take-off velocity
+    """
+    impulseJumpHeightCm: Float
+    """
+    Left/right leg load impulse difference at take-off, in percent
+    """
+    takeOffAsymmetry: Float
+    landingPeakForceBw: Float
+    landingRfdBwPerS: Float
+    """
+    Knee frontal plane angle after touchdown relative to standing, in degrees
+    """
+    kneeValgusDeg: Float
+    landingQuality: Float
   }
 
   """
@@ -121,6 +252,36 @@ export const sessionSchema = gql`
     alertThresholds: AlertThresholds!
     samplingRates: SamplingRates!
     dataRetention: DataRetention!
+    filtering: SessionFilterConfig
+  }
+
+  """
+  Type for a named filter profile with a filter chain per sensor type
+  """
+  type FilterProfile {
+    name: String!
+    description: String!
+    version: Int!
+    builtIn: Boolean!
+    """
+    Filter stages keyed by sensor type, e.g. { imu: [{ type: "kalman", processNoise: 0.01, measurementNoise: 0.1 }] }
+    """
+    chains: JSON!
+  }
+
+  """
+  Type for a session's filter profile selection
+  """
+  type SessionFilterConfig {
+    profile: String!
+    """
+    Profile names keyed by sensor ID, overriding the session profile
+    """
+    sensorOverrides: JSON
+    """
+    Snapshot of the selected profiles taken when the session started
+    """
+    profiles: JSON
   }
 
   """
@@ -162,6 +323,7 @@ export const sessionSchema = gql`
     metrics: SessionMetrics!
     status: SessionStatus!
     statusHistory: [StatusHistoryEntry!]!
+    timeAlignment: SessionTimeAlignment
   }
 
   """
@@ -172,6 +334,145 @@ export const sessionSchema = gql`
     timestamp: DateTime!
   }
 
+  """
+  Type for a sensor's clock offset and drift relative to the session clock
+  """
+  type SensorClockModel {
+    sensorId: String!
+    offsetMs: Float!
+    driftPpm: Float!
+    referenceTimestamp: Float!
+    method: String!
+    residualMs: Float!
+    sampleCount: Int!
+    estimatedAt: DateTime!
+  }
+
+  """
+  Type for the common timeline sensor streams are aligned onto
+  """
+  type SessionTimeAlignment {
+    referenceSensorId: String!
+    timelineRate: Float!
+    sensors: [SensorClockModel!]!
+    updatedAt: DateTime!
+  }
+
+  """
+  Type for per-sensor dropped-sample totals
+  """
+  type SensorGapSummary {
+    sensorId: String!
+    jitterGaps: Int!
+    dropoutGaps: Int!
+    missingSamples: Int!
+    interpolatedSamples: Int!
+    totalGapMs: Float!
+    longestGapMs: Float!
+  }
+
+  """
+  Type for an individual gap between sensor readings
+  """
+  type SensorGap {
+    sensorId: String!
+    type: String!
+    start: Float!
+    end: Float!
+    missingSamples: Int!
+    classification: String!
+    interpolated: Boolean!
+  }
+
+  """
+  Type for a session's dropped-sample gap report
+  """
+  type SessionGapReport {
+    sessionId: ID!
+    sensors: [SensorGapSummary!]!
+    dropouts: [SensorGap!]!
+  }
+
+  """
+  Enum for movement event kinds
+  """
+  enum MovementEventType {
+    STRIDE
+    REP
+    JUMP
+  }
+
+  """
+  Type for a stride, repetition or jump segmented from a session
+  """
+  type MovementEvent {
+    id: ID!
+    sessionId: ID!
+    athleteId: ID
+    type: MovementEventType!
+    side: String
+    """
+    Sensor ID of strides and jumps, joint ID of repetitions
+    """
+    source: String!
+    startTime: Float!
+    endTime: Float!
+    """
+    Phase boundaries as epoch milliseconds, e.g. { footStrike, toeOff, nextFootStrike }
+    """
+    phases: JSON!
+    """
+    Per-event metrics, e.g. { strideTimeMs, contactTimeMs, cadence }
+    """
+    metrics: JSON!
+  }
+
+  """
+  Enum for session replay lifecycle states
+  """
+  enum ReplayState {
+    RUNNING
+    PAUSED
+    STOPPED
+    COMPLETED
+    FAILED
+  }
+
+  """
+  Type for a replay run re-driving stored session data through the live pipeline
+  """
+  type SessionReplay {
+    id: ID!
+    sessionId: ID!
+    """
+    Playback multiplier relative to recorded time; null when replaying as fast as possible
+    """
+    speed: Float
+    state: ReplayState!
+    requestedBy: ID!
+    totalPackets: Int!
+    packetsReplayed: Int!
+    lastPacketTimestamp: Float
+    startedAt: DateTime!
+    endedAt: DateTime
+    error: String
+  }
+
+  """
+  Input type for starting a session replay
+  """
+  input StartSessionReplayInput {
+    sessionId: ID!
+    """
+    Playback multiplier (0.1-100), defaults to real time
+    """
+    speed: Float
+    """
+    Replay without pacing; takes precedence over speed
+    """
+    asFastAsPossible: Boolean
+  }
+
   """
   Input type for session creation
   """
@@ -188,6 +489,27 @@ export const sessionSchema = gql`
     alertThresholds: [AlertThresholdInput!]!
     samplingRates: [SamplingRateInput!]!
     dataRetention: DataRetentionInput!
+    filtering: SessionFilterInput
+  }
+
+  """
+  Input type for selecting filter profiles for a session
+  """
+  input SessionFilterInput {
+    profile: String!
+    """
+    Profile names keyed by sensor ID, overriding the session profile
+    """
+    sensorOverrides: JSON
+  }
+
+  """
+  Input type for creating or revising a custom filter profile
+  """
+  input FilterProfileInput {
+    name: String!
+    description: String
+    chains: JSON!
   }
 
   """
@@ -225,6 +547,11 @@ export const sessionSchema = gql`
     athleteSessions(athleteId: ID!, status: SessionStatus): [Session!]!
     sessionMetrics(sessionId: ID!, metricType: MetricType!): SessionMetrics!
     sessionAlerts(sessionId: ID!, level: AlertLevel): [Alert!]!
+    sessionGapReport(sessionId: ID!): SessionGapReport!
+    sessionEvents(sessionId: ID!, type: MovementEventType, from: Float, to: Float): [MovementEvent!]!
+    sessionReplay(id: ID!): SessionReplay!
+    sessionReplays(sessionId: ID!): [SessionReplay!]!
+    filterProfiles: [FilterProfile!]!
   }
 
   """
@@ -236,6 +563,11 @@ export const sessionSchema = gql`
     endSession(id: ID!): Session!
     updateSessionConfig(id: ID!, config: SessionConfigInput!): Session!
     shareSessionData(sessionId: ID!, recipientId: ID!, metrics: [MetricType!]!): Boolean!
+    startSessionReplay(input: StartSessionReplayInput!): SessionReplay!
+    pauseSessionReplay(id: ID!): SessionReplay!
+    resumeSessionReplay(id: ID!): SessionReplay!
+    stopSessionReplay(id: ID!): SessionReplay!
+    saveFilterProfile(input: FilterProfileInput!): FilterProfile!
   }
 
   """
@@ -63,6 +63,10 @@ const INPUT_TYPES = gql`
     realTimeWindowMinutes: Int!
     aggregationPeriodHours: Int!
     enabledMetrics: [String!]!
+    """
+    Custom metrics by name, each { enabled, formula, threshold, direction }
+    """
+    customMetrics: JSON
   }
 
   enum TimeResolution {
@@ -127,6 +131,7 @@ const TYPE_DEFINITIONS = gql`
     realTimeWindowMinutes: Int!
     aggregationPeriodHours: Int!
     enabledMetrics: [String!]!
+    customMetrics: JSON
   }
 
   type TeamStats @auth(requires: COACH) {
@@ -9,6 +9,13 @@ import { caching } from 'cache-manager'; // ^5.2.3
 import { validate } from 'class-validator'; // ^0.14.0
 import { AthleteRepository } from '../../../db/repositories/athlete.repository';
 import { IAthlete } from '../../../interfaces/athlete.interface';
+import { TrainingLoadCoupling, TrainingLoadModel } from '../../../interfaces/load.interface';
+import { TrainingLoadService } from '../../../services/session/training.load.service';
+import {
+    BaselineNotFoundError,
+    BaselineService,
+    BaselineValidationError
+} from '../../../services/session/baseline.service';
 import { validateAthleteRequest } from '../middlewares/validation.middleware';
 import { Logger } from '../../../utils/logger.util';
 import { HttpError, ErrorCodes } from '../middlewares/error.middleware';
@@ -21,12 +28,20 @@ import now from 'performance-now'; // ^2.1.0
  */
 export class AthleteController {
     private repository: AthleteRepository;
+    private trainingLoadService: TrainingLoadService;
+    private baselineService: BaselineService;
     private logger: Logger;
     private cache: any;
     private readonly CACHE_TTL = 300; // 5 minutes
 
-    constructor(repository: AthleteRepository) {
+    constructor(
+        repository: AthleteRepository,
+        trainingLoadService: TrainingLoadService,
+        baselineService: BaselineService
+    ) {
         this.repository = repository;
+        this.trainingLoadService = trainingLoadService;
+        this.baselineService = baselineService;
         this.logger = new Logger('AthleteController');
         this.initializeCache();
     }
@@ -126,6 +141,54 @@ export class AthleteController {
         }
     }
 
+    /**
+     * Retrieves an athlete's training load with ACWR, monotony and strain
+     * @route GET /api/athletes/:id/training-load
+     */
+    public async getTrainingLoad(req: Request, res: Response): Promise<void> {
+        const startTime = now();
+        const { id } = req.params;
+        const correlationId = req.headers['x-correlation-id'] as string;
+
+        try {
+            const athlete = await this.repository.findById(id);
+            if (!athlete) {
+                throw new HttpError(
+                    404,
+                    'Athlete not found',
+                    ErrorCodes.NOT_FOUND_ERROR
+                );
+            }
+
+            const trainingLoad = await this.trainingLoadService.getAthleteLoad(id, {
+                model: req.query.model as TrainingLoadModel | undefined,
+                coupling: req.query.coupling as TrainingLoadCoupling | undefined,
+                teamId: req.query.teamId as string | undefined,
+                asOf: req.query.asOf as string | undefined
+            }).catch(error => {
+                throw new HttpError(
+                    400,
+                    (error as Error).message,
+                    ErrorCodes.VALIDATION_ERROR
+                );
+            });
+
+            const processingTime = now() - startTime;
+            this.logger.performance('get_training_load_latency', processingTime, {
+                correlationId,
+                athleteId: id
+            });
+
+            res.json(trainingLoad);
+        } catch (error) {
+            this.logger.error('Failed to retrieve training load', error as Error, {
+                correlationId,
+                athleteId: id
+            });
+            throw error;
+        }
+    }
+
     /**
      * Retrieves all athletes for a team with pagination
      * @route GET /api/teams/:teamId/athletes
@@ -231,6 +294,9 @@ export class AthleteController {
                 );
             }
 
+            // Keep the pushed baseline in the athlete's version history
+            await this.baselineService.recordManualBaseline(id, baselineData, (req as any).userId);
+
             // Invalidate cache
             await this.cache.del(`athlete:${id}`);
 
@@ -250,6 +316,96 @@ export class AthleteController {
         }
     }
 
+    /**
+     * Retrieves an athlete's baseline state and versions
+     * @route GET /api/athletes/:id/baselines
+     */
+    public async getBaselines(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'get_baselines_latency', 'Failed to retrieve baselines',
+            () => this.baselineService.getBaselines(req.params.id));
+    }
+
+    /**
+     * Retrieves one baseline version of an athlete
+     * @route GET /api/athletes/:id/baselines/:version
+     */
+    public async getBaselineVersion(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'get_baseline_version_latency', 'Failed to retrieve baseline version',
+            () => this.baselineService.getVersion(req.params.id, Number(req.params.version)));
+    }
+
+    /**
+     * Pins a baseline version
+     * @route PUT /api/athletes/:id/baselines/pin
+     */
+    public async pinBaseline(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'pin_baseline_latency', 'Failed to pin baseline',
+            () => this.baselineService.pin(req.params.id, Number(req.body?.version), (req as any).userId));
+    }
+
+    /**
+     * Unpins the baseline and applies the latest version
+     * @route DELETE /api/athletes/:id/baselines/pin
+     */
+    public async unpinBaseline(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'unpin_baseline_latency', 'Failed to unpin baseline',
+            () => this.baselineService.unpin(req.params.id, (req as any).userId));
+    }
+
+    /**
+     * Freezes automatic baseline learning
+     * @route PUT /api/athletes/:id/baselines/freeze
+     */
+    public async freezeBaseline(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'freeze_baseline_latency', 'Failed to freeze baseline',
+            () => this.baselineService.setFrozen(req.params.id, true, (req as any).userId));
+    }
+
+    /**
+     * Resumes automatic baseline learning
+     * @route DELETE /api/athletes/:id/baselines/freeze
+     */
+    public async unfreezeBaseline(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'unfreeze_baseline_latency', 'Failed to unfreeze baseline',
+            () => this.baselineService.setFrozen(req.params.id, false, (req as any).userId));
+    }
+
+    /**
+     * Reverts to an earlier baseline version
+     * @route POST /api/athletes/:id/baselines/:version/revert
+     */
+    public async revertBaseline(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'revert_baseline_latency', 'Failed to revert baseline',
+            () => this.baselineService.revert(req.params.id, Number(req.params.version), (req as any).userId), 201);
+    }
+
+    /**
+     * Lists an athlete's injury periods
+     * @route GET /api/athletes/:id/injuries
+     */
+    public async listInjuries(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'list_injuries_latency', 'Failed to list injuries',
+            () => this.baselineService.listInjuries(req.params.id));
+    }
+
+    /**
+     * Records an injury period, excluded from baseline learning
+     * @route POST /api/athletes/:id/injuries
+     */
+    public async recordInjury(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'record_injury_latency', 'Failed to record injury',
+            () => this.baselineService.recordInjury(req.params.id, req.body ?? {}, (req as any).userId), 201);
+    }
+
+    /**
+     * Ends an injury period
+     * @route PUT /api/athletes/:id/injuries/:injuryId
+     */
+    public async endInjury(req: Request, res: Response): Promise<void> {
+        await this.handleBaselineRequest(req, res, 'end_injury_latency', 'Failed to end injury',
+            () => this.baselineService.endInjury(req.params.id, req.params.injuryId, req.body?.endDate));
+    }
+
     /**
      * Deletes an athlete profile
      * @route DELETE /api/athletes/:id
@@ -323,6 +479,58 @@ export class AthleteController {
             throw error;
         }
     }
+
+    /**
+     * Runs a baseline service call for an existing athlete and responds with its result. Missing
+     * versions or injuries become 404s and invalid requests 400s; other failures pass through.
+     */
+    private async handleBaselineRequest<T>(
+        req: Request,
+        res: Response,
+        metric: string,
+        failure: string,
+        action: () => Promise<T>,
+        status = 200
+    ): Promise<void> {
+        const startTime = now();
+        const { id } = req.params;
+        const correlationId = req.headers['x-correlation-id'] as string;
+
+        try {
+            const athlete = await this.repository.findById(id);
+            if (!athlete) {
+                throw new HttpError(
+                    404,
+                    'Athlete not found',
+                    ErrorCodes.NOT_FOUND_ERROR
+                );
+            }
+
+            const result = await action().catch(error => {
+                if (error instanceof BaselineNotFoundError) {
+                    throw new HttpError(404, error.message, ErrorCodes.NOT_FOUND_ERROR);
+                }
+                if (error instanceof BaselineValidationError) {
+                    throw new HttpError(400, error.message, ErrorCodes.VALIDATION_ERROR);
+                }
+                throw error;
+            });
+
+            const processingTime = now() - startTime;
+            this.logger.performance(metric, processingTime, {
+                correlationId,
+                athleteId: id
+            });
+
+            res.status(status).json(result);
+        } catch (error) {
+            this.logger.error(failure, error as Error, {
+                correlationId,
+                athleteId: id
+            });
+            throw error;
+        }
+    }
 }
 
 export default AthleteController;
\ No newline at end of file
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview REST API controller for admin management of dead-lettered Kafka messages.
+ * Lists and inspects messages that workers could not parse or process, and re-queues or
+ * discards them once they have been reviewed.
+ * @version 1.0.0
+ */
+
+import { Request, Response } from 'express';
+import httpStatus from 'http-status';
+import { DeadLetterService } from '../../../services/messaging/dead-letter.service';
+import {
+  IDeadLetterFilter,
+  DeadLetterStatus,
+  DeadLetterErrorType
+} from '../../../interfaces/dead-letter.interface';
+import { Logger } from '../../../utils/logger.util';
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['PENDING', 'REQUEUED', 'DISCARDED'];
+const DEAD_LETTER_ERROR_TYPES: DeadLetterErrorType[] = ['PARSE_ERROR', 'VALIDATION_ERROR', 'PROCESSING_ERROR'];
+
+/**
+ * Controller for dead-letter inspection and reprocessing
+ */
+export class DeadLetterController {
+  private readonly deadLetterService: DeadLetterService;
+  private readonly logger: Logger;
+
+  constructor(deadLetterService: DeadLetterService) {
+    this.deadLetterService = deadLetterService;
+    this.logger = new Logger('DeadLetterController', { performanceTracking: true });
+  }
+
+  /**
+   * Lists dead-lettered messages with filtering and pagination
+   * @route GET /api/admin/dead-letters
+   */
+  async listMessages(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const status = req.query.status as DeadLetterStatus | undefined;
+      const errorType = req.query.errorType as DeadLetterErrorType | undefined;
+
+      if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+        res.status(httpStatus.BAD_REQUEST).json({ error: 'Invalid dead-letter status' });
+        return;
+      }
+      if (errorType && !DEAD_LETTER_ERROR_TYPES.includes(errorType)) {
+        res.status(httpStatus.BAD_REQUEST).json({ error: 'Invalid dead-letter error type' });
+        return;
+      }
+
+      const filter: IDeadLetterFilter = {
+        ...(status && { status }),
+        ...(errorType && { errorType }),
+        ...(req.query.workerName && { workerName: req.query.workerName as string }),
+        ...(req.query.sourceTopic && { sourceTopic: req.query.sourceTopic as string }),
+        ...(req.query.limit && { limit: parseInt(req.query.limit as string) }),
+        ...(req.query.offset && { offset: parseInt(req.query.offset as string) })
+      };
+
+      const { messages, total } = await this.deadLetterService.listMessages(filter);
+
+      res.status(httpStatus.OK).json({
+        data: messages,
+        pagination: {
+          limit: filter.limit,
+          offset: filter.offset ?? 0,
+          total
+        },
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to list dead-letter messages', error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a dead-lettered message with its payload and failure context
+   * @route GET /api/admin/dead-letters/:id
+   */
+  async getMessage(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const message = await this.deadLetterService.getMessage(req.params.id!);
+
+      res.status(httpStatus.OK).json({
+        data: message,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to retrieve dead-letter message', error as Error);
+    }
+  }
+
+  /**
+   * Re-publishes a dead-lettered message to its source topic
+   * @route POST /api/admin/dead-letters/:id/requeue
+   */
+  async requeueMessage(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const message = await this.deadLetterService.requeueMessage(req.params.id!, (req as any).userId);
+
+      res.status(httpStatus.OK).json({
+        data: message,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to re-queue dead-letter message', error as Error);
+    }
+  }
+
+  /**
+   * Discards a dead-lettered message
+   * @route POST /api/admin/dead-letters/:id/discard
+   */
+  async discardMessage(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const message = await this.deadLetterService.discardMessage(
+        req.params.id!,
+        (req as any).userId,
+        req.body?.reason
+      );
+
+      res.status(httpStatus.OK).json({
+        data: message,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to discard dead-letter message', error as Error);
+    }
+  }
+
+  /**
+   * Builds response metadata with processing time
+   */
+  private buildMetadata(startTime: [number, number]): { processingTime: number; timestamp: string } {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return {
+      processingTime: seconds * 1000 + nanoseconds / 1000000,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(res: Response, message: string, error: Error): void {
+    if (error.message.includes('not found')) {
+      res.status(httpStatus.NOT_FOUND).json({ error: error.message });
+      return;
+    }
+    if (error.message.includes('already') || error.message.includes('another request')) {
+      res.status(httpStatus.CONFLICT).json({ error: error.message });
+      return;
+    }
+    if (error.message.includes('re-queue limit') || error.message.includes('must be')) {
+      res.status(httpStatus.BAD_REQUEST).json({ error: error.message });
+      return;
+    }
+
+    this.logger.error(message, error);
+    res.status(httpStatus.INTERNAL_SERVER_ERROR).json({ error: message });
+  }
+}
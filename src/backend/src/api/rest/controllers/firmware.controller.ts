@@ -0,0 +1,108 @@
+/**
+ * @fileoverview REST API controller for the sensor firmware image registry.
+ * Registers firmware images uploaded by admins and lists registered images; updates and
+ * rollouts are driven through the sensor GraphQL API.
+ * @version 1.0.0
+ */
+
+import { Request, Response } from 'express';
+import httpStatus from 'http-status';
+import { FirmwareService } from '../../../services/sensor/firmware.service';
+import { Logger } from '../../../utils/logger.util';
+import { SENSOR_TYPES } from '../../../constants/sensor.constants';
+
+/**
+ * Controller for firmware image registration
+ */
+export class FirmwareController {
+  private readonly firmwareService: FirmwareService;
+  private readonly logger: Logger;
+
+  constructor(firmwareService: FirmwareService) {
+    this.firmwareService = firmwareService;
+    this.logger = new Logger('FirmwareController', { performanceTracking: true });
+  }
+
+  /**
+   * Registers a firmware image sent as base64 in the JSON body
+   * @route POST /api/admin/firmware/images
+   */
+  async registerImage(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const { version, sensorTypes, releaseNotes, image } = req.body ?? {};
+
+      if (typeof version !== 'string' || !Array.isArray(sensorTypes) || typeof image !== 'string') {
+        res.status(httpStatus.BAD_REQUEST).json({ error: 'version, sensorTypes and base64 image are required' });
+        return;
+      }
+
+      const registered = await this.firmwareService.registerImage(
+        { version, sensorTypes: sensorTypes as SENSOR_TYPES[], releaseNotes },
+        Buffer.from(image, 'base64'),
+        (req as any).userId
+      );
+
+      res.status(httpStatus.CREATED).json({
+        data: registered,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to register firmware image', error as Error);
+    }
+  }
+
+  /**
+   * Lists registered firmware images, optionally filtered by compatible sensor type
+   * @route GET /api/admin/firmware/images
+   */
+  async listImages(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const sensorType = req.query.sensorType as SENSOR_TYPES | undefined;
+      if (sensorType && !Object.values(SENSOR_TYPES).includes(sensorType)) {
+        res.status(httpStatus.BAD_REQUEST).json({ error: 'Invalid sensor type' });
+        return;
+      }
+
+      const images = await this.firmwareService.listImages(sensorType);
+
+      res.status(httpStatus.OK).json({
+        data: images,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to list firmware images', error as Error);
+    }
+  }
+
+  /**
+   * Builds response metadata with processing time
+   */
+  private buildMetadata(startTime: [number, number]): { processingTime: number; timestamp: string } {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return {
+      processingTime: seconds * 1000 + nanoseconds / 1000000,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(res: Response, message: string, error: Error): void {
+    if (error.message.includes('already exists')) {
+      res.status(httpStatus.CONFLICT).json({ error: error.message });
+      return;
+    }
+    if (error.message.includes('Invalid') || error.message.includes('must')) {
+      res.status(httpStatus.BAD_REQUEST).json({ error: error.message });
+      return;
+    }
+
+    this.logger.error(message, error);
+    res.status(httpStatus.INTERNAL_SERVER_ERROR).json({ error: message });
+  }
+}
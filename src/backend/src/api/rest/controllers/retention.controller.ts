@@ -0,0 +1,108 @@
+/**
+ * @fileoverview REST API controller for admin control of tiered data retention.
+ * Triggers retention runs, reports a session's storage tier and restores archived sessions.
+ * @version 1.0.0
+ */
+
+import { Request, Response } from 'express';
+import httpStatus from 'http-status';
+import { RetentionService } from '../../../services/retention/retention.service';
+import { Logger } from '../../../utils/logger.util';
+
+/**
+ * Controller for retention runs and archived session restores
+ */
+export class RetentionController {
+  private readonly retentionService: RetentionService;
+  private readonly logger: Logger;
+
+  constructor(retentionService: RetentionService) {
+    this.retentionService = retentionService;
+    this.logger = new Logger('RetentionController', { performanceTracking: true });
+  }
+
+  /**
+   * Runs retention enforcement immediately instead of waiting for the schedule
+   * @route POST /api/admin/retention/runs
+   */
+  async runRetention(_req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const result = await this.retentionService.runRetention();
+
+      res.status(httpStatus.OK).json({
+        data: result,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to run retention', error as Error);
+    }
+  }
+
+  /**
+   * Retrieves a session's storage tier, archive location and effective policy
+   * @route GET /api/admin/retention/sessions/:id
+   */
+  async getSessionRetention(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const retention = await this.retentionService.getSessionRetention(req.params.id!);
+
+      res.status(httpStatus.OK).json({
+        data: retention,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to retrieve session retention', error as Error);
+    }
+  }
+
+  /**
+   * Restores an archived session's data to the database
+   * @route POST /api/admin/retention/sessions/:id/restore
+   */
+  async restoreSession(req: Request, res: Response): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      const result = await this.retentionService.restoreSession(req.params.id!, (req as any).userId);
+
+      res.status(httpStatus.OK).json({
+        data: result,
+        metadata: this.buildMetadata(startTime)
+      });
+    } catch (error) {
+      this.handleError(res, 'Failed to restore session', error as Error);
+    }
+  }
+
+  /**
+   * Builds response metadata with processing time
+   */
+  private buildMetadata(startTime: [number, number]): { processingTime: number; timestamp: string } {
+    const [seconds, nanoseconds] = process.hrtime(startTime);
+    return {
+      processingTime: seconds * 1000 + nanoseconds / 1000000,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(res: Response, message: string, error: Error): void {
+    if (error.message.includes('not found')) {
+      res.status(httpStatus.NOT_FOUND).json({ error: error.message });
+      return;
+    }
+    if (error.message.includes('no archive')) {
+      res.status(httpStatus.CONFLICT).json({ error: error.message });
+      return;
+    }
+
+    this.logger.error(message, error);
+    res.status(httpStatus.INTERNAL_SERVER_ERROR).json({ error: message });
+  }
+}
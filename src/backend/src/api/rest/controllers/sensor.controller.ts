@@ -14,9 +14,11 @@ import {
     Delete, 
     Body, 
     Param, 
+    Query, 
     UseGuards, 
     UseInterceptors,
     ValidationPipe,
+    Headers,
     HttpException,
     HttpStatus,
     Logger
@@ -24,9 +26,22 @@ import {
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { RateLimit } from '@nestjs/throttler';
 
-import { ISensorConfig, ISensorData } from '../../../interfaces/sensor.interface';
+import {
+    ISensorConfig,
+    ISensorData,
+    IBackfillChunk,
+    IBackfillProgress
+} from '../../../interfaces/sensor.interface';
+import {
+    ICalibrationDiff,
+    ICalibrationVersion,
+    ITemperatureModel
+} from '../../../interfaces/calibration.interface';
 import { CalibrationService } from '../../../services/sensor/calibration.service';
+import { CalibrationHistoryService } from '../../../services/sensor/calibration.history.service';
+import { TemperatureCompensationService } from '../../../services/sensor/temperature.compensation.service';
 import { SensorDataProcessor } from '../../../services/sensor/data.processor';
+import { SensorBackfillService } from '../../../services/sensor/backfill.service';
 import { SENSOR_STATUS, SAMPLING_RATES } from '../../../constants/sensor.constants';
 
 @Controller('api/sensors')
@@ -38,7 +53,10 @@ export class SensorController {
 
     constructor(
         private readonly calibrationService: CalibrationService,
-        private readonly dataProcessor: SensorDataProcessor
+        private readonly dataProcessor: SensorDataProcessor,
+        private readonly backfillService: SensorBackfillService,
+        private readonly calibrationHistoryService: CalibrationHistoryService,
+        private readonly temperatureCompensationService: TemperatureCompensationService
     ) {}
 
     /**
@@ -83,8 +101,8 @@ export class SensorController {
     /**
      * Performs comprehensive sensor calibration with progressive validation
      * @param sensorId - Sensor identifier
-     * @param calibrationData - Calibration parameters
-     * @returns Promise resolving to updated sensor configuration
+     * @param calibrationData - Calibration parameters, operator and environmental conditions
+     * @returns Promise resolving to updated sensor configuration and its calibration version
      */
     @Post(':sensorId/calibrate')
     @ApiOperation({ summary: 'Calibrate sensor' })
@@ -92,8 +110,11 @@ export class SensorController {
     @UseGuards(CalibrationGuard)
     async calibrateSensor(
         @Param('sensorId') sensorId: string,
-        @Body(new ValidationPipe()) calibrationData: CalibrationData
-    ): Promise<ISensorConfig> {
+        @Body(new ValidationPipe()) calibrationData: CalibrationData & {
+            operatorId: string;
+            environmentalConditions?: Record<string, number>;
+        }
+    ): Promise<ISensorConfig & { calibrationVersion: number }> {
         try {
             this.logger.debug(`Starting calibration for sensor: ${sensorId}`);
 
@@ -106,21 +127,33 @@ export class SensorController {
             // Update sensor status to calibrating
             currentConfig.status = SENSOR_STATUS.CALIBRATING;
 
-            // Perform progressive calibration
-            const calibratedParams = await this.calibrationService.calibrateSensor(
-                sensorId,
-                {
-                    ...currentConfig,
-                    calibrationParams: calibrationData
-                }
-            );
+            // Perform progressive calibration; the fitted temperature model is kept
+            const { operatorId, environmentalConditions, ...params } = calibrationData;
+            const calibratedParams = {
+                ...await this.calibrationService.calibrateSensor(
+                    sensorId,
+                    {
+                        ...currentConfig,
+                        calibrationParams: params
+                    }
+                ),
+                temperatureModel: currentConfig.calibrationParams?.temperatureModel ?? null
+            };
+
+            // Store the calibration as the sensor's next version
+            const record = await this.calibrationHistoryService.recordCalibration(sensorId, calibratedParams, {
+                operatorId,
+                qualityScore: await this.calibrationService.assessCalibrationQuality(sensorId),
+                environmentalConditions
+            });
 
             // Update and return new configuration
             return {
                 ...currentConfig,
                 calibrationParams: calibratedParams,
                 lastCalibration: new Date(),
-                status: SENSOR_STATUS.ACTIVE
+                status: SENSOR_STATUS.ACTIVE,
+                calibrationVersion: record.version
             };
         } catch (error) {
             this.logger.error(`Calibration error: ${error.message}`, error.stack);
@@ -131,6 +164,137 @@ export class SensorController {
         }
     }
 
+    /**
+     * Lists a sensor's calibration versions
+     * @param sensorId - Sensor identifier
+     * @returns Promise resolving to calibration versions, oldest first
+     */
+    @Get(':sensorId/calibration/history')
+    @ApiOperation({ summary: 'Get calibration history' })
+    @ApiResponse({ status: 200, type: CalibrationVersionResponse, isArray: true })
+    @UseGuards(SensorAccessGuard)
+    async getCalibrationHistory(@Param('sensorId') sensorId: string): Promise<ICalibrationVersion[]> {
+        try {
+            return await this.calibrationHistoryService.getHistory(sensorId);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Calibration history error: ${failure.message}`, failure.stack);
+            throw this.toCalibrationHttpException(error, 'Failed to retrieve calibration history');
+        }
+    }
+
+    /**
+     * Compares the parameters of two calibration versions
+     * @param sensorId - Sensor identifier
+     * @param fromVersion - Version compared from
+     * @param toVersion - Version compared to
+     * @returns Promise resolving to the changed parameters
+     */
+    @Get(':sensorId/calibration/diff')
+    @ApiOperation({ summary: 'Compare calibration versions' })
+    @ApiResponse({ status: 200, type: CalibrationDiffResponse })
+    @UseGuards(SensorAccessGuard)
+    async diffCalibrationVersions(
+        @Param('sensorId') sensorId: string,
+        @Query('from') fromVersion: string,
+        @Query('to') toVersion: string
+    ): Promise<ICalibrationDiff> {
+        try {
+            return await this.calibrationHistoryService.diffVersions(
+                sensorId,
+                Number(fromVersion),
+                Number(toVersion)
+            );
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Calibration diff error: ${failure.message}`, failure.stack);
+            throw this.toCalibrationHttpException(error, 'Failed to compare calibration versions');
+        }
+    }
+
+    /**
+     * Restores the calibration of an earlier version as the sensor's next version
+     * @param sensorId - Sensor identifier
+     * @param request - Version to restore and the operator performing the rollback
+     * @returns Promise resolving to the new calibration version
+     */
+    @Post(':sensorId/calibration/rollback')
+    @ApiOperation({ summary: 'Roll back calibration' })
+    @ApiResponse({ status: 200, type: CalibrationVersionResponse })
+    @UseGuards(CalibrationGuard)
+    async rollbackCalibration(
+        @Param('sensorId') sensorId: string,
+        @Body(new ValidationPipe()) request: { version: number; operatorId: string }
+    ): Promise<ICalibrationVersion> {
+        try {
+            const record = await this.calibrationHistoryService.rollbackToVersion(
+                sensorId,
+                Number(request.version),
+                request.operatorId
+            );
+            this.calibrationService.restoreCalibration(sensorId, record.params);
+
+            return record;
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Calibration rollback error: ${failure.message}`, failure.stack);
+            throw this.toCalibrationHttpException(error, 'Failed to roll back calibration');
+        }
+    }
+
+    /**
+     * Fits the sensor's temperature model from its logged data and applies it as a new calibration
+     * @param sensorId - Sensor identifier
+     * @param request - Logged time range and the operator fitting the model
+     * @returns Promise resolving to the calibration version carrying the model
+     */
+    @Post(':sensorId/calibration/temperature')
+    @ApiOperation({ summary: 'Fit temperature compensation model' })
+    @ApiResponse({ status: 200, type: CalibrationVersionResponse })
+    @UseGuards(CalibrationGuard)
+    async fitTemperatureModel(
+        @Param('sensorId') sensorId: string,
+        @Body(new ValidationPipe()) request: { start: number; end: number; sessionId?: string; operatorId: string }
+    ): Promise<ICalibrationVersion> {
+        try {
+            const record = await this.temperatureCompensationService.fitModel(
+                sensorId,
+                {
+                    start: Number(request.start),
+                    end: Number(request.end),
+                    ...(request.sessionId && { sessionId: request.sessionId })
+                },
+                request.operatorId
+            );
+            this.calibrationService.restoreCalibration(sensorId, record.params);
+
+            return record;
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Temperature model fit error: ${failure.message}`, failure.stack);
+            throw this.toCalibrationHttpException(error, 'Failed to fit temperature model');
+        }
+    }
+
+    /**
+     * Retrieves the sensor's temperature model with its residual drift per temperature band
+     * @param sensorId - Sensor identifier
+     * @returns Promise resolving to the temperature model
+     */
+    @Get(':sensorId/calibration/temperature')
+    @ApiOperation({ summary: 'Get temperature compensation model' })
+    @ApiResponse({ status: 200, type: TemperatureModelResponse })
+    @UseGuards(SensorAccessGuard)
+    async getTemperatureModel(@Param('sensorId') sensorId: string): Promise<ITemperatureModel> {
+        try {
+            return await this.temperatureCompensationService.getModel(sensorId);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Temperature model error: ${failure.message}`, failure.stack);
+            throw this.toCalibrationHttpException(error, 'Failed to retrieve temperature model');
+        }
+    }
+
     /**
      * Processes real-time sensor data with optimized stream handling
      * @param sensorId - Sensor identifier
@@ -230,4 +394,167 @@ export class SensorController {
             );
         }
     }
+
+    /**
+     * Starts a chunked backfill upload of buffered data for an existing or closed session
+     * @param request - Target session, announced chunk count and requesting user
+     * @returns Promise resolving to upload progress with its resume token
+     */
+    @Post('backfill')
+    @ApiOperation({ summary: 'Start backfill upload' })
+    @ApiResponse({ status: 201, type: BackfillProgressResponse })
+    async createBackfillUpload(
+        @Body(new ValidationPipe()) request: { sessionId: string; totalChunks?: number; requestedBy: string }
+    ): Promise<IBackfillProgress> {
+        try {
+            this.logger.debug(`Starting backfill upload for session: ${request.sessionId}`);
+
+            const options: { totalChunks?: number; requestedBy: string } = { requestedBy: request.requestedBy };
+            if (request.totalChunks !== undefined) {
+                options.totalChunks = Number(request.totalChunks);
+            }
+
+            return await this.backfillService.createUpload(request.sessionId, options);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Backfill creation error: ${failure.message}`, failure.stack);
+            throw this.toBackfillHttpException(error, 'Failed to start backfill upload');
+        }
+    }
+
+    /**
+     * Stores one chunk of historical samples, skipping samples that are already stored
+     * @param uploadId - Backfill upload identifier
+     * @param chunkIndex - Zero-based chunk position
+     * @param resumeToken - Token issued when the upload was created
+     * @param chunk - Chunk packets and optional checksum
+     * @returns Promise resolving to updated upload progress
+     */
+    @Put('backfill/:uploadId/chunks/:chunkIndex')
+    @ApiOperation({ summary: 'Upload backfill chunk' })
+    @ApiResponse({ status: 200, type: BackfillProgressResponse })
+    @RateLimit({ ttl: 60, limit: 1000 })
+    async uploadBackfillChunk(
+        @Param('uploadId') uploadId: string,
+        @Param('chunkIndex') chunkIndex: string,
+        @Headers('x-resume-token') resumeToken: string,
+        @Body(new ValidationPipe()) chunk: Omit<IBackfillChunk, 'chunkIndex'>
+    ): Promise<IBackfillProgress> {
+        try {
+            return await this.backfillService.uploadChunk(uploadId, resumeToken, {
+                ...chunk,
+                chunkIndex: Number(chunkIndex)
+            });
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Backfill chunk error: ${failure.message}`, failure.stack);
+            throw this.toBackfillHttpException(error, 'Failed to store backfill chunk');
+        }
+    }
+
+    /**
+     * Completes a backfill upload and starts reprocessing the backfilled ranges
+     * @param uploadId - Backfill upload identifier
+     * @param resumeToken - Token issued when the upload was created
+     * @returns Promise resolving to upload progress
+     */
+    @Post('backfill/:uploadId/complete')
+    @ApiOperation({ summary: 'Complete backfill upload' })
+    @ApiResponse({ status: 202, type: BackfillProgressResponse })
+    async completeBackfillUpload(
+        @Param('uploadId') uploadId: string,
+        @Headers('x-resume-token') resumeToken: string
+    ): Promise<IBackfillProgress> {
+        try {
+            return await this.backfillService.completeUpload(uploadId, resumeToken);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Backfill completion error: ${failure.message}`, failure.stack);
+            throw this.toBackfillHttpException(error, 'Failed to complete backfill upload');
+        }
+    }
+
+    /**
+     * Retrieves backfill upload progress
+     * @param uploadId - Backfill upload identifier
+     * @returns Promise resolving to upload progress
+     */
+    @Get('backfill/:uploadId')
+    @ApiOperation({ summary: 'Get backfill upload progress' })
+    @ApiResponse({ status: 200, type: BackfillProgressResponse })
+    async getBackfillProgress(@Param('uploadId') uploadId: string): Promise<IBackfillProgress> {
+        try {
+            return await this.backfillService.getProgress(uploadId);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Backfill progress error: ${failure.message}`, failure.stack);
+            throw this.toBackfillHttpException(error, 'Failed to retrieve backfill progress');
+        }
+    }
+
+    /**
+     * Resolves a resume token to its upload so an interrupted client can continue
+     * @param resumeToken - Token issued when the upload was created
+     * @returns Promise resolving to upload progress with the next chunk to send
+     */
+    @Post('backfill/resume')
+    @ApiOperation({ summary: 'Resume backfill upload' })
+    @ApiResponse({ status: 200, type: BackfillProgressResponse })
+    async resumeBackfillUpload(@Body('resumeToken') resumeToken: string): Promise<IBackfillProgress> {
+        try {
+            return await this.backfillService.resumeUpload(resumeToken);
+        } catch (error) {
+            const failure = error instanceof Error ? error : new Error(String(error));
+            this.logger.error(`Backfill resume error: ${failure.message}`, failure.stack);
+            throw this.toBackfillHttpException(error, 'Failed to resume backfill upload');
+        }
+    }
+
+    /**
+     * Maps calibration history and temperature model errors to HTTP status codes
+     * @param error - Error raised by the calibration history or temperature compensation service
+     * @param fallbackMessage - Message used when the error has none
+     * @returns HTTP exception to throw
+     */
+    private toCalibrationHttpException(error: any, fallbackMessage: string): HttpException {
+        const message: string = error.message || fallbackMessage;
+        let status = error.status || HttpStatus.INTERNAL_SERVER_ERROR;
+
+        if (/^(Invalid calibration version|Invalid time range|Only \d+ usable packets)/.test(message) ||
+            /^(Logged temperatures span|No temperature was logged)/.test(message)) {
+            status = HttpStatus.BAD_REQUEST;
+        } else if (message.endsWith('not found')) {
+            status = HttpStatus.NOT_FOUND;
+        } else if (message.includes('already')) {
+            status = HttpStatus.CONFLICT;
+        }
+
+        return new HttpException(message, status);
+    }
+
+    /**
+     * Maps backfill service errors to HTTP status codes
+     * @param error - Error raised by the backfill service
+     * @param fallbackMessage - Message used when the error has none
+     * @returns HTTP exception to throw
+     */
+    private toBackfillHttpException(error: any, fallbackMessage: string): HttpException {
+        const message: string = error.message || fallbackMessage;
+        let status = error.status || HttpStatus.INTERNAL_SERVER_ERROR;
+
+        if (/^(Total chunks must|Invalid chunk index|Chunks must contain|Checksum mismatch|Invalid sensor data)/.test(message) ||
+            message.includes('does not belong') || message.includes('is missing chunks')) {
+            status = HttpStatus.BAD_REQUEST;
+        } else if (message === 'Invalid resume token') {
+            status = HttpStatus.FORBIDDEN;
+        } else if (message.endsWith('not found')) {
+            status = HttpStatus.NOT_FOUND;
+        } else if (message.includes('already received') || / is (processing|completed|failed)$/.test(message)) {
+            status = HttpStatus.CONFLICT;
+        } else if (message.endsWith('has expired')) {
+            status = HttpStatus.GONE;
+        }
+
+        return new HttpException(message, status);
+    }
 }
\ No newline at end of file
@@ -7,7 +7,11 @@
 import { Request, Response } from 'express'; // ^4.18.2
 import { StatusCodes } from 'http-status'; // ^1.6.2
 import { SessionManager } from '../../../services/session/session.manager';
+import { SessionReplayService } from '../../../services/session/session.replay';
+import { SensorRepository } from '../../../db/repositories/sensor.repository';
+import { MovementEventService } from '../../../services/session/movement.event.service';
 import { ISession } from '../../../interfaces/session.interface';
+import { MovementEventType } from '../../../interfaces/movement.interface';
 import { authenticate } from '../middlewares/auth.middleware';
 import { validateSensorData } from '../../../utils/validation.util';
 import { Logger } from '../../../utils/logger.util';
@@ -21,9 +25,20 @@ const logger = new Logger('SessionController', { performanceTracking: true });
  */
 class SessionController {
   private sessionManager: SessionManager;
-
-  constructor(sessionManager: SessionManager) {
+  private replayService: SessionReplayService;
+  private sensorRepository: SensorRepository;
+  private movementEventService: MovementEventService;
+
+  constructor(
+    sessionManager: SessionManager,
+    replayService: SessionReplayService,
+    sensorRepository: SensorRepository,
+    movementEventService: MovementEventService
+  ) {
     this.sessionManager = sessionManager;
+    this.replayService = replayService;
+    this.sensorRepository = sensorRepository;
+    this.movementEventService = movementEventService;
   }
 
   /**
@@ -240,6 +255,268 @@ class SessionController {
       });
     }
   }
+
+  /**
+   * Retrieves the dropped-sample gap report for a session
+   */
+  @authenticate
+  public async getGapReport(req: Request, res: Response): Promise<void> {
+    const startTime = performance.now();
+    const correlationId = req.headers['x-correlation-id'] as string;
+    const { id: sessionId } = req.params;
+
+    try {
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+
+      const report = await this.sensorRepository.getSessionGapReport(sessionId);
+
+      const latency = performance.now() - startTime;
+      logger.info('Session gap report retrieved', {
+        sessionId,
+        sensorCount: report.sensors.length,
+        latency,
+        correlationId
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: report,
+        metadata: {
+          latency,
+          timestamp: new Date()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to retrieve session gap report', error as Error, {
+        sessionId,
+        correlationId,
+        latency: performance.now() - startTime
+      });
+
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Lists a session's strides, repetitions and jumps, optionally filtered by type and start time
+   */
+  @authenticate
+  public async getMovementEvents(req: Request, res: Response): Promise<void> {
+    const startTime = performance.now();
+    const correlationId = req.headers['x-correlation-id'] as string;
+    const { id: sessionId } = req.params;
+
+    try {
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+
+      const events = await this.movementEventService.getSessionEvents(sessionId, {
+        ...(req.query.type && { type: req.query.type as MovementEventType }),
+        ...(req.query.from !== undefined && { from: Number(req.query.from) }),
+        ...(req.query.to !== undefined && { to: Number(req.query.to) })
+      });
+
+      const latency = performance.now() - startTime;
+      logger.info('Session movement events retrieved', {
+        sessionId,
+        eventCount: events.length,
+        latency,
+        correlationId
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: events,
+        metadata: {
+          latency,
+          timestamp: new Date()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to retrieve session movement events', error as Error, {
+        sessionId,
+        correlationId,
+        latency: performance.now() - startTime
+      });
+
+      res.status(StatusCodes.BAD_REQUEST).json({
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Starts replaying a stored session through the live processing pipeline
+   */
+  @authenticate
+  public async startReplay(req: Request, res: Response): Promise<void> {
+    const startTime = performance.now();
+    const correlationId = req.headers['x-correlation-id'] as string;
+    const { id: sessionId } = req.params;
+
+    try {
+      if (!sessionId) {
+        throw new Error('Session ID is required');
+      }
+
+      const requestedBy = (req as any).userId;
+      if (!requestedBy) {
+        throw new Error('User ID not found in request');
+      }
+
+      const replay = await this.replayService.startReplay(sessionId, {
+        speed: req.body?.speed,
+        requestedBy
+      });
+
+      const latency = performance.now() - startTime;
+      logger.info('Session replay started', {
+        sessionId,
+        replayId: replay.id,
+        latency,
+        correlationId
+      });
+
+      res.status(StatusCodes.CREATED).json({
+        success: true,
+        data: replay,
+        metadata: {
+          latency,
+          timestamp: new Date()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to start session replay', error as Error, {
+        sessionId,
+        correlationId,
+        latency: performance.now() - startTime
+      });
+
+      res.status(StatusCodes.BAD_REQUEST).json({
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Retrieves replay progress for a session replay
+   */
+  @authenticate
+  public async getReplay(req: Request, res: Response): Promise<void> {
+    const startTime = performance.now();
+    const correlationId = req.headers['x-correlation-id'] as string;
+    const { id: sessionId, replayId } = req.params;
+
+    try {
+      if (!replayId) {
+        throw new Error('Replay ID is required');
+      }
+
+      const replay = this.replayService.getReplay(replayId);
+      if (replay.sessionId !== sessionId) {
+        throw new Error(`Replay ${replayId} not found`);
+      }
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: replay,
+        metadata: {
+          latency: performance.now() - startTime,
+          timestamp: new Date()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to retrieve session replay', error as Error, {
+        sessionId,
+        replayId,
+        correlationId
+      });
+
+      res.status(StatusCodes.NOT_FOUND).json({
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Pauses, resumes or stops a session replay
+   */
+  @authenticate
+  public async controlReplay(req: Request, res: Response): Promise<void> {
+    const startTime = performance.now();
+    const correlationId = req.headers['x-correlation-id'] as string;
+    const { id: sessionId, replayId, action } = req.params;
+
+    try {
+      if (!replayId) {
+        throw new Error('Replay ID is required');
+      }
+
+      if (this.replayService.getReplay(replayId).sessionId !== sessionId) {
+        throw new Error(`Replay ${replayId} not found`);
+      }
+
+      let replay;
+      switch (action) {
+        case 'pause':
+          replay = this.replayService.pauseReplay(replayId);
+          break;
+        case 'resume':
+          replay = this.replayService.resumeReplay(replayId);
+          break;
+        case 'stop':
+          replay = this.replayService.stopReplay(replayId);
+          break;
+        default:
+          throw new Error(`Unsupported replay action: ${action}`);
+      }
+
+      const latency = performance.now() - startTime;
+      logger.info('Session replay updated', {
+        sessionId,
+        replayId,
+        action,
+        state: replay.state,
+        latency,
+        correlationId
+      });
+
+      res.status(StatusCodes.OK).json({
+        success: true,
+        data: replay,
+        metadata: {
+          latency,
+          timestamp: new Date()
+        }
+      });
+
+    } catch (error) {
+      logger.error('Failed to update session replay', error as Error, {
+        sessionId,
+        replayId,
+        action,
+        correlationId
+      });
+
+      res.status(StatusCodes.CONFLICT).json({
+        success: false,
+        error: (error as Error).message
+      });
+    }
+  }
 }
 
 export default SessionController;
\ No newline at end of file
@@ -85,6 +85,26 @@ export const configureAthleteRoutes = (controller: AthleteController): Router =>
     }
   );
 
+  // Get athlete training load
+  router.get('/athletes/:id/training-load',
+    authenticate,
+    authorize(['athlete', 'coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.getTrainingLoad(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('get_training_load_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Get athletes by team
   router.get('/athletes/team/:teamId',
     authenticate,
@@ -167,6 +187,209 @@ export const configureAthleteRoutes = (controller: AthleteController): Router =>
     }
   );
 
+  // Get athlete baseline versions
+  router.get('/athletes/:id/baselines',
+    authenticate,
+    authorize(['athlete', 'coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.getBaselines(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('get_baselines_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Pin a baseline version
+  router.put('/athletes/:id/baselines/pin',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    validateRequest,
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.pinBaseline(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('pin_baseline_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Unpin the baseline
+  router.delete('/athletes/:id/baselines/pin',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.unpinBaseline(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('unpin_baseline_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Freeze automatic baseline learning
+  router.put('/athletes/:id/baselines/freeze',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.freezeBaseline(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('freeze_baseline_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Resume automatic baseline learning
+  router.delete('/athletes/:id/baselines/freeze',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.unfreezeBaseline(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('unfreeze_baseline_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get one baseline version
+  router.get('/athletes/:id/baselines/:version',
+    authenticate,
+    authorize(['athlete', 'coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.getBaselineVersion(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('get_baseline_version_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Revert to a baseline version
+  router.post('/athletes/:id/baselines/:version/revert',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.revertBaseline(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('revert_baseline_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // List athlete injury periods
+  router.get('/athletes/:id/injuries',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.listInjuries(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('list_injuries_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Record an injury period
+  router.post('/athletes/:id/injuries',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    validateRequest,
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.recordInjury(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('record_injury_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // End an injury period
+  router.put('/athletes/:id/injuries/:injuryId',
+    authenticate,
+    authorize(['coach', 'medical', 'admin']),
+    validateRequest,
+    async (req, res, next) => {
+      const startTime = now();
+      try {
+        await controller.endInjury(req, res);
+
+        const processingTime = now() - startTime;
+        logger.performance('end_injury_latency', processingTime, {
+          correlationId: req.headers['x-correlation-id'],
+          athleteId: req.params.id
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Update athlete preferences
   router.put('/athletes/:id/preferences',
     authenticate,
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Express router configuration for admin dead-letter endpoints
+ * Lists, inspects, re-queues and discards Kafka messages that workers could not process.
+ * Restricted to the admin role.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express';
+import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { DeadLetterController } from '../controllers/dead-letter.controller';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+/**
+ * Rate limiter for re-queue and discard operations
+ */
+const deadLetterRateLimiter = new RateLimiterMemory({
+  points: 30,
+  duration: 60, // 1 minute
+  blockDuration: 300 // 5 minutes block duration
+});
+
+/**
+ * Configures dead-letter admin routes
+ * @param deadLetterController - Initialized DeadLetterController instance
+ * @returns Configured Express router
+ */
+export const configureDeadLetterRoutes = (deadLetterController: DeadLetterController): Router => {
+  const router = Router();
+
+  /**
+   * GET /dead-letters
+   * Lists dead-lettered messages filtered by status, worker, topic and error type
+   */
+  router.get('/dead-letters',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await deadLetterController.listMessages(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /dead-letters/:id
+   * Retrieves a dead-lettered message with its payload and failure context
+   */
+  router.get('/dead-letters/:id',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await deadLetterController.getMessage(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /dead-letters/:id/requeue
+   * Re-publishes a dead-lettered message to its source topic
+   */
+  router.post('/dead-letters/:id/requeue',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await deadLetterRateLimiter.consume(req.ip);
+      } catch {
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      try {
+        await deadLetterController.requeueMessage(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /dead-letters/:id/discard
+   * Discards a dead-lettered message with an optional reason
+   */
+  router.post('/dead-letters/:id/discard',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await deadLetterRateLimiter.consume(req.ip);
+      } catch {
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      try {
+        await deadLetterController.discardMessage(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+// Export configured router
+export const deadLetterRouter = configureDeadLetterRoutes(new DeadLetterController());
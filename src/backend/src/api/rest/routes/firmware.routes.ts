@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Express router configuration for admin firmware image endpoints
+ * Registers and lists sensor firmware images. Restricted to the admin role.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express';
+import { FirmwareController } from '../controllers/firmware.controller';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+/**
+ * Configures firmware image admin routes
+ * @param firmwareController - Initialized FirmwareController instance
+ * @returns Configured Express router
+ */
+export const configureFirmwareRoutes = (firmwareController: FirmwareController): Router => {
+  const router = Router();
+
+  /**
+   * POST /firmware/images
+   * Registers a firmware image
+   */
+  router.post('/firmware/images',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await firmwareController.registerImage(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /firmware/images
+   * Lists registered firmware images
+   */
+  router.get('/firmware/images',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await firmwareController.listImages(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+// Export configured router
+export const firmwareRouter = configureFirmwareRoutes(new FirmwareController());
@@ -18,6 +18,9 @@ import { sensorRouter } from './sensor.routes';
 import { healthRouter } from './health.routes';
 import { sessionRouter } from './session.routes';
 import { teamRouter } from './team.routes';
+import { deadLetterRouter } from './dead-letter.routes';
+import { retentionRouter } from './retention.routes';
+import { firmwareRouter } from './firmware.routes';
 import { Logger } from '../../../utils/logger.util';
 import { PERFORMANCE_THRESHOLDS } from '../../../constants/system.constants';
 
@@ -97,6 +100,9 @@ export function configureAPIRoutes(): Router {
   router.use('/sensors', queryRateLimit, sensorRouter);
   router.use('/sessions', queryRateLimit, sessionRouter);
   router.use('/teams', queryRateLimit, teamRouter);
+  router.use('/admin', adminRateLimit, deadLetterRouter);
+  router.use('/admin', adminRateLimit, retentionRouter);
+  router.use('/admin', adminRateLimit, firmwareRouter);
 
   // Error handling middleware
   router.use(errorHandler({
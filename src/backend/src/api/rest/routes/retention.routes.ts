@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Express router configuration for admin data retention endpoints
+ * Triggers retention runs and restores archived sessions. Restricted to the admin role.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express';
+import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { RetentionController } from '../controllers/retention.controller';
+import { authenticate, authorize } from '../middlewares/auth.middleware';
+
+/**
+ * Rate limiter for retention runs and restores, which move large amounts of data
+ */
+const retentionRateLimiter = new RateLimiterMemory({
+  points: 10,
+  duration: 60, // 1 minute
+  blockDuration: 300 // 5 minutes block duration
+});
+
+/**
+ * Configures data retention admin routes
+ * @param retentionController - Initialized RetentionController instance
+ * @returns Configured Express router
+ */
+export const configureRetentionRoutes = (retentionController: RetentionController): Router => {
+  const router = Router();
+
+  /**
+   * POST /retention/runs
+   * Runs retention enforcement immediately
+   */
+  router.post('/retention/runs',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await retentionRateLimiter.consume(req.ip);
+      } catch {
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      try {
+        await retentionController.runRetention(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * GET /retention/sessions/:id
+   * Retrieves a session's storage tier and effective retention policy
+   */
+  router.get('/retention/sessions/:id',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await retentionController.getSessionRetention(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * POST /retention/sessions/:id/restore
+   * Restores an archived session's data from the archive store
+   */
+  router.post('/retention/sessions/:id/restore',
+    authenticate,
+    authorize(['admin']),
+    async (req, res, next) => {
+      try {
+        await retentionRateLimiter.consume(req.ip);
+      } catch {
+        res.status(429).json({ error: 'Too many requests' });
+        return;
+      }
+
+      try {
+        await retentionController.restoreSession(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+// Export configured router
+export const retentionRouter = configureRetentionRoutes(new RetentionController());
@@ -132,7 +132,46 @@ const configureSensorRoutes = (controller: SensorController): Router => {
       try {
         const result = await controller.calibrateSensor(
           req.params.sensorId,
-          req.body
+          { ...req.body, operatorId: (req as any).userId }
+        );
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Versioned calibration history
+  router.get(
+    '/api/sensors/:sensorId/calibration/history',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach']),
+    validateSensorRequest,
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.getCalibrationHistory(req.params.sensorId);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    '/api/sensors/:sensorId/calibration/diff',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach']),
+    validateSensorRequest,
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.diffCalibrationVersions(
+          req.params.sensorId,
+          String(req.query.from),
+          String(req.query.to)
         );
         res.json(result);
       } catch (error) {
@@ -141,6 +180,66 @@ const configureSensorRoutes = (controller: SensorController): Router => {
     }
   );
 
+  router.post(
+    '/api/sensors/:sensorId/calibration/rollback',
+    configRateLimit,
+    authenticate,
+    authorize(['admin']),
+    validateSensorRequest,
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.rollbackCalibration(req.params.sensorId, {
+          version: req.body.version,
+          operatorId: (req as any).userId
+        });
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Temperature compensation model
+  router.get(
+    '/api/sensors/:sensorId/calibration/temperature',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach']),
+    validateSensorRequest,
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.getTemperatureModel(req.params.sensorId);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    '/api/sensors/:sensorId/calibration/temperature',
+    configRateLimit,
+    authenticate,
+    authorize(['admin']),
+    validateSensorRequest,
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.fitTemperatureModel(req.params.sensorId, {
+          start: req.body.start,
+          end: req.body.end,
+          sessionId: req.body.sessionId,
+          operatorId: (req as any).userId
+        });
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   router.post(
     '/api/sensors/:sensorId/data',
     dataRateLimit,
@@ -171,6 +270,98 @@ const configureSensorRoutes = (controller: SensorController): Router => {
     }
   );
 
+  // Backfill upload of data buffered on-device while out of range
+  router.post(
+    '/api/sensors/backfill',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach', 'athlete']),
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.createBackfillUpload({
+          ...req.body,
+          requestedBy: (req as any).userId
+        });
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    '/api/sensors/backfill/resume',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach', 'athlete']),
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.resumeBackfillUpload(req.body.resumeToken);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.put(
+    '/api/sensors/backfill/:uploadId/chunks/:chunkIndex',
+    dataRateLimit,
+    authenticate,
+    authorize(['admin', 'coach', 'athlete']),
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.uploadBackfillChunk(
+          req.params.uploadId,
+          req.params.chunkIndex,
+          req.header('X-Resume-Token') || '',
+          req.body
+        );
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    '/api/sensors/backfill/:uploadId/complete',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach', 'athlete']),
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.completeBackfillUpload(
+          req.params.uploadId,
+          req.header('X-Resume-Token') || ''
+        );
+        res.status(202).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    '/api/sensors/backfill/:uploadId',
+    configRateLimit,
+    authenticate,
+    authorize(['admin', 'coach', 'athlete']),
+    performanceMonitor,
+    async (req, res, next) => {
+      try {
+        const result = await controller.getBackfillProgress(req.params.uploadId);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 };
 
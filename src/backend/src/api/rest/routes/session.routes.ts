@@ -162,6 +162,162 @@ export const configureSessionRoutes = (sessionController: SessionController): Ro
     }
   );
 
+  /**
+   * @swagger
+   * /sessions/{id}/gaps:
+   *   get:
+   *     summary: Retrieve dropped-sample gap report for a session
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - name: id
+   *         in: path
+   *         required: true
+   */
+  router.get('/:id/gaps',
+    authenticate,
+    validateRequest,
+    async (req, res, next) => {
+      try {
+        await sessionController.getGapReport(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @swagger
+   * /sessions/{id}/events:
+   *   get:
+   *     summary: List strides, repetitions and jumps segmented from a session
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - name: id
+   *         in: path
+   *         required: true
+   *       - name: type
+   *         in: query
+   *         schema:
+   *           type: string
+   *           enum: [stride, rep, jump]
+   *       - name: from
+   *         in: query
+   *         description: Earliest event start, epoch milliseconds
+   *       - name: to
+   *         in: query
+   *         description: Latest event start, epoch milliseconds
+   */
+  router.get('/:id/events',
+    authenticate,
+    validateRequest,
+    async (req, res, next) => {
+      try {
+        await sessionController.getMovementEvents(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @swagger
+   * /sessions/{id}/replays:
+   *   post:
+   *     summary: Replay stored session data through the live processing pipeline
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - name: id
+   *         in: path
+   *         required: true
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               speed:
+   *                 description: Playback multiplier (0.1-100, default 1) or "max" for unpaced replay
+   *                 oneOf:
+   *                   - type: number
+   *                   - type: string
+   *                     enum: [max]
+   */
+  router.post('/:id/replays',
+    authenticate,
+    sessionRateLimiter,
+    validateRequest,
+    async (req, res, next) => {
+      try {
+        await sessionController.startReplay(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @swagger
+   * /sessions/{id}/replays/{replayId}:
+   *   get:
+   *     summary: Retrieve session replay progress
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - name: id
+   *         in: path
+   *         required: true
+   *       - name: replayId
+   *         in: path
+   *         required: true
+   */
+  router.get('/:id/replays/:replayId',
+    authenticate,
+    validateRequest,
+    async (req, res, next) => {
+      try {
+        await sessionController.getReplay(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @swagger
+   * /sessions/{id}/replays/{replayId}/{action}:
+   *   post:
+   *     summary: Pause, resume or stop a session replay
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - name: id
+   *         in: path
+   *         required: true
+   *       - name: replayId
+   *         in: path
+   *         required: true
+   *       - name: action
+   *         in: path
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [pause, resume, stop]
+   */
+  router.post('/:id/replays/:replayId/:action(pause|resume|stop)',
+    authenticate,
+    validateRequest,
+    async (req, res, next) => {
+      try {
+        await sessionController.controlReplay(req, res);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 };
 
@@ -6,13 +6,23 @@
  */
 
 import WebSocket from 'ws'; // v8.13.0
-import { Subject, Observable } from 'rxjs'; // v7.8.0
 import { injectable, inject } from 'inversify';
 import { performance } from 'perf_hooks';
+import {
+    SENSOR_FRAME_PROTOCOL,
+    SensorFrame,
+    decodeSensorFrames,
+    isSensorFrame
+} from '@smart-apparel/sensor-frame';
 
 import { ISensorData } from '../../../interfaces/sensor.interface';
 import { SensorStreamProcessor } from '../../../services/sensor/stream.processor';
-import { SENSOR_STATUS_CODES } from '../../../constants/sensor.constants';
+import { SENSOR_STATUS_CODES, SENSOR_TYPES } from '../../../constants/sensor.constants';
+
+/**
+ * Wire formats negotiated per connection
+ */
+type WireFormat = 'binary' | 'json';
 
 /**
  * Interface for connection metrics tracking
@@ -25,6 +35,7 @@ interface ConnectionMetrics {
     lastMessageAt: number;
     errors: number;
     bufferSize: number;
+    wireFormat: WireFormat;
 }
 
 /**
@@ -34,7 +45,6 @@ interface ConnectionMetrics {
 export class SensorWebSocketHandler {
     private readonly _connections: Map<string, WebSocket>;
     private readonly _metrics: Map<string, ConnectionMetrics>;
-    private readonly _dataStream: Subject<ISensorData>;
     private readonly _maxBufferSize = 1024 * 1024; // 1MB
     private readonly _maxConnections = 1000;
     private readonly _heartbeatInterval = 30000; // 30 seconds
@@ -48,7 +58,6 @@ export class SensorWebSocketHandler {
     ) {
         this._connections = new Map();
         this._metrics = new Map();
-        this._dataStream = new Subject<ISensorData>();
 
         // Initialize monitoring
         setInterval(() => this.monitorConnections(), 5000);
@@ -66,7 +75,7 @@ export class SensorWebSocketHandler {
             }
 
             // Check connection limits
-            if (this._connections.size >= this._maxBufferSize) {
+            if (this._connections.size >= this._maxConnections) {
                 ws.close(1013, 'Maximum connections reached');
                 return;
             }
@@ -74,8 +83,8 @@ export class SensorWebSocketHandler {
             // Generate unique connection ID
             const connectionId = this.generateConnectionId();
             
-            // Initialize connection metrics
-            this.initializeMetrics(connectionId);
+            // Initialize connection metrics with the negotiated wire format
+            this.initializeMetrics(connectionId, this.negotiateWireFormat(ws));
 
             // Set up connection handlers
             this.setupConnectionHandlers(ws, connectionId);
@@ -105,19 +114,24 @@ export class SensorWebSocketHandler {
             }
 
             // Parse and validate message
-            const sensorData = this.parseSensorData(data);
+            const sensorData = this.parseSensorData(data, connectionId);
 
             // Process data through stream processor
-            await this.streamProcessor.processStream(sensorData);
+            for (const packet of sensorData) {
+                await this.streamProcessor.processStream(packet);
+            }
 
             // Update metrics
             this.updateMetrics(connectionId, startTime);
 
-            // Send acknowledgment
-            this.sendAcknowledgment(ws, sensorData.timestamp);
+            // Send acknowledgment for the most recent packet
+            const lastPacket = sensorData[sensorData.length - 1];
+            if (lastPacket) {
+                this.sendAcknowledgment(ws, lastPacket.timestamp);
+            }
 
         } catch (error) {
-            this.handleMessageError(ws, error, connectionId);
+            this.handleMessageError(ws, error instanceof Error ? error : new Error(String(error)), connectionId);
         }
     }
 
@@ -255,7 +269,7 @@ export class SensorWebSocketHandler {
     /**
      * Initializes metrics for new connection
      */
-    private initializeMetrics(connectionId: string): void {
+    private initializeMetrics(connectionId: string, wireFormat: WireFormat): void {
         this._metrics.set(connectionId, {
             connectionId,
             connectedAt: Date.now(),
@@ -263,10 +277,18 @@ export class SensorWebSocketHandler {
             averageLatency: 0,
             lastMessageAt: Date.now(),
             errors: 0,
-            bufferSize: 0
+            bufferSize: 0,
+            wireFormat
         });
     }
 
+    /**
+     * Determines the wire format from the subprotocol agreed during the handshake
+     */
+    private negotiateWireFormat(ws: WebSocket): WireFormat {
+        return ws.protocol === SENSOR_FRAME_PROTOCOL ? 'binary' : 'json';
+    }
+
     /**
      * Generates unique connection ID
      */
@@ -277,7 +299,7 @@ export class SensorWebSocketHandler {
     /**
      * Validates authentication token
      */
-    private validateAuthToken(token: string): boolean {
+    private validateAuthToken(_token: string): boolean {
         // Implement token validation logic
         return true; // Placeholder
     }
@@ -285,7 +307,7 @@ export class SensorWebSocketHandler {
     /**
      * Validates connection origin
      */
-    private validateOrigin(origin: string): boolean {
+    private validateOrigin(_origin: string): boolean {
         // Implement origin validation logic
         return true; // Placeholder
     }
@@ -293,26 +315,60 @@ export class SensorWebSocketHandler {
     /**
      * Checks rate limits for IP address
      */
-    private checkRateLimits(ip: string): boolean {
+    private checkRateLimits(_ip: string): boolean {
         // Implement rate limiting logic
         return true; // Placeholder
     }
 
     /**
-     * Parses and validates sensor data
+     * Parses and validates sensor data. Binary connections may still send JSON
+     * messages, which are detected by the absence of the frame magic bytes.
      */
-    private parseSensorData(data: Buffer): ISensorData {
+    private parseSensorData(data: Buffer, connectionId: string): ISensorData[] {
         try {
+            const wireFormat = this._metrics.get(connectionId)?.wireFormat;
+            if (wireFormat === 'binary' && isSensorFrame(data)) {
+                return decodeSensorFrames(data).map(frame => this.frameToSensorData(frame));
+            }
+
             const parsed = JSON.parse(data.toString());
             if (!this.validateSensorData(parsed)) {
                 throw new Error('Invalid sensor data format');
             }
-            return parsed;
+            return [parsed];
         } catch (error) {
-            throw new Error(`Data parsing error: ${error.message}`);
+            throw new Error(`Data parsing error: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
+    /**
+     * Converts a decoded binary frame into the sensor data packet used by the pipeline
+     */
+    private frameToSensorData(frame: SensorFrame): ISensorData {
+        const type = frame.sensorType === SENSOR_TYPES.IMU ? SENSOR_TYPES.IMU : SENSOR_TYPES.TOF;
+
+        return {
+            sensorId: frame.sensorId,
+            sessionId: frame.sessionId,
+            timestamp: frame.baseTimestamp,
+            dataQuality: frame.dataQuality,
+            readings: frame.readings.map(reading => ({
+                type,
+                value: reading.value,
+                timestamp: reading.timestamp,
+                confidence: reading.confidence,
+                rawData: Buffer.alloc(0)
+            })),
+            metadata: {
+                calibrationVersion: '',
+                processingSteps: ['binary_frame_decode'],
+                quality: frame.dataQuality,
+                environmentalFactors: {},
+                processingLatency: 0
+            }
+        };
+    }
+
     /**
      * Validates sensor data structure
      */
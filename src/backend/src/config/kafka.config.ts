@@ -13,9 +13,12 @@ import { ENVIRONMENT, SYSTEM_TIMEOUTS } from '../constants/system.constants';
  */
 export const KAFKA_TOPICS = {
   SENSOR_DATA: 'sensor-data-stream',
+  DEAD_LETTER: 'sensor-dead-letter',
   ALERTS: 'system-alerts',
   ANALYTICS: 'performance-analytics',
-  SYSTEM_HEALTH: 'system-health-metrics'
+  SYSTEM_HEALTH: 'system-health-metrics',
+  FIRMWARE_COMMANDS: 'sensor-firmware-commands',
+  FIRMWARE_RESPONSES: 'sensor-firmware-responses'
 } as const;
 
 /**
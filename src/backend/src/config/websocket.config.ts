@@ -5,6 +5,7 @@
  */
 
 import { WebSocket } from 'ws';
+import { SENSOR_FRAME_PROTOCOL, SENSOR_JSON_PROTOCOL } from '@smart-apparel/sensor-frame';
 import { ENVIRONMENT, SYSTEM_TIMEOUTS } from '../constants/system.constants';
 
 /**
@@ -21,9 +22,7 @@ const WEBSOCKET_CONFIG: Record<ENVIRONMENT, WebSocket.ServerOptions> = {
     clientTracking: true,
     backpressureThreshold: 16 * 1024, // 16KB threshold for development
     maxBackpressure: 1024 * 1024, // 1MB max backpressure
-    handleProtocols: (protocols) => {
-      return protocols.includes('sensor-data') ? 'sensor-data' : false;
-    },
+    handleProtocols: (protocols) => selectSensorProtocol(protocols),
     verifyClient: (info, callback) => {
       // Less strict verification for development
       callback(true);
@@ -49,9 +48,7 @@ const WEBSOCKET_CONFIG: Record<ENVIRONMENT, WebSocket.ServerOptions> = {
     clientTracking: true,
     backpressureThreshold: 32 * 1024, // 32KB threshold for production
     maxBackpressure: 512 * 1024, // 512KB max backpressure
-    handleProtocols: (protocols) => {
-      return protocols.includes('sensor-data') ? 'sensor-data' : false;
-    },
+    handleProtocols: (protocols) => selectSensorProtocol(protocols),
     verifyClient: (info, callback) => {
       // Strict client verification for production
       const isSecure = info.req.headers['x-forwarded-proto'] === 'wss';
@@ -62,6 +59,20 @@ const WEBSOCKET_CONFIG: Record<ENVIRONMENT, WebSocket.ServerOptions> = {
   }
 };
 
+/**
+ * Selects the sensor subprotocol for a connection, preferring the binary
+ * frame format and falling back to JSON for older clients
+ * @param protocols - Subprotocols offered by the client
+ * @returns The selected subprotocol or false to reject the handshake
+ */
+const selectSensorProtocol = (protocols: Iterable<string>): string | false => {
+  const offered = Array.from(protocols);
+  if (offered.includes(SENSOR_FRAME_PROTOCOL)) {
+    return SENSOR_FRAME_PROTOCOL;
+  }
+  return offered.includes(SENSOR_JSON_PROTOCOL) ? SENSOR_JSON_PROTOCOL : false;
+};
+
 /**
  * Validates WebSocket connection origin
  * @param origin - The origin of the WebSocket connection request
@@ -41,6 +41,11 @@ export enum ALERT_STATUS {
  * - Asymmetry: Percentage (%)
  * - ROM_Deviation: Degrees (°)
  * - Acceleration: m/s²
+ * - Landing_Force: Body weights (BW)
+ * - Landing_RFD: Body weights per second (BW/s)
+ * - Knee_Valgus: Degrees (°)
+ * - Landing_Quality: Points (0-100)
+ * - Landing_Load: Body weights (BW), cumulative per session
  * - Strain/Fatigue: Percentage (%)
  * - Heart_Rate_Max: Beats per minute (BPM)
  * - Recovery_Time: Seconds (s)
@@ -53,7 +58,12 @@ export const ALERT_THRESHOLDS = {
     IMPACT: 10.0,        // Maximum acceptable impact in G-force
     ASYMMETRY: 15.0,     // Maximum acceptable asymmetry percentage
     ROM_DEVIATION: 20.0, // Maximum acceptable range of motion deviation
-    ACCELERATION: 12.0   // Maximum acceptable acceleration
+    ACCELERATION: 12.0,  // Maximum acceptable acceleration
+    LANDING_FORCE: 6.0,  // Maximum acceptable landing peak force
+    LANDING_RFD: 250,    // Maximum acceptable landing rate of force development
+    KNEE_VALGUS: 10.0,   // Maximum acceptable knee valgus at landing
+    LANDING_QUALITY: 80, // Minimum acceptable landing quality over recent landings
+    LANDING_LOAD: 600    // Maximum acceptable cumulative landing load in a session
   },
   PHYSIOLOGICAL: {
     STRAIN: 85,          // Maximum acceptable strain index
@@ -4,6 +4,9 @@
  * calibration parameters, and Bluetooth communication settings.
  */
 
+import type { IFilterProfile } from '../interfaces/sensor.interface';
+import type { IJointDefinition } from '../interfaces/kinematics.interface';
+
 /**
  * Enumeration of supported sensor types in the smart apparel system
  */
@@ -20,7 +23,8 @@ export enum SENSOR_STATUS {
   CONNECTING = 1,    // Connection in progress
   CALIBRATING = 2,   // Sensor calibration in progress
   ACTIVE = 3,        // Sensor active and collecting data
-  ERROR = 4          // Error state
+  ERROR = 4,         // Error state
+  UPDATING = 5       // Firmware update in progress
 }
 
 /**
@@ -32,6 +36,37 @@ export const SAMPLING_RATES = {
   TOF: 100   // 100Hz sampling rate for ToF
 } as const;
 
+/**
+ * Gap detection thresholds and interpolation defaults for dropped samples.
+ * Intervals are measured in multiples of the nominal sample interval (1 / sampling rate).
+ */
+export const GAP_DETECTION = {
+  jitterTolerance: 1.5,          // Intervals up to 1.5x nominal are treated as timing jitter
+  maxInterpolatedSamples: 5,     // Gaps missing up to 5 samples are short and filled
+  interpolatedConfidence: 0.5,   // Confidence multiplier applied to synthesized samples
+  defaultInterpolation: 'linear',
+  historyIdleMs: 300000,         // Cross-packet history of streams idle for 5 minutes is dropped
+  maxTrackedStreams: 10000       // Upper bound on streams with cross-packet history
+} as const;
+
+/**
+ * Multi-sensor time alignment parameters for clock offset/drift estimation
+ * and resampling onto a common session timeline
+ */
+export const TIME_ALIGNMENT = {
+  timelineRate: SAMPLING_RATES.IMU,  // Common session timeline rate in Hz
+  minSyncEvents: 2,                  // Sync events needed before fitting a clock model
+  maxSyncEvents: 256,                // Most recent sync events kept per sensor
+  maxLagMs: 250,                     // Cross-correlation search range either side of zero
+  correlationWindowMs: 10000,        // Window length for per-window lag estimates
+  minCorrelation: 0.5,               // Windows with weaker peaks are ignored
+  maxDriftPpm: 2000,                 // Larger fitted drift is treated as an estimation failure
+  estimationWindowMs: 30000,         // Recent activity cross-correlated while a session runs
+  estimationIntervalMs: 10000,       // Sensor time between cross-correlation estimates
+  maxBufferedPackets: 5000,          // Packets kept per session for estimation
+  maxTrackedSessions: 1000           // Sessions with buffered packets kept in memory
+} as const;
+
 /**
  * Comprehensive calibration parameters with their ranges and defaults
  * for optimal sensor performance
@@ -70,6 +105,593 @@ export const CALIBRATION_PARAMS = {
  */
 export const DATA_BUFFER_SIZE = 1024;
 
+/**
+ * Backfill upload limits for buffered garment data sent after training out of range
+ */
+export const BACKFILL_UPLOAD = {
+  maxChunkPackets: 2000,                 // Packets accepted in a single chunk
+  maxChunks: 10000,                      // Upper bound on announced chunks per upload
+  resumeWindowMs: 7 * 24 * 60 * 60 * 1000, // Unfinished uploads can be resumed for 7 days
+  reprocessMarginMs: 1000,               // Stored context re-read either side of backfilled ranges
+  rangeMergeGapMs: 5000                  // Backfilled packets closer than this share a reprocessing range
+} as const;
+
+/**
+ * Downsampled sensor_data rollups maintained as continuous aggregates, finest first,
+ * and the point budgets used when choosing a resolution for a query
+ */
+export const SENSOR_DATA_ROLLUPS = {
+  views: [
+    { resolution: '1s', view: 'sensor_data_1s', bucketMs: 1000 },
+    { resolution: '1m', view: 'sensor_data_1m', bucketMs: 60 * 1000 },
+    { resolution: '1h', view: 'sensor_data_1h', bucketMs: 60 * 60 * 1000 }
+  ],
+  channels: 6,             // Reading value channels aggregated per bucket
+  defaultMaxPoints: 2000,  // Point budget when a query does not set one
+  maxPoints: 10000         // Largest point budget a query may request
+} as const;
+
+/**
+ * Firmware update and staged rollout settings
+ */
+export const FIRMWARE_UPDATE = {
+  defaultStages: [10, 50, 100],       // Cumulative percentage of a team's sensors updated per stage
+  defaultMaxFailureRate: 0.2,         // Failed share of a stage that halts the rollout
+  maxConcurrentUpdates: 5,            // Sensors updated at the same time within a stage
+  maxImageBytes: 4 * 1024 * 1024,     // Largest accepted firmware image
+  progressStep: 5,                    // Transfer progress is published in steps of this many percent
+  transferChunkBytes: 64 * 1024,      // Image bytes sent to the gateway per transfer command
+  commandTimeoutMs: 30000,            // Time the gateway has to answer a transfer or verify command
+  bootTimeoutMs: 120000               // Time a sensor has to boot an image and report its version
+} as const;
+
+/**
+ * Channel layout of IMU reading values: acceleration in m/s² followed by angular rate in deg/s
+ */
+export const IMU_CHANNELS = {
+  accel: [0, 1, 2],
+  gyro: [3, 4, 5]
+} as const;
+
+/**
+ * Standard gravity in m/s²
+ */
+export const GRAVITY_MS2 = 9.81;
+
+/**
+ * Guided calibration protocol. Each step coaches the athlete into a pose or movement, captures
+ * live readings and accepts the capture when every metric of the sensor's type lies within its
+ * bounds. IMU metrics are in m/s² and deg/s; ToF load metrics are relative to the mean load.
+ */
+export const CALIBRATION_PROTOCOL = {
+  prepareMs: 3000,            // Countdown before each capture so the athlete can get into position
+  progressIntervalMs: 1000,   // Progress is published at this interval during a capture
+  maxAttempts: 3,             // Captures of a step before the protocol fails
+  minSamples: 50,             // Readings of the sensor's type a capture needs to be evaluated
+  cycleHysteresis: {
+    imu: 0.5,                 // Smallest acceleration swing in m/s² counted as a movement cycle
+    tof: 0.05                 // Smallest load swing, relative to the mean load, counted as a cycle
+  },
+  steps: [
+    {
+      id: 'static_stand',
+      instruction: 'Stand still with feet hip-width apart and arms relaxed',
+      captureMs: 5000,
+      criteria: {
+        imu: {
+          accelMagnitudeMean: { min: 9.31, max: 10.31 },
+          accelMagnitudeStd: { max: 0.3 },
+          gyroRms: { max: 5 }
+        },
+        tof: {
+          loadVariation: { max: 0.1 }
+        }
+      }
+    },
+    {
+      id: 't_pose',
+      instruction: 'Raise both arms to shoulder height and hold still',
+      captureMs: 5000,
+      criteria: {
+        imu: {
+          accelMagnitudeStd: { max: 0.5 },
+          gyroRms: { max: 10 }
+        },
+        tof: {
+          loadVariation: { max: 0.15 }
+        }
+      }
+    },
+    {
+      id: 'squat',
+      instruction: 'Perform three slow bodyweight squats',
+      captureMs: 10000,
+      criteria: {
+        imu: {
+          cycleCount: { min: 3, max: 6 },
+          accelMagnitudeStd: { min: 0.5 }
+        },
+        tof: {
+          cycleCount: { min: 3, max: 6 },
+          loadRange: { min: 0.2 }
+        }
+      }
+    },
+    {
+      id: 'walk',
+      instruction: 'Walk at a comfortable pace until the capture ends',
+      captureMs: 15000,
+      criteria: {
+        imu: {
+          cycleCount: { min: 8 },
+          cycleRateHz: { min: 0.6, max: 3 }
+        },
+        tof: {
+          cycleCount: { min: 8 },
+          cycleRateHz: { min: 0.6, max: 3 }
+        }
+      }
+    }
+  ]
+} as const;
+
+/**
+ * Calibration history settings
+ */
+export const CALIBRATION_HISTORY = {
+  versionTagPrefix: 'cal-v',         // Prefix of the calibrationVersion tag stamped on sensor data
+  maxCachedSensors: 1000,            // Sensor calibration histories kept in memory for tagging
+  cacheTtlMs: 60 * 1000              // Age after which a cached history is reloaded
+} as const;
+
+/**
+ * Temperature compensation model settings. Bias is fitted against the first environmental
+ * factor present on the packets, from packets where the sensor is still (IMU) or unloaded (ToF).
+ */
+export const TEMPERATURE_COMPENSATION = {
+  factors: ['skinTemperature', 'ambientTemperature'],  // Environmental factors read, in order of preference
+  referenceTemperature: 25,          // °C at which the fitted correction is zero
+  maxPackets: 20000,                 // Raw packets read per model fit
+  minPackets: 30,                    // Still packets needed to fit a model
+  minSpanC: 8,                       // Temperature spread needed to fit a slope
+  quadraticSpanC: 20,                // Spread from which a quadratic term is fitted
+  extrapolationC: 5,                 // Distance beyond the fitted range the model is trusted
+  stillness: {
+    imuGyroStd: 2,                   // deg/s; larger gyro variation means the IMU was moving
+    tofLoadStd: 0.2                  // kg; larger load variation means the ToF was loaded
+  },
+  residualSpec: {
+    imu: 0.5,                        // deg/s of gyro bias left after compensation
+    tof: 0.1                         // kg of load offset left after compensation
+  },
+  bands: [
+    { band: 'cold', max: 18 },
+    { band: 'normal', min: 18, max: 32 },
+    { band: 'hot', min: 32 }
+  ]
+} as const;
+
+/**
+ * Sensor health scoring, forecasting and automatic maintenance settings
+ */
+export const SENSOR_HEALTH = {
+  checkCron: '*/15 * * * *',         // Health checks record telemetry and evaluate every sensor
+  telemetryLookbackDays: 7,          // Battery and error history scored per check
+  packetLossLookbackHours: 24,       // Window packet loss is measured over
+  teamLookbackDays: 30,              // Sensor data window used to find a sensor's teams
+  battery: {
+    nominalDischargeRate: 8,         // %/h of a healthy battery while streaming
+    lowLevel: 20,                    // % below which the sensor needs charging
+    chargeJump: 5,                   // % rise between samples that marks a charge
+    minCycleSamples: 3,              // Samples needed to measure a discharge rate
+    minCycleHours: 1,                // Span needed to measure a discharge rate
+    leadHours: 4,                    // Forecast low battery this soon schedules a charge
+    minHealth: 60                    // Battery health below which replacement is scheduled
+  },
+  calibration: {
+    intervalDays: 30,                // Recalibration interval of a sensor without drift
+    minQuality: 0.8,                 // Quality score a calibration must reach
+    trendVersions: 5,                // Recent versions the quality trend is fitted on
+    leadDays: 3,                     // Recalibration due this soon is scheduled
+    temperatureOutOfSpecFactor: 0.8  // Calibration health kept when temperature drift is out of spec
+  },
+  packetLoss: {
+    threshold: 0.05,                 // Loss above which the connection is inspected
+    max: 0.2                         // Loss at which connection quality reaches zero
+  },
+  errors: {
+    thresholdPerDay: 2,              // Error states per day above which the sensor is inspected
+    maxPerDay: 6                     // Error states per day at which error health reaches zero
+  },
+  degradedHealth: 80,                // Health below which a metric is reported as degraded
+  minOverallHealth: 60,              // Overall health below which a full inspection is scheduled
+  weights: {
+    battery: 0.3,
+    calibration: 0.25,
+    connection: 0.25,
+    errors: 0.2
+  },
+  maintenance: {
+    leadHours: 24,                   // Time until inspections without a forecast are scheduled
+    durationMinutes: {
+      battery: 15,
+      calibration: 30,
+      packet_loss: 30,
+      errors: 45,
+      health: 60
+    }
+  }
+} as const;
+
+/**
+ * Body segments garment template slots place sensors on
+ */
+export const BODY_SEGMENTS = [
+  'head',
+  'trunk',
+  'pelvis',
+  'upper_arm',
+  'forearm',
+  'hand',
+  'thigh',
+  'shank',
+  'foot'
+] as const;
+
+/**
+ * Body sides of a garment slot; center is used for midline segments such as the trunk
+ */
+export const BODY_SIDES = ['left', 'right', 'center'] as const;
+
+/**
+ * Garment template registry and placement settings
+ */
+export const GARMENT_TEMPLATES = {
+  maxSlots: 32,                     // Sensor slots a template may define
+  slotIdPattern: /^[a-z][a-z0-9_]{0,47}$/,
+  placementCacheMs: 60000,          // Placements are cached per sensor between pairings
+  liveHeatMapWindowMs: 5000,        // Live segment heat maps average the most recent 5 seconds
+  maxLiveHeatMapSessions: 1000,     // Sessions with a live segment heat map held in memory
+  // Heat map cell of each body segment, front view, as [row, column] of the left side.
+  // Right-side cells mirror the column; center segments use the middle column.
+  heatMapColumns: 5,
+  heatMapLayout: {
+    head: [0, 2],
+    trunk: [1, 2],
+    upper_arm: [1, 1],
+    forearm: [2, 0],
+    hand: [3, 0],
+    pelvis: [2, 2],
+    thigh: [3, 1],
+    shank: [4, 1],
+    foot: [5, 1]
+  }
+} as const;
+
+/**
+ * Synthetic garment simulator used for development and load tests. Motion amplitudes are in
+ * degrees and g; ToF load is expressed in kg, matching the pressure threshold.
+ */
+export const SENSOR_SIMULATOR = {
+  packetMs: 50,                       // Readings are sent in 50ms packets: 10 IMU and 5 ToF readings
+  kafkaTopic: 'sensor-data',          // Raw ingest topic consumed by the sensor worker
+  websocketUrl: 'ws://localhost:8080/ws/sensor-data',
+  maxAthletes: 500,
+  statsIntervalMs: 10000,             // Interval between progress logs of a run
+  athleteVariation: 0.1,              // Cadence and amplitude vary by up to ±10% between athletes
+  noise: {
+    accel: 0.08,                      // m/s²
+    gyro: 0.6,                        // deg/s
+    load: 0.3                         // kg
+  },
+  ranges: {
+    accelG: 16,                       // Accelerometer full scale in g
+    gyro: 2000,                       // Gyroscope full scale in deg/s
+    load: 250                         // ToF load full scale in kg
+  },
+  maxLoad: 120,                       // Peak muscle load of a maximal effort in kg
+  restingLoad: 3,                     // Load of a relaxed muscle in kg
+  activities: {
+    running: { cycleHz: 1.4 },        // Stride frequency; cadence is twice the stride frequency
+    jumping: { cycleHz: 0.4 },        // One countermovement jump every 2.5s
+    squats: { cycleHz: 0.25 }         // One squat every 4s
+  },
+  dropoutMs: { min: 100, max: 1500 }, // Duration range of injected dropouts
+  // Slots of the built-in garment, used when no garment template is given
+  defaultSlots: [
+    { id: 'pelvis_back', segment: 'pelvis', side: 'center', orientation: { roll: 0, pitch: 0, yaw: 180 }, sensorType: SENSOR_TYPES.IMU },
+    { id: 'left_thigh_front', segment: 'thigh', side: 'left', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.IMU },
+    { id: 'right_thigh_front', segment: 'thigh', side: 'right', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.IMU },
+    { id: 'left_shank_front', segment: 'shank', side: 'left', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.IMU },
+    { id: 'right_shank_front', segment: 'shank', side: 'right', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.IMU },
+    { id: 'left_quad_tof', segment: 'thigh', side: 'left', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.TOF },
+    { id: 'right_quad_tof', segment: 'thigh', side: 'right', orientation: { roll: 0, pitch: 0, yaw: 0 }, sensorType: SENSOR_TYPES.TOF }
+  ]
+} as const;
+
+/**
+ * Team sensor inventory settings
+ */
+export const SENSOR_INVENTORY = {
+  maxRegisterBatch: 500,            // Sensors registered in one request
+  attributionCacheMs: 60000         // Assignment histories are cached per sensor between checkouts
+} as const;
+
+/**
+ * IMU orientation fusion (Mahony AHRS) settings. Gains scale with the sensor's
+ * imuDriftCorrection calibration parameter, so sensors with more gyro drift lean harder on
+ * the accelerometer.
+ */
+export const ORIENTATION_FUSION = {
+  proportionalGain: 2.0,            // Kp per unit of imuDriftCorrection (1/s)
+  integralGain: 0.2,                // Ki per unit of imuDriftCorrection (1/s²), drives gyro bias estimation
+  accelTolerance: 0.25,             // Accelerometer corrections are skipped beyond this fraction of 1 g
+  maxGyroBias: 10,                  // Bias estimate limit in deg/s, prevents integral wind-up
+  resetAfterMs: 1000,               // Gaps longer than this re-initialize orientation from gravity
+  maxCachedFilters: 1000            // Per-sensor fusion states kept by the data processor
+} as const;
+
+/**
+ * Joint angle and range of motion settings
+ */
+export const JOINT_KINEMATICS = {
+  windowMs: 30000,                  // Segment orientation history kept per session
+  maxSampleOffsetMs: 10,            // Proximal and distal samples further apart are not paired
+  minRepRom: 15,                    // Smallest range of motion in degrees counted as a repetition
+  repLowerFraction: 0.35,           // Hysteresis band, as fractions of the window's range, that
+  repUpperFraction: 0.65,           // an angle must cross down and up to end and start a repetition
+  maxTrackedSessions: 1000          // Sessions with joint histories kept in memory
+} as const;
+
+/**
+ * Joint angles derived from adjacent segments. Segment pitch grows as a segment tilts forward
+ * from vertical, so knee flexion is the thigh tilting further than the shank.
+ */
+export const JOINT_DEFINITIONS: Record<string, IJointDefinition> = {
+  hip_flexion: {
+    joint: 'hip',
+    plane: 'sagittal',
+    movement: 'flexion',
+    proximal: 'pelvis',
+    distal: 'thigh',
+    sign: { left: 1, right: 1 }
+  },
+  hip_abduction: {
+    joint: 'hip',
+    plane: 'frontal',
+    movement: 'abduction',
+    proximal: 'pelvis',
+    distal: 'thigh',
+    sign: { left: 1, right: -1 }
+  },
+  knee_flexion: {
+    joint: 'knee',
+    plane: 'sagittal',
+    movement: 'flexion',
+    proximal: 'thigh',
+    distal: 'shank',
+    sign: { left: -1, right: -1 }
+  },
+  ankle_dorsiflexion: {
+    joint: 'ankle',
+    plane: 'sagittal',
+    movement: 'dorsiflexion',
+    proximal: 'shank',
+    distal: 'foot',
+    sign: { left: 1, right: 1 }
+  }
+};
+
+/**
+ * Movement event segmentation. Strides are cut at foot strikes on shank or foot IMUs, jumps at
+ * the free fall of a pelvis or trunk IMU, and repetitions from knee or hip flexion.
+ */
+export const MOVEMENT_EVENTS = {
+  strikeThresholdG: 2.0,            // Acceleration magnitude in g a foot strike must exceed
+  minStrideMs: 400,                 // Strikes closer than this to the previous strike are ignored
+  maxStrideMs: 2000,                // Strikes further apart than this do not bound a stride
+  alternationMargin: 0.2,           // The other leg must strike between these fractions of a stride from
+                                    // either end; both legs striking together is a landing, not gait
+  freeFallG: 0.35,                  // Acceleration magnitude in g below which the body is airborne
+  minFlightMs: 200,                 // Shorter flights (e.g. the flight phase of running) are not jumps
+  maxFlightMs: 1200,
+  landingWindowMs: 150,             // Window after touchdown the landing impact is measured over
+  repEvaluationMs: 1000,            // Interval between repetition searches of the joint angle window
+  repSettleMs: 500,                 // A repetition ending this close to the latest sample may not be complete
+  repJoints: ['knee_flexion', 'hip_flexion'], // Joint movements repetitions are segmented from, in preference order
+  maxTrackedSessions: 1000,         // Sessions with detector state kept in memory
+  maxQueryEvents: 10000             // Events returned by one query
+} as const;
+
+/**
+ * Running gait analysis settings. Thresholds are the targets reported with each gait
+ * performance indicator.
+ */
+export const GAIT_ANALYSIS = {
+  windowStrides: 40,                // Recent strides, both legs, summarized per session
+  sampleWindowMs: 10000,            // Pelvis and ToF history kept for measuring strides
+  maxSampleGapMs: 50,               // A stride is measured only when samples cover it to within this
+  resolveAfterMs: 1000,             // Strides still missing samples this long after they end are measured without them
+  contactLoadFraction: 0.3,         // Fraction of a stride's load range above which the foot is in contact
+  minContactLoad: 5,                // Smallest load swing in kg a ToF stride must show
+  legLengthM: 0.9,                  // Leg length used by the stride length estimate
+  maxTrackedSessions: 1000,
+  thresholds: {
+    cadence: 170,                   // Steps per minute
+    groundContactTimeMs: 250,
+    flightTimeMs: 100,
+    strideLengthM: 2.0,
+    verticalOscillationCm: 10,
+    contactTimeAsymmetry: 0.05
+  }
+} as const;
+
+/**
+ * Jump and landing analysis settings. Landing quality is scored against the biomechanical
+ * alert thresholds for landing force, loading rate and knee valgus.
+ */
+export const JUMP_ANALYSIS = {
+  windowJumps: 20,                  // Recent jumps summarized per session
+  qualityWindowJumps: 3,            // Landings averaged into the session's landing quality
+  sampleWindowMs: 5000,             // Jump sensor, ToF and leg orientation history kept for measuring jumps
+  propulsionWindowMs: 1000,         // Window before take-off, starting from standing, that the take-off impulse is integrated over
+  valgusWindowMs: 300,              // Window after touchdown the knee valgus proxy is measured over
+  maxSampleGapMs: 50,               // A phase is measured only when samples cover it to within this
+  resolveAfterMs: 1000,             // Jumps still missing samples this long after landing are measured without them
+  minTakeOffLoad: 5,                // Smallest combined load impulse in kg·s a take-off asymmetry is computed from
+  maxTrackedSessions: 1000,
+  // Knee frontal plane angle, positive as the shank angles out from the thigh (valgus)
+  kneeValgus: {
+    joint: 'knee',
+    plane: 'frontal',
+    movement: 'abduction',
+    proximal: 'thigh',
+    distal: 'shank',
+    sign: { left: 1, right: -1 }
+  } as IJointDefinition,
+  targetJumpHeightCm: 40            // Threshold reported with the jump height indicator
+} as const;
+
+/**
+ * Training load settings. Session external load is the accumulated change in trunk or pelvis
+ * acceleration, and team settings under analyticsConfig.trainingLoad override the defaults.
+ */
+export const TRAINING_LOAD = {
+  acuteDays: 7,
+  chronicDays: 28,
+  defaultModel: 'ewma',
+  defaultCoupling: 'uncoupled',
+  acwrBand: { lower: 0.8, upper: 1.3 },
+  loadSegments: ['trunk', 'pelvis'], // Segments whose IMU the session load is accumulated from
+  loadScale: 0.01,                  // Load units per g of acceleration change
+  maxSampleGapMs: 100,              // Consecutive samples further apart than this add no load
+  historyDays: 120,                 // Daily loads read for a computation, covering the EWMA warm-up
+  seriesDays: 28,                   // Days returned with a computation
+  minHistoryDays: 21,               // Load history needed before ACWR alerts are raised
+  flushIntervalMs: 60000,           // How often live session loads are stored and evaluated
+  maxTrackedSessions: 1000,         // Sessions tracked before idle ones are evicted
+  sessionIdleMs: 600000,            // Sessions without packets this long may be evicted
+  maxTrackedAthletes: 10000
+} as const;
+
+/**
+ * Automatic athlete baseline learning. Baselines are robust statistics (median and median
+ * absolute deviation) of per-session features from qualifying sessions outside injury periods.
+ */
+export const BASELINE_LEARNING = {
+  learningSessions: 5,              // Qualifying sessions the first baseline is learned from
+  refreshEverySessions: 5,          // New qualifying sessions between automatic refreshes
+  windowSessions: 20,               // Most recent qualifying sessions a refresh uses
+  windowDays: 90,                   // Oldest session a refresh uses
+  minSessionMinutes: 10,            // Shortest session that qualifies
+  returnToPlayDays: 14,             // Sessions this long after an injury ends are excluded as well
+  outlierMads: 3,                   // Session values further than this many scaled MADs from the median are rejected
+  madScale: 1.4826,                 // Scales the MAD to a standard deviation for normally distributed values
+  maxListedVersions: 100
+} as const;
+
+/**
+ * Team-defined custom metrics. Formulas are evaluated against each packet's session metrics;
+ * windowed aggregates cover the session's recent values of an expression.
+ */
+export const CUSTOM_METRICS = {
+  maxMetricsPerTeam: 20,
+  maxNameLength: 64,
+  maxFormulaLength: 500,
+  maxFormulaNodes: 200,             // Operators, functions, numbers and references in one formula
+  maxWindowSeconds: 600,            // Longest window of an aggregate
+  maxWindowSamples: 6000,           // Values an aggregate keeps, however short the packet interval
+  settingsRefreshMs: 60000,         // How long an athlete's team definitions are reused
+  maxCompiledFormulas: 1000,
+  maxCachedAthletes: 10000,         // Athletes whose team definitions are kept between refreshes
+  maxTrackedSessions: 1000,
+  maxTrackedStates: 10000           // Threshold states kept by the alert analyzer
+} as const;
+
+/**
+ * Limits applied when validating filter profiles
+ */
+export const FILTER_LIMITS = {
+  maxStages: 6,              // Stages allowed in one sensor type's chain
+  maxOrder: 4,               // Cascaded second-order sections per low-pass or band-pass stage
+  minWindowSize: 3,          // Smallest Savitzky-Golay or median window in samples
+  maxWindowSize: 101,        // Largest Savitzky-Golay or median window in samples
+  maxPolynomialOrder: 5,     // Highest Savitzky-Golay polynomial order
+  maxProfileNameLength: 64,
+  maxCachedChains: 1000,     // Per-sensor filter chain states kept by the data processor
+  maxCachedSessions: 1000    // Session filter selections kept in memory
+} as const;
+
+/**
+ * Name of the filter profile used when a session does not select one
+ */
+export const DEFAULT_FILTER_PROFILE = 'default';
+
+/**
+ * Built-in filter profiles. The default profile reproduces the original Kalman (IMU) and
+ * median (ToF) filtering; sport profiles tune the chains to typical movement frequencies.
+ */
+export const FILTER_PROFILES: Record<string, IFilterProfile> = {
+  [DEFAULT_FILTER_PROFILE]: {
+    name: DEFAULT_FILTER_PROFILE,
+    description: 'General purpose filtering for mixed training',
+    version: 1,
+    builtIn: true,
+    chains: {
+      [SENSOR_TYPES.IMU]: [{ type: 'kalman', processNoise: 0.01, measurementNoise: 0.1 }],
+      [SENSOR_TYPES.TOF]: [{ type: 'median', windowSize: 11 }]
+    }
+  },
+  sprint: {
+    name: 'sprint',
+    description: 'Preserves foot-strike transients during high-speed running',
+    version: 1,
+    builtIn: true,
+    chains: {
+      [SENSOR_TYPES.IMU]: [
+        { type: 'low_pass', cutoffHz: 50, order: 2 },
+        { type: 'kalman', processNoise: 0.05, measurementNoise: 0.1 }
+      ],
+      [SENSOR_TYPES.TOF]: [
+        { type: 'median', windowSize: 5 },
+        { type: 'low_pass', cutoffHz: 20, order: 1 }
+      ]
+    }
+  },
+  swim: {
+    name: 'swim',
+    description: 'Isolates stroke cycles and suppresses water turbulence',
+    version: 1,
+    builtIn: true,
+    chains: {
+      [SENSOR_TYPES.IMU]: [
+        { type: 'band_pass', lowCutoffHz: 0.2, highCutoffHz: 15, order: 2 },
+        { type: 'savitzky_golay', windowSize: 21, polynomialOrder: 3 }
+      ],
+      [SENSOR_TYPES.TOF]: [
+        { type: 'median', windowSize: 11 },
+        { type: 'savitzky_golay', windowSize: 15, polynomialOrder: 2 }
+      ]
+    }
+  },
+  strength: {
+    name: 'strength',
+    description: 'Smooths slow, loaded movements for tempo and range-of-motion analysis',
+    version: 1,
+    builtIn: true,
+    chains: {
+      [SENSOR_TYPES.IMU]: [
+        { type: 'low_pass', cutoffHz: 10, order: 2 },
+        { type: 'savitzky_golay', windowSize: 15, polynomialOrder: 2 }
+      ],
+      [SENSOR_TYPES.TOF]: [
+        { type: 'median', windowSize: 11 },
+        { type: 'low_pass', cutoffHz: 5, order: 2 }
+      ]
+    }
+  }
+};
+
 /**
  * Bluetooth Low Energy communication parameters and configuration
  * Implements BLE 5.0 specifications from technical requirements
@@ -97,5 +719,9 @@ export const SENSOR_STATUS_CODES = {
   BUFFER_OVERFLOW: 1006,
   SENSOR_TIMEOUT: 1007,
   CONNECTION_LOST: 1008,
-  HARDWARE_ERROR: 1009
+  HARDWARE_ERROR: 1009,
+  DATA_ACQUISITION_SUCCESS: 1010,
+  DATA_ACQUISITION_FAILURE: 1011,
+  FIRMWARE_UPDATE_SUCCESS: 1012,
+  FIRMWARE_UPDATE_FAILURE: 1013
 } as const;
\ No newline at end of file
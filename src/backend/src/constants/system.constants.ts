@@ -72,4 +72,38 @@ export const SCALING_CONFIG = {
   CPU_THRESHOLD: 70,
   /** Memory utilization percentage threshold for scaling */
   MEMORY_THRESHOLD: 80
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Dead-letter handling for Kafka messages that workers cannot process
+ * Keeps malformed messages from stalling their partition
+ */
+export const DEAD_LETTER_CONFIG = {
+  /** In-process attempts before a message is dead-lettered */
+  MAX_PROCESSING_ATTEMPTS: 3,
+  /** Delay between in-process attempts in milliseconds */
+  RETRY_BACKOFF_MS: 200,
+  /** Maximum times a message can be re-queued from the dead-letter topic */
+  MAX_REQUEUES: 5,
+  /** Maximum dead-letter messages returned per list request */
+  MAX_PAGE_SIZE: 100
+} as const;
+
+/**
+ * Scheduling and batching for data retention enforcement
+ * Applies DATA_RETENTION tiers, or a team's storage policy, to stored session data
+ */
+export const RETENTION_CONFIG = {
+  /** Cron schedule for retention runs */
+  SCHEDULE_CRON: '15 * * * *',
+  /** Maximum sessions archived or deleted per run */
+  BATCH_SIZE: 50,
+  /** Rows read or written per query when archiving and restoring session data */
+  ROW_BATCH_SIZE: 1000,
+  /** Root directory of the local filesystem archive store */
+  ARCHIVE_ROOT: process.env.ARCHIVE_ROOT || './data/archive',
+  /** User recorded in the audit log for automated retention actions */
+  SYSTEM_USER_ID: '00000000-0000-0000-0000-000000000000',
+  /** Widest sensor_data rollup refresh window in days (the 1 hour rollup's); raw data inside it is never archived */
+  ROLLUP_REFRESH_DAYS: 31
+} as const;
@@ -0,0 +1,38 @@
+import { Knex } from 'knex'; // ^2.5.1
+import { SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Creates the sensor_gaps hypertable recording dropped-sample gaps detected during processing
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sensor_gaps', (table) => {
+    table.uuid('id').defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('session_id').notNullable().references('id').inTable('sessions').onDelete('CASCADE');
+    table.string('sensor_id').notNullable();
+    table.enu('sensor_type', [SENSOR_TYPES.IMU, SENSOR_TYPES.TOF]).notNullable();
+    table.timestamp('gap_start', { useTz: true }).notNullable();
+    table.timestamp('gap_end', { useTz: true }).notNullable();
+    table.integer('missing_samples').notNullable();
+    table.enu('classification', ['jitter', 'dropout']).notNullable();
+    table.boolean('interpolated').notNullable().defaultTo(false);
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.primary(['id', 'gap_start']);
+    table.index(['session_id', 'gap_start'], 'idx_sensor_gaps_session');
+  });
+
+  // Partition alongside sensor_data so gap history follows the same chunking
+  await knex.raw(`
+    SELECT create_hypertable('sensor_gaps', 'gap_start',
+      chunk_time_interval => INTERVAL '1 day',
+      if_not_exists => TRUE
+    );
+  `);
+}
+
+/**
+ * Drops the sensor_gaps table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sensor_gaps');
+}
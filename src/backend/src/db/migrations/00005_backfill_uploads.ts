@@ -0,0 +1,61 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates backfill upload tracking tables and the sensor_data dedupe index used when
+ * buffered garment data is uploaded after the fact
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('backfill_uploads', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('session_id').notNullable().references('id').inTable('sessions').onDelete('CASCADE');
+    table.enu('status', ['receiving', 'processing', 'completed', 'failed']).notNullable().defaultTo('receiving');
+    table.integer('total_chunks');
+    table.integer('packets_received').notNullable().defaultTo(0);
+    table.integer('packets_inserted').notNullable().defaultTo(0);
+    table.integer('packets_duplicate').notNullable().defaultTo(0);
+    table.timestamp('range_start', { useTz: true });
+    table.timestamp('range_end', { useTz: true });
+    table.string('resume_token_hash', 64).notNullable().unique();
+    table.string('requested_by').notNullable();
+    table.text('error');
+    table.timestamp('expires_at', { useTz: true }).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['session_id', 'created_at'], 'idx_backfill_uploads_session');
+  });
+
+  await knex.schema.createTable('backfill_upload_chunks', (table) => {
+    table.uuid('upload_id').notNullable().references('id').inTable('backfill_uploads').onDelete('CASCADE');
+    table.integer('chunk_index').notNullable();
+    table.string('checksum', 64).notNullable();
+    table.integer('packet_count').notNullable();
+    table.integer('inserted_count').notNullable();
+    table.jsonb('inserted_timestamps').notNullable();
+    table.timestamp('received_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.primary(['upload_id', 'chunk_index']);
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_backfill_uploads_updated_at
+      BEFORE UPDATE ON backfill_uploads
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `);
+
+  // Packets are identified by session, sensor and timestamp so re-sent samples are skipped
+  await knex.raw(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_data_dedupe
+      ON sensor_data (session_id, sensor_id, timestamp);
+  `);
+}
+
+/**
+ * Drops backfill upload tables and the sensor_data dedupe index
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_sensor_data_dedupe');
+  await knex.schema.dropTableIfExists('backfill_upload_chunks');
+  await knex.schema.dropTableIfExists('backfill_uploads');
+}
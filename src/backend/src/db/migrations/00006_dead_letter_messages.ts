@@ -0,0 +1,50 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the dead_letter_messages table holding Kafka messages that workers could not
+ * parse or process, along with their failure context and admin resolution
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('dead_letter_messages', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('source_topic').notNullable();
+    table.integer('source_partition').notNullable();
+    table.string('source_offset').notNullable();
+    table.string('worker_name').notNullable();
+    table.enu('error_type', ['PARSE_ERROR', 'VALIDATION_ERROR', 'PROCESSING_ERROR']).notNullable();
+    table.text('error_message').notNullable();
+    table.integer('retry_count').notNullable().defaultTo(0);
+    table.integer('attempts').notNullable().defaultTo(1);
+    table.string('message_key');
+    table.text('payload').notNullable();
+    table.jsonb('headers').notNullable().defaultTo('{}');
+    table.enu('status', ['PENDING', 'REQUEUED', 'DISCARDED']).notNullable().defaultTo('PENDING');
+    table.string('resolved_by');
+    table.timestamp('resolved_at', { useTz: true });
+    table.text('discard_reason');
+    table.timestamp('failed_at', { useTz: true }).notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    // A message redelivered from the dead-letter topic is stored once per failure
+    table.unique(['source_topic', 'source_partition', 'source_offset', 'retry_count'], {
+      indexName: 'idx_dead_letter_messages_source'
+    });
+    table.index(['status', 'failed_at'], 'idx_dead_letter_messages_status');
+    table.index(['worker_name', 'failed_at'], 'idx_dead_letter_messages_worker');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_dead_letter_messages_updated_at
+      BEFORE UPDATE ON dead_letter_messages
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+/**
+ * Drops the dead_letter_messages table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('dead_letter_messages');
+}
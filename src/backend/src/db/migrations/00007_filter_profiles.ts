@@ -0,0 +1,45 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the filter_profiles table holding custom signal filtering profiles and the
+ * filter_profile_versions table keeping every revision, so sessions processed with an
+ * earlier revision can be reproduced
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('filter_profiles', (table) => {
+    table.string('name', 64).primary();
+    table.text('description').notNullable().defaultTo('');
+    table.integer('version').notNullable().defaultTo(1);
+    table.jsonb('chains').notNullable();
+    table.string('created_by').notNullable();
+    table.string('updated_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('filter_profile_versions', (table) => {
+    table.string('name', 64).notNullable().references('name').inTable('filter_profiles').onDelete('CASCADE');
+    table.integer('version').notNullable();
+    table.text('description').notNullable().defaultTo('');
+    table.jsonb('chains').notNullable();
+    table.string('created_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.primary(['name', 'version']);
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_filter_profiles_updated_at
+      BEFORE UPDATE ON filter_profiles
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+/**
+ * Drops the filter profile tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('filter_profile_versions');
+  await knex.schema.dropTableIfExists('filter_profiles');
+}
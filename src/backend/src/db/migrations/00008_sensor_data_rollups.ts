@@ -0,0 +1,114 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Continuous aggregates must be refreshed outside a transaction
+ */
+export const config = { transaction: false };
+
+/**
+ * Rollup views with their bucket width and refresh policy. Every policy reaches back past the
+ * 7-day backfill resume window so late-uploaded garment data is folded into the rollups.
+ */
+const ROLLUPS = [
+  { view: 'sensor_data_1s', bucket: '1 second', startOffset: '8 days', endOffset: '2 seconds', schedule: '1 minute' },
+  { view: 'sensor_data_1m', bucket: '1 minute', startOffset: '8 days', endOffset: '2 minutes', schedule: '5 minutes' },
+  { view: 'sensor_data_1h', bucket: '1 hour', startOffset: '31 days', endOffset: '2 hours', schedule: '1 hour' }
+];
+
+/**
+ * Reading value channels aggregated per bucket; IMU readings carry six, ToF readings one
+ */
+const CHANNELS = 6;
+
+/**
+ * Per-channel sum, count, minimum and maximum columns of a rollup
+ */
+const CHANNEL_COLUMNS = Array.from({ length: CHANNELS }, (_, channel) => `
+        sum((sensor_readings_channel_stats(readings, ${channel}))[1]) AS ch${channel}_sum,
+        sum((sensor_readings_channel_stats(readings, ${channel}))[2]) AS ch${channel}_count,
+        min((sensor_readings_channel_stats(readings, ${channel}))[3]) AS ch${channel}_min,
+        max((sensor_readings_channel_stats(readings, ${channel}))[4]) AS ch${channel}_max`).join(',');
+
+/**
+ * Creates 1 second, 1 minute and 1 hour continuous aggregates over the sensor_data hypertable.
+ * Each bucket keeps packet count and quality statistics per session and sensor, the reading
+ * count and confidence total, and the sum, count, minimum and maximum of every reading value
+ * channel, so bucket averages cover all samples rather than a single packet. The latest
+ * packet's metadata is kept as the bucket's processing metadata.
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Continuous aggregates cannot unnest the readings array, so packet-level statistics
+  // are computed by immutable helpers and aggregated across the bucket
+  await knex.raw(`
+    CREATE FUNCTION sensor_readings_channel_stats(readings jsonb, channel integer)
+    RETURNS double precision[]
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+      SELECT ARRAY[sum(v), count(v), min(v), max(v)]
+      FROM (
+        SELECT (reading->'value'->>channel)::double precision AS v
+        FROM jsonb_array_elements(readings) AS reading
+      ) AS channel_values
+    $$;
+  `);
+
+  await knex.raw(`
+    CREATE FUNCTION sensor_readings_confidence_stats(readings jsonb)
+    RETURNS double precision[]
+    LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+      SELECT ARRAY[sum(c), count(c)]
+      FROM (
+        SELECT (reading->>'confidence')::double precision AS c
+        FROM jsonb_array_elements(readings) AS reading
+      ) AS confidences
+    $$;
+  `);
+
+  for (const rollup of ROLLUPS) {
+    await knex.raw(`
+      CREATE MATERIALIZED VIEW ${rollup.view}
+      WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+      SELECT
+        time_bucket(INTERVAL '${rollup.bucket}', timestamp) AS bucket,
+        session_id,
+        sensor_id,
+        count(*) AS packet_count,
+        avg(data_quality) AS avg_quality,
+        min(data_quality) AS min_quality,
+        max(data_quality) AS max_quality,
+        min(readings->0->>'type') AS reading_type,
+        sum((sensor_readings_confidence_stats(readings))[1]) AS confidence_sum,
+        sum((sensor_readings_confidence_stats(readings))[2]) AS reading_count,${CHANNEL_COLUMNS},
+        last(metadata, timestamp) AS metadata
+      FROM sensor_data
+      GROUP BY bucket, session_id, sensor_id
+      WITH NO DATA;
+    `);
+
+    await knex.raw(`
+      CREATE INDEX idx_${rollup.view}_sensor ON ${rollup.view} (sensor_id, bucket);
+    `);
+
+    await knex.raw(`
+      SELECT add_continuous_aggregate_policy('${rollup.view}',
+        start_offset => INTERVAL '${rollup.startOffset}',
+        end_offset => INTERVAL '${rollup.endOffset}',
+        schedule_interval => INTERVAL '${rollup.schedule}'
+      );
+    `);
+
+    // Materialize existing history, which lies outside the refresh policy window
+    await knex.raw(`CALL refresh_continuous_aggregate('${rollup.view}', NULL, NULL);`);
+  }
+}
+
+/**
+ * Drops the sensor_data rollups along with their refresh policies and helpers
+ */
+export async function down(knex: Knex): Promise<void> {
+  for (const rollup of [...ROLLUPS].reverse()) {
+    await knex.raw(`DROP MATERIALIZED VIEW IF EXISTS ${rollup.view} CASCADE`);
+  }
+
+  await knex.raw('DROP FUNCTION IF EXISTS sensor_readings_confidence_stats(jsonb)');
+  await knex.raw('DROP FUNCTION IF EXISTS sensor_readings_channel_stats(jsonb, integer)');
+}
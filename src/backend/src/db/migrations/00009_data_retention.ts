@@ -0,0 +1,84 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Adds retention tracking to sessions, enables compression on the sensor_data hypertable
+ * and lets restored alerts skip notification delivery
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sessions', (table) => {
+    table.enu('storage_tier', ['hot', 'cold']).notNullable().defaultTo('hot');
+    table.text('archive_key');
+    table.timestamp('archived_at', { useTz: true });
+    table.timestamp('restored_until', { useTz: true });
+
+    table.index(['storage_tier', 'end_time'], 'idx_sessions_storage_tier');
+  });
+
+  // Chunks are compressed per session and sensor so archiving and restoring touch few segments
+  await knex.raw(`
+    ALTER TABLE sensor_data SET (
+      timescaledb.compress,
+      timescaledb.compress_segmentby = 'session_id, sensor_id',
+      timescaledb.compress_orderby = 'timestamp'
+    );
+  `);
+
+  // Alerts restored from an archive were delivered when they were raised
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION create_alert_notification()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF current_setting('app.retention_restore', true) = 'on' THEN
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO alert_notifications (alert_id, user_id, channel, status)
+      SELECT
+        NEW.id,
+        s.user_id,
+        unnest(s.notification_channels),
+        'PENDING'
+      FROM alert_subscriptions s
+      WHERE NEW.type = ANY(s.alert_types)
+      AND NEW.severity >= s.min_severity;
+      RETURN NEW;
+    END;
+    $$ language 'plpgsql';
+  `);
+}
+
+/**
+ * Removes retention tracking and sensor_data compression
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION create_alert_notification()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      INSERT INTO alert_notifications (alert_id, user_id, channel, status)
+      SELECT
+        NEW.id,
+        s.user_id,
+        unnest(s.notification_channels),
+        'PENDING'
+      FROM alert_subscriptions s
+      WHERE NEW.type = ANY(s.alert_types)
+      AND NEW.severity >= s.min_severity;
+      RETURN NEW;
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    SELECT decompress_chunk(c, if_compressed => true) FROM show_chunks('sensor_data') c;
+    ALTER TABLE sensor_data SET (timescaledb.compress = false);
+  `);
+
+  await knex.schema.alterTable('sessions', (table) => {
+    table.dropIndex(['storage_tier', 'end_time'], 'idx_sessions_storage_tier');
+    table.dropColumn('restored_until');
+    table.dropColumn('archived_at');
+    table.dropColumn('archive_key');
+    table.dropColumn('storage_tier');
+  });
+}
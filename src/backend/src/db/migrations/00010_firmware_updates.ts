@@ -0,0 +1,80 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the firmware image registry, staged rollouts and per-sensor update tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('firmware_images', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('version', 50).notNullable().unique();
+    table.string('checksum', 64).notNullable();
+    table.specificType('sensor_types', 'text[]').notNullable();
+    table.integer('size_bytes').notNullable();
+    table.binary('image').notNullable();
+    table.text('release_notes');
+    table.string('created_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('firmware_rollouts', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('team_id').notNullable().references('id').inTable('teams').onDelete('CASCADE');
+    table.uuid('firmware_id').notNullable().references('id').inTable('firmware_images');
+    table.specificType('stages', 'integer[]').notNullable();
+    table.integer('current_stage').notNullable().defaultTo(0);
+    table.enu('status', ['running', 'paused', 'halted', 'completed', 'cancelled'])
+      .notNullable().defaultTo('running');
+    table.float('max_failure_rate').notNullable();
+    table.text('halt_reason');
+    table.string('created_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['team_id', 'created_at'], 'idx_firmware_rollouts_team');
+  });
+
+  await knex.schema.createTable('firmware_updates', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('rollout_id').references('id').inTable('firmware_rollouts').onDelete('CASCADE');
+    table.integer('stage').notNullable().defaultTo(0);
+    table.string('sensor_id').notNullable();
+    table.uuid('firmware_id').notNullable().references('id').inTable('firmware_images');
+    table.string('from_version', 50).notNullable();
+    table.string('to_version', 50).notNullable();
+    table.enu('state', ['queued', 'transferring', 'verifying', 'applied', 'rolled_back'])
+      .notNullable().defaultTo('queued');
+    table.integer('progress').notNullable().defaultTo(0);
+    table.text('error');
+    table.string('requested_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['rollout_id', 'stage'], 'idx_firmware_updates_rollout');
+    table.index(['sensor_id', 'created_at'], 'idx_firmware_updates_sensor');
+  });
+
+  // A sensor has at most one update that has not finished
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_firmware_updates_sensor_pending
+      ON firmware_updates (sensor_id)
+      WHERE state IN ('queued', 'transferring', 'verifying');
+  `);
+
+  for (const table of ['firmware_rollouts', 'firmware_updates']) {
+    await knex.raw(`
+      CREATE TRIGGER update_${table}_updated_at
+        BEFORE UPDATE ON ${table}
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+    `);
+  }
+}
+
+/**
+ * Drops the firmware tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('firmware_updates');
+  await knex.schema.dropTableIfExists('firmware_rollouts');
+  await knex.schema.dropTableIfExists('firmware_images');
+}
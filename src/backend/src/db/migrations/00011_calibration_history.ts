@@ -0,0 +1,45 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the versioned calibration history table. Rows are immutable; a rollback appends a
+ * new version carrying the restored parameters.
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sensor_calibration_versions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('sensor_id').notNullable();
+    table.integer('version').notNullable();
+    table.jsonb('params').notNullable();
+    table.string('operator_id').notNullable();
+    table.float('quality_score').notNullable();
+    table.jsonb('environmental_conditions').notNullable().defaultTo('{}');
+    table.integer('restored_from');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['sensor_id', 'version'], { indexName: 'idx_calibration_versions_sensor_version' });
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION reject_calibration_version_update()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'Calibration versions are immutable';
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER reject_sensor_calibration_versions_update
+      BEFORE UPDATE ON sensor_calibration_versions
+      FOR EACH ROW
+      EXECUTE FUNCTION reject_calibration_version_update();
+  `);
+}
+
+/**
+ * Drops the calibration history table and its immutability trigger
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sensor_calibration_versions');
+  await knex.raw('DROP FUNCTION IF EXISTS reject_calibration_version_update()');
+}
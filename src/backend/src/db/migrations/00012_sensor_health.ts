@@ -0,0 +1,56 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the sensor telemetry history used for health scoring and the maintenance schedule
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sensor_telemetry', (table) => {
+    table.uuid('id').defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('sensor_id').notNullable();
+    table.timestamp('recorded_at', { useTz: true }).notNullable();
+    table.float('battery_level').notNullable();
+    table.integer('status').notNullable();
+
+    table.primary(['id', 'recorded_at']);
+    table.index(['sensor_id', 'recorded_at'], 'idx_sensor_telemetry_sensor');
+  });
+
+  // Telemetry is append-only and read by time range, like sensor data
+  await knex.raw(`
+    SELECT create_hypertable('sensor_telemetry', 'recorded_at',
+      chunk_time_interval => INTERVAL '7 days',
+      if_not_exists => TRUE
+    );
+  `);
+
+  await knex.schema.createTable('sensor_maintenance', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('sensor_id').notNullable();
+    table.timestamp('scheduled_time', { useTz: true }).notNullable();
+    table.text('description').notNullable();
+    table.integer('duration').notNullable();
+    table.integer('priority').notNullable();
+    table.enu('reason', ['battery', 'calibration', 'packet_loss', 'errors', 'health', 'manual']).notNullable();
+    table.enu('status', ['scheduled', 'completed', 'cancelled']).notNullable().defaultTo('scheduled');
+    table.string('created_by');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('completed_at', { useTz: true });
+
+    table.index(['sensor_id', 'scheduled_time'], 'idx_sensor_maintenance_sensor');
+  });
+
+  // At most one open automatic entry per sensor and reason, so repeated health checks do not pile up
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_sensor_maintenance_open_reason
+    ON sensor_maintenance (sensor_id, reason)
+    WHERE status = 'scheduled' AND reason <> 'manual';
+  `);
+}
+
+/**
+ * Drops the sensor health tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sensor_maintenance');
+  await knex.schema.dropTableIfExists('sensor_telemetry');
+}
@@ -0,0 +1,52 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the garment template registry and the pairings binding physical sensors to
+ * template slots
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('garment_templates', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name').notNullable().unique();
+    table.text('description');
+    table.jsonb('slots').notNullable();
+    table.string('created_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.createTable('garment_pairings', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('template_id').notNullable().references('id').inTable('garment_templates');
+    table.uuid('athlete_id');
+    table.string('paired_by').notNullable();
+    table.timestamp('paired_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('unpaired_at', { useTz: true });
+
+    table.index(['athlete_id'], 'idx_garment_pairings_athlete');
+  });
+
+  await knex.schema.createTable('garment_sensor_bindings', (table) => {
+    table.uuid('pairing_id').notNullable().references('id').inTable('garment_pairings').onDelete('CASCADE');
+    table.string('slot_id').notNullable();
+    table.string('sensor_id').notNullable();
+    table.boolean('active').notNullable().defaultTo(true);
+
+    table.primary(['pairing_id', 'slot_id']);
+  });
+
+  // A sensor sits in at most one slot of a paired garment
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_garment_sensor_bindings_active_sensor
+    ON garment_sensor_bindings (sensor_id)
+    WHERE active;
+  `);
+}
+
+/**
+ * Drops the garment pairing and template tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('garment_sensor_bindings');
+  await knex.schema.dropTableIfExists('garment_pairings');
+  await knex.schema.dropTableIfExists('garment_templates');
+}
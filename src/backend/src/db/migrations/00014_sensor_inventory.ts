@@ -0,0 +1,48 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the team sensor inventory and the history of sensor checkouts to athletes
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('sensor_inventory', (table) => {
+    table.string('sensor_id').primary();
+    table.uuid('team_id').notNullable().references('id').inTable('teams');
+    table.enu('state', ['available', 'checked_out', 'lost', 'retired']).notNullable().defaultTo('available');
+    table.text('notes');
+    table.string('registered_by').notNullable();
+    table.timestamp('registered_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('state_changed_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['team_id', 'state'], 'idx_sensor_inventory_team');
+  });
+
+  await knex.schema.createTable('sensor_assignments', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('sensor_id').notNullable().references('sensor_id').inTable('sensor_inventory');
+    table.uuid('athlete_id').notNullable().references('id').inTable('athletes');
+    table.uuid('team_id').notNullable().references('id').inTable('teams');
+    table.timestamp('checked_out_at', { useTz: true }).notNullable();
+    table.timestamp('returned_at', { useTz: true });
+    table.enu('end_reason', ['returned', 'lost']);
+    table.string('checked_out_by').notNullable();
+    table.string('returned_by');
+
+    table.index(['sensor_id', 'checked_out_at'], 'idx_sensor_assignments_sensor');
+    table.index(['athlete_id', 'checked_out_at'], 'idx_sensor_assignments_athlete');
+  });
+
+  // A sensor is checked out to at most one athlete at a time
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_sensor_assignments_open_sensor
+    ON sensor_assignments (sensor_id)
+    WHERE returned_at IS NULL;
+  `);
+}
+
+/**
+ * Drops the sensor inventory tables
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('sensor_assignments');
+  await knex.schema.dropTableIfExists('sensor_inventory');
+}
@@ -0,0 +1,31 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the movement_events table holding the strides, repetitions and jumps segmented from
+ * a session's sensor data
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('movement_events', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('session_id').notNullable().references('id').inTable('sessions').onDelete('CASCADE');
+    table.uuid('athlete_id').references('id').inTable('athletes');
+    table.enu('type', ['stride', 'rep', 'jump']).notNullable();
+    table.enu('side', ['left', 'right']);
+    table.string('source').notNullable();
+    table.timestamp('start_time', { useTz: true }).notNullable();
+    table.timestamp('end_time', { useTz: true }).notNullable();
+    table.jsonb('phases').notNullable().defaultTo('{}');
+    table.jsonb('metrics').notNullable().defaultTo('{}');
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['session_id', 'type', 'start_time'], 'idx_movement_events_session');
+    table.index(['athlete_id', 'start_time'], 'idx_movement_events_athlete');
+  });
+}
+
+/**
+ * Drops the movement_events table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('movement_events');
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the session_loads table holding each session's external load for training load
+ * tracking
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('session_loads', (table) => {
+    table.uuid('session_id').primary().references('id').inTable('sessions').onDelete('CASCADE');
+    table.uuid('athlete_id').notNullable().references('id').inTable('athletes');
+    table.timestamp('start_time', { useTz: true }).notNullable();
+    table.timestamp('end_time', { useTz: true }).notNullable();
+    table.float('load').notNullable();
+    table.string('source_sensor_id').notNullable();
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['athlete_id', 'start_time'], 'idx_session_loads_athlete');
+  });
+}
+
+/**
+ * Drops the session_loads table
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('session_loads');
+}
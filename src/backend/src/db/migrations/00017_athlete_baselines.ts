@@ -0,0 +1,77 @@
+import { Knex } from 'knex'; // ^2.5.1
+
+/**
+ * Creates the tables for automatic baseline learning: athlete injury periods, per-session
+ * baseline samples, immutable baseline versions and each athlete's baseline state
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('athlete_injuries', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('athlete_id').notNullable().references('id').inTable('athletes');
+    table.timestamp('start_date', { useTz: true }).notNullable();
+    table.timestamp('end_date', { useTz: true });
+    table.text('description').notNullable();
+    table.string('recorded_by').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['athlete_id', 'start_date'], 'idx_athlete_injuries_athlete');
+  });
+
+  await knex.schema.createTable('baseline_samples', (table) => {
+    table.uuid('session_id').primary().references('id').inTable('sessions').onDelete('CASCADE');
+    table.uuid('athlete_id').notNullable().references('id').inTable('athletes');
+    table.timestamp('start_time', { useTz: true }).notNullable();
+    table.jsonb('features').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index(['athlete_id', 'start_time'], 'idx_baseline_samples_athlete');
+  });
+
+  await knex.schema.createTable('athlete_baseline_versions', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('athlete_id').notNullable().references('id').inTable('athletes');
+    table.integer('version').notNullable();
+    table.jsonb('baseline').notNullable();
+    table.jsonb('statistics').notNullable().defaultTo('{}');
+    table.jsonb('provenance').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.unique(['athlete_id', 'version'], { indexName: 'idx_baseline_versions_athlete_version' });
+  });
+
+  await knex.schema.createTable('athlete_baseline_state', (table) => {
+    table.uuid('athlete_id').primary().references('id').inTable('athletes');
+    table.integer('active_version');
+    table.boolean('pinned').notNullable().defaultTo(false);
+    table.boolean('frozen').notNullable().defaultTo(false);
+    table.string('updated_by');
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE OR REPLACE FUNCTION reject_baseline_version_update()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'Baseline versions are immutable';
+    END;
+    $$ language 'plpgsql';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER reject_athlete_baseline_versions_update
+      BEFORE UPDATE ON athlete_baseline_versions
+      FOR EACH ROW
+      EXECUTE FUNCTION reject_baseline_version_update();
+  `);
+}
+
+/**
+ * Drops the baseline learning tables and the version immutability trigger
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('athlete_baseline_state');
+  await knex.schema.dropTableIfExists('athlete_baseline_versions');
+  await knex.schema.dropTableIfExists('baseline_samples');
+  await knex.schema.dropTableIfExists('athlete_injuries');
+  await knex.raw('DROP FUNCTION IF EXISTS reject_baseline_version_update()');
+}
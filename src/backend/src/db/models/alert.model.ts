@@ -149,7 +149,13 @@ const alertSchema = new Schema<IAlert>({
     },
     riskFactors: [{
       type: String
-    }]
+    }],
+    athleteId: {
+      type: String
+    },
+    teamId: {
+      type: String
+    }
   },
   confidenceScore: {
     type: Number,
@@ -42,6 +42,10 @@ const SensorSchema = new Schema({
       message: 'Sampling rate must be either 100Hz (ToF) or 200Hz (IMU)'
     }
   },
+  gapInterpolation: {
+    type: String,
+    enum: ['linear', 'previous', 'cubic']
+  },
   calibrationParams: {
     tofGain: {
       type: Number,
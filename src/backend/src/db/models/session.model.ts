@@ -32,11 +32,69 @@ const sessionMetricsSchema = new Schema({
   rangeOfMotion: {
     type: Map,
     of: {
+      jointId: { type: String, required: true },
+      joint: { type: String, enum: ['hip', 'knee', 'ankle'], required: true },
+      side: { type: String, enum: ['left', 'right'], required: true },
+      plane: { type: String, enum: ['sagittal', 'frontal', 'transverse'], required: true },
+      movement: { type: String, enum: ['flexion', 'abduction', 'dorsiflexion'], required: true },
       current: { type: Number, required: true },
+      min: { type: Number, required: true },
+      max: { type: Number, required: true },
       baseline: { type: Number, required: true },
-      deviation: { type: Number, required: true }
+      deviation: { type: Number, required: true },
+      reps: [{
+        start: { type: Number, required: true },
+        peak: { type: Number, required: true },
+        end: { type: Number, required: true },
+        min: { type: Number, required: true },
+        max: { type: Number, required: true },
+        rom: { type: Number, required: true }
+      }]
     }
   },
+  gait: {
+    strideCount: { type: Number },
+    cadence: { type: Number },
+    groundContactTimeMs: { type: Number },
+    flightTimeMs: { type: Number },
+    strideLengthM: { type: Number },
+    verticalOscillationCm: { type: Number },
+    contactTimeAsymmetry: { type: Number },
+    strides: [{
+      timestamp: { type: Number, required: true },
+      side: { type: String, enum: ['left', 'right'], required: true },
+      strideTimeMs: { type: Number, required: true },
+      cadence: { type: Number, required: true },
+      groundContactTimeMs: { type: Number },
+      contactSource: { type: String, enum: ['tof', 'imu'] },
+      flightTimeMs: { type: Number },
+      verticalOscillationCm: { type: Number },
+      strideLengthM: { type: Number }
+    }]
+  },
+  jumps: {
+    jumpCount: { type: Number },
+    cumulativeLandingLoadBw: { type: Number },
+    jumpHeightCm: { type: Number },
+    impulseJumpHeightCm: { type: Number },
+    takeOffAsymmetry: { type: Number },
+    landingPeakForceBw: { type: Number },
+    landingRfdBwPerS: { type: Number },
+    kneeValgusDeg: { type: Number },
+    landingQuality: { type: Number },
+    jumps: [{
+      timestamp: { type: Number, required: true },
+      landing: { type: Number, required: true },
+      flightTimeMs: { type: Number, required: true },
+      jumpHeightCm: { type: Number, required: true },
+      impulseJumpHeightCm: { type: Number },
+      takeOffAsymmetry: { type: Number },
+      landingPeakForceBw: { type: Number },
+      landingRfdBwPerS: { type: Number },
+      kneeValgusDeg: { type: Number },
+      landingQuality: { type: Number }
+    }]
+  },
   anomalyScores: {
     type: Map,
     of: {
@@ -52,9 +110,23 @@ const sessionMetricsSchema = new Schema({
       trend: { type: Number, required: true },
       threshold: { type: Number, required: true }
     }
+  },
+  // Team-defined custom metrics keyed by team ID, each a map of metric name to value
+  customMetrics: {
+    type: Map,
+    of: Schema.Types.Mixed
   }
 });
 
+/**
+ * Schema for a session's filter profile selection with a snapshot of the selected profiles
+ */
+const filterConfigSchema = new Schema({
+  profile: { type: String, required: true },
+  sensorOverrides: { type: Map, of: String },
+  profiles: { type: Map, of: Schema.Types.Mixed }
+}, { _id: false });
+
 /**
  * Enhanced schema definition for session configuration with validation
  */
@@ -104,7 +176,8 @@ const sessionConfigSchema = new Schema({
       enum: ['raw', 'aggregated', 'summary'],
       required: true 
     }
-  }
+  },
+  filtering: filterConfigSchema
 });
 
 /**
@@ -134,6 +207,29 @@ const sensorDataSchema = new Schema({
   dataQuality: { type: Number, min: 0, max: 100 }
 });
 
+/**
+ * Schema for per-sensor clock offsets aligning streams onto the session timeline
+ */
+const timeAlignmentSchema = new Schema({
+  referenceSensorId: { type: String, required: true },
+  timelineRate: { type: Number, min: 1, required: true },
+  sensors: [{
+    sensorId: { type: String, required: true },
+    offsetMs: { type: Number, required: true },
+    driftPpm: { type: Number, default: 0 },
+    referenceTimestamp: { type: Number, required: true },
+    method: {
+      type: String,
+      enum: ['sync_events', 'cross_correlation', 'reference'],
+      required: true
+    },
+    residualMs: Number,
+    sampleCount: Number,
+    estimatedAt: Date
+  }],
+  updatedAt: { type: Date, required: true }
+}, { _id: false });
+
 /**
  * Main session schema with comprehensive tracking and optimization features
  */
@@ -174,6 +270,7 @@ const sessionSchema = new Schema({
       message: 'Sensor data array exceeds maximum size'
     }
   },
+  timeAlignment: timeAlignmentSchema,
   status: {
     current: {
       type: String,
@@ -9,6 +9,7 @@ import { Redis } from 'ioredis'; // ^5.3.2
 import { CryptoService } from '@smartapparel/crypto'; // ^1.0.0
 import { AthleteModel } from '../models/athlete.model';
 import { IAthlete } from '../../interfaces/athlete.interface';
+import { IBaselineProfile } from '../../interfaces/baseline.interface';
 import { Logger } from '../../utils/logger.util';
 import { SYSTEM_TIMEOUTS, DATA_RETENTION } from '../../constants/system.constants';
 
@@ -159,6 +160,35 @@ export class AthleteRepository {
     }
   }
 
+  /**
+   * Applies a baseline version's measurements, keeping the athlete's sensor calibration
+   */
+  async applyBaseline(athleteId: string, baseline: IBaselineProfile): Promise<IAthlete | null> {
+    try {
+      const updatedAthlete = await this.model.findOneAndUpdate(
+        { id: athleteId },
+        {
+          $set: {
+            'baselineData.muscleProfiles': baseline.muscleProfiles,
+            'baselineData.rangeOfMotion': baseline.rangeOfMotion,
+            'baselineData.forceDistribution': baseline.forceDistribution,
+            'baselineData.lastUpdated': baseline.lastUpdated
+          }
+        },
+        { new: true }
+      );
+
+      if (!updatedAthlete) return null;
+
+      await this.invalidateAthleteCache(updatedAthlete);
+
+      return await this.decryptSensitiveFields(updatedAthlete);
+    } catch (error) {
+      this.logger.error('Failed to apply athlete baseline', error as Error, { athleteId });
+      throw error;
+    }
+  }
+
   /**
    * Helper method to encrypt sensitive athlete fields
    */
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Repository for chunked backfill uploads of buffered garment data. Tracks upload
+ * progress and stores each chunk's packets in sensor_data atomically with its chunk record, so an
+ * interrupted upload can be resumed without losing or double-counting samples.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  ISensorData,
+  IBackfillUpload,
+  BackfillUploadStatus
+} from '../../interfaces/sensor.interface';
+
+/**
+ * Stored chunk record used to detect re-sent chunks
+ */
+export interface BackfillChunkRecord {
+  chunkIndex: number;
+  checksum: string;
+  packetCount: number;
+  insertedCount: number;
+}
+
+/**
+ * Row of backfill_uploads
+ */
+interface BackfillUploadRow {
+  id: string;
+  session_id: string;
+  status: BackfillUploadStatus;
+  total_chunks: number | null;
+  packets_received: number;
+  packets_inserted: number;
+  packets_duplicate: number;
+  range_start: Date | null;
+  range_end: Date | null;
+  requested_by: string;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Row of backfill_upload_chunks
+ */
+interface BackfillChunkRow {
+  chunk_index: number;
+  checksum: string;
+  packet_count: number;
+  inserted_count: number;
+  inserted_timestamps: Record<string, number[]>;
+}
+
+/**
+ * Repository class implementing data access for backfill uploads and their chunks
+ */
+export class BackfillRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'BackfillRepository' });
+  }
+
+  /**
+   * Checks that a session exists, whether active or closed
+   * @param sessionId Session ID
+   * @returns True when the session exists
+   */
+  async sessionExists(sessionId: string): Promise<boolean> {
+    try {
+      const row = await this.db('sessions').select('id').where({ id: sessionId }).first();
+      return !!row;
+    } catch (error) {
+      this.logger.error({
+        op: 'sessionExists',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a backfill upload in the receiving state
+   * @param upload Upload attributes
+   * @returns Created upload
+   */
+  async createUpload(upload: {
+    sessionId: string;
+    totalChunks: number | null;
+    requestedBy: string;
+    resumeTokenHash: string;
+    expiresAt: Date;
+  }): Promise<IBackfillUpload> {
+    const startTime = process.hrtime();
+
+    try {
+      const [row] = await this.db('backfill_uploads')
+        .insert({
+          session_id: upload.sessionId,
+          total_chunks: upload.totalChunks,
+          requested_by: upload.requestedBy,
+          resume_token_hash: upload.resumeTokenHash,
+          expires_at: upload.expiresAt
+        })
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createUpload',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId: upload.sessionId,
+        uploadId: row.id
+      });
+
+      return this.mapUploadRow(row, []);
+    } catch (error) {
+      this.logger.error({
+        op: 'createUpload',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId: upload.sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves an upload with the indexes of its received chunks
+   * @param uploadId Upload ID
+   * @returns Upload or null
+   */
+  async getUpload(uploadId: string): Promise<IBackfillUpload | null> {
+    return this.findUpload('getUpload', { id: uploadId });
+  }
+
+  /**
+   * Retrieves an upload by the hash of its resume token
+   * @param resumeTokenHash SHA-256 hex digest of the resume token
+   * @returns Upload or null
+   */
+  async getUploadByTokenHash(resumeTokenHash: string): Promise<IBackfillUpload | null> {
+    return this.findUpload('getUploadByTokenHash', { resume_token_hash: resumeTokenHash });
+  }
+
+  /**
+   * Retrieves a stored chunk record
+   * @param uploadId Upload ID
+   * @param chunkIndex Chunk index
+   * @returns Chunk record or null
+   */
+  async getChunk(uploadId: string, chunkIndex: number): Promise<BackfillChunkRecord | null> {
+    try {
+      const row = await this.db('backfill_upload_chunks')
+        .where({ upload_id: uploadId, chunk_index: chunkIndex })
+        .first();
+
+      return row ? {
+        chunkIndex: row.chunk_index,
+        checksum: row.checksum,
+        packetCount: row.packet_count,
+        insertedCount: row.inserted_count
+      } : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getChunk',
+        error: error instanceof Error ? error.message : String(error),
+        uploadId,
+        chunkIndex
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stores a chunk's packets, skipping packets already in sensor_data, and records the chunk
+   * and upload counters in the same transaction
+   * @param upload Upload the chunk belongs to
+   * @param chunkIndex Chunk index
+   * @param checksum SHA-256 hex digest of the chunk packets
+   * @param packets Packets in the chunk
+   * @returns Packets that were newly stored
+   */
+  async storeChunk(
+    upload: IBackfillUpload,
+    chunkIndex: number,
+    checksum: string,
+    packets: ISensorData[]
+  ): Promise<ISensorData[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const inserted = await this.db.transaction(async (trx) => {
+        const rows = packets.length === 0 ? [] : await trx('sensor_data')
+          .insert(packets.map(packet => ({
+            session_id: upload.sessionId,
+            sensor_id: packet.sensorId,
+            timestamp: new Date(packet.timestamp),
+            readings: JSON.stringify(packet.readings),
+            metadata: JSON.stringify(packet.metadata),
+            data_quality: packet.dataQuality
+          })))
+          .onConflict(['session_id', 'sensor_id', 'timestamp'])
+          .ignore()
+          .returning(['sensor_id', 'timestamp']);
+
+        const insertedKeys = new Set(rows.map((row: { sensor_id: string; timestamp: Date }) =>
+          `${row.sensor_id}:${new Date(row.timestamp).getTime()}`));
+        const insertedPackets = packets.filter(packet => insertedKeys.has(`${packet.sensorId}:${packet.timestamp}`));
+        const timestamps = insertedPackets.map(packet => packet.timestamp);
+        const insertedTimestamps: Record<string, number[]> = {};
+        insertedPackets.forEach(packet => {
+          (insertedTimestamps[packet.sensorId] ??= []).push(packet.timestamp);
+        });
+
+        await trx('backfill_upload_chunks').insert({
+          upload_id: upload.id,
+          chunk_index: chunkIndex,
+          checksum,
+          packet_count: packets.length,
+          inserted_count: insertedPackets.length,
+          inserted_timestamps: JSON.stringify(insertedTimestamps)
+        });
+
+        const counters: Record<string, Knex.Raw> = {
+          packets_received: trx.raw('packets_received + ?', [packets.length]),
+          packets_inserted: trx.raw('packets_inserted + ?', [insertedPackets.length]),
+          packets_duplicate: trx.raw('packets_duplicate + ?', [packets.length - insertedPackets.length])
+        };
+        if (timestamps.length > 0) {
+          counters.range_start = trx.raw('least(range_start, ?)', [new Date(Math.min(...timestamps))]);
+          counters.range_end = trx.raw('greatest(range_end, ?)', [new Date(Math.max(...timestamps))]);
+        }
+        await trx('backfill_uploads').where({ id: upload.id }).update(counters);
+
+        return insertedPackets;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'storeChunk',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        uploadId: upload.id,
+        chunkIndex,
+        packetCount: packets.length,
+        insertedCount: inserted.length
+      });
+
+      return inserted;
+    } catch (error) {
+      this.logger.error({
+        op: 'storeChunk',
+        error: error instanceof Error ? error.message : String(error),
+        uploadId: upload.id,
+        chunkIndex
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the timestamps of packets newly stored by an upload, per sensor, so completion can
+   * reprocess only the backfilled ranges
+   * @param uploadId Upload ID
+   * @returns Inserted packet timestamps grouped by sensor
+   */
+  async getInsertedTimestamps(uploadId: string): Promise<Array<{ sensorId: string; timestamps: number[] }>> {
+    try {
+      const rows = await this.db('backfill_upload_chunks')
+        .select('inserted_timestamps')
+        .where({ upload_id: uploadId })
+        .orderBy('chunk_index');
+
+      const groups = new Map<string, number[]>();
+      rows.forEach((row: Pick<BackfillChunkRow, 'inserted_timestamps'>) => {
+        Object.entries(row.inserted_timestamps).forEach(([sensorId, timestamps]) => {
+          groups.set(sensorId, [...(groups.get(sensorId) ?? []), ...timestamps]);
+        });
+      });
+
+      return Array.from(groups, ([sensorId, timestamps]) => ({
+        sensorId,
+        timestamps: timestamps.sort((a, b) => a - b)
+      }));
+    } catch (error) {
+      this.logger.error({
+        op: 'getInsertedTimestamps',
+        error: error instanceof Error ? error.message : String(error),
+        uploadId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates an upload's lifecycle state
+   * @param uploadId Upload ID
+   * @param status New status
+   * @param error Failure reason for failed uploads
+   */
+  async updateStatus(uploadId: string, status: BackfillUploadStatus, error: string | null = null): Promise<void> {
+    try {
+      await this.db('backfill_uploads').where({ id: uploadId }).update({ status, error });
+
+      this.logger.info({
+        op: 'updateStatus',
+        uploadId,
+        status
+      });
+    } catch (err) {
+      this.logger.error({
+        op: 'updateStatus',
+        error: err instanceof Error ? err.message : String(err),
+        uploadId
+      });
+      throw err;
+    }
+  }
+
+  /**
+   * Loads an upload row and its received chunk indexes
+   */
+  private async findUpload(op: string, where: Record<string, string>): Promise<IBackfillUpload | null> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db('backfill_uploads').where(where).first();
+      if (!row) {
+        return null;
+      }
+
+      const chunks = await this.db('backfill_upload_chunks')
+        .select('chunk_index')
+        .where({ upload_id: row.id })
+        .orderBy('chunk_index');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op,
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        uploadId: row.id
+      });
+
+      return this.mapUploadRow(row, chunks.map((chunk: Pick<BackfillChunkRow, 'chunk_index'>) => chunk.chunk_index));
+    } catch (error) {
+      this.logger.error({
+        op,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a backfill_uploads row to the upload shape used by the service layer
+   */
+  private mapUploadRow(row: BackfillUploadRow, receivedChunks: number[]): IBackfillUpload {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      status: row.status,
+      totalChunks: row.total_chunks,
+      receivedChunks,
+      packetsReceived: row.packets_received,
+      packetsInserted: row.packets_inserted,
+      packetsDuplicate: row.packets_duplicate,
+      rangeStart: row.range_start ? new Date(row.range_start).getTime() : null,
+      rangeEnd: row.range_end ? new Date(row.range_end).getTime() : null,
+      requestedBy: row.requested_by,
+      error: row.error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      expiresAt: row.expires_at
+    };
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview Repository for learned athlete baselines: per-session baseline samples,
+ * immutable baseline versions, each athlete's baseline state, and the injury periods samples
+ * are excluded over.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  IBaselineProfile,
+  IBaselineProvenance,
+  IBaselineSample,
+  IBaselineState,
+  IBaselineStatistic,
+  IBaselineVersion,
+  IInjuryPeriod
+} from '../../interfaces/baseline.interface';
+
+/**
+ * Row of baseline_samples
+ */
+interface BaselineSampleRow {
+  session_id: string;
+  athlete_id: string;
+  start_time: Date;
+  features: Record<string, number> | null;
+}
+
+/**
+ * Row of athlete_baseline_versions
+ */
+interface BaselineVersionRow {
+  id: string;
+  athlete_id: string;
+  version: number;
+  baseline: IBaselineProfile;
+  statistics: Record<string, IBaselineStatistic> | null;
+  provenance: IBaselineProvenance;
+  created_at: Date;
+}
+
+/**
+ * Row of athlete_baseline_state
+ */
+interface BaselineStateRow {
+  athlete_id: string;
+  active_version: number | null;
+  pinned: boolean;
+  frozen: boolean;
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+/**
+ * Row of athlete_injuries
+ */
+interface InjuryRow {
+  id: string;
+  athlete_id: string;
+  start_date: Date;
+  end_date: Date | null;
+  description: string;
+  recorded_by: string;
+  created_at: Date;
+}
+
+/**
+ * Repository class implementing data access for athlete baselines
+ */
+export class BaselineRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'BaselineRepository' });
+  }
+
+  /**
+   * Stores a session's baseline sample, replacing an earlier sample of the session
+   * @param sample Session features
+   */
+  async recordSample(sample: IBaselineSample): Promise<void> {
+    try {
+      await this.db('baseline_samples')
+        .insert({
+          session_id: sample.sessionId,
+          athlete_id: sample.athleteId,
+          start_time: sample.startTime,
+          features: JSON.stringify(sample.features)
+        })
+        .onConflict('session_id')
+        .merge(['features']);
+
+      this.logger.info({
+        op: 'recordSample',
+        sessionId: sample.sessionId,
+        featureCount: Object.keys(sample.features).length
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'recordSample',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId: sample.sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists an athlete's baseline samples of sessions started since a time
+   * @param athleteId Athlete ID
+   * @param since Earliest session start
+   * @param limit Maximum samples returned
+   * @param oldestFirst Return the earliest sessions instead of the latest
+   * @returns Samples in start time order, newest first unless oldestFirst
+   */
+  async listSamples(athleteId: string, since: Date, limit: number, oldestFirst = false): Promise<IBaselineSample[]> {
+    try {
+      const rows = await this.db('baseline_samples')
+        .where({ athlete_id: athleteId })
+        .where('start_time', '>=', since)
+        .orderBy('start_time', oldestFirst ? 'asc' : 'desc')
+        .limit(limit);
+
+      return rows.map((row: BaselineSampleRow) => ({
+        sessionId: row.session_id,
+        athleteId: row.athlete_id,
+        startTime: new Date(row.start_time),
+        features: row.features ?? {}
+      }));
+    } catch (error) {
+      this.logger.error({
+        op: 'listSamples',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a baseline version numbered after the athlete's latest version
+   * @param record Baseline to store
+   * @returns Stored version
+   */
+  async createVersion(
+    record: Omit<IBaselineVersion, 'id' | 'version' | 'createdAt'>
+  ): Promise<IBaselineVersion> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db.transaction(async (trx) => {
+        // Concurrent writers for the same athlete fail on the unique (athlete_id, version) index
+        const latest = await trx('athlete_baseline_versions')
+          .where({ athlete_id: record.athleteId })
+          .max('version as version')
+          .first();
+
+        const [inserted] = await trx('athlete_baseline_versions')
+          .insert({
+            athlete_id: record.athleteId,
+            version: (latest?.version ?? 0) + 1,
+            baseline: JSON.stringify(record.baseline),
+            statistics: JSON.stringify(record.statistics),
+            provenance: JSON.stringify(record.provenance)
+          })
+          .returning('*');
+
+        return inserted;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createVersion',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        athleteId: record.athleteId,
+        version: row.version,
+        source: record.provenance.source
+      });
+
+      return this.mapVersionRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'createVersion',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId: record.athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves one baseline version of an athlete
+   * @param athleteId Athlete ID
+   * @param version Version number
+   * @returns Version or null
+   */
+  async getVersion(athleteId: string, version: number): Promise<IBaselineVersion | null> {
+    try {
+      const row = await this.db('athlete_baseline_versions')
+        .where({ athlete_id: athleteId, version })
+        .first();
+      return row ? this.mapVersionRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getVersion',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists an athlete's baseline versions
+   * @param athleteId Athlete ID
+   * @param limit Maximum versions returned
+   * @returns Versions, newest first
+   */
+  async listVersions(athleteId: string, limit: number): Promise<IBaselineVersion[]> {
+    try {
+      const rows = await this.db('athlete_baseline_versions')
+        .where({ athlete_id: athleteId })
+        .orderBy('version', 'desc')
+        .limit(limit);
+      return rows.map((row: BaselineVersionRow) => this.mapVersionRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listVersions',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves an athlete's baseline state
+   * @param athleteId Athlete ID
+   * @returns State or null before anything was recorded for the athlete
+   */
+  async getState(athleteId: string): Promise<IBaselineState | null> {
+    try {
+      const row = await this.db('athlete_baseline_state')
+        .where({ athlete_id: athleteId })
+        .first();
+      return row ? this.mapStateRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getState',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stores an athlete's baseline state
+   * @param state Active version, pin and freeze flags
+   * @returns Stored state
+   */
+  async saveState(state: Omit<IBaselineState, 'updatedAt'>): Promise<IBaselineState> {
+    try {
+      const [row] = await this.db('athlete_baseline_state')
+        .insert({
+          athlete_id: state.athleteId,
+          active_version: state.activeVersion,
+          pinned: state.pinned,
+          frozen: state.frozen,
+          updated_by: state.updatedBy,
+          updated_at: this.db.fn.now()
+        })
+        .onConflict('athlete_id')
+        .merge()
+        .returning('*');
+
+      this.logger.info({
+        op: 'saveState',
+        athleteId: state.athleteId,
+        activeVersion: state.activeVersion,
+        pinned: state.pinned,
+        frozen: state.frozen
+      });
+
+      return this.mapStateRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'saveState',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId: state.athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Records an injury period
+   * @param injury Injury to store
+   * @returns Stored injury
+   */
+  async recordInjury(injury: Omit<IInjuryPeriod, 'id' | 'createdAt'>): Promise<IInjuryPeriod> {
+    try {
+      const [row] = await this.db('athlete_injuries')
+        .insert({
+          athlete_id: injury.athleteId,
+          start_date: injury.startDate,
+          end_date: injury.endDate,
+          description: injury.description,
+          recorded_by: injury.recordedBy
+        })
+        .returning('*');
+
+      this.logger.info({
+        op: 'recordInjury',
+        athleteId: injury.athleteId,
+        injuryId: row.id
+      });
+
+      return this.mapInjuryRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'recordInjury',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId: injury.athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets the end date of an athlete's injury period
+   * @param athleteId Athlete ID
+   * @param injuryId Injury ID
+   * @param endDate Date the athlete recovered
+   * @returns Updated injury, or null when the athlete has no such injury
+   */
+  async endInjury(athleteId: string, injuryId: string, endDate: Date): Promise<IInjuryPeriod | null> {
+    try {
+      const [row] = await this.db('athlete_injuries')
+        .where({ id: injuryId, athlete_id: athleteId })
+        .update({ end_date: endDate })
+        .returning('*');
+
+      return row ? this.mapInjuryRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'endInjury',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId,
+        injuryId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists an athlete's injury periods
+   * @param athleteId Athlete ID
+   * @returns Injuries in start date order
+   */
+  async listInjuries(athleteId: string): Promise<IInjuryPeriod[]> {
+    try {
+      const rows = await this.db('athlete_injuries')
+        .where({ athlete_id: athleteId })
+        .orderBy('start_date');
+      return rows.map((row: InjuryRow) => this.mapInjuryRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listInjuries',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps an athlete_baseline_versions row to the domain shape
+   */
+  private mapVersionRow(row: BaselineVersionRow): IBaselineVersion {
+    return {
+      id: row.id,
+      athleteId: row.athlete_id,
+      version: row.version,
+      baseline: row.baseline,
+      statistics: row.statistics ?? {},
+      provenance: row.provenance,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Maps an athlete_baseline_state row to the domain shape
+   */
+  private mapStateRow(row: BaselineStateRow): IBaselineState {
+    return {
+      athleteId: row.athlete_id,
+      activeVersion: row.active_version ?? null,
+      pinned: row.pinned,
+      frozen: row.frozen,
+      updatedBy: row.updated_by ?? null,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Maps an athlete_injuries row to the domain shape
+   */
+  private mapInjuryRow(row: InjuryRow): IInjuryPeriod {
+    return {
+      id: row.id,
+      athleteId: row.athlete_id,
+      startDate: new Date(row.start_date),
+      endDate: row.end_date ? new Date(row.end_date) : null,
+      description: row.description,
+      recordedBy: row.recorded_by,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
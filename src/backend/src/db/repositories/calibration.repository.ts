@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Repository for the versioned calibration history of sensors. Versions are
+ * append-only; each new record takes the next version number of its sensor.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { ICalibrationVersion } from '../../interfaces/calibration.interface';
+
+/**
+ * Row of sensor_calibration_versions
+ */
+interface CalibrationVersionRow {
+  id: string;
+  sensor_id: string;
+  version: number;
+  params: ICalibrationVersion['params'];
+  operator_id: string;
+  quality_score: number;
+  environmental_conditions: Record<string, number> | null;
+  restored_from: number | null;
+  created_at: Date;
+}
+
+/**
+ * Repository class implementing data access for calibration versions
+ */
+export class CalibrationRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'CalibrationRepository' });
+  }
+
+  /**
+   * Appends a calibration version numbered after the sensor's latest version
+   * @param record Calibration to store
+   * @returns Stored version
+   */
+  async createVersion(
+    record: Omit<ICalibrationVersion, 'id' | 'version' | 'createdAt'>
+  ): Promise<ICalibrationVersion> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db.transaction(async (trx) => {
+        // Concurrent writers for the same sensor fail on the unique (sensor_id, version) index
+        const latest = await trx('sensor_calibration_versions')
+          .where({ sensor_id: record.sensorId })
+          .max('version as version')
+          .first();
+
+        const [inserted] = await trx('sensor_calibration_versions')
+          .insert({
+            sensor_id: record.sensorId,
+            version: (latest?.version ?? 0) + 1,
+            params: JSON.stringify(record.params),
+            operator_id: record.operatorId,
+            quality_score: record.qualityScore,
+            environmental_conditions: JSON.stringify(record.environmentalConditions),
+            restored_from: record.restoredFrom
+          })
+          .returning('*');
+
+        return inserted;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createVersion',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId: record.sensorId,
+        version: row.version,
+        restoredFrom: record.restoredFrom
+      });
+
+      return this.mapRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'createVersion',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: record.sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves one calibration version of a sensor
+   * @param sensorId Sensor identifier
+   * @param version Version number
+   * @returns Version or null
+   */
+  async getVersion(sensorId: string, version: number): Promise<ICalibrationVersion | null> {
+    try {
+      const row = await this.db('sensor_calibration_versions')
+        .where({ sensor_id: sensorId, version })
+        .first();
+      return row ? this.mapRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getVersion',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a sensor's calibration versions, oldest first
+   * @param sensorId Sensor identifier
+   * @returns Calibration versions
+   */
+  async listVersions(sensorId: string): Promise<ICalibrationVersion[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('sensor_calibration_versions')
+        .where({ sensor_id: sensorId })
+        .orderBy('version', 'asc');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'listVersions',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId,
+        count: rows.length
+      });
+
+      return rows.map((row: CalibrationVersionRow) => this.mapRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listVersions',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a sensor_calibration_versions row to the domain shape
+   */
+  private mapRow(row: CalibrationVersionRow): ICalibrationVersion {
+    return {
+      id: row.id,
+      sensorId: row.sensor_id,
+      version: row.version,
+      params: row.params,
+      operatorId: row.operator_id,
+      qualityScore: row.quality_score,
+      environmentalConditions: row.environmental_conditions ?? {},
+      restoredFrom: row.restored_from,
+      createdAt: row.created_at
+    };
+  }
+}
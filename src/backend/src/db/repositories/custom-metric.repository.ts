@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Repository for the custom metric definitions of an athlete's teams.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { ICustomMetricDefinition } from '../../interfaces/metric.interface';
+
+/**
+ * Custom metric definitions of one of an athlete's teams, empty where the team defines none
+ */
+export interface TeamCustomMetricsRecord {
+  teamId: string;
+  customMetrics: Record<string, ICustomMetricDefinition>;
+}
+
+/**
+ * Team custom metric definitions read from the teams' settings JSON
+ */
+interface TeamCustomMetricsRow {
+  team_id: string;
+  custom_metrics: Record<string, ICustomMetricDefinition> | null;
+}
+
+/**
+ * Repository class implementing data access for custom metric definitions
+ */
+export class CustomMetricRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'CustomMetricRepository' });
+  }
+
+  /**
+   * Reads the custom metric definitions of an athlete's teams
+   * @param athleteId Athlete ID
+   * @returns One row per team the athlete belongs to
+   */
+  async getTeamCustomMetrics(athleteId: string): Promise<TeamCustomMetricsRecord[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('athlete_team_mapping as m')
+        .join('teams as t', 't.id', 'm.team_id')
+        .where('m.athlete_id', athleteId)
+        .select(
+          't.id as team_id',
+          this.db.raw(`t.settings #> '{analyticsConfig,customMetrics}' AS custom_metrics`)
+        )
+        .orderBy('t.id');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getTeamCustomMetrics',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        athleteId,
+        teams: rows.length
+      });
+
+      return rows.map((row: TeamCustomMetricsRow) => ({
+        teamId: row.team_id,
+        customMetrics: row.custom_metrics ?? {}
+      }));
+    } catch (error) {
+      this.logger.error({
+        op: 'getTeamCustomMetrics',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+}
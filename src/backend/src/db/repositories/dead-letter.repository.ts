@@ -0,0 +1,274 @@
+/**
+ * @fileoverview Repository for dead-lettered Kafka messages. Stores messages consumed from the
+ * dead-letter topic with their failure context and tracks admin re-queue and discard decisions.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  IDeadLetterMessage,
+  IDeadLetterFilter,
+  DeadLetterStatus
+} from '../../interfaces/dead-letter.interface';
+import { DEAD_LETTER_CONFIG } from '../../constants/system.constants';
+
+/**
+ * Row of dead_letter_messages; pg returns the bigint offset as a string
+ */
+interface DeadLetterRow {
+  id: string;
+  source_topic: string;
+  source_partition: number;
+  source_offset: string;
+  worker_name: string;
+  error_type: IDeadLetterMessage['errorType'];
+  error_message: string;
+  retry_count: number;
+  attempts: number;
+  failed_at: Date;
+  message_key: string | null;
+  payload: string;
+  headers: string | Record<string, string>;
+  status: DeadLetterStatus;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  discard_reason: string | null;
+}
+
+/**
+ * Repository class implementing data access for dead-lettered messages
+ */
+export class DeadLetterRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'DeadLetterRepository' });
+  }
+
+  /**
+   * Stores a dead-lettered message, ignoring redeliveries of the same failure
+   * @param message Message and failure context
+   * @returns True if the message was newly stored
+   */
+  async recordMessage(message: Omit<IDeadLetterMessage,
+    'id' | 'status' | 'resolvedBy' | 'resolvedAt' | 'discardReason'>): Promise<boolean> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('dead_letter_messages')
+        .insert({
+          source_topic: message.sourceTopic,
+          source_partition: message.sourcePartition,
+          source_offset: message.sourceOffset,
+          worker_name: message.workerName,
+          error_type: message.errorType,
+          error_message: message.errorMessage,
+          retry_count: message.retryCount,
+          attempts: message.attempts,
+          message_key: message.key,
+          payload: message.payload,
+          headers: JSON.stringify(message.headers),
+          failed_at: message.failedAt
+        })
+        .onConflict(['source_topic', 'source_partition', 'source_offset', 'retry_count'])
+        .ignore()
+        .returning('id');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'recordMessage',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sourceTopic: message.sourceTopic,
+        sourceOffset: message.sourceOffset,
+        stored: rows.length > 0
+      });
+
+      return rows.length > 0;
+    } catch (error) {
+      this.logger.error({
+        op: 'recordMessage',
+        error: error instanceof Error ? error.message : String(error),
+        sourceTopic: message.sourceTopic,
+        sourceOffset: message.sourceOffset
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists dead-lettered messages, most recent failures first
+   * @param filter Filter and pagination options
+   * @returns Matching messages and total count
+   */
+  async listMessages(filter: IDeadLetterFilter): Promise<{ messages: IDeadLetterMessage[]; total: number }> {
+    const startTime = process.hrtime();
+
+    try {
+      const query = this.db('dead_letter_messages');
+      if (filter.status) query.where('status', filter.status);
+      if (filter.workerName) query.where('worker_name', filter.workerName);
+      if (filter.sourceTopic) query.where('source_topic', filter.sourceTopic);
+      if (filter.errorType) query.where('error_type', filter.errorType);
+
+      const limit = Math.min(filter.limit ?? DEAD_LETTER_CONFIG.MAX_PAGE_SIZE, DEAD_LETTER_CONFIG.MAX_PAGE_SIZE);
+      const [rows, [totalRow]] = await Promise.all([
+        query.clone()
+          .select('*')
+          .orderBy('failed_at', 'desc')
+          .limit(limit)
+          .offset(filter.offset ?? 0),
+        query.clone().count('* as count')
+      ]);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'listMessages',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        count: rows.length
+      });
+
+      return {
+        messages: rows.map((row: DeadLetterRow) => this.mapRow(row)),
+        total: Number(totalRow?.count ?? 0)
+      };
+    } catch (error) {
+      this.logger.error({
+        op: 'listMessages',
+        error: error instanceof Error ? error.message : String(error),
+        filter
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a dead-lettered message
+   * @param id Message ID
+   * @returns Message or null
+   */
+  async getMessage(id: string): Promise<IDeadLetterMessage | null> {
+    try {
+      const row = await this.db('dead_letter_messages').where({ id }).first();
+      return row ? this.mapRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getMessage',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a pending message as re-queued or discarded
+   * @param id Message ID
+   * @param status New status
+   * @param resolvedBy ID of the admin resolving the message
+   * @param discardReason Reason for discarding, if any
+   * @returns Updated message, or null if it was no longer pending
+   */
+  async resolveMessage(
+    id: string,
+    status: Exclude<DeadLetterStatus, 'PENDING'>,
+    resolvedBy: string,
+    discardReason: string | null = null
+  ): Promise<IDeadLetterMessage | null> {
+    const startTime = process.hrtime();
+
+    try {
+      // Guarding on PENDING keeps concurrent admin actions from resolving a message twice
+      const [row] = await this.db('dead_letter_messages')
+        .where({ id, status: 'PENDING' })
+        .update({
+          status,
+          resolved_by: resolvedBy,
+          resolved_at: this.db.fn.now(),
+          discard_reason: discardReason
+        })
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'resolveMessage',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        id,
+        status,
+        updated: !!row
+      });
+
+      return row ? this.mapRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'resolveMessage',
+        error: error instanceof Error ? error.message : String(error),
+        id,
+        status
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a re-queued message to pending, e.g. when publishing it to its source topic failed
+   * @param id Message ID
+   * @returns True if the message was reopened
+   */
+  async reopenMessage(id: string): Promise<boolean> {
+    const startTime = process.hrtime();
+
+    try {
+      const updated = await this.db('dead_letter_messages')
+        .where({ id, status: 'REQUEUED' })
+        .update({
+          status: 'PENDING',
+          resolved_by: null,
+          resolved_at: null
+        });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'reopenMessage',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        id,
+        updated: updated > 0
+      });
+
+      return updated > 0;
+    } catch (error) {
+      this.logger.error({
+        op: 'reopenMessage',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a dead_letter_messages row to the domain shape
+   */
+  private mapRow(row: DeadLetterRow): IDeadLetterMessage {
+    return {
+      id: row.id,
+      sourceTopic: row.source_topic,
+      sourcePartition: row.source_partition,
+      sourceOffset: row.source_offset,
+      workerName: row.worker_name,
+      errorType: row.error_type,
+      errorMessage: row.error_message,
+      retryCount: row.retry_count,
+      attempts: row.attempts,
+      failedAt: row.failed_at,
+      key: row.message_key,
+      payload: row.payload,
+      headers: typeof row.headers === 'string' ? JSON.parse(row.headers) : row.headers,
+      status: row.status,
+      resolvedBy: row.resolved_by,
+      resolvedAt: row.resolved_at,
+      discardReason: row.discard_reason
+    };
+  }
+}
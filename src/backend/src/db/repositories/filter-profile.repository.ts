@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Repository for custom signal filter profiles. Stores the current revision of each
+ * profile alongside every earlier revision so data processed with an older revision can be re-run.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { IFilterProfile } from '../../interfaces/sensor.interface';
+
+/**
+ * Row of filter_profiles; chains are stored as JSON
+ */
+interface FilterProfileRow {
+  name: string;
+  description: string;
+  version: number;
+  chains: string | IFilterProfile['chains'];
+}
+
+/**
+ * Repository class implementing data access for custom filter profiles
+ */
+export class FilterProfileRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'FilterProfileRepository' });
+  }
+
+  /**
+   * Lists the current revision of every custom profile
+   * @returns Custom profiles ordered by name
+   */
+  async listProfiles(): Promise<IFilterProfile[]> {
+    try {
+      const rows = await this.db('filter_profiles').select('*').orderBy('name');
+      return rows.map((row: FilterProfileRow) => this.mapRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listProfiles',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a custom profile, optionally at a specific revision
+   * @param name Profile name
+   * @param version Revision to load; the current revision when omitted
+   * @returns Profile or null
+   */
+  async getProfile(name: string, version?: number): Promise<IFilterProfile | null> {
+    try {
+      const row = version === undefined
+        ? await this.db('filter_profiles').where({ name }).first()
+        : await this.db('filter_profile_versions').where({ name, version }).first();
+
+      return row ? this.mapRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getProfile',
+        error: error instanceof Error ? error.message : String(error),
+        name,
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a profile or stores a new revision of an existing one
+   * @param profile Profile name, description and chains
+   * @param userId ID of the user saving the profile
+   * @returns Saved profile with its new version
+   */
+  async saveProfile(
+    profile: Pick<IFilterProfile, 'name' | 'description' | 'chains'>,
+    userId: string
+  ): Promise<IFilterProfile> {
+    const startTime = process.hrtime();
+
+    try {
+      const saved = await this.db.transaction(async (trx) => {
+        const existing = await trx('filter_profiles').where({ name: profile.name }).forUpdate().first();
+        const version = existing ? existing.version + 1 : 1;
+        const chains = JSON.stringify(profile.chains);
+
+        const [row] = existing
+          ? await trx('filter_profiles')
+            .where({ name: profile.name })
+            .update({ description: profile.description, version, chains, updated_by: userId })
+            .returning('*')
+          : await trx('filter_profiles')
+            .insert({
+              name: profile.name,
+              description: profile.description,
+              version,
+              chains,
+              created_by: userId,
+              updated_by: userId
+            })
+            .returning('*');
+
+        await trx('filter_profile_versions').insert({
+          name: profile.name,
+          version,
+          description: profile.description,
+          chains,
+          created_by: userId
+        });
+
+        return row;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'saveProfile',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        name: profile.name,
+        version: saved.version
+      });
+
+      return this.mapRow(saved);
+    } catch (error) {
+      this.logger.error({
+        op: 'saveProfile',
+        error: error instanceof Error ? error.message : String(error),
+        name: profile.name
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a filter_profiles or filter_profile_versions row to the profile shape
+   */
+  private mapRow(row: FilterProfileRow): IFilterProfile {
+    return {
+      name: row.name,
+      description: row.description,
+      version: row.version,
+      chains: typeof row.chains === 'string' ? JSON.parse(row.chains) : row.chains,
+      builtIn: false
+    };
+  }
+}
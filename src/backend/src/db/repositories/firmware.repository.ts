@@ -0,0 +1,628 @@
+/**
+ * @fileoverview Repository for the firmware image registry, staged rollouts and per-sensor
+ * firmware updates. Image binaries are stored with the registry and only read when an
+ * update transfers them to sensors.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  FirmwareRolloutStatus,
+  FirmwareUpdateState,
+  IFirmwareImage,
+  IFirmwareRollout,
+  IFirmwareUpdate
+} from '../../interfaces/firmware.interface';
+import { SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Update states that have not finished
+ */
+const UNFINISHED_STATES: FirmwareUpdateState[] = ['queued', 'transferring', 'verifying'];
+
+/**
+ * Rollout statuses that may still update sensors
+ */
+const UNFINISHED_ROLLOUT_STATUSES: FirmwareRolloutStatus[] = ['running', 'paused', 'halted'];
+
+/**
+ * Registry columns, excluding the image binary
+ */
+const IMAGE_COLUMNS = [
+  'id', 'version', 'checksum', 'sensor_types', 'size_bytes', 'release_notes', 'created_by', 'created_at'
+];
+
+/**
+ * Row of firmware_images, excluding the image binary
+ */
+interface FirmwareImageRow {
+  id: string;
+  version: string;
+  checksum: string;
+  sensor_types: SENSOR_TYPES[];
+  size_bytes: number;
+  release_notes: string | null;
+  created_by: string;
+  created_at: Date;
+}
+
+/**
+ * Row of firmware_rollouts
+ */
+interface FirmwareRolloutRow {
+  id: string;
+  team_id: string;
+  firmware_id: string;
+  version: string;
+  stages: number[];
+  current_stage: number;
+  status: FirmwareRolloutStatus;
+  max_failure_rate: number;
+  halt_reason: string | null;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Row of firmware_updates
+ */
+interface FirmwareUpdateRow {
+  id: string;
+  rollout_id: string | null;
+  stage: number;
+  sensor_id: string;
+  firmware_id: string;
+  from_version: string;
+  to_version: string;
+  state: FirmwareUpdateState;
+  progress: number;
+  error: string | null;
+  requested_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Repository class implementing data access for firmware images, rollouts and updates
+ */
+export class FirmwareRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'FirmwareRepository' });
+  }
+
+  /**
+   * Registers a firmware image
+   * @param image Image metadata
+   * @param binary Image contents
+   * @returns Registered image
+   */
+  async createImage(
+    image: Omit<IFirmwareImage, 'id' | 'createdAt'>,
+    binary: Buffer
+  ): Promise<IFirmwareImage> {
+    const startTime = process.hrtime();
+
+    try {
+      const [row] = await this.db('firmware_images')
+        .insert({
+          version: image.version,
+          checksum: image.checksum,
+          sensor_types: image.sensorTypes,
+          size_bytes: image.sizeBytes,
+          image: binary,
+          release_notes: image.releaseNotes,
+          created_by: image.createdBy
+        })
+        .returning(IMAGE_COLUMNS);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createImage',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        version: image.version,
+        sizeBytes: image.sizeBytes
+      });
+
+      return this.mapImageRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'createImage',
+        error: error instanceof Error ? error.message : String(error),
+        version: image.version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a firmware image by version
+   * @param version Firmware version
+   * @returns Image or null
+   */
+  async getImageByVersion(version: string): Promise<IFirmwareImage | null> {
+    try {
+      const row = await this.db('firmware_images').select(IMAGE_COLUMNS).where({ version }).first();
+      return row ? this.mapImageRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getImageByVersion',
+        error: error instanceof Error ? error.message : String(error),
+        version
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists registered firmware images, newest first
+   * @param sensorType Only list images compatible with this sensor type
+   * @returns Registered images
+   */
+  async listImages(sensorType?: SENSOR_TYPES): Promise<IFirmwareImage[]> {
+    try {
+      const query = this.db('firmware_images').select(IMAGE_COLUMNS).orderBy('created_at', 'desc');
+      if (sensorType) {
+        query.whereRaw('? = ANY(sensor_types)', [sensorType]);
+      }
+
+      const rows = await query;
+      return rows.map((row: FirmwareImageRow) => this.mapImageRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listImages',
+        error: error instanceof Error ? error.message : String(error),
+        sensorType
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a firmware image's contents
+   * @param id Image ID
+   * @returns Image contents
+   */
+  async getImageBinary(id: string): Promise<Buffer> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db('firmware_images').select('image').where({ id }).first();
+      if (!row) {
+        throw new Error(`Firmware image ${id} not found`);
+      }
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getImageBinary',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        id,
+        sizeBytes: row.image.length
+      });
+
+      return row.image;
+    } catch (error) {
+      this.logger.error({
+        op: 'getImageBinary',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the sensors a team owns in its inventory. Lost and retired sensors are left out,
+   * since they cannot receive an update.
+   * @param teamId Team ID
+   * @returns Sensor IDs
+   */
+  async getTeamSensorIds(teamId: string): Promise<string[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('sensor_inventory')
+        .select('sensor_id')
+        .where({ team_id: teamId })
+        .whereIn('state', ['available', 'checked_out'])
+        .orderBy('sensor_id');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getTeamSensorIds',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        teamId,
+        sensorCount: rows.length
+      });
+
+      return rows.map((row: { sensor_id: string }) => row.sensor_id);
+    } catch (error) {
+      this.logger.error({
+        op: 'getTeamSensorIds',
+        error: error instanceof Error ? error.message : String(error),
+        teamId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds which of the given sensors have a firmware update that has not finished
+   * @param sensorIds Sensor IDs
+   * @returns IDs of sensors with an unfinished update
+   */
+  async getUnfinishedSensorIds(sensorIds: string[]): Promise<string[]> {
+    try {
+      const rows = await this.db('firmware_updates')
+        .select('sensor_id')
+        .whereIn('sensor_id', sensorIds)
+        .whereIn('state', UNFINISHED_STATES);
+
+      return rows.map((row: Pick<FirmwareUpdateRow, 'sensor_id'>) => row.sensor_id);
+    } catch (error) {
+      this.logger.error({
+        op: 'getUnfinishedSensorIds',
+        error: error instanceof Error ? error.message : String(error),
+        sensorCount: sensorIds.length
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a rollout together with the queued updates of its sensors
+   * @param rollout Rollout settings
+   * @param updates Queued sensor updates
+   * @returns Created rollout
+   */
+  async createRollout(
+    rollout: Pick<IFirmwareRollout, 'teamId' | 'firmwareId' | 'stages' | 'maxFailureRate' | 'createdBy'>,
+    updates: Array<Pick<IFirmwareUpdate, 'sensorId' | 'stage' | 'fromVersion' | 'toVersion'>>
+  ): Promise<IFirmwareRollout> {
+    const startTime = process.hrtime();
+
+    try {
+      const rolloutId = await this.db.transaction(async (trx) => {
+        const [{ id }] = await trx('firmware_rollouts')
+          .insert({
+            team_id: rollout.teamId,
+            firmware_id: rollout.firmwareId,
+            stages: rollout.stages,
+            max_failure_rate: rollout.maxFailureRate,
+            created_by: rollout.createdBy
+          })
+          .returning('id');
+
+        await trx.batchInsert('firmware_updates', updates.map(update => ({
+          rollout_id: id,
+          stage: update.stage,
+          sensor_id: update.sensorId,
+          firmware_id: rollout.firmwareId,
+          from_version: update.fromVersion,
+          to_version: update.toVersion,
+          requested_by: rollout.createdBy
+        })), 500);
+
+        return id;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createRollout',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        rolloutId,
+        teamId: rollout.teamId,
+        sensorCount: updates.length
+      });
+
+      return (await this.getRollout(rolloutId))!;
+    } catch (error) {
+      this.logger.error({
+        op: 'createRollout',
+        error: error instanceof Error ? error.message : String(error),
+        teamId: rollout.teamId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a rollout
+   * @param id Rollout ID
+   * @returns Rollout or null
+   */
+  async getRollout(id: string): Promise<IFirmwareRollout | null> {
+    try {
+      const row = await this.rolloutQuery().where('r.id', id).first();
+      return row ? this.mapRolloutRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getRollout',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a team's rollout that may still update sensors
+   * @param teamId Team ID
+   * @returns Unfinished rollout or null
+   */
+  async findUnfinishedRollout(teamId: string): Promise<IFirmwareRollout | null> {
+    try {
+      const row = await this.rolloutQuery()
+        .where('r.team_id', teamId)
+        .whereIn('r.status', UNFINISHED_ROLLOUT_STATUSES)
+        .first();
+      return row ? this.mapRolloutRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'findUnfinishedRollout',
+        error: error instanceof Error ? error.message : String(error),
+        teamId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a rollout's stage and status
+   * @param id Rollout ID
+   * @param changes Fields to update
+   * @param expectedStatus Only update the rollout while it has one of these statuses
+   * @returns Updated rollout, or null if its status did not match
+   */
+  async updateRollout(
+    id: string,
+    changes: Partial<Pick<IFirmwareRollout, 'currentStage' | 'status' | 'haltReason'>>,
+    expectedStatus: FirmwareRolloutStatus[]
+  ): Promise<IFirmwareRollout | null> {
+    const startTime = process.hrtime();
+
+    try {
+      // Guarding on the status keeps a pause or cancel from being overwritten by a stage advancing
+      const updated = await this.db('firmware_rollouts')
+        .where({ id })
+        .whereIn('status', expectedStatus)
+        .update({
+          current_stage: changes.currentStage,
+          status: changes.status,
+          halt_reason: changes.haltReason
+        });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'updateRollout',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        id,
+        ...changes,
+        updated: updated > 0
+      });
+
+      return updated > 0 ? this.getRollout(id) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'updateRollout',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the updates of a rollout that have not started
+   * @param rolloutId Rollout ID
+   * @returns Number of deleted updates
+   */
+  async deleteQueuedUpdates(rolloutId: string): Promise<number> {
+    try {
+      return await this.db('firmware_updates')
+        .where({ rollout_id: rolloutId, state: 'queued' })
+        .delete();
+    } catch (error) {
+      this.logger.error({
+        op: 'deleteQueuedUpdates',
+        error: error instanceof Error ? error.message : String(error),
+        rolloutId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a standalone sensor update
+   * @param update Queued update
+   * @returns Created update
+   */
+  async createUpdate(
+    update: Pick<IFirmwareUpdate, 'sensorId' | 'firmwareId' | 'fromVersion' | 'toVersion' | 'requestedBy'>
+  ): Promise<IFirmwareUpdate> {
+    try {
+      const [row] = await this.db('firmware_updates')
+        .insert({
+          sensor_id: update.sensorId,
+          firmware_id: update.firmwareId,
+          from_version: update.fromVersion,
+          to_version: update.toVersion,
+          requested_by: update.requestedBy
+        })
+        .returning('*');
+
+      return this.mapUpdateRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'createUpdate',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: update.sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a rollout's sensor updates
+   * @param rolloutId Rollout ID
+   * @param stage Only list updates of this stage
+   * @returns Sensor updates ordered by stage and sensor
+   */
+  async listRolloutUpdates(rolloutId: string, stage?: number): Promise<IFirmwareUpdate[]> {
+    try {
+      const query = this.db('firmware_updates')
+        .where({ rollout_id: rolloutId })
+        .orderBy(['stage', 'sensor_id']);
+      if (stage !== undefined) {
+        query.where({ stage });
+      }
+
+      const rows = await query;
+      return rows.map((row: FirmwareUpdateRow) => this.mapUpdateRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listRolloutUpdates',
+        error: error instanceof Error ? error.message : String(error),
+        rolloutId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a sensor update to a new state
+   * @param id Update ID
+   * @param fromState State the update is expected to be in
+   * @param changes New state, progress and error
+   * @returns Updated update, or null if it was no longer in the expected state
+   */
+  async transitionUpdate(
+    id: string,
+    fromState: FirmwareUpdateState,
+    changes: Pick<IFirmwareUpdate, 'state' | 'progress'> & { error?: string | null }
+  ): Promise<IFirmwareUpdate | null> {
+    const startTime = process.hrtime();
+
+    try {
+      const [row] = await this.db('firmware_updates')
+        .where({ id, state: fromState })
+        .update({
+          state: changes.state,
+          progress: changes.progress,
+          error: changes.error
+        })
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'transitionUpdate',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        id,
+        fromState,
+        toState: changes.state,
+        updated: !!row
+      });
+
+      return row ? this.mapUpdateRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'transitionUpdate',
+        error: error instanceof Error ? error.message : String(error),
+        id,
+        toState: changes.state
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Records transfer progress of an update that is still transferring
+   * @param id Update ID
+   * @param progress Transfer progress percentage
+   */
+  async updateTransferProgress(id: string, progress: number): Promise<void> {
+    try {
+      // A late progress write must not overwrite an update that already moved on
+      await this.db('firmware_updates')
+        .where({ id, state: 'transferring' })
+        .update({ progress });
+    } catch (error) {
+      this.logger.error({
+        op: 'updateTransferProgress',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Base query joining rollouts with the version they install
+   */
+  private rolloutQuery(): Knex.QueryBuilder {
+    return this.db('firmware_rollouts as r')
+      .select('r.*', 'i.version')
+      .join('firmware_images as i', 'i.id', 'r.firmware_id');
+  }
+
+  /**
+   * Maps a firmware_images row to the domain shape
+   */
+  private mapImageRow(row: FirmwareImageRow): IFirmwareImage {
+    return {
+      id: row.id,
+      version: row.version,
+      checksum: row.checksum,
+      sensorTypes: row.sensor_types,
+      sizeBytes: row.size_bytes,
+      releaseNotes: row.release_notes,
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Maps a firmware_rollouts row joined with its image version to the domain shape
+   */
+  private mapRolloutRow(row: FirmwareRolloutRow): IFirmwareRollout {
+    return {
+      id: row.id,
+      teamId: row.team_id,
+      firmwareId: row.firmware_id,
+      version: row.version,
+      stages: row.stages,
+      currentStage: row.current_stage,
+      status: row.status,
+      maxFailureRate: row.max_failure_rate,
+      haltReason: row.halt_reason,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Maps a firmware_updates row to the domain shape
+   */
+  private mapUpdateRow(row: FirmwareUpdateRow): IFirmwareUpdate {
+    return {
+      id: row.id,
+      rolloutId: row.rollout_id,
+      stage: row.stage,
+      sensorId: row.sensor_id,
+      firmwareId: row.firmware_id,
+      fromVersion: row.from_version,
+      toVersion: row.to_version,
+      state: row.state,
+      progress: row.progress,
+      error: row.error,
+      requestedBy: row.requested_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,322 @@
+/**
+ * @fileoverview Repository for the garment template registry and garment pairings. Each
+ * pairing keeps one binding row per bound slot; bindings of unpaired garments stay for history
+ * but are no longer active.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { IGarmentPairing, IGarmentSlot, IGarmentTemplate } from '../../interfaces/garment.interface';
+
+/**
+ * Row of garment_templates
+ */
+interface GarmentTemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  slots: IGarmentSlot[];
+  created_by: string;
+  created_at: Date;
+}
+
+/**
+ * Row of garment_pairings
+ */
+interface GarmentPairingRow {
+  id: string;
+  template_id: string;
+  athlete_id: string | null;
+  paired_by: string;
+  paired_at: Date;
+  unpaired_at: Date | null;
+}
+
+/**
+ * Row of garment_sensor_bindings
+ */
+interface GarmentBindingRow {
+  pairing_id: string;
+  slot_id: string;
+  sensor_id: string;
+  active: boolean;
+}
+
+/**
+ * Repository class implementing data access for garment templates and pairings
+ */
+export class GarmentRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'GarmentRepository' });
+  }
+
+  /**
+   * Registers a garment template
+   * @param template Template name, description, slots and creator
+   * @returns Registered template
+   */
+  async createTemplate(
+    template: Omit<IGarmentTemplate, 'id' | 'createdAt'>
+  ): Promise<IGarmentTemplate> {
+    const startTime = process.hrtime();
+
+    try {
+      const [row] = await this.db('garment_templates')
+        .insert({
+          name: template.name,
+          description: template.description,
+          slots: JSON.stringify(template.slots),
+          created_by: template.createdBy
+        })
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createTemplate',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        name: template.name,
+        slotCount: template.slots.length
+      });
+
+      return this.mapTemplateRow(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'createTemplate',
+        error: error instanceof Error ? error.message : String(error),
+        name: template.name
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a garment template
+   * @param id Template ID
+   * @returns Template or null
+   */
+  async getTemplate(id: string): Promise<IGarmentTemplate | null> {
+    try {
+      const row = await this.db('garment_templates').where({ id }).first();
+      return row ? this.mapTemplateRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getTemplate',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a garment template by name
+   * @param name Template name
+   * @returns Template or null
+   */
+  async getTemplateByName(name: string): Promise<IGarmentTemplate | null> {
+    try {
+      const row = await this.db('garment_templates').where({ name }).first();
+      return row ? this.mapTemplateRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getTemplateByName',
+        error: error instanceof Error ? error.message : String(error),
+        name
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists garment templates by name
+   * @returns Registered templates
+   */
+  async listTemplates(): Promise<IGarmentTemplate[]> {
+    try {
+      const rows = await this.db('garment_templates').orderBy('name');
+      return rows.map((row: GarmentTemplateRow) => this.mapTemplateRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listTemplates',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Pairs a garment by binding sensors to its template's slots
+   * @param pairing Template, athlete, bindings and pairing user
+   * @returns Created pairing
+   */
+  async createPairing(
+    pairing: Pick<IGarmentPairing, 'templateId' | 'athleteId' | 'bindings' | 'pairedBy'>
+  ): Promise<IGarmentPairing> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db.transaction(async (trx) => {
+        const [created] = await trx('garment_pairings')
+          .insert({
+            template_id: pairing.templateId,
+            athlete_id: pairing.athleteId,
+            paired_by: pairing.pairedBy
+          })
+          .returning('*');
+
+        await trx('garment_sensor_bindings').insert(
+          Object.entries(pairing.bindings).map(([slotId, sensorId]) => ({
+            pairing_id: created.id,
+            slot_id: slotId,
+            sensor_id: sensorId
+          }))
+        );
+
+        return created;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createPairing',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        pairingId: row.id,
+        templateId: pairing.templateId,
+        sensorCount: Object.keys(pairing.bindings).length
+      });
+
+      return this.mapPairingRow(row, pairing.bindings);
+    } catch (error) {
+      this.logger.error({
+        op: 'createPairing',
+        error: error instanceof Error ? error.message : String(error),
+        templateId: pairing.templateId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a pairing with its bindings
+   * @param id Pairing ID
+   * @returns Pairing or null
+   */
+  async getPairing(id: string): Promise<IGarmentPairing | null> {
+    try {
+      const row = await this.db('garment_pairings').where({ id }).first();
+      if (!row) {
+        return null;
+      }
+
+      const bindings = await this.db('garment_sensor_bindings')
+        .select('slot_id', 'sensor_id')
+        .where({ pairing_id: id });
+
+      return this.mapPairingRow(row, Object.fromEntries(
+        bindings.map((binding: GarmentBindingRow) => [binding.slot_id, binding.sensor_id])
+      ));
+    } catch (error) {
+      this.logger.error({
+        op: 'getPairing',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the active pairings of sensors
+   * @param sensorIds Sensor IDs
+   * @returns Active pairing ID per paired sensor
+   */
+  async getActivePairingIds(sensorIds: string[]): Promise<Map<string, string>> {
+    try {
+      const rows = await this.db('garment_sensor_bindings')
+        .select('sensor_id', 'pairing_id')
+        .whereIn('sensor_id', sensorIds)
+        .where({ active: true });
+
+      return new Map(rows.map((row: GarmentBindingRow) => [row.sensor_id, row.pairing_id]));
+    } catch (error) {
+      this.logger.error({
+        op: 'getActivePairingIds',
+        error: error instanceof Error ? error.message : String(error),
+        sensorCount: sensorIds.length
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Unpairs a garment, releasing its sensors
+   * @param id Pairing ID
+   * @returns Unpaired pairing, or null when no paired garment has the ID
+   */
+  async unpair(id: string): Promise<IGarmentPairing | null> {
+    try {
+      const row = await this.db.transaction(async (trx) => {
+        const [unpaired] = await trx('garment_pairings')
+          .where({ id })
+          .whereNull('unpaired_at')
+          .update({ unpaired_at: trx.fn.now() })
+          .returning('*');
+
+        if (unpaired) {
+          await trx('garment_sensor_bindings').where({ pairing_id: id }).update({ active: false });
+        }
+        return unpaired;
+      });
+
+      if (!row) {
+        return null;
+      }
+
+      this.logger.info({
+        op: 'unpair',
+        pairingId: id
+      });
+
+      return this.getPairing(id);
+    } catch (error) {
+      this.logger.error({
+        op: 'unpair',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a garment_templates row to the domain shape
+   */
+  private mapTemplateRow(row: GarmentTemplateRow): IGarmentTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      slots: row.slots,
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    };
+  }
+
+  /**
+   * Maps a garment_pairings row and its bindings to the domain shape
+   */
+  private mapPairingRow(row: GarmentPairingRow, bindings: Record<string, string>): IGarmentPairing {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      athleteId: row.athlete_id,
+      bindings,
+      pairedBy: row.paired_by,
+      pairedAt: row.paired_at,
+      unpairedAt: row.unpaired_at
+    };
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Repository for movement events (strides, repetitions and jumps) segmented from
+ * session sensor data.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { IMovementEvent, IMovementEventQuery } from '../../interfaces/movement.interface';
+
+/**
+ * Row of movement_events
+ */
+interface MovementEventRow {
+  id: string;
+  session_id: string;
+  athlete_id: string | null;
+  type: IMovementEvent['type'];
+  side: IMovementEvent['side'];
+  source: string;
+  start_time: Date;
+  end_time: Date;
+  phases: IMovementEvent['phases'] | null;
+  metrics: Record<string, number> | null;
+}
+
+/**
+ * Repository class implementing data access for movement events
+ */
+export class MovementEventRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'MovementEventRepository' });
+  }
+
+  /**
+   * Persists detected movement events
+   * @param events Events of one session
+   * @returns Stored events with their IDs
+   */
+  async recordEvents(events: Array<Omit<IMovementEvent, 'id'>>): Promise<IMovementEvent[]> {
+    if (events.length === 0) {
+      return [];
+    }
+
+    const startTime = process.hrtime();
+    const sessionId = events[0]!.sessionId;
+
+    try {
+      const rows = await this.db('movement_events')
+        .insert(events.map(event => ({
+          session_id: event.sessionId,
+          athlete_id: event.athleteId,
+          type: event.type,
+          side: event.side,
+          source: event.source,
+          start_time: new Date(event.startTime),
+          end_time: new Date(event.endTime),
+          phases: JSON.stringify(event.phases),
+          metrics: JSON.stringify(event.metrics)
+        })))
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'recordEvents',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        eventCount: rows.length
+      });
+
+      return rows.map((row: MovementEventRow) => this.mapRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'recordEvents',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a session's movement events in start time order
+   * @param sessionId Session ID
+   * @param query Event type and start time filters
+   * @param limit Maximum events returned
+   * @returns Matching events
+   */
+  async getSessionEvents(sessionId: string, query: IMovementEventQuery, limit: number): Promise<IMovementEvent[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const request = this.db('movement_events')
+        .where({ session_id: sessionId })
+        .orderBy([{ column: 'start_time' }, { column: 'id' }])
+        .limit(limit);
+      if (query.type) {
+        request.where({ type: query.type });
+      }
+      if (query.from !== undefined) {
+        request.where('start_time', '>=', new Date(query.from));
+      }
+      if (query.to !== undefined) {
+        request.where('start_time', '<=', new Date(query.to));
+      }
+      const rows = await request;
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getSessionEvents',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        eventCount: rows.length
+      });
+
+      return rows.map((row: MovementEventRow) => this.mapRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'getSessionEvents',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a movement_events row to the domain shape
+   */
+  private mapRow(row: MovementEventRow): IMovementEvent {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      athleteId: row.athlete_id,
+      type: row.type,
+      side: row.side,
+      source: row.source,
+      startTime: new Date(row.start_time).getTime(),
+      endTime: new Date(row.end_time).getTime(),
+      phases: row.phases ?? {},
+      metrics: row.metrics ?? {}
+    };
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * @fileoverview Repository implementing data access for tiered retention of session data.
+ * Resolves each session's effective storage policy from its athlete's teams, compresses aged
+ * sensor_data chunks, and moves session rows between the database and archives.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  IArchiveRecord,
+  IRetentionCandidate,
+  ISessionRetention,
+  SessionStorageTier
+} from '../../interfaces/retention.interface';
+import { DATA_RETENTION, RETENTION_CONFIG } from '../../constants/system.constants';
+
+/**
+ * Session-scoped tables moved to the archive store, in restore order
+ */
+const ARCHIVED_TABLES = [
+  { table: 'sensor_data', orderColumn: 'timestamp' },
+  { table: 'sensor_gaps', orderColumn: 'gap_start' },
+  { table: 'movement_events', orderColumn: 'start_time' },
+  { table: 'alerts', orderColumn: 'timestamp' },
+  { table: 'alert_acknowledgments', orderColumn: 'created_at' }
+] as const;
+
+/**
+ * Effective storage policy per ended session. Athletes on several teams get the longest
+ * period of each tier; athletes without a team get the DATA_RETENTION defaults.
+ */
+const SESSION_POLICY_SQL = `
+  SELECT
+    s.id,
+    s.end_time,
+    s.storage_tier,
+    s.archive_key,
+    s.archived_at,
+    s.restored_until,
+    coalesce(max((t.settings #>> '{analyticsConfig,storagePolicy,hotStorage}')::int), ?) AS hot_days,
+    coalesce(max((t.settings #>> '{analyticsConfig,storagePolicy,warmStorage}')::int), ?) AS warm_days,
+    coalesce(max((t.settings #>> '{analyticsConfig,storagePolicy,coldStorage}')::int), ?) AS cold_years
+  FROM sessions s
+  LEFT JOIN athlete_team_mapping m ON m.athlete_id = s.athlete_id
+  LEFT JOIN teams t ON t.id = m.team_id
+  WHERE s.end_time IS NOT NULL
+  GROUP BY s.id
+`;
+
+/**
+ * Row of the session policy query
+ */
+interface SessionPolicyRow {
+  id: string;
+  end_time: Date;
+  storage_tier: SessionStorageTier;
+  archive_key: string | null;
+  archived_at: Date | null;
+  restored_until: Date | null;
+  hot_days: number;
+  warm_days: number;
+  cold_years: number;
+}
+
+/**
+ * Repository class implementing data access for retention enforcement and restores
+ */
+export class RetentionRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'RetentionRepository' });
+  }
+
+  /**
+   * Returns the longest hot period across team policies. Compression applies to whole
+   * hypertable chunks shared by every team, so chunks are only compressed once they have
+   * left every team's hot tier.
+   * @returns Age in days after which sensor_data chunks may be compressed
+   */
+  async getCompressionHorizonDays(): Promise<number> {
+    try {
+      const row = await this.db('teams')
+        .max({ days: this.db.raw(`(settings #>> '{analyticsConfig,storagePolicy,hotStorage}')::int`) })
+        .first();
+
+      return Math.max(row?.days ?? 0, DATA_RETENTION.HOT_STORAGE_DAYS);
+    } catch (error) {
+      this.logger.error({
+        op: 'getCompressionHorizonDays',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Compresses uncompressed sensor_data chunks older than the given age
+   * @param olderThanDays Minimum chunk age in days
+   * @returns Number of chunks compressed
+   */
+  async compressSensorData(olderThanDays: number): Promise<number> {
+    const startTime = process.hrtime();
+
+    try {
+      const result = await this.db.raw(`
+        SELECT compress_chunk(format('%I.%I', chunk_schema, chunk_name)::regclass) AS chunk
+        FROM timescaledb_information.chunks
+        WHERE hypertable_name = 'sensor_data'
+          AND NOT is_compressed
+          AND range_end < now() - make_interval(days => ?)
+      `, [olderThanDays]);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'compressSensorData',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        olderThanDays,
+        chunkCount: result.rows.length
+      });
+
+      return result.rows.length;
+    } catch (error) {
+      this.logger.error({
+        op: 'compressSensorData',
+        error: error instanceof Error ? error.message : String(error),
+        olderThanDays
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds ended sessions whose data is due to be archived or whose cold tier has expired.
+   * Sessions stay in the database until they have also left the widest rollup refresh
+   * window, since a refresh over deleted raw data would empty the session's rollup buckets.
+   * @param now Reference time for the policy periods
+   * @param limit Maximum number of sessions returned
+   * @returns Sessions with the action due, oldest first
+   */
+  async findRetentionCandidates(now: Date, limit: number): Promise<IRetentionCandidate[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db
+        .with('session_policies', this.sessionPolicies())
+        .select('*')
+        .select(this.db.raw('end_time < ?::timestamptz - make_interval(years => cold_years) AS expired', [now]))
+        .from('session_policies')
+        .where(builder => builder
+          .whereRaw('end_time < ?::timestamptz - make_interval(years => cold_years)', [now])
+          .orWhere(archivable => archivable
+            .where('storage_tier', 'hot')
+            .whereRaw('end_time < ?::timestamptz - make_interval(days => greatest(warm_days, ?))',
+              [now, RETENTION_CONFIG.ROLLUP_REFRESH_DAYS])
+            .where(restored => restored.whereNull('restored_until').orWhere('restored_until', '<', now))))
+        .orderBy('end_time')
+        .limit(limit);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'findRetentionCandidates',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        candidateCount: rows.length
+      });
+
+      return rows.map((row: SessionPolicyRow & { expired: boolean }) => ({
+        ...this.mapRetentionRow(row),
+        action: row.expired ? 'delete' : 'archive'
+      }));
+    } catch (error) {
+      this.logger.error({
+        op: 'findRetentionCandidates',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a session's retention state
+   * @param sessionId Session ID
+   * @returns Retention state, or null for unknown or unfinished sessions
+   */
+  async getSessionRetention(sessionId: string): Promise<ISessionRetention | null> {
+    try {
+      const row = await this.db
+        .with('session_policies', this.sessionPolicies())
+        .select('*')
+        .from('session_policies')
+        .where({ id: sessionId })
+        .first();
+
+      return row ? this.mapRetentionRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getSessionRetention',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Streams a session's row followed by the rows of every archived table in restore order,
+   * using keyset pagination so large sessions are never held in memory
+   * @param sessionId Session ID
+   * @param batchSize Rows fetched per query
+   * @returns Async iterator of same-table record batches
+   */
+  async *streamArchiveRecords(
+    sessionId: string,
+    batchSize: number = RETENTION_CONFIG.ROW_BATCH_SIZE
+  ): AsyncGenerator<IArchiveRecord[]> {
+    const session = await this.db('sessions').where({ id: sessionId }).first();
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    yield [{ table: 'sessions', row: session }];
+
+    for (const { table, orderColumn } of ARCHIVED_TABLES) {
+      let cursor: { orderValue: unknown; id: string } | null = null;
+
+      while (true) {
+        let rows: Array<Record<string, unknown> & { id: string }>;
+
+        try {
+          const query = this.sessionRows(this.db, table, sessionId)
+            .select('*')
+            .orderBy([{ column: orderColumn }, { column: 'id' }])
+            .limit(batchSize);
+
+          if (cursor) {
+            query.andWhereRaw(`(??, id) > (?, ?)`, [orderColumn, cursor.orderValue, cursor.id]);
+          }
+
+          rows = await query;
+        } catch (error) {
+          this.logger.error({
+            op: 'streamArchiveRecords',
+            error: error instanceof Error ? error.message : String(error),
+            sessionId,
+            table
+          });
+          throw error;
+        }
+
+        if (rows.length > 0) {
+          yield rows.map(row => ({ table, row }));
+        }
+        if (rows.length < batchSize) {
+          break;
+        }
+
+        const last = rows[rows.length - 1]!;
+        cursor = { orderValue: last[orderColumn], id: last.id };
+      }
+    }
+  }
+
+  /**
+   * Removes an archived session's data from the database and marks the session cold
+   * @param sessionId Session ID
+   * @param archiveKey Archive store key holding the session's data
+   * @param userId User recorded in the audit log
+   * @returns Rows removed per table
+   */
+  async archiveSession(sessionId: string, archiveKey: string, userId: string): Promise<Record<string, number>> {
+    const startTime = process.hrtime();
+
+    try {
+      const rowCounts = await this.db.transaction(async (trx) => {
+        await this.setAuditUser(trx, userId);
+
+        // Acknowledgments cascade with their alerts, so they are counted before the delete
+        const [acknowledgments] = await this.sessionRows(trx, 'alert_acknowledgments', sessionId)
+          .count<{ count: string }[]>('id as count');
+
+        const counts: Record<string, number> = {
+          sensor_data: await trx('sensor_data').where({ session_id: sessionId }).delete(),
+          sensor_gaps: await trx('sensor_gaps').where({ session_id: sessionId }).delete(),
+          movement_events: await trx('movement_events').where({ session_id: sessionId }).delete(),
+          alerts: await trx('alerts').where({ session_id: sessionId }).delete(),
+          alert_acknowledgments: Number(acknowledgments?.count ?? 0)
+        };
+
+        await trx('sessions')
+          .where({ id: sessionId })
+          .update({
+            storage_tier: 'cold',
+            archive_key: archiveKey,
+            archived_at: trx.fn.now(),
+            restored_until: null
+          });
+
+        await this.recordAudit(trx, 'ARCHIVE', sessionId, userId, { archiveKey, rowCounts: counts });
+        return counts;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'archiveSession',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        rowCounts
+      });
+
+      return rowCounts;
+    } catch (error) {
+      this.logger.error({
+        op: 'archiveSession',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Re-inserts an archived session's rows and keeps them in the database until the given time
+   * @param sessionId Session ID
+   * @param records Archive record batches in restore order
+   * @param restoredUntil Time until which the restored rows are kept
+   * @param userId User who requested the restore, recorded in the audit log
+   * @returns Rows restored per table
+   */
+  async restoreSession(
+    sessionId: string,
+    records: AsyncIterable<IArchiveRecord[]>,
+    restoredUntil: Date,
+    userId: string
+  ): Promise<Record<string, number>> {
+    const startTime = process.hrtime();
+    const archivedTables: readonly string[] = ARCHIVED_TABLES.map(({ table }) => table);
+
+    try {
+      const rowCounts = await this.db.transaction(async (trx) => {
+        await this.setAuditUser(trx, userId);
+        await trx.raw(`SELECT set_config('app.retention_restore', 'on', true)`);
+
+        const counts: Record<string, number> = {};
+        for await (const batch of records) {
+          const table = batch[0]?.table;
+          // The session row itself is never removed, so only its data tables are restored
+          if (!table || !archivedTables.includes(table)) {
+            continue;
+          }
+
+          await trx(table)
+            .insert(batch.map(({ row }) => this.serializeRow(row)))
+            .onConflict()
+            .ignore();
+          counts[table] = (counts[table] ?? 0) + batch.length;
+        }
+
+        await trx('sessions')
+          .where({ id: sessionId })
+          .update({ storage_tier: 'hot', restored_until: restoredUntil });
+
+        await this.recordAudit(trx, 'RESTORE', sessionId, userId, { restoredUntil, rowCounts: counts });
+        return counts;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'restoreSession',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        rowCounts
+      });
+
+      return rowCounts;
+    } catch (error) {
+      this.logger.error({
+        op: 'restoreSession',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a session and all of its remaining data
+   * @param sessionId Session ID
+   * @param userId User recorded in the audit log
+   */
+  async deleteSession(sessionId: string, userId: string): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      await this.db.transaction(async (trx) => {
+        await this.setAuditUser(trx, userId);
+
+        // sensor_data has no cascading foreign key; gaps, movement events, alerts and uploads cascade
+        await trx('sensor_data').where({ session_id: sessionId }).delete();
+        await trx('sessions').where({ id: sessionId }).delete();
+
+        await this.recordAudit(trx, 'PURGE', sessionId, userId, {});
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'deleteSession',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'deleteSession',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the session policy query used as a CTE
+   */
+  private sessionPolicies(): Knex.Raw {
+    return this.db.raw(SESSION_POLICY_SQL, [
+      DATA_RETENTION.HOT_STORAGE_DAYS,
+      DATA_RETENTION.WARM_STORAGE_DAYS,
+      DATA_RETENTION.COLD_STORAGE_YEARS
+    ]);
+  }
+
+  /**
+   * Selects a session's rows in an archived table; acknowledgments are reached through alerts
+   */
+  private sessionRows(db: Knex | Knex.Transaction, table: string, sessionId: string): Knex.QueryBuilder {
+    if (table === 'alert_acknowledgments') {
+      return db(table).whereIn('alert_id', db('alerts').select('id').where({ session_id: sessionId }));
+    }
+    return db(table).where({ session_id: sessionId });
+  }
+
+  /**
+   * Sets the user the sessions audit trigger records for this transaction
+   */
+  private async setAuditUser(trx: Knex.Transaction, userId: string): Promise<void> {
+    await trx.raw(`SELECT set_config('app.current_user_id', ?, true)`, [userId]);
+  }
+
+  /**
+   * Writes a retention audit record for a session
+   */
+  private async recordAudit(
+    trx: Knex.Transaction,
+    action: 'ARCHIVE' | 'RESTORE' | 'PURGE',
+    sessionId: string,
+    userId: string,
+    values: Record<string, unknown>
+  ): Promise<void> {
+    await trx('audit_log').insert({
+      action,
+      table_name: 'sessions',
+      record_id: sessionId,
+      new_values: JSON.stringify(values),
+      user_id: userId
+    });
+  }
+
+  /**
+   * Serializes JSON column values of an archived row for insertion
+   */
+  private serializeRow(row: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(row).map(([column, value]) => [
+      column,
+      value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+    ]));
+  }
+
+  /**
+   * Maps a session policy row to the retention state shape
+   */
+  private mapRetentionRow(row: SessionPolicyRow): ISessionRetention {
+    return {
+      sessionId: row.id,
+      endTime: new Date(row.end_time),
+      storageTier: row.storage_tier,
+      archiveKey: row.archive_key,
+      archivedAt: row.archived_at ? new Date(row.archived_at) : null,
+      restoredUntil: row.restored_until ? new Date(row.restored_until) : null,
+      policy: {
+        hotDays: row.hot_days,
+        warmDays: row.warm_days,
+        coldYears: row.cold_years
+      }
+    };
+  }
+}
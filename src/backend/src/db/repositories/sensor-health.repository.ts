@@ -0,0 +1,394 @@
+/**
+ * @fileoverview Repository for sensor health history and maintenance scheduling. Telemetry
+ * snapshots back battery discharge and error-state history; packet loss is read from the
+ * recorded sensor gaps.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  IMaintenanceSchedule,
+  ISensorTelemetry,
+  MaintenanceReason,
+  MaintenanceStatus
+} from '../../interfaces/health.interface';
+
+/**
+ * Partial unique index target keeping one open automatic entry per sensor and reason
+ */
+const OPEN_REASON_CONFLICT = `(sensor_id, reason) WHERE status = 'scheduled' AND reason <> 'manual'`;
+
+/**
+ * Row of sensor_telemetry
+ */
+interface SensorTelemetryRow {
+  sensor_id: string;
+  recorded_at: Date;
+  battery_level: number;
+  status: number;
+}
+
+/**
+ * Row of sensor_maintenance
+ */
+interface MaintenanceRow {
+  id: string;
+  sensor_id: string;
+  scheduled_time: Date;
+  description: string;
+  duration: number;
+  priority: number;
+  reason: MaintenanceReason;
+  status: MaintenanceStatus;
+  created_by: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Repository class implementing data access for sensor telemetry and maintenance
+ */
+export class SensorHealthRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'SensorHealthRepository' });
+  }
+
+  /**
+   * Records telemetry snapshots
+   * @param samples Snapshots to record
+   */
+  async recordTelemetry(samples: ISensorTelemetry[]): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const startTime = process.hrtime();
+
+    try {
+      await this.db('sensor_telemetry').insert(samples.map(sample => ({
+        sensor_id: sample.sensorId,
+        recorded_at: sample.recordedAt,
+        battery_level: sample.batteryLevel,
+        status: sample.status
+      })));
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'recordTelemetry',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sampleCount: samples.length
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'recordTelemetry',
+        error: error instanceof Error ? error.message : String(error),
+        sampleCount: samples.length
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a sensor's telemetry, oldest first
+   * @param sensorId Sensor ID
+   * @param since Start of the window
+   * @returns Telemetry snapshots
+   */
+  async getTelemetry(sensorId: string, since: Date): Promise<ISensorTelemetry[]> {
+    try {
+      const rows = await this.db('sensor_telemetry')
+        .select('sensor_id', 'recorded_at', 'battery_level', 'status')
+        .where('sensor_id', sensorId)
+        .where('recorded_at', '>=', since)
+        .orderBy('recorded_at');
+
+      return rows.map((row: SensorTelemetryRow) => ({
+        sensorId: row.sensor_id,
+        recordedAt: new Date(row.recorded_at),
+        batteryLevel: row.battery_level,
+        status: row.status
+      }));
+    } catch (error) {
+      this.logger.error({
+        op: 'getTelemetry',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Measures the fraction of a sensor's samples lost since a time
+   * @param sensorId Sensor ID
+   * @param since Start of the window
+   * @returns Lost samples over expected samples, 0 without data
+   */
+  async getPacketLoss(sensorId: string, since: Date): Promise<number> {
+    const startTime = process.hrtime();
+
+    try {
+      const [received, missing] = await Promise.all([
+        this.db('sensor_data')
+          .select(this.db.raw('coalesce(sum(jsonb_array_length(readings)), 0)::bigint as samples'))
+          .where('sensor_id', sensorId)
+          .where('timestamp', '>=', since)
+          .first(),
+        this.db('sensor_gaps')
+          .select(this.db.raw('coalesce(sum(missing_samples), 0)::bigint as samples'))
+          .where('sensor_id', sensorId)
+          .where('gap_start', '>=', since)
+          .first()
+      ]);
+
+      const receivedSamples = Number(received?.samples ?? 0);
+      const missingSamples = Number(missing?.samples ?? 0);
+      const expectedSamples = receivedSamples + missingSamples;
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getPacketLoss',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId,
+        receivedSamples,
+        missingSamples
+      });
+
+      return expectedSamples > 0 ? missingSamples / expectedSamples : 0;
+    } catch (error) {
+      this.logger.error({
+        op: 'getPacketLoss',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Schedules maintenance. An automatic entry is skipped when one for the same sensor and
+   * reason is still open.
+   * @param entry Maintenance to schedule
+   * @returns Scheduled entry, or null when an open automatic entry already exists
+   */
+  async createMaintenance(
+    entry: Pick<IMaintenanceSchedule, 'sensorId' | 'scheduledTime' | 'description' | 'duration' | 'priority' | 'reason' | 'createdBy'>
+  ): Promise<IMaintenanceSchedule | null> {
+    const startTime = process.hrtime();
+
+    try {
+      const query = this.db('sensor_maintenance')
+        .insert({
+          sensor_id: entry.sensorId,
+          scheduled_time: entry.scheduledTime,
+          description: entry.description,
+          duration: entry.duration,
+          priority: entry.priority,
+          reason: entry.reason,
+          created_by: entry.createdBy
+        })
+        .returning('*');
+
+      const [row] = entry.reason === 'manual'
+        ? await query
+        : await query.onConflict(this.db.raw(OPEN_REASON_CONFLICT)).ignore();
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'createMaintenance',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId: entry.sensorId,
+        reason: entry.reason,
+        created: !!row
+      });
+
+      return row ? this.mapMaintenanceRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'createMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: entry.sensorId,
+        reason: entry.reason
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a maintenance entry
+   * @param id Maintenance entry ID
+   * @returns Maintenance entry or null
+   */
+  async getMaintenance(id: string): Promise<IMaintenanceSchedule | null> {
+    try {
+      const row = await this.db('sensor_maintenance').where({ id }).first();
+      return row ? this.mapMaintenanceRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        id
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a sensor's maintenance entries by scheduled time
+   * @param sensorId Sensor ID
+   * @param status Only list entries in this status
+   * @returns Maintenance entries
+   */
+  async listMaintenance(sensorId: string, status?: MaintenanceStatus): Promise<IMaintenanceSchedule[]> {
+    try {
+      const query = this.db('sensor_maintenance')
+        .where('sensor_id', sensorId)
+        .orderBy('scheduled_time');
+
+      if (status) {
+        query.where('status', status);
+      }
+
+      const rows = await query;
+      return rows.map((row: MaintenanceRow) => this.mapMaintenanceRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'listMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Closes a scheduled maintenance entry
+   * @param id Maintenance entry ID
+   * @param status Completed or cancelled
+   * @returns Closed entry, or null when no scheduled entry has the ID
+   */
+  async closeMaintenance(
+    id: string,
+    status: Exclude<MaintenanceStatus, 'scheduled'>
+  ): Promise<IMaintenanceSchedule | null> {
+    try {
+      const [row] = await this.db('sensor_maintenance')
+        .where({ id, status: 'scheduled' })
+        .update({
+          status,
+          completed_at: status === 'completed' ? this.db.fn.now() : null
+        })
+        .returning('*');
+
+      return row ? this.mapMaintenanceRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'closeMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        id,
+        status
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a sensor's open automatic entries whose reason is no longer raised
+   * @param sensorId Sensor ID
+   * @param activeReasons Reasons still raised by the sensor's health
+   * @returns Number of cancelled entries
+   */
+  async cancelResolvedMaintenance(sensorId: string, activeReasons: MaintenanceReason[]): Promise<number> {
+    try {
+      return await this.db('sensor_maintenance')
+        .where({ sensor_id: sensorId, status: 'scheduled' })
+        .whereNot('reason', 'manual')
+        .whereNotIn('reason', activeReasons)
+        .update({ status: 'cancelled' });
+    } catch (error) {
+      this.logger.error({
+        op: 'cancelResolvedMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds when maintenance was last completed on a sensor
+   * @param sensorId Sensor ID
+   * @returns Completion time or null
+   */
+  async getLastCompletedMaintenance(sensorId: string): Promise<Date | null> {
+    try {
+      const row = await this.db('sensor_maintenance')
+        .max('completed_at as completed_at')
+        .where({ sensor_id: sensorId, status: 'completed' })
+        .first();
+
+      return row?.completed_at ? new Date(row.completed_at) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'getLastCompletedMaintenance',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the admins of the teams whose athletes used a sensor since a time
+   * @param sensorId Sensor ID
+   * @param since Start of the window
+   * @returns Admin user IDs per team
+   */
+  async getSensorTeamAdmins(
+    sensorId: string,
+    since: Date
+  ): Promise<Array<{ teamId: string; adminIds: string[] }>> {
+    try {
+      const rows = await this.db('teams as t')
+        .select('t.id', this.db.raw(`coalesce(t.access_control->'admins', '[]'::jsonb) as admins`))
+        .whereIn('t.id', this.db('sensor_data_1h as r')
+          .distinct('m.team_id')
+          .join('sessions as s', 's.id', 'r.session_id')
+          .join('athlete_team_mapping as m', 'm.athlete_id', 's.athlete_id')
+          .where('r.sensor_id', sensorId)
+          .where('r.bucket', '>=', since));
+
+      return rows.map((row: { id: string; admins: string[] }) => ({ teamId: row.id, adminIds: row.admins }));
+    } catch (error) {
+      this.logger.error({
+        op: 'getSensorTeamAdmins',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a sensor_maintenance row to the domain shape
+   */
+  private mapMaintenanceRow(row: MaintenanceRow): IMaintenanceSchedule {
+    return {
+      id: row.id,
+      sensorId: row.sensor_id,
+      scheduledTime: row.scheduled_time,
+      description: row.description,
+      duration: row.duration,
+      priority: row.priority,
+      reason: row.reason,
+      status: row.status,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      completedAt: row.completed_at
+    };
+  }
+}
@@ -0,0 +1,402 @@
+/**
+ * @fileoverview Repository for the team sensor inventory and sensor checkouts. Inventory state
+ * changes and the assignment rows they open or close are written in one transaction, guarded
+ * by the expected current state, so concurrent checkouts of a sensor cannot both succeed.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import {
+  AssignmentEndReason,
+  IInventorySensor,
+  ISensorAssignment,
+  InventoryState
+} from '../../interfaces/inventory.interface';
+
+/**
+ * Row of sensor_inventory
+ */
+interface InventorySensorRow {
+  sensor_id: string;
+  team_id: string;
+  state: InventoryState;
+  notes: string | null;
+  registered_by: string;
+  registered_at: Date;
+  state_changed_at: Date;
+}
+
+/**
+ * Row of sensor_assignments
+ */
+interface SensorAssignmentRow {
+  id: string;
+  sensor_id: string;
+  athlete_id: string;
+  team_id: string;
+  checked_out_at: Date;
+  returned_at: Date | null;
+  end_reason: AssignmentEndReason | null;
+  checked_out_by: string;
+  returned_by: string | null;
+}
+
+/**
+ * Repository class implementing data access for the sensor inventory
+ */
+export class SensorInventoryRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'SensorInventoryRepository' });
+  }
+
+  /**
+   * Registers sensors to a team's inventory
+   * @param teamId Owning team
+   * @param sensorIds Sensors to register
+   * @param registeredBy Registering user
+   * @returns Registered sensors
+   */
+  async registerSensors(teamId: string, sensorIds: string[], registeredBy: string): Promise<IInventorySensor[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('sensor_inventory')
+        .insert(sensorIds.map(sensorId => ({
+          sensor_id: sensorId,
+          team_id: teamId,
+          registered_by: registeredBy
+        })))
+        .returning('*');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'registerSensors',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        teamId,
+        sensorCount: rows.length
+      });
+
+      return rows.map((row: InventorySensorRow) => this.mapSensorRow(row, null));
+    } catch (error) {
+      this.logger.error({
+        op: 'registerSensors',
+        error: error instanceof Error ? error.message : String(error),
+        teamId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves inventory sensors with their open assignments
+   * @param sensorIds Sensor IDs
+   * @returns Registered sensors among the IDs
+   */
+  async getSensors(sensorIds: string[]): Promise<IInventorySensor[]> {
+    try {
+      const rows = await this.db('sensor_inventory').whereIn('sensor_id', sensorIds);
+      return this.withOpenAssignments(rows);
+    } catch (error) {
+      this.logger.error({
+        op: 'getSensors',
+        error: error instanceof Error ? error.message : String(error),
+        sensorCount: sensorIds.length
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a team's inventory
+   * @param teamId Owning team
+   * @param state Optional state filter
+   * @returns Sensors ordered by ID
+   */
+  async listSensors(teamId: string, state?: InventoryState): Promise<IInventorySensor[]> {
+    try {
+      const query = this.db('sensor_inventory').where({ team_id: teamId }).orderBy('sensor_id');
+      if (state) {
+        query.where({ state });
+      }
+      return this.withOpenAssignments(await query);
+    } catch (error) {
+      this.logger.error({
+        op: 'listSensors',
+        error: error instanceof Error ? error.message : String(error),
+        teamId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a sensor that is not checked out to another team
+   * @param sensorId Sensor ID
+   * @param teamId New owning team
+   * @returns Whether the sensor was moved
+   */
+  async transferSensor(sensorId: string, teamId: string): Promise<boolean> {
+    try {
+      const updated = await this.db('sensor_inventory')
+        .where({ sensor_id: sensorId })
+        .whereNot({ state: 'checked_out' })
+        .update({ team_id: teamId });
+
+      this.logger.info({
+        op: 'transferSensor',
+        sensorId,
+        teamId
+      });
+      return updated > 0;
+    } catch (error) {
+      this.logger.error({
+        op: 'transferSensor',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks out an available sensor to an athlete
+   * @param sensorId Sensor ID
+   * @param athleteId Athlete receiving the sensor
+   * @param at Start of the assignment
+   * @param userId User checking the sensor out
+   * @returns Opened assignment, or null when the sensor is not available
+   */
+  async checkout(sensorId: string, athleteId: string, at: Date, userId: string): Promise<ISensorAssignment | null> {
+    const startTime = process.hrtime();
+
+    try {
+      const row = await this.db.transaction(async (trx) => {
+        const [sensor] = await trx('sensor_inventory')
+          .where({ sensor_id: sensorId, state: 'available' })
+          .update({ state: 'checked_out', state_changed_at: at })
+          .returning('*');
+
+        if (!sensor) {
+          return null;
+        }
+
+        const [assignment] = await trx('sensor_assignments')
+          .insert({
+            sensor_id: sensorId,
+            athlete_id: athleteId,
+            team_id: sensor.team_id,
+            checked_out_at: at,
+            checked_out_by: userId
+          })
+          .returning('*');
+        return assignment;
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'checkout',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId,
+        athleteId,
+        checkedOut: Boolean(row)
+      });
+
+      return row ? this.mapAssignmentRow(row) : null;
+    } catch (error) {
+      this.logger.error({
+        op: 'checkout',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a sensor to a new state. With an end reason, the sensor's open assignment is
+   * closed at the same time.
+   * @param sensorId Sensor ID
+   * @param from States the sensor may currently be in
+   * @param to New state
+   * @param change Time, user, notes and the reason recorded on a closed assignment
+   * @returns Whether the sensor was in one of the expected states
+   */
+  async transition(
+    sensorId: string,
+    from: InventoryState[],
+    to: InventoryState,
+    change: { at: Date; userId: string; notes?: string; endReason?: AssignmentEndReason }
+  ): Promise<boolean> {
+    try {
+      const updated = await this.db.transaction(async (trx) => {
+        const count = await trx('sensor_inventory')
+          .where({ sensor_id: sensorId })
+          .whereIn('state', from)
+          .update({
+            state: to,
+            state_changed_at: change.at,
+            ...(change.notes !== undefined ? { notes: change.notes } : {})
+          });
+
+        if (count > 0 && change.endReason) {
+          await trx('sensor_assignments')
+            .where({ sensor_id: sensorId })
+            .whereNull('returned_at')
+            .update({
+              returned_at: change.at,
+              returned_by: change.userId,
+              end_reason: change.endReason
+            });
+        }
+        return count > 0;
+      });
+
+      this.logger.info({
+        op: 'transition',
+        sensorId,
+        to,
+        updated
+      });
+      return updated;
+    } catch (error) {
+      this.logger.error({
+        op: 'transition',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId,
+        to
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists a sensor's assignments overlapping a time range
+   * @param sensorId Sensor ID
+   * @param from Range start, unbounded when omitted
+   * @param to Range end, unbounded when omitted
+   * @returns Assignments in checkout order
+   */
+  async getAssignments(sensorId: string, from?: Date, to?: Date): Promise<ISensorAssignment[]> {
+    try {
+      const rows = await this.overlapping(this.db('sensor_assignments').where({ sensor_id: sensorId }), from, to)
+        .orderBy('checked_out_at');
+      return rows.map((row: SensorAssignmentRow) => this.mapAssignmentRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'getAssignments',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the sensor assignments of an athlete overlapping a time range
+   * @param athleteId Athlete ID
+   * @param from Range start
+   * @param to Range end
+   * @returns Assignments in checkout order
+   */
+  async getAthleteAssignments(athleteId: string, from: Date, to: Date): Promise<ISensorAssignment[]> {
+    try {
+      const rows = await this.overlapping(this.db('sensor_assignments').where({ athlete_id: athleteId }), from, to)
+        .orderBy('checked_out_at');
+      return rows.map((row: SensorAssignmentRow) => this.mapAssignmentRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'getAthleteAssignments',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether an athlete belongs to a team
+   * @param teamId Team ID
+   * @param athleteId Athlete ID
+   * @returns Whether the athlete is a team member
+   */
+  async isTeamAthlete(teamId: string, athleteId: string): Promise<boolean> {
+    try {
+      const row = await this.db('athlete_team_mapping')
+        .where({ team_id: teamId, athlete_id: athleteId })
+        .first();
+      return Boolean(row);
+    } catch (error) {
+      this.logger.error({
+        op: 'isTeamAthlete',
+        error: error instanceof Error ? error.message : String(error),
+        teamId,
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Restricts an assignment query to assignments overlapping a time range
+   */
+  private overlapping(query: Knex.QueryBuilder, from?: Date, to?: Date): Knex.QueryBuilder {
+    if (to) {
+      query.where('checked_out_at', '<', to);
+    }
+    if (from) {
+      query.where(builder => builder.whereNull('returned_at').orWhere('returned_at', '>', from));
+    }
+    return query;
+  }
+
+  /**
+   * Maps inventory rows to the domain shape with their open assignments
+   */
+  private async withOpenAssignments(rows: InventorySensorRow[]): Promise<IInventorySensor[]> {
+    const open: SensorAssignmentRow[] = rows.length > 0
+      ? await this.db('sensor_assignments')
+        .whereIn('sensor_id', rows.map(row => row.sensor_id))
+        .whereNull('returned_at')
+      : [];
+    const assignments = new Map(open.map(row => [row.sensor_id, this.mapAssignmentRow(row)]));
+
+    return rows.map(row => this.mapSensorRow(row, assignments.get(row.sensor_id) ?? null));
+  }
+
+  /**
+   * Maps a sensor_inventory row to the domain shape
+   */
+  private mapSensorRow(row: InventorySensorRow, assignment: ISensorAssignment | null): IInventorySensor {
+    return {
+      sensorId: row.sensor_id,
+      teamId: row.team_id,
+      state: row.state,
+      notes: row.notes,
+      registeredBy: row.registered_by,
+      registeredAt: row.registered_at,
+      stateChangedAt: row.state_changed_at,
+      assignment
+    };
+  }
+
+  /**
+   * Maps a sensor_assignments row to the domain shape
+   */
+  private mapAssignmentRow(row: SensorAssignmentRow): ISensorAssignment {
+    return {
+      id: row.id,
+      sensorId: row.sensor_id,
+      athleteId: row.athlete_id,
+      teamId: row.team_id,
+      checkedOutAt: row.checked_out_at,
+      returnedAt: row.returned_at,
+      endReason: row.end_reason,
+      checkedOutBy: row.checked_out_by,
+      returnedBy: row.returned_by
+    };
+  }
+}
@@ -7,18 +7,96 @@
 import mongoose from 'mongoose';
 import NodeCache from 'node-cache';
 import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
 import { SensorModel } from '../models/sensor.model';
-import { ISensorConfig } from '../../interfaces/sensor.interface';
-import { CALIBRATION_PARAMS, SENSOR_STATUS } from '../../constants/sensor.constants';
+import {
+  ISensorConfig,
+  ISensorData,
+  ISensorMetadata,
+  ISensorReading,
+  ISensorGap,
+  ISessionGapReport,
+  ISensorDataQuery,
+  ISensorDataRollup,
+  ISensorChannelAggregate,
+  ISensorDataSeries,
+  SensorDataResolution
+} from '../../interfaces/sensor.interface';
+import { CALIBRATION_PARAMS, SENSOR_STATUS, SENSOR_DATA_ROLLUPS } from '../../constants/sensor.constants';
 
 /**
- * Cache configuration for sensor data with TTL optimization
+ * Default page size for ordered reads from the sensor_data hypertable
  */
-const CACHE_CONFIG = {
-  stdTTL: 300, // 5 minutes
-  checkperiod: 60, // Check for expired keys every minute
-  useClones: false // Optimize memory usage
-};
+const SENSOR_DATA_BATCH_SIZE = 500;
+
+/**
+ * Per-channel aggregate columns of the sensor_data rollups
+ */
+const ROLLUP_CHANNEL_COLUMNS = Array.from({ length: SENSOR_DATA_ROLLUPS.channels }, (_, channel) =>
+  ['sum', 'count', 'min', 'max'].map(stat => `ch${channel}_${stat}`)
+).flat();
+
+/**
+ * Maximum number of dropout gaps listed in a session gap report
+ */
+const GAP_REPORT_DROPOUT_LIMIT = 1000;
+
+/**
+ * Row of sensor_data
+ */
+interface SensorDataRow {
+  id: string;
+  session_id: string;
+  sensor_id: string;
+  timestamp: Date;
+  readings: ISensorReading[];
+  metadata: ISensorMetadata;
+  data_quality: number;
+}
+
+/**
+ * Row of a sensor_data rollup view; counts and sums arrive as numeric strings
+ */
+interface SensorDataRollupRow {
+  bucket: Date;
+  session_id: string;
+  sensor_id: string;
+  packet_count: string | number;
+  avg_quality: number;
+  min_quality: number;
+  max_quality: number;
+  reading_type: ISensorReading['type'];
+  confidence_sum: string | number | null;
+  reading_count: string | number | null;
+  metadata: ISensorMetadata;
+  [channelColumn: `ch${number}_${string}`]: string | number | null;
+}
+
+/**
+ * Per-sensor gap totals of a session gap report
+ */
+interface SensorGapTotalsRow {
+  sensor_id: string;
+  jitter_gaps: number;
+  dropout_gaps: number;
+  missing_samples: number;
+  interpolated_samples: number;
+  total_gap_ms: number;
+  longest_gap_ms: number;
+}
+
+/**
+ * Row of sensor_gaps
+ */
+interface SensorGapRow {
+  sensor_id: string;
+  sensor_type: ISensorGap['type'];
+  gap_start: Date;
+  gap_end: Date;
+  missing_samples: number;
+  classification: ISensorGap['classification'];
+  interpolated: boolean;
+}
 
 /**
  * Repository class implementing data access patterns for sensor configuration and data
@@ -28,10 +106,12 @@ export class SensorRepository {
   private readonly Model: typeof SensorModel;
   private readonly cache: NodeCache;
   private readonly logger: pino.Logger;
+  private readonly db: Knex;
 
-  constructor(cache: NodeCache, logger: pino.Logger) {
+  constructor(cache: NodeCache, logger: pino.Logger, db: Knex) {
     this.Model = SensorModel;
     this.cache = cache;
+    this.db = db;
     this.logger = logger.child({ module: 'SensorRepository' });
   }
 
@@ -69,8 +149,8 @@ export class SensorRepository {
     } catch (error) {
       this.logger.error({
         op: 'createSensor',
-        error: error.message,
-        stack: error.stack
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
       });
       throw error;
     }
@@ -126,7 +206,7 @@ export class SensorRepository {
     } catch (error) {
       this.logger.error({
         op: 'updateSensorCalibration',
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
         sensorId: id
       });
       throw error;
@@ -173,7 +253,7 @@ export class SensorRepository {
     } catch (error) {
       this.logger.error({
         op: 'bulkUpdateSensors',
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
         updateCount: updates.length
       });
       throw error;
@@ -216,13 +296,581 @@ export class SensorRepository {
     } catch (error) {
       this.logger.error({
         op: 'getSensor',
-        error: error.message,
+        error: error instanceof Error ? error.message : String(error),
         sensorId: id
       });
       throw error;
     }
   }
 
+  /**
+   * Lists all sensor configurations
+   * @returns Sensor configurations ordered by ID
+   */
+  async listSensors(): Promise<ISensorConfig[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const sensors = await this.Model.find({}).sort({ id: 1 }).lean<ISensorConfig[]>();
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'listSensors',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorCount: sensors.length
+      });
+
+      return sensors;
+    } catch (error) {
+      this.logger.error({
+        op: 'listSensors',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the stored sensor data packets for a session
+   * @param sessionId Session ID
+   * @returns Number of sensor_data rows for the session
+   */
+  async countSessionSensorData(sessionId: string): Promise<number> {
+    const startTime = process.hrtime();
+
+    try {
+      const [result] = await this.db('sensor_data')
+        .where({ session_id: sessionId })
+        .count<{ count: string }[]>('id as count');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'countSessionSensorData',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId
+      });
+
+      return Number(result?.count ?? 0);
+    } catch (error) {
+      this.logger.error({
+        op: 'countSessionSensorData',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Streams a session's stored sensor data in timestamp order using keyset pagination
+   * so arbitrarily long sessions are read without holding them in memory
+   * @param sessionId Session ID
+   * @param batchSize Number of rows fetched per query
+   * @param range Optional sensor and inclusive time range to restrict the read to
+   * @returns Async iterator of ordered sensor data batches
+   */
+  async *streamSessionSensorData(
+    sessionId: string,
+    batchSize: number = SENSOR_DATA_BATCH_SIZE,
+    range?: { sensorId: string; start: number; end: number }
+  ): AsyncGenerator<ISensorData[]> {
+    let cursor: { timestamp: Date; id: string } | null = null;
+
+    while (true) {
+      const startTime = process.hrtime();
+      let rows: SensorDataRow[];
+
+      try {
+        const query = this.db('sensor_data')
+          .select('id', 'session_id', 'sensor_id', 'timestamp', 'readings', 'metadata', 'data_quality')
+          .where({ session_id: sessionId })
+          .orderBy([{ column: 'timestamp' }, { column: 'id' }])
+          .limit(batchSize);
+
+        if (range) {
+          query
+            .andWhere({ sensor_id: range.sensorId })
+            .andWhereBetween('timestamp', [new Date(range.start), new Date(range.end)]);
+        }
+
+        if (cursor) {
+          query.andWhereRaw('(timestamp, id) > (?, ?)', [cursor.timestamp, cursor.id]);
+        }
+
+        rows = await query;
+      } catch (error) {
+        this.logger.error({
+          op: 'streamSessionSensorData',
+          error: error instanceof Error ? error.message : String(error),
+          sessionId
+        });
+        throw error;
+      }
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'streamSessionSensorData',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        rowCount: rows.length
+      });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      yield rows.map(row => this.mapSensorDataRow(row));
+
+      if (rows.length < batchSize) {
+        return;
+      }
+
+      const last = rows[rows.length - 1]!;
+      cursor = { timestamp: last.timestamp, id: last.id };
+    }
+  }
+
+  /**
+   * Persists gaps detected while processing a session's sensor data
+   * @param sessionId Session ID
+   * @param gaps Detected gaps
+   */
+  async recordSensorGaps(sessionId: string, gaps: ISensorGap[]): Promise<void> {
+    if (gaps.length === 0) {
+      return;
+    }
+
+    const startTime = process.hrtime();
+
+    try {
+      await this.db('sensor_gaps').insert(gaps.map(gap => ({
+        session_id: sessionId,
+        sensor_id: gap.sensorId,
+        sensor_type: gap.type,
+        gap_start: new Date(gap.start),
+        gap_end: new Date(gap.end),
+        missing_samples: gap.missingSamples,
+        classification: gap.classification,
+        interpolated: gap.interpolated
+      })));
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'recordSensorGaps',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        gapCount: gaps.length
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'recordSensorGaps',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces a sensor's recorded gaps within a time range, e.g. after backfilled samples
+   * have filled dropouts that were recorded live
+   * @param sessionId Session ID
+   * @param range Sensor and inclusive time range that was reprocessed
+   * @param gaps Gaps detected by reprocessing the range
+   */
+  async replaceSensorGaps(
+    sessionId: string,
+    range: { sensorId: string; start: number; end: number },
+    gaps: ISensorGap[]
+  ): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      await this.db.transaction(async (trx) => {
+        await trx('sensor_gaps')
+          .where({ session_id: sessionId, sensor_id: range.sensorId })
+          .andWhere('gap_start', '>=', new Date(range.start))
+          .andWhere('gap_end', '<=', new Date(range.end))
+          .delete();
+
+        if (gaps.length > 0) {
+          await trx('sensor_gaps').insert(gaps.map(gap => ({
+            session_id: sessionId,
+            sensor_id: gap.sensorId,
+            sensor_type: gap.type,
+            gap_start: new Date(gap.start),
+            gap_end: new Date(gap.end),
+            missing_samples: gap.missingSamples,
+            classification: gap.classification,
+            interpolated: gap.interpolated
+          })));
+        }
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'replaceSensorGaps',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        sensorId: range.sensorId,
+        gapCount: gaps.length
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'replaceSensorGaps',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId,
+        sensorId: range.sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Writes reprocessed metadata and quality scores back to stored sensor data
+   * @param sessionId Session ID
+   * @param updates Reprocessed packets identified by sensor and timestamp
+   */
+  async updateSensorDataProcessing(
+    sessionId: string,
+    updates: Array<{ sensorId: string; timestamp: number; metadata: ISensorMetadata; dataQuality: number }>
+  ): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const startTime = process.hrtime();
+
+    try {
+      await this.db.transaction(async (trx) => {
+        for (const update of updates) {
+          await trx('sensor_data')
+            .where({
+              session_id: sessionId,
+              sensor_id: update.sensorId,
+              timestamp: new Date(update.timestamp)
+            })
+            .update({
+              metadata: JSON.stringify(update.metadata),
+              data_quality: update.dataQuality
+            });
+        }
+      });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'updateSensorDataProcessing',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        updateCount: updates.length
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'updateSensorDataProcessing',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Builds a per-sensor gap report for a session
+   * @param sessionId Session ID
+   * @returns Aggregated gap totals per sensor and the session's dropouts
+   */
+  async getSessionGapReport(sessionId: string): Promise<ISessionGapReport> {
+    const startTime = process.hrtime();
+
+    try {
+      const [sensorRows, dropoutRows] = await Promise.all([
+        this.db('sensor_gaps')
+          .select('sensor_id')
+          .select(this.db.raw(`count(*) filter (where classification = 'jitter')::int as jitter_gaps`))
+          .select(this.db.raw(`count(*) filter (where classification = 'dropout')::int as dropout_gaps`))
+          .select(this.db.raw('sum(missing_samples)::int as missing_samples'))
+          .select(this.db.raw('coalesce(sum(missing_samples) filter (where interpolated), 0)::int as interpolated_samples'))
+          .select(this.db.raw('sum(extract(epoch from gap_end - gap_start) * 1000)::float as total_gap_ms'))
+          .select(this.db.raw('max(extract(epoch from gap_end - gap_start) * 1000)::float as longest_gap_ms'))
+          .where({ session_id: sessionId })
+          .groupBy('sensor_id')
+          .orderBy('sensor_id'),
+        this.db('sensor_gaps')
+          .select('sensor_id', 'sensor_type', 'gap_start', 'gap_end', 'missing_samples', 'classification', 'interpolated')
+          .where({ session_id: sessionId, classification: 'dropout' })
+          .orderBy('gap_start')
+          .limit(GAP_REPORT_DROPOUT_LIMIT)
+      ]);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getSessionGapReport',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId,
+        sensorCount: sensorRows.length
+      });
+
+      return {
+        sessionId,
+        sensors: sensorRows.map((row: SensorGapTotalsRow) => ({
+          sensorId: row.sensor_id,
+          jitterGaps: row.jitter_gaps,
+          dropoutGaps: row.dropout_gaps,
+          missingSamples: row.missing_samples,
+          interpolatedSamples: row.interpolated_samples,
+          totalGapMs: row.total_gap_ms,
+          longestGapMs: row.longest_gap_ms
+        })),
+        dropouts: dropoutRows.map((row: SensorGapRow) => ({
+          sensorId: row.sensor_id,
+          type: row.sensor_type,
+          start: new Date(row.gap_start).getTime(),
+          end: new Date(row.gap_end).getTime(),
+          missingSamples: row.missing_samples,
+          classification: row.classification,
+          interpolated: row.interpolated
+        }))
+      };
+    } catch (error) {
+      this.logger.error({
+        op: 'getSessionGapReport',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads a sensor's data over a time range from the raw hypertable or one of its rollups.
+   * Unless a resolution is requested, the finest resolution whose points fit the point
+   * budget is used, so long ranges are served from coarse rollups instead of raw packets.
+   * @param query Sensor, time range, resolution and point budget
+   * @returns Data at the resolution that was read
+   */
+  async getSensorData(query: ISensorDataQuery): Promise<ISensorDataSeries> {
+    const startTime = process.hrtime();
+    const maxPoints = Math.min(
+      query.maxPoints ?? SENSOR_DATA_ROLLUPS.defaultMaxPoints,
+      SENSOR_DATA_ROLLUPS.maxPoints
+    );
+
+    if (query.end < query.start) {
+      throw new Error('Invalid time range: end precedes start');
+    }
+    if (!Number.isInteger(maxPoints) || maxPoints < 1) {
+      throw new Error('Invalid point budget: maxPoints must be a positive integer');
+    }
+
+    try {
+      const resolution = query.resolution && query.resolution !== 'auto'
+        ? query.resolution
+        : await this.selectResolution(query, maxPoints);
+      const rollup = SENSOR_DATA_ROLLUPS.views.find(view => view.resolution === resolution);
+
+      const builder = rollup
+        ? this.applyDataRange(this.db(rollup.view), query, 'bucket', rollup.bucketMs)
+          .select('bucket', 'session_id', 'sensor_id', 'packet_count', 'avg_quality', 'min_quality', 'max_quality',
+            'reading_type', 'confidence_sum', 'reading_count', 'metadata', ...ROLLUP_CHANNEL_COLUMNS)
+          .orderBy('bucket')
+        : this.applyDataRange(this.db('sensor_data'), query, 'timestamp')
+          .select('id', 'session_id', 'sensor_id', 'timestamp', 'readings', 'metadata', 'data_quality')
+          .orderBy([{ column: 'timestamp' }, { column: 'id' }]);
+
+      if (query.minQuality !== undefined) {
+        builder.andWhere(rollup ? 'avg_quality' : 'data_quality', '>=', query.minQuality);
+      }
+      if (query.types?.length) {
+        const types = query.types;
+        if (rollup) {
+          builder.whereIn('reading_type', types);
+        } else {
+          builder.andWhere(inner => {
+            types.forEach(type => inner.orWhereRaw('readings @> ?::jsonb', [JSON.stringify([{ type }])]));
+          });
+        }
+      }
+      if (query.minConfidence !== undefined) {
+        if (rollup) {
+          builder.andWhereRaw('confidence_sum >= ? * reading_count', [query.minConfidence]);
+        } else {
+          builder.andWhereRaw(
+            // The jsonpath filter's question mark is escaped so knex does not take it for a binding
+            `jsonb_path_exists(readings, '$[*] \\? (@.confidence >= $min)', jsonb_build_object('min', ?::float))`,
+            [query.minConfidence]
+          );
+        }
+      }
+
+      // Fetch one extra row to tell whether the budget truncated the result
+      const rows = await builder.limit(maxPoints + 1);
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getSensorData',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sensorId: query.sensorId,
+        resolution,
+        rowCount: rows.length
+      });
+
+      return {
+        sensorId: query.sensorId,
+        resolution,
+        bucketMs: rollup?.bucketMs ?? 0,
+        data: rollup
+          ? rows.slice(0, maxPoints).map((row: SensorDataRollupRow) => this.mapRollupRow(row))
+          : rows.slice(0, maxPoints).map((row: SensorDataRow) => this.filterReadings(this.mapSensorDataRow(row), query)),
+        truncated: rows.length > maxPoints
+      };
+    } catch (error) {
+      this.logger.error({
+        op: 'getSensorData',
+        error: error instanceof Error ? error.message : String(error),
+        sensorId: query.sensorId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Chooses the finest resolution whose points over the query range fit the point budget
+   * @param query Sensor data query
+   * @param maxPoints Point budget
+   * @returns Selected resolution, the coarsest rollup when none fits
+   */
+  private async selectResolution(query: ISensorDataQuery, maxPoints: number): Promise<SensorDataResolution> {
+    const bucketCount = (bucketMs: number) =>
+      Math.floor(query.end / bucketMs) - Math.floor(query.start / bucketMs) + 1;
+    const [finest] = SENSOR_DATA_ROLLUPS.views;
+
+    // Raw packets can only fit when the finest rollup does; its packet counts tell whether they do
+    if (bucketCount(finest.bucketMs) <= maxPoints) {
+      const [result] = await this.applyDataRange(this.db(finest.view), query, 'bucket', finest.bucketMs)
+        .sum<{ packets: string | null }[]>('packet_count as packets');
+
+      if (Number(result?.packets ?? 0) <= maxPoints) {
+        return 'raw';
+      }
+    }
+
+    const fitting = SENSOR_DATA_ROLLUPS.views.find(view => bucketCount(view.bucketMs) <= maxPoints);
+    return (fitting ?? SENSOR_DATA_ROLLUPS.views[SENSOR_DATA_ROLLUPS.views.length - 1]!).resolution;
+  }
+
+  /**
+   * Restricts a sensor_data or rollup query to the queried sensor, session and time range
+   * @param builder Query builder over sensor_data or a rollup view
+   * @param query Sensor data query
+   * @param timeColumn Timestamp or bucket column
+   * @param bucketMs Bucket width, so the bucket containing the range start is included
+   * @returns Restricted query builder
+   */
+  private applyDataRange(
+    builder: Knex.QueryBuilder,
+    query: ISensorDataQuery,
+    timeColumn: string,
+    bucketMs = 0
+  ): Knex.QueryBuilder {
+    const rangeStart = bucketMs > 0 ? Math.floor(query.start / bucketMs) * bucketMs : query.start;
+
+    builder
+      .where({ sensor_id: query.sensorId })
+      .andWhereBetween(timeColumn, [new Date(rangeStart), new Date(query.end)]);
+
+    if (query.sessionId) {
+      builder.andWhere({ session_id: query.sessionId });
+    }
+    if (query.after !== undefined) {
+      builder.andWhere(timeColumn, '>', new Date(query.after));
+    }
+
+    return builder;
+  }
+
+  /**
+   * Drops readings of a raw packet outside the queried types or below the confidence floor
+   * @param packet Sensor data packet
+   * @param query Sensor data query
+   * @returns Packet with the matching readings
+   */
+  private filterReadings(packet: ISensorData, query: ISensorDataQuery): ISensorData {
+    if (!query.types?.length && query.minConfidence === undefined) {
+      return packet;
+    }
+
+    return {
+      ...packet,
+      readings: packet.readings.filter(reading =>
+        (!query.types?.length || query.types.includes(reading.type)) &&
+        (query.minConfidence === undefined || reading.confidence >= query.minConfidence)
+      )
+    };
+  }
+
+  /**
+   * Maps a rollup row to a sensor data point stamped with its bucket start
+   * @param row Raw rollup row
+   * @returns Sensor data point with the bucket's aggregate values
+   */
+  private mapRollupRow(row: SensorDataRollupRow): ISensorData & { rollup: ISensorDataRollup } {
+    const readingCount = Number(row.reading_count ?? 0);
+    const channels: ISensorChannelAggregate[] = [];
+    for (let channel = 0; channel < SENSOR_DATA_ROLLUPS.channels; channel++) {
+      const count = Number(row[`ch${channel}_count`] ?? 0);
+      if (count === 0) {
+        break;
+      }
+      channels.push({
+        channel,
+        avg: Number(row[`ch${channel}_sum`]) / count,
+        min: Number(row[`ch${channel}_min`]),
+        max: Number(row[`ch${channel}_max`])
+      });
+    }
+
+    const timestamp = new Date(row.bucket).getTime();
+    return {
+      sensorId: row.sensor_id,
+      sessionId: row.session_id,
+      timestamp,
+      metadata: row.metadata,
+      dataQuality: row.avg_quality,
+      readings: channels.length > 0
+        ? [{
+          type: row.reading_type,
+          value: channels.map(aggregate => aggregate.avg),
+          timestamp,
+          confidence: readingCount > 0 ? Number(row.confidence_sum) / readingCount : 0,
+          rawData: Buffer.alloc(0)
+        }]
+        : [],
+      rollup: {
+        packetCount: Number(row.packet_count),
+        readingCount,
+        minQuality: row.min_quality,
+        maxQuality: row.max_quality,
+        channels
+      }
+    };
+  }
+
+  /**
+   * Maps a sensor_data row to the sensor data packet shape used by the pipeline
+   * @param row Raw sensor_data row
+   * @returns Sensor data packet
+   */
+  private mapSensorDataRow(row: SensorDataRow): ISensorData {
+    return {
+      sensorId: row.sensor_id,
+      sessionId: row.session_id,
+      timestamp: new Date(row.timestamp).getTime(),
+      readings: row.readings,
+      metadata: row.metadata,
+      dataQuality: row.data_quality
+    };
+  }
+
   /**
    * Validates sensor calibration parameters against defined ranges
    * @param params Calibration parameters to validate
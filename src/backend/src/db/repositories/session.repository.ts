@@ -6,7 +6,7 @@
 import { InfluxDB, Point } from '@influxdata/influxdb-client'; // v1.33.0
 import Redis from 'ioredis'; // v5.3.0
 import { trace, Span } from '@opentelemetry/api'; // v1.4.0
-import { ISession, ISessionMetrics } from '../../interfaces/session.interface';
+import { ISession, ISessionMetrics, ISessionTimeAlignment, ISessionFilterConfig } from '../../interfaces/session.interface';
 import { SessionModel } from '../models/session.model';
 import { mongoConfig, influxConfig } from '../../config/database.config';
 import { PERFORMANCE_THRESHOLDS, DATA_RETENTION } from '../../constants/system.constants';
@@ -139,6 +139,79 @@ export class SessionRepository {
     }
   }
 
+  /**
+   * Retrieves a session's latest metrics, from the cache while the session is hot
+   */
+  async getSessionMetrics(sessionId: string): Promise<ISessionMetrics | null> {
+    const span = this._tracer.startSpan('getSessionMetrics');
+
+    try {
+      const cached = await this._cacheClient.get(`session:${sessionId}:metrics`);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+
+      const session = await SessionModel.findById(sessionId)
+        .select('metrics')
+        .maxTimeMS(PERFORMANCE_THRESHOLDS.MAX_LATENCY_MS)
+        .lean();
+
+      return session?.metrics ?? null;
+
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Stores the per-sensor clock offsets used to align the session's streams
+   */
+  async updateTimeAlignment(sessionId: string, alignment: ISessionTimeAlignment): Promise<void> {
+    const span = this._tracer.startSpan('updateTimeAlignment');
+
+    try {
+      await SessionModel.updateOne(
+        { _id: sessionId },
+        { $set: { timeAlignment: alignment } },
+        { maxTimeMS: PERFORMANCE_THRESHOLDS.MAX_LATENCY_MS }
+      );
+
+      // Keep cached session reads consistent with the stored alignment
+      await this._cacheClient.del(`session:${sessionId}`);
+
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Retrieves the filter profile selection stored in a session's configuration
+   */
+  async getSessionFilters(sessionId: string): Promise<ISessionFilterConfig | null> {
+    const span = this._tracer.startSpan('getSessionFilters');
+
+    try {
+      const session = await SessionModel.findById(sessionId)
+        .select('config.filtering')
+        .maxTimeMS(PERFORMANCE_THRESHOLDS.MAX_LATENCY_MS)
+        .lean();
+
+      return session?.config?.filtering ?? null;
+
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Ends session with data retention management
    */
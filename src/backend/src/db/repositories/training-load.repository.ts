@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Repository for session external loads and the team settings training load is
+ * evaluated against.
+ */
+
+import pino from 'pino';
+import { Knex } from 'knex'; // ^2.5.1
+import { IDailyLoad, ISessionLoad } from '../../interfaces/load.interface';
+
+/**
+ * Training load settings of one of an athlete's teams, null where the team does not set them
+ */
+export interface TeamLoadSettingsRecord {
+  teamId: string;
+  model: string | null;
+  coupling: string | null;
+  acwrLower: number | null;
+  acwrUpper: number | null;
+}
+
+/**
+ * Daily load summed in SQL; pg returns sums as strings
+ */
+interface DailyLoadRow {
+  date: string;
+  load: string | number;
+}
+
+/**
+ * Team training load settings read from the teams' settings JSON
+ */
+interface TeamLoadSettingsRow {
+  team_id: string;
+  model: string | null;
+  coupling: string | null;
+  acwr_lower: number | null;
+  acwr_upper: number | null;
+}
+
+/**
+ * Repository class implementing data access for training load
+ */
+export class TrainingLoadRepository {
+  private readonly logger: pino.Logger;
+  private readonly db: Knex;
+
+  constructor(logger: pino.Logger, db: Knex) {
+    this.db = db;
+    this.logger = logger.child({ module: 'TrainingLoadRepository' });
+  }
+
+  /**
+   * Stores a session's load so far; a stored load is only replaced by a larger one
+   * @param load Session load
+   */
+  async upsertSessionLoad(load: ISessionLoad): Promise<void> {
+    const startTime = process.hrtime();
+
+    try {
+      await this.db('session_loads')
+        .insert({
+          session_id: load.sessionId,
+          athlete_id: load.athleteId,
+          start_time: new Date(load.startTime),
+          end_time: new Date(load.endTime),
+          load: load.load,
+          source_sensor_id: load.sourceSensorId,
+          updated_at: this.db.fn.now()
+        })
+        .onConflict('session_id')
+        // A tracker restarted mid-session, or a second worker on the session, holds only part
+        // of the load, so it never replaces a larger stored load
+        .merge({
+          start_time: this.db.raw('LEAST(session_loads.start_time, excluded.start_time)'),
+          end_time: this.db.raw('GREATEST(session_loads.end_time, excluded.end_time)'),
+          load: this.db.raw('GREATEST(session_loads.load, excluded.load)'),
+          updated_at: this.db.fn.now()
+        });
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'upsertSessionLoad',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        sessionId: load.sessionId
+      });
+    } catch (error) {
+      this.logger.error({
+        op: 'upsertSessionLoad',
+        error: error instanceof Error ? error.message : String(error),
+        sessionId: load.sessionId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sums an athlete's session loads per UTC day of the session start
+   * @param athleteId Athlete ID
+   * @param from First day, as YYYY-MM-DD
+   * @param to Last day, as YYYY-MM-DD
+   * @returns Days with load, in date order
+   */
+  async getDailyLoads(athleteId: string, from: string, to: string): Promise<IDailyLoad[]> {
+    const startTime = process.hrtime();
+
+    try {
+      const rows = await this.db('session_loads')
+        .select(this.db.raw(`to_char(start_time AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS date`))
+        .sum<DailyLoadRow[]>({ load: 'load' })
+        .where({ athlete_id: athleteId })
+        .whereRaw(`(start_time AT TIME ZONE 'UTC')::date BETWEEN ?::date AND ?::date`, [from, to])
+        .groupByRaw('1')
+        .orderByRaw('1');
+
+      const [seconds, nanoseconds] = process.hrtime(startTime);
+      this.logger.info({
+        op: 'getDailyLoads',
+        latency: seconds * 1000 + nanoseconds / 1e6,
+        athleteId,
+        dayCount: rows.length
+      });
+
+      return rows.map((row: DailyLoadRow) => ({ date: row.date, load: Number(row.load) }));
+    } catch (error) {
+      this.logger.error({
+        op: 'getDailyLoads',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the training load settings of an athlete's teams
+   * @param athleteId Athlete ID
+   * @returns One row per team the athlete belongs to
+   */
+  async getTeamLoadSettings(athleteId: string): Promise<TeamLoadSettingsRecord[]> {
+    try {
+      const rows = await this.db('athlete_team_mapping as m')
+        .join('teams as t', 't.id', 'm.team_id')
+        .where('m.athlete_id', athleteId)
+        .select(
+          't.id as team_id',
+          this.db.raw(`t.settings #>> '{analyticsConfig,trainingLoad,model}' AS model`),
+          this.db.raw(`t.settings #>> '{analyticsConfig,trainingLoad,coupling}' AS coupling`),
+          this.db.raw(`(t.settings #>> '{analyticsConfig,trainingLoad,acwrBand,lower}')::float AS acwr_lower`),
+          this.db.raw(`(t.settings #>> '{analyticsConfig,trainingLoad,acwrBand,upper}')::float AS acwr_upper`)
+        )
+        .orderBy('t.id');
+
+      return rows.map((row: TeamLoadSettingsRow) => this.mapSettingsRow(row));
+    } catch (error) {
+      this.logger.error({
+        op: 'getTeamLoadSettings',
+        error: error instanceof Error ? error.message : String(error),
+        athleteId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Maps a team settings row to the domain shape
+   */
+  private mapSettingsRow(row: TeamLoadSettingsRow): TeamLoadSettingsRecord {
+    return {
+      teamId: row.team_id,
+      model: row.model ?? null,
+      coupling: row.coupling ?? null,
+      acwrLower: row.acwr_lower ?? null,
+      acwrUpper: row.acwr_upper ?? null
+    };
+  }
+}
@@ -60,6 +60,9 @@ export interface IAlert {
 
   /** ML model confidence score (0-1) for injury prediction */
   confidenceScore: number;
+
+  /** Replay run that produced the alert; absent for alerts raised on live data */
+  replayId?: string;
 }
 
 /**
@@ -97,6 +100,12 @@ export interface IAlertDetails {
 
   /** Identified risk factors */
   riskFactors: string[];
+
+  /** Athlete the alert concerns, for alerts raised on an athlete's stored data */
+  athleteId?: string;
+
+  /** Team whose settings raised the alert */
+  teamId?: string;
 }
 
 /**
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview TypeScript interface definitions for learned athlete baselines. Each qualifying
+ * session contributes a sample of per-session features; baselines are learned from the samples
+ * outside injury periods and stored as immutable, numbered versions with their provenance.
+ * Coaches can pin a version, freeze automatic learning, or revert to an earlier version.
+ * @version 1.0.0
+ */
+
+import { IBaselineData } from './athlete.interface';
+
+/**
+ * Baseline measurements a version carries. Sensor calibration is versioned by the calibration
+ * history, so baselines leave the athlete's calibration untouched.
+ */
+export type IBaselineProfile = Omit<IBaselineData, 'sensorCalibration'>;
+
+/**
+ * How a baseline version came about
+ *
+ * - learned: the first baseline, from the athlete's first qualifying sessions
+ * - refreshed: a later baseline, from the most recent qualifying sessions
+ * - manual: pushed through the baseline endpoint
+ * - reverted: a copy of an earlier version
+ */
+export type BaselineSource = 'learned' | 'refreshed' | 'manual' | 'reverted';
+
+/**
+ * Features of one qualifying session, keyed like muscle:quadriceps or rom:left_knee_flexion:max
+ */
+export interface IBaselineSample {
+  sessionId: string;
+
+  athleteId: string;
+
+  startTime: Date;
+
+  features: Record<string, number>;
+}
+
+/**
+ * Robust statistics of one feature over a version's sessions
+ */
+export interface IBaselineStatistic {
+  median: number;
+
+  /** Median absolute deviation from the median */
+  mad: number;
+
+  /** Sessions the statistics were computed from */
+  count: number;
+
+  /** Sessions rejected as outliers */
+  rejected: number;
+}
+
+/**
+ * Where a baseline version came from
+ */
+export interface IBaselineProvenance {
+  source: BaselineSource;
+
+  /** Sessions the version was learned from */
+  sessionIds: string[];
+
+  /** Sessions in the learning window left out because they fell in an injury period */
+  excludedSessionIds: string[];
+
+  /** Start time of the first and last session learned from */
+  windowStart: Date | null;
+  windowEnd: Date | null;
+
+  /** Version copied, when the version is a revert */
+  revertedFrom: number | null;
+
+  /** User who pushed, reverted or triggered the version; null for automatic versions */
+  createdBy: string | null;
+}
+
+/**
+ * Immutable baseline version of an athlete
+ */
+export interface IBaselineVersion {
+  id: string;
+
+  athleteId: string;
+
+  /** Sequential version number, starting at 1 for each athlete */
+  version: number;
+
+  baseline: IBaselineProfile;
+
+  /** Statistics per feature; empty for manual versions */
+  statistics: Record<string, IBaselineStatistic>;
+
+  provenance: IBaselineProvenance;
+
+  createdAt: Date;
+}
+
+/**
+ * Which baseline version is applied to an athlete and how it may change
+ */
+export interface IBaselineState {
+  athleteId: string;
+
+  /** Version applied to the athlete, null before the first version */
+  activeVersion: number | null;
+
+  /** Automatic versions are stored but not applied while pinned */
+  pinned: boolean;
+
+  /** No automatic versions are learned while frozen */
+  frozen: boolean;
+
+  updatedBy: string | null;
+
+  updatedAt: Date;
+}
+
+/**
+ * Baseline state with the athlete's versions, newest first
+ */
+export interface IAthleteBaselines {
+  state: IBaselineState;
+
+  versions: IBaselineVersion[];
+}
+
+/**
+ * Period an athlete was injured, open while endDate is null
+ */
+export interface IInjuryPeriod {
+  id: string;
+
+  athleteId: string;
+
+  startDate: Date;
+
+  endDate: Date | null;
+
+  description: string;
+
+  recordedBy: string;
+
+  createdAt: Date;
+}
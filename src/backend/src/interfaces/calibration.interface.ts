@@ -0,0 +1,248 @@
+/**
+ * @fileoverview TypeScript interface definitions for sensor calibration history.
+ * Every calibration of a sensor is stored as an immutable, numbered version. Rolling back
+ * appends a new version carrying the parameters of an earlier one, and sensor data is tagged
+ * with the version that was active when it was recorded. Guided calibration runs step the
+ * athlete through a fixed protocol and record their result as a new version. Temperature
+ * models describe how a sensor's bias drifts with skin or ambient temperature.
+ * @version 1.0.0
+ */
+
+import { ISensorCalibrationParams } from './sensor.interface';
+import { SENSOR_TYPES } from '../constants/sensor.constants';
+
+/**
+ * Immutable record of one calibration of a sensor
+ */
+export interface ICalibrationVersion {
+  id: string;
+  sensorId: string;
+
+  /** Sequential version number, starting at 1 for each sensor */
+  version: number;
+
+  /** Calibration parameters applied with this version */
+  params: ISensorCalibrationParams;
+
+  /** User who performed the calibration or rollback */
+  operatorId: string;
+
+  /** Data quality measured with the parameters applied */
+  qualityScore: number;
+
+  /** Conditions at calibration time, such as temperature and humidity */
+  environmentalConditions: Record<string, number>;
+
+  /** Version whose parameters were restored, when this version is a rollback */
+  restoredFrom: number | null;
+
+  createdAt: Date;
+}
+
+/**
+ * Details recorded with a calibration
+ */
+export interface ICalibrationContext {
+  operatorId: string;
+  qualityScore: number;
+  environmentalConditions?: Record<string, number>;
+}
+
+/**
+ * Change of a single calibration parameter between two versions. Matrix cells are named
+ * calibrationMatrix[row][column]; a value is null where one version lacks the parameter.
+ */
+export interface ICalibrationParamChange {
+  param: string;
+  from: number | null;
+  to: number | null;
+
+  /** Difference to - from, null when either side is missing */
+  delta: number | null;
+}
+
+/**
+ * Parameter changes between two calibration versions of a sensor
+ */
+export interface ICalibrationDiff {
+  sensorId: string;
+  fromVersion: number;
+  toVersion: number;
+
+  /** Changed parameters only */
+  changes: ICalibrationParamChange[];
+}
+
+/**
+ * Steps of the guided calibration protocol, in protocol order
+ */
+export type CalibrationStepId = 'static_stand' | 't_pose' | 'squat' | 'walk';
+
+/**
+ * State of a guided calibration run
+ */
+export type CalibrationRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Phase of the current step of a guided calibration run
+ */
+export type CalibrationStepPhase = 'preparing' | 'capturing' | 'evaluating';
+
+/**
+ * Outcome of one capture of a protocol step
+ */
+export interface ICalibrationStepResult {
+  step: CalibrationStepId;
+  attempt: number;
+  passed: boolean;
+
+  /** Readings of the sensor's type in the capture */
+  sampleCount: number;
+
+  /** Metrics computed from the captured readings */
+  metrics: Record<string, number>;
+
+  /** Reasons the capture was rejected; empty when it passed */
+  failures: string[];
+}
+
+/**
+ * Guided calibration run of a single sensor
+ */
+export interface ICalibrationRun {
+  id: string;
+  sensorId: string;
+  operatorId: string;
+  status: CalibrationRunStatus;
+
+  /** Index of the current step in the protocol */
+  stepIndex: number;
+
+  /** Capture attempt of the current step, starting at 1 */
+  attempt: number;
+  phase: CalibrationStepPhase;
+
+  /** Every capture so far, including rejected attempts */
+  results: ICalibrationStepResult[];
+
+  /** Calibration version recorded when the run completed */
+  version: number | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+/**
+ * Progress event of a guided calibration run
+ */
+export interface ICalibrationProgress {
+  runId: string;
+  sensorId: string;
+  status: CalibrationRunStatus;
+  step: CalibrationStepId;
+  stepIndex: number;
+  totalSteps: number;
+  attempt: number;
+  maxAttempts: number;
+  phase: CalibrationStepPhase;
+
+  /** What the athlete should do during the current step */
+  instruction: string;
+
+  /** Overall progress through the protocol, 0-100 */
+  progress: number;
+
+  /** Estimated milliseconds until the protocol completes without further retries */
+  estimatedTimeRemaining: number;
+
+  /** Result of the capture just evaluated */
+  result?: ICalibrationStepResult;
+
+  /** Calibration version recorded when the run completed */
+  version?: number;
+  error?: string;
+  timestamp: Date;
+}
+
+/**
+ * Temperature bands residual drift is reported for
+ */
+export type TemperatureBand = 'cold' | 'normal' | 'hot';
+
+/**
+ * Fitted temperature-to-bias curve of one reading channel
+ */
+export interface ITemperatureChannelModel {
+  channel: number;
+
+  /** Polynomial coefficients of the bias in °C from the reference temperature, constant term first */
+  coefficients: number[];
+}
+
+/**
+ * Bias left after compensation within one temperature band
+ */
+export interface ITemperatureBandDrift {
+  band: TemperatureBand;
+
+  /** Band bounds in °C, null where the band is open */
+  minTemperature: number | null;
+  maxTemperature: number | null;
+
+  /** Fitted packets logged in the band */
+  sampleCount: number;
+
+  /** Largest residual bias in the band, null when the band was not observed */
+  maxResidual: number | null;
+  withinSpec: boolean | null;
+}
+
+/**
+ * Bias left after temperature compensation, measured on the packets a model was fitted from
+ */
+export interface ITemperatureDriftReport {
+  /** Residual bias allowed for the sensor type */
+  spec: number;
+  rmsResidual: number;
+  maxResidual: number;
+  bands: ITemperatureBandDrift[];
+
+  /** Whether every observed band is within spec */
+  withinSpec: boolean;
+}
+
+/**
+ * Per-sensor model of reading bias against temperature
+ */
+export interface ITemperatureModel {
+  sensorType: SENSOR_TYPES;
+
+  /** Environmental factor the model was fitted against, such as skinTemperature */
+  factor: string;
+  referenceTemperature: number;
+
+  /** Temperatures covered by the fitted packets */
+  temperatureRange: { min: number; max: number };
+  channels: ITemperatureChannelModel[];
+  sampleCount: number;
+  residualDrift: ITemperatureDriftReport;
+  fittedAt: Date;
+}
+
+/**
+ * Temperature compensation applied to a packet of sensor data
+ */
+export interface ITemperatureCompensation {
+  factor: string;
+  temperature: number;
+  band: TemperatureBand;
+
+  /** Bias removed from each compensated channel, by channel index */
+  corrections: Record<number, number>;
+
+  /** Whether the temperature lies outside the range the model was fitted on */
+  extrapolated: boolean;
+
+  /** Whether the model's residual drift is within spec in this band, null when it was not observed */
+  withinSpec: boolean | null;
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview TypeScript interface definitions for dead-lettered Kafka messages.
+ * Messages that workers cannot parse or process are routed to the dead-letter topic
+ * with failure context so they can be inspected, re-queued or discarded by admins.
+ * @version 1.0.0
+ */
+
+/**
+ * Broad category of the failure that dead-lettered a message
+ */
+export type DeadLetterErrorType = 'PARSE_ERROR' | 'VALIDATION_ERROR' | 'PROCESSING_ERROR';
+
+/**
+ * Admin lifecycle of a dead-lettered message
+ */
+export type DeadLetterStatus = 'PENDING' | 'REQUEUED' | 'DISCARDED';
+
+/**
+ * Failure context attached to a message routed to the dead-letter topic
+ */
+export interface IDeadLetterContext {
+  /** Topic the message was originally consumed from */
+  sourceTopic: string;
+
+  /** Partition the message was consumed from */
+  sourcePartition: number;
+
+  /** Offset of the message in its source partition */
+  sourceOffset: string;
+
+  /** Name of the worker that failed to handle the message */
+  workerName: string;
+
+  /** Category of the failure */
+  errorType: DeadLetterErrorType;
+
+  /** Error message raised by the worker */
+  errorMessage: string;
+
+  /** Number of times the message has been re-queued from the dead-letter topic */
+  retryCount: number;
+
+  /** Processing attempts made by the worker before giving up */
+  attempts: number;
+
+  /** Time the message was dead-lettered */
+  failedAt: Date;
+}
+
+/**
+ * Stored dead-letter message with its admin status
+ */
+export interface IDeadLetterMessage extends IDeadLetterContext {
+  /** Unique identifier for the stored message */
+  id: string;
+
+  /** Original message key */
+  key: string | null;
+
+  /** Original message payload, preserved byte-for-byte as UTF-8 */
+  payload: string;
+
+  /** Original message headers */
+  headers: Record<string, string>;
+
+  /** Current admin status */
+  status: DeadLetterStatus;
+
+  /** ID of the admin who re-queued or discarded the message */
+  resolvedBy: string | null;
+
+  /** Time the message was re-queued or discarded */
+  resolvedAt: Date | null;
+
+  /** Reason given when the message was discarded */
+  discardReason: string | null;
+}
+
+/**
+ * Filter options for listing dead-letter messages
+ */
+export interface IDeadLetterFilter {
+  status?: DeadLetterStatus;
+  workerName?: string;
+  sourceTopic?: string;
+  errorType?: DeadLetterErrorType;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview TypeScript interface definitions for sensor firmware updates.
+ * Firmware images are registered with their checksum and compatible sensor types, and rolled
+ * out to a team's sensors in stages. Each sensor update moves through queued, transferring,
+ * verifying and applied, or ends rolled back to the previous firmware.
+ * @version 1.0.0
+ */
+
+import { SENSOR_TYPES, SENSOR_STATUS } from '../constants/sensor.constants';
+
+/**
+ * State of a single sensor's firmware update
+ */
+export type FirmwareUpdateState = 'queued' | 'transferring' | 'verifying' | 'applied' | 'rolled_back';
+
+/**
+ * State of a staged rollout
+ */
+export type FirmwareRolloutStatus = 'running' | 'paused' | 'halted' | 'completed' | 'cancelled';
+
+/**
+ * Registered firmware image
+ */
+export interface IFirmwareImage {
+  id: string;
+
+  /** Semantic version reported by sensors running the image */
+  version: string;
+
+  /** SHA-256 checksum of the image, hex encoded */
+  checksum: string;
+
+  /** Sensor types the image can be installed on */
+  sensorTypes: SENSOR_TYPES[];
+
+  /** Image size in bytes */
+  sizeBytes: number;
+
+  releaseNotes: string | null;
+
+  /** User who registered the image */
+  createdBy: string;
+
+  createdAt: Date;
+}
+
+/**
+ * Staged rollout of a firmware image across a team's sensors
+ */
+export interface IFirmwareRollout {
+  id: string;
+  teamId: string;
+  firmwareId: string;
+
+  /** Version being rolled out */
+  version: string;
+
+  /** Cumulative percentage of the team's sensors updated by the end of each stage */
+  stages: number[];
+
+  /** Index of the stage being updated */
+  currentStage: number;
+
+  status: FirmwareRolloutStatus;
+
+  /** Share of failed updates in a stage that halts the rollout */
+  maxFailureRate: number;
+
+  /** Reason the rollout was halted after a failed stage */
+  haltReason: string | null;
+
+  /** User who started the rollout */
+  createdBy: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Firmware update of a single sensor, standalone or as part of a rollout
+ */
+export interface IFirmwareUpdate {
+  id: string;
+
+  /** Rollout the update belongs to; null for single-sensor updates */
+  rolloutId: string | null;
+
+  /** Rollout stage the sensor is updated in */
+  stage: number;
+
+  sensorId: string;
+  firmwareId: string;
+
+  /** Firmware version before the update */
+  fromVersion: string;
+
+  /** Firmware version being installed */
+  toVersion: string;
+
+  state: FirmwareUpdateState;
+
+  /** Transfer progress percentage (0-100) */
+  progress: number;
+
+  /** Failure that caused a rollback */
+  error: string | null;
+
+  /** User who requested the update */
+  requestedBy: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Options for starting a staged rollout
+ */
+export interface IFirmwareRolloutOptions {
+  /** Cumulative stage percentages; defaults to FIRMWARE_UPDATE.defaultStages */
+  stages?: number[];
+
+  /** Failed share of a stage that halts the rollout; defaults to FIRMWARE_UPDATE.defaultMaxFailureRate */
+  maxFailureRate?: number;
+}
+
+/**
+ * Rollout with the updates of its sensors
+ */
+export interface IFirmwareRolloutReport {
+  rollout: IFirmwareRollout;
+
+  /** Number of sensor updates in each state */
+  stateCounts: Record<FirmwareUpdateState, number>;
+
+  updates: IFirmwareUpdate[];
+}
+
+/**
+ * Firmware update progress event pushed to subscribers
+ */
+export interface IFirmwareProgress {
+  updateId: string;
+  rolloutId: string | null;
+  sensorId: string;
+  state: FirmwareUpdateState;
+  progress: number;
+  version: string;
+  error: string | null;
+
+  /** Sensor status after the event */
+  sensorStatus: SENSOR_STATUS;
+
+  timestamp: Date;
+}
+
+/**
+ * Channel delivering firmware to sensors through the gateway that holds the sensors'
+ * Bluetooth connections (see KafkaFirmwareTransport). Sensors keep the previous image in a
+ * second slot, so a rollback restores the firmware that ran before the update.
+ */
+export interface IFirmwareTransport {
+  /**
+   * Sends an image to the sensor's inactive slot
+   * @param onProgress - Called with the number of bytes acknowledged by the sensor
+   */
+  transfer(sensorId: string, image: Buffer, onProgress: (bytesSent: number) => void): Promise<void>;
+
+  /** Returns the SHA-256 checksum the sensor computed over the received image */
+  verify(sensorId: string): Promise<string>;
+
+  /** Boots the received image and returns the version the sensor reports */
+  apply(sensorId: string): Promise<string>;
+
+  /** Boots the previous image and returns the version the sensor reports */
+  rollback(sensorId: string): Promise<string>;
+}
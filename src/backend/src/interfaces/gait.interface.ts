@@ -0,0 +1,58 @@
+/**
+ * @fileoverview TypeScript interface definitions for running gait analysis. Strides segmented
+ * from leg IMUs are measured individually and summarized over a window of recent strides.
+ * @version 1.0.0
+ */
+
+/**
+ * Gait metrics of one stride
+ */
+export interface IGaitStride {
+  /** Foot strike opening the stride */
+  timestamp: number;
+
+  side: 'left' | 'right';
+
+  strideTimeMs: number;
+
+  /** Steps per minute */
+  cadence: number;
+
+  /** Ground contact time of the stride's foot strike */
+  groundContactTimeMs: number | null;
+
+  /** Where the contact time was measured: a foot or shank ToF sensor, or the leg IMU */
+  contactSource: 'tof' | 'imu' | null;
+
+  /** Airborne time of the step, half a stride less the contact time */
+  flightTimeMs: number | null;
+
+  /** Peak-to-peak vertical displacement of the pelvis over the stride */
+  verticalOscillationCm: number | null;
+
+  /** Inverted pendulum estimate from the vertical oscillation and leg length */
+  strideLengthM: number | null;
+}
+
+/**
+ * Gait summary over the window of recent strides
+ */
+export interface IGaitAnalysis {
+  strideCount: number;
+
+  cadence: number | null;
+
+  groundContactTimeMs: number | null;
+
+  flightTimeMs: number | null;
+
+  strideLengthM: number | null;
+
+  verticalOscillationCm: number | null;
+
+  /** Left/right ground contact time difference relative to their mean, 0 when symmetric */
+  contactTimeAsymmetry: number | null;
+
+  /** Measured strides in timestamp order */
+  strides: IGaitStride[];
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview TypeScript interface definitions for garment templates.
+ * A template defines the named sensor slots of a garment model, each on a body segment and
+ * side with a mounting orientation and expected sensor type. Pairing binds the physical
+ * sensors of one garment to the template's slots, so analyzers resolve sensor locations
+ * through the template instead of the free-form sensor location.
+ * @version 1.0.0
+ */
+
+import { BODY_SEGMENTS, BODY_SIDES, SENSOR_TYPES } from '../constants/sensor.constants';
+
+/**
+ * Body segment a sensor slot is placed on
+ */
+export type BodySegment = typeof BODY_SEGMENTS[number];
+
+/**
+ * Body side of a sensor slot
+ */
+export type BodySide = typeof BODY_SIDES[number];
+
+/**
+ * Mounting orientation of a slot's sensor frame relative to the body segment frame, in degrees
+ */
+export interface ISlotOrientation {
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+/**
+ * Named sensor slot of a garment template
+ */
+export interface IGarmentSlot {
+  /** Slot identifier, unique within the template, e.g. left_thigh_front */
+  id: string;
+
+  segment: BodySegment;
+
+  side: BodySide;
+
+  orientation: ISlotOrientation;
+
+  /** Sensor type the slot holds */
+  sensorType: SENSOR_TYPES;
+
+  /** Optional human readable label */
+  label?: string;
+}
+
+/**
+ * Garment model with its sensor slots
+ */
+export interface IGarmentTemplate {
+  id: string;
+
+  /** Unique template name, e.g. compression shorts v2 */
+  name: string;
+
+  description: string | null;
+
+  slots: IGarmentSlot[];
+
+  createdBy: string;
+
+  createdAt: Date;
+}
+
+/**
+ * Physical sensors of one garment bound to its template's slots
+ */
+export interface IGarmentPairing {
+  id: string;
+
+  templateId: string;
+
+  /** Athlete wearing the garment, when known */
+  athleteId: string | null;
+
+  /** Sensor ID bound to each slot ID */
+  bindings: Record<string, string>;
+
+  pairedBy: string;
+
+  pairedAt: Date;
+
+  /** Time the garment was unpaired, null while paired */
+  unpairedAt: Date | null;
+}
+
+/**
+ * Placement of a paired sensor, resolved through its garment template
+ */
+export interface ISensorPlacement {
+  sensorId: string;
+
+  pairingId: string;
+
+  templateId: string;
+
+  templateName: string;
+
+  slotId: string;
+
+  segment: BodySegment;
+
+  side: BodySide;
+
+  orientation: ISlotOrientation;
+
+  /** Canonical location key shared by all garments, e.g. left_thigh or trunk */
+  location: string;
+}
+
+/**
+ * Heat map cell of a body segment
+ */
+export interface ISegmentHeatMapCell {
+  /** Canonical location key */
+  location: string;
+
+  segment: BodySegment;
+
+  side: BodySide;
+
+  row: number;
+
+  col: number;
+
+  /** Mean value of the segment's sensors */
+  value: number;
+
+  /** Sensors contributing to the cell */
+  sensorCount: number;
+}
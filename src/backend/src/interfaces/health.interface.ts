@@ -0,0 +1,210 @@
+/**
+ * @fileoverview TypeScript interface definitions for predictive sensor health.
+ * Sensor health is scored from battery discharge, packet loss, calibration history and
+ * error-state frequency; crossed thresholds schedule maintenance and notify team admins.
+ * @version 1.0.0
+ */
+
+/**
+ * Why a maintenance entry was scheduled; every reason except manual is raised by health checks
+ */
+export type MaintenanceReason = 'battery' | 'calibration' | 'packet_loss' | 'errors' | 'health' | 'manual';
+
+/**
+ * Lifecycle of a maintenance entry
+ */
+export type MaintenanceStatus = 'scheduled' | 'completed' | 'cancelled';
+
+/**
+ * Battery level and status snapshot of a sensor, recorded by every health check
+ */
+export interface ISensorTelemetry {
+  sensorId: string;
+
+  /** Time of the snapshot */
+  recordedAt: Date;
+
+  /** Battery level in percent */
+  batteryLevel: number;
+
+  /** Sensor status from SENSOR_STATUS */
+  status: number;
+}
+
+/**
+ * Battery forecast from the sensor's current discharge curve
+ */
+export interface IBatteryForecast {
+  /** Current battery level in percent */
+  level: number;
+
+  /** Measured discharge rate in %/h, null without a long enough discharge */
+  dischargeRate: number | null;
+
+  /** Hours until the battery is empty at the measured rate */
+  remainingHours: number | null;
+
+  /** Hours until the battery falls below the low level at the measured rate */
+  hoursToLow: number | null;
+}
+
+/**
+ * Recalibration forecast from the sensor's calibration history
+ */
+export interface ICalibrationForecast {
+  /** Time of the sensor's last calibration */
+  lastCalibration: Date | null;
+
+  /** Quality score of the active calibration version */
+  qualityScore: number | null;
+
+  /** Change of the quality score per day over recent versions */
+  qualityTrend: number | null;
+
+  /** Time recalibration is due */
+  dueAt: Date;
+
+  /** Days until recalibration is due, negative when overdue */
+  daysRemaining: number;
+
+  /** Whether the residual temperature drift is within spec, null without a temperature model */
+  temperatureWithinSpec: boolean | null;
+}
+
+/**
+ * Threshold crossed by a sensor, and the maintenance it calls for
+ */
+export interface ISensorHealthIssue {
+  reason: Exclude<MaintenanceReason, 'manual'>;
+
+  /** Maintenance description */
+  description: string;
+
+  /** Maintenance priority from 1 (low) to 5 (urgent) */
+  priority: number;
+
+  /** Time the maintenance should happen */
+  scheduledTime: Date;
+
+  /** Expected maintenance duration in minutes */
+  duration: number;
+}
+
+/**
+ * Health report of a sensor. Component scores range from 0 (failing) to 100 (healthy).
+ */
+export interface ISensorHealthReport {
+  sensorId: string;
+
+  /** Time the report was evaluated */
+  evaluatedAt: Date;
+
+  /** Weighted health over all components */
+  overallHealth: number;
+
+  batteryHealth: number;
+
+  calibrationHealth: number;
+
+  /** Health of the BLE link, from packet loss */
+  connectionQuality: number;
+
+  /** Health from the frequency of error states */
+  errorHealth: number;
+
+  /** Fraction of samples lost over the packet loss window */
+  packetLoss: number;
+
+  /** Error states entered per day over the telemetry window */
+  errorsPerDay: number;
+
+  battery: IBatteryForecast;
+
+  calibration: ICalibrationForecast;
+
+  /** Time maintenance was last completed on the sensor */
+  lastMaintenance: Date | null;
+
+  /** Thresholds currently crossed */
+  issues: ISensorHealthIssue[];
+
+  /** Human readable recommendations, one per issue */
+  recommendations: string[];
+}
+
+/**
+ * Scheduled, completed or cancelled maintenance of a sensor
+ */
+export interface IMaintenanceSchedule {
+  id: string;
+
+  sensorId: string;
+
+  scheduledTime: Date;
+
+  description: string;
+
+  /** Expected duration in minutes */
+  duration: number;
+
+  /** Priority from 1 (low) to 5 (urgent) */
+  priority: number;
+
+  reason: MaintenanceReason;
+
+  status: MaintenanceStatus;
+
+  /** User who scheduled the entry, null for entries raised by health checks */
+  createdBy: string | null;
+
+  createdAt: Date;
+
+  completedAt: Date | null;
+}
+
+/**
+ * Notification sent to team admins when a health check schedules maintenance
+ */
+export interface IMaintenanceNotification {
+  maintenance: IMaintenanceSchedule;
+
+  /** Team whose admins are notified */
+  teamId: string;
+
+  /** Admin user IDs to notify */
+  recipientIds: string[];
+}
+
+/**
+ * Health metric published whenever a sensor is evaluated
+ */
+export interface ISensorHealthUpdate {
+  sensorId: string;
+
+  timestamp: Date;
+
+  /** Metric name, e.g. overallHealth or batteryHealth */
+  metric: string;
+
+  value: number;
+
+  /** Whether the metric is healthy, degraded or critical */
+  status: 'healthy' | 'degraded' | 'critical';
+}
+
+/**
+ * Outcome of a health check over all sensors
+ */
+export interface IHealthCheckResult {
+  /** Sensors evaluated */
+  evaluated: number;
+
+  /** Maintenance entries created */
+  scheduled: IMaintenanceSchedule[];
+
+  /** Automatic entries cancelled because their threshold is no longer crossed */
+  resolved: number;
+
+  /** Sensors whose evaluation failed */
+  failures: Array<{ sensorId: string; error: string }>;
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview TypeScript interface definitions for the team sensor inventory.
+ * Sensors are registered to a team and checked out to athletes for time ranges; the
+ * assignment history attributes each sensor's data to the athlete who wore it at the time.
+ * @version 1.0.0
+ */
+
+/**
+ * Inventory state of a sensor
+ */
+export type InventoryState = 'available' | 'checked_out' | 'lost' | 'retired';
+
+/**
+ * Why a sensor assignment ended
+ */
+export type AssignmentEndReason = 'returned' | 'lost';
+
+/**
+ * Checkout of a sensor to an athlete
+ */
+export interface ISensorAssignment {
+  id: string;
+
+  sensorId: string;
+
+  athleteId: string;
+
+  /** Team owning the sensor at checkout */
+  teamId: string;
+
+  checkedOutAt: Date;
+
+  /** End of the assignment, null while the athlete holds the sensor */
+  returnedAt: Date | null;
+
+  endReason: AssignmentEndReason | null;
+
+  checkedOutBy: string;
+
+  returnedBy: string | null;
+}
+
+/**
+ * Sensor registered to a team's inventory
+ */
+export interface IInventorySensor {
+  sensorId: string;
+
+  teamId: string;
+
+  state: InventoryState;
+
+  notes: string | null;
+
+  registeredBy: string;
+
+  registeredAt: Date;
+
+  stateChangedAt: Date;
+
+  /** Open assignment while the sensor is checked out */
+  assignment: ISensorAssignment | null;
+}
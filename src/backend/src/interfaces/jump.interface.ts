@@ -0,0 +1,69 @@
+/**
+ * @fileoverview TypeScript interface definitions for jump and landing analysis. Jumps segmented
+ * from the jump sensor's free fall are measured at take-off and landing, scored for landing
+ * quality, and counted per session.
+ * @version 1.0.0
+ */
+
+/**
+ * Take-off and landing metrics of one jump
+ */
+export interface IJump {
+  /** Take-off, the start of the free fall */
+  timestamp: number;
+
+  /** Touchdown, the end of the free fall */
+  landing: number;
+
+  flightTimeMs: number;
+
+  /** Flight-time method: g * t² / 8 */
+  jumpHeightCm: number;
+
+  /** Impulse method: take-off velocity from the net vertical impulse before take-off, v² / 2g */
+  impulseJumpHeightCm: number | null;
+
+  /** Left/right leg load impulse difference during propulsion relative to their mean, in percent */
+  takeOffAsymmetry: number | null;
+
+  /** Peak vertical force of the landing in body weights */
+  landingPeakForceBw: number | null;
+
+  /** Rate of force development from touchdown to the landing peak, in body weights per second */
+  landingRfdBwPerS: number | null;
+
+  /** Largest knee frontal plane angle after touchdown relative to standing, worse side, in degrees */
+  kneeValgusDeg: number | null;
+
+  /** Landing score from 0 to 100, 100 when force, loading rate and valgus stay within their limits */
+  landingQuality: number | null;
+}
+
+/**
+ * Jump summary of a session
+ */
+export interface IJumpAnalysis {
+  /** Jumps since the session started */
+  jumpCount: number;
+
+  /** Sum of landing peak forces since the session started, in body weights */
+  cumulativeLandingLoadBw: number;
+
+  jumpHeightCm: number | null;
+
+  impulseJumpHeightCm: number | null;
+
+  takeOffAsymmetry: number | null;
+
+  landingPeakForceBw: number | null;
+
+  landingRfdBwPerS: number | null;
+
+  kneeValgusDeg: number | null;
+
+  /** Mean landing quality of the most recent landings */
+  landingQuality: number | null;
+
+  /** Recent jumps in take-off order */
+  jumps: IJump[];
+}
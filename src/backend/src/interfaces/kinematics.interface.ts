@@ -0,0 +1,121 @@
+/**
+ * @fileoverview TypeScript interface definitions for joint kinematics. Joint angles are
+ * computed from the relative orientation of the fused IMUs on the two segments a joint
+ * connects, and reported per side, joint and anatomical plane.
+ * @version 1.0.0
+ */
+
+import type { BodySegment, BodySide } from './garment.interface';
+
+/**
+ * Joint measured between two adjacent body segments
+ */
+export type JointName = 'hip' | 'knee' | 'ankle';
+
+/**
+ * Anatomical plane of a joint movement
+ */
+export type MotionPlane = 'sagittal' | 'frontal' | 'transverse';
+
+/**
+ * Joint movement measured as a positive angle
+ */
+export type JointMovement = 'flexion' | 'abduction' | 'dorsiflexion';
+
+/**
+ * Definition of a joint angle from the segments on either side of the joint
+ */
+export interface IJointDefinition {
+  joint: JointName;
+
+  plane: MotionPlane;
+
+  movement: JointMovement;
+
+  /** Segment closer to the trunk; the angle is measured in its frame */
+  proximal: BodySegment;
+
+  distal: BodySegment;
+
+  /** Multiplier turning the relative segment rotation into a positive movement angle, per side */
+  sign: { left: number; right: number };
+}
+
+/**
+ * Joint angle at one paired sample of the proximal and distal segments
+ */
+export interface IJointAngleSample {
+  timestamp: number;
+
+  /** Angle in degrees */
+  angle: number;
+}
+
+/**
+ * Time series of one joint angle
+ */
+export interface IJointAngleSeries {
+  /** Side, joint and movement, e.g. left_knee_flexion */
+  jointId: string;
+
+  joint: JointName;
+
+  side: Exclude<BodySide, 'center'>;
+
+  plane: MotionPlane;
+
+  movement: JointMovement;
+
+  samples: IJointAngleSample[];
+}
+
+/**
+ * Range of motion of one repetition, trough to trough
+ */
+export interface IJointRepetition {
+  start: number;
+
+  /** Time of the largest angle, where the movement turns */
+  peak: number;
+
+  end: number;
+
+  min: number;
+
+  max: number;
+
+  /** Range of motion in degrees */
+  rom: number;
+}
+
+/**
+ * Range of motion of a joint angle over the analysis window
+ */
+export interface IJointRangeOfMotion {
+  jointId: string;
+
+  joint: JointName;
+
+  side: Exclude<BodySide, 'center'>;
+
+  plane: MotionPlane;
+
+  movement: JointMovement;
+
+  /** Range of motion of the latest completed repetition, or of the window without repetitions */
+  current: number;
+
+  /** Smallest angle in the window */
+  min: number;
+
+  /** Largest angle in the window */
+  max: number;
+
+  /** Mean repetition range of motion in the window */
+  baseline: number;
+
+  /** Absolute difference of the latest repetition from the mean repetition */
+  deviation: number;
+
+  reps: IJointRepetition[];
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview TypeScript interface definitions for longitudinal training load. Each session's
+ * external load is accumulated from the athlete's trunk or pelvis accelerometer, and daily loads
+ * are rolled into acute and chronic loads, their ratio (ACWR), monotony and strain.
+ * @version 1.0.0
+ */
+
+/**
+ * How acute and chronic loads are averaged
+ *
+ * - ewma: exponentially weighted moving averages with decay 2 / (days + 1)
+ * - rolling: plain averages of the daily loads in each window
+ */
+export type TrainingLoadModel = 'ewma' | 'rolling';
+
+/**
+ * Whether the chronic load includes the acute window (coupled) or ends where it starts (uncoupled)
+ */
+export type TrainingLoadCoupling = 'coupled' | 'uncoupled';
+
+/**
+ * Acceptable ACWR range; ratios outside it raise training load alerts
+ */
+export interface IAcwrBand {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Options of a training load computation
+ */
+export interface ITrainingLoadOptions {
+  model: TrainingLoadModel;
+  coupling: TrainingLoadCoupling;
+}
+
+/**
+ * Training load query; unset options come from the team's settings, or the defaults without a team
+ */
+export interface ITrainingLoadQuery extends Partial<ITrainingLoadOptions> {
+  /** Team whose settings and ACWR band apply */
+  teamId?: string;
+
+  /** UTC day as YYYY-MM-DD, today when unset */
+  asOf?: string;
+}
+
+/**
+ * Training load settings of a team, stored under analyticsConfig.trainingLoad
+ */
+export interface ITeamTrainingLoadSettings extends ITrainingLoadOptions {
+  acwrBand: IAcwrBand;
+}
+
+/**
+ * External load of one session
+ */
+export interface ISessionLoad {
+  sessionId: string;
+
+  athleteId: string;
+
+  /** First and latest sample of the session that contributed load, as epoch milliseconds */
+  startTime: number;
+  endTime: number;
+
+  /** Accumulated accelerometer load in arbitrary units */
+  load: number;
+
+  /** Sensor the load was accumulated from */
+  sourceSensorId: string;
+}
+
+/**
+ * Summed session load of one UTC day
+ */
+export interface IDailyLoad {
+  /** UTC day as YYYY-MM-DD */
+  date: string;
+
+  load: number;
+}
+
+/**
+ * Daily load with the rolling loads as of the end of that day
+ */
+export interface ITrainingLoadDay extends IDailyLoad {
+  acute: number;
+  chronic: number;
+  acwr: number | null;
+}
+
+/**
+ * Training load of an athlete as of a day
+ */
+export interface IAthleteTrainingLoad {
+  athleteId: string;
+
+  /** UTC day the loads are computed for, as YYYY-MM-DD */
+  asOf: string;
+
+  model: TrainingLoadModel;
+
+  coupling: TrainingLoadCoupling;
+
+  /** Band the ACWR is judged against */
+  acwrBand: IAcwrBand;
+
+  /** Days from the athlete's first recorded load to asOf, inclusive; 0 without load */
+  historyDays: number;
+
+  acuteLoad: number;
+
+  chronicLoad: number;
+
+  /** Acute over chronic load, null while the chronic load is zero */
+  acwr: number | null;
+
+  /** Sum of the last 7 daily loads */
+  weeklyLoad: number;
+
+  /** Mean over standard deviation of the last 7 daily loads, null when they do not vary */
+  monotony: number | null;
+
+  /** Weekly load times monotony */
+  strain: number | null;
+
+  /** Recent days in date order */
+  series: ITrainingLoadDay[];
+}
+
+/**
+ * Training load of an athlete computed with one team's settings
+ */
+export interface ITeamTrainingLoad {
+  teamId: string;
+
+  load: IAthleteTrainingLoad;
+}
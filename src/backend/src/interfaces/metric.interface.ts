@@ -0,0 +1,58 @@
+/**
+ * @fileoverview TypeScript interface definitions for team-defined custom metrics. A custom metric
+ * is a formula over a session's metrics, evaluated by the analytics worker for every packet and
+ * compared with the metric's threshold.
+ * @version 1.0.0
+ */
+
+/**
+ * Which side of the threshold raises an alert
+ *
+ * - above: values over the threshold
+ * - below: values under the threshold
+ */
+export type CustomMetricDirection = 'above' | 'below';
+
+/**
+ * Custom metric definition stored in a team's analytics settings
+ */
+export interface ICustomMetricDefinition {
+  enabled: boolean;
+
+  /**
+   * Expression over session metric fields, for example
+   * `left(rangeOfMotion.knee_flexion.max) / right(rangeOfMotion.knee_flexion.max)` or
+   * `window_avg(performanceIndicators.efficiency.value, 60)`
+   */
+  formula: string;
+
+  threshold: number;
+
+  /** Defaults to above */
+  direction?: CustomMetricDirection;
+}
+
+/**
+ * Value of a custom metric for a session, shaped like a built-in performance indicator
+ */
+export interface ICustomMetricValue {
+  value: number;
+
+  /** Change since the metric's previous value in the session */
+  trend: number;
+
+  threshold: number;
+
+  direction: CustomMetricDirection;
+}
+
+/**
+ * Custom metric values of one of the athlete's teams, keyed by metric name
+ */
+export interface ITeamCustomMetrics {
+  teamId: string;
+
+  athleteId: string;
+
+  metrics: Record<string, ICustomMetricValue>;
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview TypeScript interface definitions for movement events. A session's sensor
+ * streams are segmented into strides, strength repetitions and jumps, each persisted with its
+ * phase timestamps and metrics so analytics can work per event instead of per sample.
+ * @version 1.0.0
+ */
+
+import type { BodySide } from './garment.interface';
+
+/**
+ * Kind of movement event
+ */
+export type MovementEventType = 'stride' | 'rep' | 'jump';
+
+/**
+ * Phase boundaries of a movement event, as epoch milliseconds
+ *
+ * - stride: footStrike, toeOff (when the segment orientation is known), nextFootStrike
+ * - rep: eccentricStart, concentricStart, concentricEnd
+ * - jump: takeOff, landing
+ */
+export type MovementEventPhases = Record<string, number>;
+
+/**
+ * One segmented movement event
+ */
+export interface IMovementEvent {
+  id: string;
+
+  sessionId: string;
+
+  /** Athlete wearing the sensor, when attributed */
+  athleteId: string | null;
+
+  type: MovementEventType;
+
+  /** Leg of a stride or joint side of a repetition; null for jumps */
+  side: Exclude<BodySide, 'center'> | null;
+
+  /** Sensor ID of strides and jumps, joint ID (e.g. left_knee_flexion) of repetitions */
+  source: string;
+
+  startTime: number;
+
+  endTime: number;
+
+  phases: MovementEventPhases;
+
+  /**
+   * Per-event metrics
+   *
+   * - stride: strideTimeMs, cadence (steps/min), peakImpactG, contactTimeMs and swingTimeMs
+   * - rep: romDeg, eccentricMs, concentricMs, concentricVelocity (deg/s)
+   * - jump: flightTimeMs, jumpHeightCm, landingPeakG
+   */
+  metrics: Record<string, number>;
+}
+
+/**
+ * Filter applied when listing a session's movement events
+ */
+export interface IMovementEventQuery {
+  type?: MovementEventType;
+
+  /** Events starting at or after this time */
+  from?: number;
+
+  /** Events starting at or before this time */
+  to?: number;
+}
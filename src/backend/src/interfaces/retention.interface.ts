@@ -0,0 +1,128 @@
+/**
+ * @fileoverview TypeScript interface definitions for tiered data retention.
+ * Session data stays hot in the database, is compressed once it leaves the hot tier,
+ * moves to the archive store when it reaches the cold tier, and is deleted when the
+ * cold tier expires. Archived sessions can be restored on demand.
+ * @version 1.0.0
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Where a session's data currently lives: in the database or only in the archive store
+ */
+export type SessionStorageTier = 'hot' | 'cold';
+
+/**
+ * Retention action taken for a session during a retention run
+ */
+export type RetentionAction = 'archive' | 'delete';
+
+/**
+ * Effective storage policy for a session, from its athlete's teams or DATA_RETENTION
+ */
+export interface IRetentionPolicy {
+  /** Days session data stays uncompressed */
+  hotDays: number;
+
+  /** Days after a session ends before its data is archived */
+  warmDays: number;
+
+  /** Years after a session ends before it is deleted */
+  coldYears: number;
+}
+
+/**
+ * Retention state of a stored session
+ */
+export interface ISessionRetention {
+  sessionId: string;
+
+  /** Time the session ended */
+  endTime: Date;
+
+  /** Current storage tier */
+  storageTier: SessionStorageTier;
+
+  /** Archive store key of the session's archive, once archived */
+  archiveKey: string | null;
+
+  /** Time the session's data was archived */
+  archivedAt: Date | null;
+
+  /** Restored data is kept in the database until this time */
+  restoredUntil: Date | null;
+
+  /** Effective storage policy */
+  policy: IRetentionPolicy;
+}
+
+/**
+ * Session selected for archiving or deletion by a retention run
+ */
+export interface IRetentionCandidate extends ISessionRetention {
+  action: RetentionAction;
+}
+
+/**
+ * Outcome of a retention run
+ */
+export interface IRetentionRunResult {
+  /** sensor_data chunks compressed during the run */
+  compressedChunks: number;
+
+  /** Sessions whose data was moved to the archive store */
+  archivedSessions: number;
+
+  /** Sessions deleted along with their archives */
+  deletedSessions: number;
+
+  /** Sessions that could not be processed; retried on the next run */
+  failures: Array<{ sessionId: string; action: RetentionAction; error: string }>;
+
+  startedAt: Date;
+  completedAt: Date;
+}
+
+/**
+ * Outcome of restoring an archived session
+ */
+export interface IRestoreResult {
+  sessionId: string;
+
+  /** Whether data was restored; false when the session's data was already in the database */
+  restored: boolean;
+
+  /** Rows restored per table */
+  rowCounts: Record<string, number>;
+
+  /** Restored data is kept in the database until this time */
+  restoredUntil: Date | null;
+}
+
+/**
+ * One line of a session archive: a row of an archived table
+ */
+export interface IArchiveRecord {
+  table: string;
+  row: Record<string, unknown>;
+}
+
+/**
+ * Storage backend for session archives. The local filesystem store stands in for object
+ * storage such as S3; implementations must make put atomic so a partially written archive
+ * is never read back.
+ */
+export interface IArchiveStore {
+  /** Writes an object, replacing any existing object with the same key */
+  put(key: string, data: Readable): Promise<void>;
+
+  /** Opens an object for reading; rejects if the object does not exist */
+  get(key: string): Promise<Readable>;
+
+  /** Deletes an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+
+  /** Checks whether an object exists */
+  exists(key: string): Promise<boolean>;
+}
@@ -5,6 +5,8 @@
  */
 
 import { SENSOR_TYPES, SENSOR_STATUS } from '../constants/sensor.constants';
+import type { ITemperatureCompensation, ITemperatureModel } from './calibration.interface';
+import type { ISensorPlacement } from './garment.interface';
 
 /**
  * Interface for sensor configuration and operational status
@@ -17,6 +19,8 @@ export interface ISensorConfig {
   type: SENSOR_TYPES;
   /** Sampling rate in Hz (IMU: 200Hz, ToF: 100Hz) */
   samplingRate: number;
+  /** Interpolation used to fill short sample gaps; defaults to linear */
+  gapInterpolation?: GapInterpolationMethod;
   /** Calibration parameters for sensor optimization */
   calibrationParams: ISensorCalibrationParams;
   /** Timestamp of last calibration */
@@ -27,7 +31,7 @@ export interface ISensorConfig {
   status: SENSOR_STATUS;
   /** Current firmware version */
   firmwareVersion: string;
-  /** Physical location on the garment */
+  /** Physical location on the garment; set to the placement location when the sensor is paired */
   location: string;
 }
 
@@ -48,6 +52,10 @@ export interface ISensorData {
   sessionId: string;
   /** Overall data quality score (0-100) */
   dataQuality: number;
+  /** Replay run that re-drove this packet; absent for live garment data */
+  replayId?: string;
+  /** Clock sync events pairing sensor timestamps with session (hub) timestamps */
+  syncEvents?: ISensorSyncEvent[];
 }
 
 /**
@@ -82,6 +90,121 @@ export interface ISensorMetadata {
   environmentalFactors: Record<string, number>;
   /** Processing latency in milliseconds */
   processingLatency: number;
+  /** Dropped-sample statistics from gap detection */
+  gapStats?: ISensorGapStats;
+  /** Temperature compensation applied before filtering */
+  temperatureCompensation?: ITemperatureCompensation;
+  /** Garment slot the sensor is paired to, resolved through the garment template */
+  placement?: ISensorPlacement;
+  /** Athlete the sensor was checked out to when the data was recorded */
+  athleteId?: string;
+  /** Fused IMU orientation, one sample per IMU reading */
+  orientation?: IOrientationEstimate;
+}
+
+/**
+ * Unit quaternion rotating vectors from the body frame into the world frame (z up)
+ */
+export interface IQuaternion {
+  w: number;
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * ZYX Euler angles in degrees
+ */
+export interface IEulerAngles {
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+/**
+ * Fused orientation at one IMU reading
+ */
+export interface IOrientationSample {
+  /** Timestamp of the IMU reading */
+  timestamp: number;
+  quaternion: IQuaternion;
+  euler: IEulerAngles;
+}
+
+/**
+ * Orientation fusion output of a processed IMU packet
+ */
+export interface IOrientationEstimate {
+  /** Body segment when the sensor's garment placement is known, otherwise the sensor itself */
+  frame: 'segment' | 'sensor';
+  /** Estimated gyro bias per axis in deg/s at the end of the packet */
+  gyroBias: number[];
+  /** Orientation samples in timestamp order */
+  samples: IOrientationSample[];
+}
+
+/**
+ * Interpolation strategies for filling short sample gaps
+ */
+export type GapInterpolationMethod = 'linear' | 'previous' | 'cubic';
+
+/**
+ * Interface for a detected gap between consecutive sensor readings
+ * Implements dropped-sample tracking for data completeness requirements
+ */
+export interface ISensorGap {
+  /** ID of the sensor with missing samples */
+  sensorId: string;
+  /** Type of the readings that were dropped */
+  type: SENSOR_TYPES;
+  /** Timestamp of the last reading before the gap */
+  start: number;
+  /** Timestamp of the first reading after the gap */
+  end: number;
+  /** Number of samples missing at the nominal sampling rate */
+  missingSamples: number;
+  /** Short jitter gaps are interpolated; dropouts are left empty */
+  classification: 'jitter' | 'dropout';
+  /** Whether the gap was filled with interpolated samples */
+  interpolated: boolean;
+}
+
+/**
+ * Interface for gap statistics of a processed sensor data packet
+ */
+export interface ISensorGapStats {
+  /** Samples expected at the nominal sampling rate */
+  expectedSamples: number;
+  /** Samples actually received */
+  receivedSamples: number;
+  /** Samples synthesized by interpolation */
+  interpolatedSamples: number;
+  /** Received samples as a fraction of expected samples (0-1) */
+  completeness: number;
+  /** Longest gap in milliseconds */
+  longestGapMs: number;
+  /** Detected gaps */
+  gaps: ISensorGap[];
+}
+
+/**
+ * Interface for a session's aggregated gap report
+ */
+export interface ISessionGapReport {
+  /** ID of the reported session */
+  sessionId: string;
+  /** Per-sensor gap totals */
+  sensors: Array<{
+    sensorId: string;
+    jitterGaps: number;
+    dropoutGaps: number;
+    missingSamples: number;
+    interpolatedSamples: number;
+    totalGapMs: number;
+    longestGapMs: number;
+  }>;
+  /** Dropout gaps ordered by start time */
+  dropouts: ISensorGap[];
 }
 
 /**
@@ -101,6 +224,235 @@ export interface ISensorCalibrationParams {
   filterCutoff: number;
   /** Sensor-specific calibration matrix */
   calibrationMatrix: number[][];
-  /** Temperature compensation factor */
+  /** Temperature compensation factor; mean fitted bias slope per °C when a model is present */
   temperatureCompensation: number;
-}
\ No newline at end of file
+  /** Fitted temperature-to-bias model, applied to readings before filtering */
+  temperatureModel?: ITemperatureModel | null;
+}
+
+/**
+ * Interface for a clock sync event pairing a sensor clock reading with the session clock
+ */
+export interface ISensorSyncEvent {
+  /** Timestamp on the sensor's own clock in milliseconds */
+  sensorTimestamp: number;
+  /** Same instant on the session (hub) clock in milliseconds */
+  sessionTimestamp: number;
+}
+
+/**
+ * Interface for a sensor's clock model relative to the session timeline
+ * Implements multi-sensor time alignment requirements
+ */
+export interface ISensorClockModel {
+  /** ID of the modelled sensor */
+  sensorId: string;
+  /** Offset in milliseconds added to sensor timestamps at the reference timestamp */
+  offsetMs: number;
+  /** Clock drift in parts per million relative to the session clock */
+  driftPpm: number;
+  /** Sensor timestamp that offset and drift are measured from */
+  referenceTimestamp: number;
+  /** How the model was estimated */
+  method: 'sync_events' | 'cross_correlation' | 'reference';
+  /** RMS residual of the fit in milliseconds */
+  residualMs: number;
+  /** Number of sync events or correlation windows used in the fit */
+  sampleCount: number;
+  /** Timestamp of the estimate */
+  estimatedAt: Date;
+}
+
+/**
+ * Lifecycle states of a backfill upload
+ */
+export type BackfillUploadStatus = 'receiving' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Interface for one chunk of a backfill upload of historical samples
+ */
+export interface IBackfillChunk {
+  /** Zero-based position of the chunk within the upload */
+  chunkIndex: number;
+  /** Buffered sensor data packets in the chunk */
+  packets: ISensorData[];
+  /** Optional SHA-256 hex digest of the packets, used to verify chunk integrity */
+  checksum?: string;
+}
+
+/**
+ * Interface for a chunked backfill upload of buffered garment data
+ * Implements offline buffering and backfill requirements
+ */
+export interface IBackfillUpload {
+  /** Unique upload identifier */
+  id: string;
+  /** Session the historical samples belong to */
+  sessionId: string;
+  /** Current lifecycle state */
+  status: BackfillUploadStatus;
+  /** Expected number of chunks, if announced by the client */
+  totalChunks: number | null;
+  /** Indexes of chunks stored so far */
+  receivedChunks: number[];
+  /** Packets received across all chunks */
+  packetsReceived: number;
+  /** Packets stored as new sensor data */
+  packetsInserted: number;
+  /** Packets skipped because they were already stored */
+  packetsDuplicate: number;
+  /** Earliest stored packet timestamp in milliseconds */
+  rangeStart: number | null;
+  /** Latest stored packet timestamp in milliseconds */
+  rangeEnd: number | null;
+  /** ID of the user who started the upload */
+  requestedBy: string;
+  /** Failure reason when status is failed */
+  error: string | null;
+  /** Creation timestamp */
+  createdAt: Date;
+  /** Last update timestamp */
+  updatedAt: Date;
+  /** Time after which an unfinished upload can no longer be resumed */
+  expiresAt: Date;
+}
+
+/**
+ * Interface for upload progress reported to clients
+ */
+export interface IBackfillProgress extends IBackfillUpload {
+  /** Percentage of announced chunks received, or null when the total is unknown */
+  percentComplete: number | null;
+  /** Announced chunks not yet received */
+  missingChunks: number[];
+  /** Next chunk index the client should send */
+  nextChunkIndex: number;
+  /** Opaque token for resuming the upload; only returned to the uploader */
+  resumeToken?: string;
+}
+
+/**
+ * Filter stages that can be chained in a filter profile
+ */
+export type FilterStageType = 'low_pass' | 'band_pass' | 'savitzky_golay' | 'kalman' | 'median';
+
+/**
+ * Interface for one stage of a filter chain, applied to each reading channel in order
+ */
+export interface IFilterStage {
+  /** Filter applied by the stage */
+  type: FilterStageType;
+  /** Cutoff frequency in Hz for low-pass stages */
+  cutoffHz?: number;
+  /** Lower and upper cutoff frequencies in Hz for band-pass stages */
+  lowCutoffHz?: number;
+  highCutoffHz?: number;
+  /** Number of cascaded second-order sections for low-pass and band-pass stages */
+  order?: number;
+  /** Odd window length in samples for Savitzky-Golay and median stages */
+  windowSize?: number;
+  /** Fitted polynomial order for Savitzky-Golay stages */
+  polynomialOrder?: number;
+  /** Process noise covariance (Q) for Kalman stages */
+  processNoise?: number;
+  /** Measurement noise covariance (R) for Kalman stages */
+  measurementNoise?: number;
+}
+
+/**
+ * Interface for a named filter profile with a filter chain per sensor type
+ * Implements per-sport signal conditioning requirements
+ */
+export interface IFilterProfile {
+  /** Unique profile name, e.g. "sprint" */
+  name: string;
+  /** Human-readable description of the profile's intended use */
+  description: string;
+  /** Version incremented whenever the profile's chains change */
+  version: number;
+  /** Filter chain applied to readings of each sensor type */
+  chains: Partial<Record<SENSOR_TYPES, IFilterStage[]>>;
+  /** Whether the profile is built in and cannot be modified */
+  builtIn: boolean;
+}
+
+/**
+ * Stored resolutions of sensor data: raw packets or a downsampled rollup bucket width
+ */
+export type SensorDataResolution = 'raw' | '1s' | '1m' | '1h';
+
+/**
+ * Interface for the aggregate values of a downsampled sensor data bucket
+ */
+export interface ISensorDataRollup {
+  /** Number of raw packets in the bucket */
+  packetCount: number;
+  /** Number of readings across the bucket's packets */
+  readingCount: number;
+  /** Lowest packet data quality in the bucket */
+  minQuality: number;
+  /** Highest packet data quality in the bucket */
+  maxQuality: number;
+  /** Aggregates of each reading value channel, in channel order */
+  channels: ISensorChannelAggregate[];
+}
+
+/**
+ * Interface for the aggregate values of one reading value channel over a bucket
+ */
+export interface ISensorChannelAggregate {
+  /** Channel index within the reading values */
+  channel: number;
+  /** Mean over every reading in the bucket */
+  avg: number;
+  /** Lowest value in the bucket */
+  min: number;
+  /** Highest value in the bucket */
+  max: number;
+}
+
+/**
+ * Interface for a time-range query over a sensor's stored data
+ */
+export interface ISensorDataQuery {
+  /** ID of the sensor to read */
+  sensorId: string;
+  /** Inclusive range start as a Unix timestamp in milliseconds */
+  start: number;
+  /** Inclusive range end as a Unix timestamp in milliseconds */
+  end: number;
+  /** Optional session to restrict the read to */
+  sessionId?: string;
+  /** Minimum (average) data quality of returned points */
+  minQuality?: number;
+  /** Reading types to return; all types when omitted */
+  types?: SENSOR_TYPES[];
+  /** Minimum reading confidence; bucket points are filtered on their mean confidence */
+  minConfidence?: number;
+  /** Exclusive lower bound continuing a previous read, as the timestamp of its last point */
+  after?: number;
+  /** Resolution to read; chosen from the range and point budget when 'auto' or omitted */
+  resolution?: SensorDataResolution | 'auto';
+  /** Maximum number of points to return */
+  maxPoints?: number;
+}
+
+/**
+ * Interface for sensor data read at a single resolution
+ */
+export interface ISensorDataSeries {
+  /** ID of the sensor the data belongs to */
+  sensorId: string;
+  /** Resolution the data was read at */
+  resolution: SensorDataResolution;
+  /** Bucket width in milliseconds; 0 for raw packets */
+  bucketMs: number;
+  /**
+   * Packets or bucket points in timestamp order. Bucket points carry the bucket start as
+   * their timestamp, a single reading of per-channel means, the latest packet's metadata and
+   * the average quality.
+   */
+  data: Array<ISensorData & { rollup?: ISensorDataRollup }>;
+  /** Whether more points matched than the point budget allowed */
+  truncated: boolean;
+}
@@ -5,8 +5,12 @@
  */
 
 import { UUID } from 'crypto'; // v1.0.0
-import { ISensorData } from './sensor.interface';
+import { ISensorData, ISensorClockModel, IFilterProfile } from './sensor.interface';
 import { IAthlete } from './athlete.interface';
+import { IJointRangeOfMotion } from './kinematics.interface';
+import { IGaitAnalysis } from './gait.interface';
+import { IJumpAnalysis } from './jump.interface';
+import { ICustomMetricValue } from './metric.interface';
 
 /**
  * Interface defining comprehensive real-time metrics with baseline comparisons
@@ -27,12 +31,14 @@ export interface ISessionMetrics {
     balance: number;
   }>;
 
-  /** Range of motion measurements with baseline deviation tracking */
-  rangeOfMotion: Record<string, {
-    current: number;
-    baseline: number;
-    deviation: number;
-  }>;
+  /** Joint ranges of motion keyed by side, joint and movement, e.g. left_knee_flexion */
+  rangeOfMotion: Record<string, IJointRangeOfMotion>;
+
+  /** Running gait over recent strides, present once the session has strides */
+  gait?: IGaitAnalysis;
+
+  /** Jump counts, landing load and recent jumps, present once the session has jumps */
+  jumps?: IJumpAnalysis;
 
   /** Anomaly detection scores with confidence levels */
   anomalyScores: Record<string, {
@@ -47,6 +53,9 @@ export interface ISessionMetrics {
     trend: number;
     threshold: number;
   }>;
+
+  /** Team-defined custom metrics keyed by team ID and metric name, present when the athlete's teams define them */
+  customMetrics?: Record<string, Record<string, ICustomMetricValue>>;
 }
 
 /**
@@ -75,6 +84,23 @@ export interface ISessionConfig {
     duration: number;
     granularity: string;
   };
+
+  /** Filter profile selection; the default profile is used when omitted */
+  filtering?: ISessionFilterConfig;
+}
+
+/**
+ * Interface for a session's filter profile selection
+ */
+export interface ISessionFilterConfig {
+  /** Name of the profile applied to all sensors */
+  profile: string;
+
+  /** Profile names overriding the session profile for individual sensors */
+  sensorOverrides?: Record<string, string>;
+
+  /** Snapshot of every selected profile taken at session start, so results stay reproducible */
+  profiles?: Record<string, IFilterProfile>;
 }
 
 /**
@@ -103,6 +129,9 @@ export interface ISession {
   /** Raw sensor data collection */
   sensorData: ISensorData[];
 
+  /** Per-sensor clock offsets aligning streams onto the session timeline */
+  timeAlignment?: ISessionTimeAlignment;
+
   /** Session status tracking */
   status: {
     current: string;
@@ -112,4 +141,60 @@ export interface ISession {
       timestamp: Date;
     }>;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for the time alignment of a session's sensor streams
+ */
+export interface ISessionTimeAlignment {
+  /** Sensor whose stream anchors cross-correlation estimates */
+  referenceSensorId: string;
+
+  /** Rate of the common resampled timeline in Hz */
+  timelineRate: number;
+
+  /** Clock model for each sensor in the session */
+  sensors: ISensorClockModel[];
+
+  /** Timestamp of the latest model update */
+  updatedAt: Date;
+}
+
+/**
+ * Interface for a replay run that re-drives a stored session's sensor data
+ * through the live processing pipeline
+ */
+export interface ISessionReplay {
+  /** Unique replay identifier, stamped on every replayed packet */
+  id: UUID;
+
+  /** Session whose stored sensor data is being replayed */
+  sessionId: UUID;
+
+  /** Playback multiplier relative to recorded time; null replays as fast as possible */
+  speed: number | null;
+
+  /** Current replay lifecycle state */
+  state: 'running' | 'paused' | 'stopped' | 'completed' | 'failed';
+
+  /** User who started the replay */
+  requestedBy: string;
+
+  /** Total stored packets for the session */
+  totalPackets: number;
+
+  /** Packets fed into the pipeline so far */
+  packetsReplayed: number;
+
+  /** Recorded timestamp of the most recently replayed packet */
+  lastPacketTimestamp: number | null;
+
+  /** Replay start timestamp */
+  startedAt: Date;
+
+  /** Timestamp when the replay stopped, completed or failed */
+  endedAt: Date | null;
+
+  /** Failure reason when state is failed */
+  error: string | null;
+}
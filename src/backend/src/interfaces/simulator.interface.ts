@@ -0,0 +1,71 @@
+/**
+ * @fileoverview TypeScript interface definitions for the synthetic garment simulator.
+ * The simulator generates IMU and ToF streams for virtual athletes performing an activity,
+ * with optional injected faults, so the ingest pipeline can be exercised without a garment.
+ * @version 1.0.0
+ */
+
+import { SENSOR_SIMULATOR } from '../constants/sensor.constants';
+import { IGarmentSlot } from './garment.interface';
+
+/**
+ * Activity performed by a virtual athlete
+ */
+export type SimulatedActivity = keyof typeof SENSOR_SIMULATOR.activities;
+
+/**
+ * Faults injected into a simulated stream
+ */
+export interface ISimulatorFaults {
+  /** Mean number of dropouts per sensor per minute; readings inside a dropout are not sent */
+  dropoutsPerMinute: number;
+
+  /** Gyroscope bias gained per minute in deg/s */
+  gyroDriftPerMinute: number;
+
+  /** ToF load offset gained per minute in kg */
+  loadDriftPerMinute: number;
+
+  /** Accelerometer range in g; readings beyond it are clipped. Null uses the full scale */
+  saturationG: number | null;
+
+  /** Reduction of right-side motion and load (0-1), e.g. 0.15 for a 15% deficit */
+  asymmetry: number;
+}
+
+/**
+ * Virtual athlete wearing a simulated garment
+ */
+export interface ISimulatedAthlete {
+  /** Athlete identifier; sensor IDs are derived from it and the slot IDs */
+  id: string;
+
+  sessionId: string;
+
+  activity: SimulatedActivity;
+
+  /** Garment slots the athlete's sensors sit in */
+  slots: IGarmentSlot[];
+
+  faults: ISimulatorFaults;
+
+  /** Seed of the athlete's random generator, so runs are reproducible */
+  seed: number;
+}
+
+/**
+ * Totals of a simulation run
+ */
+export interface ISimulatorStats {
+  athletes: number;
+
+  packets: number;
+
+  readings: number;
+
+  /** Readings withheld by injected dropouts */
+  droppedReadings: number;
+
+  /** Packets the sink failed to deliver */
+  failedPackets: number;
+}
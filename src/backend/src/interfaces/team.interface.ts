@@ -6,6 +6,8 @@
 
 import { UUID } from 'crypto'; // latest
 import { IAthlete } from './athlete.interface';
+import { ITeamTrainingLoadSettings } from './load.interface';
+import { ICustomMetricDefinition } from './metric.interface';
 
 /**
  * Interface defining comprehensive team-wide configuration settings
@@ -27,15 +29,17 @@ export interface ITeamSettings {
     realTimeWindow: number;
     aggregationPeriod: number;
     storagePolicy: {
+      /** Days session data stays uncompressed */
       hotStorage: number;
+      /** Days after a session ends before its data is moved to the archive store */
       warmStorage: number;
+      /** Years after a session ends before it is deleted along with its archive */
       coldStorage: number;
     };
-    customMetrics: Record<string, {
-      enabled: boolean;
-      formula: string;
-      threshold: number;
-    }>;
+    /** Custom metrics by name; formulas are validated when the settings are saved */
+    customMetrics: Record<string, ICustomMetricDefinition>;
+    /** Training load model and ACWR band; TRAINING_LOAD defaults apply when absent */
+    trainingLoad?: ITeamTrainingLoadSettings;
   };
 }
 
@@ -221,7 +221,8 @@ export class AlertService {
           trendAnalysis: this.analyzeTrend(anomaly),
           riskFactors: this.identifyRiskFactors(anomaly)
         },
-        confidenceScore: this.calculateConfidenceScore(anomaly, sensorData)
+        confidenceScore: this.calculateConfidenceScore(anomaly, sensorData),
+        replayId: sensorData.replayId
       });
     }
 
@@ -245,7 +246,8 @@ export class AlertService {
           trendAnalysis: this.analyzeTrend(violation),
           riskFactors: this.identifyRiskFactors(violation)
         },
-        confidenceScore: this.calculateConfidenceScore(violation, sensorData)
+        confidenceScore: this.calculateConfidenceScore(violation, sensorData),
+        replayId: sensorData.replayId
       });
     }
 
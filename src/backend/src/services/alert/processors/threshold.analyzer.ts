@@ -1,8 +1,13 @@
+import { randomUUID } from 'crypto';
 import { IAlert } from '../../../interfaces/alert.interface';
 import { ISensorData } from '../../../interfaces/sensor.interface';
+import { IJumpAnalysis } from '../../../interfaces/jump.interface';
+import { IAthleteTrainingLoad, ITeamTrainingLoad } from '../../../interfaces/load.interface';
+import { ICustomMetricValue, ITeamCustomMetrics } from '../../../interfaces/metric.interface';
 import { Logger } from '../../../utils/logger.util';
-import { ALERT_TYPES, ALERT_SEVERITY, ALERT_THRESHOLDS } from '../../../constants/alert.constants';
+import { ALERT_TYPES, ALERT_SEVERITY, ALERT_STATUS, ALERT_THRESHOLDS } from '../../../constants/alert.constants';
 import { PERFORMANCE_THRESHOLDS } from '../../../constants/system.constants';
+import { CUSTOM_METRICS, JUMP_ANALYSIS, TRAINING_LOAD } from '../../../constants/sensor.constants';
 
 /**
  * Advanced analyzer for real-time sensor data processing against dynamic thresholds
@@ -11,6 +16,9 @@ import { PERFORMANCE_THRESHOLDS } from '../../../constants/system.constants';
 export class ThresholdAnalyzer {
   private logger: Logger;
   private historicalReadings: Map<string, number[]>;
+  private jumpCounts: Map<string, number>;
+  private acwrStates: Map<string, 'low' | 'within' | 'high'>;
+  private customMetricBreaches: Map<string, boolean>;
   private readonly HISTORY_WINDOW_SIZE = 100;
   private readonly CONFIDENCE_THRESHOLD = 0.85; // 85% confidence requirement
   private readonly PROCESSING_LATENCY_THRESHOLD = PERFORMANCE_THRESHOLDS.MAX_LATENCY_MS;
@@ -21,6 +29,9 @@ export class ThresholdAnalyzer {
       sampling: true
     });
     this.historicalReadings = new Map();
+    this.jumpCounts = new Map();
+    this.acwrStates = new Map();
+    this.customMetricBreaches = new Map();
   }
 
   /**
@@ -88,6 +99,130 @@ export class ThresholdAnalyzer {
     }
   }
 
+  /**
+   * Analyzes landings once a session's jump analysis has measured new jumps. Landing quality
+   * alerts follow the mean over the most recent landings, so a single hard landing does not
+   * raise one, and the cumulative landing load alerts once when it crosses its limit.
+   * @param sensorData Sensor data packet the jump analysis was updated with
+   * @param jumps Jump analysis of the packet's session
+   * @returns Landing alerts raised by the newly measured jumps
+   */
+  public async analyzeLandingQuality(sensorData: ISensorData, jumps: IJumpAnalysis): Promise<IAlert[]> {
+    const alerts: IAlert[] = [];
+    // Replay runs count their jumps apart from the live session they re-drive
+    const key = sensorData.replayId ?? sensorData.sessionId;
+    const previousCount = this.jumpCounts.get(key) ?? 0;
+    if (jumps.jumpCount <= previousCount) {
+      return alerts;
+    }
+
+    // Maps iterate in insertion order, so the first key is the least recently started session
+    if (!this.jumpCounts.has(key) && this.jumpCounts.size >= JUMP_ANALYSIS.maxTrackedSessions) {
+      this.jumpCounts.delete(this.jumpCounts.keys().next().value as string);
+    }
+    this.jumpCounts.set(key, jumps.jumpCount);
+
+    const measured = jumps.jumps.slice(-(jumps.jumpCount - previousCount));
+    const recent = jumps.jumps.slice(-JUMP_ANALYSIS.qualityWindowJumps)
+      .filter(jump => jump.landingQuality !== null);
+    const qualityThreshold = ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_QUALITY;
+
+    if (recent.length === JUMP_ANALYSIS.qualityWindowJumps
+      && jumps.landingQuality !== null && jumps.landingQuality < qualityThreshold) {
+      // Confidence is the share of the recent landings that fell short on their own
+      const confidence = recent.filter(jump => jump.landingQuality! < qualityThreshold).length / recent.length;
+      if (confidence >= this.CONFIDENCE_THRESHOLD) {
+        alerts.push(this.createLandingAlert(
+          sensorData,
+          'LANDING_QUALITY',
+          'Poor landing quality over recent jumps',
+          jumps.landingQuality,
+          qualityThreshold,
+          confidence,
+          true
+        ));
+      }
+    }
+
+    const loadThreshold = ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_LOAD;
+    const previousLoad = jumps.cumulativeLandingLoadBw
+      - measured.reduce((sum, jump) => sum + (jump.landingPeakForceBw ?? 0), 0);
+    if (previousLoad < loadThreshold && jumps.cumulativeLandingLoadBw >= loadThreshold) {
+      alerts.push(this.createLandingAlert(
+        sensorData,
+        'LANDING_LOAD',
+        'Cumulative landing load limit reached',
+        jumps.cumulativeLandingLoadBw,
+        loadThreshold,
+        1
+      ));
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Analyzes an athlete's training load against each team's ACWR band. Alerts are raised when
+   * the ratio leaves the band, not again while it stays out, and only once the athlete has
+   * enough load history for the chronic load to be meaningful.
+   * @param sensorData Sensor data packet the session load was stored with
+   * @param loads Training load of the packet's athlete per team
+   * @returns Training load alerts, at most one per team
+   */
+  public async analyzeTrainingLoad(sensorData: ISensorData, loads: ITeamTrainingLoad[]): Promise<IAlert[]> {
+    const alerts: IAlert[] = [];
+
+    for (const { teamId, load } of loads) {
+      if (load.acwr === null || load.historyDays < TRAINING_LOAD.minHistoryDays) {
+        continue;
+      }
+
+      const key = `${load.athleteId}:${teamId}`;
+      const previous = this.acwrStates.get(key) ?? 'within';
+      const state = load.acwr > load.acwrBand.upper ? 'high' : load.acwr < load.acwrBand.lower ? 'low' : 'within';
+      if (!this.acwrStates.has(key) && this.acwrStates.size >= TRAINING_LOAD.maxTrackedAthletes) {
+        this.acwrStates.delete(this.acwrStates.keys().next().value as string);
+      }
+      this.acwrStates.set(key, state);
+
+      if (state !== 'within' && state !== previous) {
+        alerts.push(this.createTrainingLoadAlert(sensorData, teamId, load, state === 'low'));
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Analyzes team-defined custom metrics against their thresholds. Like ACWR alerts, a metric
+   * alerts when it crosses to the alerting side of its threshold during a session, and not again
+   * until it has come back.
+   * @param sensorData Sensor data packet the custom metrics were computed from
+   * @param teamMetrics Custom metric values of the packet's athlete per team
+   * @returns Custom metric alerts, at most one per team and metric
+   */
+  public async analyzeCustomMetrics(sensorData: ISensorData, teamMetrics: ITeamCustomMetrics[]): Promise<IAlert[]> {
+    const alerts: IAlert[] = [];
+
+    for (const { teamId, athleteId, metrics } of teamMetrics) {
+      for (const [name, metric] of Object.entries(metrics)) {
+        const key = `${sensorData.replayId ?? sensorData.sessionId}:${teamId}:${name}`;
+        const breached = metric.direction === 'below' ? metric.value < metric.threshold : metric.value > metric.threshold;
+        const previous = this.customMetricBreaches.get(key) ?? false;
+        if (!this.customMetricBreaches.has(key) && this.customMetricBreaches.size >= CUSTOM_METRICS.maxTrackedStates) {
+          this.customMetricBreaches.delete(this.customMetricBreaches.keys().next().value as string);
+        }
+        this.customMetricBreaches.set(key, breached);
+
+        if (breached && !previous) {
+          alerts.push(this.createCustomMetricAlert(sensorData, teamId, athleteId, name, metric));
+        }
+      }
+    }
+
+    return alerts;
+  }
+
   /**
    * Analyzes physiological metrics with fatigue estimation and recovery prediction
    * @param sensorData Incoming sensor data packet
@@ -147,10 +282,11 @@ export class ThresholdAnalyzer {
    * @param value Current metric value
    * @param threshold Configured threshold value
    * @param metricType Type of metric being analyzed
+   * @param minimum Whether the threshold is a minimum the value fell below
    * @returns Calculated severity with confidence score
    */
-  private determineAlertSeverity(value: number, threshold: number, metricType: string): ALERT_SEVERITY {
-    const deviationPercent = ((value - threshold) / threshold) * 100;
+  private determineAlertSeverity(value: number, threshold: number, metricType: string, minimum = false): ALERT_SEVERITY {
+    const deviationPercent = ((minimum ? threshold - value : value - threshold) / threshold) * 100;
     const historicalValues = this.historicalReadings.get(metricType) || [];
     
     // Calculate z-score for statistical significance
@@ -243,6 +379,127 @@ export class ThresholdAnalyzer {
     } as IAlert;
   }
 
+  /**
+   * Creates a landing alert for a session's jump analysis
+   */
+  private createLandingAlert(
+    sensorData: ISensorData,
+    metricType: string,
+    message: string,
+    value: number,
+    threshold: number,
+    confidence: number,
+    minimum = false
+  ): IAlert {
+    return {
+      id: randomUUID(),
+      type: ALERT_TYPES.BIOMECHANICAL,
+      severity: this.determineAlertSeverity(value, threshold, metricType, minimum),
+      status: ALERT_STATUS.ACTIVE,
+      sessionId: sensorData.sessionId,
+      timestamp: new Date(),
+      message,
+      details: {
+        threshold,
+        currentValue: value,
+        sensorData,
+        location: this.determineLocation(sensorData),
+        deviationPercentage: this.calculateDeviation(value, threshold, minimum),
+        // Landing limits are fixed rather than learned, so the limit is the reference
+        historicalBaseline: threshold,
+        trendAnalysis: { direction: minimum ? 'decreasing' : 'increasing', rate: 0, timeWindow: 0 },
+        relatedMetrics: new Map(),
+        riskFactors: [metricType]
+      },
+      confidenceScore: confidence,
+      ...(sensorData.replayId ? { replayId: sensorData.replayId } : {})
+    } as IAlert;
+  }
+
+  /**
+   * Creates a training load alert for an ACWR outside a team's band
+   */
+  private createTrainingLoadAlert(
+    sensorData: ISensorData,
+    teamId: string,
+    load: IAthleteTrainingLoad,
+    below: boolean
+  ): IAlert {
+    const threshold = below ? load.acwrBand.lower : load.acwrBand.upper;
+
+    return {
+      id: randomUUID(),
+      type: ALERT_TYPES.PERFORMANCE,
+      severity: this.determineAlertSeverity(load.acwr!, threshold, 'ACWR', below),
+      status: ALERT_STATUS.ACTIVE,
+      sessionId: sensorData.sessionId,
+      timestamp: new Date(),
+      message: below
+        ? 'Acute:chronic workload ratio below the team band'
+        : 'Acute:chronic workload ratio above the team band',
+      details: {
+        threshold,
+        currentValue: load.acwr!,
+        sensorData,
+        location: this.determineLocation(sensorData),
+        deviationPercentage: this.calculateDeviation(load.acwr!, threshold, below),
+        // A ratio of 1 is an acute load matching the chronic load
+        historicalBaseline: 1,
+        trendAnalysis: { direction: below ? 'decreasing' : 'increasing', rate: 0, timeWindow: 0 },
+        relatedMetrics: new Map([
+          ['acuteLoad', load.acuteLoad],
+          ['chronicLoad', load.chronicLoad]
+        ]),
+        riskFactors: ['ACWR'],
+        athleteId: load.athleteId,
+        teamId
+      },
+      confidenceScore: 1,
+      ...(sensorData.replayId ? { replayId: sensorData.replayId } : {})
+    } as IAlert;
+  }
+
+  /**
+   * Creates a custom metric alert for a value past a team's threshold
+   */
+  private createCustomMetricAlert(
+    sensorData: ISensorData,
+    teamId: string,
+    athleteId: string,
+    name: string,
+    metric: ICustomMetricValue
+  ): IAlert {
+    const below = metric.direction === 'below';
+
+    return {
+      id: randomUUID(),
+      type: ALERT_TYPES.PERFORMANCE,
+      severity: this.determineAlertSeverity(metric.value, metric.threshold, `CUSTOM:${name}`, below),
+      status: ALERT_STATUS.ACTIVE,
+      sessionId: sensorData.sessionId,
+      timestamp: new Date(),
+      message: below
+        ? `Custom metric ${name} below the team threshold`
+        : `Custom metric ${name} above the team threshold`,
+      details: {
+        threshold: metric.threshold,
+        currentValue: metric.value,
+        sensorData,
+        location: this.determineLocation(sensorData),
+        deviationPercentage: this.calculateDeviation(metric.value, metric.threshold, below),
+        // Team thresholds are set by hand, so the threshold is the reference
+        historicalBaseline: metric.threshold,
+        trendAnalysis: { direction: below ? 'decreasing' : 'increasing', rate: 0, timeWindow: 0 },
+        relatedMetrics: new Map([[name, metric.value]]),
+        riskFactors: [`CUSTOM:${name}`],
+        athleteId,
+        teamId
+      },
+      confidenceScore: 1,
+      ...(sensorData.replayId ? { replayId: sensorData.replayId } : {})
+    } as IAlert;
+  }
+
   /**
    * Creates a physiological alert with recovery recommendations
    */
@@ -278,6 +535,10 @@ export class ThresholdAnalyzer {
   }
 
   // Utility methods
+  private calculateDeviation(value: number, threshold: number, minimum = false): number {
+    return threshold === 0 ? 0 : ((minimum ? threshold - value : value - threshold) / Math.abs(threshold)) * 100;
+  }
+
   private calculateMean(values: number[]): number {
     return values.reduce((sum, val) => sum + val, 0) / values.length;
   }
@@ -303,7 +564,8 @@ export class ThresholdAnalyzer {
   }
 
   private determineLocation(sensorData: ISensorData): string {
-    return sensorData.metadata?.location || 'Unknown';
+    // Prefer the garment template placement over the legacy free-form location
+    return sensorData.metadata?.placement?.location || sensorData.metadata?.location || 'Unknown';
   }
 
   private generateRecoveryRecommendation(value: number, metricType: string): string {
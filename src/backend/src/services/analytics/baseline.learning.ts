@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Athlete baseline learning.
+ *
+ * - A session's features are read from its final metrics: each muscle's activity, each joint
+ *   movement's smallest and largest angle and mean repetition range of motion, and each body
+ *   segment's force magnitude and balance.
+ * - A baseline takes the median of each feature over the sessions learned from. Session values
+ *   further than BASELINE_LEARNING.outlierMads scaled median absolute deviations from the median
+ *   are rejected first, so a single unusual session does not shift the baseline.
+ * - Sessions starting in an injury period, or within the return-to-play period after it, are
+ *   left out.
+ *
+ * @version 1.0.0
+ */
+
+import { ISessionMetrics } from '../../interfaces/session.interface';
+import { IBaselineProfile, IBaselineSample, IBaselineStatistic, IInjuryPeriod } from '../../interfaces/baseline.interface';
+import { BASELINE_LEARNING } from '../../constants/sensor.constants';
+
+const DAY_MS = 86400000;
+
+/**
+ * Reads the baseline features of a session from its final metrics
+ * @param metrics - Session metrics
+ * @returns Finite feature values by key
+ */
+export function extractBaselineFeatures(metrics: Partial<ISessionMetrics>): Record<string, number> {
+    const features: Record<string, number> = {};
+    const set = (key: string, value: number | undefined) => {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            features[key] = value;
+        }
+    };
+
+    for (const [muscle, activity] of Object.entries(metrics.muscleActivity ?? {})) {
+        set(`muscle:${muscle}`, activity.current);
+    }
+    for (const [jointId, rom] of Object.entries(metrics.rangeOfMotion ?? {})) {
+        set(`rom:${jointId}:min`, rom.min);
+        set(`rom:${jointId}:max`, rom.max);
+        if (rom.reps.length > 0) {
+            set(`rom:${jointId}:rep`, rom.baseline);
+        }
+    }
+    for (const [segment, force] of Object.entries(metrics.forceDistribution ?? {})) {
+        set(`force:${segment}:magnitude`, force.magnitude);
+        set(`force:${segment}:balance`, force.balance);
+    }
+
+    return features;
+}
+
+/**
+ * Whether a time falls in an injury period or the return-to-play period after it
+ * @param time - Time checked
+ * @param injuries - Athlete's injury periods
+ */
+export function isInjured(time: Date, injuries: IInjuryPeriod[]): boolean {
+    return injuries.some(injury => time.getTime() >= new Date(injury.startDate).getTime()
+        && (injury.endDate === null
+            || time.getTime() <= new Date(injury.endDate).getTime() + BASELINE_LEARNING.returnToPlayDays * DAY_MS));
+}
+
+/**
+ * Median and median absolute deviation of values after rejecting outliers
+ * @param values - Session values of one feature
+ */
+export function robustStatistic(values: number[]): IBaselineStatistic {
+    const center = median(values);
+    const spread = median(values.map(value => Math.abs(value - center)));
+    const limit = BASELINE_LEARNING.outlierMads * BASELINE_LEARNING.madScale * spread;
+    // Without spread every value is the median, and nothing can be an outlier
+    const kept = spread > 0 ? values.filter(value => Math.abs(value - center) <= limit) : values;
+    const keptCenter = median(kept);
+
+    return {
+        median: keptCenter,
+        mad: median(kept.map(value => Math.abs(value - keptCenter))),
+        count: kept.length,
+        rejected: values.length - kept.length
+    };
+}
+
+/**
+ * Learns a baseline from session samples
+ * @param samples - Samples of the sessions learned from
+ * @param at - Time the baseline is learned
+ * @returns Baseline measurements and the statistics of each feature
+ */
+export function learnBaseline(
+    samples: IBaselineSample[],
+    at: Date
+): { baseline: IBaselineProfile; statistics: Record<string, IBaselineStatistic> } {
+    const values = new Map<string, number[]>();
+    for (const sample of samples) {
+        for (const [key, value] of Object.entries(sample.features)) {
+            values.set(key, [...(values.get(key) ?? []), value]);
+        }
+    }
+
+    const statistics: Record<string, IBaselineStatistic> = {};
+    for (const [key, featureValues] of values) {
+        statistics[key] = robustStatistic(featureValues);
+    }
+
+    const baseline: IBaselineProfile = {
+        muscleProfiles: {},
+        rangeOfMotion: {},
+        forceDistribution: {},
+        lastUpdated: at
+    };
+    for (const [key, statistic] of Object.entries(statistics)) {
+        const [kind, name, field] = key.split(':') as [string, string, string | undefined];
+        if (kind === 'muscle') {
+            baseline.muscleProfiles[name] = {
+                value: statistic.median,
+                timestamp: at,
+                confidence: confidence(statistic, samples.length)
+            };
+        } else if (kind === 'rom' && field === 'max') {
+            const min = statistics[`rom:${name}:min`]?.median ?? statistic.median;
+            baseline.rangeOfMotion[name] = {
+                min,
+                max: statistic.median,
+                optimal: statistics[`rom:${name}:rep`]?.median ?? statistic.median - min,
+                lastMeasured: at
+            };
+        } else if (kind === 'force' && field === 'magnitude') {
+            baseline.forceDistribution[name] = {
+                distribution: statistic.median,
+                symmetry: statistics[`force:${name}:balance`]?.median ?? 0,
+                timestamp: at
+            };
+        }
+    }
+
+    return { baseline, statistics };
+}
+
+/**
+ * Confidence in a feature's baseline, from the share of sessions that measured it and how
+ * consistently they did
+ */
+const confidence = (statistic: IBaselineStatistic, sessions: number): number => {
+    const coverage = statistic.count / Math.max(sessions, 1);
+    const variation = statistic.median !== 0
+        ? BASELINE_LEARNING.madScale * statistic.mad / Math.abs(statistic.median)
+        : 0;
+    return coverage / (1 + variation);
+};
+
+/**
+ * Median of values, 0 without values
+ */
+const median = (values: number[]): number => {
+    if (values.length === 0) {
+        return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
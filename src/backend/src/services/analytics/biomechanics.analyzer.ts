@@ -6,12 +6,13 @@
  * @version 1.0.0
  */
 
-import { ISensorData, ISensorCalibrationParams } from '../../interfaces/sensor.interface';
+import { ISensorData, ISensorCalibrationParams, IOrientationSample } from '../../interfaces/sensor.interface';
 import * as np from 'numpy'; // v1.24.0
 import * as pd from 'pandas'; // v2.1.0
 import { KMeans, IsolationForest } from 'scikit-learn'; // v1.3.0
 import * as winston from 'winston'; // v3.10.0
 import * as validator from 'validator'; // v13.11.0
+import { SensorTimeSynchronizer } from '../sensor/time.synchronizer';
 
 /**
  * Class responsible for analyzing biomechanical data from smart apparel sensors
@@ -23,17 +24,20 @@ export class BiomechanicsAnalyzer {
     private _calibrationParams: ISensorCalibrationParams;
     private _samplingWindow: number;
     private _logger: winston.Logger;
+    private _timeSynchronizer: SensorTimeSynchronizer;
 
     /**
      * Initializes the biomechanics analyzer with required parameters
      * @param calibrationParams - Sensor calibration parameters
      * @param samplingWindow - Data sampling window in milliseconds
      * @param logger - Winston logger instance
+     * @param timeSynchronizer - Shared synchronizer holding the pipeline's session clock models
      */
     constructor(
         calibrationParams: ISensorCalibrationParams,
         samplingWindow: number,
-        logger: winston.Logger
+        logger: winston.Logger,
+        timeSynchronizer: SensorTimeSynchronizer
     ) {
         // Validate input parameters
         if (!calibrationParams || !this.validateCalibrationParams(calibrationParams)) {
@@ -43,6 +47,7 @@ export class BiomechanicsAnalyzer {
         this._calibrationParams = calibrationParams;
         this._samplingWindow = samplingWindow;
         this._logger = logger;
+        this._timeSynchronizer = timeSynchronizer;
 
         // Initialize data structures
         this._muscleActivityBuffer = new Map();
@@ -127,6 +132,7 @@ export class BiomechanicsAnalyzer {
             const movementAnalysis = {
                 velocity: kinematicData.velocity,
                 acceleration: kinematicData.acceleration,
+                orientation: this.collectSegmentOrientations(imuData),
                 patterns: this.identifyMovementPatterns(kinematicData),
                 quality: np.mean(processedIMU.map(d => d.quality))
             };
@@ -154,8 +160,11 @@ export class BiomechanicsAnalyzer {
                 throw new Error('Invalid sensor data input');
             }
 
+            // Combine IMU and ToF readings sampled at the same session instant
+            const alignedData = this._timeSynchronizer.resampleToTimeline(sensorData);
+
             // Process force readings
-            const forceData = this.extractForceData(sensorData);
+            const forceData = this.extractForceData(alignedData.length ? alignedData : sensorData);
             const pressureMap = this.calculatePressureDistribution(forceData);
 
             // Analyze loading patterns
@@ -246,6 +255,30 @@ export class BiomechanicsAnalyzer {
         }
     }
 
+    /**
+     * Groups fused orientation samples by body location, or by sensor when a sensor is not
+     * paired to a garment slot
+     * @param imuData - Processed IMU data carrying orientation metadata
+     * @returns Orientation samples per location in timestamp order
+     */
+    private collectSegmentOrientations(imuData: ISensorData[]): Record<string, IOrientationSample[]> {
+        const orientations: Record<string, IOrientationSample[]> = {};
+
+        for (const data of imuData) {
+            const estimate = data.metadata?.orientation;
+            if (!estimate) {
+                continue;
+            }
+            const key = estimate.frame === 'segment' && data.metadata.placement
+                ? data.metadata.placement.location
+                : data.sensorId;
+            (orientations[key] ??= []).push(...estimate.samples);
+        }
+
+        Object.values(orientations).forEach(samples => samples.sort((a, b) => a.timestamp - b.timestamp));
+        return orientations;
+    }
+
     /**
      * Validates calibration parameters
      * @param params - Calibration parameters to validate
@@ -0,0 +1,591 @@
+/**
+ * @fileoverview Custom metric formulas. Teams define metrics as expressions over a session's
+ * metrics, which are parsed into a syntax tree once and evaluated for every packet without
+ * running any user code:
+ *
+ * - Numbers, arithmetic (+ - * / % ^), comparisons (< <= > >= == !=) and the logical operators
+ *   and, or and not. Comparisons and logical operators yield 1 or 0.
+ * - Field references into the session metrics, such as muscleActivity.quadriceps.current,
+ *   rangeOfMotion.left_knee_flexion.max or performanceIndicators.efficiency.value.
+ * - left(field) and right(field) prefix the field's second part with the side, so
+ *   left(rangeOfMotion.knee_flexion.max) reads rangeOfMotion.left_knee_flexion.max.
+ * - Functions abs, sqrt, round, min, max, clamp(value, lower, upper) and if(condition, then, else).
+ * - Window aggregates window_avg, window_sum, window_min, window_max and window_stddev of an
+ *   expression over the session's last seconds, e.g. window_avg(jumps.jumpCount, 60).
+ *
+ * A formula has no value for a packet when a field it reads is missing from the packet's
+ * metrics or the result is not finite, for example after a division by zero.
+ *
+ * @version 1.0.0
+ */
+
+import { ISessionMetrics } from '../../interfaces/session.interface';
+import { CustomMetricDirection, ICustomMetricDefinition } from '../../interfaces/metric.interface';
+import { CUSTOM_METRICS } from '../../constants/sensor.constants';
+
+/**
+ * Session metric fields a formula can reference
+ */
+export const METRIC_FIELDS: readonly string[] = [
+    'muscleActivity',
+    'forceDistribution',
+    'rangeOfMotion',
+    'gait',
+    'jumps',
+    'anomalyScores',
+    'performanceIndicators'
+];
+
+const DIRECTIONS: readonly CustomMetricDirection[] = ['above', 'below'];
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '<' | '<=' | '>' | '>=' | '==' | '!=' | 'and' | 'or';
+type WindowAggregate = 'window_avg' | 'window_sum' | 'window_min' | 'window_max' | 'window_stddev';
+
+type FormulaNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'field'; path: string[] }
+    | { kind: 'unary'; operator: '-' | 'not'; operand: FormulaNode }
+    | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: string; args: FormulaNode[] }
+    | { kind: 'window'; aggregate: WindowAggregate; operand: FormulaNode; seconds: number; slot: number };
+
+type FieldNode = Extract<FormulaNode, { kind: 'field' }>;
+type WindowNode = Extract<FormulaNode, { kind: 'window' }>;
+
+interface Token {
+    type: 'number' | 'name' | 'operator' | 'end';
+    text: string;
+    position: number;
+}
+
+/**
+ * Scalar functions with their argument counts
+ */
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; apply: (args: number[]) => number }> = {
+    abs: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.abs(value!) },
+    sqrt: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.sqrt(value!) },
+    round: { minArgs: 1, maxArgs: 1, apply: ([value]) => Math.round(value!) },
+    min: { minArgs: 2, maxArgs: Infinity, apply: args => Math.min(...args) },
+    max: { minArgs: 2, maxArgs: Infinity, apply: args => Math.max(...args) },
+    clamp: { minArgs: 3, maxArgs: 3, apply: ([value, lower, upper]) => Math.min(Math.max(value!, lower!), upper!) }
+};
+
+/**
+ * Window aggregates over the values kept in the window
+ */
+const AGGREGATES: Record<WindowAggregate, (values: number[]) => number> = {
+    window_avg: values => values.reduce((sum, value) => sum + value, 0) / values.length,
+    window_sum: values => values.reduce((sum, value) => sum + value, 0),
+    window_min: values => Math.min(...values),
+    window_max: values => Math.max(...values),
+    window_stddev: values => {
+        const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+        return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    }
+};
+
+const COMPARISONS: readonly string[] = ['<', '<=', '>', '>=', '==', '!='];
+
+/**
+ * Values an aggregate has seen in its window
+ */
+export type FormulaWindows = Array<Array<{ time: number; value: number }>>;
+
+/**
+ * Parsed custom metric formula
+ */
+export class CustomMetricFormula {
+    private constructor(
+        public readonly source: string,
+        private readonly _root: FormulaNode,
+        private readonly _windows: WindowNode[]
+    ) {}
+
+    /**
+     * Parses a formula
+     * @param source - Formula text
+     * @throws Error describing the first problem found
+     */
+    public static parse(source: string): CustomMetricFormula {
+        if (typeof source !== 'string' || source.trim() === '') {
+            throw new Error('Formula is required');
+        }
+        if (source.length > CUSTOM_METRICS.maxFormulaLength) {
+            throw new Error(`Formula must be at most ${CUSTOM_METRICS.maxFormulaLength} characters`);
+        }
+
+        const parser = new FormulaParser(tokenize(source));
+        const root = parser.parse();
+        return new CustomMetricFormula(source, root, parser.windows);
+    }
+
+    /**
+     * Empty window state for the formula's aggregates
+     */
+    public createWindows(): FormulaWindows {
+        return this._windows.map(() => []);
+    }
+
+    /**
+     * Evaluates the formula against a packet's metrics. Every aggregate first adds its
+     * expression's value at the packet time to its window, whichever branch the result takes.
+     * @param metrics - Session metrics of the packet
+     * @param time - Packet time in milliseconds
+     * @param windows - Window state from createWindows, updated in place
+     * @returns Value, or null when a field is missing or the result is not finite
+     */
+    public evaluate(metrics: Partial<ISessionMetrics>, time: number, windows: FormulaWindows): number | null {
+        for (const node of this._windows) {
+            const window = windows[node.slot]!;
+            const value = evaluateNode(node.operand, metrics, windows);
+            if (value !== null) {
+                window.push({ time, value });
+            }
+
+            const start = time - node.seconds * 1000;
+            while (window.length > 0 && (window[0]!.time < start || window.length > CUSTOM_METRICS.maxWindowSamples)) {
+                window.shift();
+            }
+        }
+
+        return evaluateNode(this._root, metrics, windows);
+    }
+}
+
+/**
+ * Custom metric values of one session, keeping each metric's window state and previous value
+ */
+export class CustomMetricTracker {
+    private readonly _states: Map<string, { formula: CustomMetricFormula; windows: FormulaWindows; previous: number | null }>;
+
+    constructor() {
+        this._states = new Map();
+    }
+
+    /**
+     * Evaluates a metric for a packet. A metric whose formula changed starts over.
+     * @param key - Metric key, unique within the session
+     * @param formula - Metric formula
+     * @param metrics - Session metrics of the packet
+     * @param time - Packet time in milliseconds
+     * @returns Value and change since the metric's previous value, or null without a value
+     */
+    public evaluate(
+        key: string,
+        formula: CustomMetricFormula,
+        metrics: Partial<ISessionMetrics>,
+        time: number
+    ): { value: number; trend: number } | null {
+        let state = this._states.get(key);
+        if (!state || state.formula.source !== formula.source) {
+            state = { formula, windows: formula.createWindows(), previous: null };
+            this._states.set(key, state);
+        }
+
+        const value = formula.evaluate(metrics, time, state.windows);
+        if (value === null) {
+            return null;
+        }
+        const trend = state.previous === null ? 0 : value - state.previous;
+        state.previous = value;
+        return { value, trend };
+    }
+}
+
+/**
+ * Validates a team's custom metric definitions
+ * @param definitions - Custom metrics by name
+ * @throws Error naming the metric and its problem
+ */
+export function validateCustomMetrics(definitions: unknown): void {
+    if (definitions === undefined || definitions === null) {
+        return;
+    }
+    if (typeof definitions !== 'object' || Array.isArray(definitions)) {
+        throw new Error('Custom metrics must be an object keyed by metric name');
+    }
+
+    const entries = Object.entries(definitions as Record<string, ICustomMetricDefinition>);
+    if (entries.length > CUSTOM_METRICS.maxMetricsPerTeam) {
+        throw new Error(`A team can define at most ${CUSTOM_METRICS.maxMetricsPerTeam} custom metrics`);
+    }
+
+    for (const [name, definition] of entries) {
+        if (!NAME_PATTERN.test(name) || name.length > CUSTOM_METRICS.maxNameLength) {
+            throw new Error(`Custom metric name "${name}" must start with a letter, contain only letters, digits and underscores, and be at most ${CUSTOM_METRICS.maxNameLength} characters`);
+        }
+        if (typeof definition !== 'object' || definition === null) {
+            throw new Error(`Custom metric ${name} must be an object`);
+        }
+        if (typeof definition.enabled !== 'boolean') {
+            throw new Error(`Custom metric ${name}: enabled must be a boolean`);
+        }
+        if (typeof definition.threshold !== 'number' || !Number.isFinite(definition.threshold)) {
+            throw new Error(`Custom metric ${name}: threshold must be a finite number`);
+        }
+        if (definition.direction !== undefined && !DIRECTIONS.includes(definition.direction)) {
+            throw new Error(`Custom metric ${name}: direction must be one of ${DIRECTIONS.join(', ')}`);
+        }
+        try {
+            CustomMetricFormula.parse(definition.formula);
+        } catch (error) {
+            throw new Error(`Custom metric ${name}: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Splits a formula into tokens
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:(\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|(<=|>=|==|!=|[-+*/%^<>().,]))/y;
+
+    let position = 0;
+    while (position < source.length) {
+        if (/^\s*$/.test(source.slice(position))) {
+            break;
+        }
+        pattern.lastIndex = position;
+        const match = pattern.exec(source);
+        if (!match) {
+            const offset = position + (source.slice(position).length - source.slice(position).trimStart().length);
+            throw new Error(`Unexpected character "${source[offset]}" at position ${offset + 1}`);
+        }
+        const text = match[1] ?? match[2] ?? match[3]!;
+        const start = pattern.lastIndex - text.length;
+        tokens.push({ type: match[1] ? 'number' : match[2] ? 'name' : 'operator', text, position: start + 1 });
+        position = pattern.lastIndex;
+    }
+
+    tokens.push({ type: 'end', text: 'end of formula', position: source.length + 1 });
+    return tokens;
+}
+
+/**
+ * Recursive descent parser; operators bind, loosest first: or, and, not, comparisons, + -,
+ * * / %, unary minus, ^ (right associative)
+ */
+class FormulaParser {
+    public readonly windows: WindowNode[] = [];
+    private _index = 0;
+    private _nodes = 0;
+    private _inWindow = false;
+
+    constructor(private readonly _tokens: Token[]) {}
+
+    public parse(): FormulaNode {
+        const root = this.or();
+        const token = this.peek();
+        if (token.type !== 'end') {
+            throw new Error(`Unexpected "${token.text}" at position ${token.position}`);
+        }
+        return root;
+    }
+
+    private or(): FormulaNode {
+        let node = this.and();
+        while (this.accept('name', 'or')) {
+            node = this.node({ kind: 'binary', operator: 'or', left: node, right: this.and() });
+        }
+        return node;
+    }
+
+    private and(): FormulaNode {
+        let node = this.not();
+        while (this.accept('name', 'and')) {
+            node = this.node({ kind: 'binary', operator: 'and', left: node, right: this.not() });
+        }
+        return node;
+    }
+
+    private not(): FormulaNode {
+        if (this.accept('name', 'not')) {
+            return this.node({ kind: 'unary', operator: 'not', operand: this.not() });
+        }
+        return this.comparison();
+    }
+
+    private comparison(): FormulaNode {
+        const node = this.additive();
+        const token = this.peek();
+        if (token.type === 'operator' && COMPARISONS.includes(token.text)) {
+            this._index++;
+            return this.node({ kind: 'binary', operator: token.text as BinaryOperator, left: node, right: this.additive() });
+        }
+        return node;
+    }
+
+    private additive(): FormulaNode {
+        let node = this.term();
+        for (let token = this.peek(); token.type === 'operator' && (token.text === '+' || token.text === '-'); token = this.peek()) {
+            this._index++;
+            node = this.node({ kind: 'binary', operator: token.text, left: node, right: this.term() });
+        }
+        return node;
+    }
+
+    private term(): FormulaNode {
+        let node = this.unary();
+        for (let token = this.peek(); token.type === 'operator' && ['*', '/', '%'].includes(token.text); token = this.peek()) {
+            this._index++;
+            node = this.node({ kind: 'binary', operator: token.text as BinaryOperator, left: node, right: this.unary() });
+        }
+        return node;
+    }
+
+    private unary(): FormulaNode {
+        if (this.accept('operator', '-')) {
+            return this.node({ kind: 'unary', operator: '-', operand: this.unary() });
+        }
+        return this.power();
+    }
+
+    private power(): FormulaNode {
+        const node = this.primary();
+        if (this.accept('operator', '^')) {
+            return this.node({ kind: 'binary', operator: '^', left: node, right: this.unary() });
+        }
+        return node;
+    }
+
+    private primary(): FormulaNode {
+        const token = this.next();
+
+        if (token.type === 'number') {
+            return this.node({ kind: 'number', value: Number(token.text) });
+        }
+        if (token.type === 'operator' && token.text === '(') {
+            const node = this.or();
+            this.expect(')');
+            return node;
+        }
+        if (token.type !== 'name' || ['and', 'or', 'not'].includes(token.text)) {
+            throw new Error(`Unexpected "${token.text}" at position ${token.position}`);
+        }
+        if (this.peek().text === '(') {
+            this._index++;
+            return this.call(token);
+        }
+        return this.field(token);
+    }
+
+    /**
+     * Parses a dotted field reference starting with an already read name
+     */
+    private field(first: Token): FieldNode {
+        if (!METRIC_FIELDS.includes(first.text)) {
+            throw new Error(`Unknown field "${first.text}" at position ${first.position}; fields start with one of ${METRIC_FIELDS.join(', ')}`);
+        }
+        const path = [first.text];
+        while (this.accept('operator', '.')) {
+            const part = this.next();
+            if (part.type !== 'name' && part.type !== 'number') {
+                throw new Error(`Expected a field name at position ${part.position}`);
+            }
+            path.push(part.text);
+        }
+        if (path.length < 2) {
+            throw new Error(`Field "${first.text}" at position ${first.position} must name a metric, e.g. ${first.text}.<name>`);
+        }
+        return this.node({ kind: 'field', path }) as FieldNode;
+    }
+
+    /**
+     * Parses the arguments of a function whose name and opening parenthesis were read
+     */
+    private call(name: Token): FormulaNode {
+        if (name.text === 'left' || name.text === 'right') {
+            const argument = this.next();
+            const field = argument.type === 'name' && this.peek().text !== '(' ? this.field(argument) : null;
+            if (!field || field.path.length < 3) {
+                throw new Error(`${name.text}() at position ${name.position} takes a field with a side-specific name, e.g. ${name.text}(rangeOfMotion.knee_flexion.max)`);
+            }
+            this.expect(')');
+            field.path[1] = `${name.text}_${field.path[1]}`;
+            return field;
+        }
+
+        if (Object.hasOwn(AGGREGATES, name.text)) {
+            if (this._inWindow) {
+                throw new Error(`${name.text}() at position ${name.position} cannot be nested in another window aggregate`);
+            }
+            this._inWindow = true;
+            const operand = this.or();
+            this._inWindow = false;
+            this.expect(',');
+            const seconds = this.next();
+            this.expect(')');
+            const value = Number(seconds.text);
+            if (seconds.type !== 'number' || value <= 0 || value > CUSTOM_METRICS.maxWindowSeconds) {
+                throw new Error(`${name.text}() at position ${name.position} takes a window of 0 to ${CUSTOM_METRICS.maxWindowSeconds} seconds as a number`);
+            }
+            const node = this.node({
+                kind: 'window',
+                aggregate: name.text as WindowAggregate,
+                operand,
+                seconds: value,
+                slot: this.windows.length
+            }) as WindowNode;
+            this.windows.push(node);
+            return node;
+        }
+
+        const args: FormulaNode[] = [];
+        if (!this.accept('operator', ')')) {
+            do {
+                args.push(this.or());
+            } while (this.accept('operator', ','));
+            this.expect(')');
+        }
+
+        if (name.text === 'if') {
+            if (args.length !== 3) {
+                throw new Error(`if() at position ${name.position} takes a condition, a value and an alternative`);
+            }
+            return this.node({ kind: 'call', name: 'if', args });
+        }
+        const fn = Object.hasOwn(FUNCTIONS, name.text) ? FUNCTIONS[name.text] : undefined;
+        if (!fn) {
+            throw new Error(`Unknown function "${name.text}" at position ${name.position}`);
+        }
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+            throw new Error(`${name.text}() at position ${name.position} takes ${fn.minArgs === fn.maxArgs ? fn.minArgs : `at least ${fn.minArgs}`} argument${fn.minArgs === 1 ? '' : 's'}`);
+        }
+        return this.node({ kind: 'call', name: name.text, args });
+    }
+
+    /**
+     * Counts a parsed node against the formula size limit
+     */
+    private node(node: FormulaNode): FormulaNode {
+        if (++this._nodes > CUSTOM_METRICS.maxFormulaNodes) {
+            throw new Error(`Formula must have at most ${CUSTOM_METRICS.maxFormulaNodes} terms`);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this._tokens[this._index]!;
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.type !== 'end') {
+            this._index++;
+        }
+        return token;
+    }
+
+    private accept(type: Token['type'], text: string): boolean {
+        const token = this.peek();
+        if (token.type === type && token.text === text) {
+            this._index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(text: string): void {
+        const token = this.next();
+        if (token.text !== text || token.type !== 'operator') {
+            throw new Error(`Expected "${text}" at position ${token.position}`);
+        }
+    }
+}
+
+/**
+ * Evaluates a node; null when a field is missing or a value is not finite
+ */
+function evaluateNode(node: FormulaNode, metrics: Partial<ISessionMetrics>, windows: FormulaWindows): number | null {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+
+        case 'field': {
+            let value: unknown = metrics;
+            for (const part of node.path) {
+                value = value !== null && typeof value === 'object' && Object.hasOwn(value, part)
+                    ? (value as Record<string, unknown>)[part]
+                    : undefined;
+            }
+            return typeof value === 'number' && Number.isFinite(value) ? value : null;
+        }
+
+        case 'unary': {
+            const operand = evaluateNode(node.operand, metrics, windows);
+            if (operand === null) {
+                return null;
+            }
+            return node.operator === '-' ? -operand : operand === 0 ? 1 : 0;
+        }
+
+        case 'binary': {
+            const left = evaluateNode(node.left, metrics, windows);
+            if (left === null) {
+                return null;
+            }
+            // Logical operators skip their right side once the left decides the result
+            if (node.operator === 'and' && left === 0) {
+                return 0;
+            }
+            if (node.operator === 'or' && left !== 0) {
+                return 1;
+            }
+            const right = evaluateNode(node.right, metrics, windows);
+            return right === null ? null : finite(applyOperator(node.operator, left, right));
+        }
+
+        case 'call': {
+            if (node.name === 'if') {
+                const condition = evaluateNode(node.args[0]!, metrics, windows);
+                if (condition === null) {
+                    return null;
+                }
+                return evaluateNode(node.args[condition !== 0 ? 1 : 2]!, metrics, windows);
+            }
+            const args: number[] = [];
+            for (const arg of node.args) {
+                const value = evaluateNode(arg, metrics, windows);
+                if (value === null) {
+                    return null;
+                }
+                args.push(value);
+            }
+            return finite(FUNCTIONS[node.name]!.apply(args));
+        }
+
+        case 'window': {
+            const values = windows[node.slot]!.map(sample => sample.value);
+            return values.length > 0 ? finite(AGGREGATES[node.aggregate](values)) : null;
+        }
+    }
+}
+
+/**
+ * Applies a binary operator; comparisons and logical operators yield 1 or 0
+ */
+function applyOperator(operator: BinaryOperator, left: number, right: number): number {
+    switch (operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '^': return left ** right;
+        case '<': return Number(left < right);
+        case '<=': return Number(left <= right);
+        case '>': return Number(left > right);
+        case '>=': return Number(left >= right);
+        case '==': return Number(left === right);
+        case '!=': return Number(left !== right);
+        case 'and': return Number(right !== 0);
+        case 'or': return Number(right !== 0);
+    }
+}
+
+/**
+ * The value, or null when it is not finite
+ */
+const finite = (value: number): number | null => Number.isFinite(value) ? value : null;
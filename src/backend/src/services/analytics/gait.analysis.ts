@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Running gait analysis. Strides segmented from the leg IMUs are measured once the
+ * session's other sensors cover them:
+ *
+ * - Ground contact time comes from a foot or shank ToF sensor on the stride's leg, as the span
+ *   its load stays above a fraction of the stride's load range, and otherwise from the IMU
+ *   toe-off of the stride.
+ * - Flight time is the rest of the step: half the stride time less the contact time.
+ * - Vertical oscillation double-integrates the pelvis IMU's vertical acceleration over the
+ *   stride, removing the drift of each integration by assuming the stride is periodic.
+ * - Stride length is estimated from the vertical oscillation with the inverted pendulum model,
+ *   step length = 2 * sqrt(2 * legLength * h - h^2).
+ *
+ * Strides are summarized over a window of recent strides, and each metric's trend is the
+ * relative change of the window's later half against its earlier half. Contact time asymmetry is
+ * already a ratio close to zero, so its trend is the absolute change.
+ *
+ * @version 1.0.0
+ */
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { IMovementEvent } from '../../interfaces/movement.interface';
+import { IGaitAnalysis, IGaitStride } from '../../interfaces/gait.interface';
+import { GAIT_ANALYSIS, GRAVITY_MS2, IMU_CHANNELS, SENSOR_TYPES } from '../../constants/sensor.constants';
+import { multiplyQuaternions, quaternionFromEuler, rotateVector } from '../sensor/orientation.fusion';
+
+/**
+ * Stride fields the tracker reads from a movement event
+ */
+export type GaitStrideEvent = Pick<IMovementEvent, 'type' | 'side' | 'startTime' | 'endTime' | 'metrics'>;
+
+/**
+ * Time series of one sensor
+ */
+interface SampleHistory {
+    sensorId: string;
+    samples: Array<{ timestamp: number; value: number }>;
+}
+
+type GaitMetric = Exclude<keyof IGaitAnalysis, 'strideCount' | 'strides'>;
+
+const TOF_SEGMENTS: readonly string[] = ['foot', 'shank'];
+const RATIO_METRICS: readonly GaitMetric[] = ['contactTimeAsymmetry'];
+
+/**
+ * Summaries of each gait metric over a list of strides
+ */
+const GAIT_METRICS: Record<GaitMetric, (strides: IGaitStride[]) => number | null> = {
+    cadence: strides => mean(strides.map(stride => stride.cadence)),
+    groundContactTimeMs: strides => mean(strides.map(stride => stride.groundContactTimeMs)),
+    flightTimeMs: strides => mean(strides.map(stride => stride.flightTimeMs)),
+    strideLengthM: strides => mean(strides.map(stride => stride.strideLengthM)),
+    verticalOscillationCm: strides => mean(strides.map(stride => stride.verticalOscillationCm)),
+    contactTimeAsymmetry: strides => {
+        const left = mean(strides.filter(stride => stride.side === 'left').map(stride => stride.groundContactTimeMs));
+        const right = mean(strides.filter(stride => stride.side === 'right').map(stride => stride.groundContactTimeMs));
+        return left !== null && right !== null && left + right > 0 ? Math.abs(left - right) / ((left + right) / 2) : null;
+    }
+};
+
+/**
+ * Collects one session's strides, pelvis accelerations and leg loads, and measures gait
+ */
+export class GaitTracker {
+    private _pelvis: SampleHistory | null = null;
+    private readonly _loads: Map<'left' | 'right', SampleHistory>;
+    private _pending: GaitStrideEvent[] = [];
+    private _strides: IGaitStride[] = [];
+    private _latest = -Infinity;
+
+    constructor() {
+        this._loads = new Map();
+    }
+
+    /**
+     * Adds a processed packet and the movement events it completed
+     * @param data - Processed sensor data
+     * @param events - Movement events completed by the packet; only strides are used
+     */
+    public add(data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'>, events: GaitStrideEvent[] = []): void {
+        const placement = data.metadata?.placement;
+        const readings = data.readings ?? [];
+        if (readings.length > 0) {
+            this._latest = Math.max(this._latest, readings[readings.length - 1]!.timestamp);
+        }
+
+        if (placement?.segment === 'pelvis' && data.metadata.orientation) {
+            const mounting = quaternionFromEuler(data.metadata.orientation.frame === 'segment'
+                ? placement.orientation
+                : { roll: 0, pitch: 0, yaw: 0 });
+            const orientations = new Map(data.metadata.orientation.samples.map(sample => [sample.timestamp, sample.quaternion]));
+            const samples = readings
+                .filter(reading => reading.type === SENSOR_TYPES.IMU && orientations.has(reading.timestamp))
+                .map(reading => {
+                    // Segment orientation times the mounting rotation gives the sensor's orientation
+                    const sensor = multiplyQuaternions(orientations.get(reading.timestamp)!, mounting);
+                    const accel = rotateVector(sensor, IMU_CHANNELS.accel.map(channel => reading.value[channel] ?? 0));
+                    return { timestamp: reading.timestamp, value: accel[2]! - GRAVITY_MS2 };
+                });
+            this._pelvis = this.append(this._pelvis, data.sensorId, samples);
+        }
+
+        if (placement && placement.side !== 'center' && TOF_SEGMENTS.includes(placement.segment)) {
+            const samples = readings
+                .filter(reading => reading.type === SENSOR_TYPES.TOF)
+                .map(reading => ({ timestamp: reading.timestamp, value: reading.value[0] ?? 0 }));
+            if (samples.length > 0) {
+                this._loads.set(placement.side, this.append(this._loads.get(placement.side) ?? null, data.sensorId, samples)!);
+            }
+        }
+
+        this._pending.push(...events.filter(event => event.type === 'stride' && event.side));
+        this.resolve();
+    }
+
+    /**
+     * Gait summary over the window of recent strides
+     */
+    public analysis(): IGaitAnalysis {
+        const summary = Object.fromEntries(Object.entries(GAIT_METRICS)
+            .map(([metric, summarize]) => [metric, summarize(this._strides)])) as Record<GaitMetric, number | null>;
+
+        return {
+            strideCount: this._strides.length,
+            ...summary,
+            strides: [...this._strides]
+        };
+    }
+
+    /**
+     * Gait performance indicators with trends, for the metrics the window can measure
+     */
+    public indicators(): Record<string, { value: number; trend: number; threshold: number }> {
+        const half = Math.floor(this._strides.length / 2);
+        const earlier = this._strides.slice(0, half);
+        const later = this._strides.slice(half);
+        const result: Record<string, { value: number; trend: number; threshold: number }> = {};
+
+        for (const [metric, summarize] of Object.entries(GAIT_METRICS) as Array<[GaitMetric, typeof GAIT_METRICS[GaitMetric]]>) {
+            const value = summarize(this._strides);
+            if (value === null) {
+                continue;
+            }
+            const before = summarize(earlier);
+            const after = summarize(later);
+            let trend = 0;
+            if (before !== null && after !== null) {
+                trend = RATIO_METRICS.includes(metric) ? after - before : before !== 0 ? (after - before) / Math.abs(before) : 0;
+            }
+            result[metric] = {
+                value,
+                trend,
+                threshold: GAIT_ANALYSIS.thresholds[metric]
+            };
+        }
+
+        return result;
+    }
+
+    /**
+     * Measures pending strides once the pelvis and leg load histories cover them, or once they
+     * have waited long enough
+     */
+    private resolve(): void {
+        const ready = (stride: GaitStrideEvent) => {
+            const load = this._loads.get(stride.side as 'left' | 'right');
+            return (!this._pelvis || lastTimestamp(this._pelvis) >= stride.endTime)
+                && (!load || lastTimestamp(load) >= stride.endTime);
+        };
+
+        const remaining: GaitStrideEvent[] = [];
+        for (const stride of this._pending) {
+            if (ready(stride) || this._latest - stride.endTime > GAIT_ANALYSIS.resolveAfterMs) {
+                this._strides.push(this.measure(stride));
+            } else {
+                remaining.push(stride);
+            }
+        }
+        this._pending = remaining;
+        this._strides = this._strides
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-GAIT_ANALYSIS.windowStrides);
+    }
+
+    private measure(stride: GaitStrideEvent): IGaitStride {
+        const side = stride.side as 'left' | 'right';
+        const strideTimeMs = stride.metrics.strideTimeMs ?? stride.endTime - stride.startTime;
+        const tofContact = this.loadContact(side, stride.startTime, stride.endTime);
+        const imuContact = stride.metrics.contactTimeMs ?? null;
+        const groundContactTimeMs = tofContact ?? imuContact;
+        const oscillation = this.verticalOscillation(stride.startTime, stride.endTime);
+
+        let strideLengthM: number | null = null;
+        if (oscillation !== null) {
+            const h = oscillation / 100;
+            strideLengthM = 2 * 2 * Math.sqrt(Math.max(0, 2 * GAIT_ANALYSIS.legLengthM * h - h * h));
+        }
+
+        return {
+            timestamp: stride.startTime,
+            side,
+            strideTimeMs,
+            cadence: stride.metrics.cadence ?? 2 * 60000 / strideTimeMs,
+            groundContactTimeMs,
+            contactSource: tofContact !== null ? 'tof' : imuContact !== null ? 'imu' : null,
+            flightTimeMs: groundContactTimeMs !== null ? Math.max(0, strideTimeMs / 2 - groundContactTimeMs) : null,
+            verticalOscillationCm: oscillation,
+            strideLengthM
+        };
+    }
+
+    /**
+     * Contact time from the leg's load: the span around the stride's peak load that stays above
+     * the contact fraction of the stride's load range
+     */
+    private loadContact(side: 'left' | 'right', start: number, end: number): number | null {
+        const samples = covering(this._loads.get(side), start, end);
+        if (!samples) {
+            return null;
+        }
+
+        const loads = samples.map(sample => sample.value);
+        const min = Math.min(...loads);
+        const max = Math.max(...loads);
+        if (max - min < GAIT_ANALYSIS.minContactLoad) {
+            return null;
+        }
+
+        const threshold = min + GAIT_ANALYSIS.contactLoadFraction * (max - min);
+        const peak = loads.indexOf(max);
+        let first = peak;
+        let last = peak;
+        while (first > 0 && loads[first - 1]! >= threshold) {
+            first--;
+        }
+        while (last < loads.length - 1 && loads[last + 1]! >= threshold) {
+            last++;
+        }
+        return samples[last]!.timestamp - samples[first]!.timestamp;
+    }
+
+    /**
+     * Peak-to-peak pelvis displacement in cm over a stride
+     */
+    private verticalOscillation(start: number, end: number): number | null {
+        const samples = covering(this._pelvis ?? undefined, start, end);
+        if (!samples || samples.length < 3) {
+            return null;
+        }
+
+        const times = samples.map(sample => (sample.timestamp - samples[0]!.timestamp) / 1000);
+        const velocity = removeDrift(times, integrate(times, samples.map(sample => sample.value)));
+        const centred = velocity.map(value => value - velocity.reduce((sum, v) => sum + v, 0) / velocity.length);
+        const displacement = removeDrift(times, integrate(times, centred));
+
+        return 100 * (Math.max(...displacement) - Math.min(...displacement));
+    }
+
+    /**
+     * Appends samples to a history, following the first sensor until it goes quiet
+     */
+    private append(
+        history: SampleHistory | null,
+        sensorId: string,
+        samples: Array<{ timestamp: number; value: number }>
+    ): SampleHistory | null {
+        if (samples.length === 0) {
+            return history;
+        }
+        if (history && history.sensorId !== sensorId) {
+            if (samples[0]!.timestamp - lastTimestamp(history) <= GAIT_ANALYSIS.resolveAfterMs) {
+                return history;
+            }
+            history = null;
+        }
+
+        const merged = [...(history?.samples ?? []), ...samples].sort((a, b) => a.timestamp - b.timestamp);
+        const cutoff = merged[merged.length - 1]!.timestamp - GAIT_ANALYSIS.sampleWindowMs;
+        return { sensorId, samples: merged.filter(sample => sample.timestamp >= cutoff) };
+    }
+}
+
+/**
+ * Samples of a history within a time range, when they cover the whole range
+ */
+const covering = (history: SampleHistory | undefined, start: number, end: number) => {
+    const samples = history?.samples.filter(sample => sample.timestamp >= start && sample.timestamp <= end) ?? [];
+    if (samples.length === 0
+        || samples[0]!.timestamp - start > GAIT_ANALYSIS.maxSampleGapMs
+        || end - samples[samples.length - 1]!.timestamp > GAIT_ANALYSIS.maxSampleGapMs) {
+        return null;
+    }
+    return samples;
+};
+
+const lastTimestamp = (history: SampleHistory): number =>
+    history.samples[history.samples.length - 1]?.timestamp ?? -Infinity;
+
+/**
+ * Trapezoidal running integral starting at zero
+ */
+const integrate = (times: number[], values: number[]): number[] => {
+    const result = [0];
+    for (let i = 1; i < values.length; i++) {
+        result.push(result[i - 1]! + (values[i - 1]! + values[i]!) / 2 * (times[i]! - times[i - 1]!));
+    }
+    return result;
+};
+
+/**
+ * Removes the straight line through the first and last values, so a periodic signal ends
+ * where it started
+ */
+const removeDrift = (times: number[], values: number[]): number[] => {
+    const duration = times[times.length - 1]!;
+    const drift = values[values.length - 1]! - values[0]!;
+    return values.map((value, index) => value - values[0]! - (duration > 0 ? drift * times[index]! / duration : 0));
+};
+
+/**
+ * Mean of the values that are not null
+ */
+const mean = (values: Array<number | null>): number | null => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
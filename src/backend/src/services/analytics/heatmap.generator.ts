@@ -6,6 +6,9 @@
  */
 
 import { ISensorData } from '../../interfaces/sensor.interface';
+import { ISegmentHeatMapCell } from '../../interfaces/garment.interface';
+import { GARMENT_TEMPLATES, SENSOR_TYPES } from '../../constants/sensor.constants';
+import { SegmentHeatMap } from '../sensor/garment.template';
 import { BiomechanicsAnalyzer } from './biomechanics.analyzer';
 import { PerformanceAnalyzer } from './performance.analyzer';
 import * as np from 'numpy'; // v1.24.0
@@ -61,6 +64,7 @@ export class HeatMapGenerator {
   private _dataBuffer: Map<string, number[][]>;
   private _workerPool: Worker[];
   private _visualizationCache: Map<string, any>;
+  private _sessionPackets: Map<string, ISensorData[]>;
   private _colorMapper: plotly.ColorScale;
 
   /**
@@ -78,6 +82,7 @@ export class HeatMapGenerator {
     this._resolution = resolution;
     this._dataBuffer = new Map();
     this._visualizationCache = new Map();
+    this._sessionPackets = new Map();
     
     // Initialize worker pool for parallel processing
     this._workerPool = Array.from({ length: workerCount }, () => 
@@ -217,13 +222,16 @@ export class HeatMapGenerator {
   }
 
   /**
-   * Updates heat map visualization in real-time with optimized performance
+   * Updates heat map visualization in real-time with optimized performance.
+   * Returns the session's live segment heat map, resolved through the template placements.
    */
   public async updateRealTimeHeatMap(
     newData: ISensorData,
     options: UpdateOptions
-  ): Promise<any> {
+  ): Promise<ISegmentHeatMapCell[]> {
     try {
+      this.bufferSessionPacket(newData);
+
       // Process new sensor readings in parallel
       const processedData = await Promise.all(
         this._workerPool.map(worker => {
@@ -253,7 +261,9 @@ export class HeatMapGenerator {
         }
       };
 
-      return plotly.update('heatmap-container', update);
+      await plotly.update('heatmap-container', update);
+
+      return this.getSegmentHeatMap(newData.sessionId);
 
     } catch (error) {
       console.error('Error updating real-time heat map:', error);
@@ -310,6 +320,43 @@ export class HeatMapGenerator {
     }
   }
 
+  /**
+   * Live segment heat map of a session over the most recent packets
+   */
+  public getSegmentHeatMap(
+    sessionId: string,
+    sensorType: SENSOR_TYPES = SENSOR_TYPES.TOF
+  ): ISegmentHeatMapCell[] {
+    const heatMap = new SegmentHeatMap(sensorType);
+    heatMap.add(this._sessionPackets.get(sessionId) ?? []);
+    return heatMap.cells();
+  }
+
+  /**
+   * Keeps the session's placed packets within the live window
+   */
+  private bufferSessionPacket(packet: ISensorData): void {
+    if (!packet.metadata?.placement) {
+      return;
+    }
+
+    let packets = this._sessionPackets.get(packet.sessionId);
+    if (packets) {
+      // Re-insert so the least recently updated session is evicted first
+      this._sessionPackets.delete(packet.sessionId);
+    } else {
+      packets = [];
+      if (this._sessionPackets.size >= GARMENT_TEMPLATES.maxLiveHeatMapSessions) {
+        this._sessionPackets.delete(this._sessionPackets.keys().next().value as string);
+      }
+    }
+
+    packets.push(packet);
+    const cutoff = packet.timestamp - GARMENT_TEMPLATES.liveHeatMapWindowMs;
+    const firstRecent = packets.findIndex(candidate => candidate.timestamp >= cutoff);
+    this._sessionPackets.set(packet.sessionId, firstRecent > 0 ? packets.slice(firstRecent) : packets);
+  }
+
   // Private helper methods would be implemented here
   private generateLabels(matrix: number[][]): string[][] {
     // Implementation for generating matrix labels
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Joint kinematics from paired segment sensors. Fused segment orientations of the
+ * IMUs on either side of a joint are paired by timestamp, and the distal segment's long axis is
+ * expressed in the proximal segment's frame: its tilt in the sagittal plane gives flexion and
+ * dorsiflexion, its tilt out of that plane gives abduction. Repetitions are segmented from the
+ * angle series with a hysteresis band, and each repetition's range of motion is measured from
+ * trough to trough.
+ *
+ * @version 1.0.0
+ */
+
+import { ISensorData, IOrientationSample } from '../../interfaces/sensor.interface';
+import { BodySegment } from '../../interfaces/garment.interface';
+import {
+    IJointAngleSample,
+    IJointAngleSeries,
+    IJointDefinition,
+    IJointRangeOfMotion,
+    IJointRepetition
+} from '../../interfaces/kinematics.interface';
+import { JOINT_DEFINITIONS, JOINT_KINEMATICS } from '../../constants/sensor.constants';
+import { conjugateQuaternion, multiplyQuaternions } from '../sensor/orientation.fusion';
+
+const SIDES = ['left', 'right'] as const;
+
+/**
+ * Orientation history of one body segment
+ */
+interface SegmentHistory {
+    sensorId: string;
+    samples: IOrientationSample[];
+}
+
+/**
+ * Collects segment orientations of one session and derives joint angles and ranges of motion
+ * over a sliding window
+ */
+export class JointKinematicsTracker {
+    private readonly _segments: Map<string, SegmentHistory>;
+
+    /**
+     * Creates a tracker
+     * @param windowMs - Orientation history kept per segment
+     */
+    constructor(private readonly windowMs: number = JOINT_KINEMATICS.windowMs) {
+        this._segments = new Map();
+    }
+
+    /**
+     * Adds the segment orientations of a processed IMU packet. Packets without a garment
+     * placement or segment-frame orientation are ignored, and a segment keeps following the
+     * first sensor reporting on it until that sensor goes quiet for a window.
+     * @param data - Processed sensor data
+     */
+    public add(data: Pick<ISensorData, 'sensorId' | 'metadata'>): void {
+        const placement = data.metadata?.placement;
+        const orientation = data.metadata?.orientation;
+        if (!placement || orientation?.frame !== 'segment' || orientation.samples.length === 0) {
+            return;
+        }
+
+        const key = segmentKey(placement.segment, placement.side);
+        let history = this._segments.get(key);
+        if (history && history.sensorId !== data.sensorId) {
+            const latest = history.samples[history.samples.length - 1]?.timestamp ?? -Infinity;
+            if (orientation.samples[0]!.timestamp - latest <= this.windowMs) {
+                return;
+            }
+            history = undefined;
+        }
+        if (!history) {
+            history = { sensorId: data.sensorId, samples: [] };
+            this._segments.set(key, history);
+        }
+
+        const samples = [...history.samples, ...orientation.samples].sort((a, b) => a.timestamp - b.timestamp);
+        const cutoff = samples[samples.length - 1]!.timestamp - this.windowMs;
+        history.samples = samples.filter(sample => sample.timestamp >= cutoff);
+    }
+
+    /**
+     * Joint angle series of every joint with both segments instrumented
+     * @returns Angle series per side and joint movement
+     */
+    public jointAngles(): IJointAngleSeries[] {
+        const series: IJointAngleSeries[] = [];
+
+        for (const [id, definition] of Object.entries(JOINT_DEFINITIONS)) {
+            for (const side of SIDES) {
+                const proximal = this.segmentSamples(definition.proximal, side);
+                const distal = this.segmentSamples(definition.distal, side);
+                if (!proximal || !distal) {
+                    continue;
+                }
+
+                const samples = computeJointAngles(proximal, distal, definition, side);
+                if (samples.length > 0) {
+                    series.push({
+                        jointId: `${side}_${id}`,
+                        joint: definition.joint,
+                        side,
+                        plane: definition.plane,
+                        movement: definition.movement,
+                        samples
+                    });
+                }
+            }
+        }
+
+        return series;
+    }
+
+    /**
+     * Range of motion of every joint angle over the window, keyed by joint ID
+     * @returns Ranges of motion with their repetitions
+     */
+    public rangeOfMotion(): Record<string, IJointRangeOfMotion> {
+        const result: Record<string, IJointRangeOfMotion> = {};
+
+        for (const { samples, ...joint } of this.jointAngles()) {
+            const angles = samples.map(sample => sample.angle);
+            const min = Math.min(...angles);
+            const max = Math.max(...angles);
+            const reps = segmentRepetitions(samples);
+            const latest = reps[reps.length - 1];
+            const baseline = reps.length > 0
+                ? reps.reduce((sum, rep) => sum + rep.rom, 0) / reps.length
+                : max - min;
+
+            result[joint.jointId] = {
+                ...joint,
+                current: latest?.rom ?? max - min,
+                min,
+                max,
+                baseline,
+                deviation: latest ? Math.abs(latest.rom - baseline) : 0,
+                reps
+            };
+        }
+
+        return result;
+    }
+
+    /**
+     * Samples of a segment on one side, falling back to the midline segment, e.g. the pelvis
+     */
+    private segmentSamples(segment: BodySegment, side: 'left' | 'right'): IOrientationSample[] | null {
+        const history = this._segments.get(segmentKey(segment, side)) ?? this._segments.get(segmentKey(segment, 'center'));
+        return history?.samples ?? null;
+    }
+}
+
+/**
+ * Computes a joint angle from the orientations of its proximal and distal segments
+ * @param proximal - Proximal segment orientations in timestamp order
+ * @param distal - Distal segment orientations in timestamp order
+ * @param definition - Joint definition
+ * @param side - Body side of the joint
+ * @returns Angle in degrees at each distal sample with a proximal sample close enough in time
+ */
+export function computeJointAngles(
+    proximal: IOrientationSample[],
+    distal: IOrientationSample[],
+    definition: IJointDefinition,
+    side: 'left' | 'right'
+): IJointAngleSample[] {
+    const samples: IJointAngleSample[] = [];
+    let cursor = 0;
+
+    for (const sample of distal) {
+        while (cursor + 1 < proximal.length
+            && Math.abs(proximal[cursor + 1]!.timestamp - sample.timestamp)
+                <= Math.abs(proximal[cursor]!.timestamp - sample.timestamp)) {
+            cursor++;
+        }
+        const paired = proximal[cursor];
+        if (!paired || Math.abs(paired.timestamp - sample.timestamp) > JOINT_KINEMATICS.maxSampleOffsetMs) {
+            continue;
+        }
+
+        // Long axis of the distal segment in the proximal frame: third column of the relative rotation
+        const q = multiplyQuaternions(conjugateQuaternion(paired.quaternion), sample.quaternion);
+        const axis = [
+            2 * (q.x * q.z + q.w * q.y),
+            2 * (q.y * q.z - q.w * q.x),
+            1 - 2 * (q.x * q.x + q.y * q.y)
+        ] as const;
+
+        const angle = definition.plane === 'sagittal'
+            ? Math.atan2(axis[0], axis[2])
+            : Math.asin(Math.min(1, Math.max(-1, -axis[1])));
+
+        samples.push({
+            timestamp: sample.timestamp,
+            angle: definition.sign[side] * angle * 180 / Math.PI
+        });
+    }
+
+    return samples;
+}
+
+/**
+ * Splits a joint angle series into repetitions. A repetition starts when the angle rises
+ * through the upper edge of the hysteresis band and completes when it falls back through the
+ * lower edge; it spans the troughs on either side of its peak. A repetition in progress at
+ * the start of the series is skipped.
+ * @param samples - Joint angle series in timestamp order
+ * @returns Completed repetitions with at least the minimum range of motion
+ */
+export function segmentRepetitions(samples: IJointAngleSample[]): IJointRepetition[] {
+    const angles = samples.map(sample => sample.angle);
+    const low = Math.min(...angles);
+    const range = Math.max(...angles) - low;
+    if (samples.length === 0 || range < JOINT_KINEMATICS.minRepRom) {
+        return [];
+    }
+
+    const lower = low + JOINT_KINEMATICS.repLowerFraction * range;
+    const upper = low + JOINT_KINEMATICS.repUpperFraction * range;
+    const reps: IJointRepetition[] = [];
+    let rising: number | null = null;
+    let trough = 0;
+    let peak = 0;
+    let high = angles[0]! > upper;
+    let pending: { start: number; peak: number } | null = null;
+
+    const complete = () => {
+        if (pending) {
+            const min = Math.min(angles[pending.start]!, angles[trough]!);
+            const max = angles[pending.peak]!;
+            if (max - min >= JOINT_KINEMATICS.minRepRom) {
+                reps.push({
+                    start: samples[pending.start]!.timestamp,
+                    peak: samples[pending.peak]!.timestamp,
+                    end: samples[trough]!.timestamp,
+                    min,
+                    max,
+                    rom: max - min
+                });
+            }
+            pending = null;
+        }
+    };
+
+    angles.forEach((angle, index) => {
+        if (high) {
+            if (angle > angles[peak]!) {
+                peak = index;
+            }
+            if (angle < lower) {
+                high = false;
+                pending = rising === null ? null : { start: rising, peak };
+                trough = index;
+            }
+        } else {
+            if (angle < angles[trough]!) {
+                trough = index;
+            }
+            if (angle > upper) {
+                complete();
+                high = true;
+                rising = trough;
+                peak = index;
+            }
+        }
+    });
+    if (!high) {
+        complete();
+    }
+
+    return reps;
+}
+
+/**
+ * Key of a body segment on one side
+ */
+const segmentKey = (segment: string, side: string): string => `${side}:${segment}`;
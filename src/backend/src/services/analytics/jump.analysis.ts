@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Jump and landing analysis. Jumps segmented from the free fall of the jump sensor
+ * are measured once the session's other sensors cover them:
+ *
+ * - Jump height by the flight-time method, g * t² / 8, and by the impulse method: the net
+ *   vertical acceleration of the jump sensor is integrated over the propulsion window before
+ *   take-off, which starts from standing, into the take-off velocity v, and h = v² / 2g.
+ * - Take-off asymmetry compares the left and right leg load impulses over the propulsion window.
+ * - Landing peak force and rate of force development come from the jump sensor's vertical force
+ *   in body weights, from touchdown to the landing peak.
+ * - The knee valgus proxy is the largest knee frontal plane angle after touchdown relative to the
+ *   standing angle at the start of the propulsion window.
+ *
+ * Each landing is scored against the biomechanical alert limits for force, loading rate and
+ * valgus, so alerts can follow the quality of recent landings rather than single impacts. Jump
+ * counts and landing load accumulate over the session.
+ *
+ * @version 1.0.0
+ */
+
+import { ISensorData, IOrientationSample } from '../../interfaces/sensor.interface';
+import { IMovementEvent } from '../../interfaces/movement.interface';
+import { IJump, IJumpAnalysis } from '../../interfaces/jump.interface';
+import { GRAVITY_MS2, IMU_CHANNELS, JUMP_ANALYSIS, MOVEMENT_EVENTS, SENSOR_TYPES } from '../../constants/sensor.constants';
+import { ALERT_THRESHOLDS } from '../../constants/alert.constants';
+import { multiplyQuaternions, quaternionFromEuler, rotateVector } from '../sensor/orientation.fusion';
+import { computeJointAngles } from './joint.kinematics';
+
+/**
+ * Jump fields the tracker reads from a movement event
+ */
+export type JumpEvent = Pick<IMovementEvent, 'type' | 'source' | 'startTime' | 'endTime' | 'phases' | 'metrics'>;
+
+/**
+ * Time series of one sensor
+ */
+interface SampleHistory<T extends { timestamp: number }> {
+    sensorId: string;
+    samples: T[];
+}
+
+type ValueSample = { timestamp: number; value: number };
+
+type JumpMetric = Exclude<keyof IJumpAnalysis, 'jumpCount' | 'cumulativeLandingLoadBw' | 'jumps'>;
+
+const SIDES = ['left', 'right'] as const;
+const LEG_SEGMENTS: readonly string[] = ['thigh', 'shank', 'foot'];
+
+/**
+ * Thresholds reported with each jump performance indicator
+ */
+const INDICATOR_THRESHOLDS: Record<JumpMetric, number> = {
+    jumpHeightCm: JUMP_ANALYSIS.targetJumpHeightCm,
+    impulseJumpHeightCm: JUMP_ANALYSIS.targetJumpHeightCm,
+    takeOffAsymmetry: ALERT_THRESHOLDS.BIOMECHANICAL.ASYMMETRY,
+    landingPeakForceBw: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_FORCE,
+    landingRfdBwPerS: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_RFD,
+    kneeValgusDeg: ALERT_THRESHOLDS.BIOMECHANICAL.KNEE_VALGUS,
+    landingQuality: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_QUALITY
+};
+
+// Metrics close to zero when healthy trend by absolute rather than relative change
+const ABSOLUTE_TREND_METRICS: readonly JumpMetric[] = ['takeOffAsymmetry', 'kneeValgusDeg'];
+
+/**
+ * Collects one session's jumps, jump sensor forces, leg loads and leg orientations, and
+ * measures take-offs and landings
+ */
+export class JumpTracker {
+    private readonly _vertical: Map<string, ValueSample[]>;
+    private readonly _loads: Map<'left' | 'right', SampleHistory<ValueSample>>;
+    private readonly _legs: Map<string, SampleHistory<IOrientationSample>>;
+    private _pending: JumpEvent[] = [];
+    private _jumps: IJump[] = [];
+    private _jumpCount = 0;
+    private _landingLoad = 0;
+    private _latest = -Infinity;
+
+    constructor() {
+        this._vertical = new Map();
+        this._loads = new Map();
+        this._legs = new Map();
+    }
+
+    /**
+     * Adds a processed packet and the movement events it completed
+     * @param data - Processed sensor data
+     * @param events - Movement events completed by the packet; only jumps are used
+     * @returns Jumps measured since the previous packet
+     */
+    public add(data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'>, events: JumpEvent[] = []): IJump[] {
+        const placement = data.metadata?.placement;
+        const orientation = data.metadata?.orientation;
+        const readings = data.readings ?? [];
+        if (readings.length > 0) {
+            this._latest = Math.max(this._latest, readings[readings.length - 1]!.timestamp);
+        }
+
+        if (placement?.side === 'center' && orientation) {
+            // Segment orientation times the mounting rotation gives the sensor's orientation
+            const mounting = quaternionFromEuler(orientation.frame === 'segment'
+                ? placement.orientation
+                : { roll: 0, pitch: 0, yaw: 0 });
+            const quaternions = new Map(orientation.samples.map(sample => [sample.timestamp, sample.quaternion]));
+            const samples = readings
+                .filter(reading => reading.type === SENSOR_TYPES.IMU && quaternions.has(reading.timestamp))
+                .map(reading => {
+                    const sensor = multiplyQuaternions(quaternions.get(reading.timestamp)!, mounting);
+                    const accel = rotateVector(sensor, IMU_CHANNELS.accel.map(channel => reading.value[channel] ?? 0));
+                    return { timestamp: reading.timestamp, value: accel[2]! };
+                });
+            if (samples.length > 0) {
+                this._vertical.set(data.sensorId, trim([...(this._vertical.get(data.sensorId) ?? []), ...samples]));
+            }
+        }
+
+        if (placement && placement.side !== 'center' && LEG_SEGMENTS.includes(placement.segment)) {
+            const loads = readings
+                .filter(reading => reading.type === SENSOR_TYPES.TOF)
+                .map(reading => ({ timestamp: reading.timestamp, value: reading.value[0] ?? 0 }));
+            if (loads.length > 0) {
+                this._loads.set(placement.side, append(this._loads.get(placement.side), data.sensorId, loads));
+            }
+            if (orientation?.frame === 'segment' && orientation.samples.length > 0) {
+                const key = `${placement.side}_${placement.segment}`;
+                this._legs.set(key, append(this._legs.get(key), data.sensorId, orientation.samples));
+            }
+        }
+
+        this._pending.push(...events.filter(event => event.type === 'jump'));
+        return this.resolve();
+    }
+
+    /**
+     * Jump summary of the session
+     */
+    public analysis(): IJumpAnalysis {
+        const recent = this._jumps.slice(-JUMP_ANALYSIS.qualityWindowJumps);
+
+        return {
+            jumpCount: this._jumpCount,
+            cumulativeLandingLoadBw: this._landingLoad,
+            ...summarize(this._jumps),
+            landingQuality: mean(recent.map(jump => jump.landingQuality)),
+            jumps: [...this._jumps]
+        };
+    }
+
+    /**
+     * Jump performance indicators with trends of the window's later half against its earlier
+     * half, for the metrics the window can measure
+     */
+    public indicators(): Record<string, { value: number; trend: number; threshold: number }> {
+        if (this._jumpCount === 0) {
+            return {};
+        }
+
+        const analysis = this.analysis();
+        const half = Math.floor(this._jumps.length / 2);
+        const earlier = summarize(this._jumps.slice(0, half));
+        const later = summarize(this._jumps.slice(half));
+        const result: Record<string, { value: number; trend: number; threshold: number }> = {
+            cumulativeLandingLoadBw: {
+                value: analysis.cumulativeLandingLoadBw,
+                trend: 0,
+                threshold: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_LOAD
+            }
+        };
+
+        for (const [metric, threshold] of Object.entries(INDICATOR_THRESHOLDS) as Array<[JumpMetric, number]>) {
+            const value = analysis[metric];
+            if (value === null) {
+                continue;
+            }
+            const before = earlier[metric];
+            const after = later[metric];
+            let trend = 0;
+            if (before !== null && after !== null) {
+                trend = ABSOLUTE_TREND_METRICS.includes(metric) ? after - before : before !== 0 ? (after - before) / Math.abs(before) : 0;
+            }
+            result[metric] = { value, trend, threshold };
+        }
+
+        return result;
+    }
+
+    /**
+     * Measures pending jumps once the histories cover their take-off and landing, or once they
+     * have waited long enough
+     */
+    private resolve(): IJump[] {
+        const measured: IJump[] = [];
+        const remaining: JumpEvent[] = [];
+
+        for (const jump of this._pending) {
+            if (this.ready(jump) || this._latest - jump.endTime > JUMP_ANALYSIS.resolveAfterMs) {
+                measured.push(this.measure(jump));
+            } else {
+                remaining.push(jump);
+            }
+        }
+
+        this._pending = remaining;
+        for (const jump of measured) {
+            this._jumpCount++;
+            this._landingLoad += jump.landingPeakForceBw ?? 0;
+        }
+        this._jumps = [...this._jumps, ...measured]
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(-JUMP_ANALYSIS.windowJumps);
+        return measured;
+    }
+
+    private ready(jump: JumpEvent): boolean {
+        const latest = (samples: Array<{ timestamp: number }> | undefined) =>
+            samples?.[samples.length - 1]?.timestamp ?? Infinity;
+
+        return latest(this._vertical.get(jump.source)) >= jump.endTime + MOVEMENT_EVENTS.landingWindowMs
+            && SIDES.every(side => latest(this._loads.get(side)?.samples) >= jump.startTime)
+            && [...this._legs.values()].every(leg => latest(leg.samples) >= jump.endTime + JUMP_ANALYSIS.valgusWindowMs);
+    }
+
+    private measure(jump: JumpEvent): IJump {
+        const takeOff = jump.phases.takeOff ?? jump.startTime;
+        const landing = jump.phases.landing ?? jump.endTime;
+        const propulsionStart = takeOff - JUMP_ANALYSIS.propulsionWindowMs;
+        const vertical = this._vertical.get(jump.source);
+
+        // Impulse method: net vertical impulse per unit mass is the take-off velocity
+        let impulseJumpHeightCm: number | null = null;
+        const propulsion = covering(vertical, propulsionStart, takeOff);
+        if (propulsion) {
+            const velocity = integral(propulsion.map(sample => ({ ...sample, value: sample.value - GRAVITY_MS2 })));
+            impulseJumpHeightCm = velocity > 0 ? 100 * velocity ** 2 / (2 * GRAVITY_MS2) : 0;
+        }
+
+        // Landing force in body weights, from touchdown to the peak
+        let landingPeakForceBw: number | null = jump.metrics.landingPeakG ?? null;
+        let landingRfdBwPerS: number | null = null;
+        const impact = covering(vertical, landing, landing + MOVEMENT_EVENTS.landingWindowMs);
+        if (impact) {
+            const peak = impact.reduce((best, sample) => sample.value > best.value ? sample : best);
+            landingPeakForceBw = peak.value / GRAVITY_MS2;
+            if (peak.timestamp > impact[0]!.timestamp) {
+                landingRfdBwPerS = (peak.value - impact[0]!.value) / GRAVITY_MS2 / ((peak.timestamp - impact[0]!.timestamp) / 1000);
+            }
+        }
+
+        const kneeValgusDeg = this.kneeValgus(propulsionStart, landing);
+
+        return {
+            timestamp: takeOff,
+            landing,
+            flightTimeMs: jump.metrics.flightTimeMs ?? landing - takeOff,
+            jumpHeightCm: jump.metrics.jumpHeightCm ?? 100 * GRAVITY_MS2 * ((landing - takeOff) / 1000) ** 2 / 8,
+            impulseJumpHeightCm,
+            takeOffAsymmetry: this.takeOffAsymmetry(propulsionStart, takeOff),
+            landingPeakForceBw,
+            landingRfdBwPerS,
+            kneeValgusDeg,
+            landingQuality: landingQuality(landingPeakForceBw, landingRfdBwPerS, kneeValgusDeg)
+        };
+    }
+
+    /**
+     * Left/right difference of the leg load impulses above each leg's minimum over propulsion
+     */
+    private takeOffAsymmetry(start: number, end: number): number | null {
+        const impulses = SIDES.map(side => {
+            const samples = covering(this._loads.get(side)?.samples, start, end);
+            if (!samples) {
+                return null;
+            }
+            const min = Math.min(...samples.map(sample => sample.value));
+            return integral(samples.map(sample => ({ ...sample, value: sample.value - min })));
+        });
+
+        const [left, right] = impulses;
+        if (left == null || right == null || left + right < JUMP_ANALYSIS.minTakeOffLoad) {
+            return null;
+        }
+        return 100 * Math.abs(left - right) / ((left + right) / 2);
+    }
+
+    /**
+     * Largest rise of the knee frontal plane angle after touchdown over the standing angle, on
+     * the worse side
+     */
+    private kneeValgus(standing: number, landing: number): number | null {
+        const end = landing + JUMP_ANALYSIS.valgusWindowMs;
+        const sides = SIDES.map(side => {
+            const thigh = this._legs.get(`${side}_thigh`)?.samples;
+            const shank = this._legs.get(`${side}_shank`)?.samples;
+            if (!thigh || !shank) {
+                return null;
+            }
+
+            const angles = computeJointAngles(
+                thigh.filter(sample => sample.timestamp >= standing && sample.timestamp <= end),
+                shank.filter(sample => sample.timestamp >= standing && sample.timestamp <= end),
+                JUMP_ANALYSIS.kneeValgus,
+                side
+            ).map(sample => ({ timestamp: sample.timestamp, value: sample.angle }));
+            const reference = angles[0];
+            const landed = covering(angles, landing, end);
+            if (!reference || reference.timestamp - standing > JUMP_ANALYSIS.maxSampleGapMs || !landed) {
+                return null;
+            }
+            return Math.max(...landed.map(sample => sample.value)) - reference.value;
+        }).filter((value): value is number => value !== null);
+
+        return sides.length > 0 ? Math.max(...sides) : null;
+    }
+}
+
+/**
+ * Scores a landing from 0 to 100: each measured factor scores its limit over its value, capped
+ * at 1, and the score is their mean
+ * @param forceBw - Landing peak force in body weights
+ * @param rfdBwPerS - Landing rate of force development in body weights per second
+ * @param valgusDeg - Knee valgus proxy in degrees
+ * @returns Landing quality, or null when no factor was measured
+ */
+export function landingQuality(forceBw: number | null, rfdBwPerS: number | null, valgusDeg: number | null): number | null {
+    const factors = [
+        [forceBw, ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_FORCE],
+        [rfdBwPerS, ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_RFD],
+        [valgusDeg, ALERT_THRESHOLDS.BIOMECHANICAL.KNEE_VALGUS]
+    ].filter((factor): factor is [number, number] => factor[0] !== null);
+
+    if (factors.length === 0) {
+        return null;
+    }
+    return 100 * mean(factors.map(([value, limit]) => value <= limit ? 1 : limit / value))!;
+}
+
+/**
+ * Means of each jump metric over a list of jumps
+ */
+const summarize = (jumps: IJump[]): Record<JumpMetric, number | null> => ({
+    jumpHeightCm: mean(jumps.map(jump => jump.jumpHeightCm)),
+    impulseJumpHeightCm: mean(jumps.map(jump => jump.impulseJumpHeightCm)),
+    takeOffAsymmetry: mean(jumps.map(jump => jump.takeOffAsymmetry)),
+    landingPeakForceBw: mean(jumps.map(jump => jump.landingPeakForceBw)),
+    landingRfdBwPerS: mean(jumps.map(jump => jump.landingRfdBwPerS)),
+    kneeValgusDeg: mean(jumps.map(jump => jump.kneeValgusDeg)),
+    landingQuality: mean(jumps.map(jump => jump.landingQuality))
+});
+
+/**
+ * Appends samples to a history, following the first sensor until it goes quiet
+ */
+const append = <T extends { timestamp: number }>(
+    history: SampleHistory<T> | undefined,
+    sensorId: string,
+    samples: T[]
+): SampleHistory<T> => {
+    if (history && history.sensorId !== sensorId) {
+        const latest = history.samples[history.samples.length - 1]?.timestamp ?? -Infinity;
+        if (samples[0]!.timestamp - latest <= JUMP_ANALYSIS.resolveAfterMs) {
+            return history;
+        }
+        history = undefined;
+    }
+    return { sensorId, samples: trim([...(history?.samples ?? []), ...samples]) };
+};
+
+/**
+ * Orders samples and drops those older than the sample window
+ */
+const trim = <T extends { timestamp: number }>(samples: T[]): T[] => {
+    const sorted = samples.sort((a, b) => a.timestamp - b.timestamp);
+    const cutoff = sorted[sorted.length - 1]!.timestamp - JUMP_ANALYSIS.sampleWindowMs;
+    return sorted.filter(sample => sample.timestamp >= cutoff);
+};
+
+/**
+ * Samples within a time range, when they cover the whole range
+ */
+const covering = <T extends { timestamp: number }>(samples: T[] | undefined, start: number, end: number): T[] | null => {
+    const inside = samples?.filter(sample => sample.timestamp >= start && sample.timestamp <= end) ?? [];
+    if (inside.length < 2
+        || inside[0]!.timestamp - start > JUMP_ANALYSIS.maxSampleGapMs
+        || end - inside[inside.length - 1]!.timestamp > JUMP_ANALYSIS.maxSampleGapMs) {
+        return null;
+    }
+    return inside;
+};
+
+/**
+ * Trapezoidal integral of a series over its time span in seconds
+ */
+const integral = (samples: ValueSample[]): number => {
+    let total = 0;
+    for (let i = 1; i < samples.length; i++) {
+        total += (samples[i - 1]!.value + samples[i]!.value) / 2 * (samples[i]!.timestamp - samples[i - 1]!.timestamp) / 1000;
+    }
+    return total;
+};
+
+/**
+ * Mean of the values that are not null
+ */
+const mean = (values: Array<number | null>): number | null => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Movement event segmentation. Processed IMU packets of one session are cut into
+ * strides, strength repetitions and jumps as they arrive:
+ *
+ * - Strides run from one foot strike to the next on a shank or foot IMU. A strike is the
+ *   acceleration peak of an impact above the strike threshold; toe-off is taken where the
+ *   segment is inclined furthest backwards before the swing. When both legs are instrumented
+ *   the other leg must strike within the stride, so bilateral push-offs and landings are not
+ *   mistaken for gait.
+ * - Jumps run from take-off to landing on a pelvis or trunk IMU, bounded by the acceleration
+ *   magnitude dropping below and returning above the free-fall threshold.
+ * - Repetitions are segmented from the knee (or hip) flexion angle, eccentric from the trough
+ *   to the peak and concentric back to the next trough. Repetitions overlapping strides or
+ *   jumps are knee bends of running or jumping and are not reported.
+ *
+ * @version 1.0.0
+ */
+
+import { IOrientationEstimate, ISensorData, ISensorReading } from '../../interfaces/sensor.interface';
+import { IJointAngleSeries } from '../../interfaces/kinematics.interface';
+import { IMovementEvent, MovementEventType } from '../../interfaces/movement.interface';
+import {
+    GRAVITY_MS2,
+    IMU_CHANNELS,
+    JOINT_KINEMATICS,
+    MOVEMENT_EVENTS,
+    SENSOR_TYPES
+} from '../../constants/sensor.constants';
+import { JointKinematicsTracker, segmentRepetitions } from './joint.kinematics';
+
+/**
+ * Movement event before it is persisted
+ */
+export type DetectedMovementEvent = Omit<IMovementEvent, 'id'>;
+
+const STRIDE_SEGMENTS: readonly string[] = ['shank', 'foot'];
+const JUMP_SEGMENTS: readonly string[] = ['pelvis', 'trunk'];
+
+/**
+ * Largest acceleration of an impact
+ */
+interface ImpactPeak {
+    timestamp: number;
+    g: number;
+}
+
+/**
+ * Stride segmentation state of one leg sensor
+ */
+interface StrideState {
+    side: 'left' | 'right';
+    /** Impact in progress, above the strike threshold */
+    impact: ImpactPeak | null;
+    lastStrike: ImpactPeak | null;
+    /** Most backward segment inclination since the last strike */
+    toeOff: { timestamp: number; pitch: number } | null;
+}
+
+/**
+ * Jump segmentation state of the session's jump sensor
+ */
+interface JumpState {
+    sensorId: string;
+    lastTimestamp: number;
+    flightStart: number | null;
+    /** Landed jump whose impact is still being measured */
+    landing: { takeOff: number; landing: number; peakG: number } | null;
+}
+
+/**
+ * Segments one session's processed sensor data into movement events
+ */
+export class MovementEventDetector {
+    private readonly _strides: Map<string, StrideState>;
+    private readonly _joints: JointKinematicsTracker;
+    private _jump: JumpState | null = null;
+    private _recent: Array<{ type: MovementEventType; start: number; end: number }> = [];
+    private _athleteId: string | null = null;
+    private _lastRepEnd = -Infinity;
+    private _lastRepSearch = -Infinity;
+
+    /**
+     * Creates a detector
+     * @param sessionId - Session the events belong to
+     */
+    constructor(private readonly sessionId: string) {
+        this._strides = new Map();
+        this._joints = new JointKinematicsTracker();
+    }
+
+    /**
+     * Adds a processed packet. Packets without a garment placement are ignored, since the
+     * segment a sensor is worn on decides which events it can bound.
+     * @param data - Processed sensor data
+     * @returns Events completed by the packet, in detection order
+     */
+    public add(data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'>): DetectedMovementEvent[] {
+        this._athleteId = data.metadata?.athleteId ?? this._athleteId;
+
+        const placement = data.metadata?.placement;
+        const readings = (data.readings ?? []).filter(reading => reading.type === SENSOR_TYPES.IMU);
+        if (!placement || readings.length === 0) {
+            return [];
+        }
+
+        const events: DetectedMovementEvent[] = [];
+        if (placement.side === 'center' && JUMP_SEGMENTS.includes(placement.segment)) {
+            events.push(...this.detectJumps(data.sensorId, readings));
+        }
+        if (placement.side !== 'center' && STRIDE_SEGMENTS.includes(placement.segment)) {
+            events.push(...this.detectStrides(data.sensorId, placement.side, readings, data.metadata.orientation));
+        }
+
+        this._joints.add(data);
+        events.push(...this.detectRepetitions(readings[readings.length - 1]!.timestamp));
+
+        for (const event of events) {
+            this._recent.push({ type: event.type, start: event.startTime, end: event.endTime });
+        }
+        const cutoff = readings[readings.length - 1]!.timestamp - JOINT_KINEMATICS.windowMs;
+        this._recent = this._recent.filter(event => event.end >= cutoff);
+
+        return events;
+    }
+
+    /**
+     * Cuts strides at the foot strikes of one leg sensor
+     */
+    private detectStrides(
+        sensorId: string,
+        side: 'left' | 'right',
+        readings: ISensorReading[],
+        orientation?: IOrientationEstimate
+    ): DetectedMovementEvent[] {
+        let state = this._strides.get(sensorId);
+        if (!state) {
+            state = { side, impact: null, lastStrike: null, toeOff: null };
+            this._strides.set(sensorId, state);
+        }
+
+        const pitches = new Map(orientation?.frame === 'segment'
+            ? orientation.samples.map(sample => [sample.timestamp, sample.euler.pitch] as const)
+            : []);
+        const events: DetectedMovementEvent[] = [];
+
+        for (const reading of readings) {
+            const g = accelerationG(reading);
+            if (g >= MOVEMENT_EVENTS.strikeThresholdG) {
+                if (!state.impact || g > state.impact.g) {
+                    state.impact = { timestamp: reading.timestamp, g };
+                }
+                continue;
+            }
+
+            if (state.impact) {
+                const stride = this.completeStride(state, state.impact, sensorId, side);
+                if (stride) {
+                    events.push(stride);
+                }
+                state.impact = null;
+            }
+
+            const pitch = pitches.get(reading.timestamp);
+            if (state.lastStrike && pitch !== undefined && (!state.toeOff || pitch < state.toeOff.pitch)) {
+                state.toeOff = { timestamp: reading.timestamp, pitch };
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Records a foot strike and returns the stride it closes, if any
+     */
+    private completeStride(
+        state: StrideState,
+        strike: ImpactPeak,
+        sensorId: string,
+        side: 'left' | 'right'
+    ): DetectedMovementEvent | null {
+        const previous = state.lastStrike;
+        if (previous && strike.timestamp - previous.timestamp < MOVEMENT_EVENTS.minStrideMs) {
+            return null;
+        }
+
+        const toeOff = state.toeOff;
+        state.lastStrike = strike;
+        state.toeOff = null;
+
+        if (!previous
+            || strike.timestamp - previous.timestamp > MOVEMENT_EVENTS.maxStrideMs
+            || this.overlaps(['jump'], previous.timestamp, strike.timestamp)
+            || !this.alternates(side, previous.timestamp, strike.timestamp)) {
+            return null;
+        }
+
+        const strideTimeMs = strike.timestamp - previous.timestamp;
+        const phases: Record<string, number> = { footStrike: previous.timestamp, nextFootStrike: strike.timestamp };
+        const metrics: Record<string, number> = {
+            strideTimeMs,
+            cadence: 2 * 60000 / strideTimeMs,
+            peakImpactG: previous.g
+        };
+        if (toeOff) {
+            phases.toeOff = toeOff.timestamp;
+            metrics.contactTimeMs = toeOff.timestamp - previous.timestamp;
+            metrics.swingTimeMs = strike.timestamp - toeOff.timestamp;
+        }
+
+        return this.event('stride', side, sensorId, previous.timestamp, strike.timestamp, phases, metrics);
+    }
+
+    /**
+     * Whether the other leg, when instrumented, struck within the middle of a stride
+     */
+    private alternates(side: 'left' | 'right', start: number, end: number): boolean {
+        const margin = MOVEMENT_EVENTS.alternationMargin * (end - start);
+        const others = [...this._strides.values()]
+            .filter(state => state.side !== side && state.lastStrike && end - state.lastStrike.timestamp <= MOVEMENT_EVENTS.maxStrideMs);
+
+        return others.length === 0 || others.some(state =>
+            state.lastStrike!.timestamp >= start + margin && state.lastStrike!.timestamp <= end - margin);
+    }
+
+    /**
+     * Cuts jumps at the free fall of the session's jump sensor. The first pelvis or trunk
+     * sensor is followed until it goes quiet for longer than a stride.
+     */
+    private detectJumps(sensorId: string, readings: ISensorReading[]): DetectedMovementEvent[] {
+        if (this._jump && this._jump.sensorId !== sensorId
+            && readings[0]!.timestamp - this._jump.lastTimestamp <= MOVEMENT_EVENTS.maxStrideMs) {
+            return [];
+        }
+        if (!this._jump || this._jump.sensorId !== sensorId) {
+            this._jump = { sensorId, lastTimestamp: -Infinity, flightStart: null, landing: null };
+        }
+
+        const state = this._jump;
+        const events: DetectedMovementEvent[] = [];
+
+        for (const reading of readings) {
+            const g = accelerationG(reading);
+            state.lastTimestamp = Math.max(state.lastTimestamp, reading.timestamp);
+
+            if (state.landing) {
+                if (reading.timestamp - state.landing.landing <= MOVEMENT_EVENTS.landingWindowMs) {
+                    state.landing.peakG = Math.max(state.landing.peakG, g);
+                    continue;
+                }
+                const { takeOff, landing, peakG } = state.landing;
+                const flightTimeMs = landing - takeOff;
+                events.push(this.event('jump', null, sensorId, takeOff, landing, { takeOff, landing }, {
+                    flightTimeMs,
+                    jumpHeightCm: 100 * GRAVITY_MS2 * (flightTimeMs / 1000) ** 2 / 8,
+                    landingPeakG: peakG
+                }));
+                state.landing = null;
+            }
+
+            if (g < MOVEMENT_EVENTS.freeFallG) {
+                state.flightStart ??= reading.timestamp;
+            } else if (state.flightStart !== null) {
+                const flightTimeMs = reading.timestamp - state.flightStart;
+                if (flightTimeMs >= MOVEMENT_EVENTS.minFlightMs && flightTimeMs <= MOVEMENT_EVENTS.maxFlightMs) {
+                    state.landing = { takeOff: state.flightStart, landing: reading.timestamp, peakG: g };
+                }
+                state.flightStart = null;
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Reports repetitions completed since the last search, at most once per evaluation interval
+     */
+    private detectRepetitions(latest: number): DetectedMovementEvent[] {
+        if (latest - this._lastRepSearch < MOVEMENT_EVENTS.repEvaluationMs) {
+            return [];
+        }
+        this._lastRepSearch = latest;
+
+        const series = repetitionSeries(this._joints.jointAngles());
+        if (!series) {
+            return [];
+        }
+
+        const seriesEnd = series.samples[series.samples.length - 1]!.timestamp;
+        const reps = segmentRepetitions(series.samples);
+        const events: DetectedMovementEvent[] = [];
+
+        reps.forEach((rep, index) => {
+            // Only the final repetition's closing trough can still move as new samples arrive
+            if (rep.start < this._lastRepEnd - JOINT_KINEMATICS.maxSampleOffsetMs
+                || (index === reps.length - 1 && seriesEnd - rep.end < MOVEMENT_EVENTS.repSettleMs)) {
+                return;
+            }
+            this._lastRepEnd = rep.end;
+
+            if (this.overlaps(['stride', 'jump'], rep.start, rep.end)) {
+                return;
+            }
+
+            const eccentricMs = rep.peak - rep.start;
+            const concentricMs = rep.end - rep.peak;
+            events.push(this.event('rep', series.side, series.jointId, rep.start, rep.end, {
+                eccentricStart: rep.start,
+                concentricStart: rep.peak,
+                concentricEnd: rep.end
+            }, {
+                romDeg: rep.rom,
+                eccentricMs,
+                concentricMs,
+                concentricVelocity: concentricMs > 0 ? rep.rom / (concentricMs / 1000) : 0
+            }));
+        });
+
+        return events;
+    }
+
+    /**
+     * Whether a recent event of the given types overlaps a time range
+     */
+    private overlaps(types: MovementEventType[], start: number, end: number): boolean {
+        // Jumps still in the air or measuring their landing are not in the recent events yet
+        const flightStart = this._jump?.landing?.takeOff ?? this._jump?.flightStart;
+        if (types.includes('jump') && flightStart != null && flightStart <= end) {
+            return true;
+        }
+        return this._recent.some(event => types.includes(event.type) && event.start <= end && event.end >= start);
+    }
+
+    private event(
+        type: MovementEventType,
+        side: 'left' | 'right' | null,
+        source: string,
+        startTime: number,
+        endTime: number,
+        phases: Record<string, number>,
+        metrics: Record<string, number>
+    ): DetectedMovementEvent {
+        return {
+            sessionId: this.sessionId,
+            athleteId: this._athleteId,
+            type,
+            side,
+            source,
+            startTime,
+            endTime,
+            phases,
+            metrics
+        };
+    }
+}
+
+/**
+ * Joint angle series repetitions are segmented from: the first configured joint movement
+ * instrumented on either side, taking the side that moves most
+ */
+const repetitionSeries = (series: IJointAngleSeries[]): IJointAngleSeries | null => {
+    for (const movement of MOVEMENT_EVENTS.repJoints) {
+        const candidates = series.filter(joint => joint.jointId === `${joint.side}_${movement}`);
+        if (candidates.length > 0) {
+            return candidates.reduce((best, joint) => angleRange(joint) > angleRange(best) ? joint : best);
+        }
+    }
+    return null;
+};
+
+const angleRange = ({ samples }: IJointAngleSeries): number => {
+    const angles = samples.map(sample => sample.angle);
+    return Math.max(...angles) - Math.min(...angles);
+};
+
+/**
+ * Acceleration magnitude of an IMU reading in g
+ */
+const accelerationG = (reading: ISensorReading): number =>
+    Math.hypot(...IMU_CHANNELS.accel.map(channel => reading.value[channel] ?? 0)) / GRAVITY_MS2;
@@ -6,9 +6,17 @@
 
 import { ISensorData, ISensorReading } from '../../interfaces/sensor.interface';
 import { ISessionMetrics } from '../../interfaces/session.interface';
+import { IJointAngleSeries, IJointRangeOfMotion } from '../../interfaces/kinematics.interface';
+import { IMovementEvent } from '../../interfaces/movement.interface';
+import { IGaitAnalysis } from '../../interfaces/gait.interface';
+import { IJumpAnalysis } from '../../interfaces/jump.interface';
+import { GAIT_ANALYSIS, JOINT_KINEMATICS, JUMP_ANALYSIS } from '../../constants/sensor.constants';
 import { validateSensorData } from '../../utils/validation.util';
 import * as mathjs from 'mathjs'; // ^11.8.0
 import * as mlStat from 'ml-stat'; // ^1.3.3
+import { JointKinematicsTracker } from './joint.kinematics';
+import { GaitTracker } from './gait.analysis';
+import { JumpTracker } from './jump.analysis';
 
 /**
  * Advanced performance analysis service with real-time processing capabilities
@@ -21,6 +29,9 @@ export class PerformanceAnalyzer {
   private calibrationMatrix: mathjs.Matrix;
   private processingQueue: Array<ISensorData>;
   private confidenceScores: Map<string, number>;
+  private jointTrackers: Map<string, JointKinematicsTracker>;
+  private gaitTrackers: Map<string, GaitTracker>;
+  private jumpTrackers: Map<string, JumpTracker>;
 
   /**
    * Initializes the performance analyzer with enhanced configuration
@@ -39,15 +50,19 @@ export class PerformanceAnalyzer {
     this.calibrationMatrix = calibrationMatrix || mathjs.identity(3);
     this.processingQueue = [];
     this.confidenceScores = new Map<string, number>();
+    this.jointTrackers = new Map<string, JointKinematicsTracker>();
+    this.gaitTrackers = new Map<string, GaitTracker>();
+    this.jumpTrackers = new Map<string, JumpTracker>();
   }
 
   /**
    * Analyzes sensor data with parallel processing and enhanced metrics
    * Implements <100ms latency requirement through optimized processing
    * @param sensorData - Raw sensor data for analysis
+   * @param events - Movement events completed by the packet, used for gait and jump analysis
    * @returns Promise<ISessionMetrics> - Comprehensive performance metrics
    */
-  public async analyzeSensorData(sensorData: ISensorData): Promise<ISessionMetrics> {
+  public async analyzeSensorData(sensorData: ISensorData, events: IMovementEvent[] = []): Promise<ISessionMetrics> {
     try {
       // Validate incoming sensor data
       await validateSensorData(sensorData);
@@ -61,11 +76,28 @@ export class PerformanceAnalyzer {
       // Calculate muscle activity metrics
       const muscleActivity = this.calculateMuscleActivity(imuMetrics, tofMetrics);
 
-      // Calculate force distribution
-      const forceDistribution = this.calculateForceDistribution(tofMetrics);
+      // Calculate force distribution, keyed by the garment template location of the sensor
+      const forceDistribution = this.calculateForceDistribution(
+        tofMetrics,
+        sensorData.metadata?.placement?.location
+      );
+
+      // Joint ranges of motion from the session's segment orientations, including this packet.
+      // Replay runs are tracked apart from the live session they re-drive
+      const trackerKey = sensorData.replayId ?? sensorData.sessionId;
+      const tracker = this.getJointTracker(trackerKey);
+      tracker.add(sensorData);
+      const rangeOfMotion = tracker.rangeOfMotion();
+
+      // Running gait over the session's recent strides
+      const gaitTracker = this.getGaitTracker(trackerKey);
+      gaitTracker.add(sensorData, events);
+      const gait = gaitTracker.analysis();
 
-      // Analyze range of motion with baseline comparison
-      const rangeOfMotion = this.analyzeRangeOfMotion(imuMetrics);
+      // Take-offs and landings, with jump counts and landing load over the session
+      const jumpTracker = this.getJumpTracker(trackerKey);
+      jumpTracker.add(sensorData, events);
+      const jumps = jumpTracker.analysis();
 
       // Detect anomalies in movement patterns
       const anomalyScores = await this.detectAnomalies(
@@ -77,6 +109,8 @@ export class PerformanceAnalyzer {
         muscleActivity,
         forceDistribution,
         rangeOfMotion,
+        ...(gait.strideCount > 0 ? { gait } : {}),
+        ...(jumps.jumpCount > 0 ? { jumps } : {}),
         anomalyScores: {
           movement: {
             score: mathjs.mean(anomalyScores),
@@ -84,11 +118,15 @@ export class PerformanceAnalyzer {
             timestamp: new Date()
           }
         },
-        performanceIndicators: this.calculatePerformanceIndicators(
-          muscleActivity,
-          forceDistribution,
-          rangeOfMotion
-        )
+        performanceIndicators: {
+          ...this.calculatePerformanceIndicators(
+            muscleActivity,
+            forceDistribution,
+            rangeOfMotion
+          ),
+          ...gaitTracker.indicators(),
+          ...jumpTracker.indicators()
+        }
       };
     } catch (error) {
       console.error('Error analyzing sensor data:', error);
@@ -145,6 +183,84 @@ export class PerformanceAnalyzer {
     this.confidenceScores.set(athleteId, confidenceScore);
   }
 
+  /**
+   * Joint angle time series of a session over the joint kinematics window
+   * @param sessionId - Session identifier
+   * @returns Angle series per side and joint movement
+   */
+  public getJointAngles(sessionId: string): IJointAngleSeries[] {
+    return this.jointTrackers.get(sessionId)?.jointAngles() ?? [];
+  }
+
+  /**
+   * Running gait of a session over the gait analysis window
+   * @param sessionId - Session identifier
+   * @returns Gait summary and per-stride series, or null before the first measured stride
+   */
+  public getGait(sessionId: string): IGaitAnalysis | null {
+    const gait = this.gaitTrackers.get(sessionId)?.analysis();
+    return gait && gait.strideCount > 0 ? gait : null;
+  }
+
+  /**
+   * Jump and landing analysis of a session
+   * @param sessionId - Session identifier
+   * @returns Jump counts, landing load and recent jumps, or null before the first measured jump
+   */
+  public getJumps(sessionId: string): IJumpAnalysis | null {
+    const jumps = this.jumpTrackers.get(sessionId)?.analysis();
+    return jumps && jumps.jumpCount > 0 ? jumps : null;
+  }
+
+  /**
+   * Returns the joint kinematics tracker of a session, creating it on first use
+   * @private
+   */
+  private getJointTracker(sessionId: string): JointKinematicsTracker {
+    let tracker = this.jointTrackers.get(sessionId);
+    if (!tracker) {
+      // Maps iterate in insertion order, so the first key is the least recently started session
+      if (this.jointTrackers.size >= JOINT_KINEMATICS.maxTrackedSessions) {
+        this.jointTrackers.delete(this.jointTrackers.keys().next().value as string);
+      }
+      tracker = new JointKinematicsTracker();
+      this.jointTrackers.set(sessionId, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Returns the gait tracker of a session, creating it on first use
+   * @private
+   */
+  private getGaitTracker(sessionId: string): GaitTracker {
+    let tracker = this.gaitTrackers.get(sessionId);
+    if (!tracker) {
+      if (this.gaitTrackers.size >= GAIT_ANALYSIS.maxTrackedSessions) {
+        this.gaitTrackers.delete(this.gaitTrackers.keys().next().value as string);
+      }
+      tracker = new GaitTracker();
+      this.gaitTrackers.set(sessionId, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Returns the jump tracker of a session, creating it on first use
+   * @private
+   */
+  private getJumpTracker(sessionId: string): JumpTracker {
+    let tracker = this.jumpTrackers.get(sessionId);
+    if (!tracker) {
+      if (this.jumpTrackers.size >= JUMP_ANALYSIS.maxTrackedSessions) {
+        this.jumpTrackers.delete(this.jumpTrackers.keys().next().value as string);
+      }
+      tracker = new JumpTracker();
+      this.jumpTrackers.set(sessionId, tracker);
+    }
+    return tracker;
+  }
+
   /**
    * Processes IMU sensor data for biomechanical analysis
    * @private
@@ -200,7 +316,8 @@ export class PerformanceAnalyzer {
    * @private
    */
   private calculateForceDistribution(
-    tofMetrics: ISensorReading[]
+    tofMetrics: ISensorReading[],
+    location?: string
   ): Record<string, { magnitude: number; direction: number; balance: number }> {
     const result: Record<string, { magnitude: number; direction: number; balance: number }> = {};
     
@@ -210,27 +327,11 @@ export class PerformanceAnalyzer {
     const balance = this.calculateBalanceScore(forces);
 
     result['overall'] = { magnitude, direction, balance };
-    return result;
-  }
-
-  /**
-   * Analyzes range of motion with baseline comparison
-   * @private
-   */
-  private analyzeRangeOfMotion(
-    imuMetrics: ISensorReading[]
-  ): Record<string, { current: number; baseline: number; deviation: number }> {
-    const joints = ['knee', 'hip', 'ankle'];
-    const result: Record<string, { current: number; baseline: number; deviation: number }> = {};
-
-    joints.forEach(joint => {
-      const current = mathjs.max(imuMetrics.map(m => m.value[0]));
-      const baseline = mathjs.mean(Array.from(this.baselineData.values())[0] || []);
-      const deviation = Math.abs(current - baseline);
-
-      result[joint] = { current, baseline, deviation };
-    });
 
+    // Paired sensors also report under their segment, e.g. left_thigh, the same for every garment
+    if (location) {
+      result[location] = result['overall']!;
+    }
     return result;
   }
 
@@ -241,7 +342,7 @@ export class PerformanceAnalyzer {
   private calculatePerformanceIndicators(
     muscleActivity: Record<string, { current: number; baseline: number; variance: number }>,
     forceDistribution: Record<string, { magnitude: number; direction: number; balance: number }>,
-    rangeOfMotion: Record<string, { current: number; baseline: number; deviation: number }>
+    rangeOfMotion: Record<string, IJointRangeOfMotion>
   ): Record<string, { value: number; trend: number; threshold: number }> {
     return {
       efficiency: {
@@ -304,10 +405,12 @@ export class PerformanceAnalyzer {
    * @private
    */
   private calculateTechniqueScore(
-    rangeOfMotion: Record<string, { current: number; baseline: number; deviation: number }>
+    rangeOfMotion: Record<string, IJointRangeOfMotion>
   ): number {
-    return 1 - mathjs.mean(
-      Object.values(rangeOfMotion).map(rom => rom.deviation / rom.baseline)
-    );
+    // Repetition consistency: how far the latest repetitions stray from the mean repetition
+    const deviations = Object.values(rangeOfMotion)
+      .filter(rom => rom.reps.length > 0 && rom.baseline > 0)
+      .map(rom => rom.deviation / rom.baseline);
+    return deviations.length > 0 ? 1 - mathjs.mean(deviations) : 0;
   }
 }
\ No newline at end of file
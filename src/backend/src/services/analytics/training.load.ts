@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Training load model.
+ *
+ * - Session external load accumulates the magnitude of the change in acceleration between
+ *   consecutive samples of the session's trunk or pelvis IMU, in g, scaled by
+ *   TRAINING_LOAD.loadScale. Sample pairs across a dropout add nothing.
+ * - Session loads are summed per UTC day, with days without sessions counting as zero.
+ * - Acute (7-day) and chronic (28-day) loads are exponentially weighted moving averages with
+ *   decay 2 / (days + 1), or plain averages of the window's daily loads. Uncoupled chronic loads
+ *   exclude the acute window: the EWMA is taken as of the day before it and the rolling average
+ *   covers the 28 days before it.
+ * - ACWR is acute over chronic load. Monotony is the mean over the standard deviation of the
+ *   last 7 daily loads, and strain is their sum times monotony.
+ *
+ * @version 1.0.0
+ */
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import {
+    IAthleteTrainingLoad,
+    IDailyLoad,
+    ISessionLoad,
+    ITeamTrainingLoadSettings,
+    ITrainingLoadDay
+} from '../../interfaces/load.interface';
+import { GRAVITY_MS2, IMU_CHANNELS, SENSOR_TYPES, TRAINING_LOAD } from '../../constants/sensor.constants';
+
+export const DAY_MS = 86400000;
+
+/**
+ * Accumulates one session's external load
+ */
+export class SessionLoadTracker {
+    private _sourceSensorId: string | null = null;
+    private _previous: { timestamp: number; accel: number[] } | null = null;
+    private _startTime: number | null = null;
+    private _load = 0;
+
+    /**
+     * Adds a processed packet. The first trunk or pelvis IMU of the session becomes its load
+     * source; packets of other sensors are ignored.
+     * @param data - Processed sensor data
+     * @returns Load added by the packet
+     */
+    public add(data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'>): number {
+        const placement = data.metadata?.placement;
+        if (this._sourceSensorId === null) {
+            const imu = (data.readings ?? []).some(reading => reading.type === SENSOR_TYPES.IMU);
+            if (!imu || !placement || !(TRAINING_LOAD.loadSegments as readonly string[]).includes(placement.segment)) {
+                return 0;
+            }
+            this._sourceSensorId = data.sensorId;
+        }
+        if (data.sensorId !== this._sourceSensorId) {
+            return 0;
+        }
+
+        let added = 0;
+        const readings = data.readings
+            .filter(reading => reading.type === SENSOR_TYPES.IMU)
+            .sort((a, b) => a.timestamp - b.timestamp);
+        for (const reading of readings) {
+            if (this._previous && reading.timestamp <= this._previous.timestamp) {
+                continue;
+            }
+            const accel = IMU_CHANNELS.accel.map(channel => (reading.value[channel] ?? 0) / GRAVITY_MS2);
+            if (this._previous && reading.timestamp - this._previous.timestamp <= TRAINING_LOAD.maxSampleGapMs) {
+                const previous = this._previous.accel;
+                added += TRAINING_LOAD.loadScale * Math.sqrt(accel.reduce((sum, value, axis) => sum + (value - previous[axis]!) ** 2, 0));
+            }
+            this._startTime ??= reading.timestamp;
+            this._previous = { timestamp: reading.timestamp, accel };
+        }
+
+        this._load += added;
+        return added;
+    }
+
+    /**
+     * Load accumulated so far, null until a source sensor has contributed samples
+     */
+    public snapshot(): Pick<ISessionLoad, 'startTime' | 'endTime' | 'load' | 'sourceSensorId'> | null {
+        if (this._sourceSensorId === null || this._startTime === null || !this._previous) {
+            return null;
+        }
+        return {
+            startTime: this._startTime,
+            endTime: this._previous.timestamp,
+            load: this._load,
+            sourceSensorId: this._sourceSensorId
+        };
+    }
+}
+
+/**
+ * Computes an athlete's training load as of a day
+ * @param athleteId - Athlete ID
+ * @param dailyLoads - Daily loads; days missing from the list count as zero
+ * @param asOf - UTC day as YYYY-MM-DD
+ * @param settings - Averaging model, chronic window coupling and ACWR band
+ * @returns Rolling loads, ACWR, monotony and strain
+ */
+export function computeTrainingLoad(
+    athleteId: string,
+    dailyLoads: IDailyLoad[],
+    asOf: string,
+    settings: ITeamTrainingLoadSettings
+): IAthleteTrainingLoad {
+    const { acuteDays, chronicDays, historyDays } = TRAINING_LOAD;
+    const end = Date.parse(`${asOf}T00:00:00Z`);
+    const dates = Array.from({ length: historyDays }, (_, index) => dayKey(end - (historyDays - 1 - index) * DAY_MS));
+    const byDate = new Map<string, number>();
+    for (const day of dailyLoads) {
+        byDate.set(day.date, (byDate.get(day.date) ?? 0) + day.load);
+    }
+    const loads = dates.map(date => byDate.get(date) ?? 0);
+
+    let acute: number[];
+    let chronic: number[];
+    if (settings.model === 'ewma') {
+        acute = ewma(loads, acuteDays);
+        const chronicEwma = ewma(loads, chronicDays);
+        chronic = settings.coupling === 'coupled'
+            ? chronicEwma
+            : loads.map((_, index) => chronicEwma[index - acuteDays] ?? 0);
+    } else {
+        acute = loads.map((_, index) => windowMean(loads, index - acuteDays + 1, index));
+        chronic = settings.coupling === 'coupled'
+            ? loads.map((_, index) => windowMean(loads, index - chronicDays + 1, index))
+            : loads.map((_, index) => windowMean(loads, index - acuteDays - chronicDays + 1, index - acuteDays));
+    }
+
+    const series: ITrainingLoadDay[] = dates.map((date, index) => ({
+        date,
+        load: loads[index]!,
+        acute: acute[index]!,
+        chronic: chronic[index]!,
+        acwr: chronic[index]! > 0 ? acute[index]! / chronic[index]! : null
+    }));
+    const today = series[series.length - 1]!;
+
+    const week = loads.slice(-acuteDays);
+    const weeklyLoad = week.reduce((sum, load) => sum + load, 0);
+    const weekMean = weeklyLoad / week.length;
+    const deviation = Math.sqrt(week.reduce((sum, load) => sum + (load - weekMean) ** 2, 0) / week.length);
+    const monotony = deviation > 0 ? weekMean / deviation : null;
+
+    const first = loads.findIndex(load => load > 0);
+
+    return {
+        athleteId,
+        asOf,
+        model: settings.model,
+        coupling: settings.coupling,
+        acwrBand: settings.acwrBand,
+        historyDays: first === -1 ? 0 : loads.length - first,
+        acuteLoad: today.acute,
+        chronicLoad: today.chronic,
+        acwr: today.acwr,
+        weeklyLoad,
+        monotony,
+        strain: monotony === null ? null : weeklyLoad * monotony,
+        series: series.slice(-TRAINING_LOAD.seriesDays)
+    };
+}
+
+/**
+ * UTC day of an epoch millisecond timestamp as YYYY-MM-DD
+ */
+export const dayKey = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Exponentially weighted moving average of daily loads, starting from zero load
+ */
+const ewma = (loads: number[], days: number): number[] => {
+    const decay = 2 / (days + 1);
+    let average = 0;
+    return loads.map(load => {
+        average = decay * load + (1 - decay) * average;
+        return average;
+    });
+};
+
+/**
+ * Mean daily load from index start to end inclusive, with days before the history as zero
+ */
+const windowMean = (loads: number[], start: number, end: number): number => {
+    let sum = 0;
+    for (let index = Math.max(0, start); index <= end; index++) {
+        sum += loads[index] ?? 0;
+    }
+    return sum / (end - start + 1);
+};
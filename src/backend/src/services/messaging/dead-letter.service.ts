@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Dead-letter management for Kafka messages that workers could not parse or
+ * process. Consumes the dead-letter topic into durable storage and lets admins inspect stored
+ * messages, re-queue them onto their source topic once the cause is fixed, or discard them.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Consumer, Producer, KafkaMessage, IHeaders, EachMessagePayload } from 'kafkajs'; // v2.2.4
+
+import {
+    IDeadLetterMessage,
+    IDeadLetterFilter,
+    DeadLetterErrorType
+} from '../../interfaces/dead-letter.interface';
+import { DEAD_LETTER_CONFIG } from '../../constants/system.constants';
+import { KAFKA_TOPICS } from '../../config/kafka.config';
+import { DeadLetterRepository } from '../../db/repositories/dead-letter.repository';
+import { DEAD_LETTER_HEADERS, getHeader, getRetryCount } from '../../utils/dead-letter.util';
+
+/**
+ * Header names that carry dead-letter context rather than original message headers
+ */
+const CONTEXT_HEADERS = new Set<string>(Object.values(DEAD_LETTER_HEADERS));
+
+/**
+ * Persists dead-lettered messages and handles admin re-queue and discard requests
+ */
+@injectable()
+export class DeadLetterService {
+    /**
+     * Initializes the dead-letter service with its storage and Kafka clients
+     */
+    constructor(
+        private readonly _deadLetterRepository: DeadLetterRepository,
+        private readonly _producer: Producer,
+        private readonly _consumer: Consumer,
+        private readonly _logger: Logger
+    ) {}
+
+    /**
+     * Starts consuming the dead-letter topic into storage
+     */
+    public async start(): Promise<void> {
+        await this._producer.connect();
+        await this._consumer.connect();
+        await this._consumer.subscribe({
+            topic: KAFKA_TOPICS.DEAD_LETTER,
+            fromBeginning: true
+        });
+
+        await this._consumer.run({
+            eachMessage: async (payload: EachMessagePayload) => {
+                await this.storeMessage(payload.message);
+            }
+        });
+
+        this._logger.info('Dead-letter consumer started', { topic: KAFKA_TOPICS.DEAD_LETTER });
+    }
+
+    /**
+     * Stops consuming and disconnects Kafka clients
+     */
+    public async stop(): Promise<void> {
+        await this._consumer.disconnect();
+        await this._producer.disconnect();
+    }
+
+    /**
+     * Stores a message consumed from the dead-letter topic
+     * @param message - Dead-letter topic message
+     */
+    public async storeMessage(message: KafkaMessage): Promise<void> {
+        const headers = this.decodeHeaders(message.headers);
+        const originalHeaders = Object.fromEntries(
+            Object.entries(headers).filter(([name]) => !CONTEXT_HEADERS.has(name))
+        );
+
+        const stored = await this._deadLetterRepository.recordMessage({
+            sourceTopic: headers[DEAD_LETTER_HEADERS.SOURCE_TOPIC] ?? 'unknown',
+            sourcePartition: Number(headers[DEAD_LETTER_HEADERS.SOURCE_PARTITION] ?? -1),
+            sourceOffset: headers[DEAD_LETTER_HEADERS.SOURCE_OFFSET] ?? message.offset,
+            workerName: headers[DEAD_LETTER_HEADERS.WORKER] ?? 'unknown',
+            errorType: (headers[DEAD_LETTER_HEADERS.ERROR_TYPE] ?? 'PROCESSING_ERROR') as DeadLetterErrorType,
+            errorMessage: headers[DEAD_LETTER_HEADERS.ERROR_MESSAGE] ?? '',
+            retryCount: getRetryCount(message.headers),
+            attempts: Number(headers[DEAD_LETTER_HEADERS.ATTEMPTS] ?? 1),
+            failedAt: new Date(headers[DEAD_LETTER_HEADERS.FAILED_AT] ?? Number(message.timestamp)),
+            key: message.key ? message.key.toString() : null,
+            payload: message.value ? message.value.toString() : '',
+            headers: originalHeaders
+        });
+
+        if (stored) {
+            this._logger.info('Dead-lettered message stored', {
+                sourceTopic: headers[DEAD_LETTER_HEADERS.SOURCE_TOPIC],
+                workerName: headers[DEAD_LETTER_HEADERS.WORKER],
+                errorType: headers[DEAD_LETTER_HEADERS.ERROR_TYPE]
+            });
+        }
+    }
+
+    /**
+     * Lists stored dead-letter messages
+     * @param filter - Status, worker, topic and error type filters with pagination
+     * @returns Matching messages and total count
+     */
+    public async listMessages(filter: IDeadLetterFilter = {}): Promise<{ messages: IDeadLetterMessage[]; total: number }> {
+        if (filter.limit !== undefined && (!Number.isInteger(filter.limit) || filter.limit < 1)) {
+            throw new Error('Limit must be a positive integer');
+        }
+        if (filter.offset !== undefined && (!Number.isInteger(filter.offset) || filter.offset < 0)) {
+            throw new Error('Offset must be a non-negative integer');
+        }
+
+        return this._deadLetterRepository.listMessages(filter);
+    }
+
+    /**
+     * Retrieves a stored dead-letter message
+     * @param id - Message ID
+     * @returns Stored message
+     */
+    public async getMessage(id: string): Promise<IDeadLetterMessage> {
+        const message = await this._deadLetterRepository.getMessage(id);
+        if (!message) {
+            throw new Error(`Dead-letter message ${id} not found`);
+        }
+        return message;
+    }
+
+    /**
+     * Re-publishes a pending message to its source topic with an incremented retry count
+     * @param id - Message ID
+     * @param requestedBy - ID of the admin re-queueing the message
+     * @returns Updated message
+     */
+    public async requeueMessage(id: string, requestedBy: string): Promise<IDeadLetterMessage> {
+        const message = await this.getPendingMessage(id);
+
+        if (message.retryCount >= DEAD_LETTER_CONFIG.MAX_REQUEUES) {
+            throw new Error(
+                `Dead-letter message ${id} has reached the re-queue limit of ${DEAD_LETTER_CONFIG.MAX_REQUEUES}`
+            );
+        }
+
+        // Claim the message before publishing so concurrent requests cannot both re-queue it
+        const resolved = await this.resolve(id, 'REQUEUED', requestedBy);
+
+        try {
+            await this._producer.send({
+                topic: message.sourceTopic,
+                messages: [{
+                    key: message.key,
+                    value: message.payload,
+                    headers: {
+                        ...message.headers,
+                        [DEAD_LETTER_HEADERS.RETRY_COUNT]: String(message.retryCount + 1)
+                    }
+                }]
+            });
+        } catch (error) {
+            await this._deadLetterRepository.reopenMessage(id);
+            this._logger.error('Dead-letter message re-queue failed', {
+                id,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            throw error;
+        }
+
+        this._logger.info('Dead-letter message re-queued', {
+            id,
+            sourceTopic: message.sourceTopic,
+            retryCount: message.retryCount + 1,
+            requestedBy
+        });
+
+        return resolved;
+    }
+
+    /**
+     * Discards a pending message so it is no longer offered for re-queueing
+     * @param id - Message ID
+     * @param requestedBy - ID of the admin discarding the message
+     * @param reason - Optional reason recorded with the message
+     * @returns Updated message
+     */
+    public async discardMessage(id: string, requestedBy: string, reason?: string): Promise<IDeadLetterMessage> {
+        await this.getPendingMessage(id);
+        const resolved = await this.resolve(id, 'DISCARDED', requestedBy, reason ?? null);
+
+        this._logger.info('Dead-letter message discarded', { id, requestedBy, reason });
+
+        return resolved;
+    }
+
+    /**
+     * Loads a message and checks it has not already been resolved
+     */
+    private async getPendingMessage(id: string): Promise<IDeadLetterMessage> {
+        const message = await this.getMessage(id);
+        if (message.status !== 'PENDING') {
+            throw new Error(`Dead-letter message ${id} is already ${message.status.toLowerCase()}`);
+        }
+        return message;
+    }
+
+    /**
+     * Marks a message resolved, failing if another request resolved it first
+     */
+    private async resolve(
+        id: string,
+        status: 'REQUEUED' | 'DISCARDED',
+        requestedBy: string,
+        reason: string | null = null
+    ): Promise<IDeadLetterMessage> {
+        const resolved = await this._deadLetterRepository.resolveMessage(id, status, requestedBy, reason);
+        if (!resolved) {
+            throw new Error(`Dead-letter message ${id} was resolved by another request`);
+        }
+        return resolved;
+    }
+
+    /**
+     * Decodes Kafka headers into strings
+     */
+    private decodeHeaders(headers: IHeaders | undefined): Record<string, string> {
+        const decoded: Record<string, string> = {};
+        for (const name of Object.keys(headers ?? {})) {
+            const value = getHeader(headers, name);
+            if (value !== undefined) {
+                decoded[name] = value;
+            }
+        }
+        return decoded;
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Local filesystem archive store used in place of object storage. Objects are
+ * written to a temporary file and renamed into place, so readers never see a partial archive.
+ *
+ * @version 1.0.0
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { IArchiveStore } from '../../interfaces/retention.interface';
+
+/**
+ * Archive store keeping each object as a file below a root directory
+ */
+export class LocalArchiveStore implements IArchiveStore {
+    private readonly _root: string;
+
+    /**
+     * Creates a store rooted at the given directory
+     * @param root - Directory holding archived objects
+     */
+    constructor(root: string) {
+        this._root = path.resolve(root);
+    }
+
+    /**
+     * Writes an object, replacing any existing object with the same key
+     */
+    public async put(key: string, data: Readable): Promise<void> {
+        const target = this.resolveKey(key);
+        const temporary = `${target}.${randomUUID()}.tmp`;
+
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        try {
+            await pipeline(data, createWriteStream(temporary));
+            await fs.rename(temporary, target);
+        } catch (error) {
+            await fs.rm(temporary, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Opens an object for reading
+     * @throws Error if the object does not exist
+     */
+    public async get(key: string): Promise<Readable> {
+        const target = this.resolveKey(key);
+        if (!await this.exists(key)) {
+            throw new Error(`Archive object ${key} not found`);
+        }
+        return createReadStream(target);
+    }
+
+    /**
+     * Deletes an object; deleting a missing object is not an error
+     */
+    public async delete(key: string): Promise<void> {
+        await fs.rm(this.resolveKey(key), { force: true });
+    }
+
+    /**
+     * Checks whether an object exists
+     */
+    public async exists(key: string): Promise<boolean> {
+        try {
+            await fs.access(this.resolveKey(key));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Maps a key to a file path, rejecting keys that would escape the root directory
+     */
+    private resolveKey(key: string): string {
+        const target = path.resolve(this._root, key);
+        if (!target.startsWith(this._root + path.sep)) {
+            throw new Error(`Invalid archive key: ${key}`);
+        }
+        return target;
+    }
+}
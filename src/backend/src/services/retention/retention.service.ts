@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Tiered retention enforcement for stored session data. Each run compresses
+ * sensor_data chunks that have left the hot tier, moves sessions that have reached the cold
+ * tier into the archive store, and deletes sessions whose cold tier has expired, using
+ * DATA_RETENTION or the storage policy of the athlete's teams. Archived sessions are restored
+ * on demand and kept in the database for another hot period.
+ *
+ * Archives are gzip-compressed newline-delimited JSON, one { table, row } record per line,
+ * starting with the session row and followed by its data tables in restore order.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Readable } from 'stream';
+import { createGzip, createGunzip } from 'zlib';
+
+import {
+    IArchiveRecord,
+    IArchiveStore,
+    IRestoreResult,
+    IRetentionCandidate,
+    IRetentionRunResult,
+    ISessionRetention
+} from '../../interfaces/retention.interface';
+import { RetentionRepository } from '../../db/repositories/retention.repository';
+import { RETENTION_CONFIG } from '../../constants/system.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Enforces retention tiers and restores archived sessions
+ */
+@injectable()
+export class RetentionService {
+    private _activeRun: Promise<IRetentionRunResult> | null;
+    private readonly _restores: Map<string, Promise<IRestoreResult>>;
+
+    /**
+     * Initializes the retention service with its storage dependencies
+     */
+    constructor(
+        private readonly _retentionRepository: RetentionRepository,
+        private readonly _archiveStore: IArchiveStore,
+        private readonly _logger: Logger
+    ) {
+        this._activeRun = null;
+        this._restores = new Map();
+    }
+
+    /**
+     * Runs retention enforcement; concurrent calls share the run in progress, including the
+     * reference time it was started with
+     * @param now - Reference time for the policy periods; ignored while a run is in progress
+     * @returns Counts of compressed chunks, archived and deleted sessions, and failures
+     */
+    public runRetention(now: Date = new Date()): Promise<IRetentionRunResult> {
+        if (!this._activeRun) {
+            this._activeRun = this.enforceRetention(now).finally(() => {
+                this._activeRun = null;
+            });
+        }
+        return this._activeRun;
+    }
+
+    /**
+     * Retrieves a session's retention state
+     * @param sessionId - Session identifier
+     * @returns Storage tier, archive location and effective policy
+     */
+    public async getSessionRetention(sessionId: string): Promise<ISessionRetention> {
+        const retention = await this._retentionRepository.getSessionRetention(sessionId);
+        if (!retention) {
+            throw new Error(`Session ${sessionId} not found or not yet ended`);
+        }
+        return retention;
+    }
+
+    /**
+     * Restores an archived session's data to the database; concurrent requests for the
+     * same session share one restore
+     * @param sessionId - Session identifier
+     * @param userId - User requesting the restore, recorded in the audit log
+     * @returns Restored row counts, or restored: false if the data was already in the database
+     */
+    public restoreSession(sessionId: string, userId: string): Promise<IRestoreResult> {
+        let restore = this._restores.get(sessionId);
+        if (!restore) {
+            restore = this.performRestore(sessionId, userId).finally(() => {
+                this._restores.delete(sessionId);
+            });
+            this._restores.set(sessionId, restore);
+        }
+        return restore;
+    }
+
+    /**
+     * Makes sure a session's data is in the database before it is read, restoring it from
+     * the archive store when the session is cold. Unknown and unfinished sessions are left as is.
+     * @param sessionId - Session identifier
+     * @param userId - User whose request needs the data, recorded in the audit log
+     */
+    public async ensureSessionAvailable(sessionId: string, userId: string): Promise<void> {
+        const retention = await this._retentionRepository.getSessionRetention(sessionId);
+        if (retention?.storageTier === 'cold') {
+            await this.restoreSession(sessionId, userId);
+        }
+    }
+
+    /**
+     * Compresses aged chunks, then archives or deletes one batch of due sessions
+     */
+    private async enforceRetention(now: Date): Promise<IRetentionRunResult> {
+        const startedAt = new Date();
+
+        const horizonDays = await this._retentionRepository.getCompressionHorizonDays();
+        const compressedChunks = await this._retentionRepository.compressSensorData(horizonDays);
+
+        const candidates = await this._retentionRepository.findRetentionCandidates(now, RETENTION_CONFIG.BATCH_SIZE);
+        const result: IRetentionRunResult = {
+            compressedChunks,
+            archivedSessions: 0,
+            deletedSessions: 0,
+            failures: [],
+            startedAt,
+            completedAt: startedAt
+        };
+
+        // Sessions are handled one at a time; a failed session is retried on the next run
+        for (const candidate of candidates) {
+            try {
+                if (candidate.action === 'delete') {
+                    await this.deleteSession(candidate);
+                    result.deletedSessions++;
+                } else {
+                    await this.archiveSession(candidate);
+                    result.archivedSessions++;
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                result.failures.push({
+                    sessionId: candidate.sessionId,
+                    action: candidate.action,
+                    error: message
+                });
+                this._logger.error('Retention action failed', {
+                    sessionId: candidate.sessionId,
+                    action: candidate.action,
+                    error: message
+                });
+            }
+        }
+
+        result.completedAt = new Date();
+        this._logger.info('Retention run completed', {
+            compressedChunks,
+            archivedSessions: result.archivedSessions,
+            deletedSessions: result.deletedSessions,
+            failures: result.failures.length,
+            durationMs: result.completedAt.getTime() - startedAt.getTime()
+        });
+
+        return result;
+    }
+
+    /**
+     * Writes a session's data to the archive store, then removes it from the database
+     */
+    private async archiveSession(candidate: IRetentionCandidate): Promise<void> {
+        const archiveKey = candidate.archiveKey
+            ?? `sessions/${candidate.endTime.getUTCFullYear()}/${candidate.sessionId}.ndjson.gz`;
+
+        // A restored session still has its archive, so only its rows are removed again
+        if (!candidate.archiveKey || !await this._archiveStore.exists(archiveKey)) {
+            await this._archiveStore.put(
+                archiveKey,
+                this.encodeArchive(this._retentionRepository.streamArchiveRecords(candidate.sessionId))
+            );
+        }
+
+        const rowCounts = await this._retentionRepository.archiveSession(
+            candidate.sessionId,
+            archiveKey,
+            RETENTION_CONFIG.SYSTEM_USER_ID
+        );
+
+        this._logger.info('Session archived', {
+            sessionId: candidate.sessionId,
+            archiveKey,
+            rowCounts
+        });
+    }
+
+    /**
+     * Deletes a session whose cold tier has expired, along with its archive
+     */
+    private async deleteSession(candidate: IRetentionCandidate): Promise<void> {
+        // The archive goes first so a failed delete never leaves an archive without its session
+        if (candidate.archiveKey) {
+            await this._archiveStore.delete(candidate.archiveKey);
+        }
+        await this._retentionRepository.deleteSession(candidate.sessionId, RETENTION_CONFIG.SYSTEM_USER_ID);
+
+        this._logger.info('Expired session deleted', {
+            sessionId: candidate.sessionId,
+            endTime: candidate.endTime
+        });
+    }
+
+    /**
+     * Restores a cold session's rows from its archive
+     */
+    private async performRestore(sessionId: string, userId: string): Promise<IRestoreResult> {
+        const retention = await this.getSessionRetention(sessionId);
+        if (retention.storageTier !== 'cold') {
+            return { sessionId, restored: false, rowCounts: {}, restoredUntil: retention.restoredUntil };
+        }
+        if (!retention.archiveKey) {
+            throw new Error(`Session ${sessionId} has no archive to restore from`);
+        }
+
+        const restoredUntil = new Date(Date.now() + retention.policy.hotDays * DAY_MS);
+        const archive = await this._archiveStore.get(retention.archiveKey);
+        const rowCounts = await this._retentionRepository.restoreSession(
+            sessionId,
+            this.decodeArchive(archive),
+            restoredUntil,
+            userId
+        );
+
+        this._logger.info('Session restored from archive', {
+            sessionId,
+            archiveKey: retention.archiveKey,
+            rowCounts,
+            restoredUntil,
+            userId
+        });
+
+        return { sessionId, restored: true, rowCounts, restoredUntil };
+    }
+
+    /**
+     * Encodes record batches as a gzip-compressed newline-delimited JSON stream
+     */
+    private encodeArchive(batches: AsyncIterable<IArchiveRecord[]>): Readable {
+        const lines = Readable.from((async function* () {
+            for await (const batch of batches) {
+                yield batch.map(record => `${JSON.stringify(record)}\n`).join('');
+            }
+        })());
+        const gzip = createGzip();
+
+        lines.on('error', error => gzip.destroy(error));
+        return lines.pipe(gzip);
+    }
+
+    /**
+     * Decodes an archive stream into batches of records from the same table
+     */
+    private async *decodeArchive(archive: Readable): AsyncGenerator<IArchiveRecord[]> {
+        const gunzip = createGunzip();
+        archive.on('error', error => gunzip.destroy(error));
+        gunzip.setEncoding('utf8');
+        archive.pipe(gunzip);
+
+        let remainder = '';
+        let batch: IArchiveRecord[] = [];
+
+        for await (const chunk of gunzip) {
+            const lines = (remainder + chunk).split('\n');
+            remainder = lines.pop() ?? '';
+
+            for (const line of lines) {
+                const record = JSON.parse(line) as IArchiveRecord;
+                if (batch.length > 0 &&
+                    (batch[0]!.table !== record.table || batch.length >= RETENTION_CONFIG.ROW_BATCH_SIZE)) {
+                    yield batch;
+                    batch = [];
+                }
+                batch.push(record);
+            }
+        }
+
+        // Every record ends with a newline, so leftover text means the archive was cut short
+        if (remainder) {
+            throw new Error('Archive is truncated');
+        }
+        if (batch.length > 0) {
+            yield batch;
+        }
+    }
+}
@@ -0,0 +1,419 @@
+/**
+ * @fileoverview Backfill ingestion for garment data buffered while an athlete trained out of
+ * range. Historical samples arrive as chunked uploads against an existing or closed session,
+ * are deduplicated against stored sensor data, and once the upload completes the affected time
+ * ranges are re-run through the processing pipeline and the backfilled packets are published to
+ * the sensor data topic, so analytics workers compute their metrics and alerts. Uploads are
+ * tracked durably so clients can resume after losing connectivity using the resume token issued
+ * at creation.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Producer } from 'kafkajs'; // v2.2.4
+import { createHash, randomBytes } from 'crypto';
+
+import {
+    ISensorData,
+    ISensorGap,
+    IBackfillChunk,
+    IBackfillUpload,
+    IBackfillProgress
+} from '../../interfaces/sensor.interface';
+import { BACKFILL_UPLOAD } from '../../constants/sensor.constants';
+import { KAFKA_TOPICS } from '../../config/kafka.config';
+import { BackfillRepository } from '../../db/repositories/backfill.repository';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { SensorDataProcessor } from './data.processor';
+
+/**
+ * Processing step recorded on packets re-run after a backfill
+ */
+const BACKFILL_PROCESSING_STEP = 'backfill_reprocess';
+
+/**
+ * Accepts chunked uploads of buffered sensor data and reprocesses the backfilled ranges
+ */
+@injectable()
+export class SensorBackfillService {
+    /**
+     * Initializes the backfill service with its storage and processing dependencies
+     */
+    constructor(
+        private readonly _backfillRepository: BackfillRepository,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _dataProcessor: SensorDataProcessor,
+        private readonly _producer: Producer,
+        private readonly _logger: Logger
+    ) {}
+
+    /**
+     * Connects the producer that hands reprocessed packets to analytics
+     */
+    public async start(): Promise<void> {
+        await this._producer.connect();
+    }
+
+    /**
+     * Disconnects the analytics producer
+     */
+    public async stop(): Promise<void> {
+        await this._producer.disconnect();
+    }
+
+    /**
+     * Starts a backfill upload for a session
+     * @param sessionId - Existing or closed session the samples belong to
+     * @param options - Announced chunk count, if known, and the requesting user
+     * @returns Upload progress including the resume token
+     */
+    public async createUpload(
+        sessionId: string,
+        options: { totalChunks?: number; requestedBy: string }
+    ): Promise<IBackfillProgress> {
+        const totalChunks = options.totalChunks ?? null;
+        if (totalChunks !== null &&
+            (!Number.isInteger(totalChunks) || totalChunks < 1 || totalChunks > BACKFILL_UPLOAD.maxChunks)) {
+            throw new Error(`Total chunks must be an integer between 1 and ${BACKFILL_UPLOAD.maxChunks}`);
+        }
+
+        if (!await this._backfillRepository.sessionExists(sessionId)) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+
+        const resumeToken = randomBytes(32).toString('base64url');
+        const upload = await this._backfillRepository.createUpload({
+            sessionId,
+            totalChunks,
+            requestedBy: options.requestedBy,
+            resumeTokenHash: this.hashToken(resumeToken),
+            expiresAt: new Date(Date.now() + BACKFILL_UPLOAD.resumeWindowMs)
+        });
+
+        this._logger.info('Backfill upload started', {
+            uploadId: upload.id,
+            sessionId,
+            totalChunks,
+            requestedBy: options.requestedBy
+        });
+
+        return { ...this.toProgress(upload), resumeToken };
+    }
+
+    /**
+     * Stores one chunk of an upload. Re-sending a stored chunk with the same contents is a no-op,
+     * so clients can safely retry chunks whose acknowledgement was lost.
+     * @param uploadId - Upload identifier
+     * @param resumeToken - Token issued when the upload was created
+     * @param chunk - Chunk index, packets and optional checksum
+     * @returns Updated upload progress
+     */
+    public async uploadChunk(
+        uploadId: string,
+        resumeToken: string,
+        chunk: IBackfillChunk
+    ): Promise<IBackfillProgress> {
+        const upload = await this.getAuthorizedUpload(uploadId, resumeToken);
+        this.assertReceiving(upload);
+        this.validateChunk(upload, chunk);
+
+        const checksum = this.computeChecksum(chunk.packets);
+        if (chunk.checksum && chunk.checksum.toLowerCase() !== checksum) {
+            throw new Error(`Checksum mismatch for chunk ${chunk.chunkIndex}`);
+        }
+
+        const existing = await this._backfillRepository.getChunk(upload.id, chunk.chunkIndex);
+        if (existing) {
+            if (existing.checksum !== checksum) {
+                throw new Error(`Chunk ${chunk.chunkIndex} was already received with different contents`);
+            }
+            return this.toProgress(upload);
+        }
+
+        const inserted = await this._backfillRepository.storeChunk(
+            upload,
+            chunk.chunkIndex,
+            checksum,
+            this.normalizePackets(upload.sessionId, chunk.packets)
+        );
+
+        this._logger.info('Backfill chunk stored', {
+            uploadId: upload.id,
+            chunkIndex: chunk.chunkIndex,
+            packetCount: chunk.packets.length,
+            insertedCount: inserted.length
+        });
+
+        return this.toProgress(await this.requireUpload(upload.id));
+    }
+
+    /**
+     * Closes an upload and reprocesses the backfilled time ranges in the background
+     * @param uploadId - Upload identifier
+     * @param resumeToken - Token issued when the upload was created
+     * @returns Upload progress in the processing state
+     */
+    public async completeUpload(uploadId: string, resumeToken: string): Promise<IBackfillProgress> {
+        const upload = await this.getAuthorizedUpload(uploadId, resumeToken);
+        this.assertReceiving(upload);
+
+        const progress = this.toProgress(upload);
+        if (progress.missingChunks.length > 0) {
+            throw new Error(`Upload ${uploadId} is missing chunks: ${progress.missingChunks.join(', ')}`);
+        }
+
+        await this._backfillRepository.updateStatus(upload.id, 'processing');
+
+        // Reprocess in the background; failures are captured on the upload status
+        this.reprocessUpload(upload).catch(error => this.failUpload(upload, error as Error));
+
+        return { ...progress, status: 'processing' };
+    }
+
+    /**
+     * Retrieves upload progress
+     * @param uploadId - Upload identifier
+     */
+    public async getProgress(uploadId: string): Promise<IBackfillProgress> {
+        return this.toProgress(await this.requireUpload(uploadId));
+    }
+
+    /**
+     * Looks up an upload from its resume token so an interrupted client can continue
+     * from the next missing chunk
+     * @param resumeToken - Token issued when the upload was created
+     * @returns Upload progress including the resume token
+     */
+    public async resumeUpload(resumeToken: string): Promise<IBackfillProgress> {
+        const upload = await this._backfillRepository.getUploadByTokenHash(this.hashToken(resumeToken));
+        if (!upload) {
+            throw new Error('Invalid resume token');
+        }
+
+        return { ...this.toProgress(upload), resumeToken };
+    }
+
+    /**
+     * Re-runs processing over each backfilled range, writing results back to stored sensor data
+     * and replacing the range's recorded gaps. Packets around the range are only re-read as
+     * filter context; just the backfilled packets are handed to analytics, since the others
+     * were analyzed when they arrived live.
+     */
+    private async reprocessUpload(upload: IBackfillUpload): Promise<void> {
+        const startTime = Date.now();
+        const sensors = await this._backfillRepository.getInsertedTimestamps(upload.id);
+        let rangeCount = 0;
+
+        for (const { sensorId, timestamps } of sensors) {
+            const backfilled = new Set(timestamps);
+            for (const range of this.mergeRanges(timestamps)) {
+                const scope = `backfill:${upload.id}:${rangeCount++}`;
+                const window = {
+                    sensorId,
+                    start: range.start - BACKFILL_UPLOAD.reprocessMarginMs,
+                    end: range.end + BACKFILL_UPLOAD.reprocessMarginMs
+                };
+                const gaps: ISensorGap[] = [];
+
+                for await (const batch of this._sensorRepository.streamSessionSensorData(
+                    upload.sessionId,
+                    undefined,
+                    window
+                )) {
+                    const updates = [];
+                    const analytics: ISensorData[] = [];
+                    for (const packet of batch) {
+                        const processed = await this._dataProcessor.processData(packet, { scope });
+                        gaps.push(...(processed.metadata.gapStats?.gaps ?? []));
+                        const update = {
+                            sensorId: packet.sensorId,
+                            timestamp: packet.timestamp,
+                            metadata: {
+                                ...processed.metadata,
+                                processingSteps: [...processed.metadata.processingSteps, BACKFILL_PROCESSING_STEP]
+                            },
+                            dataQuality: processed.quality * 100
+                        };
+                        updates.push(update);
+                        if (backfilled.has(packet.timestamp)) {
+                            analytics.push({ ...packet, ...update });
+                        }
+                    }
+                    await this._sensorRepository.updateSensorDataProcessing(upload.sessionId, updates);
+                    await this.publishForAnalytics(analytics);
+                }
+
+                await this._sensorRepository.replaceSensorGaps(upload.sessionId, window, gaps);
+            }
+        }
+
+        await this._backfillRepository.updateStatus(upload.id, 'completed');
+
+        this._logger.info('Backfill upload reprocessed', {
+            uploadId: upload.id,
+            sessionId: upload.sessionId,
+            rangeCount,
+            latency: Date.now() - startTime
+        });
+    }
+
+    /**
+     * Publishes reprocessed packets to the sensor data topic consumed by the analytics workers
+     */
+    private async publishForAnalytics(packets: ISensorData[]): Promise<void> {
+        if (packets.length === 0) {
+            return;
+        }
+
+        await this._producer.send({
+            topic: KAFKA_TOPICS.SENSOR_DATA,
+            messages: packets.map(packet => ({
+                key: packet.sensorId,
+                value: JSON.stringify(packet)
+            }))
+        });
+    }
+
+    /**
+     * Marks an upload as failed after a reprocessing error
+     */
+    private async failUpload(upload: IBackfillUpload, error: Error): Promise<void> {
+        this._logger.error('Backfill reprocessing failed', {
+            uploadId: upload.id,
+            sessionId: upload.sessionId,
+            error: error.message
+        });
+
+        try {
+            await this._backfillRepository.updateStatus(upload.id, 'failed', error.message);
+        } catch (statusError) {
+            this._logger.error('Failed to record backfill failure', {
+                uploadId: upload.id,
+                error: (statusError as Error).message
+            });
+        }
+    }
+
+    /**
+     * Loads an upload and checks the caller holds its resume token
+     */
+    private async getAuthorizedUpload(uploadId: string, resumeToken: string): Promise<IBackfillUpload> {
+        const upload = resumeToken
+            ? await this._backfillRepository.getUploadByTokenHash(this.hashToken(resumeToken))
+            : null;
+        if (!upload || upload.id !== uploadId) {
+            throw new Error('Invalid resume token');
+        }
+        return upload;
+    }
+
+    /**
+     * Loads an upload or throws when it does not exist
+     */
+    private async requireUpload(uploadId: string): Promise<IBackfillUpload> {
+        const upload = await this._backfillRepository.getUpload(uploadId);
+        if (!upload) {
+            throw new Error(`Backfill upload ${uploadId} not found`);
+        }
+        return upload;
+    }
+
+    /**
+     * Ensures an upload is still accepting chunks
+     */
+    private assertReceiving(upload: IBackfillUpload): void {
+        if (upload.status !== 'receiving') {
+            throw new Error(`Backfill upload ${upload.id} is ${upload.status}`);
+        }
+        if (new Date(upload.expiresAt).getTime() < Date.now()) {
+            throw new Error(`Backfill upload ${upload.id} has expired`);
+        }
+    }
+
+    /**
+     * Validates a chunk's index and packet structure
+     */
+    private validateChunk(upload: IBackfillUpload, chunk: IBackfillChunk): void {
+        if (!Number.isInteger(chunk.chunkIndex) || chunk.chunkIndex < 0 ||
+            (upload.totalChunks !== null && chunk.chunkIndex >= upload.totalChunks)) {
+            throw new Error(`Invalid chunk index ${chunk.chunkIndex}`);
+        }
+
+        if (!Array.isArray(chunk.packets) || chunk.packets.length > BACKFILL_UPLOAD.maxChunkPackets) {
+            throw new Error(`Chunks must contain at most ${BACKFILL_UPLOAD.maxChunkPackets} packets`);
+        }
+
+        chunk.packets.forEach(packet => {
+            if (!packet.sensorId || !Array.isArray(packet.readings) || !Number.isFinite(packet.timestamp)) {
+                throw new Error('Invalid sensor data structure');
+            }
+            if (packet.sessionId && packet.sessionId !== upload.sessionId) {
+                throw new Error(`Packet for session ${packet.sessionId} does not belong to upload ${upload.id}`);
+            }
+        });
+    }
+
+    /**
+     * Attaches packets to the upload's session and drops repeats of the same sample within the chunk
+     */
+    private normalizePackets(sessionId: string, packets: ISensorData[]): ISensorData[] {
+        const unique = new Map<string, ISensorData>();
+        packets.forEach(packet => {
+            unique.set(`${packet.sensorId}:${packet.timestamp}`, { ...packet, sessionId });
+        });
+        return Array.from(unique.values());
+    }
+
+    /**
+     * Groups sorted timestamps into contiguous ranges separated by more than the merge gap
+     */
+    private mergeRanges(timestamps: number[]): Array<{ start: number; end: number }> {
+        const ranges: Array<{ start: number; end: number }> = [];
+        timestamps.forEach(timestamp => {
+            const current = ranges[ranges.length - 1];
+            if (current && timestamp - current.end <= BACKFILL_UPLOAD.rangeMergeGapMs) {
+                current.end = Math.max(current.end, timestamp);
+            } else {
+                ranges.push({ start: timestamp, end: timestamp });
+            }
+        });
+        return ranges;
+    }
+
+    /**
+     * Builds the progress view of an upload
+     */
+    private toProgress(upload: IBackfillUpload): IBackfillProgress {
+        const received = new Set(upload.receivedChunks);
+        const missingChunks = upload.totalChunks === null
+            ? []
+            : Array.from({ length: upload.totalChunks }, (_, i) => i).filter(i => !received.has(i));
+        const nextChunkIndex = missingChunks[0] ??
+            (upload.receivedChunks.length > 0 ? Math.max(...upload.receivedChunks) + 1 : 0);
+
+        return {
+            ...upload,
+            percentComplete: upload.totalChunks === null
+                ? null
+                : Math.round((received.size / upload.totalChunks) * 100),
+            missingChunks,
+            nextChunkIndex
+        };
+    }
+
+    /**
+     * Computes the SHA-256 digest identifying a chunk's contents
+     */
+    private computeChecksum(packets: ISensorData[]): string {
+        return createHash('sha256').update(JSON.stringify(packets)).digest('hex');
+    }
+
+    /**
+     * Hashes a resume token for storage and lookup
+     */
+    private hashToken(resumeToken: string): string {
+        return createHash('sha256').update(resumeToken).digest('hex');
+    }
+}
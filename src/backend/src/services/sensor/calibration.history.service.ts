@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Versioned calibration history for sensors. Every calibration is stored as an
+ * immutable version with its operator, quality score and environmental conditions. Versions
+ * can be compared parameter by parameter, and a rollback restores the parameters of an
+ * earlier version by appending them as a new version.
+ *
+ * Sensor data is tagged with the version active at the packet's timestamp, so packets
+ * recorded after a rollback carry the rollback's version tag.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import {
+    ICalibrationContext,
+    ICalibrationDiff,
+    ICalibrationParamChange,
+    ICalibrationVersion
+} from '../../interfaces/calibration.interface';
+import { ISensorCalibrationParams } from '../../interfaces/sensor.interface';
+import { CalibrationRepository } from '../../db/repositories/calibration.repository';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { CALIBRATION_HISTORY, SENSOR_STATUS } from '../../constants/sensor.constants';
+
+/**
+ * Scalar calibration parameters compared by diffs, in display order
+ */
+const SCALAR_PARAMS: Array<keyof ISensorCalibrationParams> = [
+    'tofGain',
+    'imuDriftCorrection',
+    'pressureThreshold',
+    'sampleWindow',
+    'filterCutoff',
+    'temperatureCompensation'
+];
+
+/**
+ * Cached calibration history of a sensor
+ */
+interface CachedHistory {
+    loadedAt: number;
+    versions: Promise<ICalibrationVersion[]>;
+}
+
+/**
+ * Flattens calibration parameters into named numeric values, one per matrix cell and
+ * temperature model coefficient
+ */
+const flattenParams = (params: ISensorCalibrationParams): Map<string, number> => {
+    const values = new Map<string, number>();
+
+    for (const param of SCALAR_PARAMS) {
+        const value = params[param];
+        if (typeof value === 'number') {
+            values.set(param, value);
+        }
+    }
+
+    (params.calibrationMatrix ?? []).forEach((row, i) => {
+        row.forEach((value, j) => values.set(`calibrationMatrix[${i}][${j}]`, value));
+    });
+
+    if (params.temperatureModel) {
+        values.set('temperatureModel.referenceTemperature', params.temperatureModel.referenceTemperature);
+        for (const { channel, coefficients } of params.temperatureModel.channels) {
+            coefficients.forEach((value, power) =>
+                values.set(`temperatureModel.channel[${channel}][${power}]`, value));
+        }
+    }
+
+    return values;
+};
+
+/**
+ * Lists the parameters that differ between two calibrations
+ */
+const diffParams = (
+    from: ISensorCalibrationParams,
+    to: ISensorCalibrationParams
+): ICalibrationParamChange[] => {
+    const fromValues = flattenParams(from);
+    const toValues = flattenParams(to);
+    const names = [...fromValues.keys(), ...[...toValues.keys()].filter(name => !fromValues.has(name))];
+
+    return names
+        .filter(name => fromValues.get(name) !== toValues.get(name))
+        .map(name => {
+            const fromValue = fromValues.get(name) ?? null;
+            const toValue = toValues.get(name) ?? null;
+            return {
+                param: name,
+                from: fromValue,
+                to: toValue,
+                delta: fromValue !== null && toValue !== null ? toValue - fromValue : null
+            };
+        });
+};
+
+/**
+ * Records, compares and rolls back sensor calibration versions
+ */
+@injectable()
+export class CalibrationHistoryService {
+    private readonly _histories: Map<string, CachedHistory>;
+
+    /**
+     * Initializes the calibration history service with its storage dependencies
+     */
+    constructor(
+        private readonly _calibrationRepository: CalibrationRepository,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _logger: Logger
+    ) {
+        this._histories = new Map();
+    }
+
+    /**
+     * Formats the calibrationVersion tag stamped on sensor data
+     * @param version - Calibration version number
+     * @returns Version tag
+     */
+    public static toVersionTag(version: number): string {
+        return `${CALIBRATION_HISTORY.versionTagPrefix}${version}`;
+    }
+
+    /**
+     * Stores a completed calibration as the sensor's next version
+     * @param sensorId - Sensor identifier
+     * @param params - Calibration parameters applied to the sensor
+     * @param context - Operator, measured quality and environmental conditions
+     * @returns Stored version
+     */
+    public async recordCalibration(
+        sensorId: string,
+        params: ISensorCalibrationParams,
+        context: ICalibrationContext
+    ): Promise<ICalibrationVersion> {
+        if (!Number.isFinite(context.qualityScore)) {
+            throw new Error('Calibration quality score must be a number');
+        }
+
+        const record = await this._calibrationRepository.createVersion({
+            sensorId,
+            params,
+            operatorId: context.operatorId,
+            qualityScore: context.qualityScore,
+            environmentalConditions: context.environmentalConditions ?? {},
+            restoredFrom: null
+        });
+        this._histories.delete(sensorId);
+
+        this._logger.info('Calibration version recorded', {
+            sensorId,
+            version: record.version,
+            operatorId: context.operatorId,
+            qualityScore: context.qualityScore
+        });
+
+        return record;
+    }
+
+    /**
+     * Lists a sensor's calibration versions, oldest first
+     * @param sensorId - Sensor identifier
+     * @returns Calibration versions
+     */
+    public async getHistory(sensorId: string): Promise<ICalibrationVersion[]> {
+        return this._calibrationRepository.listVersions(sensorId);
+    }
+
+    /**
+     * Retrieves one calibration version of a sensor
+     * @param sensorId - Sensor identifier
+     * @param version - Version number
+     * @returns Calibration version
+     */
+    public async getVersion(sensorId: string, version: number): Promise<ICalibrationVersion> {
+        if (!Number.isInteger(version) || version < 1) {
+            throw new Error('Invalid calibration version: must be a positive integer');
+        }
+
+        const record = await this._calibrationRepository.getVersion(sensorId, version);
+        if (!record) {
+            throw new Error(`Calibration version ${version} of sensor ${sensorId} not found`);
+        }
+
+        return record;
+    }
+
+    /**
+     * Compares the parameters of two calibration versions of a sensor
+     * @param sensorId - Sensor identifier
+     * @param fromVersion - Version compared from
+     * @param toVersion - Version compared to
+     * @returns Parameters that changed between the versions
+     */
+    public async diffVersions(
+        sensorId: string,
+        fromVersion: number,
+        toVersion: number
+    ): Promise<ICalibrationDiff> {
+        const [from, to] = await Promise.all([
+            this.getVersion(sensorId, fromVersion),
+            this.getVersion(sensorId, toVersion)
+        ]);
+
+        return {
+            sensorId,
+            fromVersion,
+            toVersion,
+            changes: diffParams(from.params, to.params)
+        };
+    }
+
+    /**
+     * Restores the calibration of an earlier version. The restored parameters are applied to
+     * the sensor and stored as a new version, which tags the sensor's data from then on.
+     * @param sensorId - Sensor identifier
+     * @param version - Version to restore
+     * @param operatorId - User performing the rollback
+     * @returns New version carrying the restored parameters
+     */
+    public async rollbackToVersion(
+        sensorId: string,
+        version: number,
+        operatorId: string
+    ): Promise<ICalibrationVersion> {
+        const target = await this.getVersion(sensorId, version);
+
+        const sensor = await this._sensorRepository.getSensor(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+        if (sensor.status === SENSOR_STATUS.CALIBRATING) {
+            throw new Error('Sensor is already being calibrated');
+        }
+
+        const history = await this._calibrationRepository.listVersions(sensorId);
+        const current = history[history.length - 1]!;
+        if (diffParams(current.params, target.params).length === 0) {
+            throw new Error(`Calibration version ${version} is already active`);
+        }
+
+        await this._sensorRepository.bulkUpdateSensors([{
+            id: sensorId,
+            updates: { calibrationParams: target.params, lastCalibration: new Date() }
+        }]);
+
+        const record = await this._calibrationRepository.createVersion({
+            sensorId,
+            params: target.params,
+            operatorId,
+            qualityScore: target.qualityScore,
+            environmentalConditions: target.environmentalConditions,
+            restoredFrom: target.version
+        });
+        this._histories.delete(sensorId);
+
+        this._logger.info('Calibration rolled back', {
+            sensorId,
+            restoredFrom: target.version,
+            replacedVersion: current.version,
+            version: record.version,
+            operatorId
+        });
+
+        return record;
+    }
+
+    /**
+     * Resolves the calibrationVersion tag for a packet of sensor data
+     * @param sensorId - Sensor identifier
+     * @param timestamp - Packet timestamp in milliseconds
+     * @returns Tag of the version active at the timestamp, or null before the first calibration
+     */
+    public async getVersionTag(sensorId: string, timestamp: number): Promise<string | null> {
+        const active = await this.getActiveVersion(sensorId, timestamp);
+        return active ? CalibrationHistoryService.toVersionTag(active.version) : null;
+    }
+
+    /**
+     * Resolves the calibration a packet of sensor data was recorded with
+     * @param sensorId - Sensor identifier
+     * @param timestamp - Packet timestamp in milliseconds
+     * @returns Version active at the timestamp, or null before the first calibration
+     */
+    public async getActiveVersion(sensorId: string, timestamp: number): Promise<ICalibrationVersion | null> {
+        const versions = await this.getCachedHistory(sensorId);
+
+        let active: ICalibrationVersion | null = null;
+        for (const version of versions) {
+            if (new Date(version.createdAt).getTime() > timestamp) {
+                break;
+            }
+            active = version;
+        }
+
+        return active;
+    }
+
+    /**
+     * Returns a sensor's calibration history from memory, reloading it once it has expired
+     */
+    private getCachedHistory(sensorId: string): Promise<ICalibrationVersion[]> {
+        const cached = this._histories.get(sensorId);
+        if (cached && Date.now() - cached.loadedAt < CALIBRATION_HISTORY.cacheTtlMs) {
+            return cached.versions;
+        }
+
+        const versions = this._calibrationRepository.listVersions(sensorId);
+        versions.catch(() => this._histories.delete(sensorId));
+
+        // Maps iterate in insertion order, so the first key is the oldest entry
+        this._histories.delete(sensorId);
+        if (this._histories.size >= CALIBRATION_HISTORY.maxCachedSensors) {
+            this._histories.delete(this._histories.keys().next().value as string);
+        }
+        this._histories.set(sensorId, { loadedAt: Date.now(), versions });
+
+        return versions;
+    }
+}
@@ -0,0 +1,372 @@
+/**
+ * @fileoverview Guided calibration protocol runs. A run coaches the athlete through a fixed
+ * sequence of poses and movements (static stand, T-pose, squat, walk), captures the sensor's
+ * live readings during each step and accepts the step when its criteria are met, retrying a
+ * rejected capture up to CALIBRATION_PROTOCOL.maxAttempts times.
+ *
+ * Each step starts with a preparation countdown, followed by the capture and its evaluation.
+ * Every phase change and capture tick is published on progressUpdates. A completed run
+ * applies the derived parameters to the sensor and records them as a calibration version.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Observable, Subject } from 'rxjs'; // v7.8.0
+import { randomUUID } from 'crypto';
+
+import {
+    CalibrationStepId,
+    CalibrationStepPhase,
+    ICalibrationProgress,
+    ICalibrationRun,
+    ICalibrationStepResult
+} from '../../interfaces/calibration.interface';
+import { ISensorCalibrationParams, ISensorData, ISensorReading } from '../../interfaces/sensor.interface';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { CalibrationHistoryService } from './calibration.history.service';
+import { CalibrationStep, deriveProtocolParams, evaluateCapture } from './calibration.protocol';
+import { CALIBRATION_PROTOCOL, SENSOR_STATUS, SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Planned length of each step without retries
+ */
+const STEP_DURATIONS = CALIBRATION_PROTOCOL.steps.map(step => CALIBRATION_PROTOCOL.prepareMs + step.captureMs);
+const PROTOCOL_DURATION = STEP_DURATIONS.reduce((sum, duration) => sum + duration, 0);
+
+/**
+ * In-memory state of a sensor's latest run
+ */
+interface ActiveRun {
+    run: ICalibrationRun;
+    sensorType: SENSOR_TYPES;
+    previousStatus: SENSOR_STATUS;
+    currentParams: ISensorCalibrationParams;
+
+    /** Readings of the capture in progress; null outside captures */
+    capture: ISensorReading[] | null;
+
+    /** Latest environmental factors reported with the sensor's data */
+    conditions: Record<string, number>;
+
+    /** Ends the current wait early when the run is cancelled */
+    wake: (() => void) | null;
+    timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Runs guided calibration protocols and streams their progress
+ */
+@injectable()
+export class CalibrationProtocolService {
+    private readonly _progress: Subject<ICalibrationProgress>;
+    private readonly _runs: Map<string, ActiveRun>;
+
+    /**
+     * Initializes the protocol service with its sensor and history dependencies
+     */
+    constructor(
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _calibrationHistoryService: CalibrationHistoryService,
+        private readonly _logger: Logger
+    ) {
+        this._progress = new Subject<ICalibrationProgress>();
+        this._runs = new Map();
+    }
+
+    /**
+     * Stream of run phase changes, capture progress and step results
+     */
+    public get progressUpdates(): Observable<ICalibrationProgress> {
+        return this._progress.asObservable();
+    }
+
+    /**
+     * Starts a guided calibration run of a sensor in the background
+     * @param sensorId - Sensor to calibrate
+     * @param operatorId - Staff member coaching the athlete
+     * @returns Started run
+     */
+    public async startProtocol(sensorId: string, operatorId: string): Promise<ICalibrationRun> {
+        const sensor = await this._sensorRepository.getSensor(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+        if (this._runs.get(sensorId)?.run.status === 'running' || sensor.status === SENSOR_STATUS.CALIBRATING) {
+            throw new Error('Sensor is already being calibrated');
+        }
+        if (sensor.status === SENSOR_STATUS.UPDATING) {
+            throw new Error(`Sensor ${sensorId} cannot be calibrated during a firmware update`);
+        }
+
+        const active: ActiveRun = {
+            run: {
+                id: randomUUID(),
+                sensorId,
+                operatorId,
+                status: 'running',
+                stepIndex: 0,
+                attempt: 1,
+                phase: 'preparing',
+                results: [],
+                version: null,
+                error: null,
+                startedAt: new Date(),
+                finishedAt: null
+            },
+            sensorType: sensor.type,
+            previousStatus: sensor.status,
+            currentParams: sensor.calibrationParams,
+            capture: null,
+            conditions: {},
+            wake: null,
+            timer: null
+        };
+
+        await this._sensorRepository.bulkUpdateSensors([{
+            id: sensorId,
+            updates: { status: SENSOR_STATUS.CALIBRATING }
+        }]);
+        this._runs.set(sensorId, active);
+
+        this._logger.info('Calibration protocol started', { runId: active.run.id, sensorId, operatorId });
+
+        void this.executeRun(active);
+        return { ...active.run };
+    }
+
+    /**
+     * Cancels a sensor's running calibration; the sensor keeps its previous calibration
+     * @param sensorId - Sensor being calibrated
+     * @returns Cancelled run
+     */
+    public cancelProtocol(sensorId: string): ICalibrationRun {
+        const active = this._runs.get(sensorId);
+        if (!active || active.run.status !== 'running') {
+            throw new Error(`Calibration run of sensor ${sensorId} not found`);
+        }
+
+        active.run.status = 'cancelled';
+        if (active.timer) {
+            clearTimeout(active.timer);
+        }
+        active.wake?.();
+
+        return { ...active.run };
+    }
+
+    /**
+     * Retrieves a sensor's latest calibration run
+     * @param sensorId - Sensor identifier
+     * @returns Latest run
+     */
+    public getRun(sensorId: string): ICalibrationRun {
+        const active = this._runs.get(sensorId);
+        if (!active) {
+            throw new Error(`Calibration run of sensor ${sensorId} not found`);
+        }
+        return { ...active.run };
+    }
+
+    /**
+     * Feeds live sensor data to the capture in progress of the packet's sensor
+     * @param data - Live sensor data packet
+     */
+    public ingest(data: ISensorData): void {
+        const active = this._runs.get(data.sensorId);
+        if (!active?.capture || data.replayId) {
+            return;
+        }
+
+        active.capture.push(...data.readings);
+        if (data.metadata?.environmentalFactors && Object.keys(data.metadata.environmentalFactors).length > 0) {
+            active.conditions = data.metadata.environmentalFactors;
+        }
+    }
+
+    /**
+     * Moves a run through every protocol step, then applies and records the calibration
+     */
+    private async executeRun(active: ActiveRun): Promise<void> {
+        const { run } = active;
+
+        try {
+            for (let stepIndex = 0; stepIndex < CALIBRATION_PROTOCOL.steps.length; stepIndex++) {
+                const step = CALIBRATION_PROTOCOL.steps[stepIndex]!;
+                run.stepIndex = stepIndex;
+
+                let result: ICalibrationStepResult | null = null;
+                for (let attempt = 1; attempt <= CALIBRATION_PROTOCOL.maxAttempts && !result?.passed; attempt++) {
+                    run.attempt = attempt;
+                    result = await this.performStep(active, step, attempt);
+                }
+
+                if (!result!.passed) {
+                    throw new Error(
+                        `Step ${step.id} failed after ${CALIBRATION_PROTOCOL.maxAttempts} attempts: ${result!.failures.join('; ')}`
+                    );
+                }
+            }
+
+            await this.completeRun(active);
+        } catch (error) {
+            active.capture = null;
+            run.finishedAt = new Date();
+            if (run.status === 'running') {
+                run.status = 'failed';
+                run.error = error instanceof Error ? error.message : String(error);
+            }
+
+            this._logger.info('Calibration protocol ended', {
+                runId: run.id,
+                sensorId: run.sensorId,
+                status: run.status,
+                error: run.error
+            });
+            this.publish(active, 0, { ...(run.error && { error: run.error }) });
+
+            try {
+                await this._sensorRepository.bulkUpdateSensors([{
+                    id: run.sensorId,
+                    updates: { status: active.previousStatus }
+                }]);
+            } catch (restoreError) {
+                this._logger.error('Failed to restore sensor status after calibration', {
+                    sensorId: run.sensorId,
+                    error: restoreError instanceof Error ? restoreError.message : String(restoreError)
+                });
+            }
+        }
+    }
+
+    /**
+     * Prepares the athlete, captures readings and evaluates one attempt of a step
+     */
+    private async performStep(
+        active: ActiveRun,
+        step: CalibrationStep,
+        attempt: number
+    ): Promise<ICalibrationStepResult> {
+        this.setPhase(active, 'preparing', 0);
+        await this.wait(active, CALIBRATION_PROTOCOL.prepareMs);
+
+        active.capture = [];
+        for (let elapsed = 0; elapsed < step.captureMs; elapsed += CALIBRATION_PROTOCOL.progressIntervalMs) {
+            this.setPhase(active, 'capturing', CALIBRATION_PROTOCOL.prepareMs + elapsed);
+            await this.wait(active, Math.min(CALIBRATION_PROTOCOL.progressIntervalMs, step.captureMs - elapsed));
+        }
+
+        const readings = active.capture;
+        active.capture = null;
+
+        active.run.phase = 'evaluating';
+        const result = evaluateCapture(step, attempt, readings, active.sensorType);
+        active.run.results.push(result);
+        this.publish(active, CALIBRATION_PROTOCOL.prepareMs + step.captureMs, { result });
+
+        this._logger.info('Calibration step evaluated', {
+            runId: active.run.id,
+            sensorId: active.run.sensorId,
+            step: step.id,
+            attempt,
+            passed: result.passed,
+            failures: result.failures
+        });
+
+        return result;
+    }
+
+    /**
+     * Applies the derived parameters to the sensor and records them as a calibration version
+     */
+    private async completeRun(active: ActiveRun): Promise<void> {
+        const { run } = active;
+        const params = deriveProtocolParams(active.currentParams, run.results, active.sensorType);
+        const accepted = run.results.filter(result => result.passed);
+        const qualityScore = accepted.reduce((sum, result) => sum + result.metrics.confidenceMean!, 0) / accepted.length;
+
+        await this._sensorRepository.bulkUpdateSensors([{
+            id: run.sensorId,
+            updates: { calibrationParams: params, lastCalibration: new Date(), status: SENSOR_STATUS.ACTIVE }
+        }]);
+
+        const record = await this._calibrationHistoryService.recordCalibration(run.sensorId, params, {
+            operatorId: run.operatorId,
+            qualityScore,
+            environmentalConditions: active.conditions
+        });
+
+        run.status = 'completed';
+        run.version = record.version;
+        run.finishedAt = new Date();
+
+        this._logger.info('Calibration protocol completed', {
+            runId: run.id,
+            sensorId: run.sensorId,
+            version: record.version,
+            qualityScore
+        });
+        this.publish(active, 0, { version: record.version });
+    }
+
+    /**
+     * Moves the run's current step to a phase and publishes it
+     */
+    private setPhase(active: ActiveRun, phase: CalibrationStepPhase, stepElapsedMs: number): void {
+        if (active.run.status !== 'running') {
+            throw new Error('Calibration run cancelled');
+        }
+        active.run.phase = phase;
+        this.publish(active, stepElapsedMs);
+    }
+
+    /**
+     * Publishes the run's progress
+     * @param stepElapsedMs - Time spent in the current step's attempt
+     */
+    private publish(
+        active: ActiveRun,
+        stepElapsedMs: number,
+        extra: Pick<ICalibrationProgress, 'result' | 'version' | 'error'> = {}
+    ): void {
+        const { run } = active;
+        const step = CALIBRATION_PROTOCOL.steps[run.stepIndex]!;
+        const elapsed = run.status === 'completed'
+            ? PROTOCOL_DURATION
+            : STEP_DURATIONS.slice(0, run.stepIndex).reduce((sum, duration) => sum + duration, 0) + stepElapsedMs;
+
+        this._progress.next({
+            runId: run.id,
+            sensorId: run.sensorId,
+            status: run.status,
+            step: step.id as CalibrationStepId,
+            stepIndex: run.stepIndex,
+            totalSteps: CALIBRATION_PROTOCOL.steps.length,
+            attempt: run.attempt,
+            maxAttempts: CALIBRATION_PROTOCOL.maxAttempts,
+            phase: run.phase,
+            instruction: step.instruction,
+            progress: Math.round((elapsed / PROTOCOL_DURATION) * 1000) / 10,
+            estimatedTimeRemaining: run.status === 'running' ? PROTOCOL_DURATION - elapsed : 0,
+            ...extra,
+            timestamp: new Date()
+        });
+    }
+
+    /**
+     * Waits for a step timer, ending early when the run is cancelled
+     */
+    private async wait(active: ActiveRun, ms: number): Promise<void> {
+        await new Promise<void>(resolve => {
+            active.wake = resolve;
+            active.timer = setTimeout(resolve, ms);
+        });
+        active.wake = null;
+        active.timer = null;
+
+        if (active.run.status !== 'running') {
+            throw new Error('Calibration run cancelled');
+        }
+    }
+}
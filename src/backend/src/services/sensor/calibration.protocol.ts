@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Acceptance checks for the guided calibration protocol. Computes stillness,
+ * gravity, movement and load metrics from the readings captured during a protocol step,
+ * checks them against the step's criteria, and derives calibration parameters from the
+ * accepted captures.
+ *
+ * IMU readings carry acceleration in m/s² followed by angular rate in deg/s (IMU_CHANNELS);
+ * ToF readings carry the measured load in their first value.
+ *
+ * @version 1.0.0
+ */
+
+import { ICalibrationStepResult, CalibrationStepId } from '../../interfaces/calibration.interface';
+import { ISensorCalibrationParams, ISensorReading } from '../../interfaces/sensor.interface';
+import {
+    CALIBRATION_PARAMS,
+    CALIBRATION_PROTOCOL,
+    IMU_CHANNELS,
+    SENSOR_TYPES
+} from '../../constants/sensor.constants';
+
+/**
+ * Definition of one protocol step
+ */
+export type CalibrationStep = typeof CALIBRATION_PROTOCOL.steps[number];
+
+/**
+ * Bounds of a single acceptance metric
+ */
+interface MetricBounds {
+    min?: number;
+    max?: number;
+}
+
+const mean = (values: number[]): number =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[], average = mean(values)): number =>
+    Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+
+const clamp = (value: number, range: { min: number; max: number }): number =>
+    Math.min(range.max, Math.max(range.min, value));
+
+/**
+ * Counts movement cycles as rises above the signal mean followed by drops below it. The
+ * hysteresis band keeps sensor noise during still phases from counting as cycles.
+ * @param signal - Samples in timestamp order
+ * @param minSwing - Smallest peak-to-trough swing counted as a cycle
+ * @returns Number of cycles
+ */
+export function countCycles(signal: number[], minSwing: number): number {
+    if (signal.length === 0) {
+        return 0;
+    }
+
+    const average = mean(signal);
+    const band = Math.max(standardDeviation(signal, average) / 2, minSwing / 2);
+
+    let cycles = 0;
+    let state: 'high' | 'low' | null = null;
+    for (const value of signal) {
+        if (value > average + band && state !== 'high') {
+            if (state === 'low') {
+                cycles++;
+            }
+            state = 'high';
+        } else if (value < average - band) {
+            state = 'low';
+        }
+    }
+
+    return cycles;
+}
+
+/**
+ * Computes acceptance metrics from the readings captured during a step
+ * @param readings - Readings of the calibrated sensor's type
+ * @param sensorType - Type of the calibrated sensor
+ * @param durationMs - Length of the capture window
+ * @returns Metrics by name
+ */
+export function computeCaptureMetrics(
+    readings: ISensorReading[],
+    sensorType: SENSOR_TYPES,
+    durationMs: number
+): Record<string, number> {
+    const durationSeconds = durationMs / 1000;
+    const metrics: Record<string, number> = {
+        confidenceMean: mean(readings.map(reading => reading.confidence))
+    };
+
+    if (sensorType === SENSOR_TYPES.IMU) {
+        const magnitudes = readings.map(reading =>
+            Math.hypot(...IMU_CHANNELS.accel.map(channel => reading.value[channel] ?? 0))
+        );
+        const gyroAxes = IMU_CHANNELS.gyro.map(channel => readings.map(reading => reading.value[channel] ?? 0));
+
+        metrics.accelMagnitudeMean = mean(magnitudes);
+        metrics.accelMagnitudeStd = standardDeviation(magnitudes, metrics.accelMagnitudeMean);
+        metrics.gyroRms = Math.sqrt(mean(readings.map(reading =>
+            IMU_CHANNELS.gyro.reduce((sum, channel) => sum + (reading.value[channel] ?? 0) ** 2, 0)
+        )));
+        metrics.gyroBias = Math.hypot(...gyroAxes.map(axis => mean(axis)));
+        metrics.cycleCount = countCycles(magnitudes, CALIBRATION_PROTOCOL.cycleHysteresis.imu);
+    } else {
+        const loads = readings.map(reading => reading.value[0] ?? 0);
+        const loadMean = mean(loads);
+        // Relative metrics of an unloaded sensor are measured against a tiny load instead of zero
+        const reference = Math.max(Math.abs(loadMean), 1e-6);
+
+        metrics.loadMean = loadMean;
+        metrics.loadStd = standardDeviation(loads, loadMean);
+        metrics.loadVariation = metrics.loadStd / reference;
+        metrics.loadRange = (Math.max(...loads) - Math.min(...loads)) / reference;
+        metrics.cycleCount = countCycles(loads, CALIBRATION_PROTOCOL.cycleHysteresis.tof * reference);
+    }
+
+    metrics.cycleRateHz = metrics.cycleCount / durationSeconds;
+    return metrics;
+}
+
+/**
+ * Evaluates one capture of a protocol step against the step's acceptance criteria
+ * @param step - Protocol step
+ * @param attempt - Capture attempt, starting at 1
+ * @param readings - Readings captured from the calibrated sensor
+ * @param sensorType - Type of the calibrated sensor
+ * @returns Capture result with its metrics and any rejection reasons
+ */
+export function evaluateCapture(
+    step: CalibrationStep,
+    attempt: number,
+    readings: ISensorReading[],
+    sensorType: SENSOR_TYPES
+): ICalibrationStepResult {
+    const samples = readings.filter(reading => reading.type === sensorType);
+    const result: ICalibrationStepResult = {
+        step: step.id as CalibrationStepId,
+        attempt,
+        passed: false,
+        sampleCount: samples.length,
+        metrics: {},
+        failures: []
+    };
+
+    if (samples.length < CALIBRATION_PROTOCOL.minSamples) {
+        result.failures.push(
+            `Only ${samples.length} samples captured; at least ${CALIBRATION_PROTOCOL.minSamples} are needed`
+        );
+        return result;
+    }
+
+    result.metrics = computeCaptureMetrics(samples, sensorType, step.captureMs);
+
+    const criteria: Record<string, MetricBounds> = sensorType === SENSOR_TYPES.IMU
+        ? step.criteria.imu
+        : step.criteria.tof;
+    for (const [metric, bounds] of Object.entries(criteria)) {
+        const value = result.metrics[metric]!;
+        if (bounds.min !== undefined && value < bounds.min) {
+            result.failures.push(`${metric} ${value.toFixed(2)} is below ${bounds.min}`);
+        }
+        if (bounds.max !== undefined && value > bounds.max) {
+            result.failures.push(`${metric} ${value.toFixed(2)} is above ${bounds.max}`);
+        }
+    }
+
+    result.passed = result.failures.length === 0;
+    return result;
+}
+
+/**
+ * Derives calibration parameters from the accepted captures of a completed protocol. Gyro bias
+ * while standing sets the IMU drift correction, load noise while standing sets the ToF pressure
+ * threshold, and the walking cycle rate sets the low-pass cutoff above the movement's harmonics.
+ * @param current - Parameters the sensor is calibrated with
+ * @param results - Capture results of the protocol
+ * @param sensorType - Type of the calibrated sensor
+ * @returns Calibration parameters to apply
+ */
+export function deriveProtocolParams(
+    current: Partial<ISensorCalibrationParams> | undefined,
+    results: ICalibrationStepResult[],
+    sensorType: SENSOR_TYPES
+): ISensorCalibrationParams {
+    const accepted = (step: CalibrationStepId) =>
+        results.find(result => result.step === step && result.passed)?.metrics;
+    const stand = accepted('static_stand');
+    const walk = accepted('walk');
+
+    const params: ISensorCalibrationParams = {
+        tofGain: current?.tofGain ?? CALIBRATION_PARAMS.tofGainRange.default,
+        imuDriftCorrection: current?.imuDriftCorrection ?? CALIBRATION_PARAMS.imuDriftCorrection.default,
+        pressureThreshold: current?.pressureThreshold ?? CALIBRATION_PARAMS.pressureThreshold.default,
+        sampleWindow: current?.sampleWindow ?? CALIBRATION_PARAMS.sampleWindow.default,
+        filterCutoff: current?.filterCutoff ?? CALIBRATION_PARAMS.filterCutoff.default,
+        calibrationMatrix: current?.calibrationMatrix ?? [],
+        temperatureCompensation: current?.temperatureCompensation ?? 0,
+        temperatureModel: current?.temperatureModel ?? null
+    };
+
+    if (stand && sensorType === SENSOR_TYPES.IMU) {
+        params.imuDriftCorrection = clamp(stand.gyroBias!, CALIBRATION_PARAMS.imuDriftCorrection);
+    }
+    if (stand && sensorType === SENSOR_TYPES.TOF) {
+        params.pressureThreshold = clamp(3 * stand.loadStd!, CALIBRATION_PARAMS.pressureThreshold);
+    }
+    if (walk) {
+        params.filterCutoff = clamp(4 * walk.cycleRateHz!, CALIBRATION_PARAMS.filterCutoff);
+    }
+
+    return params;
+}
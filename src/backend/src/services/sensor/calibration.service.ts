@@ -152,6 +152,38 @@ export class CalibrationService {
         };
     }
 
+    /**
+     * Measures the data quality a sensor delivers with its current calibration
+     * @param sensorId - Sensor identifier
+     * @returns Promise resolving to the measured quality score
+     */
+    public async assessCalibrationQuality(sensorId: string): Promise<number> {
+        const testData = await this._dataProcessor.processData({
+            sensorId,
+            timestamp: Date.now(),
+            readings: [],
+            metadata: null,
+            sessionId: '',
+            dataQuality: 0
+        });
+
+        return testData.quality;
+    }
+
+    /**
+     * Replaces the cached calibration of a sensor after a rollback restored earlier parameters
+     * @param sensorId - Sensor identifier
+     * @param params - Restored calibration parameters
+     */
+    public restoreCalibration(sensorId: string, params: ISensorCalibrationParams): void {
+        this._calibrationCache.set(sensorId, params);
+        this._calibrationSubject.next({
+            ...this._calibrationSubject.value,
+            calibrationParams: params,
+            lastCalibration: new Date()
+        });
+    }
+
     /**
      * Performs progressive calibration measurements
      * @param sensorId - Sensor identifier
@@ -208,16 +240,9 @@ export class CalibrationService {
         params: ISensorCalibrationParams
     ): Promise<void> {
         // Verify sensor data quality with new parameters
-        const testData = await this._dataProcessor.processData({
-            sensorId,
-            timestamp: Date.now(),
-            readings: [],
-            metadata: null,
-            sessionId: '',
-            dataQuality: 0
-        });
+        const quality = await this.assessCalibrationQuality(sensorId);
 
-        if (testData.quality < 0.8) { // 80% quality threshold
+        if (quality < 0.8) { // 80% quality threshold
             throw new Error('Calibration verification failed: Poor data quality');
         }
     }
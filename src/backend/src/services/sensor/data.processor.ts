@@ -9,9 +9,35 @@ import { injectable } from 'inversify';
 import { Subject, Observable, from, throwError } from 'rxjs'; // v7.8.0
 import { catchError, map, bufferTime, retryWhen, delay, take } from 'rxjs/operators';
 
-import { ISensorData, ISensorReading, ISensorMetadata } from '../../interfaces/sensor.interface';
-import { SENSOR_TYPES, SAMPLING_RATES, CALIBRATION_PARAMS } from '../../constants/sensor.constants';
+import {
+    ISensorData,
+    ISensorReading,
+    ISensorMetadata,
+    ISensorGapStats,
+    IFilterProfile,
+    IFilterStage
+} from '../../interfaces/sensor.interface';
+import {
+    SENSOR_TYPES,
+    SAMPLING_RATES,
+    CALIBRATION_PARAMS,
+    GAP_DETECTION,
+    FILTER_PROFILES,
+    FILTER_LIMITS,
+    DEFAULT_FILTER_PROFILE,
+    ORIENTATION_FUSION
+} from '../../constants/sensor.constants';
 import { BiomechanicsAnalyzer } from '../analytics/biomechanics.analyzer';
+import { SensorGapDetector, GapDetectionOptions } from './gap.detector';
+import { SensorTimeSynchronizer } from './time.synchronizer';
+import { SensorFilterChain } from './filter.chain';
+import { FilterProfileService } from './filter.profile.service';
+import { CalibrationHistoryService } from './calibration.history.service';
+import { compensateReadings } from './temperature.compensation';
+import { GarmentService } from './garment.service';
+import { SensorInventoryService } from './sensor.inventory.service';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { OrientationFilter } from './orientation.fusion';
 
 /**
  * Interface for processing metrics tracking
@@ -32,6 +58,7 @@ interface ProcessedSensorData {
     timestamp: number;
     processedReadings: Array<ProcessedReading>;
     quality: number;
+    metadata: ISensorMetadata;
     processingMetadata: ProcessingMetadata;
 }
 
@@ -56,6 +83,7 @@ interface ProcessingMetadata {
         dataCompleteness: number;
         outlierPercentage: number;
     };
+    gapStats: ISensorGapStats;
 }
 
 /**
@@ -67,20 +95,28 @@ export class SensorDataProcessor {
     private readonly _bufferSize: number;
     private readonly _processingMetrics: Map<string, ProcessingMetrics>;
     private readonly _biomechanicsAnalyzer: BiomechanicsAnalyzer;
-    private readonly _kalmanFilters: Map<string, any>;
-    private readonly _medianBufferSize = 5;
+    private readonly _filterChains: Map<string, SensorFilterChain>;
+    private readonly _orientationFilters: Map<string, OrientationFilter>;
 
     /**
      * Initializes the data processor with required dependencies
      */
     constructor(
-        private readonly biomechanicsAnalyzer: BiomechanicsAnalyzer
+        private readonly biomechanicsAnalyzer: BiomechanicsAnalyzer,
+        private readonly gapDetector: SensorGapDetector,
+        private readonly timeSynchronizer: SensorTimeSynchronizer,
+        private readonly filterProfileService: FilterProfileService,
+        private readonly calibrationHistoryService: CalibrationHistoryService,
+        private readonly garmentService: GarmentService,
+        private readonly inventoryService: SensorInventoryService,
+        private readonly sensorRepository: SensorRepository
     ) {
         this._dataStream = new Subject<ISensorData>();
         this._bufferSize = 1024; // 1KB buffer as per technical specs
         this._processingMetrics = new Map<string, ProcessingMetrics>();
         this._biomechanicsAnalyzer = biomechanicsAnalyzer;
-        this._kalmanFilters = new Map();
+        this._filterChains = new Map();
+        this._orientationFilters = new Map();
 
         // Initialize processing pipeline
         this.initializeProcessingPipeline();
@@ -89,34 +125,103 @@ export class SensorDataProcessor {
     /**
      * Processes incoming sensor data with advanced filtering and optimization
      * @param rawData - Raw sensor data to process
+     * @param gapOptions - Gap detection overrides; sampling rate and interpolation default to the sensor's configuration
      * @returns Promise resolving to processed sensor data
      */
-    public async processData(rawData: ISensorData): Promise<ProcessedSensorData> {
+    public async processData(
+        rawData: ISensorData,
+        gapOptions: GapDetectionOptions = {}
+    ): Promise<ProcessedSensorData> {
         const startTime = performance.now();
 
         try {
             // Validate input data
             this.validateInputData(rawData);
 
-            // Process each reading based on sensor type
-            const processedReadings = await Promise.all(
-                rawData.readings.map(async reading => this.processReading(reading))
+            // Move readings onto the session clock so gaps and filters see true sample spacing
+            const alignedData = this.timeSynchronizer.correctTimestamps(rawData);
+
+            // Resolve the calibration that was active when the packet was recorded
+            const calibration = await this.calibrationHistoryService.getActiveVersion(
+                rawData.sensorId,
+                rawData.timestamp
+            );
+            const calibrationVersion = calibration
+                ? CalibrationHistoryService.toVersionTag(calibration.version)
+                : null;
+
+            // Resolve the body segment through the garment template so analyzers share location keys
+            const placement = await this.garmentService.resolvePlacement(rawData.sensorId);
+
+            // Attribute the data to the athlete holding the sensor when it was recorded, which
+            // also covers backfilled data recorded before a swap
+            const athleteId = await this.inventoryService.resolveAthlete(rawData.sensorId, rawData.timestamp);
+
+            // Remove temperature-dependent bias so filters and interpolation see compensated values
+            const temperatureModel = calibration?.params.temperatureModel;
+            const { readings: compensatedReadings, compensation } = temperatureModel
+                ? compensateReadings(alignedData.readings, temperatureModel, alignedData.metadata)
+                : { readings: alignedData.readings, compensation: null };
+
+            // Detect dropped samples and fill short gaps before filtering, at the sensor's configured
+            // rate so reduced-rate sensors are not reported as dropping every other sample
+            const detection = await this.resolveGapOptions(rawData, gapOptions);
+            const { readings, stats: gapStats } = this.gapDetector.detectGaps(
+                alignedData.sensorId,
+                compensatedReadings,
+                detection
+            );
+
+            // Filter with the profile selected for this sensor in the session configuration
+            const sessionFilters = await this.filterProfileService.getSessionFilters(rawData.sessionId);
+            const profile = this.filterProfileService.selectProfile(sessionFilters, rawData.sensorId);
+            const streamKey = `${detection.scope}:${rawData.sensorId}`;
+            const { processedReadings, steps: filterSteps } = this.filterReadings(
+                readings,
+                profile,
+                streamKey,
+                detection.samplingRate
             );
 
-            // Calculate overall quality metrics
-            const quality = this.calculateQualityScore(processedReadings);
+            // Fuse gyro and accelerometer into orientation before filtering adds phase lag
+            const driftCorrection = calibration?.params.imuDriftCorrection
+                ?? CALIBRATION_PARAMS.imuDriftCorrection.default;
+            const imuReadings = readings.filter(reading => reading.type === SENSOR_TYPES.IMU);
+            const orientation = imuReadings.length > 0
+                ? this.getOrientationFilter(
+                    `${streamKey}:${placement?.pairingId ?? 'unpaired'}:${driftCorrection}`,
+                    driftCorrection,
+                    placement
+                ).update(imuReadings)
+                : null;
+
+            // Calculate overall quality metrics, discounted by missing samples
+            const quality = this.calculateQualityScore(processedReadings) * gapStats.completeness;
 
             // Update processing metrics
             this.updateProcessingMetrics(rawData.sensorId, startTime);
 
+            // Profile revision and stage parameters are recorded so results can be reproduced
+            const filteringApplied = [`filter_profile:${profile.name}@v${profile.version}`, ...filterSteps];
+            if (compensation) {
+                filteringApplied.unshift(`temperature_compensation:${compensation.factor}@${calibrationVersion}`);
+            }
+            if (gapStats.interpolatedSamples > 0) {
+                filteringApplied.push(`gap_interpolation:${detection.interpolation ?? GAP_DETECTION.defaultInterpolation}`);
+            }
+            if (orientation) {
+                filteringApplied.push(`orientation_fusion:mahony@${driftCorrection}`);
+            }
+
             const processingMetadata: ProcessingMetadata = {
                 processingLatency: performance.now() - startTime,
-                filteringApplied: this.getAppliedFilters(rawData.sensorId),
+                filteringApplied,
                 qualityMetrics: {
                     signalToNoise: this.calculateSignalToNoise(processedReadings),
-                    dataCompleteness: this.calculateDataCompleteness(processedReadings),
+                    dataCompleteness: gapStats.completeness * 100,
                     outlierPercentage: this.calculateOutlierPercentage(processedReadings)
-                }
+                },
+                gapStats
             };
 
             return {
@@ -124,6 +229,18 @@ export class SensorDataProcessor {
                 timestamp: Date.now(),
                 processedReadings,
                 quality,
+                metadata: {
+                    ...alignedData.metadata,
+                    calibrationVersion: calibrationVersion ?? alignedData.metadata?.calibrationVersion ?? '',
+                    processingSteps: [...(alignedData.metadata?.processingSteps ?? []), ...filteringApplied],
+                    quality,
+                    processingLatency: processingMetadata.processingLatency,
+                    gapStats,
+                    ...(compensation ? { temperatureCompensation: compensation } : {}),
+                    ...(placement ? { placement } : {}),
+                    ...(athleteId ? { athleteId } : {}),
+                    ...(orientation ? { orientation } : {})
+                },
                 processingMetadata
             };
 
@@ -134,21 +251,19 @@ export class SensorDataProcessor {
     }
 
     /**
-     * Applies noise filtering based on sensor type and configuration
+     * Applies noise filtering to a series of samples from one channel
      * @param data - Raw sensor data array
      * @param sensorType - Type of sensor
+     * @param stages - Filter chain to apply; the default profile's chain for the sensor type when omitted
      * @returns Filtered data array
      */
-    public filterNoise(data: number[], sensorType: SENSOR_TYPES): number[] {
+    public filterNoise(data: number[], sensorType: SENSOR_TYPES, stages?: IFilterStage[]): number[] {
         try {
-            switch (sensorType) {
-                case SENSOR_TYPES.IMU:
-                    return this.applyKalmanFilter(data, sensorType);
-                case SENSOR_TYPES.TOF:
-                    return this.applyMedianFilter(data);
-                default:
-                    throw new Error(`Unsupported sensor type: ${sensorType}`);
+            const chain = stages ?? FILTER_PROFILES[DEFAULT_FILTER_PROFILE]!.chains[sensorType];
+            if (!chain) {
+                throw new Error(`Unsupported sensor type: ${sensorType}`);
             }
+            return new SensorFilterChain(chain, this.getNominalRate(sensorType)).apply(data);
         } catch (error) {
             this.handleFilteringError(error, sensorType);
             throw error;
@@ -202,47 +317,120 @@ export class SensorDataProcessor {
     }
 
     /**
-     * Applies Kalman filtering to IMU data
-     * @param data - Raw IMU data
-     * @param sensorId - Sensor identifier
-     * @returns Filtered data
+     * Fills gap detection settings the caller left open from the sensor's configuration and
+     * scopes cross-packet history to the replay run or session
+     * @param data - Packet being processed
+     * @param overrides - Settings passed by the caller
+     * @returns Gap detection options with a scope
      */
-    private applyKalmanFilter(data: number[], sensorId: string): number[] {
-        if (!this._kalmanFilters.has(sensorId)) {
-            this._kalmanFilters.set(sensorId, this.initializeKalmanFilter());
+    private async resolveGapOptions(
+        data: ISensorData,
+        overrides: GapDetectionOptions
+    ): Promise<GapDetectionOptions & { scope: string }> {
+        const scope = overrides.scope ?? data.replayId ?? data.sessionId;
+        if (overrides.samplingRate !== undefined && overrides.interpolation !== undefined) {
+            return { ...overrides, scope };
         }
 
-        const filter = this._kalmanFilters.get(sensorId);
-        return data.map(value => filter.filter(value));
+        const sensor = await this.sensorRepository.getSensor(data.sensorId);
+        const samplingRate = overrides.samplingRate ?? sensor?.samplingRate;
+        const interpolation = overrides.interpolation ?? sensor?.gapInterpolation;
+
+        return {
+            ...overrides,
+            ...(samplingRate !== undefined && { samplingRate }),
+            ...(interpolation !== undefined && { interpolation }),
+            scope
+        };
     }
 
     /**
-     * Applies median filtering to ToF data
-     * @param data - Raw ToF data
-     * @returns Filtered data
+     * Filters readings channel by channel through the profile's chain for each sensor type
+     * @param readings - Gap-filled readings in timestamp order
+     * @param profile - Filter profile selected for the sensor
+     * @param streamKey - Identifies the stream whose filter state carries across packets
+     * @param samplingRate - Configured sampling rate, if different from the nominal rate
+     * @returns Filtered readings and the applied filter steps
      */
-    private applyMedianFilter(data: number[]): number[] {
-        const buffer = [...data];
-        return buffer.map((_, index) => {
-            const window = buffer.slice(
-                Math.max(0, index - this._medianBufferSize),
-                Math.min(buffer.length, index + this._medianBufferSize + 1)
-            );
-            return this.calculateMedian(window);
-        });
+    private filterReadings(
+        readings: ISensorReading[],
+        profile: IFilterProfile,
+        streamKey: string,
+        samplingRate?: number
+    ): { processedReadings: ProcessedReading[]; steps: string[] } {
+        const processedReadings: ProcessedReading[] = readings.map(reading => ({
+            type: reading.type,
+            filteredValue: [...reading.value],
+            confidence: reading.confidence,
+            timestamp: reading.timestamp
+        }));
+        const steps: string[] = [];
+
+        for (const type of new Set(readings.map(reading => reading.type))) {
+            const stages = profile.chains[type];
+            if (!stages || stages.length === 0) {
+                continue;
+            }
+
+            const chain = this.getFilterChain(`${streamKey}:${type}:${profile.name}@${profile.version}`,
+                stages, samplingRate ?? this.getNominalRate(type));
+            const typed = processedReadings.filter(reading => reading.type === type);
+            const channelCount = Math.max(...typed.map(reading => reading.filteredValue.length));
+
+            for (let channel = 0; channel < channelCount; channel++) {
+                const withChannel = typed.filter(reading => channel < reading.filteredValue.length);
+                const filtered = chain.apply(withChannel.map(reading => reading.filteredValue[channel]!), channel);
+                withChannel.forEach((reading, index) => {
+                    reading.filteredValue[channel] = filtered[index]!;
+                });
+            }
+
+            steps.push(...chain.steps.map(step => `${type}:${step}`));
+        }
+
+        return { processedReadings, steps };
+    }
+
+    /**
+     * Returns the stateful filter chain for a stream, creating it on first use
+     */
+    private getFilterChain(key: string, stages: IFilterStage[], samplingRate: number): SensorFilterChain {
+        let chain = this._filterChains.get(key);
+        if (!chain) {
+            // Maps iterate in insertion order, so the first key is the least recently created stream
+            if (this._filterChains.size >= FILTER_LIMITS.maxCachedChains) {
+                this._filterChains.delete(this._filterChains.keys().next().value as string);
+            }
+            chain = new SensorFilterChain(stages, samplingRate);
+            this._filterChains.set(key, chain);
+        }
+        return chain;
+    }
+
+    /**
+     * Returns the orientation filter for an IMU stream, creating it on first use
+     */
+    private getOrientationFilter(
+        key: string,
+        driftCorrection: number,
+        placement: ISensorMetadata['placement'] | null
+    ): OrientationFilter {
+        let filter = this._orientationFilters.get(key);
+        if (!filter) {
+            if (this._orientationFilters.size >= ORIENTATION_FUSION.maxCachedFilters) {
+                this._orientationFilters.delete(this._orientationFilters.keys().next().value as string);
+            }
+            filter = new OrientationFilter(driftCorrection, placement?.orientation);
+            this._orientationFilters.set(key, filter);
+        }
+        return filter;
     }
 
     /**
-     * Calculates median value from array
-     * @param values - Array of numbers
-     * @returns Median value
+     * Nominal sampling rate for a sensor type
      */
-    private calculateMedian(values: number[]): number {
-        const sorted = [...values].sort((a, b) => a - b);
-        const middle = Math.floor(sorted.length / 2);
-        return sorted.length % 2 === 0
-            ? (sorted[middle - 1] + sorted[middle]) / 2
-            : sorted[middle];
+    private getNominalRate(type: SENSOR_TYPES): number {
+        return type === SENSOR_TYPES.TOF ? SAMPLING_RATES.TOF : SAMPLING_RATES.IMU;
     }
 
     /**
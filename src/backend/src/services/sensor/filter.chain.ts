@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Configurable filter chains for sensor reading channels. Implements low-pass and
+ * band-pass biquad cascades, causal Savitzky-Golay smoothing, median filtering and a scalar Kalman
+ * filter with tunable process and measurement noise. Chains keep per-channel state so filtering is
+ * continuous across packets of the same stream.
+ *
+ * @version 1.0.0
+ */
+
+import { IFilterStage } from '../../interfaces/sensor.interface';
+import { FILTER_LIMITS } from '../../constants/sensor.constants';
+
+/**
+ * Transposed direct form II biquad coefficients and delay state
+ */
+interface Biquad {
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+    z1: number;
+    z2: number;
+}
+
+/**
+ * Per-channel state of one filter stage
+ */
+interface StageState {
+    biquads?: Biquad[];
+    kalman?: { estimate: number; covariance: number };
+    history?: number[];
+}
+
+/**
+ * Butterworth quality factor for a single second-order section
+ */
+const BUTTERWORTH_Q = Math.SQRT1_2;
+
+/**
+ * Applies a chain of filter stages to sensor reading channels, keeping state per channel
+ */
+export class SensorFilterChain {
+    private readonly _states: Map<number, StageState[]>;
+
+    /**
+     * Creates a filter chain
+     * @param stages - Filter stages applied in order
+     * @param sampleRate - Sampling rate of the filtered stream in Hz
+     * @throws Error if a stage is misconfigured for the sampling rate
+     */
+    constructor(
+        private readonly stages: IFilterStage[],
+        private readonly sampleRate: number
+    ) {
+        validateFilterStages(stages, sampleRate);
+        this._states = new Map();
+    }
+
+    /**
+     * Descriptions of each stage with its parameters, for recording in processing steps
+     */
+    public get steps(): string[] {
+        return this.stages.map(stage => describeFilterStage(stage));
+    }
+
+    /**
+     * Filters consecutive samples of one channel
+     * @param samples - Channel samples in timestamp order
+     * @param channel - Channel index, e.g. the axis of a vector reading
+     * @returns Filtered samples
+     */
+    public apply(samples: number[], channel = 0): number[] {
+        if (!this._states.has(channel)) {
+            this._states.set(channel, this.stages.map(stage => this.initializeState(stage)));
+        }
+        const states = this._states.get(channel)!;
+
+        return this.stages.reduce(
+            (values, stage, index) => this.applyStage(stage, states[index]!, values),
+            samples
+        );
+    }
+
+    /**
+     * Clears channel state so the next samples are treated as a new stream
+     */
+    public reset(): void {
+        this._states.clear();
+    }
+
+    /**
+     * Creates the initial state for a stage
+     */
+    private initializeState(stage: IFilterStage): StageState {
+        const sections = stage.order ?? 1;
+
+        switch (stage.type) {
+            case 'low_pass':
+                return {
+                    biquads: Array.from({ length: sections }, () => this.createBiquad('low_pass', stage.cutoffHz!))
+                };
+            case 'band_pass':
+                return {
+                    biquads: Array.from({ length: sections }, () => [
+                        this.createBiquad('high_pass', stage.lowCutoffHz!),
+                        this.createBiquad('low_pass', stage.highCutoffHz!)
+                    ]).flat()
+                };
+            case 'kalman':
+                return {};
+            default:
+                return { history: [] };
+        }
+    }
+
+    /**
+     * Runs one stage over a block of samples
+     */
+    private applyStage(stage: IFilterStage, state: StageState, samples: number[]): number[] {
+        switch (stage.type) {
+            case 'low_pass':
+            case 'band_pass':
+                return samples.map(sample =>
+                    state.biquads!.reduce((value, biquad) => this.stepBiquad(biquad, value), sample)
+                );
+            case 'kalman':
+                return samples.map(sample => this.stepKalman(state, sample, stage));
+            case 'median':
+                return this.applyWindowed(state, samples, stage.windowSize!, window => this.median(window));
+            case 'savitzky_golay':
+                return this.applyWindowed(state, samples, stage.windowSize!, window =>
+                    this.savitzkyGolay(window, stage.polynomialOrder!)
+                );
+        }
+    }
+
+    /**
+     * Applies a causal window function, carrying trailing samples over from earlier blocks
+     */
+    private applyWindowed(
+        state: StageState,
+        samples: number[],
+        windowSize: number,
+        evaluate: (window: number[]) => number
+    ): number[] {
+        const history = state.history!;
+
+        return samples.map(sample => {
+            history.push(sample);
+            if (history.length > windowSize) {
+                history.shift();
+            }
+            return evaluate(history);
+        });
+    }
+
+    /**
+     * Creates a second-order Butterworth section using the RBJ audio EQ formulas
+     */
+    private createBiquad(type: 'low_pass' | 'high_pass', cutoffHz: number): Biquad {
+        const omega = 2 * Math.PI * cutoffHz / this.sampleRate;
+        const cos = Math.cos(omega);
+        const alpha = Math.sin(omega) / (2 * BUTTERWORTH_Q);
+        const a0 = 1 + alpha;
+        const b1 = type === 'low_pass' ? 1 - cos : -(1 + cos);
+        const b0 = type === 'low_pass' ? b1 / 2 : -b1 / 2;
+
+        return {
+            b0: b0 / a0,
+            b1: b1 / a0,
+            b2: b0 / a0,
+            a1: -2 * cos / a0,
+            a2: (1 - alpha) / a0,
+            z1: 0,
+            z2: 0
+        };
+    }
+
+    /**
+     * Filters one sample through a biquad section
+     */
+    private stepBiquad(biquad: Biquad, input: number): number {
+        const output = biquad.b0 * input + biquad.z1;
+        biquad.z1 = biquad.b1 * input - biquad.a1 * output + biquad.z2;
+        biquad.z2 = biquad.b2 * input - biquad.a2 * output;
+        return output;
+    }
+
+    /**
+     * Updates a random-walk Kalman estimate with one measurement
+     */
+    private stepKalman(state: StageState, measurement: number, stage: IFilterStage): number {
+        if (!state.kalman) {
+            state.kalman = { estimate: measurement, covariance: stage.measurementNoise! };
+            return measurement;
+        }
+
+        const predicted = state.kalman.covariance + stage.processNoise!;
+        const gain = predicted / (predicted + stage.measurementNoise!);
+        state.kalman.estimate += gain * (measurement - state.kalman.estimate);
+        state.kalman.covariance = (1 - gain) * predicted;
+        return state.kalman.estimate;
+    }
+
+    /**
+     * Median of a window
+     */
+    private median(window: number[]): number {
+        const sorted = [...window].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 0
+            ? (sorted[middle - 1]! + sorted[middle]!) / 2
+            : sorted[middle]!;
+    }
+
+    /**
+     * Evaluates a least-squares polynomial fit of the window at its newest sample
+     */
+    private savitzkyGolay(window: number[], polynomialOrder: number): number {
+        const coefficients = savitzkyGolayCoefficients(window.length, polynomialOrder);
+        return window.reduce((sum, value, index) => sum + value * coefficients[index]!, 0);
+    }
+}
+
+/**
+ * Cached Savitzky-Golay coefficients keyed by window length and polynomial order
+ */
+const SAVITZKY_GOLAY_CACHE = new Map<string, number[]>();
+
+/**
+ * Computes causal Savitzky-Golay coefficients that evaluate the fitted polynomial at the last
+ * sample of the window. Short windows fall back to the highest order they can support.
+ * @param length - Window length in samples
+ * @param polynomialOrder - Requested polynomial order
+ * @returns Coefficients to convolve with the window, oldest sample first
+ */
+export function savitzkyGolayCoefficients(length: number, polynomialOrder: number): number[] {
+    const order = Math.min(polynomialOrder, length - 1);
+    const key = `${length}:${order}`;
+    const cached = SAVITZKY_GOLAY_CACHE.get(key);
+    if (cached) {
+        return cached;
+    }
+
+    // Positions are scaled to [-1, 0] so the normal equations stay well conditioned
+    const scale = Math.max(length - 1, 1);
+    const design = Array.from({ length }, (_, i) =>
+        Array.from({ length: order + 1 }, (_, j) => ((i - (length - 1)) / scale) ** j)
+    );
+    const normal = Array.from({ length: order + 1 }, (_, r) =>
+        Array.from({ length: order + 1 }, (_, c) =>
+            design.reduce((sum, row) => sum + row[r]! * row[c]!, 0)
+        )
+    );
+
+    // The fit evaluated at position 0 is the constant term, so solve for the first row of the inverse
+    const solution = solveLinearSystem(normal, Array.from({ length: order + 1 }, (_, i) => (i === 0 ? 1 : 0)));
+    const coefficients = design.map(row => row.reduce((sum, value, j) => sum + value * solution[j]!, 0));
+
+    SAVITZKY_GOLAY_CACHE.set(key, coefficients);
+    return coefficients;
+}
+
+/**
+ * Solves a small dense linear system with partial-pivot Gaussian elimination
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]!]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) {
+                pivot = row;
+            }
+        }
+        [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row]![col]! / a[col]![col]!;
+            for (let k = col; k <= n; k++) {
+                a[row]![k]! -= factor * a[col]![k]!;
+            }
+        }
+    }
+
+    const result = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row]![n]!;
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row]![k]! * result[k]!;
+        }
+        result[row] = sum / a[row]![row]!;
+    }
+    return result;
+}
+
+/**
+ * Describes a stage with its parameters, e.g. "kalman(q=0.01,r=0.1)"
+ * @param stage - Filter stage
+ * @returns Stage description
+ */
+export function describeFilterStage(stage: IFilterStage): string {
+    switch (stage.type) {
+        case 'low_pass':
+            return `low_pass(cutoff=${stage.cutoffHz}Hz,order=${stage.order ?? 1})`;
+        case 'band_pass':
+            return `band_pass(${stage.lowCutoffHz}-${stage.highCutoffHz}Hz,order=${stage.order ?? 1})`;
+        case 'savitzky_golay':
+            return `savitzky_golay(window=${stage.windowSize},poly=${stage.polynomialOrder})`;
+        case 'kalman':
+            return `kalman(q=${stage.processNoise},r=${stage.measurementNoise})`;
+        case 'median':
+            return `median(window=${stage.windowSize})`;
+    }
+}
+
+/**
+ * Validates a filter chain against the sampling rate of the stream it will filter
+ * @param stages - Filter stages
+ * @param sampleRate - Sampling rate in Hz
+ * @throws Error describing the first invalid stage
+ */
+export function validateFilterStages(stages: IFilterStage[], sampleRate: number): void {
+    if (!Array.isArray(stages) || stages.length > FILTER_LIMITS.maxStages) {
+        throw new Error(`Invalid filter chain: expected at most ${FILTER_LIMITS.maxStages} stages`);
+    }
+
+    const nyquist = sampleRate / 2;
+    const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+    const isIntegerInRange = (value: unknown, min: number, max: number): boolean =>
+        Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+    stages.forEach((stage, index) => {
+        const invalid = (reason: string) => new Error(`Invalid ${stage.type} stage ${index}: ${reason}`);
+
+        if (stage.order !== undefined && !isIntegerInRange(stage.order, 1, FILTER_LIMITS.maxOrder)) {
+            throw invalid(`order must be an integer between 1 and ${FILTER_LIMITS.maxOrder}`);
+        }
+
+        switch (stage.type) {
+            case 'low_pass':
+                if (!isPositive(stage.cutoffHz) || stage.cutoffHz >= nyquist) {
+                    throw invalid(`cutoffHz must be between 0 and the ${nyquist}Hz Nyquist frequency`);
+                }
+                break;
+            case 'band_pass':
+                if (!isPositive(stage.lowCutoffHz) || !isPositive(stage.highCutoffHz) ||
+                    stage.lowCutoffHz >= stage.highCutoffHz || stage.highCutoffHz >= nyquist) {
+                    throw invalid(`lowCutoffHz and highCutoffHz must satisfy 0 < low < high < ${nyquist}Hz`);
+                }
+                break;
+            case 'median':
+            case 'savitzky_golay':
+                if (!isIntegerInRange(stage.windowSize, FILTER_LIMITS.minWindowSize, FILTER_LIMITS.maxWindowSize)) {
+                    throw invalid(
+                        `windowSize must be an integer between ${FILTER_LIMITS.minWindowSize} and ${FILTER_LIMITS.maxWindowSize}`
+                    );
+                }
+                if (stage.type === 'savitzky_golay' &&
+                    !isIntegerInRange(stage.polynomialOrder, 0,
+                        Math.min(FILTER_LIMITS.maxPolynomialOrder, stage.windowSize! - 1))) {
+                    throw invalid('polynomialOrder must be an integer below windowSize and at most '
+                        + FILTER_LIMITS.maxPolynomialOrder);
+                }
+                break;
+            case 'kalman':
+                if (!isPositive(stage.processNoise) || !isPositive(stage.measurementNoise)) {
+                    throw invalid('processNoise and measurementNoise must be positive');
+                }
+                break;
+            default:
+                throw new Error(`Invalid filter stage ${index}: unsupported type ${(stage as IFilterStage).type}`);
+        }
+    });
+}
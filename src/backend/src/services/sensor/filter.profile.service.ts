@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Filter profile management for sensor signal conditioning. Combines the built-in
+ * sport profiles with custom profiles stored in the database, resolves a session's profile
+ * selection into a snapshot stored with the session, and serves that snapshot to the data
+ * processor so every packet of a session is filtered with the same chain revisions.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { IFilterProfile, IFilterStage } from '../../interfaces/sensor.interface';
+import { ISessionFilterConfig } from '../../interfaces/session.interface';
+import {
+    SENSOR_TYPES,
+    SAMPLING_RATES,
+    FILTER_PROFILES,
+    FILTER_LIMITS,
+    DEFAULT_FILTER_PROFILE
+} from '../../constants/sensor.constants';
+import { FilterProfileRepository } from '../../db/repositories/filter-profile.repository';
+import { SessionRepository } from '../../db/repositories/session.repository';
+import { validateFilterStages } from './filter.chain';
+
+/**
+ * Allowed characters for custom profile names
+ */
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Resolves, stores and serves named filter profiles
+ */
+@injectable()
+export class FilterProfileService {
+    private readonly _sessionFilters: Map<string, Promise<ISessionFilterConfig>>;
+
+    /**
+     * Initializes the filter profile service with its storage dependencies
+     */
+    constructor(
+        private readonly _filterProfileRepository: FilterProfileRepository,
+        private readonly _sessionRepository: SessionRepository,
+        private readonly _logger: Logger
+    ) {
+        this._sessionFilters = new Map();
+    }
+
+    /**
+     * Lists built-in and custom profiles
+     * @returns Built-in profiles followed by custom profiles
+     */
+    public async listProfiles(): Promise<IFilterProfile[]> {
+        const customProfiles = await this._filterProfileRepository.listProfiles();
+        return [...Object.values(FILTER_PROFILES), ...customProfiles];
+    }
+
+    /**
+     * Retrieves a profile by name
+     * @param name - Profile name
+     * @param version - Revision to load; the current revision when omitted
+     * @returns Profile
+     */
+    public async getProfile(name: string, version?: number): Promise<IFilterProfile> {
+        const builtIn = FILTER_PROFILES[name];
+        if (builtIn && (version === undefined || version === builtIn.version)) {
+            return builtIn;
+        }
+
+        const profile = builtIn ? null : await this._filterProfileRepository.getProfile(name, version);
+        if (!profile) {
+            throw new Error(`Filter profile ${name}${version === undefined ? '' : ` v${version}`} not found`);
+        }
+        return profile;
+    }
+
+    /**
+     * Creates a custom profile or stores a new revision of one
+     * @param profile - Profile name, description and filter chains
+     * @param userId - ID of the user saving the profile
+     * @returns Saved profile with its version
+     */
+    public async saveProfile(
+        profile: { name: string; description?: string; chains: Partial<Record<SENSOR_TYPES, IFilterStage[]>> },
+        userId: string
+    ): Promise<IFilterProfile> {
+        if (typeof profile.name !== 'string' || !PROFILE_NAME_PATTERN.test(profile.name) ||
+            profile.name.length > FILTER_LIMITS.maxProfileNameLength) {
+            throw new Error(
+                'Invalid profile name: use lowercase letters, digits, "-" and "_", '
+                + `up to ${FILTER_LIMITS.maxProfileNameLength} characters`
+            );
+        }
+        if (FILTER_PROFILES[profile.name]) {
+            throw new Error(`Filter profile ${profile.name} is built in and cannot be modified`);
+        }
+        this.validateChains(profile.chains);
+
+        const saved = await this._filterProfileRepository.saveProfile({
+            name: profile.name,
+            description: profile.description ?? '',
+            chains: profile.chains
+        }, userId);
+
+        this._logger.info('Filter profile saved', {
+            name: saved.name,
+            version: saved.version,
+            userId
+        });
+
+        return saved;
+    }
+
+    /**
+     * Resolves a session's profile selection into a snapshot of the selected profiles.
+     * The snapshot is stored with the session so later profile revisions do not change
+     * how the session is processed.
+     * @param selection - Requested profile and per-sensor overrides; the default profile when omitted
+     * @returns Selection with the profile snapshot
+     */
+    public async resolveSessionFilters(selection?: ISessionFilterConfig): Promise<ISessionFilterConfig> {
+        const profileName = selection?.profile ?? DEFAULT_FILTER_PROFILE;
+        const sensorOverrides = selection?.sensorOverrides ?? {};
+        const names = new Set([profileName, ...Object.values(sensorOverrides)]);
+
+        const profiles: Record<string, IFilterProfile> = {};
+        for (const name of names) {
+            profiles[name] = selection?.profiles?.[name] ?? await this.getProfile(name);
+        }
+
+        return { profile: profileName, sensorOverrides, profiles };
+    }
+
+    /**
+     * Retrieves the filter selection stored with a session
+     * @param sessionId - Session identifier
+     * @returns Session filter selection, or the default profile for unknown sessions
+     */
+    public async getSessionFilters(sessionId: string | undefined): Promise<ISessionFilterConfig> {
+        if (!sessionId) {
+            return this.resolveSessionFilters();
+        }
+
+        let filters = this._sessionFilters.get(sessionId);
+        if (!filters) {
+            filters = this._sessionRepository.getSessionFilters(sessionId)
+                .then(stored => this.resolveSessionFilters(stored ?? undefined));
+            filters.catch(() => this._sessionFilters.delete(sessionId));
+
+            // Maps iterate in insertion order, so the first key is the oldest entry
+            if (this._sessionFilters.size >= FILTER_LIMITS.maxCachedSessions) {
+                this._sessionFilters.delete(this._sessionFilters.keys().next().value as string);
+            }
+            this._sessionFilters.set(sessionId, filters);
+        }
+
+        return filters;
+    }
+
+    /**
+     * Selects the profile applied to a sensor within a session
+     * @param filters - Session filter selection
+     * @param sensorId - Sensor identifier
+     * @returns Profile for the sensor
+     */
+    public selectProfile(filters: ISessionFilterConfig, sensorId: string): IFilterProfile {
+        const name = filters.sensorOverrides?.[sensorId] ?? filters.profile;
+        return filters.profiles?.[name] ?? FILTER_PROFILES[name] ?? FILTER_PROFILES[DEFAULT_FILTER_PROFILE]!;
+    }
+
+    /**
+     * Releases a session's cached filter selection
+     * @param sessionId - Session identifier
+     */
+    public clearSession(sessionId: string): void {
+        this._sessionFilters.delete(sessionId);
+    }
+
+    /**
+     * Validates each sensor type's chain against that sensor's nominal sampling rate
+     */
+    private validateChains(chains: Partial<Record<SENSOR_TYPES, IFilterStage[]>>): void {
+        const entries = Object.entries(chains ?? {});
+        if (entries.length === 0) {
+            throw new Error('Filter profile must define a chain for at least one sensor type');
+        }
+
+        entries.forEach(([sensorType, stages]) => {
+            if (!Object.values(SENSOR_TYPES).includes(sensorType as SENSOR_TYPES)) {
+                throw new Error(`Unsupported sensor type: ${sensorType}`);
+            }
+            validateFilterStages(
+                stages as IFilterStage[],
+                sensorType === SENSOR_TYPES.TOF ? SAMPLING_RATES.TOF : SAMPLING_RATES.IMU
+            );
+        });
+    }
+}
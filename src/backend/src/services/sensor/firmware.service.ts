@@ -0,0 +1,598 @@
+/**
+ * @fileoverview Firmware update orchestration for garment sensors. Maintains the firmware image
+ * registry, updates single sensors and rolls images out across a team's sensors in stages,
+ * halting a rollout when too many updates of a stage fail.
+ *
+ * Each sensor update moves queued -> transferring -> verifying -> applied. A failure at any
+ * point rolls the sensor back to its previous image and ends the update as rolled_back. The
+ * sensor's firmwareVersion and status follow the update, and every state change and transfer
+ * step is published on progressUpdates.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Observable, Subject } from 'rxjs'; // v7.8.0
+import { createHash } from 'crypto';
+
+import {
+    FirmwareUpdateState,
+    IFirmwareImage,
+    IFirmwareProgress,
+    IFirmwareRollout,
+    IFirmwareRolloutOptions,
+    IFirmwareRolloutReport,
+    IFirmwareTransport,
+    IFirmwareUpdate
+} from '../../interfaces/firmware.interface';
+import { ISensorConfig } from '../../interfaces/sensor.interface';
+import { FirmwareRepository } from '../../db/repositories/firmware.repository';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { FIRMWARE_UPDATE, SENSOR_STATUS, SENSOR_TYPES } from '../../constants/sensor.constants';
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z.-]+)?$/;
+
+/**
+ * States each update state may move to
+ */
+const TRANSITIONS: Record<FirmwareUpdateState, FirmwareUpdateState[]> = {
+    queued: ['transferring', 'rolled_back'],
+    transferring: ['verifying', 'rolled_back'],
+    verifying: ['applied', 'rolled_back'],
+    applied: [],
+    rolled_back: []
+};
+
+/**
+ * Compares two firmware versions by their numeric major, minor and patch parts
+ */
+const compareVersions = (a: string, b: string): number => {
+    const partsA = VERSION_PATTERN.exec(a)!.slice(1, 4).map(Number);
+    const partsB = VERSION_PATTERN.exec(b)!.slice(1, 4).map(Number);
+    const index = partsA.findIndex((part, i) => part !== partsB[i]);
+    return index === -1 ? 0 : partsA[index]! - partsB[index]!;
+};
+
+/**
+ * Orchestrates firmware updates of single sensors and staged team rollouts
+ */
+@injectable()
+export class FirmwareService {
+    private readonly _progress: Subject<IFirmwareProgress>;
+    private readonly _activeRollouts: Set<string>;
+
+    /**
+     * Initializes the firmware service with its storage and device dependencies
+     */
+    constructor(
+        private readonly _firmwareRepository: FirmwareRepository,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _transport: IFirmwareTransport,
+        private readonly _logger: Logger
+    ) {
+        this._progress = new Subject<IFirmwareProgress>();
+        this._activeRollouts = new Set();
+    }
+
+    /**
+     * Stream of update state changes and transfer progress
+     */
+    public get progressUpdates(): Observable<IFirmwareProgress> {
+        return this._progress.asObservable();
+    }
+
+    /**
+     * Registers a firmware image after validating its version and target sensor types
+     * @param image - Version, compatible sensor types and release notes
+     * @param binary - Image contents
+     * @param createdBy - User registering the image
+     * @returns Registered image with its computed checksum
+     */
+    public async registerImage(
+        image: Pick<IFirmwareImage, 'version' | 'sensorTypes'> & { releaseNotes?: string },
+        binary: Buffer,
+        createdBy: string
+    ): Promise<IFirmwareImage> {
+        if (!VERSION_PATTERN.test(image.version)) {
+            throw new Error(`Invalid firmware version ${image.version}; expected major.minor.patch`);
+        }
+        const sensorTypes = [...new Set(image.sensorTypes)];
+        if (sensorTypes.length === 0 ||
+            !sensorTypes.every(type => Object.values(SENSOR_TYPES).includes(type))) {
+            throw new Error('Firmware must target at least one supported sensor type');
+        }
+        if (binary.length === 0 || binary.length > FIRMWARE_UPDATE.maxImageBytes) {
+            throw new Error(`Firmware image must be between 1 and ${FIRMWARE_UPDATE.maxImageBytes} bytes`);
+        }
+        if (await this._firmwareRepository.getImageByVersion(image.version)) {
+            throw new Error(`Firmware version ${image.version} already exists`);
+        }
+
+        const registered = await this._firmwareRepository.createImage({
+            version: image.version,
+            checksum: createHash('sha256').update(binary).digest('hex'),
+            sensorTypes,
+            sizeBytes: binary.length,
+            releaseNotes: image.releaseNotes ?? null,
+            createdBy
+        }, binary);
+
+        this._logger.info('Firmware image registered', {
+            version: registered.version,
+            sensorTypes,
+            checksum: registered.checksum
+        });
+
+        return registered;
+    }
+
+    /**
+     * Lists registered firmware images
+     * @param sensorType - Only list images compatible with this sensor type
+     */
+    public listImages(sensorType?: SENSOR_TYPES): Promise<IFirmwareImage[]> {
+        return this._firmwareRepository.listImages(sensorType);
+    }
+
+    /**
+     * Queues a firmware update of a single sensor and starts it in the background
+     * @param sensorId - Sensor to update
+     * @param version - Version to install; defaults to the newest compatible version
+     * @param requestedBy - User requesting the update
+     * @returns Queued update
+     */
+    public async updateSensor(
+        sensorId: string,
+        version: string | undefined,
+        requestedBy: string
+    ): Promise<IFirmwareUpdate> {
+        const sensor = await this._sensorRepository.getSensor(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+
+        const image = version
+            ? await this._firmwareRepository.getImageByVersion(version)
+            : await this.findLatestImage(sensor.type);
+        if (!image) {
+            throw new Error(version
+                ? `Firmware version ${version} not found`
+                : `No firmware found for ${sensor.type} sensors`);
+        }
+        if (!image.sensorTypes.includes(sensor.type)) {
+            throw new Error(`Firmware ${image.version} is not compatible with ${sensor.type} sensors`);
+        }
+        if (sensor.firmwareVersion === image.version) {
+            throw new Error(`Sensor ${sensorId} already runs firmware ${image.version}`);
+        }
+        if ((await this._firmwareRepository.getUnfinishedSensorIds([sensorId])).length > 0) {
+            throw new Error(`Sensor ${sensorId} already has a firmware update in progress`);
+        }
+
+        const update = await this._firmwareRepository.createUpdate({
+            sensorId,
+            firmwareId: image.id,
+            fromVersion: sensor.firmwareVersion,
+            toVersion: image.version,
+            requestedBy
+        });
+
+        this._firmwareRepository.getImageBinary(image.id)
+            .then(binary => this.performUpdate(update, image, binary))
+            .catch(error => this.rollback(update, sensor.status, error as Error));
+
+        return update;
+    }
+
+    /**
+     * Starts a staged rollout of a firmware version across a team's sensors. Sensors already
+     * running the version, incompatible sensors and sensors with an unfinished update are skipped.
+     * @param teamId - Team whose sensors are updated
+     * @param version - Version to install
+     * @param options - Stage percentages and failure threshold
+     * @param createdBy - User starting the rollout
+     * @returns Rollout with its queued updates
+     */
+    public async startRollout(
+        teamId: string,
+        version: string,
+        options: IFirmwareRolloutOptions,
+        createdBy: string
+    ): Promise<IFirmwareRolloutReport> {
+        const stages = options.stages ?? [...FIRMWARE_UPDATE.defaultStages];
+        const maxFailureRate = options.maxFailureRate ?? FIRMWARE_UPDATE.defaultMaxFailureRate;
+        this.validateRolloutOptions(stages, maxFailureRate);
+
+        const image = await this._firmwareRepository.getImageByVersion(version);
+        if (!image) {
+            throw new Error(`Firmware version ${version} not found`);
+        }
+        if (await this._firmwareRepository.findUnfinishedRollout(teamId)) {
+            throw new Error(`Team ${teamId} already has an unfinished firmware rollout`);
+        }
+
+        const sensors = await this.findRolloutSensors(teamId, image);
+        if (sensors.length === 0) {
+            throw new Error(`No sensors of team ${teamId} need firmware ${version}`);
+        }
+
+        // Sensors are spread over the stages by cumulative percentage; small teams may leave later stages empty
+        const stageEnds = stages.map(percentage => Math.ceil(sensors.length * percentage / 100));
+        const rollout = await this._firmwareRepository.createRollout(
+            { teamId, firmwareId: image.id, stages, maxFailureRate, createdBy },
+            sensors.map((sensor, index) => ({
+                sensorId: sensor.id,
+                stage: stageEnds.findIndex(end => index < end),
+                fromVersion: sensor.firmwareVersion,
+                toVersion: image.version
+            }))
+        );
+
+        this._logger.info('Firmware rollout started', {
+            rolloutId: rollout.id,
+            teamId,
+            version,
+            sensorCount: sensors.length,
+            stages
+        });
+
+        this.runRollout(rollout.id);
+        return this.getRollout(rollout.id);
+    }
+
+    /**
+     * Retrieves a rollout with the state of each sensor update
+     * @param rolloutId - Rollout identifier
+     */
+    public async getRollout(rolloutId: string): Promise<IFirmwareRolloutReport> {
+        const rollout = await this._firmwareRepository.getRollout(rolloutId);
+        if (!rollout) {
+            throw new Error(`Firmware rollout ${rolloutId} not found`);
+        }
+
+        const updates = await this._firmwareRepository.listRolloutUpdates(rolloutId);
+        const stateCounts = Object.keys(TRANSITIONS).reduce((counts, state) => ({
+            ...counts,
+            [state]: updates.filter(update => update.state === state).length
+        }), {} as Record<FirmwareUpdateState, number>);
+
+        return { rollout, stateCounts, updates };
+    }
+
+    /**
+     * Pauses a running rollout; updates already in progress finish
+     * @param rolloutId - Rollout identifier
+     */
+    public async pauseRollout(rolloutId: string): Promise<IFirmwareRollout> {
+        const rollout = await this._firmwareRepository.updateRollout(
+            rolloutId, { status: 'paused' }, ['running']
+        );
+        if (!rollout) {
+            throw new Error(`Firmware rollout ${rolloutId} not found or not running`);
+        }
+
+        this._logger.info('Firmware rollout paused', { rolloutId });
+        return rollout;
+    }
+
+    /**
+     * Resumes a paused rollout, or continues a halted rollout with its next stage
+     * @param rolloutId - Rollout identifier
+     */
+    public async resumeRollout(rolloutId: string): Promise<IFirmwareRollout> {
+        const current = await this._firmwareRepository.getRollout(rolloutId);
+        if (!current || (current.status !== 'paused' && current.status !== 'halted')) {
+            throw new Error(`Firmware rollout ${rolloutId} not found or not paused or halted`);
+        }
+
+        // Resuming a halted rollout accepts the failed stage and moves on to the next one
+        const nextStage = current.status === 'halted' ? current.currentStage + 1 : current.currentStage;
+        const finished = nextStage >= current.stages.length;
+        const rollout = await this._firmwareRepository.updateRollout(
+            rolloutId,
+            {
+                status: finished ? 'completed' : 'running',
+                currentStage: Math.min(nextStage, current.stages.length - 1),
+                haltReason: null
+            },
+            [current.status]
+        );
+        if (!rollout) {
+            throw new Error(`Firmware rollout ${rolloutId} changed while resuming`);
+        }
+
+        this._logger.info('Firmware rollout resumed', { rolloutId, stage: rollout.currentStage, status: rollout.status });
+        if (rollout.status === 'running') {
+            this.runRollout(rolloutId);
+        }
+        return rollout;
+    }
+
+    /**
+     * Cancels a rollout; queued updates are dropped and updates in progress finish
+     * @param rolloutId - Rollout identifier
+     */
+    public async cancelRollout(rolloutId: string): Promise<IFirmwareRollout> {
+        const rollout = await this._firmwareRepository.updateRollout(
+            rolloutId, { status: 'cancelled' }, ['running', 'paused', 'halted']
+        );
+        if (!rollout) {
+            throw new Error(`Firmware rollout ${rolloutId} not found or already finished`);
+        }
+
+        const dropped = await this._firmwareRepository.deleteQueuedUpdates(rolloutId);
+        this._logger.info('Firmware rollout cancelled', { rolloutId, droppedUpdates: dropped });
+        return rollout;
+    }
+
+    /**
+     * Runs a rollout in the background unless it is already running in this process
+     */
+    private runRollout(rolloutId: string): void {
+        if (this._activeRollouts.has(rolloutId)) {
+            return;
+        }
+
+        this._activeRollouts.add(rolloutId);
+        this.executeRollout(rolloutId)
+            .catch(error => this._logger.error('Firmware rollout stopped unexpectedly', {
+                rolloutId,
+                error: (error as Error).message
+            }))
+            .finally(() => this._activeRollouts.delete(rolloutId));
+    }
+
+    /**
+     * Updates the sensors of each stage in turn until the rollout completes, halts, or is
+     * paused or cancelled
+     */
+    private async executeRollout(rolloutId: string): Promise<void> {
+        let rollout = await this._firmwareRepository.getRollout(rolloutId);
+        if (!rollout) {
+            return;
+        }
+        const image = (await this._firmwareRepository.getImageByVersion(rollout.version))!;
+        const binary = await this._firmwareRepository.getImageBinary(image.id);
+
+        while (rollout?.status === 'running') {
+            const stage = rollout.currentStage;
+            const queued = (await this._firmwareRepository.listRolloutUpdates(rolloutId, stage))
+                .filter(update => update.state === 'queued');
+
+            const workerCount = Math.min(FIRMWARE_UPDATE.maxConcurrentUpdates, queued.length);
+            await Promise.all(Array.from({ length: workerCount }, async () => {
+                for (let update = queued.shift(); update; update = queued.shift()) {
+                    // A pause or cancel stops further updates; updates in progress finish
+                    const current = await this._firmwareRepository.getRollout(rolloutId);
+                    if (current?.status !== 'running') {
+                        return;
+                    }
+                    await this.performUpdate(update, image, binary);
+                }
+            }));
+
+            rollout = await this.completeStage(rolloutId, stage);
+        }
+    }
+
+    /**
+     * Halts the rollout if the stage failed too often, otherwise moves it to the next stage
+     * @returns Rollout after the stage, or null if it was paused or cancelled meanwhile
+     */
+    private async completeStage(rolloutId: string, stage: number): Promise<IFirmwareRollout | null> {
+        const rollout = await this._firmwareRepository.getRollout(rolloutId);
+        if (rollout?.status !== 'running') {
+            return null;
+        }
+
+        const updates = await this._firmwareRepository.listRolloutUpdates(rolloutId, stage);
+        const failed = updates.filter(update => update.state === 'rolled_back').length;
+
+        if (updates.length > 0 && failed / updates.length > rollout.maxFailureRate) {
+            const haltReason = `${failed} of ${updates.length} updates in stage ${stage + 1} rolled back`;
+            this._logger.error('Firmware rollout halted', { rolloutId, stage, failed, total: updates.length });
+            return this._firmwareRepository.updateRollout(rolloutId, { status: 'halted', haltReason }, ['running']);
+        }
+
+        if (stage + 1 >= rollout.stages.length) {
+            this._logger.info('Firmware rollout completed', { rolloutId, version: rollout.version });
+            return this._firmwareRepository.updateRollout(rolloutId, { status: 'completed' }, ['running']);
+        }
+
+        this._logger.info('Firmware rollout stage completed', { rolloutId, stage, failed, total: updates.length });
+        return this._firmwareRepository.updateRollout(rolloutId, { currentStage: stage + 1 }, ['running']);
+    }
+
+    /**
+     * Drives a sensor update through the state machine, rolling the sensor back on any failure.
+     * Never throws; failures end the update as rolled_back.
+     */
+    private async performUpdate(update: IFirmwareUpdate, image: IFirmwareImage, binary: Buffer): Promise<void> {
+        let current: IFirmwareUpdate = update;
+        let restoreStatus = SENSOR_STATUS.ACTIVE;
+
+        try {
+            const sensor = await this._sensorRepository.getSensor(update.sensorId);
+            if (!sensor) {
+                throw new Error(`Sensor ${update.sensorId} not found`);
+            }
+            if (sensor.status === SENSOR_STATUS.CALIBRATING) {
+                throw new Error(`Sensor ${update.sensorId} is calibrating`);
+            }
+            // A sensor left UPDATING by an interrupted update returns to ACTIVE
+            if (sensor.status !== SENSOR_STATUS.UPDATING) {
+                restoreStatus = sensor.status;
+            }
+
+            current = await this.transition(current, 'transferring', 0, SENSOR_STATUS.UPDATING);
+            await this.setSensorFirmware(update.sensorId, { status: SENSOR_STATUS.UPDATING });
+
+            let published = 0;
+            await this._transport.transfer(update.sensorId, binary, bytesSent => {
+                const progress = Math.min(100, Math.floor(bytesSent * 100 / binary.length));
+                if (progress - published >= FIRMWARE_UPDATE.progressStep) {
+                    published = progress;
+                    this.publish(current, progress, SENSOR_STATUS.UPDATING);
+                    this._firmwareRepository.updateTransferProgress(update.id, progress).catch(() => undefined);
+                }
+            });
+
+            current = await this.transition(current, 'verifying', 100, SENSOR_STATUS.UPDATING);
+            const checksum = await this._transport.verify(update.sensorId);
+            if (checksum !== image.checksum) {
+                throw new Error(`Checksum mismatch: expected ${image.checksum}, sensor reported ${checksum}`);
+            }
+
+            const reportedVersion = await this._transport.apply(update.sensorId);
+            if (reportedVersion !== update.toVersion) {
+                throw new Error(`Sensor reported version ${reportedVersion} after applying ${update.toVersion}`);
+            }
+
+            await this.setSensorFirmware(update.sensorId, { firmwareVersion: update.toVersion, status: restoreStatus });
+            await this.transition(current, 'applied', 100, restoreStatus);
+
+            this._logger.info('Firmware update applied', {
+                sensorId: update.sensorId,
+                updateId: update.id,
+                fromVersion: update.fromVersion,
+                toVersion: update.toVersion
+            });
+        } catch (error) {
+            await this.rollback(current, restoreStatus, error as Error);
+        }
+    }
+
+    /**
+     * Restores a failed update's sensor to its previous firmware and ends the update as
+     * rolled_back. A sensor that cannot be rolled back is left in the ERROR status.
+     */
+    private async rollback(update: IFirmwareUpdate, restoreStatus: SENSOR_STATUS, cause: Error): Promise<void> {
+        let error = cause.message;
+        let status = restoreStatus;
+
+        try {
+            // A queued update never reached the sensor, so there is nothing to roll back
+            if (update.state !== 'queued') {
+                const version = await this._transport.rollback(update.sensorId);
+                await this.setSensorFirmware(update.sensorId, { firmwareVersion: version, status });
+            }
+        } catch (rollbackError) {
+            status = SENSOR_STATUS.ERROR;
+            error = `${error}; rollback failed: ${(rollbackError as Error).message}`;
+            await this.setSensorFirmware(update.sensorId, { status }).catch(() => undefined);
+        }
+
+        try {
+            await this.transition(update, 'rolled_back', update.progress, status, error);
+        } catch (transitionError) {
+            this._logger.error('Failed to record firmware rollback', {
+                updateId: update.id,
+                error: (transitionError as Error).message
+            });
+        }
+
+        this._logger.error('Firmware update rolled back', {
+            sensorId: update.sensorId,
+            updateId: update.id,
+            toVersion: update.toVersion,
+            error
+        });
+    }
+
+    /**
+     * Moves an update to its next state and publishes the change
+     */
+    private async transition(
+        update: IFirmwareUpdate,
+        state: FirmwareUpdateState,
+        progress: number,
+        sensorStatus: SENSOR_STATUS,
+        error: string | null = null
+    ): Promise<IFirmwareUpdate> {
+        if (!TRANSITIONS[update.state].includes(state)) {
+            throw new Error(`Invalid firmware update transition from ${update.state} to ${state}`);
+        }
+
+        const updated = await this._firmwareRepository.transitionUpdate(update.id, update.state, { state, progress, error });
+        if (!updated) {
+            throw new Error(`Firmware update ${update.id} is no longer ${update.state}`);
+        }
+
+        this.publish(updated, progress, sensorStatus);
+        return updated;
+    }
+
+    /**
+     * Publishes an update's state and progress to subscribers
+     */
+    private publish(update: IFirmwareUpdate, progress: number, sensorStatus: SENSOR_STATUS): void {
+        this._progress.next({
+            updateId: update.id,
+            rolloutId: update.rolloutId,
+            sensorId: update.sensorId,
+            state: update.state,
+            progress,
+            version: update.toVersion,
+            error: update.error,
+            sensorStatus,
+            timestamp: new Date()
+        });
+    }
+
+    /**
+     * Writes a sensor's firmware version and status to its configuration
+     */
+    private async setSensorFirmware(
+        sensorId: string,
+        updates: Partial<Pick<ISensorConfig, 'firmwareVersion' | 'status'>>
+    ): Promise<void> {
+        await this._sensorRepository.bulkUpdateSensors([{ id: sensorId, updates }]);
+    }
+
+    /**
+     * Finds the newest registered firmware compatible with a sensor type
+     */
+    private async findLatestImage(sensorType: SENSOR_TYPES): Promise<IFirmwareImage | null> {
+        const images = await this._firmwareRepository.listImages(sensorType);
+        return images.reduce<IFirmwareImage | null>(
+            (latest, image) => !latest || compareVersions(image.version, latest.version) > 0 ? image : latest,
+            null
+        );
+    }
+
+    /**
+     * Finds the team's sensors that can and need to install an image
+     */
+    private async findRolloutSensors(teamId: string, image: IFirmwareImage): Promise<ISensorConfig[]> {
+        const sensorIds = await this._firmwareRepository.getTeamSensorIds(teamId);
+        if (sensorIds.length === 0) {
+            return [];
+        }
+
+        const busy = new Set(await this._firmwareRepository.getUnfinishedSensorIds(sensorIds));
+        const sensors = await Promise.all(
+            sensorIds.filter(id => !busy.has(id)).map(id => this._sensorRepository.getSensor(id))
+        );
+
+        return sensors.filter((sensor): sensor is ISensorConfig =>
+            !!sensor &&
+            image.sensorTypes.includes(sensor.type) &&
+            sensor.firmwareVersion !== image.version
+        );
+    }
+
+    /**
+     * Validates stage percentages and the failure threshold of a rollout
+     */
+    private validateRolloutOptions(stages: number[], maxFailureRate: number): void {
+        const ascending = stages.every((percentage, i) =>
+            Number.isInteger(percentage) && percentage > (i === 0 ? 0 : stages[i - 1]!));
+        if (stages.length === 0 || !ascending || stages[stages.length - 1] !== 100) {
+            throw new Error('Rollout stages must be ascending whole percentages ending at 100');
+        }
+        if (!(maxFailureRate >= 0 && maxFailureRate <= 1)) {
+            throw new Error('Rollout failure threshold must be between 0 and 1');
+        }
+    }
+}
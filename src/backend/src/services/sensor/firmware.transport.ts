@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Kafka firmware transport. Firmware commands are published to the firmware
+ * command topic, keyed by sensor so the gateway holding the sensor's Bluetooth connection
+ * receives them in order, and the gateway answers each command on the response topic.
+ *
+ * Images are sent in chunks, each acknowledged before the next is sent, so transfer progress
+ * follows what the sensor actually received.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { Consumer, Producer, KafkaMessage, EachMessagePayload } from 'kafkajs'; // v2.2.4
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { IFirmwareTransport } from '../../interfaces/firmware.interface';
+import { KAFKA_TOPICS } from '../../config/kafka.config';
+import { FIRMWARE_UPDATE } from '../../constants/sensor.constants';
+
+/**
+ * Commands understood by the sensor gateway
+ */
+type FirmwareCommand = 'transfer_chunk' | 'verify' | 'apply' | 'rollback';
+
+/**
+ * Gateway answer to a firmware command
+ */
+interface FirmwareResponse {
+    requestId: string;
+    status: 'ok' | 'error';
+    bytesReceived?: number;
+    checksum?: string;
+    version?: string;
+    error?: string;
+}
+
+/**
+ * Command waiting for its gateway response
+ */
+interface PendingCommand {
+    resolve: (response: FirmwareResponse) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Delivers firmware to sensors through their gateways over Kafka. Every instance must consume
+ * the response topic with its own consumer group, since responses go to the instance that sent
+ * the command.
+ */
+@injectable()
+export class KafkaFirmwareTransport implements IFirmwareTransport {
+    private readonly _pending: Map<string, PendingCommand>;
+
+    /**
+     * Initializes the transport with its Kafka clients
+     */
+    constructor(
+        private readonly _producer: Producer,
+        private readonly _consumer: Consumer,
+        private readonly _logger: Logger
+    ) {
+        this._pending = new Map();
+    }
+
+    /**
+     * Starts consuming gateway responses
+     */
+    public async start(): Promise<void> {
+        await this._producer.connect();
+        await this._consumer.connect();
+        await this._consumer.subscribe({
+            topic: KAFKA_TOPICS.FIRMWARE_RESPONSES,
+            fromBeginning: false
+        });
+
+        await this._consumer.run({
+            eachMessage: async (payload: EachMessagePayload) => {
+                this.handleResponse(payload.message);
+            }
+        });
+
+        this._logger.info('Firmware transport started', { topic: KAFKA_TOPICS.FIRMWARE_RESPONSES });
+    }
+
+    /**
+     * Fails commands still waiting for a response and disconnects Kafka clients
+     */
+    public async stop(): Promise<void> {
+        for (const [requestId, pending] of this._pending) {
+            clearTimeout(pending.timer);
+            pending.reject(new Error(`Firmware command ${requestId} cancelled: transport stopped`));
+        }
+        this._pending.clear();
+
+        await this._consumer.disconnect();
+        await this._producer.disconnect();
+    }
+
+    /**
+     * Sends an image to the sensor's inactive slot in acknowledged chunks
+     */
+    public async transfer(sensorId: string, image: Buffer, onProgress: (bytesSent: number) => void): Promise<void> {
+        for (let offset = 0; offset < image.length; offset += FIRMWARE_UPDATE.transferChunkBytes) {
+            const chunk = image.subarray(offset, offset + FIRMWARE_UPDATE.transferChunkBytes);
+            const response = await this.send(sensorId, 'transfer_chunk', FIRMWARE_UPDATE.commandTimeoutMs, {
+                offset,
+                totalBytes: image.length,
+                data: chunk.toString('base64')
+            });
+            onProgress(response.bytesReceived ?? offset + chunk.length);
+        }
+    }
+
+    /**
+     * Returns the SHA-256 checksum the sensor computed over the received image
+     */
+    public async verify(sensorId: string): Promise<string> {
+        const response = await this.send(sensorId, 'verify', FIRMWARE_UPDATE.commandTimeoutMs);
+        return this.required(response, 'checksum', sensorId);
+    }
+
+    /**
+     * Boots the received image and returns the version the sensor reports
+     */
+    public async apply(sensorId: string): Promise<string> {
+        const response = await this.send(sensorId, 'apply', FIRMWARE_UPDATE.bootTimeoutMs);
+        return this.required(response, 'version', sensorId);
+    }
+
+    /**
+     * Boots the previous image and returns the version the sensor reports
+     */
+    public async rollback(sensorId: string): Promise<string> {
+        const response = await this.send(sensorId, 'rollback', FIRMWARE_UPDATE.bootTimeoutMs);
+        return this.required(response, 'version', sensorId);
+    }
+
+    /**
+     * Publishes a command and waits for the gateway's response
+     */
+    private async send(
+        sensorId: string,
+        command: FirmwareCommand,
+        timeoutMs: number,
+        payload: Record<string, unknown> = {}
+    ): Promise<FirmwareResponse> {
+        const requestId = uuidv4();
+
+        const response = new Promise<FirmwareResponse>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this._pending.delete(requestId);
+                reject(new Error(`Sensor ${sensorId} did not answer ${command} within ${timeoutMs}ms`));
+            }, timeoutMs);
+            this._pending.set(requestId, { resolve, reject, timer });
+        });
+
+        try {
+            await this._producer.send({
+                topic: KAFKA_TOPICS.FIRMWARE_COMMANDS,
+                messages: [{
+                    key: sensorId,
+                    value: JSON.stringify({ requestId, sensorId, command, ...payload })
+                }]
+            });
+        } catch (error) {
+            const pending = this._pending.get(requestId);
+            if (pending) {
+                clearTimeout(pending.timer);
+                this._pending.delete(requestId);
+            }
+            throw error;
+        }
+
+        const result = await response;
+        if (result.status === 'error') {
+            throw new Error(`Sensor ${sensorId} failed ${command}: ${result.error ?? 'unknown error'}`);
+        }
+        return result;
+    }
+
+    /**
+     * Settles the command a gateway response belongs to; responses of other instances are ignored
+     */
+    private handleResponse(message: KafkaMessage): void {
+        let response: FirmwareResponse;
+        try {
+            response = JSON.parse(message.value?.toString() ?? '');
+        } catch (error) {
+            this._logger.error('Invalid firmware response', { offset: message.offset, error: error instanceof Error ? error.message : String(error) });
+            return;
+        }
+
+        const pending = this._pending.get(response?.requestId);
+        if (!pending) {
+            return;
+        }
+
+        clearTimeout(pending.timer);
+        this._pending.delete(response.requestId);
+        pending.resolve(response);
+    }
+
+    /**
+     * Reads a field the gateway must include in a successful response
+     */
+    private required(response: FirmwareResponse, field: 'checksum' | 'version', sensorId: string): string {
+        const value = response[field];
+        if (!value) {
+            throw new Error(`Sensor ${sensorId} response is missing its ${field}`);
+        }
+        return value;
+    }
+}
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Garment template registry and sensor pairing. Templates define the sensor
+ * slots of a garment model; pairing binds the physical sensors of one garment to those slots.
+ * Analyzers resolve a sensor's body segment, side and mounting orientation through its
+ * pairing, so location keys are the same for every garment model.
+ *
+ * Templates are immutable once registered, since pairings and recorded placements refer to
+ * their slots; a revised garment is registered as a new template.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import {
+    IGarmentPairing,
+    IGarmentSlot,
+    IGarmentTemplate,
+    ISegmentHeatMapCell,
+    ISensorPlacement
+} from '../../interfaces/garment.interface';
+import { ISensorConfig } from '../../interfaces/sensor.interface';
+import { GarmentRepository } from '../../db/repositories/garment.repository';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { SegmentHeatMap, resolvePlacement, validateBindings, validateTemplate } from './garment.template';
+import { GARMENT_TEMPLATES, SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Garment template to register
+ */
+export interface GarmentTemplateInput {
+    name: string;
+    description?: string;
+    slots: IGarmentSlot[];
+}
+
+/**
+ * Manages garment templates, pairings and sensor placements
+ */
+@injectable()
+export class GarmentService {
+    private readonly _templates: Map<string, IGarmentTemplate>;
+    private readonly _placements: Map<string, { placement: ISensorPlacement | null; expiresAt: number }>;
+
+    /**
+     * Initializes the garment service with its registry and sensor dependencies
+     */
+    constructor(
+        private readonly _garmentRepository: GarmentRepository,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _logger: Logger
+    ) {
+        this._templates = new Map();
+        this._placements = new Map();
+    }
+
+    /**
+     * Registers a garment template
+     * @param input - Template name, description and slots
+     * @param userId - User registering the template
+     * @returns Registered template
+     */
+    public async createTemplate(input: GarmentTemplateInput, userId: string): Promise<IGarmentTemplate> {
+        const name = input.name?.trim();
+        validateTemplate(name, input.slots);
+
+        if (await this._garmentRepository.getTemplateByName(name)) {
+            throw new Error(`Garment template ${name} already exists`);
+        }
+
+        const template = await this._garmentRepository.createTemplate({
+            name,
+            description: input.description ?? null,
+            slots: input.slots.map(slot => ({
+                id: slot.id,
+                segment: slot.segment,
+                side: slot.side,
+                orientation: { roll: slot.orientation.roll, pitch: slot.orientation.pitch, yaw: slot.orientation.yaw },
+                sensorType: slot.sensorType,
+                ...(slot.label ? { label: slot.label } : {})
+            })),
+            createdBy: userId
+        });
+
+        this._logger.info('Garment template registered', {
+            templateId: template.id,
+            name,
+            slotCount: template.slots.length,
+            userId
+        });
+
+        return template;
+    }
+
+    /**
+     * Lists registered garment templates by name
+     * @returns Garment templates
+     */
+    public async listTemplates(): Promise<IGarmentTemplate[]> {
+        return this._garmentRepository.listTemplates();
+    }
+
+    /**
+     * Retrieves a garment template
+     * @param templateId - Template identifier
+     * @returns Garment template
+     */
+    public async getTemplate(templateId: string): Promise<IGarmentTemplate> {
+        const cached = this._templates.get(templateId);
+        if (cached) {
+            return cached;
+        }
+
+        const template = await this._garmentRepository.getTemplate(templateId);
+        if (!template) {
+            throw new Error(`Garment template ${templateId} not found`);
+        }
+
+        this._templates.set(templateId, template);
+        return template;
+    }
+
+    /**
+     * Pairs a garment by binding its physical sensors to the template's slots. Each sensor's
+     * location is set to the canonical location of its slot.
+     * @param templateId - Template of the garment
+     * @param bindings - Sensor ID per slot ID
+     * @param athleteId - Athlete wearing the garment, when known
+     * @param userId - User pairing the garment
+     * @returns Created pairing
+     */
+    public async pairGarment(
+        templateId: string,
+        bindings: Record<string, string>,
+        athleteId: string | null,
+        userId: string
+    ): Promise<IGarmentPairing> {
+        const template = await this.getTemplate(templateId);
+
+        const sensorIds = Object.values(bindings);
+        const sensors = new Map<string, ISensorConfig | null>(await Promise.all(
+            sensorIds.map(async id => [id, await this._sensorRepository.getSensor(id)] as [string, ISensorConfig | null])
+        ));
+        validateBindings(template, bindings, sensors);
+
+        const [paired] = await this._garmentRepository.getActivePairingIds(sensorIds);
+        if (paired) {
+            throw new Error(`Sensor ${paired[0]} is already paired; unpair garment pairing ${paired[1]} first`);
+        }
+
+        const pairing = await this._garmentRepository.createPairing({
+            templateId,
+            athleteId,
+            bindings,
+            pairedBy: userId
+        });
+
+        // Keep the legacy location field in step with the placement
+        await this._sensorRepository.bulkUpdateSensors(sensorIds.map(sensorId => ({
+            id: sensorId,
+            updates: { location: resolvePlacement(template, pairing, sensorId)!.location }
+        })));
+        sensorIds.forEach(sensorId => this._placements.delete(sensorId));
+
+        this._logger.info('Garment paired', {
+            pairingId: pairing.id,
+            templateId,
+            athleteId,
+            sensorCount: sensorIds.length,
+            userId
+        });
+
+        return pairing;
+    }
+
+    /**
+     * Unpairs a garment, releasing its sensors for another garment
+     * @param pairingId - Pairing identifier
+     * @param userId - User unpairing the garment
+     * @returns Unpaired pairing
+     */
+    public async unpairGarment(pairingId: string, userId: string): Promise<IGarmentPairing> {
+        const pairing = await this._garmentRepository.unpair(pairingId);
+        if (!pairing) {
+            const existing = await this._garmentRepository.getPairing(pairingId);
+            throw new Error(existing
+                ? `Garment pairing ${pairingId} is already unpaired`
+                : `Garment pairing ${pairingId} not found`);
+        }
+
+        Object.values(pairing.bindings).forEach(sensorId => this._placements.delete(sensorId));
+
+        this._logger.info('Garment unpaired', { pairingId, userId });
+        return pairing;
+    }
+
+    /**
+     * Retrieves a garment pairing
+     * @param pairingId - Pairing identifier
+     * @returns Garment pairing
+     */
+    public async getPairing(pairingId: string): Promise<IGarmentPairing> {
+        const pairing = await this._garmentRepository.getPairing(pairingId);
+        if (!pairing) {
+            throw new Error(`Garment pairing ${pairingId} not found`);
+        }
+        return pairing;
+    }
+
+    /**
+     * Resolves where a sensor sits through its garment template
+     * @param sensorId - Sensor identifier
+     * @returns Sensor placement, or null when the sensor is not paired
+     */
+    public async resolvePlacement(sensorId: string): Promise<ISensorPlacement | null> {
+        const cached = this._placements.get(sensorId);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.placement;
+        }
+
+        const pairingId = (await this._garmentRepository.getActivePairingIds([sensorId])).get(sensorId);
+        const pairing = pairingId ? await this._garmentRepository.getPairing(pairingId) : null;
+        const placement = pairing
+            ? resolvePlacement(await this.getTemplate(pairing.templateId), pairing, sensorId)
+            : null;
+
+        this._placements.set(sensorId, { placement, expiresAt: Date.now() + GARMENT_TEMPLATES.placementCacheMs });
+        return placement;
+    }
+
+    /**
+     * Resolves the placements of several sensors
+     * @param sensorIds - Sensor identifiers
+     * @returns Placement per paired sensor
+     */
+    public async resolvePlacements(sensorIds: string[]): Promise<Map<string, ISensorPlacement>> {
+        const placements = await Promise.all(sensorIds.map(sensorId => this.resolvePlacement(sensorId)));
+        return new Map(placements
+            .filter((placement): placement is ISensorPlacement => placement !== null)
+            .map(placement => [placement.sensorId, placement]));
+    }
+
+    /**
+     * Builds a session's segment heat map from its stored sensor data, using the template
+     * placement recorded on each packet
+     * @param sessionId - Session identifier
+     * @param sensorType - Sensor type whose readings are mapped
+     * @returns Mean value per body segment
+     */
+    public async getSessionHeatMap(
+        sessionId: string,
+        sensorType: SENSOR_TYPES = SENSOR_TYPES.TOF
+    ): Promise<ISegmentHeatMapCell[]> {
+        const heatMap = new SegmentHeatMap(sensorType);
+        for await (const batch of this._sensorRepository.streamSessionSensorData(sessionId)) {
+            heatMap.add(batch);
+        }
+        return heatMap.cells();
+    }
+}
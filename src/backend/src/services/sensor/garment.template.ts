@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Garment template model. Validates the slots of a garment template and the
+ * sensor bindings of a pairing, and derives the canonical location key and heat map cell of a
+ * slot, so every garment reports the same keys for the same body segment.
+ *
+ * @version 1.0.0
+ */
+
+import {
+    BodySegment,
+    BodySide,
+    IGarmentPairing,
+    IGarmentSlot,
+    IGarmentTemplate,
+    ISegmentHeatMapCell,
+    ISensorPlacement
+} from '../../interfaces/garment.interface';
+import { ISensorConfig, ISensorData } from '../../interfaces/sensor.interface';
+import { BODY_SEGMENTS, BODY_SIDES, GARMENT_TEMPLATES, SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Segments on the body midline, which have no left or right side
+ */
+const MIDLINE_SEGMENTS: BodySegment[] = ['head', 'trunk', 'pelvis'];
+
+/**
+ * Canonical location key of a body segment and side, e.g. left_thigh or trunk
+ * @param segment - Body segment
+ * @param side - Body side
+ * @returns Location key shared by every garment
+ */
+export function placementLocation(segment: BodySegment, side: BodySide): string {
+    return side === 'center' ? segment : `${side}_${segment}`;
+}
+
+/**
+ * Heat map cell of a body segment and side
+ * @param segment - Body segment
+ * @param side - Body side
+ * @returns Row and column in the GARMENT_TEMPLATES heat map layout
+ */
+export function segmentCell(segment: BodySegment, side: BodySide): { row: number; col: number } {
+    const [row, col] = GARMENT_TEMPLATES.heatMapLayout[segment];
+    if (side === 'center') {
+        return { row, col: Math.floor(GARMENT_TEMPLATES.heatMapColumns / 2) };
+    }
+    return { row, col: side === 'left' ? col : GARMENT_TEMPLATES.heatMapColumns - 1 - col };
+}
+
+/**
+ * Validates a template's name and slots
+ * @param name - Template name
+ * @param slots - Template slots
+ */
+export function validateTemplate(name: string, slots: IGarmentSlot[]): void {
+    if (!name || !name.trim()) {
+        throw new Error('Garment template name is required');
+    }
+    if (!Array.isArray(slots) || slots.length === 0) {
+        throw new Error('Garment template must define at least one sensor slot');
+    }
+    if (slots.length > GARMENT_TEMPLATES.maxSlots) {
+        throw new Error(`Garment template defines ${slots.length} slots; at most ${GARMENT_TEMPLATES.maxSlots} are allowed`);
+    }
+
+    const slotIds = new Set<string>();
+    for (const slot of slots) {
+        if (!GARMENT_TEMPLATES.slotIdPattern.test(slot.id)) {
+            throw new Error(`Invalid slot ID ${slot.id}; use lowercase letters, digits and underscores`);
+        }
+        if (slotIds.has(slot.id)) {
+            throw new Error(`Duplicate slot ID ${slot.id}`);
+        }
+        slotIds.add(slot.id);
+
+        if (!BODY_SEGMENTS.includes(slot.segment)) {
+            throw new Error(`Slot ${slot.id} has unknown body segment ${slot.segment}`);
+        }
+        if (!BODY_SIDES.includes(slot.side)) {
+            throw new Error(`Slot ${slot.id} has unknown body side ${slot.side}`);
+        }
+        if ((slot.side === 'center') !== MIDLINE_SEGMENTS.includes(slot.segment)) {
+            throw new Error(slot.side === 'center'
+                ? `Slot ${slot.id} on the ${slot.segment} needs a left or right side`
+                : `Slot ${slot.id} on the ${slot.segment} must be on the center side`);
+        }
+        if (!Object.values(SENSOR_TYPES).includes(slot.sensorType)) {
+            throw new Error(`Slot ${slot.id} expects unknown sensor type ${slot.sensorType}`);
+        }
+
+        const { orientation } = slot;
+        if (!orientation || ![orientation.roll, orientation.pitch, orientation.yaw].every(angle =>
+            Number.isFinite(angle) && Math.abs(angle) <= 180)) {
+            throw new Error(`Slot ${slot.id} orientation angles must be between -180 and 180 degrees`);
+        }
+    }
+}
+
+/**
+ * Validates the sensors bound to a template's slots. Slots may be left unbound, e.g. when a
+ * garment is worn without one of its pods.
+ * @param template - Garment template
+ * @param bindings - Sensor ID per slot ID
+ * @param sensors - Bound sensors by ID, null where the sensor does not exist
+ */
+export function validateBindings(
+    template: IGarmentTemplate,
+    bindings: Record<string, string>,
+    sensors: Map<string, ISensorConfig | null>
+): void {
+    const entries = Object.entries(bindings);
+    if (entries.length === 0) {
+        throw new Error('Pairing must bind at least one sensor');
+    }
+
+    const boundSensors = new Set<string>();
+    for (const [slotId, sensorId] of entries) {
+        const slot = template.slots.find(candidate => candidate.id === slotId);
+        if (!slot) {
+            throw new Error(`Garment template ${template.name} has no slot ${slotId}`);
+        }
+        if (boundSensors.has(sensorId)) {
+            throw new Error(`Sensor ${sensorId} is bound to more than one slot`);
+        }
+        boundSensors.add(sensorId);
+
+        const sensor = sensors.get(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+        if (sensor.type !== slot.sensorType) {
+            throw new Error(`Slot ${slotId} expects a ${slot.sensorType} sensor but sensor ${sensorId} is ${sensor.type}`);
+        }
+    }
+}
+
+/**
+ * Resolves the placement of a paired sensor through its template
+ * @param template - Garment template
+ * @param pairing - Pairing binding the sensor
+ * @param sensorId - Paired sensor
+ * @returns Sensor placement, or null when the pairing does not bind the sensor
+ */
+export function resolvePlacement(
+    template: IGarmentTemplate,
+    pairing: IGarmentPairing,
+    sensorId: string
+): ISensorPlacement | null {
+    const slotId = Object.keys(pairing.bindings).find(id => pairing.bindings[id] === sensorId);
+    const slot = slotId ? template.slots.find(candidate => candidate.id === slotId) : undefined;
+    if (!slot) {
+        return null;
+    }
+
+    return {
+        sensorId,
+        pairingId: pairing.id,
+        templateId: template.id,
+        templateName: template.name,
+        slotId: slot.id,
+        segment: slot.segment,
+        side: slot.side,
+        orientation: slot.orientation,
+        location: placementLocation(slot.segment, slot.side)
+    };
+}
+
+/**
+ * Aggregates readings per body segment into the garment-independent heat map layout.
+ * Locations come from the template placement recorded on each packet, so the same segment
+ * lands in the same cell for every garment; packets of unpaired sensors are skipped.
+ */
+export class SegmentHeatMap {
+    private readonly _segments = new Map<string, { cell: ISegmentHeatMapCell; sum: number; count: number; sensors: Set<string> }>();
+
+    constructor(private readonly _sensorType: SENSOR_TYPES = SENSOR_TYPES.TOF) {}
+
+    /**
+     * Adds the readings of the configured sensor type to the packet's segment
+     * @param packets - Sensor data packets
+     */
+    public add(packets: ISensorData[]): void {
+        for (const packet of packets) {
+            const placement = packet.metadata?.placement;
+            if (!placement) {
+                continue;
+            }
+
+            const values = packet.readings
+                .filter(reading => reading.type === this._sensorType)
+                .map(reading => reading.value[0] ?? 0);
+            if (values.length === 0) {
+                continue;
+            }
+
+            let segment = this._segments.get(placement.location);
+            if (!segment) {
+                segment = {
+                    cell: {
+                        location: placement.location,
+                        segment: placement.segment,
+                        side: placement.side,
+                        ...segmentCell(placement.segment, placement.side),
+                        value: 0,
+                        sensorCount: 0
+                    },
+                    sum: 0,
+                    count: 0,
+                    sensors: new Set()
+                };
+                this._segments.set(placement.location, segment);
+            }
+
+            segment.sum += values.reduce((sum, value) => sum + value, 0);
+            segment.count += values.length;
+            segment.sensors.add(packet.sensorId);
+        }
+    }
+
+    /**
+     * Heat map cells of the segments seen so far
+     * @returns Mean value and sensor count per segment
+     */
+    public cells(): ISegmentHeatMapCell[] {
+        return Array.from(this._segments.values()).map(({ cell, sum, count, sensors }) => ({
+            ...cell,
+            value: sum / count,
+            sensorCount: sensors.size
+        }));
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview IMU orientation fusion. A Mahony attitude and heading reference filter integrates
+ * the gyroscope and pulls the estimate towards the gravity direction measured by the
+ * accelerometer, with an integral term that estimates gyro bias. Corrections are skipped while
+ * the accelerometer is far from 1 g (impacts, flight), so only gyro integration carries the
+ * estimate through them.
+ *
+ * Gravity makes roll and pitch observable but not heading, so yaw drifts with any bias left on
+ * the vertical gyro axis. When the sensor's garment placement is known, orientations are
+ * reported for the body segment by removing the slot's mounting rotation, and each segment
+ * starts at zero heading so the segments of one garment share a heading reference.
+ *
+ * @version 1.0.0
+ */
+
+import {
+    IEulerAngles,
+    IOrientationEstimate,
+    IOrientationSample,
+    IQuaternion,
+    ISensorReading
+} from '../../interfaces/sensor.interface';
+import { ISlotOrientation } from '../../interfaces/garment.interface';
+import {
+    CALIBRATION_PARAMS,
+    GRAVITY_MS2,
+    IMU_CHANNELS,
+    ORIENTATION_FUSION
+} from '../../constants/sensor.constants';
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Fuses accelerometer and gyroscope readings of one IMU stream into orientation quaternions,
+ * keeping the estimate and gyro bias across packets
+ */
+export class OrientationFilter {
+    private readonly _proportionalGain: number;
+    private readonly _integralGain: number;
+    private readonly _mounting: IQuaternion | null;
+    private _quaternion: IQuaternion | null = null;
+    private _integral: number[] = [0, 0, 0];
+    private _lastTimestamp: number | null = null;
+
+    /**
+     * Creates an orientation filter
+     * @param driftCorrection - The sensor's imuDriftCorrection calibration parameter; higher values
+     *   trust the accelerometer more and track gyro bias faster
+     * @param mounting - Mounting orientation of the sensor on its body segment, when known
+     * @throws Error if the drift correction is outside the calibration range
+     */
+    constructor(driftCorrection: number, mounting?: ISlotOrientation | null) {
+        const { min, max } = CALIBRATION_PARAMS.imuDriftCorrection;
+        if (!Number.isFinite(driftCorrection) || driftCorrection < min || driftCorrection > max) {
+            throw new Error(`IMU drift correction must be between ${min} and ${max}`);
+        }
+
+        this._proportionalGain = ORIENTATION_FUSION.proportionalGain * driftCorrection;
+        this._integralGain = ORIENTATION_FUSION.integralGain * driftCorrection;
+        this._mounting = mounting ? quaternionFromEuler(mounting) : null;
+    }
+
+    /**
+     * Estimated gyro bias per axis in deg/s
+     */
+    public get gyroBias(): number[] {
+        return this._integral.map(value => -value / DEG_TO_RAD);
+    }
+
+    /**
+     * Fuses consecutive IMU readings
+     * @param readings - IMU readings in timestamp order, values as [ax, ay, az, gx, gy, gz]
+     * @returns Orientation estimate with one sample per reading
+     */
+    public update(readings: Array<Pick<ISensorReading, 'timestamp' | 'value'>>): IOrientationEstimate {
+        const samples: IOrientationSample[] = [];
+
+        for (const reading of readings) {
+            const accel = IMU_CHANNELS.accel.map(channel => reading.value[channel] ?? 0);
+            const gyro = IMU_CHANNELS.gyro.map(channel => (reading.value[channel] ?? 0) * DEG_TO_RAD);
+
+            if (!this._quaternion || this._lastTimestamp === null
+                || reading.timestamp - this._lastTimestamp > ORIENTATION_FUSION.resetAfterMs) {
+                this._quaternion = this.initialize(accel);
+            } else if (reading.timestamp > this._lastTimestamp) {
+                this._quaternion = this.step(this._quaternion, accel, gyro,
+                    (reading.timestamp - this._lastTimestamp) / 1000);
+            }
+            this._lastTimestamp = Math.max(reading.timestamp, this._lastTimestamp ?? reading.timestamp);
+
+            const quaternion = this._mounting
+                ? multiplyQuaternions(this._quaternion, conjugateQuaternion(this._mounting))
+                : this._quaternion;
+            samples.push({
+                timestamp: reading.timestamp,
+                quaternion,
+                euler: quaternionToEuler(quaternion)
+            });
+        }
+
+        return {
+            frame: this._mounting ? 'segment' : 'sensor',
+            gyroBias: this.gyroBias,
+            samples
+        };
+    }
+
+    /**
+     * Levels a new estimate from gravity, turned so the segment (or the sensor when unmounted)
+     * faces zero heading
+     */
+    private initialize(accel: number[]): IQuaternion {
+        const levelled = quaternionFromGravity(accel);
+        if (!this._mounting) {
+            return levelled;
+        }
+
+        const segment = multiplyQuaternions(levelled, conjugateQuaternion(this._mounting));
+        const heading = Math.atan2(2 * (segment.w * segment.z + segment.x * segment.y),
+            1 - 2 * (segment.y * segment.y + segment.z * segment.z));
+        return multiplyQuaternions({ w: Math.cos(heading / 2), x: 0, y: 0, z: -Math.sin(heading / 2) }, levelled);
+    }
+
+    /**
+     * Advances the estimate by one gyro sample, corrected towards the measured gravity direction
+     */
+    private step(q: IQuaternion, accel: number[], gyro: number[], dt: number): IQuaternion {
+        const error = [0, 0, 0];
+        const norm = Math.hypot(accel[0]!, accel[1]!, accel[2]!);
+
+        if (norm > 0 && Math.abs(norm / GRAVITY_MS2 - 1) <= ORIENTATION_FUSION.accelTolerance) {
+            const [ax, ay, az] = accel.map(value => value / norm) as [number, number, number];
+
+            // Direction of gravity in the sensor frame predicted by the current estimate
+            const vx = 2 * (q.x * q.z - q.w * q.y);
+            const vy = 2 * (q.w * q.x + q.y * q.z);
+            const vz = q.w * q.w - q.x * q.x - q.y * q.y + q.z * q.z;
+
+            error[0] = ay * vz - az * vy;
+            error[1] = az * vx - ax * vz;
+            error[2] = ax * vy - ay * vx;
+
+            const limit = ORIENTATION_FUSION.maxGyroBias * DEG_TO_RAD;
+            this._integral = this._integral.map((value, axis) =>
+                Math.min(limit, Math.max(-limit, value + this._integralGain * error[axis]! * dt)));
+        }
+
+        const [wx, wy, wz] = gyro.map((rate, axis) =>
+            rate + this._proportionalGain * error[axis]! + this._integral[axis]!) as [number, number, number];
+
+        return normalizeQuaternion({
+            w: q.w + 0.5 * dt * (-q.x * wx - q.y * wy - q.z * wz),
+            x: q.x + 0.5 * dt * (q.w * wx + q.y * wz - q.z * wy),
+            y: q.y + 0.5 * dt * (q.w * wy - q.x * wz + q.z * wx),
+            z: q.z + 0.5 * dt * (q.w * wz + q.x * wy - q.y * wx)
+        });
+    }
+}
+
+/**
+ * Builds the quaternion of ZYX Euler angles
+ * @param angles - Roll, pitch and yaw in degrees
+ * @returns Unit quaternion
+ */
+export function quaternionFromEuler({ roll, pitch, yaw }: IEulerAngles): IQuaternion {
+    const [cr, sr] = [Math.cos(roll * DEG_TO_RAD / 2), Math.sin(roll * DEG_TO_RAD / 2)];
+    const [cp, sp] = [Math.cos(pitch * DEG_TO_RAD / 2), Math.sin(pitch * DEG_TO_RAD / 2)];
+    const [cy, sy] = [Math.cos(yaw * DEG_TO_RAD / 2), Math.sin(yaw * DEG_TO_RAD / 2)];
+
+    return {
+        w: cr * cp * cy + sr * sp * sy,
+        x: sr * cp * cy - cr * sp * sy,
+        y: cr * sp * cy + sr * cp * sy,
+        z: cr * cp * sy - sr * sp * cy
+    };
+}
+
+/**
+ * Converts a quaternion to ZYX Euler angles
+ * @param q - Unit quaternion
+ * @returns Roll, pitch and yaw in degrees
+ */
+export function quaternionToEuler(q: IQuaternion): IEulerAngles {
+    const sinPitch = Math.min(1, Math.max(-1, 2 * (q.w * q.y - q.z * q.x)));
+
+    return {
+        roll: Math.atan2(2 * (q.w * q.x + q.y * q.z), 1 - 2 * (q.x * q.x + q.y * q.y)) / DEG_TO_RAD,
+        pitch: Math.asin(sinPitch) / DEG_TO_RAD,
+        yaw: Math.atan2(2 * (q.w * q.z + q.x * q.y), 1 - 2 * (q.y * q.y + q.z * q.z)) / DEG_TO_RAD
+    };
+}
+
+/**
+ * Hamilton product of two quaternions, applying b first and then a
+ */
+export function multiplyQuaternions(a: IQuaternion, b: IQuaternion): IQuaternion {
+    return {
+        w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+        x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+        y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+        z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+    };
+}
+
+/**
+ * Rotates a vector by a unit quaternion, e.g. from the body frame into the world frame
+ */
+export function rotateVector(q: IQuaternion, [x, y, z]: number[]): number[] {
+    const rotated = multiplyQuaternions(multiplyQuaternions(q, { w: 0, x: x!, y: y!, z: z! }), conjugateQuaternion(q));
+    return [rotated.x, rotated.y, rotated.z];
+}
+
+/**
+ * Inverse rotation of a unit quaternion
+ */
+export function conjugateQuaternion(q: IQuaternion): IQuaternion {
+    return { w: q.w, x: -q.x, y: -q.y, z: -q.z };
+}
+
+/**
+ * Scales a quaternion to unit length
+ */
+const normalizeQuaternion = (q: IQuaternion): IQuaternion => {
+    const norm = Math.hypot(q.w, q.x, q.y, q.z);
+    return { w: q.w / norm, x: q.x / norm, y: q.y / norm, z: q.z / norm };
+};
+
+/**
+ * Initial orientation levelled by the measured gravity direction, with zero heading
+ */
+const quaternionFromGravity = ([ax, ay, az]: number[]): IQuaternion => {
+    if (!ax && !ay && !az) {
+        return { w: 1, x: 0, y: 0, z: 0 };
+    }
+    return quaternionFromEuler({
+        roll: Math.atan2(ay!, az!) / DEG_TO_RAD,
+        pitch: Math.atan2(-ax!, Math.hypot(ay!, az!)) / DEG_TO_RAD,
+        yaw: 0
+    });
+};
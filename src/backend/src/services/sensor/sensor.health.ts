@@ -0,0 +1,363 @@
+/**
+ * @fileoverview Sensor health model. Scores a sensor's battery from its discharge curve, its
+ * BLE link from packet loss, its calibration from the quality history of its calibration
+ * versions and its stability from how often it enters the error state, forecasts remaining
+ * battery life and time to recalibration, and lists the maintenance the crossed thresholds
+ * call for.
+ *
+ * Battery history is split into discharge cycles at charges, and only the current cycle is
+ * used, so a recent charge does not hide a degrading battery.
+ *
+ * @version 1.0.0
+ */
+
+import { ICalibrationVersion } from '../../interfaces/calibration.interface';
+import {
+    IBatteryForecast,
+    ICalibrationForecast,
+    ISensorHealthIssue,
+    ISensorHealthReport,
+    ISensorHealthUpdate,
+    ISensorTelemetry
+} from '../../interfaces/health.interface';
+import { SENSOR_HEALTH, SENSOR_STATUS } from '../../constants/sensor.constants';
+
+/**
+ * Everything a sensor's health is evaluated from
+ */
+export interface SensorHealthInput {
+    sensorId: string;
+    /** Current battery level in percent */
+    batteryLevel: number;
+    lastCalibration: Date | null;
+    /** Telemetry over the lookback window, oldest first */
+    telemetry: ISensorTelemetry[];
+    /** Calibration versions, oldest first */
+    calibrationVersions: ICalibrationVersion[];
+    /** Whether residual temperature drift is within spec, null without a temperature model */
+    temperatureWithinSpec: boolean | null;
+    /** Fraction of samples lost over the packet loss window */
+    packetLoss: number;
+    lastMaintenance: Date | null;
+    now: Date;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+const clamp = (value: number, min: number, max: number): number =>
+    Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 1): number =>
+    Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Least-squares slope of y against x, null when x does not vary
+ */
+function slope(points: Array<[number, number]>): number | null {
+    const n = points.length;
+    const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+    const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+
+    let covariance = 0;
+    let variance = 0;
+    for (const [x, y] of points) {
+        covariance += (x - meanX) * (y - meanY);
+        variance += (x - meanX) ** 2;
+    }
+
+    return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Measures the discharge rate of the current battery cycle. Snapshots taken while the sensor
+ * was disconnected are skipped, so the rate is that of a streaming sensor.
+ * @param telemetry - Telemetry snapshots, oldest first
+ * @returns Discharge rate in %/h, null without a long enough discharge
+ */
+export function measureDischargeRate(telemetry: ISensorTelemetry[]): number | null {
+    const streaming = telemetry.filter(sample => sample.status !== SENSOR_STATUS.DISCONNECTED);
+
+    // The current cycle starts after the last charge
+    let cycleStart = 0;
+    for (let i = 1; i < streaming.length; i++) {
+        if (streaming[i]!.batteryLevel - streaming[i - 1]!.batteryLevel >= SENSOR_HEALTH.battery.chargeJump) {
+            cycleStart = i;
+        }
+    }
+
+    const cycle = streaming.slice(cycleStart);
+    if (cycle.length < SENSOR_HEALTH.battery.minCycleSamples) {
+        return null;
+    }
+
+    const origin = cycle[0]!.recordedAt.getTime();
+    const spanHours = (cycle[cycle.length - 1]!.recordedAt.getTime() - origin) / HOUR_MS;
+    if (spanHours < SENSOR_HEALTH.battery.minCycleHours) {
+        return null;
+    }
+
+    const rate = slope(cycle.map(sample => [
+        (sample.recordedAt.getTime() - origin) / HOUR_MS,
+        sample.batteryLevel
+    ]));
+
+    return rate !== null && rate < 0 ? -rate : null;
+}
+
+/**
+ * Forecasts remaining battery life at a discharge rate
+ * @param level - Current battery level in percent
+ * @param dischargeRate - Discharge rate in %/h
+ * @returns Battery forecast
+ */
+export function forecastBattery(level: number, dischargeRate: number | null): IBatteryForecast {
+    if (dischargeRate === null) {
+        return { level, dischargeRate: null, remainingHours: null, hoursToLow: null };
+    }
+
+    return {
+        level,
+        dischargeRate: round(dischargeRate, 2),
+        remainingHours: round(level / dischargeRate),
+        hoursToLow: round(Math.max(0, level - SENSOR_HEALTH.battery.lowLevel) / dischargeRate)
+    };
+}
+
+/**
+ * Forecasts when a sensor is due for recalibration. Recalibration is due one interval after
+ * the last calibration, or earlier when the quality of recent versions declines towards the
+ * minimum quality.
+ * @param versions - Calibration versions, oldest first
+ * @param lastCalibration - Time of the last calibration
+ * @param temperatureWithinSpec - Residual temperature drift state of the sensor
+ * @param now - Evaluation time
+ * @returns Calibration forecast
+ */
+export function forecastCalibration(
+    versions: ICalibrationVersion[],
+    lastCalibration: Date | null,
+    temperatureWithinSpec: boolean | null,
+    now: Date
+): ICalibrationForecast {
+    const latest = versions.length > 0 ? versions[versions.length - 1] : null;
+    const calibratedAt = lastCalibration ?? (latest ? new Date(latest.createdAt) : null);
+
+    if (!calibratedAt) {
+        return {
+            lastCalibration: null,
+            qualityScore: null,
+            qualityTrend: null,
+            dueAt: now,
+            daysRemaining: 0,
+            temperatureWithinSpec
+        };
+    }
+
+    let dueAt = calibratedAt.getTime() + SENSOR_HEALTH.calibration.intervalDays * DAY_MS;
+
+    const recent = versions.slice(-SENSOR_HEALTH.calibration.trendVersions);
+    const trend = recent.length >= 2
+        ? slope(recent.map(version => [new Date(version.createdAt).getTime() / DAY_MS, version.qualityScore]))
+        : null;
+
+    if (latest) {
+        const latestAt = new Date(latest.createdAt).getTime();
+        if (latest.qualityScore < SENSOR_HEALTH.calibration.minQuality) {
+            dueAt = Math.min(dueAt, latestAt);
+        } else if (trend !== null && trend < 0) {
+            const daysToMinimum = (latest.qualityScore - SENSOR_HEALTH.calibration.minQuality) / -trend;
+            dueAt = Math.min(dueAt, latestAt + daysToMinimum * DAY_MS);
+        }
+    }
+
+    return {
+        lastCalibration: calibratedAt,
+        qualityScore: latest?.qualityScore ?? null,
+        qualityTrend: trend !== null ? round(trend, 4) : null,
+        dueAt: new Date(dueAt),
+        daysRemaining: round((dueAt - now.getTime()) / DAY_MS),
+        temperatureWithinSpec
+    };
+}
+
+/**
+ * Counts how often a sensor entered the error state
+ * @param telemetry - Telemetry snapshots, oldest first
+ * @returns Number of transitions into the error state
+ */
+export function countErrorEvents(telemetry: ISensorTelemetry[]): number {
+    return telemetry.filter((sample, i) =>
+        sample.status === SENSOR_STATUS.ERROR &&
+        (i === 0 || telemetry[i - 1]!.status !== SENSOR_STATUS.ERROR)
+    ).length;
+}
+
+/**
+ * Lists the maintenance called for by the thresholds a report crosses
+ */
+function findIssues(report: Omit<ISensorHealthReport, 'issues' | 'recommendations'>): ISensorHealthIssue[] {
+    const now = report.evaluatedAt.getTime();
+    const inspectAt = new Date(now + SENSOR_HEALTH.maintenance.leadHours * HOUR_MS);
+    const durations = SENSOR_HEALTH.maintenance.durationMinutes;
+    const issues: ISensorHealthIssue[] = [];
+
+    const { battery } = report;
+    if (battery.level < SENSOR_HEALTH.battery.lowLevel) {
+        issues.push({
+            reason: 'battery',
+            description: `Battery is at ${battery.level}%; charge the sensor`,
+            priority: 5,
+            scheduledTime: new Date(now),
+            duration: durations.battery
+        });
+    } else if (battery.hoursToLow !== null && battery.hoursToLow <= SENSOR_HEALTH.battery.leadHours) {
+        issues.push({
+            reason: 'battery',
+            description: `Battery falls below ${SENSOR_HEALTH.battery.lowLevel}% in ${battery.hoursToLow} h; charge the sensor`,
+            priority: 4,
+            scheduledTime: new Date(now + battery.hoursToLow * HOUR_MS),
+            duration: durations.battery
+        });
+    } else if (report.batteryHealth < SENSOR_HEALTH.battery.minHealth) {
+        issues.push({
+            reason: 'battery',
+            description: `Battery discharges at ${battery.dischargeRate}%/h; replace the battery`,
+            priority: 3,
+            scheduledTime: inspectAt,
+            duration: durations.battery
+        });
+    }
+
+    const { calibration } = report;
+    if (calibration.daysRemaining <= SENSOR_HEALTH.calibration.leadDays) {
+        const overdue = calibration.daysRemaining <= 0;
+        issues.push({
+            reason: 'calibration',
+            description: overdue
+                ? 'Recalibration is overdue'
+                : `Recalibration is due in ${calibration.daysRemaining} days`,
+            priority: overdue ? 4 : 3,
+            scheduledTime: new Date(Math.max(now, calibration.dueAt.getTime())),
+            duration: durations.calibration
+        });
+    } else if (calibration.temperatureWithinSpec === false) {
+        issues.push({
+            reason: 'calibration',
+            description: 'Residual temperature drift is out of spec; refit the temperature model',
+            priority: 3,
+            scheduledTime: inspectAt,
+            duration: durations.calibration
+        });
+    }
+
+    if (report.packetLoss > SENSOR_HEALTH.packetLoss.threshold) {
+        issues.push({
+            reason: 'packet_loss',
+            description: `${round(report.packetLoss * 100)}% of samples were lost; inspect the sensor's connection`,
+            priority: report.packetLoss >= SENSOR_HEALTH.packetLoss.max ? 4 : 3,
+            scheduledTime: inspectAt,
+            duration: durations.packet_loss
+        });
+    }
+
+    if (report.errorsPerDay > SENSOR_HEALTH.errors.thresholdPerDay) {
+        issues.push({
+            reason: 'errors',
+            description: `Sensor entered the error state ${report.errorsPerDay} times per day; run diagnostics`,
+            priority: report.errorsPerDay >= SENSOR_HEALTH.errors.maxPerDay ? 4 : 3,
+            scheduledTime: inspectAt,
+            duration: durations.errors
+        });
+    }
+
+    if (report.overallHealth < SENSOR_HEALTH.minOverallHealth) {
+        issues.push({
+            reason: 'health',
+            description: `Overall health is ${report.overallHealth}; inspect the sensor`,
+            priority: report.overallHealth < SENSOR_HEALTH.minOverallHealth / 2 ? 5 : 4,
+            scheduledTime: inspectAt,
+            duration: durations.health
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Evaluates a sensor's health, forecasts and the maintenance it needs
+ * @param input - Sensor state and history
+ * @returns Health report
+ */
+export function evaluateSensorHealth(input: SensorHealthInput): ISensorHealthReport {
+    const battery = forecastBattery(input.batteryLevel, measureDischargeRate(input.telemetry));
+    const calibration = forecastCalibration(
+        input.calibrationVersions,
+        input.lastCalibration,
+        input.temperatureWithinSpec,
+        input.now
+    );
+
+    // Health degrades as discharge outpaces a healthy battery
+    const batteryHealth = battery.dischargeRate !== null
+        ? 100 * clamp(SENSOR_HEALTH.battery.nominalDischargeRate / battery.dischargeRate, 0, 1)
+        : 100;
+
+    const calibrationHealth = 100 *
+        clamp(calibration.daysRemaining / SENSOR_HEALTH.calibration.intervalDays, 0, 1) *
+        (calibration.temperatureWithinSpec === false ? SENSOR_HEALTH.calibration.temperatureOutOfSpecFactor : 1);
+
+    const connectionQuality = 100 * (1 - clamp(input.packetLoss / SENSOR_HEALTH.packetLoss.max, 0, 1));
+
+    const errorsPerDay = countErrorEvents(input.telemetry) / SENSOR_HEALTH.telemetryLookbackDays;
+    const errorHealth = 100 * (1 - clamp(errorsPerDay / SENSOR_HEALTH.errors.maxPerDay, 0, 1));
+
+    const { weights } = SENSOR_HEALTH;
+    const overallHealth = batteryHealth * weights.battery +
+        calibrationHealth * weights.calibration +
+        connectionQuality * weights.connection +
+        errorHealth * weights.errors;
+
+    const report = {
+        sensorId: input.sensorId,
+        evaluatedAt: input.now,
+        overallHealth: round(overallHealth),
+        batteryHealth: round(batteryHealth),
+        calibrationHealth: round(calibrationHealth),
+        connectionQuality: round(connectionQuality),
+        errorHealth: round(errorHealth),
+        packetLoss: round(input.packetLoss, 4),
+        errorsPerDay: round(errorsPerDay, 2),
+        battery,
+        calibration,
+        lastMaintenance: input.lastMaintenance
+    };
+
+    const issues = findIssues(report);
+    return { ...report, issues, recommendations: issues.map(issue => issue.description) };
+}
+
+/**
+ * Lists the health metrics of a report as updates for subscribers
+ * @param report - Health report
+ * @returns One update per component score
+ */
+export function toHealthUpdates(report: ISensorHealthReport): ISensorHealthUpdate[] {
+    const metrics: Array<[string, number]> = [
+        ['overallHealth', report.overallHealth],
+        ['batteryHealth', report.batteryHealth],
+        ['calibrationHealth', report.calibrationHealth],
+        ['connectionQuality', report.connectionQuality],
+        ['errorHealth', report.errorHealth]
+    ];
+
+    return metrics.map(([metric, value]) => ({
+        sensorId: report.sensorId,
+        timestamp: report.evaluatedAt,
+        metric,
+        value,
+        status: value >= SENSOR_HEALTH.degradedHealth
+            ? 'healthy'
+            : value >= SENSOR_HEALTH.minOverallHealth ? 'degraded' : 'critical'
+    }));
+}
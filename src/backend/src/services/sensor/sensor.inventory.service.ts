@@ -0,0 +1,354 @@
+/**
+ * @fileoverview Team sensor inventory. Sensors are registered to a team, checked out to and
+ * returned by athletes, and may be reported lost or retired. Checkouts never overlap, so the
+ * assignment history answers which athlete wore a sensor at any timestamp and historical data
+ * stays attributed to the right athlete after sensors are swapped.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { IInventorySensor, ISensorAssignment, InventoryState } from '../../interfaces/inventory.interface';
+import { SensorInventoryRepository } from '../../db/repositories/sensor-inventory.repository';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { SENSOR_INVENTORY } from '../../constants/sensor.constants';
+
+/**
+ * Manages team sensor inventories and sensor checkouts to athletes
+ */
+@injectable()
+export class SensorInventoryService {
+    private readonly _attribution: Map<string, { assignments: ISensorAssignment[]; expiresAt: number }>;
+
+    /**
+     * Initializes the inventory service with its repository and sensor dependencies
+     */
+    constructor(
+        private readonly _inventoryRepository: SensorInventoryRepository,
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _logger: Logger
+    ) {
+        this._attribution = new Map();
+    }
+
+    /**
+     * Registers sensors to a team's inventory
+     * @param teamId - Owning team
+     * @param sensorIds - Sensors to register
+     * @param userId - User registering the sensors
+     * @returns Registered sensors
+     */
+    public async registerSensors(teamId: string, sensorIds: string[], userId: string): Promise<IInventorySensor[]> {
+        if (sensorIds.length === 0) {
+            throw new Error('At least one sensor is required');
+        }
+        if (sensorIds.length > SENSOR_INVENTORY.maxRegisterBatch) {
+            throw new Error(`At most ${SENSOR_INVENTORY.maxRegisterBatch} sensors can be registered at once`);
+        }
+        if (new Set(sensorIds).size !== sensorIds.length) {
+            throw new Error('Each sensor can be registered once');
+        }
+
+        for (const sensorId of sensorIds) {
+            if (!await this._sensorRepository.getSensor(sensorId)) {
+                throw new Error(`Sensor ${sensorId} not found`);
+            }
+        }
+
+        const [registered] = await this._inventoryRepository.getSensors(sensorIds);
+        if (registered) {
+            throw new Error(`Sensor ${registered.sensorId} is already registered to team ${registered.teamId}`);
+        }
+
+        const sensors = await this._inventoryRepository.registerSensors(teamId, sensorIds, userId);
+
+        this._logger.info('Sensors registered', {
+            teamId,
+            sensorCount: sensors.length,
+            userId
+        });
+
+        return sensors;
+    }
+
+    /**
+     * Lists a team's inventory
+     * @param teamId - Owning team
+     * @param state - Optional state filter
+     * @returns Sensors with their open assignments
+     */
+    public async listInventory(teamId: string, state?: InventoryState): Promise<IInventorySensor[]> {
+        return this._inventoryRepository.listSensors(teamId, state);
+    }
+
+    /**
+     * Retrieves an inventory sensor
+     * @param sensorId - Sensor identifier
+     * @returns Sensor with its open assignment
+     */
+    public async getSensor(sensorId: string): Promise<IInventorySensor> {
+        const [sensor] = await this._inventoryRepository.getSensors([sensorId]);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} is not registered to a team`);
+        }
+        return sensor;
+    }
+
+    /**
+     * Moves a sensor to another team's inventory
+     * @param sensorId - Sensor identifier
+     * @param teamId - New owning team
+     * @param userId - User transferring the sensor
+     * @returns Transferred sensor
+     */
+    public async transferSensor(sensorId: string, teamId: string, userId: string): Promise<IInventorySensor> {
+        const sensor = await this.getSensor(sensorId);
+        if (sensor.teamId === teamId) {
+            throw new Error(`Sensor ${sensorId} is already registered to team ${teamId}`);
+        }
+        this.assertState(sensor, ['available', 'lost'], 'transferred');
+
+        if (!await this._inventoryRepository.transferSensor(sensorId, teamId)) {
+            throw new Error(`Sensor ${sensorId} changed state; retry the transfer`);
+        }
+
+        this._logger.info('Sensor transferred', {
+            sensorId,
+            fromTeamId: sensor.teamId,
+            toTeamId: teamId,
+            userId
+        });
+
+        return this.getSensor(sensorId);
+    }
+
+    /**
+     * Checks out an available sensor to an athlete of its team. A past checkout time records
+     * a swap after the fact, as long as it does not overlap an earlier assignment.
+     * @param sensorId - Sensor identifier
+     * @param athleteId - Athlete receiving the sensor
+     * @param userId - User checking the sensor out
+     * @param at - Start of the assignment, now when omitted
+     * @returns Opened assignment
+     */
+    public async checkoutSensor(
+        sensorId: string,
+        athleteId: string,
+        userId: string,
+        at: Date = new Date()
+    ): Promise<ISensorAssignment> {
+        this.assertNotFuture(at);
+
+        const sensor = await this.getSensor(sensorId);
+        if (sensor.assignment) {
+            throw new Error(`Sensor ${sensorId} is already checked out to athlete ${sensor.assignment.athleteId}`);
+        }
+        this.assertState(sensor, ['available'], 'checked out');
+
+        if (!await this._inventoryRepository.isTeamAthlete(sensor.teamId, athleteId)) {
+            throw new Error(`Athlete ${athleteId} is not a member of team ${sensor.teamId}`);
+        }
+
+        const [overlapping] = await this._inventoryRepository.getAssignments(sensorId, at);
+        if (overlapping) {
+            throw new Error(`Sensor ${sensorId} was checked out to athlete ${overlapping.athleteId} until `
+                + `${overlapping.returnedAt!.toISOString()}; checkouts cannot overlap`);
+        }
+
+        const assignment = await this._inventoryRepository.checkout(sensorId, athleteId, at, userId);
+        if (!assignment) {
+            throw new Error(`Sensor ${sensorId} is no longer available`);
+        }
+        this._attribution.delete(sensorId);
+
+        this._logger.info('Sensor checked out', {
+            sensorId,
+            athleteId,
+            checkedOutAt: at,
+            userId
+        });
+
+        return assignment;
+    }
+
+    /**
+     * Returns a checked out sensor to the inventory
+     * @param sensorId - Sensor identifier
+     * @param userId - User returning the sensor
+     * @param at - End of the assignment, now when omitted
+     * @returns Closed assignment
+     */
+    public async returnSensor(sensorId: string, userId: string, at: Date = new Date()): Promise<ISensorAssignment> {
+        this.assertNotFuture(at);
+
+        const sensor = await this.getSensor(sensorId);
+        const { assignment } = sensor;
+        if (!assignment) {
+            throw new Error(`Sensor ${sensorId} is not checked out`);
+        }
+        if (at < assignment.checkedOutAt) {
+            throw new Error(`Sensor ${sensorId} cannot be returned before it was checked out at `
+                + assignment.checkedOutAt.toISOString());
+        }
+
+        await this.transition(sensor, ['checked_out'], 'available', { at, userId, endReason: 'returned' });
+
+        this._logger.info('Sensor returned', {
+            sensorId,
+            athleteId: assignment.athleteId,
+            returnedAt: at,
+            userId
+        });
+
+        return { ...assignment, returnedAt: at, endReason: 'returned', returnedBy: userId };
+    }
+
+    /**
+     * Reports a sensor lost, ending its assignment when it is checked out
+     * @param sensorId - Sensor identifier
+     * @param userId - User reporting the loss
+     * @param notes - Optional circumstances of the loss
+     * @returns Updated sensor
+     */
+    public async reportLost(sensorId: string, userId: string, notes?: string): Promise<IInventorySensor> {
+        const sensor = await this.getSensor(sensorId);
+        this.assertState(sensor, ['available', 'checked_out'], 'reported lost');
+
+        await this.transition(sensor, ['available', 'checked_out'], 'lost', {
+            at: new Date(),
+            userId,
+            ...(notes !== undefined && { notes }),
+            endReason: 'lost'
+        });
+
+        this._logger.info('Sensor reported lost', {
+            sensorId,
+            athleteId: sensor.assignment?.athleteId,
+            userId
+        });
+
+        return this.getSensor(sensorId);
+    }
+
+    /**
+     * Returns a lost sensor to the available inventory
+     * @param sensorId - Sensor identifier
+     * @param userId - User reporting the sensor found
+     * @returns Updated sensor
+     */
+    public async reportFound(sensorId: string, userId: string): Promise<IInventorySensor> {
+        const sensor = await this.getSensor(sensorId);
+        this.assertState(sensor, ['lost'], 'reported found');
+
+        await this.transition(sensor, ['lost'], 'available', { at: new Date(), userId });
+
+        this._logger.info('Sensor reported found', { sensorId, userId });
+        return this.getSensor(sensorId);
+    }
+
+    /**
+     * Retires a sensor permanently; checked out sensors must be returned first
+     * @param sensorId - Sensor identifier
+     * @param userId - User retiring the sensor
+     * @param notes - Optional retirement reason
+     * @returns Updated sensor
+     */
+    public async retireSensor(sensorId: string, userId: string, notes?: string): Promise<IInventorySensor> {
+        const sensor = await this.getSensor(sensorId);
+        this.assertState(sensor, ['available', 'lost'], 'retired');
+
+        await this.transition(sensor, ['available', 'lost'], 'retired', {
+            at: new Date(),
+            userId,
+            ...(notes !== undefined && { notes })
+        });
+
+        this._logger.info('Sensor retired', { sensorId, userId });
+        return this.getSensor(sensorId);
+    }
+
+    /**
+     * Lists a sensor's assignments overlapping a time range
+     * @param sensorId - Sensor identifier
+     * @param from - Range start, unbounded when omitted
+     * @param to - Range end, unbounded when omitted
+     * @returns Assignments in checkout order
+     */
+    public async getAssignments(sensorId: string, from?: Date, to?: Date): Promise<ISensorAssignment[]> {
+        if (from && to && from >= to) {
+            throw new Error('Range start must be before its end');
+        }
+        return this._inventoryRepository.getAssignments(sensorId, from, to);
+    }
+
+    /**
+     * Lists the sensors an athlete wore during a time range, to attribute their data
+     * @param athleteId - Athlete identifier
+     * @param from - Range start
+     * @param to - Range end
+     * @returns Assignments in checkout order
+     */
+    public async getAthleteAssignments(athleteId: string, from: Date, to: Date): Promise<ISensorAssignment[]> {
+        if (from >= to) {
+            throw new Error('Range start must be before its end');
+        }
+        return this._inventoryRepository.getAthleteAssignments(athleteId, from, to);
+    }
+
+    /**
+     * Resolves the athlete a sensor was checked out to at a timestamp
+     * @param sensorId - Sensor identifier
+     * @param timestamp - Time of the data in milliseconds
+     * @returns Athlete ID, or null when the sensor was not checked out at the time
+     */
+    public async resolveAthlete(sensorId: string, timestamp: number): Promise<string | null> {
+        let cached = this._attribution.get(sensorId);
+        if (!cached || cached.expiresAt <= Date.now()) {
+            cached = {
+                assignments: await this._inventoryRepository.getAssignments(sensorId),
+                expiresAt: Date.now() + SENSOR_INVENTORY.attributionCacheMs
+            };
+            this._attribution.set(sensorId, cached);
+        }
+
+        const assignment = cached.assignments.find(candidate =>
+            candidate.checkedOutAt.getTime() <= timestamp
+            && (candidate.returnedAt === null || candidate.returnedAt.getTime() > timestamp));
+        return assignment?.athleteId ?? null;
+    }
+
+    /**
+     * Applies a guarded state change and drops the sensor's cached assignment history
+     */
+    private async transition(
+        sensor: IInventorySensor,
+        from: InventoryState[],
+        to: InventoryState,
+        change: Parameters<SensorInventoryRepository['transition']>[3]
+    ): Promise<void> {
+        if (!await this._inventoryRepository.transition(sensor.sensorId, from, to, change)) {
+            throw new Error(`Sensor ${sensor.sensorId} changed state; retry`);
+        }
+        this._attribution.delete(sensor.sensorId);
+    }
+
+    /**
+     * Rejects an action on a sensor outside the states allowing it
+     */
+    private assertState(sensor: IInventorySensor, allowed: InventoryState[], action: string): void {
+        if (!allowed.includes(sensor.state)) {
+            throw new Error(`Sensor ${sensor.sensorId} is ${sensor.state.replace('_', ' ')} and cannot be ${action}`);
+        }
+    }
+
+    /**
+     * Rejects assignment times in the future
+     */
+    private assertNotFuture(at: Date): void {
+        if (Number.isNaN(at.getTime()) || at.getTime() > Date.now()) {
+            throw new Error('Assignment times cannot be in the future');
+        }
+    }
+}
@@ -13,6 +13,8 @@ import { catchError, map, bufferTime, retryWhen, delay, take } from 'rxjs/operat
 import { ISensorData } from '../../interfaces/sensor.interface';
 import { SENSOR_TYPES } from '../../constants/sensor.constants';
 import { SensorDataProcessor } from './data.processor';
+import { CalibrationProtocolService } from './calibration.protocol.service';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
 
 /**
  * Interface for stream processing metrics
@@ -45,7 +47,9 @@ export class SensorStreamProcessor {
      * Initializes the stream processor with optimized configuration
      */
     constructor(
-        private readonly dataProcessor: SensorDataProcessor
+        private readonly dataProcessor: SensorDataProcessor,
+        private readonly sensorRepository: SensorRepository,
+        private readonly calibrationProtocolService: CalibrationProtocolService
     ) {
         // Initialize Kafka with optimized configuration
         this._kafka = new Kafka({
@@ -138,27 +142,40 @@ export class SensorStreamProcessor {
             // Validate data structure
             this.validateSensorData(data);
 
+            // Guided calibration captures judge the athlete's movement on unfiltered readings
+            this.calibrationProtocolService.ingest(data);
+
             // Process data through optimized pipeline
             const processedData = await this.dataProcessor.processData(data);
 
+            // Persist detected gaps for the session gap report; replays would only duplicate them
+            if (!data.replayId) {
+                await this.sensorRepository.recordSensorGaps(
+                    data.sessionId,
+                    processedData.processingMetadata.gapStats.gaps
+                );
+            }
+
             // Apply compression if needed
             const compressedData = this.shouldCompress(processedData) 
                 ? await this.compressData(processedData)
                 : processedData;
 
-            // Publish processed data
+            // Publish processed data. Replayed packets take the same analytics and alert path,
+            // tagged with their replay run so downstream workers keep them apart from live data
             await this._producer.send({
                 topic: this._topicName,
                 compression: CompressionTypes.GZIP,
                 messages: [{
                     key: data.sensorId,
                     value: JSON.stringify(compressedData),
-                    timestamp: Date.now().toString()
+                    timestamp: Date.now().toString(),
+                    headers: data.replayId ? { 'x-replay-id': data.replayId } : {}
                 }]
             });
 
             // Update processing metrics
-            this.updateMetrics(data.sensorId, startTime);
+            this.updateMetrics(this.getMetricsKey(data), startTime);
 
         } catch (error) {
             await this.handleError(error);
@@ -256,6 +273,14 @@ export class SensorStreamProcessor {
         this._metrics.set(sensorId, metrics);
     }
 
+    /**
+     * Resolves the metrics key, namespacing replayed packets so they never
+     * blend into live sensor metrics
+     */
+    private getMetricsKey(data: ISensorData): string {
+        return data.replayId ? `replay:${data.replayId}:${data.sensorId}` : data.sensorId;
+    }
+
     /**
      * Updates batch processing metrics
      */
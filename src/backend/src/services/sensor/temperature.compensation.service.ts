@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Per-sensor temperature compensation. Fits a sensor's temperature-to-bias model
+ * from the packets it logged at different skin or ambient temperatures, applies the model as
+ * part of the sensor's calibration and reports the drift left after compensation, so sensors
+ * that are out of spec in hot or cold conditions can be spotted.
+ *
+ * A fitted model is stored in the calibration parameters and recorded as a calibration
+ * version, so it can be compared and rolled back like any other calibration.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { ICalibrationVersion, ITemperatureModel } from '../../interfaces/calibration.interface';
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { CalibrationHistoryService } from './calibration.history.service';
+import {
+    extractTemperatureSample,
+    fitTemperatureModel,
+    meanSlope,
+    readTemperature,
+    TemperatureSample
+} from './temperature.compensation';
+import { SENSOR_DATA_ROLLUPS, SENSOR_STATUS, TEMPERATURE_COMPENSATION } from '../../constants/sensor.constants';
+
+/**
+ * Logged data a temperature model is fitted from
+ */
+export interface TemperatureFitRange {
+    /** Range start as a Unix timestamp in milliseconds */
+    start: number;
+    /** Range end as a Unix timestamp in milliseconds */
+    end: number;
+    /** Optional session to restrict the fit to */
+    sessionId?: string;
+}
+
+/**
+ * Bound of the legacy scalar temperatureCompensation parameter
+ */
+const MAX_COMPENSATION_FACTOR = 50;
+
+/**
+ * Fits, applies and reports sensor temperature compensation models
+ */
+@injectable()
+export class TemperatureCompensationService {
+    /**
+     * Initializes the temperature compensation service with its calibration dependencies
+     */
+    constructor(
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _calibrationHistoryService: CalibrationHistoryService,
+        private readonly _logger: Logger
+    ) {}
+
+    /**
+     * Fits a sensor's temperature model from its logged data and applies it as a new calibration
+     * @param sensorId - Sensor identifier
+     * @param range - Logged data to fit from
+     * @param operatorId - User fitting the model
+     * @returns Calibration version carrying the fitted model
+     */
+    public async fitModel(
+        sensorId: string,
+        range: TemperatureFitRange,
+        operatorId: string
+    ): Promise<ICalibrationVersion> {
+        const sensor = await this._sensorRepository.getSensor(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+        if (sensor.status === SENSOR_STATUS.CALIBRATING) {
+            throw new Error('Sensor is already being calibrated');
+        }
+        if (sensor.status === SENSOR_STATUS.UPDATING) {
+            throw new Error(`Sensor ${sensorId} cannot be calibrated during a firmware update`);
+        }
+
+        const packets = await this.readFitRange(sensorId, range);
+
+        // Every sample of a model must come from the same environmental factor
+        const factor = TEMPERATURE_COMPENSATION.factors.find(name =>
+            packets.some(packet => readTemperature(packet.metadata, name) !== null)
+        );
+        if (!factor) {
+            throw new Error(`No temperature was logged with the data of sensor ${sensorId}`);
+        }
+
+        const samples = packets
+            .map(packet => extractTemperatureSample(packet, sensor.type, sensor.calibrationParams, factor))
+            .filter((sample): sample is TemperatureSample => sample !== null);
+        const model = fitTemperatureModel(samples, sensor.type, factor);
+
+        const params = {
+            ...sensor.calibrationParams,
+            temperatureCompensation: Math.max(-MAX_COMPENSATION_FACTOR,
+                Math.min(MAX_COMPENSATION_FACTOR, meanSlope(model))),
+            temperatureModel: model
+        };
+
+        await this._sensorRepository.bulkUpdateSensors([{
+            id: sensorId,
+            updates: { calibrationParams: params, lastCalibration: new Date() }
+        }]);
+
+        const record = await this._calibrationHistoryService.recordCalibration(sensorId, params, {
+            operatorId,
+            qualityScore: Math.max(0, 1 - model.residualDrift.rmsResidual / model.residualDrift.spec),
+            environmentalConditions: {
+                minTemperature: model.temperatureRange.min,
+                maxTemperature: model.temperatureRange.max
+            }
+        });
+
+        this._logger.info('Temperature model fitted', {
+            sensorId,
+            version: record.version,
+            factor,
+            sampleCount: model.sampleCount,
+            packetCount: packets.length,
+            rmsResidual: model.residualDrift.rmsResidual,
+            withinSpec: model.residualDrift.withinSpec
+        });
+
+        return record;
+    }
+
+    /**
+     * Retrieves the temperature model a sensor is calibrated with and its residual drift
+     * @param sensorId - Sensor identifier
+     * @returns Sensor's temperature model
+     */
+    public async getModel(sensorId: string): Promise<ITemperatureModel> {
+        const sensor = await this._sensorRepository.getSensor(sensorId);
+        if (!sensor) {
+            throw new Error(`Sensor ${sensorId} not found`);
+        }
+
+        const model = sensor.calibrationParams?.temperatureModel;
+        if (!model) {
+            throw new Error(`Temperature model of sensor ${sensorId} not found`);
+        }
+
+        return model;
+    }
+
+    /**
+     * Reads every raw packet of the fit range, page by page, since a single query returns
+     * at most the repository's point budget
+     */
+    private async readFitRange(sensorId: string, range: TemperatureFitRange): Promise<ISensorData[]> {
+        const packets: ISensorData[] = [];
+        let after: number | undefined;
+
+        do {
+            const page = await this._sensorRepository.getSensorData({
+                sensorId,
+                start: range.start,
+                end: range.end,
+                ...(range.sessionId && { sessionId: range.sessionId }),
+                ...(after !== undefined && { after }),
+                resolution: 'raw',
+                maxPoints: SENSOR_DATA_ROLLUPS.maxPoints
+            });
+            packets.push(...page.data);
+
+            if (packets.length > TEMPERATURE_COMPENSATION.maxPackets) {
+                throw new Error(
+                    `Fit range of sensor ${sensorId} holds more than ${TEMPERATURE_COMPENSATION.maxPackets} packets`
+                );
+            }
+
+            const last = page.data[page.data.length - 1];
+            after = page.truncated && last ? last.timestamp : undefined;
+        } while (after !== undefined);
+
+        return packets;
+    }
+}
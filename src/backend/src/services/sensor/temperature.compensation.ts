@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Temperature compensation model. Fits a per-sensor curve of reading bias
+ * against skin or ambient temperature from logged packets in which the bias can be observed
+ * directly: gyro output of a still IMU and load output of an unloaded ToF sensor. The fitted
+ * curve is removed from readings before filtering, and the bias left after compensation is
+ * reported per temperature band.
+ *
+ * Bias is modelled as a polynomial in degrees from the reference temperature. Compensation
+ * removes the temperature-dependent terms only, so readings at the reference temperature are
+ * left unchanged and the constant offset stays with the drift correction parameters.
+ *
+ * @version 1.0.0
+ */
+
+import {
+    ITemperatureBandDrift,
+    ITemperatureChannelModel,
+    ITemperatureCompensation,
+    ITemperatureDriftReport,
+    ITemperatureModel,
+    TemperatureBand
+} from '../../interfaces/calibration.interface';
+import {
+    ISensorCalibrationParams,
+    ISensorData,
+    ISensorMetadata,
+    ISensorReading
+} from '../../interfaces/sensor.interface';
+import { IMU_CHANNELS, SENSOR_TYPES, TEMPERATURE_COMPENSATION } from '../../constants/sensor.constants';
+
+/**
+ * Bias of the compensated channels observed in one packet
+ */
+export interface TemperatureSample {
+    temperature: number;
+
+    /** Mean value of each compensated channel, in modelChannels order */
+    bias: number[];
+}
+
+/**
+ * Readings needed in a packet to judge whether the sensor was still
+ */
+const MIN_PACKET_READINGS = 5;
+
+const mean = (values: number[]): number =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[], average = mean(values)): number =>
+    Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+
+const evaluatePolynomial = (coefficients: number[], x: number): number =>
+    coefficients.reduce((sum, coefficient, power) => sum + coefficient * x ** power, 0);
+
+/**
+ * Reading channels a sensor type's model compensates
+ * @param sensorType - Type of the sensor
+ * @returns Channel indices
+ */
+export function modelChannels(sensorType: SENSOR_TYPES): number[] {
+    return sensorType === SENSOR_TYPES.IMU ? [...IMU_CHANNELS.gyro] : [0];
+}
+
+/**
+ * Reads the temperature a packet was logged at
+ * @param metadata - Packet metadata
+ * @param factor - Environmental factor to read; the first preferred factor present when omitted
+ * @returns Factor and temperature, or null when the packet carries none
+ */
+export function readTemperature(
+    metadata: ISensorMetadata | null | undefined,
+    factor?: string
+): { factor: string; temperature: number } | null {
+    const factors: readonly string[] = factor ? [factor] : TEMPERATURE_COMPENSATION.factors;
+
+    for (const name of factors) {
+        const temperature = metadata?.environmentalFactors?.[name];
+        if (typeof temperature === 'number' && Number.isFinite(temperature)) {
+            return { factor: name, temperature };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Temperature band a temperature falls in
+ */
+export function temperatureBand(temperature: number): TemperatureBand {
+    const band = TEMPERATURE_COMPENSATION.bands.find(bounds =>
+        (!('min' in bounds) || temperature >= bounds.min) && (!('max' in bounds) || temperature < bounds.max)
+    );
+    return band!.band;
+}
+
+/**
+ * Extracts the bias observed in a logged packet. Only packets in which the sensor was still
+ * (IMU) or unloaded (ToF) show the bias directly; all others are skipped.
+ * @param packet - Logged sensor data packet
+ * @param sensorType - Type of the sensor
+ * @param params - Calibration parameters the sensor was logged with
+ * @param factor - Environmental factor the model is fitted against
+ * @returns Observed bias, or null when the packet shows none
+ */
+export function extractTemperatureSample(
+    packet: ISensorData,
+    sensorType: SENSOR_TYPES,
+    params: Partial<ISensorCalibrationParams> | undefined,
+    factor: string
+): TemperatureSample | null {
+    const reading = readTemperature(packet.metadata, factor);
+    const readings = packet.readings.filter(entry => entry.type === sensorType);
+    if (!reading || readings.length < MIN_PACKET_READINGS) {
+        return null;
+    }
+
+    const bias: number[] = [];
+    for (const channel of modelChannels(sensorType)) {
+        const values = readings.map(entry => entry.value[channel] ?? 0);
+        const average = mean(values);
+        const spread = standardDeviation(values, average);
+
+        if (sensorType === SENSOR_TYPES.IMU && spread > TEMPERATURE_COMPENSATION.stillness.imuGyroStd) {
+            return null;
+        }
+        if (sensorType === SENSOR_TYPES.TOF && (spread > TEMPERATURE_COMPENSATION.stillness.tofLoadStd ||
+            Math.abs(average) > (params?.pressureThreshold ?? Infinity))) {
+            return null;
+        }
+        bias.push(average);
+    }
+
+    return { temperature: reading.temperature, bias };
+}
+
+/**
+ * Fits polynomial coefficients by least squares, constant term first
+ */
+function fitPolynomial(x: number[], y: number[], degree: number): number[] {
+    const size = degree + 1;
+
+    // Normal equations (XᵀX)c = Xᵀy as an augmented matrix
+    const matrix = Array.from({ length: size }, (_, row) => [
+        ...Array.from({ length: size }, (_, column) =>
+            x.reduce((sum, value) => sum + value ** (row + column), 0)),
+        x.reduce((sum, value, index) => sum + value ** row * y[index]!, 0)
+    ]);
+
+    // Gaussian elimination with partial pivoting
+    for (let column = 0; column < size; column++) {
+        let pivot = column;
+        for (let row = column + 1; row < size; row++) {
+            if (Math.abs(matrix[row]![column]!) > Math.abs(matrix[pivot]![column]!)) {
+                pivot = row;
+            }
+        }
+        [matrix[column], matrix[pivot]] = [matrix[pivot]!, matrix[column]!];
+
+        const lead = matrix[column]![column]!;
+        if (Math.abs(lead) < 1e-12) {
+            throw new Error('Logged temperatures do not support a temperature model');
+        }
+        for (let row = column + 1; row < size; row++) {
+            const factor = matrix[row]![column]! / lead;
+            for (let k = column; k <= size; k++) {
+                matrix[row]![k]! -= factor * matrix[column]![k]!;
+            }
+        }
+    }
+
+    const coefficients = new Array<number>(size).fill(0);
+    for (let row = size - 1; row >= 0; row--) {
+        let sum = matrix[row]![size]!;
+        for (let column = row + 1; column < size; column++) {
+            sum -= matrix[row]![column]! * coefficients[column]!;
+        }
+        coefficients[row] = sum / matrix[row]![row]!;
+    }
+
+    return coefficients;
+}
+
+/**
+ * Measures the bias left after compensation on the packets a model was fitted from
+ * @param channels - Fitted channel curves, in modelChannels order
+ * @param samples - Observed bias samples
+ * @param sensorType - Type of the sensor
+ * @param referenceTemperature - Temperature the curves are centred on
+ * @returns Residual drift overall and per temperature band
+ */
+export function computeResidualDrift(
+    channels: ITemperatureChannelModel[],
+    samples: TemperatureSample[],
+    sensorType: SENSOR_TYPES,
+    referenceTemperature: number = TEMPERATURE_COMPENSATION.referenceTemperature
+): ITemperatureDriftReport {
+    const spec = sensorType === SENSOR_TYPES.IMU
+        ? TEMPERATURE_COMPENSATION.residualSpec.imu
+        : TEMPERATURE_COMPENSATION.residualSpec.tof;
+
+    // Largest channel residual of each sample
+    const residuals = samples.map(sample => ({
+        temperature: sample.temperature,
+        residual: Math.max(...channels.map((model, index) => Math.abs(
+            sample.bias[index]! - evaluatePolynomial(model.coefficients, sample.temperature - referenceTemperature)
+        )))
+    }));
+
+    const bands: ITemperatureBandDrift[] = TEMPERATURE_COMPENSATION.bands.map(bounds => {
+        const inBand = residuals.filter(entry => temperatureBand(entry.temperature) === bounds.band);
+        const maxResidual = inBand.length > 0 ? Math.max(...inBand.map(entry => entry.residual)) : null;
+        return {
+            band: bounds.band,
+            minTemperature: 'min' in bounds ? bounds.min : null,
+            maxTemperature: 'max' in bounds ? bounds.max : null,
+            sampleCount: inBand.length,
+            maxResidual,
+            withinSpec: maxResidual === null ? null : maxResidual <= spec
+        };
+    });
+
+    return {
+        spec,
+        rmsResidual: residuals.length > 0 ? Math.sqrt(mean(residuals.map(entry => entry.residual ** 2))) : 0,
+        maxResidual: residuals.length > 0 ? Math.max(...residuals.map(entry => entry.residual)) : 0,
+        bands,
+        withinSpec: bands.every(band => band.withinSpec !== false)
+    };
+}
+
+/**
+ * Fits a temperature-to-bias model from bias samples logged at different temperatures. A
+ * quadratic term is fitted only when the samples span enough temperatures to support it.
+ * @param samples - Bias samples of still or unloaded packets
+ * @param sensorType - Type of the sensor
+ * @param factor - Environmental factor the samples were read from
+ * @returns Fitted model with its residual drift
+ */
+export function fitTemperatureModel(
+    samples: TemperatureSample[],
+    sensorType: SENSOR_TYPES,
+    factor: string
+): ITemperatureModel {
+    if (samples.length < TEMPERATURE_COMPENSATION.minPackets) {
+        throw new Error(
+            `Only ${samples.length} usable packets were logged; at least ${TEMPERATURE_COMPENSATION.minPackets} are needed`
+        );
+    }
+
+    const temperatures = samples.map(sample => sample.temperature);
+    const temperatureRange = { min: Math.min(...temperatures), max: Math.max(...temperatures) };
+    const span = temperatureRange.max - temperatureRange.min;
+    if (span < TEMPERATURE_COMPENSATION.minSpanC) {
+        throw new Error(
+            `Logged temperatures span ${span.toFixed(1)}°C; at least ${TEMPERATURE_COMPENSATION.minSpanC}°C are needed`
+        );
+    }
+
+    const referenceTemperature = TEMPERATURE_COMPENSATION.referenceTemperature;
+    const degree = span >= TEMPERATURE_COMPENSATION.quadraticSpanC ? 2 : 1;
+    const offsets = temperatures.map(temperature => temperature - referenceTemperature);
+
+    const channels = modelChannels(sensorType).map((channel, index) => ({
+        channel,
+        coefficients: fitPolynomial(offsets, samples.map(sample => sample.bias[index]!), degree)
+    }));
+
+    return {
+        sensorType,
+        factor,
+        referenceTemperature,
+        temperatureRange,
+        channels,
+        sampleCount: samples.length,
+        residualDrift: computeResidualDrift(channels, samples, sensorType, referenceTemperature),
+        fittedAt: new Date()
+    };
+}
+
+/**
+ * Mean linear bias slope of a model, in reading units per °C
+ */
+export function meanSlope(model: ITemperatureModel): number {
+    return mean(model.channels.map(channel => channel.coefficients[1] ?? 0));
+}
+
+/**
+ * Removes a model's temperature-dependent bias from the readings of a packet. Temperatures
+ * beyond the fitted range are clamped to the extrapolation margin around it.
+ * @param readings - Packet readings
+ * @param model - Sensor's temperature model
+ * @param metadata - Packet metadata carrying the temperature
+ * @returns Compensated readings and the applied compensation, or the readings unchanged when
+ *          the packet carries no temperature for the model's factor
+ */
+export function compensateReadings(
+    readings: ISensorReading[],
+    model: ITemperatureModel,
+    metadata: ISensorMetadata | null | undefined
+): { readings: ISensorReading[]; compensation: ITemperatureCompensation | null } {
+    const reading = readTemperature(metadata, model.factor);
+    if (!reading) {
+        return { readings, compensation: null };
+    }
+
+    const { temperature } = reading;
+    const { min, max } = model.temperatureRange;
+    const clamped = Math.min(
+        max + TEMPERATURE_COMPENSATION.extrapolationC,
+        Math.max(min - TEMPERATURE_COMPENSATION.extrapolationC, temperature)
+    );
+    const offset = clamped - model.referenceTemperature;
+
+    const corrections: Record<number, number> = {};
+    for (const channel of model.channels) {
+        corrections[channel.channel] = evaluatePolynomial(channel.coefficients, offset) - channel.coefficients[0]!;
+    }
+
+    const band = temperatureBand(temperature);
+    return {
+        readings: readings.map(entry => entry.type !== model.sensorType ? entry : {
+            ...entry,
+            value: entry.value.map((value, channel) => value - (corrections[channel] ?? 0))
+        }),
+        compensation: {
+            factor: model.factor,
+            temperature,
+            band,
+            corrections,
+            extrapolated: temperature < min || temperature > max,
+            withinSpec: model.residualDrift.bands.find(drift => drift.band === band)?.withinSpec ?? null
+        }
+    };
+}
@@ -0,0 +1,599 @@
+/**
+ * @fileoverview Time synchronisation stage for multi-sensor streams. IMU and ToF sensors run
+ * on independent clocks, so this service estimates per-sensor clock offset and drift from
+ * sync events or cross-correlation of motion activity, corrects reading timestamps onto the
+ * session clock, and resamples streams onto a common session timeline for analyzers.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+
+import {
+    ISensorData,
+    ISensorReading,
+    ISensorClockModel,
+    ISensorSyncEvent
+} from '../../interfaces/sensor.interface';
+import { ISessionTimeAlignment } from '../../interfaces/session.interface';
+import { SENSOR_TYPES, TIME_ALIGNMENT } from '../../constants/sensor.constants';
+
+/**
+ * Processing steps recorded on packets touched by this stage
+ */
+const CLOCK_CORRECTION_STEP = 'clock_correction';
+const TIME_ALIGNMENT_STEP = 'time_alignment';
+
+/**
+ * Activity signal sampled on a shared grid; NaN where the sensor has no coverage
+ */
+interface GridSignal {
+    start: number;
+    step: number;
+    values: Float64Array;
+}
+
+/**
+ * Recent packets of a session on their sensor clocks, for cross-correlation
+ */
+interface EstimationBuffer {
+    packets: ISensorData[];
+    estimatedAt: number;
+}
+
+/**
+ * Estimates sensor clock models and aligns multi-sensor streams onto the session timeline.
+ * Clock models are per-session state, so the pipeline, analyzers and session manager share
+ * one instance.
+ */
+@injectable()
+export class SensorTimeSynchronizer {
+    private readonly _alignments: Map<string, ISessionTimeAlignment>;
+    private readonly _syncEvents: Map<string, ISensorSyncEvent[]>;
+    private readonly _buffers: Map<string, EstimationBuffer>;
+
+    constructor() {
+        this._alignments = new Map();
+        this._syncEvents = new Map();
+        this._buffers = new Map();
+    }
+
+    /**
+     * Records a sync event and refits the sensor's clock model
+     * @param sessionId - Session the sensor belongs to
+     * @param sensorId - Sensor that reported the event
+     * @param event - Sensor and session timestamps of the same instant
+     * @returns Updated clock model
+     */
+    public recordSyncEvent(sessionId: string, sensorId: string, event: ISensorSyncEvent): ISensorClockModel {
+        const key = `${sessionId}:${sensorId}`;
+        const events = [
+            ...(this._syncEvents.get(key) ?? []).filter(e => e.sensorTimestamp !== event.sensorTimestamp),
+            event
+        ]
+            .sort((a, b) => a.sensorTimestamp - b.sensorTimestamp)
+            .slice(-TIME_ALIGNMENT.maxSyncEvents);
+        this._syncEvents.set(key, events);
+
+        const points = events.map(e => ({
+            x: e.sensorTimestamp,
+            y: e.sessionTimestamp - e.sensorTimestamp
+        }));
+        const model = this.fitClockModel(sensorId, points, 'sync_events');
+        this.upsertModel(sessionId, model);
+        return model;
+    }
+
+    /**
+     * Estimates clock models from cross-correlation of motion activity against a reference
+     * sensor. Sensors that already have a sync-event model keep it.
+     * @param sessionId - Session identifier
+     * @param sensorData - Session sensor data spanning the period to align
+     * @param referenceSensorId - Optional reference sensor; defaults to the busiest IMU
+     * @returns Session time alignment
+     */
+    public estimateAlignment(
+        sessionId: string,
+        sensorData: ISensorData[],
+        referenceSensorId?: string
+    ): ISessionTimeAlignment {
+        const series = this.groupReadings(sensorData, false);
+        const referenceId = referenceSensorId ?? this.selectReferenceSensor(series);
+        const reference = series.get(referenceId);
+        if (!reference) {
+            throw new Error(`Reference sensor ${referenceId} has no readings`);
+        }
+
+        const step = 1000 / TIME_ALIGNMENT.timelineRate;
+        const start = Math.min(...Array.from(series.values()).map(s => s.readings[0]?.timestamp ?? Infinity));
+        const referenceSignal = this.toActivitySignal(reference.readings, start, step);
+        const existing = this._alignments.get(sessionId);
+
+        const models: ISensorClockModel[] = [];
+        for (const [sensorId, { readings }] of series) {
+            const syncModel = existing?.sensors.find(m => m.sensorId === sensorId && m.method === 'sync_events');
+            if (syncModel) {
+                models.push(syncModel);
+            } else if (sensorId === referenceId) {
+                models.push(this.createModel(sensorId, 0, 0, readings[0]?.timestamp ?? 0, 'reference', 0, 0));
+            } else {
+                const points = this.estimateLags(referenceSignal, this.toActivitySignal(readings, start, step));
+                models.push(this.fitClockModel(sensorId, points, 'cross_correlation'));
+            }
+        }
+
+        // Sensors without readings in this period keep their previous model
+        for (const model of existing?.sensors ?? []) {
+            if (!series.has(model.sensorId)) {
+                models.push(model);
+            }
+        }
+
+        const alignment: ISessionTimeAlignment = {
+            referenceSensorId: referenceId,
+            timelineRate: TIME_ALIGNMENT.timelineRate,
+            sensors: models,
+            updatedAt: new Date()
+        };
+        this._alignments.set(sessionId, alignment);
+        return alignment;
+    }
+
+    /**
+     * Applies the sensor's clock model to a packet, consuming any embedded sync events first.
+     * Live packets are also buffered, and the session's cross-correlation models are
+     * re-estimated from recent activity every TIME_ALIGNMENT.estimationIntervalMs.
+     * @param data - Sensor data packet on the sensor clock
+     * @returns Packet with timestamps on the session clock
+     */
+    public correctTimestamps(data: ISensorData): ISensorData {
+        for (const event of data.syncEvents ?? []) {
+            this.recordSyncEvent(data.sessionId, data.sensorId, event);
+        }
+        this.observe(data);
+
+        const model = this.getModel(data.sessionId, data.sensorId);
+        if (!model || data.metadata?.processingSteps?.includes(CLOCK_CORRECTION_STEP)) {
+            return data;
+        }
+
+        return {
+            ...data,
+            timestamp: this.toSessionTime(data.timestamp, model),
+            readings: data.readings.map(reading => ({
+                ...reading,
+                timestamp: this.toSessionTime(reading.timestamp, model)
+            })),
+            metadata: {
+                ...data.metadata,
+                processingSteps: [...(data.metadata?.processingSteps ?? []), CLOCK_CORRECTION_STEP]
+            }
+        };
+    }
+
+    /**
+     * Resamples sensor streams onto a common session timeline covering the period where
+     * every stream has data, so combined analyses compare readings taken at the same instant
+     * @param sensorData - Sensor data from one session, on sensor or session clocks
+     * @param timelineRate - Timeline rate in Hz; defaults to the session alignment rate
+     * @returns One packet per sensor and reading type with readings on the shared grid
+     */
+    public resampleToTimeline(sensorData: ISensorData[], timelineRate?: number): ISensorData[] {
+        if (sensorData.length === 0) {
+            return [];
+        }
+
+        const sessionId = sensorData[0]?.sessionId ?? '';
+        const rate = timelineRate ?? this._alignments.get(sessionId)?.timelineRate ?? TIME_ALIGNMENT.timelineRate;
+        const step = 1000 / rate;
+        const series = this.groupReadings(sensorData, true);
+
+        let start = -Infinity;
+        let end = Infinity;
+        for (const { readings } of series.values()) {
+            start = Math.max(start, readings[0]?.timestamp ?? Infinity);
+            end = Math.min(end, readings[readings.length - 1]?.timestamp ?? -Infinity);
+        }
+
+        const gridStart = Math.ceil(start / step) * step;
+        if (!Number.isFinite(gridStart) || gridStart > end) {
+            return [];
+        }
+        const grid = Array.from({ length: Math.floor((end - gridStart) / step) + 1 }, (_, i) => gridStart + i * step);
+
+        return Array.from(series.values()).map(({ template, readings }) => ({
+            ...template,
+            timestamp: gridStart,
+            readings: this.interpolateOnGrid(readings, grid),
+            metadata: {
+                ...template.metadata,
+                processingSteps: [...(template.metadata?.processingSteps ?? []), TIME_ALIGNMENT_STEP]
+            }
+        }));
+    }
+
+    /**
+     * Retrieves the current alignment for a session
+     * @param sessionId - Session identifier
+     */
+    public getAlignment(sessionId: string): ISessionTimeAlignment | undefined {
+        return this._alignments.get(sessionId);
+    }
+
+    /**
+     * Re-estimates a session's alignment from its buffered packets, so sessions shorter than
+     * the estimation interval still get cross-correlation models
+     * @param sessionId - Session identifier
+     * @returns Current alignment, or undefined when no clock model could be estimated
+     */
+    public refreshAlignment(sessionId: string): ISessionTimeAlignment | undefined {
+        const buffer = this._buffers.get(sessionId);
+        if (buffer) {
+            this.estimateBuffered(sessionId, buffer);
+        }
+        return this._alignments.get(sessionId);
+    }
+
+    /**
+     * Restores a persisted alignment, e.g. when reprocessing a stored session
+     * @param sessionId - Session identifier
+     * @param alignment - Previously estimated alignment
+     */
+    public setAlignment(sessionId: string, alignment: ISessionTimeAlignment): void {
+        this._alignments.set(sessionId, alignment);
+    }
+
+    /**
+     * Releases per-session state once a session has ended
+     * @param sessionId - Session identifier
+     */
+    public clearSession(sessionId: string): void {
+        this._alignments.delete(sessionId);
+        this._buffers.delete(sessionId);
+        for (const key of this._syncEvents.keys()) {
+            if (key.startsWith(`${sessionId}:`)) {
+                this._syncEvents.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Buffers a live packet on its sensor clock, dropping activity older than the estimation
+     * window, and re-estimates the session alignment once the interval has passed
+     */
+    private observe(data: ISensorData): void {
+        const latest = data.readings[data.readings.length - 1]?.timestamp;
+        if (latest === undefined || data.replayId || data.metadata?.processingSteps?.includes(CLOCK_CORRECTION_STEP)) {
+            return;
+        }
+
+        let buffer = this._buffers.get(data.sessionId);
+        if (!buffer) {
+            // Maps iterate in insertion order, so the first key is the least recently started session
+            if (this._buffers.size >= TIME_ALIGNMENT.maxTrackedSessions) {
+                this._buffers.delete(this._buffers.keys().next().value as string);
+            }
+            buffer = { packets: [], estimatedAt: latest };
+            this._buffers.set(data.sessionId, buffer);
+        }
+
+        buffer.packets.push(data);
+        const cutoff = latest - TIME_ALIGNMENT.estimationWindowMs;
+        while (buffer.packets.length > 0) {
+            const oldest = buffer.packets[0]!;
+            const oldestTime = oldest.readings[oldest.readings.length - 1]?.timestamp ?? -Infinity;
+            if (buffer.packets.length <= TIME_ALIGNMENT.maxBufferedPackets && oldestTime >= cutoff) {
+                break;
+            }
+            buffer.packets.shift();
+        }
+
+        if (latest - buffer.estimatedAt >= TIME_ALIGNMENT.estimationIntervalMs) {
+            buffer.estimatedAt = latest;
+            this.estimateBuffered(data.sessionId, buffer);
+        }
+    }
+
+    /**
+     * Cross-correlates the buffered packets of a session once at least two sensors report,
+     * keeping the current reference sensor while it is still reporting
+     */
+    private estimateBuffered(sessionId: string, buffer: EstimationBuffer): void {
+        const sensorIds = new Set(buffer.packets.map(packet => packet.sensorId));
+        if (sensorIds.size < 2) {
+            return;
+        }
+
+        const referenceId = this._alignments.get(sessionId)?.referenceSensorId;
+        this.estimateAlignment(
+            sessionId,
+            buffer.packets,
+            referenceId !== undefined && sensorIds.has(referenceId) ? referenceId : undefined
+        );
+    }
+
+    /**
+     * Converts a sensor timestamp to the session clock
+     */
+    private toSessionTime(timestamp: number, model: ISensorClockModel): number {
+        return timestamp + model.offsetMs + model.driftPpm * 1e-6 * (timestamp - model.referenceTimestamp);
+    }
+
+    /**
+     * Fits offset and drift to (sensor time, clock error) points by least squares, falling
+     * back to a constant offset when there are too few points or the drift is implausible
+     */
+    private fitClockModel(
+        sensorId: string,
+        points: Array<{ x: number; y: number }>,
+        method: ISensorClockModel['method']
+    ): ISensorClockModel {
+        const reference = points[0]?.x ?? 0;
+        if (points.length === 0) {
+            return this.createModel(sensorId, 0, 0, reference, method, 0, 0);
+        }
+
+        const n = points.length;
+        const meanX = points.reduce((sum, p) => sum + (p.x - reference), 0) / n;
+        const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+
+        let slope = 0;
+        if (n >= TIME_ALIGNMENT.minSyncEvents) {
+            const covariance = points.reduce((sum, p) => sum + (p.x - reference - meanX) * (p.y - meanY), 0);
+            const variance = points.reduce((sum, p) => sum + (p.x - reference - meanX) ** 2, 0);
+            slope = variance > 0 ? covariance / variance : 0;
+            if (Math.abs(slope * 1e6) > TIME_ALIGNMENT.maxDriftPpm) {
+                slope = 0;
+            }
+        }
+
+        const offset = meanY - slope * meanX;
+        const residual = Math.sqrt(
+            points.reduce((sum, p) => sum + (p.y - (offset + slope * (p.x - reference))) ** 2, 0) / n
+        );
+
+        return this.createModel(sensorId, offset, slope * 1e6, reference, method, residual, n);
+    }
+
+    /**
+     * Estimates the target's clock error in each correlation window by locating the
+     * cross-correlation peak against the reference signal
+     * @returns Points of (target sensor time, ms to add to target timestamps)
+     */
+    private estimateLags(reference: GridSignal, target: GridSignal): Array<{ x: number; y: number }> {
+        const step = reference.step;
+        const windowSamples = Math.round(TIME_ALIGNMENT.correlationWindowMs / step);
+        const maxLag = Math.round(TIME_ALIGNMENT.maxLagMs / step);
+        const points: Array<{ x: number; y: number }> = [];
+
+        for (let windowStart = 0; windowStart < reference.values.length; windowStart += windowSamples) {
+            const windowEnd = Math.min(reference.values.length, windowStart + windowSamples);
+            // A short trailing window correlates too few samples for a reliable peak
+            if (windowEnd - windowStart < windowSamples / 2) {
+                continue;
+            }
+            const scores: number[] = [];
+
+            for (let lag = -maxLag; lag <= maxLag; lag++) {
+                scores.push(this.correlate(reference.values, target.values, windowStart, windowEnd, lag));
+            }
+
+            let best = 0;
+            scores.forEach((score, i) => {
+                if (score > (scores[best] ?? -Infinity)) {
+                    best = i;
+                }
+            });
+            const peak = scores[best] ?? 0;
+            if (!(peak >= TIME_ALIGNMENT.minCorrelation)) {
+                continue;
+            }
+
+            // Parabolic refinement of the peak for sub-sample lag resolution
+            const left = scores[best - 1];
+            const right = scores[best + 1];
+            let refined = best - maxLag;
+            if (left !== undefined && right !== undefined) {
+                const curvature = left - 2 * peak + right;
+                if (curvature < 0) {
+                    refined += 0.5 * (left - right) / curvature;
+                }
+            }
+
+            // The target shows the reference's activity `lag` samples later, so its clock runs ahead
+            const lagMs = refined * step;
+            const windowCentre = reference.start + ((windowStart + windowEnd) / 2) * step;
+            points.push({ x: windowCentre + lagMs, y: -lagMs });
+        }
+
+        return points;
+    }
+
+    /**
+     * Pearson correlation between reference[i] and target[i + lag] over a window,
+     * skipping samples where either signal lacks coverage
+     */
+    private correlate(
+        reference: Float64Array,
+        target: Float64Array,
+        windowStart: number,
+        windowEnd: number,
+        lag: number
+    ): number {
+        let n = 0;
+        let sumA = 0;
+        let sumB = 0;
+        let sumAB = 0;
+        let sumAA = 0;
+        let sumBB = 0;
+
+        for (let i = windowStart; i < windowEnd; i++) {
+            const a = reference[i];
+            const b = target[i + lag];
+            if (a === undefined || b === undefined || Number.isNaN(a) || Number.isNaN(b)) {
+                continue;
+            }
+            n++;
+            sumA += a;
+            sumB += b;
+            sumAB += a * b;
+            sumAA += a * a;
+            sumBB += b * b;
+        }
+
+        if (n < 2) {
+            return 0;
+        }
+        const covariance = sumAB - (sumA * sumB) / n;
+        const denominator = Math.sqrt((sumAA - (sumA * sumA) / n) * (sumBB - (sumB * sumB) / n));
+        return denominator > 0 ? covariance / denominator : 0;
+    }
+
+    /**
+     * Builds a motion activity signal (absolute change in reading magnitude) on a shared grid.
+     * Using change rather than level lets IMU acceleration and ToF distance be compared.
+     */
+    private toActivitySignal(readings: ISensorReading[], start: number, step: number): GridSignal {
+        const last = readings[readings.length - 1]?.timestamp ?? start;
+        const length = Math.max(0, Math.floor((last - start) / step) + 1);
+        const values = new Float64Array(length).fill(NaN);
+        const magnitudes = readings.map(r => ({
+            timestamp: r.timestamp,
+            value: Math.sqrt(r.value.reduce((sum, v) => sum + v * v, 0))
+        }));
+
+        let cursor = 0;
+        let previous = NaN;
+        for (let i = 0; i < length; i++) {
+            const t = start + i * step;
+            while (cursor < magnitudes.length - 1 && (magnitudes[cursor + 1]?.timestamp ?? Infinity) < t) {
+                cursor++;
+            }
+            const a = magnitudes[cursor];
+            const b = magnitudes[cursor + 1];
+            if (!a || !b || t < a.timestamp || t > b.timestamp) {
+                previous = NaN;
+                continue;
+            }
+            const span = b.timestamp - a.timestamp;
+            const level = span > 0 ? a.value + (b.value - a.value) * (t - a.timestamp) / span : a.value;
+            values[i] = Number.isNaN(previous) ? NaN : Math.abs(level - previous);
+            previous = level;
+        }
+
+        return { start, step, values };
+    }
+
+    /**
+     * Linearly interpolates readings at each grid timestamp
+     */
+    private interpolateOnGrid(readings: ISensorReading[], grid: number[]): ISensorReading[] {
+        let cursor = 0;
+        return grid.map(t => {
+            while (cursor < readings.length - 2 && (readings[cursor + 1]?.timestamp ?? Infinity) < t) {
+                cursor++;
+            }
+            const a = readings[cursor] as ISensorReading;
+            const b = readings[cursor + 1] ?? a;
+            const span = b.timestamp - a.timestamp;
+            const weight = span > 0 ? Math.min(1, Math.max(0, (t - a.timestamp) / span)) : 0;
+
+            return {
+                type: a.type,
+                value: a.value.map((v, channel) => v + ((b.value[channel] ?? v) - v) * weight),
+                timestamp: t,
+                confidence: Math.min(a.confidence, b.confidence),
+                rawData: Buffer.alloc(0)
+            };
+        });
+    }
+
+    /**
+     * Groups readings per sensor and reading type in timestamp order, optionally moving
+     * them onto the session clock
+     */
+    private groupReadings(
+        sensorData: ISensorData[],
+        applyClockModels: boolean
+    ): Map<string, { template: ISensorData; readings: ISensorReading[] }> {
+        const series = new Map<string, { template: ISensorData; readings: ISensorReading[] }>();
+
+        for (const packet of sensorData) {
+            const corrected = applyClockModels ? this.correctTimestamps(packet) : packet;
+            for (const reading of corrected.readings) {
+                const key = applyClockModels ? `${packet.sensorId}:${reading.type}` : packet.sensorId;
+                const entry = series.get(key) ?? { template: corrected, readings: [] };
+                entry.readings.push(reading);
+                series.set(key, entry);
+            }
+        }
+
+        for (const entry of series.values()) {
+            entry.readings.sort((a, b) => a.timestamp - b.timestamp);
+        }
+        return series;
+    }
+
+    /**
+     * Picks the IMU with the most readings as the timing reference, falling back to any sensor
+     */
+    private selectReferenceSensor(series: Map<string, { readings: ISensorReading[] }>): string {
+        let referenceId = '';
+        let bestScore = -1;
+        for (const [sensorId, { readings }] of series) {
+            const score = readings.length + (readings[0]?.type === SENSOR_TYPES.IMU ? Number.MAX_SAFE_INTEGER / 2 : 0);
+            if (score > bestScore) {
+                bestScore = score;
+                referenceId = sensorId;
+            }
+        }
+        return referenceId;
+    }
+
+    /**
+     * Looks up the clock model for a sensor in a session
+     */
+    private getModel(sessionId: string, sensorId: string): ISensorClockModel | undefined {
+        return this._alignments.get(sessionId)?.sensors.find(model => model.sensorId === sensorId);
+    }
+
+    /**
+     * Inserts or replaces a sensor's clock model in the session alignment
+     */
+    private upsertModel(sessionId: string, model: ISensorClockModel): void {
+        const alignment = this._alignments.get(sessionId) ?? {
+            referenceSensorId: model.sensorId,
+            timelineRate: TIME_ALIGNMENT.timelineRate,
+            sensors: [],
+            updatedAt: new Date()
+        };
+
+        alignment.sensors = [...alignment.sensors.filter(m => m.sensorId !== model.sensorId), model];
+        alignment.updatedAt = new Date();
+        this._alignments.set(sessionId, alignment);
+    }
+
+    /**
+     * Creates a clock model record
+     */
+    private createModel(
+        sensorId: string,
+        offsetMs: number,
+        driftPpm: number,
+        referenceTimestamp: number,
+        method: ISensorClockModel['method'],
+        residualMs: number,
+        sampleCount: number
+    ): ISensorClockModel {
+        return {
+            sensorId,
+            offsetMs,
+            driftPpm,
+            referenceTimestamp,
+            method,
+            residualMs,
+            sampleCount,
+            estimatedAt: new Date()
+        };
+    }
+}
@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Baseline service. Records the features of each qualifying session, learns an
+ * athlete's first baseline from their first qualifying sessions and refreshes it from their
+ * recent sessions, keeping every version with its provenance. Coaches can pin a version, freeze
+ * automatic learning, or revert to an earlier version.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { ISession } from '../../interfaces/session.interface';
+import { IBaselineData } from '../../interfaces/athlete.interface';
+import {
+    BaselineSource,
+    IAthleteBaselines,
+    IBaselineProfile,
+    IBaselineSample,
+    IBaselineState,
+    IBaselineVersion,
+    IInjuryPeriod
+} from '../../interfaces/baseline.interface';
+import { BaselineRepository } from '../../db/repositories/baseline.repository';
+import { AthleteRepository } from '../../db/repositories/athlete.repository';
+import { extractBaselineFeatures, isInjured, learnBaseline } from '../analytics/baseline.learning';
+import { BASELINE_LEARNING } from '../../constants/sensor.constants';
+
+const DAY_MS = 86400000;
+const AUTOMATIC_SOURCES: readonly BaselineSource[] = ['learned', 'refreshed'];
+
+/**
+ * Error raised when a baseline or injury request is invalid
+ */
+export class BaselineValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BaselineValidationError';
+    }
+}
+
+/**
+ * Error raised when an athlete has no such baseline version or injury
+ */
+export class BaselineNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BaselineNotFoundError';
+    }
+}
+
+/**
+ * Learns, versions and applies athlete baselines
+ */
+@injectable()
+export class BaselineService {
+    constructor(
+        private readonly _repository: BaselineRepository,
+        private readonly _athleteRepository: AthleteRepository,
+        private readonly _logger: Logger
+    ) {}
+
+    /**
+     * Records an ended session's features and learns a new baseline version when due. Sessions
+     * shorter than BASELINE_LEARNING.minSessionMinutes or without metrics are skipped. The first
+     * version is learned once the athlete has BASELINE_LEARNING.learningSessions qualifying
+     * sessions outside injury periods; later versions every BASELINE_LEARNING.refreshEverySessions
+     * sessions, from the latest sessions in the window. New versions are applied to the athlete
+     * unless the baseline is pinned, and none are learned while it is frozen.
+     * @param session - Ended session
+     * @returns Version learned, or null
+     */
+    public async recordSession(session: ISession): Promise<IBaselineVersion | null> {
+        const startTime = new Date(session.startTime);
+        const endTime = new Date(session.endTime ?? session.startTime);
+        if (endTime.getTime() - startTime.getTime() < BASELINE_LEARNING.minSessionMinutes * 60000) {
+            return null;
+        }
+
+        const features = extractBaselineFeatures(session.metrics ?? {});
+        if (Object.keys(features).length === 0) {
+            return null;
+        }
+
+        const athleteId = session.athleteId;
+        await this._repository.recordSample({ sessionId: session.id, athleteId, startTime, features });
+
+        const state = await this.getState(athleteId);
+        if (state.frozen) {
+            return null;
+        }
+
+        const injuries = await this._repository.listInjuries(athleteId);
+        const lastAutomatic = (await this._repository.listVersions(athleteId, BASELINE_LEARNING.maxListedVersions))
+            .find(version => AUTOMATIC_SOURCES.includes(version.provenance.source));
+
+        let source: BaselineSource;
+        let window: IBaselineSample[];
+        if (!lastAutomatic) {
+            source = 'learned';
+            const learningWindow = await this.readLearningWindow(athleteId, injuries);
+            if (!learningWindow) {
+                return null;
+            }
+            window = learningWindow;
+        } else {
+            source = 'refreshed';
+            const since = new Date(endTime.getTime() - BASELINE_LEARNING.windowDays * DAY_MS);
+            window = await this._repository.listSamples(athleteId, since, BASELINE_LEARNING.windowSessions);
+            const learnedUntil = new Date(lastAutomatic.provenance.windowEnd ?? 0).getTime();
+            const fresh = window.filter(sample => sample.startTime.getTime() > learnedUntil
+                && !isInjured(sample.startTime, injuries));
+            if (fresh.length < BASELINE_LEARNING.refreshEverySessions) {
+                return null;
+            }
+        }
+
+        const usable = window.filter(sample => !isInjured(sample.startTime, injuries));
+        const excluded = window.filter(sample => !usable.includes(sample));
+        const starts = usable.map(sample => sample.startTime.getTime());
+        const { baseline, statistics } = learnBaseline(usable, endTime);
+
+        const version = await this._repository.createVersion({
+            athleteId,
+            baseline,
+            statistics,
+            provenance: {
+                source,
+                sessionIds: usable.map(sample => sample.sessionId),
+                excludedSessionIds: excluded.map(sample => sample.sessionId),
+                windowStart: new Date(Math.min(...starts)),
+                windowEnd: new Date(Math.max(...starts)),
+                revertedFrom: null,
+                createdBy: null
+            }
+        });
+
+        if (!state.pinned) {
+            await this.activate(state, version, state.updatedBy);
+        }
+
+        this._logger.info('Baseline learned', {
+            athleteId,
+            version: version.version,
+            source,
+            sessions: usable.length,
+            excluded: excluded.length,
+            applied: !state.pinned
+        });
+        return version;
+    }
+
+    /**
+     * Records a manually pushed baseline as the athlete's active version and pins it, so learned
+     * versions do not replace it until the baseline is unpinned. The caller applies the baseline
+     * to the athlete.
+     * @param athleteId - Athlete ID
+     * @param baseline - Pushed baseline
+     * @param userId - User who pushed it
+     * @returns Stored version
+     */
+    public async recordManualBaseline(
+        athleteId: string,
+        baseline: IBaselineData,
+        userId: string
+    ): Promise<IBaselineVersion> {
+        const version = await this._repository.createVersion({
+            athleteId,
+            baseline: {
+                muscleProfiles: baseline.muscleProfiles ?? {},
+                rangeOfMotion: baseline.rangeOfMotion ?? {},
+                forceDistribution: baseline.forceDistribution ?? {},
+                lastUpdated: baseline.lastUpdated ?? new Date()
+            },
+            statistics: {},
+            provenance: {
+                source: 'manual',
+                sessionIds: [],
+                excludedSessionIds: [],
+                windowStart: null,
+                windowEnd: null,
+                revertedFrom: null,
+                createdBy: userId
+            }
+        });
+
+        const state = await this.getState(athleteId);
+        await this._repository.saveState({
+            ...state,
+            activeVersion: version.version,
+            pinned: true,
+            updatedBy: userId
+        });
+
+        this._logger.info('Manual baseline recorded', { athleteId, version: version.version, userId });
+        return version;
+    }
+
+    /**
+     * Retrieves an athlete's baseline state and versions
+     * @param athleteId - Athlete ID
+     * @returns State with up to BASELINE_LEARNING.maxListedVersions versions, newest first
+     */
+    public async getBaselines(athleteId: string): Promise<IAthleteBaselines> {
+        const [state, versions] = await Promise.all([
+            this.getState(athleteId),
+            this._repository.listVersions(athleteId, BASELINE_LEARNING.maxListedVersions)
+        ]);
+        return { state, versions };
+    }
+
+    /**
+     * Retrieves one baseline version of an athlete
+     * @param athleteId - Athlete ID
+     * @param version - Version number
+     * @throws Error if the athlete has no such version
+     */
+    public async getVersion(athleteId: string, version: number): Promise<IBaselineVersion> {
+        if (!Number.isInteger(version) || version < 1) {
+            throw new BaselineValidationError('Baseline version must be a positive integer');
+        }
+        const stored = await this._repository.getVersion(athleteId, version);
+        if (!stored) {
+            throw new BaselineNotFoundError(`Baseline version ${version} not found for athlete ${athleteId}`);
+        }
+        return stored;
+    }
+
+    /**
+     * Applies a version and pins it, so learned versions are stored but not applied
+     * @param athleteId - Athlete ID
+     * @param version - Version to pin
+     * @param userId - User pinning the version
+     * @throws Error if the athlete has no such version
+     */
+    public async pin(athleteId: string, version: number, userId: string): Promise<IBaselineState> {
+        const pinned = await this.getVersion(athleteId, version);
+        const state = await this.getState(athleteId);
+        const updated = await this.activate({ ...state, pinned: true }, pinned, userId);
+
+        this._logger.info('Baseline pinned', { athleteId, version, userId });
+        return updated;
+    }
+
+    /**
+     * Unpins the baseline and applies the athlete's latest version
+     * @param athleteId - Athlete ID
+     * @param userId - User unpinning the baseline
+     */
+    public async unpin(athleteId: string, userId: string): Promise<IBaselineState> {
+        const state = { ...await this.getState(athleteId), pinned: false };
+        const [latest] = await this._repository.listVersions(athleteId, 1);
+        const updated = latest
+            ? await this.activate(state, latest, userId)
+            : await this._repository.saveState({ ...state, updatedBy: userId });
+
+        this._logger.info('Baseline unpinned', { athleteId, version: updated.activeVersion, userId });
+        return updated;
+    }
+
+    /**
+     * Freezes or resumes automatic baseline learning
+     * @param athleteId - Athlete ID
+     * @param frozen - Whether learning is frozen
+     * @param userId - User changing the setting
+     */
+    public async setFrozen(athleteId: string, frozen: boolean, userId: string): Promise<IBaselineState> {
+        const state = await this.getState(athleteId);
+        const updated = await this._repository.saveState({ ...state, frozen, updatedBy: userId });
+
+        this._logger.info(frozen ? 'Baseline frozen' : 'Baseline unfrozen', { athleteId, userId });
+        return updated;
+    }
+
+    /**
+     * Reverts to an earlier version by storing a copy of it as a new version and applying it
+     * @param athleteId - Athlete ID
+     * @param version - Version reverted to
+     * @param userId - User reverting the baseline
+     * @returns New version
+     * @throws Error if the athlete has no such version
+     */
+    public async revert(athleteId: string, version: number, userId: string): Promise<IBaselineVersion> {
+        const target = await this.getVersion(athleteId, version);
+        const reverted = await this._repository.createVersion({
+            athleteId,
+            baseline: target.baseline,
+            statistics: target.statistics,
+            provenance: {
+                ...target.provenance,
+                source: 'reverted',
+                revertedFrom: version,
+                createdBy: userId
+            }
+        });
+        await this.activate(await this.getState(athleteId), reverted, userId);
+
+        this._logger.info('Baseline reverted', { athleteId, version: reverted.version, revertedFrom: version, userId });
+        return reverted;
+    }
+
+    /**
+     * Records an injury period; sessions in it and its return-to-play period are not learned from
+     * @param athleteId - Athlete ID
+     * @param injury - Injury dates and description
+     * @param userId - User recording the injury
+     * @throws Error if a date is invalid or the injury ends before it starts
+     */
+    public async recordInjury(
+        athleteId: string,
+        injury: { startDate: string | Date; endDate?: string | Date | null; description: string },
+        userId: string
+    ): Promise<IInjuryPeriod> {
+        const startDate = this.parseDate(injury.startDate, 'Injury start date');
+        const endDate = injury.endDate ? this.parseDate(injury.endDate, 'Injury end date') : null;
+        if (endDate && endDate < startDate) {
+            throw new BaselineValidationError('Injury end date must not be before its start date');
+        }
+        if (typeof injury.description !== 'string' || injury.description.trim() === '') {
+            throw new BaselineValidationError('Injury description is required');
+        }
+
+        return this._repository.recordInjury({
+            athleteId,
+            startDate,
+            endDate,
+            description: injury.description.trim(),
+            recordedBy: userId
+        });
+    }
+
+    /**
+     * Ends an open injury period
+     * @param athleteId - Athlete ID
+     * @param injuryId - Injury ID
+     * @param endDate - Date the athlete recovered
+     * @throws Error if the date is invalid or the athlete has no such injury
+     */
+    public async endInjury(athleteId: string, injuryId: string, endDate: string | Date): Promise<IInjuryPeriod> {
+        const injury = (await this._repository.listInjuries(athleteId)).find(candidate => candidate.id === injuryId);
+        if (!injury) {
+            throw new BaselineNotFoundError(`Injury ${injuryId} not found for athlete ${athleteId}`);
+        }
+        const end = this.parseDate(endDate, 'Injury end date');
+        if (end < injury.startDate) {
+            throw new BaselineValidationError('Injury end date must not be before its start date');
+        }
+
+        return (await this._repository.endInjury(athleteId, injuryId, end))!;
+    }
+
+    /**
+     * Lists an athlete's injury periods
+     * @param athleteId - Athlete ID
+     */
+    public async listInjuries(athleteId: string): Promise<IInjuryPeriod[]> {
+        return this._repository.listInjuries(athleteId);
+    }
+
+    /**
+     * Applies a version to the athlete and stores it as the active version
+     */
+    private async activate(
+        state: IBaselineState,
+        version: IBaselineVersion,
+        userId: string | null
+    ): Promise<IBaselineState> {
+        await this._athleteRepository.applyBaseline(version.athleteId, this.toProfile(version.baseline));
+        return this._repository.saveState({ ...state, activeVersion: version.version, updatedBy: userId });
+    }
+
+    /**
+     * Reads an athlete's earliest samples, page by page, until BASELINE_LEARNING.learningSessions
+     * of them are outside injury periods. The window ends at the last of those sessions and keeps
+     * the injured sessions before it, so they are recorded as excluded.
+     * @returns Samples the first baseline is learned from, or null while there are too few
+     */
+    private async readLearningWindow(athleteId: string, injuries: IInjuryPeriod[]): Promise<IBaselineSample[] | null> {
+        const window: IBaselineSample[] = [];
+        const seen = new Set<string>();
+        let usable = 0;
+        let since = new Date(0);
+        let page: IBaselineSample[];
+        let added: number;
+
+        do {
+            page = await this._repository.listSamples(athleteId, since, BASELINE_LEARNING.windowSessions, true);
+            added = 0;
+            for (const sample of page) {
+                // Pages start at the previous page's last start time, which they may share
+                if (seen.has(sample.sessionId)) {
+                    continue;
+                }
+                seen.add(sample.sessionId);
+                window.push(sample);
+                added++;
+
+                if (!isInjured(sample.startTime, injuries) && ++usable === BASELINE_LEARNING.learningSessions) {
+                    return window;
+                }
+            }
+            since = page[page.length - 1]?.startTime ?? since;
+        } while (page.length === BASELINE_LEARNING.windowSessions && added > 0);
+
+        return null;
+    }
+
+    /**
+     * Retrieves an athlete's baseline state, defaulting to unpinned and unfrozen without versions
+     */
+    private async getState(athleteId: string): Promise<IBaselineState> {
+        return await this._repository.getState(athleteId) ?? {
+            athleteId,
+            activeVersion: null,
+            pinned: false,
+            frozen: false,
+            updatedBy: null,
+            updatedAt: new Date()
+        };
+    }
+
+    /**
+     * Restores the dates of a baseline read back from storage
+     */
+    private toProfile(baseline: IBaselineProfile): IBaselineProfile {
+        return { ...baseline, lastUpdated: new Date(baseline.lastUpdated) };
+    }
+
+    /**
+     * Parses a date, throwing when it is invalid
+     */
+    private parseDate(value: string | Date, label: string): Date {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+            throw new BaselineValidationError(`${label} must be a valid date`);
+        }
+        return date;
+    }
+}
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Custom metric service. Evaluates the custom metrics an athlete's teams define
+ * against each processed packet's session metrics, keeping each session's window state.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { ISessionMetrics } from '../../interfaces/session.interface';
+import { ICustomMetricValue, ITeamCustomMetrics } from '../../interfaces/metric.interface';
+import { CustomMetricRepository, TeamCustomMetricsRecord } from '../../db/repositories/custom-metric.repository';
+import { CustomMetricFormula, CustomMetricTracker } from '../analytics/custom.metric';
+import { CUSTOM_METRICS } from '../../constants/sensor.constants';
+
+/**
+ * Team definitions of an athlete and when they were read
+ */
+interface CachedDefinitions {
+    teams: TeamCustomMetricsRecord[];
+    readAt: number;
+}
+
+/**
+ * Computes team-defined custom metrics during sessions
+ */
+@injectable()
+export class CustomMetricService {
+    private readonly _sessions: Map<string, CustomMetricTracker>;
+    private readonly _definitions: Map<string, CachedDefinitions>;
+    private readonly _formulas: Map<string, CustomMetricFormula | null>;
+
+    constructor(
+        private readonly _repository: CustomMetricRepository,
+        private readonly _logger: Logger
+    ) {
+        this._sessions = new Map();
+        this._definitions = new Map();
+        this._formulas = new Map();
+    }
+
+    /**
+     * Evaluates the enabled custom metrics of the packet athlete's teams. Team definitions are
+     * re-read every CUSTOM_METRICS.settingsRefreshMs, so changed settings apply to live sessions.
+     * Packets not attributed to an athlete are skipped.
+     * @param data - Processed sensor data
+     * @param metrics - Session metrics computed from the packet
+     * @returns Custom metric values per team with at least one value
+     */
+    public async evaluate(data: ISensorData, metrics: ISessionMetrics): Promise<ITeamCustomMetrics[]> {
+        const athleteId = data.metadata?.athleteId;
+        if (!athleteId) {
+            return [];
+        }
+
+        const teams = (await this.getDefinitions(athleteId))
+            .filter(team => Object.values(team.customMetrics).some(definition => definition.enabled));
+        if (teams.length === 0) {
+            return [];
+        }
+
+        // Replay runs keep window state apart from the live session they re-drive
+        const tracker = this.getSession(data.replayId ?? data.sessionId);
+        const time = data.readings[data.readings.length - 1]?.timestamp ?? data.timestamp;
+        const results: ITeamCustomMetrics[] = [];
+
+        for (const team of teams) {
+            const values: Record<string, ICustomMetricValue> = {};
+            for (const [name, definition] of Object.entries(team.customMetrics)) {
+                const formula = definition.enabled ? this.getFormula(team.teamId, name, definition.formula) : null;
+                if (!formula) {
+                    continue;
+                }
+                const result = tracker.evaluate(`${team.teamId}:${name}`, formula, metrics, time);
+                if (result) {
+                    values[name] = {
+                        ...result,
+                        threshold: definition.threshold,
+                        direction: definition.direction ?? 'above'
+                    };
+                }
+            }
+            if (Object.keys(values).length > 0) {
+                results.push({ teamId: team.teamId, athleteId, metrics: values });
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Reads an athlete's team definitions, reusing them until the refresh interval passes
+     */
+    private async getDefinitions(athleteId: string): Promise<TeamCustomMetricsRecord[]> {
+        const cached = this._definitions.get(athleteId);
+        if (cached && Date.now() - cached.readAt < CUSTOM_METRICS.settingsRefreshMs) {
+            return cached.teams;
+        }
+
+        const teams = await this._repository.getTeamCustomMetrics(athleteId);
+        this._definitions.delete(athleteId);
+        if (this._definitions.size >= CUSTOM_METRICS.maxCachedAthletes) {
+            this._definitions.delete(this._definitions.keys().next().value as string);
+        }
+        this._definitions.set(athleteId, { teams, readAt: Date.now() });
+        return teams;
+    }
+
+    /**
+     * Returns a parsed formula, or null for a stored formula that does not parse. Settings are
+     * validated when saved, so this only happens for settings saved before validation.
+     */
+    private getFormula(teamId: string, name: string, source: string): CustomMetricFormula | null {
+        if (this._formulas.has(source)) {
+            return this._formulas.get(source)!;
+        }
+
+        let formula: CustomMetricFormula | null = null;
+        try {
+            formula = CustomMetricFormula.parse(source);
+        } catch (error) {
+            this._logger.warn('Custom metric formula skipped', {
+                teamId,
+                metric: name,
+                error: (error as Error).message
+            });
+        }
+
+        if (this._formulas.size >= CUSTOM_METRICS.maxCompiledFormulas) {
+            this._formulas.delete(this._formulas.keys().next().value as string);
+        }
+        this._formulas.set(source, formula);
+        return formula;
+    }
+
+    /**
+     * Returns the session's tracker, evicting the least recently started session when full
+     */
+    private getSession(sessionId: string): CustomMetricTracker {
+        let tracker = this._sessions.get(sessionId);
+        if (!tracker) {
+            if (this._sessions.size >= CUSTOM_METRICS.maxTrackedSessions) {
+                this._sessions.delete(this._sessions.keys().next().value as string);
+            }
+            tracker = new CustomMetricTracker();
+            this._sessions.set(sessionId, tracker);
+        }
+        return tracker;
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Movement event service. Feeds processed sensor data through a per-session
+ * movement event detector, persists the strides, repetitions and jumps it completes, and lists
+ * a session's stored events.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { IMovementEvent, IMovementEventQuery, MovementEventType } from '../../interfaces/movement.interface';
+import { MovementEventRepository } from '../../db/repositories/movement-event.repository';
+import { MovementEventDetector } from '../analytics/movement.events';
+import { MOVEMENT_EVENTS } from '../../constants/sensor.constants';
+
+const EVENT_TYPES: readonly MovementEventType[] = ['stride', 'rep', 'jump'];
+
+/**
+ * Segments sessions into movement events and stores them
+ */
+@injectable()
+export class MovementEventService {
+    private readonly _detectors: Map<string, MovementEventDetector>;
+
+    constructor(
+        private readonly _repository: MovementEventRepository,
+        private readonly _logger: Logger
+    ) {
+        this._detectors = new Map();
+    }
+
+    /**
+     * Adds a processed packet to its session's detector and persists the events it completes.
+     * Replayed packets run through a detector of their own and are not stored, since the
+     * session's events were stored when it was live.
+     * @param data - Processed sensor data
+     * @returns Events completed by the packet, stored unless the packet was replayed
+     */
+    public async ingest(data: ISensorData): Promise<IMovementEvent[]> {
+        const detected = this.getDetector(data.replayId ?? data.sessionId, data.sessionId).add(data);
+        if (detected.length === 0) {
+            return [];
+        }
+
+        if (data.replayId) {
+            return detected.map(event => ({
+                ...event,
+                id: `replay:${data.replayId}:${event.source}:${event.type}:${event.startTime}`
+            }));
+        }
+
+        const events = await this._repository.recordEvents(detected);
+        this._logger.info('Movement events recorded', {
+            sessionId: data.sessionId,
+            sensorId: data.sensorId,
+            types: events.map(event => event.type)
+        });
+        return events;
+    }
+
+    /**
+     * Lists a session's movement events
+     * @param sessionId - Session ID
+     * @param query - Optional event type and start time range
+     * @returns Events in start time order
+     * @throws Error if the event type or time range is invalid
+     */
+    public async getSessionEvents(sessionId: string, query: IMovementEventQuery = {}): Promise<IMovementEvent[]> {
+        if (query.type && !EVENT_TYPES.includes(query.type)) {
+            throw new Error(`Movement event type must be one of ${EVENT_TYPES.join(', ')}`);
+        }
+        for (const bound of [query.from, query.to]) {
+            if (bound !== undefined && !Number.isFinite(bound)) {
+                throw new Error('Movement event time range must be epoch milliseconds');
+            }
+        }
+        if (query.from !== undefined && query.to !== undefined && query.from > query.to) {
+            throw new Error('Movement event time range must start before it ends');
+        }
+
+        return this._repository.getSessionEvents(sessionId, query, MOVEMENT_EVENTS.maxQueryEvents);
+    }
+
+    /**
+     * Returns the detector of a session or replay run, evicting the least recently started when full
+     */
+    private getDetector(key: string, sessionId: string): MovementEventDetector {
+        let detector = this._detectors.get(key);
+        if (!detector) {
+            if (this._detectors.size >= MOVEMENT_EVENTS.maxTrackedSessions) {
+                this._detectors.delete(this._detectors.keys().next().value as string);
+            }
+            detector = new MovementEventDetector(sessionId);
+            this._detectors.set(key, detector);
+        }
+        return detector;
+    }
+}
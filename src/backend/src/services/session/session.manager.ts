@@ -15,6 +15,11 @@ import { v4 as uuidv4 } from 'uuid'; // v9.0.0
 import { ISession, ISessionConfig, ISessionMetrics } from '../../interfaces/session.interface';
 import { SessionProcessor } from './session.processor';
 import { SessionRepository } from '../../db/repositories/session.repository';
+import { SensorTimeSynchronizer } from '../sensor/time.synchronizer';
+import { FilterProfileService } from '../sensor/filter.profile.service';
+import { SensorGapDetector } from '../sensor/gap.detector';
+import { BaselineService } from './baseline.service';
+import { TrainingLoadService } from './training.load.service';
 import { PERFORMANCE_THRESHOLDS, SYSTEM_TIMEOUTS } from '../../constants/system.constants';
 
 /**
@@ -39,6 +44,11 @@ export class SessionManager {
         private readonly _sessionRepository: SessionRepository,
         private readonly _logger: Logger,
         private readonly _cache: any,
+        private readonly _timeSynchronizer: SensorTimeSynchronizer,
+        private readonly _filterProfileService: FilterProfileService,
+        private readonly _baselineService: BaselineService,
+        private readonly _gapDetector: SensorGapDetector,
+        private readonly _trainingLoadService: TrainingLoadService,
         circuitBreakerOptions?: any
     ) {
         this._sessionStateSubject = new BehaviorSubject<ISession>(null);
@@ -69,12 +79,18 @@ export class SessionManager {
             // Validate session configuration
             this.validateSessionConfig(config);
 
+            // Snapshot the selected filter profiles so the session is processed reproducibly
+            const sessionConfig: ISessionConfig = {
+                ...config,
+                filtering: await this._filterProfileService.resolveSessionFilters(config.filtering)
+            };
+
             // Generate session ID
             const sessionId = uuidv4();
 
             // Create session through circuit breaker
             const session = await this._circuitBreaker.fire(async () => {
-                const newSession = await this._sessionProcessor.startSession(sessionId, config);
+                const newSession = await this._sessionProcessor.startSession(sessionId, sessionConfig);
                 await this._sessionRepository.createSession(newSession);
                 return newSession;
             });
@@ -158,12 +174,42 @@ export class SessionManager {
             }
 
             // End session through circuit breaker
-            await this._circuitBreaker.fire(async () => {
+            const endedSession = await this._circuitBreaker.fire(async () => {
                 await this._sessionProcessor.endSession(sessionId);
-                await this._sessionRepository.endSession(sessionId);
-            });
+
+                // Persist clock offsets so exports and reprocessing consume aligned data
+                const alignment = this._timeSynchronizer.refreshAlignment(sessionId);
+                if (alignment) {
+                    await this._sessionRepository.updateTimeAlignment(sessionId, alignment);
+                }
+
+                return this._sessionRepository.endSession(sessionId);
+            }) as ISession;
+
+            // Baseline learning must not keep the session from ending
+            try {
+                await this._baselineService.recordSession(endedSession);
+            } catch (error) {
+                this._logger.error('Failed to record session baseline sample', {
+                    sessionId,
+                    error
+                });
+            }
+
+            // Store the load accumulated since the last periodic store
+            try {
+                await this._trainingLoadService.flushSession(sessionId);
+            } catch (error) {
+                this._logger.error('Failed to store session training load', {
+                    sessionId,
+                    error
+                });
+            }
 
             // Cleanup
+            this._timeSynchronizer.clearSession(sessionId);
+            this._filterProfileService.clearSession(sessionId);
+            this._gapDetector.clearSession(sessionId);
             this._activeSessions.delete(sessionId);
             this._performanceMetrics.delete(sessionId);
 
@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Replay service that re-drives a stored session's sensor data through the live
+ * stream processing pipeline. Packets are read from the sensor_data hypertable in timestamp
+ * order and fed to the stream processor at recorded speed, a multiple of it, or unpaced.
+ * Every replayed packet carries its replay ID so downstream alerts and metrics stay separate
+ * from live data. Archived sessions are restored from the archive store before replaying.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+import { UUID } from 'crypto';
+import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+
+import { ISessionReplay } from '../../interfaces/session.interface';
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { SensorRepository } from '../../db/repositories/sensor.repository';
+import { SensorStreamProcessor } from '../sensor/stream.processor';
+import { RetentionService } from '../retention/retention.service';
+
+/**
+ * Replay limits and pacing configuration
+ */
+const REPLAY_CONFIG = {
+    MIN_SPEED: 0.1,
+    MAX_SPEED: 100,
+    MAX_CONCURRENT_REPLAYS: 3,
+    // Recorded gaps longer than this are collapsed so idle periods don't stall a replay
+    MAX_IDLE_GAP_MS: 5000,
+    // Finished replays are kept for status queries for one hour
+    RETENTION_MS: 3600000,
+    PROCESSING_STEP: 'replay'
+} as const;
+
+/**
+ * Internal bookkeeping for an in-flight replay
+ */
+interface ReplayRun {
+    status: ISessionReplay;
+    // Recorded timestamp and wall clock time that pacing is measured from
+    anchor: { recorded: number; wall: number } | null;
+    // Pending resolver for a paused replay or an in-progress pacing delay
+    wake: (() => void) | null;
+    timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Re-drives stored sessions through the live pipeline with pause, resume and stop control
+ */
+@injectable()
+export class SessionReplayService {
+    private readonly _replays: Map<string, ReplayRun>;
+
+    /**
+     * Initializes the replay service with its data source and pipeline entry point
+     */
+    constructor(
+        private readonly _sensorRepository: SensorRepository,
+        private readonly _streamProcessor: SensorStreamProcessor,
+        private readonly _retentionService: RetentionService,
+        private readonly _logger: Logger
+    ) {
+        this._replays = new Map();
+    }
+
+    /**
+     * Starts replaying a stored session through the stream processor
+     * @param sessionId - Session whose stored sensor data should be replayed
+     * @param options - Playback speed multiplier or 'max' for unpaced replay, and the requesting user
+     * @returns Initial replay status
+     */
+    public async startReplay(
+        sessionId: string,
+        options: { speed?: number | 'max'; requestedBy: string }
+    ): Promise<ISessionReplay> {
+        const speed = this.resolveSpeed(options.speed);
+
+        this.pruneFinishedReplays();
+        const activeCount = Array.from(this._replays.values())
+            .filter(run => this.isActive(run.status)).length;
+        if (activeCount >= REPLAY_CONFIG.MAX_CONCURRENT_REPLAYS) {
+            throw new Error(`Maximum of ${REPLAY_CONFIG.MAX_CONCURRENT_REPLAYS} concurrent replays reached`);
+        }
+
+        await this._retentionService.ensureSessionAvailable(sessionId, options.requestedBy);
+
+        const totalPackets = await this._sensorRepository.countSessionSensorData(sessionId);
+        if (totalPackets === 0) {
+            throw new Error(`No stored sensor data found for session ${sessionId}`);
+        }
+
+        const run: ReplayRun = {
+            status: {
+                id: uuidv4() as UUID,
+                sessionId: sessionId as UUID,
+                speed,
+                state: 'running',
+                requestedBy: options.requestedBy,
+                totalPackets,
+                packetsReplayed: 0,
+                lastPacketTimestamp: null,
+                startedAt: new Date(),
+                endedAt: null,
+                error: null
+            },
+            anchor: null,
+            wake: null,
+            timer: null
+        };
+        this._replays.set(run.status.id, run);
+
+        this._logger.info('Session replay started', {
+            replayId: run.status.id,
+            sessionId,
+            speed,
+            totalPackets,
+            requestedBy: options.requestedBy
+        });
+
+        // Drive the replay in the background; failures are captured on the replay status
+        this.runReplay(run).catch(error => this.failReplay(run, error as Error));
+
+        return { ...run.status };
+    }
+
+    /**
+     * Pauses a running replay before its next packet
+     * @param replayId - Replay identifier
+     * @returns Updated replay status
+     */
+    public pauseReplay(replayId: string): ISessionReplay {
+        const run = this.getRun(replayId);
+        if (run.status.state !== 'running') {
+            throw new Error(`Cannot pause replay in state ${run.status.state}`);
+        }
+
+        run.status.state = 'paused';
+        this._logger.info('Session replay paused', { replayId });
+        return { ...run.status };
+    }
+
+    /**
+     * Resumes a paused replay
+     * @param replayId - Replay identifier
+     * @returns Updated replay status
+     */
+    public resumeReplay(replayId: string): ISessionReplay {
+        const run = this.getRun(replayId);
+        if (run.status.state !== 'paused') {
+            throw new Error(`Cannot resume replay in state ${run.status.state}`);
+        }
+
+        run.status.state = 'running';
+        this.wakeRun(run);
+        this._logger.info('Session replay resumed', { replayId });
+        return { ...run.status };
+    }
+
+    /**
+     * Stops a running or paused replay
+     * @param replayId - Replay identifier
+     * @returns Final replay status
+     */
+    public stopReplay(replayId: string): ISessionReplay {
+        const run = this.getRun(replayId);
+        if (!this.isActive(run.status)) {
+            throw new Error(`Cannot stop replay in state ${run.status.state}`);
+        }
+
+        run.status.state = 'stopped';
+        run.status.endedAt = new Date();
+        this.wakeRun(run);
+        this._logger.info('Session replay stopped', {
+            replayId,
+            packetsReplayed: run.status.packetsReplayed
+        });
+        return { ...run.status };
+    }
+
+    /**
+     * Retrieves the status of a replay
+     * @param replayId - Replay identifier
+     * @returns Current replay status
+     */
+    public getReplay(replayId: string): ISessionReplay {
+        return { ...this.getRun(replayId).status };
+    }
+
+    /**
+     * Lists known replays, optionally limited to a single session
+     * @param sessionId - Optional session filter
+     * @returns Replay statuses
+     */
+    public listReplays(sessionId?: string): ISessionReplay[] {
+        return Array.from(this._replays.values())
+            .filter(run => !sessionId || run.status.sessionId === sessionId)
+            .map(run => ({ ...run.status }));
+    }
+
+    /**
+     * Reads stored packets in order and feeds them to the stream processor
+     */
+    private async runReplay(run: ReplayRun): Promise<void> {
+        const { status } = run;
+
+        for await (const batch of this._sensorRepository.streamSessionSensorData(status.sessionId)) {
+            for (const packet of batch) {
+                await this.pace(run, packet.timestamp);
+                const wasPaused = await this.waitWhilePaused(run);
+                if (status.state !== 'running') {
+                    return;
+                }
+                if (wasPaused) {
+                    // Measure pacing from the resume point so paused time is not made up in a burst
+                    run.anchor = { recorded: packet.timestamp, wall: Date.now() };
+                }
+
+                await this._streamProcessor.processStream(this.tagPacket(packet, status.id));
+
+                status.packetsReplayed++;
+                status.lastPacketTimestamp = packet.timestamp;
+            }
+        }
+
+        if (status.state === 'running') {
+            status.state = 'completed';
+            status.endedAt = new Date();
+            this._logger.info('Session replay completed', {
+                replayId: status.id,
+                packetsReplayed: status.packetsReplayed
+            });
+        }
+    }
+
+    /**
+     * Waits until a packet's recorded offset from the anchor has elapsed at the replay speed
+     */
+    private async pace(run: ReplayRun, recordedTimestamp: number): Promise<void> {
+        if (run.status.speed === null) {
+            return;
+        }
+
+        const now = Date.now();
+        const gapMs = recordedTimestamp - (run.status.lastPacketTimestamp ?? recordedTimestamp);
+        if (!run.anchor || gapMs > REPLAY_CONFIG.MAX_IDLE_GAP_MS) {
+            run.anchor = { recorded: recordedTimestamp, wall: now };
+            return;
+        }
+
+        const delayMs = run.anchor.wall + (recordedTimestamp - run.anchor.recorded) / run.status.speed - now;
+        if (delayMs <= 0) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            run.wake = resolve;
+            run.timer = setTimeout(resolve, delayMs);
+        });
+        run.timer = null;
+        run.wake = null;
+    }
+
+    /**
+     * Blocks while a replay is paused
+     * @returns Whether the replay was paused
+     */
+    private async waitWhilePaused(run: ReplayRun): Promise<boolean> {
+        let wasPaused = false;
+        while (run.status.state === 'paused') {
+            wasPaused = true;
+            await new Promise<void>(resolve => { run.wake = resolve; });
+        }
+        return wasPaused;
+    }
+
+    /**
+     * Releases a replay blocked on a pause or pacing delay
+     */
+    private wakeRun(run: ReplayRun): void {
+        if (run.timer) {
+            clearTimeout(run.timer);
+            run.timer = null;
+        }
+        const wake = run.wake;
+        run.wake = null;
+        wake?.();
+    }
+
+    /**
+     * Marks a packet as replayed so downstream output can be kept apart from live data
+     */
+    private tagPacket(packet: ISensorData, replayId: string): ISensorData {
+        return {
+            ...packet,
+            replayId,
+            metadata: {
+                ...packet.metadata,
+                processingSteps: [...(packet.metadata?.processingSteps ?? []), REPLAY_CONFIG.PROCESSING_STEP]
+            }
+        };
+    }
+
+    /**
+     * Records a replay failure
+     */
+    private failReplay(run: ReplayRun, error: Error): void {
+        run.status.state = 'failed';
+        run.status.endedAt = new Date();
+        run.status.error = error.message;
+        this._logger.error('Session replay failed', {
+            replayId: run.status.id,
+            sessionId: run.status.sessionId,
+            packetsReplayed: run.status.packetsReplayed,
+            error: error.message
+        });
+    }
+
+    /**
+     * Validates and normalizes the requested playback speed
+     */
+    private resolveSpeed(speed: number | 'max' | undefined): number | null {
+        if (speed === 'max') {
+            return null;
+        }
+
+        const multiplier = speed ?? 1;
+        if (!Number.isFinite(multiplier) ||
+            multiplier < REPLAY_CONFIG.MIN_SPEED ||
+            multiplier > REPLAY_CONFIG.MAX_SPEED) {
+            throw new Error(
+                `Replay speed must be between ${REPLAY_CONFIG.MIN_SPEED} and ${REPLAY_CONFIG.MAX_SPEED}, or 'max'`
+            );
+        }
+        return multiplier;
+    }
+
+    /**
+     * Retrieves a replay run or throws when unknown
+     */
+    private getRun(replayId: string): ReplayRun {
+        const run = this._replays.get(replayId);
+        if (!run) {
+            throw new Error(`Replay ${replayId} not found`);
+        }
+        return run;
+    }
+
+    /**
+     * Checks whether a replay is still running or paused
+     */
+    private isActive(status: ISessionReplay): boolean {
+        return status.state === 'running' || status.state === 'paused';
+    }
+
+    /**
+     * Drops finished replays past the retention window
+     */
+    private pruneFinishedReplays(): void {
+        const cutoff = Date.now() - REPLAY_CONFIG.RETENTION_MS;
+        for (const [replayId, run] of this._replays) {
+            if (run.status.endedAt && run.status.endedAt.getTime() < cutoff) {
+                this._replays.delete(replayId);
+            }
+        }
+    }
+}
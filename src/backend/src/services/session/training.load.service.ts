@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Training load service. Accumulates each live session's external load, stores it
+ * periodically and when the session ends, and computes athletes' acute and chronic loads, ACWR,
+ * monotony and strain with their teams' training load settings.
+ *
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify';
+import { Logger } from 'winston'; // v3.10.0
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import {
+    IAthleteTrainingLoad,
+    IDailyLoad,
+    ITeamTrainingLoad,
+    ITeamTrainingLoadSettings,
+    ITrainingLoadQuery,
+    TrainingLoadCoupling,
+    TrainingLoadModel
+} from '../../interfaces/load.interface';
+import { TeamLoadSettingsRecord, TrainingLoadRepository } from '../../db/repositories/training-load.repository';
+import { DAY_MS, SessionLoadTracker, computeTrainingLoad, dayKey } from '../analytics/training.load';
+import { TRAINING_LOAD } from '../../constants/sensor.constants';
+
+const MODELS: readonly TrainingLoadModel[] = ['ewma', 'rolling'];
+const COUPLINGS: readonly TrainingLoadCoupling[] = ['coupled', 'uncoupled'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Live load of one session
+ */
+interface TrackedSession {
+    athleteId: string;
+    tracker: SessionLoadTracker;
+    storedUntil: number;
+    /** Wall-clock time of the session's latest packet */
+    lastSeen: number;
+}
+
+/**
+ * Tracks session loads and computes athletes' training load
+ */
+@injectable()
+export class TrainingLoadService {
+    private readonly _sessions: Map<string, TrackedSession>;
+
+    constructor(
+        private readonly _repository: TrainingLoadRepository,
+        private readonly _logger: Logger
+    ) {
+        this._sessions = new Map();
+    }
+
+    /**
+     * Adds a processed packet to its session's load. Once the session's data has advanced by the
+     * flush interval, the load is stored and the athlete's training load is computed for each of
+     * their teams. Replayed packets are skipped, since the session's load was stored when it was
+     * live, as are packets not attributed to an athlete.
+     * @param data - Processed sensor data
+     * @returns Training load per team of the athlete when the session load was stored, otherwise empty
+     */
+    public async ingest(data: ISensorData): Promise<ITeamTrainingLoad[]> {
+        const athleteId = data.metadata?.athleteId;
+        if (data.replayId || !athleteId) {
+            return [];
+        }
+
+        const session = await this.getSession(data.sessionId, athleteId);
+        session.tracker.add(data);
+        const snapshot = session.tracker.snapshot();
+        if (!snapshot || snapshot.endTime - session.storedUntil < TRAINING_LOAD.flushIntervalMs) {
+            return [];
+        }
+
+        await this.store(data.sessionId, session);
+
+        const teams = await this._repository.getTeamLoadSettings(athleteId);
+        if (teams.length === 0) {
+            return [];
+        }
+
+        const asOf = dayKey(snapshot.endTime);
+        const dailyLoads = await this.getDailyLoads(athleteId, asOf);
+        const loads = teams.map(team => ({
+            teamId: team.teamId,
+            load: computeTrainingLoad(athleteId, dailyLoads, asOf, this.resolveSettings(team))
+        }));
+
+        this._logger.info('Session load stored', {
+            sessionId: data.sessionId,
+            athleteId,
+            load: snapshot.load,
+            acwr: loads.map(({ teamId, load }) => ({ teamId, acwr: load.acwr }))
+        });
+        return loads;
+    }
+
+    /**
+     * Stores the load of an ended session that has not been stored since its last packets and
+     * stops tracking the session
+     * @param sessionId - Ended session
+     */
+    public async flushSession(sessionId: string): Promise<void> {
+        const session = this._sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
+
+        this._sessions.delete(sessionId);
+        await this.store(sessionId, session);
+    }
+
+    /**
+     * Computes an athlete's training load
+     * @param athleteId - Athlete ID
+     * @param query - Model, coupling, team and day; unset options come from the team's settings
+     * @returns Rolling loads, ACWR, monotony and strain with recent days
+     * @throws Error if an option is invalid or the athlete is not on the team
+     */
+    public async getAthleteLoad(athleteId: string, query: ITrainingLoadQuery = {}): Promise<IAthleteTrainingLoad> {
+        if (query.model !== undefined && !MODELS.includes(query.model)) {
+            throw new Error(`Training load model must be one of ${MODELS.join(', ')}`);
+        }
+        if (query.coupling !== undefined && !COUPLINGS.includes(query.coupling)) {
+            throw new Error(`Training load coupling must be one of ${COUPLINGS.join(', ')}`);
+        }
+        if (query.asOf !== undefined && (!DAY_PATTERN.test(query.asOf) || Number.isNaN(Date.parse(query.asOf)))) {
+            throw new Error('Training load day must be a date as YYYY-MM-DD');
+        }
+
+        let settings = this.resolveSettings(null);
+        if (query.teamId) {
+            const team = (await this._repository.getTeamLoadSettings(athleteId))
+                .find(candidate => candidate.teamId === query.teamId);
+            if (!team) {
+                throw new Error(`Athlete ${athleteId} is not a member of team ${query.teamId}`);
+            }
+            settings = this.resolveSettings(team);
+        }
+
+        const asOf = query.asOf ?? dayKey(Date.now());
+        return computeTrainingLoad(athleteId, await this.getDailyLoads(athleteId, asOf), asOf, {
+            ...settings,
+            model: query.model ?? settings.model,
+            coupling: query.coupling ?? settings.coupling
+        });
+    }
+
+    /**
+     * Reads the daily loads a computation as of the day needs
+     */
+    private getDailyLoads(athleteId: string, asOf: string): Promise<IDailyLoad[]> {
+        const from = dayKey(Date.parse(`${asOf}T00:00:00Z`) - (TRAINING_LOAD.historyDays - 1) * DAY_MS);
+        return this._repository.getDailyLoads(athleteId, from, asOf);
+    }
+
+    /**
+     * Team settings with the defaults for anything unset or invalid
+     */
+    private resolveSettings(team: TeamLoadSettingsRecord | null): ITeamTrainingLoadSettings {
+        const model = MODELS.find(candidate => candidate === team?.model) ?? TRAINING_LOAD.defaultModel;
+        const coupling = COUPLINGS.find(candidate => candidate === team?.coupling) ?? TRAINING_LOAD.defaultCoupling;
+        const lower = team?.acwrLower;
+        const upper = team?.acwrUpper;
+        const acwrBand = Number.isFinite(lower) && Number.isFinite(upper) && lower! < upper!
+            ? { lower: lower!, upper: upper! }
+            : { ...TRAINING_LOAD.acwrBand };
+
+        return { model, coupling, acwrBand };
+    }
+
+    /**
+     * Stores a session's load accumulated since it was last stored
+     */
+    private async store(sessionId: string, session: TrackedSession): Promise<void> {
+        const snapshot = session.tracker.snapshot();
+        if (!snapshot || snapshot.endTime <= session.storedUntil) {
+            return;
+        }
+
+        session.storedUntil = snapshot.endTime;
+        await this._repository.upsertSessionLoad({ sessionId, athleteId: session.athleteId, ...snapshot });
+    }
+
+    /**
+     * Returns the session's tracker. When full, sessions without packets for
+     * TRAINING_LOAD.sessionIdleMs are stored and dropped; live sessions are never dropped.
+     */
+    private async getSession(sessionId: string, athleteId: string): Promise<TrackedSession> {
+        let session = this._sessions.get(sessionId);
+        if (!session) {
+            if (this._sessions.size >= TRAINING_LOAD.maxTrackedSessions) {
+                await this.evictIdleSessions();
+            }
+            session = { athleteId, tracker: new SessionLoadTracker(), storedUntil: -Infinity, lastSeen: Date.now() };
+            this._sessions.set(sessionId, session);
+        }
+        session.lastSeen = Date.now();
+        return session;
+    }
+
+    /**
+     * Stores and stops tracking sessions that stopped sending packets without being ended
+     */
+    private async evictIdleSessions(): Promise<void> {
+        const idleBefore = Date.now() - TRAINING_LOAD.sessionIdleMs;
+        for (const [sessionId, session] of this._sessions) {
+            if (session.lastSeen < idleBefore) {
+                this._sessions.delete(sessionId);
+                await this.store(sessionId, session);
+            }
+        }
+    }
+}
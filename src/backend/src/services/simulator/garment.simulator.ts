@@ -0,0 +1,428 @@
+/**
+ * @fileoverview Synthetic garment simulator. Generates physiologically plausible IMU and ToF
+ * readings for a virtual athlete running, jumping or squatting, and injects dropouts, drift,
+ * saturation and left/right asymmetry on request. Packets have the shape of garment data, so
+ * they can be sent through the WebSocket handler or Kafka unchanged.
+ *
+ * Each body segment follows a sagittal pitch angle, a vertical acceleration and a muscle load
+ * over the activity cycle. The accelerometer reports specific force and the gyroscope the
+ * pitch rate, both rotated into the sensor frame by the slot's mounting orientation, so the
+ * two stay consistent for downstream fusion.
+ *
+ * @version 1.0.0
+ */
+
+import { ISensorData, ISensorReading } from '../../interfaces/sensor.interface';
+import { BodySegment, BodySide, IGarmentSlot, ISlotOrientation } from '../../interfaces/garment.interface';
+import { ISimulatedAthlete, ISimulatorFaults, SimulatedActivity } from '../../interfaces/simulator.interface';
+import { GRAVITY_MS2, SAMPLING_RATES, SENSOR_SIMULATOR, SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Simulator faults with nothing injected
+ */
+export const NO_FAULTS: ISimulatorFaults = {
+    dropoutsPerMinute: 0,
+    gyroDriftPerMinute: 0,
+    loadDriftPerMinute: 0,
+    saturationG: null,
+    asymmetry: 0
+};
+
+/**
+ * State of a body segment at one point of the activity cycle
+ */
+interface SegmentMotion {
+    /** Sagittal pitch in degrees, flexion positive */
+    pitch: number;
+    /** Vertical acceleration in g, excluding gravity */
+    vertical: number;
+    /** Muscle load as a fraction of the maximal load */
+    load: number;
+}
+
+/**
+ * Motion of a body segment over an activity cycle, phase in [0, 1)
+ */
+type MotionProfile = (segment: BodySegment, side: BodySide, phase: number) => SegmentMotion;
+
+/**
+ * Simulated sensor of a virtual athlete
+ */
+interface SimulatedSensor {
+    id: string;
+    slot: IGarmentSlot;
+    rate: number;
+    /** Index of the next sample on the sensor's sampling grid */
+    nextSample: number;
+    dropoutUntil: number;
+    /** Sensor-to-segment rotation from the slot's mounting orientation */
+    rotation: number[][];
+}
+
+const LEG_SEGMENTS: BodySegment[] = ['thigh', 'shank', 'foot'];
+const ARM_SEGMENTS: BodySegment[] = ['upper_arm', 'forearm', 'hand'];
+
+/**
+ * Sensor ID of a simulated athlete's slot
+ * @param athleteId - Virtual athlete
+ * @param slotId - Garment slot
+ * @returns Sensor identifier
+ */
+export function simulatorSensorId(athleteId: string, slotId: string): string {
+    return `${athleteId}-${slotId}`;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so simulated runs are reproducible
+ * @param seed - Generator seed
+ * @returns Function returning uniform values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generates the sensor streams of one virtual athlete
+ */
+export class GarmentSimulator {
+    private readonly _random: () => number;
+    private readonly _sensors: SimulatedSensor[];
+    private readonly _profile: MotionProfile;
+    private readonly _cycleHz: number;
+    private readonly _amplitude: number;
+    private readonly _phaseOffset: number;
+    private _cursor: number;
+    private _droppedReadings = 0;
+
+    /**
+     * Initializes the simulator of a virtual athlete
+     * @param _athlete - Athlete, activity, garment slots and faults
+     * @param _startTime - Time of the first sample in milliseconds
+     */
+    constructor(
+        private readonly _athlete: ISimulatedAthlete,
+        private readonly _startTime: number
+    ) {
+        if (!MOTION_PROFILES[_athlete.activity]) {
+            throw new Error(`Unknown activity ${_athlete.activity}`);
+        }
+        const { asymmetry, saturationG } = _athlete.faults;
+        if (asymmetry < 0 || asymmetry > 1) {
+            throw new Error('Asymmetry must be between 0 and 1');
+        }
+        if (saturationG !== null && saturationG <= 0) {
+            throw new Error('Saturation range must be positive');
+        }
+
+        this._random = createRandom(_athlete.seed);
+        this._profile = MOTION_PROFILES[_athlete.activity];
+
+        // Athletes differ slightly in cadence and range of motion
+        const vary = () => 1 + SENSOR_SIMULATOR.athleteVariation * (2 * this._random() - 1);
+        this._cycleHz = SENSOR_SIMULATOR.activities[_athlete.activity].cycleHz * vary();
+        this._amplitude = vary();
+        this._phaseOffset = this._random();
+
+        this._sensors = _athlete.slots.map(slot => ({
+            id: simulatorSensorId(_athlete.id, slot.id),
+            slot,
+            rate: slot.sensorType === SENSOR_TYPES.IMU ? SAMPLING_RATES.IMU : SAMPLING_RATES.TOF,
+            nextSample: 0,
+            dropoutUntil: 0,
+            rotation: rotationMatrix(slot.orientation)
+        }));
+        this._cursor = _startTime;
+    }
+
+    /**
+     * Virtual athlete being simulated
+     */
+    public get athlete(): ISimulatedAthlete {
+        return this._athlete;
+    }
+
+    /**
+     * Sensor IDs of the athlete's garment
+     */
+    public get sensorIds(): string[] {
+        return this._sensors.map(sensor => sensor.id);
+    }
+
+    /**
+     * Readings withheld by injected dropouts so far
+     */
+    public get droppedReadings(): number {
+        return this._droppedReadings;
+    }
+
+    /**
+     * Generates the packets of every complete packet window up to a time. Sensors inside a
+     * dropout for a whole window send no packet for it.
+     * @param until - Time to generate up to in milliseconds
+     * @returns Sensor data packets in time order
+     */
+    public generate(until: number): ISensorData[] {
+        const packets: ISensorData[] = [];
+
+        while (this._cursor + SENSOR_SIMULATOR.packetMs <= until) {
+            const windowEnd = this._cursor + SENSOR_SIMULATOR.packetMs;
+            for (const sensor of this._sensors) {
+                const packet = this.generatePacket(sensor, windowEnd);
+                if (packet) {
+                    packets.push(packet);
+                }
+            }
+            this._cursor = windowEnd;
+        }
+
+        return packets;
+    }
+
+    /**
+     * Generates one sensor's readings up to the end of a packet window
+     */
+    private generatePacket(sensor: SimulatedSensor, windowEnd: number): ISensorData | null {
+        const intervalMs = 1000 / sensor.rate;
+        const dropoutChance = this._athlete.faults.dropoutsPerMinute * intervalMs / 60000;
+        const readings: ISensorReading[] = [];
+        let expected = 0;
+
+        for (let time = this.sampleTime(sensor); time < windowEnd; time = this.sampleTime(sensor)) {
+            sensor.nextSample++;
+            expected++;
+
+            if (time >= sensor.dropoutUntil && this._random() < dropoutChance) {
+                const { min, max } = SENSOR_SIMULATOR.dropoutMs;
+                sensor.dropoutUntil = time + min + this._random() * (max - min);
+            }
+            if (time < sensor.dropoutUntil) {
+                this._droppedReadings++;
+                continue;
+            }
+
+            readings.push({
+                type: sensor.slot.sensorType,
+                value: sensor.slot.sensorType === SENSOR_TYPES.IMU
+                    ? this.imuValue(sensor, time)
+                    : this.loadValue(sensor, time),
+                timestamp: time,
+                confidence: 0.95,
+                rawData: Buffer.alloc(0)
+            });
+        }
+
+        if (readings.length === 0) {
+            return null;
+        }
+
+        const quality = Math.round(100 * readings.length / expected);
+        const elapsedMinutes = (readings[0]!.timestamp - this._startTime) / 60000;
+        return {
+            sensorId: sensor.id,
+            timestamp: readings[0]!.timestamp,
+            readings,
+            metadata: {
+                calibrationVersion: 'simulated',
+                processingSteps: [],
+                quality,
+                // Skin warms towards its exercising temperature over the first minutes
+                environmentalFactors: { skinTemperature: 32 + 2.5 * (1 - Math.exp(-elapsedMinutes / 8)) },
+                processingLatency: 0
+            },
+            sessionId: this._athlete.sessionId,
+            dataQuality: quality
+        };
+    }
+
+    /**
+     * Time of a sensor's next sample on its sampling grid
+     */
+    private sampleTime(sensor: SimulatedSensor): number {
+        return this._startTime + sensor.nextSample * 1000 / sensor.rate;
+    }
+
+    /**
+     * Motion of a slot's segment at a time, with the asymmetry fault applied to the right side
+     */
+    private motionAt(slot: IGarmentSlot, time: number): SegmentMotion {
+        const phase = ((time - this._startTime) / 1000 * this._cycleHz + this._phaseOffset) % 1;
+        const motion = this._profile(slot.segment, slot.side, phase);
+        const scale = this._amplitude * (slot.side === 'right' ? 1 - this._athlete.faults.asymmetry : 1);
+
+        return {
+            pitch: motion.pitch * scale,
+            vertical: motion.vertical * scale,
+            load: motion.load * scale
+        };
+    }
+
+    /**
+     * Accelerometer (m/s²) and gyroscope (deg/s) values of an IMU sample in the sensor frame
+     */
+    private imuValue(sensor: SimulatedSensor, time: number): number[] {
+        const { pitch, vertical } = this.motionAt(sensor.slot, time);
+        const stepMs = 1;
+        const pitchRate = (this.motionAt(sensor.slot, time + stepMs).pitch
+            - this.motionAt(sensor.slot, time - stepMs).pitch) / (2 * stepMs / 1000);
+
+        // Specific force and angular rate in the segment frame: x forward, y left, z along the segment
+        const radians = pitch * Math.PI / 180;
+        const force = GRAVITY_MS2 * (1 + vertical);
+        const accel = rotateToSensor(sensor.rotation, [-force * Math.sin(radians), 0, force * Math.cos(radians)]);
+        const gyro = rotateToSensor(sensor.rotation, [0, pitchRate, 0]);
+
+        const { faults } = this._athlete;
+        const accelRange = Math.min(faults.saturationG ?? Infinity, SENSOR_SIMULATOR.ranges.accelG) * GRAVITY_MS2;
+        const gyroBias = faults.gyroDriftPerMinute * (time - this._startTime) / 60000;
+
+        return [
+            ...accel.map(value => clamp(value + this.noise(SENSOR_SIMULATOR.noise.accel), accelRange)),
+            ...gyro.map(value => clamp(value + gyroBias + this.noise(SENSOR_SIMULATOR.noise.gyro), SENSOR_SIMULATOR.ranges.gyro))
+        ];
+    }
+
+    /**
+     * Load (kg) of a ToF sample
+     */
+    private loadValue(sensor: SimulatedSensor, time: number): number[] {
+        const { load } = this.motionAt(sensor.slot, time);
+        const offset = this._athlete.faults.loadDriftPerMinute * (time - this._startTime) / 60000;
+        const value = SENSOR_SIMULATOR.restingLoad + SENSOR_SIMULATOR.maxLoad * load + offset
+            + this.noise(SENSOR_SIMULATOR.noise.load);
+
+        return [Math.min(SENSOR_SIMULATOR.ranges.load, Math.max(0, value))];
+    }
+
+    /**
+     * Zero-mean Gaussian noise (Box-Muller)
+     */
+    private noise(deviation: number): number {
+        const u = 1 - this._random();
+        const v = this._random();
+        return deviation * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+}
+
+/**
+ * Running: legs alternate half a stride apart with a foot strike at phase 0, arms swing
+ * against the leg on their side, and the trunk bounces twice per stride.
+ */
+const running: MotionProfile = (segment, side, phase) => {
+    const leg = side === 'right' ? (phase + 0.5) % 1 : phase;
+
+    if (LEG_SEGMENTS.includes(segment)) {
+        const thigh = 12 + 33 * Math.cos(2 * Math.PI * (leg - 0.85));
+        const knee = 10 + 60 * pulse(leg, 0.7, 0.12) + 25 * pulse(leg, 0.15, 0.08);
+        const strike = { thigh: 1.5, shank: 2.8, foot: 3.5 }[segment as 'thigh' | 'shank' | 'foot'];
+        return {
+            pitch: segment === 'thigh' ? thigh : thigh - knee + (segment === 'foot' ? 15 * Math.sin(2 * Math.PI * leg) : 0),
+            vertical: strike * pulse(leg, 0.02, 0.02) - 0.3 * pulse(leg, 0.6, 0.15),
+            load: 0.55 * pulse(leg, 0.12, 0.07) + 0.15 * pulse(leg, 0.85, 0.08)
+        };
+    }
+    if (ARM_SEGMENTS.includes(segment)) {
+        const swing = -25 * Math.cos(2 * Math.PI * (leg - 0.85));
+        return {
+            pitch: segment === 'upper_arm' ? swing : swing + 80,
+            vertical: 0.4 * (pulse(phase, 0.02, 0.03) + pulse(phase, 0.52, 0.03)),
+            load: 0.1 + 0.1 * Math.abs(Math.sin(2 * Math.PI * leg))
+        };
+    }
+    return {
+        pitch: 8 + 2 * Math.cos(4 * Math.PI * phase),
+        vertical: 0.5 * Math.cos(4 * Math.PI * (phase - 0.12))
+            + 1.2 * (pulse(phase, 0.02, 0.02) + pulse(phase, 0.52, 0.02)),
+        load: 0.2 + 0.15 * (pulse(phase, 0.1, 0.07) + pulse(phase, 0.6, 0.07))
+    };
+};
+
+/**
+ * Countermovement jumping: stand, crouch, push off, fly, land and recover, both sides together
+ */
+const jumping: MotionProfile = (segment, _side, phase) => {
+    const crouch = pulse(phase, 0.42, 0.05);
+    const landing = pulse(phase, 0.83, 0.04);
+    const flight = phase >= 0.56 && phase < 0.75 ? 1 : 0;
+    const impact = ({ foot: 5, shank: 4.5, thigh: 3.5, pelvis: 3, trunk: 2.5, head: 2 } as Record<string, number>)[segment] ?? 1.5;
+    const pitch: Record<BodySegment, number> = {
+        head: 10 * crouch,
+        trunk: 35 * crouch + 25 * landing,
+        pelvis: 30 * crouch + 20 * landing,
+        upper_arm: -45 * crouch + 70 * pulse(phase, 0.55, 0.05),
+        forearm: -30 * crouch + 90,
+        hand: -30 * crouch + 90,
+        thigh: 65 * crouch + 45 * landing,
+        shank: -35 * crouch - 25 * landing,
+        foot: -15 * crouch - 10 * landing
+    };
+
+    return {
+        pitch: pitch[segment],
+        vertical: -0.4 * pulse(phase, 0.38, 0.03) + 1.8 * pulse(phase, 0.5, 0.03)
+            + impact * pulse(phase, 0.765, 0.012) - flight,
+        load: 0.4 * crouch + 0.9 * pulse(phase, 0.5, 0.04) + pulse(phase, 0.775, 0.03)
+    };
+};
+
+/**
+ * Bodyweight squats: a smooth descent to full depth and back up once per cycle
+ */
+const squats: MotionProfile = (segment, _side, phase) => {
+    const depth = (1 - Math.cos(2 * Math.PI * phase)) / 2;
+    const pitch: Record<BodySegment, number> = {
+        head: 10 * depth,
+        trunk: 35 * depth,
+        pelvis: 25 * depth,
+        upper_arm: 70 * depth,
+        forearm: 70 * depth,
+        hand: 70 * depth,
+        thigh: 95 * depth,
+        shank: -30 * depth,
+        foot: 0
+    };
+    const travel = ({ pelvis: 1, trunk: 1, head: 1, thigh: 0.5, shank: 0.1, foot: 0 } as Record<string, number>)[segment] ?? 0.8;
+
+    return {
+        pitch: pitch[segment],
+        vertical: -0.06 * travel * Math.cos(2 * Math.PI * phase),
+        load: 0.15 + 0.55 * depth
+    };
+};
+
+const MOTION_PROFILES: Record<SimulatedActivity, MotionProfile> = { running, jumping, squats };
+
+/**
+ * Gaussian pulse over the cycle, wrapping around phase 1
+ */
+const pulse = (phase: number, center: number, width: number): number => {
+    const distance = ((phase - center + 1.5) % 1) - 0.5;
+    return Math.exp(-0.5 * (distance / width) ** 2);
+};
+
+/**
+ * Rotation of the sensor frame relative to the segment frame, ZYX Euler angles in degrees
+ */
+const rotationMatrix = ({ roll, pitch, yaw }: ISlotOrientation): number[][] => {
+    const [r, p, y] = [roll, pitch, yaw].map(angle => angle * Math.PI / 180);
+    const [cr, sr, cp, sp, cy, sy] = [Math.cos(r!), Math.sin(r!), Math.cos(p!), Math.sin(p!), Math.cos(y!), Math.sin(y!)];
+    return [
+        [cy * cp, cy * sp * sr - sy * cr, cy * sp * cr + sy * sr],
+        [sy * cp, sy * sp * sr + cy * cr, sy * sp * cr - cy * sr],
+        [-sp, cp * sr, cp * cr]
+    ];
+};
+
+/**
+ * Expresses a segment-frame vector in the sensor frame (transpose of the sensor rotation)
+ */
+const rotateToSensor = (rotation: number[][], vector: number[]): number[] =>
+    [0, 1, 2].map(col => rotation[0]![col]! * vector[0]! + rotation[1]![col]! * vector[1]! + rotation[2]![col]! * vector[2]!);
+
+const clamp = (value: number, range: number): number => Math.min(range, Math.max(-range, value));
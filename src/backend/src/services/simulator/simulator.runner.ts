@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Streams simulated garments to a sink in real time. Every packet interval the
+ * runner generates each virtual athlete's packets up to the current time and sends them, so
+ * readings arrive at the sensors' real sampling rates; a tick that overruns is caught up on
+ * the next one.
+ *
+ * @version 1.0.0
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+
+import { GarmentSimulator } from './garment.simulator';
+import { SimulatorSink } from './simulator.sinks';
+import { ISimulatorStats } from '../../interfaces/simulator.interface';
+import { Logger } from '../../utils/logger.util';
+import { SENSOR_SIMULATOR } from '../../constants/sensor.constants';
+
+/**
+ * Runs a set of simulated garments against a sink
+ */
+export class SimulatorRunner {
+    private readonly _stats: ISimulatorStats;
+    private _stopped = false;
+
+    /**
+     * @param _simulators - Simulators of the virtual athletes
+     * @param _sink - Destination of the packets
+     * @param _logger - Logger for progress and delivery failures
+     */
+    constructor(
+        private readonly _simulators: GarmentSimulator[],
+        private readonly _sink: SimulatorSink,
+        private readonly _logger: Logger
+    ) {
+        this._stats = {
+            athletes: _simulators.length,
+            packets: 0,
+            readings: 0,
+            droppedReadings: 0,
+            failedPackets: 0
+        };
+    }
+
+    /**
+     * Streams until the duration has elapsed or the runner is stopped
+     * @param durationMs - Run duration, or null to run until stopped
+     * @returns Totals of the run
+     */
+    public async run(durationMs: number | null): Promise<ISimulatorStats> {
+        await this._sink.connect(this._simulators.map(simulator => simulator.athlete.id));
+        this._logger.info('Simulation started', {
+            athletes: this._simulators.length,
+            durationMs
+        });
+
+        const endsAt = durationMs === null ? Infinity : Date.now() + durationMs;
+        let nextStatsAt = Date.now() + SENSOR_SIMULATOR.statsIntervalMs;
+
+        try {
+            while (!this._stopped && Date.now() < endsAt) {
+                const tickStart = Date.now();
+                await Promise.all(this._simulators.map(simulator => this.tick(simulator, Math.min(tickStart, endsAt))));
+
+                if (tickStart >= nextStatsAt) {
+                    this._logger.info('Simulation progress', this.stats);
+                    nextStatsAt += SENSOR_SIMULATOR.statsIntervalMs;
+                }
+
+                await sleep(Math.max(0, SENSOR_SIMULATOR.packetMs - (Date.now() - tickStart)));
+            }
+        } finally {
+            await this._sink.close();
+        }
+
+        this._logger.info('Simulation finished', this.stats);
+        return this.stats;
+    }
+
+    /**
+     * Stops the run after the current tick
+     */
+    public stop(): void {
+        this._stopped = true;
+    }
+
+    /**
+     * Totals of the run so far
+     */
+    public get stats(): ISimulatorStats {
+        return {
+            ...this._stats,
+            droppedReadings: this._simulators.reduce((sum, simulator) => sum + simulator.droppedReadings, 0)
+        };
+    }
+
+    /**
+     * Generates and sends one athlete's packets up to a time
+     */
+    private async tick(simulator: GarmentSimulator, until: number): Promise<void> {
+        const packets = simulator.generate(until);
+        if (packets.length === 0) {
+            return;
+        }
+
+        try {
+            await this._sink.send(simulator.athlete.id, packets);
+            this._stats.packets += packets.length;
+            this._stats.readings += packets.reduce((sum, packet) => sum + packet.readings.length, 0);
+        } catch (error) {
+            // Counted rather than logged per tick, which would flood the log under load
+            this._stats.failedPackets += packets.length;
+            if (this._stats.failedPackets === packets.length) {
+                this._logger.warn('Failed to deliver simulated packets', {
+                    athleteId: simulator.athlete.id,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Destinations for simulated garment streams. The WebSocket sink opens one
+ * connection per virtual athlete, as a garment hub would, and sends binary frames or JSON
+ * packets to the sensor handler; the Kafka sink publishes packets to the raw ingest topic
+ * consumed by the sensor worker.
+ *
+ * @version 1.0.0
+ */
+
+import WebSocket from 'ws'; // v8.13.0
+import { Kafka, Producer } from 'kafkajs'; // v2.2.4
+import {
+    SENSOR_FRAME_PROTOCOL,
+    SENSOR_JSON_PROTOCOL,
+    encodeSensorFrame
+} from '@smart-apparel/sensor-frame';
+
+import { ISensorData } from '../../interfaces/sensor.interface';
+import { SENSOR_TYPES } from '../../constants/sensor.constants';
+
+/**
+ * Destination of simulated packets
+ */
+export interface SimulatorSink {
+    /** Opens the sink for the given virtual athletes */
+    connect(athleteIds: string[]): Promise<void>;
+    /** Sends one athlete's packets of a tick */
+    send(athleteId: string, packets: ISensorData[]): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Sends simulated packets to the WebSocket sensor handler
+ */
+export class WebSocketSink implements SimulatorSink {
+    private readonly _sockets: Map<string, WebSocket>;
+
+    /**
+     * @param _url - Sensor handler URL
+     * @param _format - Binary frames or the JSON fallback format
+     */
+    constructor(
+        private readonly _url: string,
+        private readonly _format: 'binary' | 'json'
+    ) {
+        this._sockets = new Map();
+    }
+
+    public async connect(athleteIds: string[]): Promise<void> {
+        const protocol = this._format === 'binary' ? SENSOR_FRAME_PROTOCOL : SENSOR_JSON_PROTOCOL;
+
+        await Promise.all(athleteIds.map(athleteId => new Promise<void>((resolve, reject) => {
+            const socket = new WebSocket(this._url, [protocol]);
+            socket.once('open', () => {
+                this._sockets.set(athleteId, socket);
+                resolve();
+            });
+            socket.once('error', reject);
+        })));
+    }
+
+    public async send(athleteId: string, packets: ISensorData[]): Promise<void> {
+        const socket = this._sockets.get(athleteId);
+        if (!socket || socket.readyState !== WebSocket.OPEN) {
+            throw new Error(`WebSocket of athlete ${athleteId} is not open`);
+        }
+
+        // Binary frames are self-delimiting and share one message; JSON carries one packet per message
+        const messages = this._format === 'binary'
+            ? [Buffer.concat(packets.map(packet => encodeSensorFrame({
+                sensorId: packet.sensorId,
+                sessionId: packet.sessionId,
+                sensorType: packet.readings[0]!.type === SENSOR_TYPES.IMU ? 'imu' : 'tof',
+                baseTimestamp: packet.timestamp,
+                dataQuality: packet.dataQuality,
+                readings: packet.readings.map(({ timestamp, value, confidence }) => ({ timestamp, value, confidence }))
+            })))]
+            : packets.map(packet => JSON.stringify(packet));
+
+        await Promise.all(messages.map(message => new Promise<void>((resolve, reject) => {
+            socket.send(message, error => (error ? reject(error) : resolve()));
+        })));
+    }
+
+    public async close(): Promise<void> {
+        this._sockets.forEach(socket => socket.close(1000, 'Simulation finished'));
+        this._sockets.clear();
+    }
+}
+
+/**
+ * Publishes simulated packets to a Kafka topic, keyed by sensor ID
+ */
+export class KafkaSink implements SimulatorSink {
+    private readonly _producer: Producer;
+
+    /**
+     * @param brokers - Kafka brokers
+     * @param _topic - Topic to publish to
+     */
+    constructor(brokers: string[], private readonly _topic: string) {
+        this._producer = new Kafka({ clientId: 'garment-simulator', brokers }).producer();
+    }
+
+    public async connect(): Promise<void> {
+        await this._producer.connect();
+    }
+
+    public async send(_athleteId: string, packets: ISensorData[]): Promise<void> {
+        await this._producer.send({
+            topic: this._topic,
+            messages: packets.map(packet => ({
+                key: packet.sensorId,
+                value: JSON.stringify(packet)
+            }))
+        });
+    }
+
+    public async close(): Promise<void> {
+        await this._producer.disconnect();
+    }
+}
@@ -12,6 +12,7 @@ import { TeamRepository } from '../../db/repositories/team.repository';
 import { AlertService } from '../alert/alert.service';
 import { Logger } from '../../utils/logger.util';
 import { DataClassification } from '../../utils/encryption.util';
+import { validateCustomMetrics } from '../analytics/custom.metric';
 import { SYSTEM_TIMEOUTS, SCALING_CONFIG } from '../../constants/system.constants';
 
 @injectable()
@@ -58,6 +59,8 @@ export class TeamService {
       // Validate security context
       await this.securityContext.validatePermission('team:create');
 
+      validateCustomMetrics(teamData.settings?.analyticsConfig?.customMetrics);
+
       // Apply field-level encryption for sensitive data
       const encryptedSettings = await this.encryptTeamSettings(teamData.settings);
 
@@ -188,6 +191,9 @@ export class TeamService {
       // Validate security context
       await this.securityContext.validatePermission('team:update:settings');
 
+      // Reject custom metric formulas that do not parse before anything is stored
+      validateCustomMetrics(settings.analyticsConfig?.customMetrics);
+
       // Encrypt sensitive settings
       const encryptedSettings = await this.encryptTeamSettings(settings);
 
@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Command line entry point of the synthetic garment simulator. Streams simulated
+ * garments for N virtual athletes into the WebSocket sensor handler or the raw ingest Kafka
+ * topic at real sampling rates, for development without a physical garment and for load tests.
+ *
+ * Usage: npm run simulate -- --athletes 20 --activity running --sink kafka --duration 300
+ *        --dropouts 2 --drift 0.5 --saturation 4 --asymmetry 0.15
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { parseArgs } from 'util';
+
+import { GarmentSimulator, NO_FAULTS } from './services/simulator/garment.simulator';
+import { KafkaSink, SimulatorSink, WebSocketSink } from './services/simulator/simulator.sinks';
+import { SimulatorRunner } from './services/simulator/simulator.runner';
+import { SimulatedActivity } from './interfaces/simulator.interface';
+import { kafkaConfig } from './config/kafka.config';
+import { Logger } from './utils/logger.util';
+import { SENSOR_SIMULATOR } from './constants/sensor.constants';
+
+const USAGE = `Options:
+  --athletes <n>        Virtual athletes to simulate (default 1)
+  --activity <name>     ${Object.keys(SENSOR_SIMULATOR.activities).join(', ')} (default running)
+  --sink <name>         websocket or kafka (default websocket)
+  --format <name>       WebSocket wire format, binary or json (default binary)
+  --url <url>           WebSocket sensor handler URL (default ${SENSOR_SIMULATOR.websocketUrl})
+  --brokers <list>      Comma-separated Kafka brokers (default from the Kafka config)
+  --topic <name>        Kafka topic (default ${SENSOR_SIMULATOR.kafkaTopic})
+  --duration <seconds>  Run duration (default until interrupted)
+  --seed <n>            Random seed for reproducible streams (default random)
+  --dropouts <n>        Dropouts per sensor per minute
+  --drift <deg/s>       Gyroscope bias gained per minute
+  --load-drift <kg>     ToF load offset gained per minute
+  --saturation <g>      Accelerometer range in g; larger readings are clipped
+  --asymmetry <0-1>     Reduction of right-side motion and load`;
+
+const logger = new Logger('simulator');
+
+/**
+ * Parses a numeric option, rejecting values outside the allowed range
+ */
+const numberOption = (name: string, value: string | undefined, fallback: number, min: number, max = Infinity): number => {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`--${name} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      athletes: { type: 'string' },
+      activity: { type: 'string', default: 'running' },
+      sink: { type: 'string', default: 'websocket' },
+      format: { type: 'string', default: 'binary' },
+      url: { type: 'string', default: SENSOR_SIMULATOR.websocketUrl },
+      brokers: { type: 'string' },
+      topic: { type: 'string', default: SENSOR_SIMULATOR.kafkaTopic },
+      duration: { type: 'string' },
+      seed: { type: 'string' },
+      dropouts: { type: 'string' },
+      drift: { type: 'string' },
+      'load-drift': { type: 'string' },
+      saturation: { type: 'string' },
+      asymmetry: { type: 'string' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  const activity = values.activity as SimulatedActivity;
+  if (!(activity in SENSOR_SIMULATOR.activities)) {
+    throw new Error(`Unknown activity ${values.activity}`);
+  }
+  if (values.format !== 'binary' && values.format !== 'json') {
+    throw new Error('--format must be binary or json');
+  }
+
+  const athletes = numberOption('athletes', values.athletes, 1, 1, SENSOR_SIMULATOR.maxAthletes);
+  const duration = numberOption('duration', values.duration, 0, 0);
+  const seed = numberOption('seed', values.seed, Math.floor(Math.random() * 0xffffffff), 0);
+  const faults = {
+    ...NO_FAULTS,
+    dropoutsPerMinute: numberOption('dropouts', values.dropouts, 0, 0),
+    gyroDriftPerMinute: numberOption('drift', values.drift, 0, -SENSOR_SIMULATOR.ranges.gyro, SENSOR_SIMULATOR.ranges.gyro),
+    loadDriftPerMinute: numberOption('load-drift', values['load-drift'], 0, -SENSOR_SIMULATOR.ranges.load, SENSOR_SIMULATOR.ranges.load),
+    saturationG: values.saturation === undefined ? null : numberOption('saturation', values.saturation, 0, 0.1),
+    asymmetry: numberOption('asymmetry', values.asymmetry, 0, 0, 1)
+  };
+
+  let sink: SimulatorSink;
+  switch (values.sink) {
+    case 'websocket':
+      sink = new WebSocketSink(values.url!, values.format);
+      break;
+    case 'kafka':
+      sink = new KafkaSink(values.brokers ? values.brokers.split(',') : kafkaConfig.brokers, values.topic!);
+      break;
+    default:
+      throw new Error('--sink must be websocket or kafka');
+  }
+
+  const startTime = Date.now();
+  const simulators = Array.from({ length: athletes }, (_, index) => new GarmentSimulator({
+    id: `sim-athlete-${index + 1}`,
+    sessionId: randomUUID(),
+    activity,
+    slots: [...SENSOR_SIMULATOR.defaultSlots],
+    faults,
+    seed: seed + index
+  }, startTime));
+
+  const runner = new SimulatorRunner(simulators, sink, logger);
+  process.on('SIGINT', () => runner.stop());
+  process.on('SIGTERM', () => runner.stop());
+
+  logger.info('Simulating garments', { athletes, activity, sink: values.sink, seed, faults });
+  await runner.run(duration > 0 ? duration * 1000 : null);
+};
+
+main().catch((error: Error) => {
+  logger.error('Simulation failed', error);
+  process.exitCode = 1;
+});
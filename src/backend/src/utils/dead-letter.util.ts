@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Dead-letter utilities shared by Kafka workers. Parses message payloads,
+ * retries processing a bounded number of times and routes messages that still fail to
+ * the dead-letter topic with failure context, so one bad message cannot stall a partition.
+ * @version 1.0.0
+ */
+
+import { Producer, KafkaMessage, IHeaders, Message } from 'kafkajs'; // v2.2.4
+import { KAFKA_TOPICS } from '../config/kafka.config';
+import { DEAD_LETTER_CONFIG } from '../constants/system.constants';
+import { DeadLetterErrorType, IDeadLetterContext } from '../interfaces/dead-letter.interface';
+
+/**
+ * Kafka headers carrying dead-letter failure context
+ */
+export const DEAD_LETTER_HEADERS = {
+  SOURCE_TOPIC: 'x-dlq-source-topic',
+  SOURCE_PARTITION: 'x-dlq-source-partition',
+  SOURCE_OFFSET: 'x-dlq-source-offset',
+  WORKER: 'x-dlq-worker',
+  ERROR_TYPE: 'x-dlq-error-type',
+  ERROR_MESSAGE: 'x-dlq-error-message',
+  ATTEMPTS: 'x-dlq-attempts',
+  FAILED_AT: 'x-dlq-failed-at',
+  /** Carried on re-queued messages so repeated failures are counted */
+  RETRY_COUNT: 'x-retry-count'
+} as const;
+
+/**
+ * Error raised when a message payload is not valid JSON
+ */
+export class MessageParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessageParseError';
+  }
+}
+
+/**
+ * Source location and handler for a consumed message
+ */
+export interface DeadLetterOptions {
+  producer: Producer;
+  workerName: string;
+  topic: string;
+  partition: number;
+  message: KafkaMessage;
+  handler: () => Promise<void>;
+  maxAttempts?: number;
+}
+
+/**
+ * Parses a JSON message payload
+ * @param value - Raw message value
+ * @returns Parsed payload
+ * @throws MessageParseError if the payload is empty or not valid JSON
+ */
+export const parseMessageValue = <T>(value: Buffer | null): T => {
+  if (!value || value.length === 0) {
+    throw new MessageParseError('Message payload is empty');
+  }
+
+  try {
+    return JSON.parse(value.toString()) as T;
+  } catch (error) {
+    throw new MessageParseError(`Message payload is not valid JSON: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Classifies a worker failure for dead-letter reporting
+ * @param error - Error raised while handling a message
+ * @returns Dead-letter error type
+ */
+export const classifyError = (error: Error): DeadLetterErrorType => {
+  if (error instanceof MessageParseError) {
+    return 'PARSE_ERROR';
+  }
+  if (error.name === 'ValidationError' || /invalid|validation/i.test(error.message)) {
+    return 'VALIDATION_ERROR';
+  }
+  return 'PROCESSING_ERROR';
+};
+
+/**
+ * Reads a string header value
+ * @param headers - Message headers
+ * @param name - Header name
+ * @returns Header value or undefined
+ */
+export const getHeader = (headers: IHeaders | undefined, name: string): string | undefined => {
+  const value = headers?.[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined ? undefined : first.toString();
+};
+
+/**
+ * Reads how many times a message has been re-queued from the dead-letter topic
+ * @param headers - Message headers
+ * @returns Re-queue count, 0 for messages that were never dead-lettered
+ */
+export const getRetryCount = (headers: IHeaders | undefined): number => {
+  const value = Number(getHeader(headers, DEAD_LETTER_HEADERS.RETRY_COUNT));
+  return Number.isInteger(value) && value > 0 ? value : 0;
+};
+
+/**
+ * Builds the dead-letter copy of a message, preserving its key, payload and headers
+ * @param message - Original message
+ * @param context - Failure context
+ * @returns Message for the dead-letter topic
+ */
+export const buildDeadLetterMessage = (message: KafkaMessage, context: IDeadLetterContext): Message => ({
+  key: message.key,
+  value: message.value,
+  headers: {
+    ...message.headers,
+    [DEAD_LETTER_HEADERS.SOURCE_TOPIC]: context.sourceTopic,
+    [DEAD_LETTER_HEADERS.SOURCE_PARTITION]: String(context.sourcePartition),
+    [DEAD_LETTER_HEADERS.SOURCE_OFFSET]: context.sourceOffset,
+    [DEAD_LETTER_HEADERS.WORKER]: context.workerName,
+    [DEAD_LETTER_HEADERS.ERROR_TYPE]: context.errorType,
+    [DEAD_LETTER_HEADERS.ERROR_MESSAGE]: context.errorMessage,
+    [DEAD_LETTER_HEADERS.ATTEMPTS]: String(context.attempts),
+    [DEAD_LETTER_HEADERS.RETRY_COUNT]: String(context.retryCount),
+    [DEAD_LETTER_HEADERS.FAILED_AT]: context.failedAt.toISOString()
+  }
+});
+
+/**
+ * Runs a message handler, retrying processing failures, and routes the message to the
+ * dead-letter topic once attempts are exhausted. Parse and validation failures are not
+ * retried since they are deterministic.
+ * @param options - Producer, message source and handler
+ * @returns True if the handler succeeded, false if the message was dead-lettered
+ * @throws Error if the dead-letter publish itself fails, so the offset is not committed
+ */
+export const processWithDeadLetter = async (options: DeadLetterOptions): Promise<boolean> => {
+  const maxAttempts = options.maxAttempts ?? DEAD_LETTER_CONFIG.MAX_PROCESSING_ATTEMPTS;
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    try {
+      await options.handler();
+      return true;
+    } catch (error) {
+      const errorType = classifyError(error as Error);
+      if (errorType === 'PROCESSING_ERROR' && attempts < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, DEAD_LETTER_CONFIG.RETRY_BACKOFF_MS * attempts));
+        continue;
+      }
+
+      await options.producer.send({
+        topic: KAFKA_TOPICS.DEAD_LETTER,
+        messages: [buildDeadLetterMessage(options.message, {
+          sourceTopic: options.topic,
+          sourcePartition: options.partition,
+          sourceOffset: options.message.offset,
+          workerName: options.workerName,
+          errorType,
+          errorMessage: (error as Error).message,
+          retryCount: getRetryCount(options.message.headers),
+          attempts,
+          failedAt: new Date()
+        })]
+      });
+      return false;
+    }
+  }
+};
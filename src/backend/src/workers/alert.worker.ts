@@ -5,7 +5,7 @@
  * @version 1.0.0
  */
 
-import { KafkaConsumer } from 'kafkajs'; // ^2.2.4
+import { KafkaConsumer, Kafka, Producer, KafkaMessage } from 'kafkajs'; // ^2.2.4
 import Redis from 'ioredis'; // ^5.3.2
 import CircuitBreaker from 'opossum'; // ^7.1.0
 
@@ -17,6 +17,17 @@ import { ISensorData } from '../interfaces/sensor.interface';
 import { IAlert } from '../interfaces/alert.interface';
 import { ALERT_BATCH_SIZE, ALERT_REFRESH_INTERVAL } from '../constants/alert.constants';
 import { SYSTEM_TIMEOUTS, PERFORMANCE_THRESHOLDS } from '../constants/system.constants';
+import { processWithDeadLetter, parseMessageValue } from '../utils/dead-letter.util';
+
+const WORKER_NAME = 'alert-worker';
+
+/**
+ * Consumed message paired with its parsed sensor payload
+ */
+interface ParsedMessage {
+  message: KafkaMessage;
+  data: ISensorData;
+}
 
 /**
  * Configuration interface for the alert worker
@@ -41,6 +52,7 @@ interface WorkerConfig {
  */
 export class AlertWorker {
   private readonly kafkaConsumer: KafkaConsumer;
+  private readonly deadLetterProducer: Producer;
   private readonly redisClient: Redis.Cluster;
   private readonly alertService: AlertService;
   private readonly anomalyDetector: AnomalyDetector;
@@ -88,6 +100,12 @@ export class AlertWorker {
       sessionTimeout: this.processingTimeout
     });
 
+    // Producer used to route unprocessable messages to the dead-letter topic
+    this.deadLetterProducer = new Kafka({
+      clientId: config.kafkaConfig.clientId,
+      brokers: config.kafkaConfig.brokers
+    }).producer();
+
     // Configure circuit breaker for fault tolerance
     this.circuitBreaker = new CircuitBreaker(this.processSensorData.bind(this), {
       timeout: PERFORMANCE_THRESHOLDS.MAX_LATENCY_MS,
@@ -106,6 +124,7 @@ export class AlertWorker {
     try {
       this.isRunning = true;
       await this.kafkaConsumer.connect();
+      await this.deadLetterProducer.connect();
       
       // Subscribe to sensor data topics
       await this.kafkaConsumer.subscribe({
@@ -125,10 +144,25 @@ export class AlertWorker {
             // Process messages in optimized batches
             for (let i = 0; i < messages.length; i += this.batchSize) {
               const messageBatch = messages.slice(i, i + this.batchSize);
-              const sensorDataBatch = messageBatch.map(msg => JSON.parse(msg.value.toString()));
+              const parsedMessages = await this.parseMessages(messageBatch, batch.topic, batch.partition);
 
-              // Process batch through circuit breaker
-              await this.circuitBreaker.fire(sensorDataBatch);
+              if (parsedMessages.length > 0) {
+                const completed = new Set<ISensorData>();
+                try {
+                  // Process batch through circuit breaker
+                  await this.circuitBreaker.fire(parsedMessages.map(parsed => parsed.data), completed);
+                } catch (error) {
+                  // An open breaker means downstream is unhealthy, so stop rather than dead-letter
+                  if (error instanceof Error && 'code' in error && error.code === 'EOPENBREAKER') {
+                    throw error;
+                  }
+                  await this.processIndividually(
+                    parsedMessages.filter(parsed => !completed.has(parsed.data)),
+                    batch.topic,
+                    batch.partition
+                  );
+                }
+              }
 
               // Update offsets and send heartbeat
               await resolveOffset(messageBatch[messageBatch.length - 1].offset);
@@ -156,10 +190,71 @@ export class AlertWorker {
     }
   }
 
+  /**
+   * Parses a message batch, dead-lettering messages with malformed payloads
+   */
+  private async parseMessages(
+    messages: KafkaMessage[],
+    topic: string,
+    partition: number
+  ): Promise<ParsedMessage[]> {
+    const parsedMessages: ParsedMessage[] = [];
+
+    for (const message of messages) {
+      await processWithDeadLetter({
+        producer: this.deadLetterProducer,
+        workerName: WORKER_NAME,
+        topic,
+        partition,
+        message,
+        handler: async () => {
+          parsedMessages.push({ message, data: parseMessageValue<ISensorData>(message.value) });
+        }
+      });
+    }
+
+    return parsedMessages;
+  }
+
+  /**
+   * Re-runs the unfinished messages of a failed batch one at a time so only the failing
+   * messages are dead-lettered
+   */
+  private async processIndividually(
+    parsedMessages: ParsedMessage[],
+    topic: string,
+    partition: number
+  ): Promise<void> {
+    for (const { message, data } of parsedMessages) {
+      const processed = await processWithDeadLetter({
+        producer: this.deadLetterProducer,
+        workerName: WORKER_NAME,
+        topic,
+        partition,
+        message,
+        handler: () => this.processSensorData([data])
+      });
+
+      if (!processed) {
+        this.logger.warn('Sensor message dead-lettered', {
+          topic,
+          partition,
+          offset: message.offset
+        });
+      }
+    }
+  }
+
   /**
    * Processes sensor data streams with optimization and monitoring
+   * @param sensorDataBatch - Parsed sensor messages
+   * @param completed - Collects the messages whose alerts were distributed, so a failed batch
+   * is not distributed twice when retried
    */
-  private async processSensorData(sensorDataBatch: ISensorData[]): Promise<void> {
+  private async processSensorData(
+    sensorDataBatch: ISensorData[],
+    completed: Set<ISensorData> = new Set()
+  ): Promise<void> {
     const startTime = Date.now();
     const alerts: IAlert[] = [];
 
@@ -171,17 +266,25 @@ export class AlertWorker {
           this.anomalyDetector.detectAnomalies(sensorData),
           this.thresholdAnalyzer.analyzeBiomechanicalData(sensorData)
         ]);
+        const messageAlerts = [...anomalyAlerts, ...thresholdAlerts];
+        const [firstAlert] = messageAlerts;
 
-        return [...anomalyAlerts, ...thresholdAlerts];
-      });
+        // Distribute alerts through Redis
+        if (firstAlert) {
+          await this.alertService.processIncomingData(firstAlert, firstAlert.sessionId);
+        }
 
-      // Collect all alerts
-      const alertArrays = await Promise.all(processingPromises);
-      alertArrays.forEach(alertArray => alerts.push(...alertArray));
+        completed.add(sensorData);
+        return messageAlerts;
+      });
 
-      // Distribute alerts through Redis
-      if (alerts.length > 0) {
-        await this.alertService.processIncomingData(alerts[0], alerts[0].sessionId);
+      // Wait for every message before failing, so the completed set is final
+      const results = await Promise.allSettled(processingPromises);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          throw result.reason;
+        }
+        alerts.push(...result.value);
       }
 
       // Track processing metrics
@@ -204,6 +307,7 @@ export class AlertWorker {
     try {
       this.isRunning = false;
       await this.kafkaConsumer.disconnect();
+      await this.deadLetterProducer.disconnect();
       await this.redisClient.quit();
       this.logger.info('Alert worker stopped successfully');
     } catch (error) {
@@ -4,26 +4,37 @@
  * @version 1.0.0
  */
 
-import { Kafka, Consumer, Producer } from 'kafkajs'; // v2.2.4
+import { Kafka, Consumer, Producer, IHeaders } from 'kafkajs'; // v2.2.4
 import Bull from 'bull'; // v4.10.4
 import { BiomechanicsAnalyzer } from '../services/analytics/biomechanics.analyzer';
 import { HeatMapGenerator } from '../services/analytics/heatmap.generator';
 import { PerformanceAnalyzer } from '../services/analytics/performance.analyzer';
+import { MovementEventService } from '../services/session/movement.event.service';
+import { TrainingLoadService } from '../services/session/training.load.service';
+import { CustomMetricService } from '../services/session/custom.metric.service';
+import { ThresholdAnalyzer } from '../services/alert/processors/threshold.analyzer';
 import { kafkaConfig } from '../config/kafka.config';
 import { validateSensorData } from '../utils/validation.util';
 import { ISensorData } from '../interfaces/sensor.interface';
 import { ISessionMetrics } from '../interfaces/session.interface';
 import { PERFORMANCE_THRESHOLDS } from '../constants/system.constants';
+import { processWithDeadLetter, parseMessageValue } from '../utils/dead-letter.util';
 
 /**
  * Analytics worker class for real-time sensor data processing
  */
 export class AnalyticsWorker {
+    private static readonly WORKER_NAME = 'analytics-worker';
+
     private kafkaConsumer: Consumer;
     private kafkaProducer: Producer;
     private biomechanicsAnalyzer: BiomechanicsAnalyzer;
     private heatMapGenerator: HeatMapGenerator;
     private performanceAnalyzer: PerformanceAnalyzer;
+    private movementEventService: MovementEventService;
+    private thresholdAnalyzer: ThresholdAnalyzer;
+    private trainingLoadService: TrainingLoadService;
+    private customMetricService: CustomMetricService;
     private analyticsQueue: Bull.Queue;
     private metricsCollector: any;
     private dataCache: Map<string, any>;
@@ -36,7 +47,11 @@ export class AnalyticsWorker {
     constructor(
         biomechanicsAnalyzer: BiomechanicsAnalyzer,
         heatMapGenerator: HeatMapGenerator,
-        performanceAnalyzer: PerformanceAnalyzer
+        performanceAnalyzer: PerformanceAnalyzer,
+        movementEventService: MovementEventService,
+        thresholdAnalyzer: ThresholdAnalyzer,
+        trainingLoadService: TrainingLoadService,
+        customMetricService: CustomMetricService
     ) {
         const kafka = new Kafka(kafkaConfig);
 
@@ -50,6 +65,10 @@ export class AnalyticsWorker {
         this.biomechanicsAnalyzer = biomechanicsAnalyzer;
         this.heatMapGenerator = heatMapGenerator;
         this.performanceAnalyzer = performanceAnalyzer;
+        this.movementEventService = movementEventService;
+        this.thresholdAnalyzer = thresholdAnalyzer;
+        this.trainingLoadService = trainingLoadService;
+        this.customMetricService = customMetricService;
 
         this.analyticsQueue = new Bull('analytics-processing', {
             defaultJobOptions: {
@@ -89,21 +108,28 @@ export class AnalyticsWorker {
                     const startTime = Date.now();
 
                     try {
-                        const messages = batch.messages.map(m => JSON.parse(m.value.toString()));
-                        
-                        // Process messages in parallel with batching
-                        const processingPromises = messages.map(async message => {
-                            try {
-                                await this.processSensorData(message);
-                                resolveOffset(message.offset);
-                                await heartbeat();
-                            } catch (error) {
-                                await this.handleError(error);
-                            }
-                        });
+                        // Process messages in parallel, dead-lettering any that cannot be handled
+                        const processingPromises = batch.messages.map(message =>
+                            processWithDeadLetter({
+                                producer: this.kafkaProducer,
+                                workerName: AnalyticsWorker.WORKER_NAME,
+                                topic: batch.topic,
+                                partition: batch.partition,
+                                message,
+                                handler: () => this.processSensorData(
+                                    this.tagReplay(parseMessageValue<ISensorData>(message.value), message.headers)
+                                )
+                            })
+                        );
 
                         await Promise.all(processingPromises);
 
+                        // Offsets are resolved once every message is processed or dead-lettered
+                        if (batch.messages.length > 0) {
+                            resolveOffset(batch.messages[batch.messages.length - 1]!.offset);
+                            await heartbeat();
+                        }
+
                         // Track processing latency
                         const latency = Date.now() - startTime;
                         this.processingLatencies.push(latency);
@@ -118,7 +144,9 @@ export class AnalyticsWorker {
                             console.warn(`Processing latency exceeded threshold: ${latency}ms`);
                         }
                     } catch (error) {
+                        // Dead-letter publish failed, so leave the batch uncommitted for redelivery
                         await this.handleError(error);
+                        throw error;
                     }
                 }
             });
@@ -155,22 +183,35 @@ export class AnalyticsWorker {
             // Validate incoming data
             await validateSensorData(message);
 
-            // Check cache for recent similar data
-            const cacheKey = `${message.sensorId}_${message.sessionId}`;
+            // Check cache for a redelivery of the same packet. Event segmentation and gait
+            // analysis track every packet of a session, so only exact repeats are skipped.
+            // Replayed packets repeat live ones, so the replay run is part of the key
+            const cacheKey = `${message.sensorId}_${message.replayId ?? message.sessionId}_${message.readings[0]?.timestamp}`;
             const cachedData = this.dataCache.get(cacheKey);
 
             if (cachedData && Date.now() - cachedData.timestamp < 1000) {
                 return; // Skip duplicate processing within 1 second
             }
 
+            const events = await this.movementEventService.ingest(message);
+
             // Process data in parallel
-            const [biomechanicsResults, performanceMetrics] = await Promise.all([
+            const [biomechanicsResults, performanceMetrics, trainingLoads] = await Promise.all([
                 this.biomechanicsAnalyzer.analyzeMuscleActivity(message.readings),
-                this.performanceAnalyzer.analyzeSensorData(message)
+                this.performanceAnalyzer.analyzeSensorData(message, events),
+                this.trainingLoadService.ingest(message)
             ]);
 
-            // Generate heat map
-            await this.heatMapGenerator.updateRealTimeHeatMap(message, {
+            // Team-defined custom metrics are stored alongside the built-in performance indicators
+            const customMetrics = await this.customMetricService.evaluate(message, performanceMetrics);
+            if (customMetrics.length > 0) {
+                performanceMetrics.customMetrics = Object.fromEntries(
+                    customMetrics.map(({ teamId, metrics }) => [teamId, metrics])
+                );
+            }
+
+            // Generate heat map; the live view only shows live data
+            const heatMap = message.replayId ? [] : await this.heatMapGenerator.updateRealTimeHeatMap(message, {
                 transitionDuration: 100,
                 preserveScale: true,
                 updateInterval: 100
@@ -184,11 +225,60 @@ export class AnalyticsWorker {
                     value: JSON.stringify({
                         biomechanics: biomechanicsResults,
                         performance: performanceMetrics,
+                        events,
+                        heatMap,
+                        replayId: message.replayId,
                         timestamp: Date.now()
-                    })
+                    }),
+                    headers: this.replayHeaders(message)
                 }]
             });
 
+            // Landing alerts follow the session's jump analysis rather than single impacts
+            if (performanceMetrics.jumps) {
+                const landingAlerts = await this.thresholdAnalyzer.analyzeLandingQuality(message, performanceMetrics.jumps);
+                if (landingAlerts.length > 0) {
+                    await this.kafkaProducer.send({
+                        topic: kafkaConfig.topics.ALERTS,
+                        messages: landingAlerts.map(alert => ({
+                            key: message.sessionId,
+                            value: JSON.stringify(alert),
+                            headers: this.replayHeaders(message)
+                        }))
+                    });
+                }
+            }
+
+            // Training load alerts follow the athlete's stored loads, evaluated per team band
+            if (trainingLoads.length > 0) {
+                const loadAlerts = await this.thresholdAnalyzer.analyzeTrainingLoad(message, trainingLoads);
+                if (loadAlerts.length > 0) {
+                    await this.kafkaProducer.send({
+                        topic: kafkaConfig.topics.ALERTS,
+                        messages: loadAlerts.map(alert => ({
+                            key: message.sessionId,
+                            value: JSON.stringify(alert),
+                            headers: this.replayHeaders(message)
+                        }))
+                    });
+                }
+            }
+
+            // Custom metric alerts use each team's thresholds
+            if (customMetrics.length > 0) {
+                const customAlerts = await this.thresholdAnalyzer.analyzeCustomMetrics(message, customMetrics);
+                if (customAlerts.length > 0) {
+                    await this.kafkaProducer.send({
+                        topic: kafkaConfig.topics.ALERTS,
+                        messages: customAlerts.map(alert => ({
+                            key: message.sessionId,
+                            value: JSON.stringify(alert),
+                            headers: this.replayHeaders(message)
+                        }))
+                    });
+                }
+            }
+
             // Update cache
             this.dataCache.set(cacheKey, {
                 timestamp: Date.now(),
@@ -203,6 +293,7 @@ export class AnalyticsWorker {
 
         } catch (error) {
             await this.handleError(error);
+            throw error;
         }
 
         // Track processing time
@@ -212,6 +303,21 @@ export class AnalyticsWorker {
         }
     }
 
+    /**
+     * Applies the replay run of a packet published with an x-replay-id header
+     */
+    private tagReplay(data: ISensorData, headers: IHeaders | undefined): ISensorData {
+        const replayId = headers?.['x-replay-id'];
+        return replayId && !data.replayId ? { ...data, replayId: replayId.toString() } : data;
+    }
+
+    /**
+     * Headers marking results of replayed packets, so consumers can keep them apart from live results
+     */
+    private replayHeaders(message: ISensorData): IHeaders {
+        return message.replayId ? { 'x-replay-id': message.replayId } : {};
+    }
+
     /**
      * Enhanced error handling with retry mechanisms
      */
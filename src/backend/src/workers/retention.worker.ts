@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Scheduled worker enforcing tiered data retention
+ * Runs retention on a repeatable queue job so only one instance enforces retention per schedule
+ * @version 1.0.0
+ */
+
+import Bull from 'bull'; // v4.10.4
+
+import { RetentionService } from '../services/retention/retention.service';
+import { Logger } from '../utils/logger.util';
+import { RETENTION_CONFIG } from '../constants/system.constants';
+
+const QUEUE_NAME = 'data-retention';
+const JOB_NAME = 'enforce-retention';
+
+/**
+ * Background worker that periodically compresses, archives and deletes session data
+ */
+export class RetentionWorker {
+  private readonly retentionService: RetentionService;
+  private readonly retentionQueue: Bull.Queue;
+  private readonly logger: Logger;
+
+  constructor(retentionService: RetentionService) {
+    this.retentionService = retentionService;
+    this.logger = new Logger('RetentionWorker', {
+      performanceTracking: true
+    });
+
+    this.retentionQueue = new Bull(QUEUE_NAME, {
+      defaultJobOptions: {
+        attempts: 1,
+        removeOnComplete: 24,
+        removeOnFail: 24
+      }
+    });
+  }
+
+  /**
+   * Registers the retention schedule and starts processing scheduled runs
+   */
+  public async start(): Promise<void> {
+    try {
+      this.retentionQueue.process(JOB_NAME, async () => {
+        const result = await this.retentionService.runRetention();
+
+        if (result.failures.length > 0) {
+          this.logger.warn('Retention run completed with failures', {
+            failures: result.failures
+          });
+        }
+        return result;
+      });
+
+      // A fixed job ID keeps a single repeatable schedule however many instances start
+      await this.retentionQueue.add(JOB_NAME, {}, {
+        jobId: JOB_NAME,
+        repeat: { cron: RETENTION_CONFIG.SCHEDULE_CRON }
+      });
+
+      this.logger.info('Retention worker started successfully', {
+        schedule: RETENTION_CONFIG.SCHEDULE_CRON
+      });
+    } catch (error) {
+      this.logger.error('Failed to start retention worker', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops processing scheduled runs; a run in progress finishes first
+   */
+  public async stop(): Promise<void> {
+    try {
+      await this.retentionQueue.close();
+      this.logger.info('Retention worker stopped successfully');
+    } catch (error) {
+      this.logger.error('Error stopping retention worker', error as Error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Scheduled worker running sensor health checks
+ * Runs health checks on a repeatable queue job so only one instance evaluates sensors per schedule
+ * @version 1.0.0
+ */
+
+import Bull from 'bull'; // v4.10.4
+
+import { SensorHealthService } from '../services/sensor/sensor.health.service';
+import { Logger } from '../utils/logger.util';
+import { SENSOR_HEALTH } from '../constants/sensor.constants';
+
+const QUEUE_NAME = 'sensor-health';
+const JOB_NAME = 'check-sensor-health';
+
+/**
+ * Background worker that periodically scores sensor health and schedules maintenance
+ */
+export class SensorHealthWorker {
+  private readonly healthService: SensorHealthService;
+  private readonly healthQueue: Bull.Queue;
+  private readonly logger: Logger;
+
+  constructor(healthService: SensorHealthService) {
+    this.healthService = healthService;
+    this.logger = new Logger('SensorHealthWorker', {
+      performanceTracking: true
+    });
+
+    this.healthQueue = new Bull(QUEUE_NAME, {
+      defaultJobOptions: {
+        attempts: 1,
+        removeOnComplete: 24,
+        removeOnFail: 24
+      }
+    });
+  }
+
+  /**
+   * Registers the health check schedule and starts processing scheduled checks
+   */
+  public async start(): Promise<void> {
+    try {
+      this.healthQueue.process(JOB_NAME, async () => {
+        const result = await this.healthService.runHealthChecks();
+
+        if (result.failures.length > 0) {
+          this.logger.warn('Sensor health check completed with failures', {
+            failures: result.failures
+          });
+        }
+        return result;
+      });
+
+      // A fixed job ID keeps a single repeatable schedule however many instances start
+      await this.healthQueue.add(JOB_NAME, {}, {
+        jobId: JOB_NAME,
+        repeat: { cron: SENSOR_HEALTH.checkCron }
+      });
+
+      this.logger.info('Sensor health worker started successfully', {
+        schedule: SENSOR_HEALTH.checkCron
+      });
+    } catch (error) {
+      this.logger.error('Failed to start sensor health worker', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops processing scheduled checks; a check in progress finishes first
+   */
+  public async stop(): Promise<void> {
+    try {
+      await this.healthQueue.close();
+      this.logger.info('Sensor health worker stopped successfully');
+    } catch (error) {
+      this.logger.error('Error stopping sensor health worker', error as Error);
+      throw error;
+    }
+  }
+}
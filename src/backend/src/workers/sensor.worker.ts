@@ -15,12 +15,15 @@ import { Registry, Counter, Histogram } from 'prom-client'; // v14.2.0
 import { SensorDataProcessor } from '../services/sensor/data.processor';
 import { ISensorData, ISensorReading } from '../interfaces/sensor.interface';
 import { SENSOR_STATUS_CODES } from '../constants/sensor.constants';
+import { processWithDeadLetter, parseMessageValue } from '../utils/dead-letter.util';
 
 /**
  * Background worker for processing sensor data streams with comprehensive error handling
  */
 @injectable()
 export class SensorWorker {
+    private static readonly WORKER_NAME = 'sensor-worker';
+
     private readonly _dataProcessor: SensorDataProcessor;
     private readonly _producer: Producer;
     private readonly _consumer: Consumer;
@@ -148,22 +151,33 @@ export class SensorWorker {
                 partitionsConsumedConcurrently: 3,
                 eachMessage: async (payload: EachMessagePayload) => {
                     const startTime = Date.now();
-                    try {
-                        const sensorData = JSON.parse(payload.message.value.toString()) as ISensorData;
-                        await this.processDataBatch([sensorData]);
-                        
-                        this._processingLatency.observe(
-                            this.metricsConfig.labels,
-                            Date.now() - startTime
-                        );
-                        this._processedCounter.inc(this.metricsConfig.labels);
-                    } catch (error) {
+
+                    // Messages that cannot be handled are dead-lettered so the partition keeps moving
+                    const processed = await processWithDeadLetter({
+                        producer: this._producer,
+                        workerName: SensorWorker.WORKER_NAME,
+                        topic: payload.topic,
+                        partition: payload.partition,
+                        message: payload.message,
+                        handler: async () => {
+                            const sensorData = parseMessageValue<ISensorData>(payload.message.value);
+                            await this.processDataBatch([sensorData]);
+                        }
+                    });
+
+                    if (!processed) {
                         this._errorCounter.inc({
                             ...this.metricsConfig.labels,
-                            error_type: error.name
+                            error_type: 'DeadLettered'
                         });
-                        throw error;
+                        return;
                     }
+
+                    this._processingLatency.observe(
+                        this.metricsConfig.labels,
+                        Date.now() - startTime
+                    );
+                    this._processedCounter.inc(this.metricsConfig.labels);
                 }
             });
 
@@ -1,6 +1,7 @@
 import { BiomechanicsAnalyzer } from '../../src/services/analytics/biomechanics.analyzer';
 import { PerformanceAnalyzer } from '../../src/services/analytics/performance.analyzer';
 import { HeatMapGenerator } from '../../src/services/analytics/heatmap.generator';
+import { SensorTimeSynchronizer } from '../../src/services/sensor/time.synchronizer';
 import { ISensorData, ISensorCalibrationParams } from '../../src/interfaces/sensor.interface';
 import { ISessionMetrics } from '../../src/interfaces/session.interface';
 import { validateSensorData } from '../../src/utils/validation.util';
@@ -45,7 +46,8 @@ describe('BiomechanicsAnalyzer Integration Tests', () => {
     biomechanicsAnalyzer = new BiomechanicsAnalyzer(
       calibrationParams,
       TEST_CONFIG.samplingWindow,
-      logger
+      logger,
+      new SensorTimeSynchronizer()
     );
   });
 
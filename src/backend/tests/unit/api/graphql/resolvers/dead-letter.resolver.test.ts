@@ -0,0 +1,46 @@
+import { AuthenticationError, ForbiddenError } from 'apollo-server-express';
+
+import { deadLetterResolvers } from '../../../../../src/api/graphql/resolvers/dead-letter.resolver';
+
+const mockLoggerError = jest.fn();
+
+jest.mock('../../../../../src/utils/logger.util', () => ({
+    createLoggerInstance: () => ({ error: (...args: unknown[]) => mockLoggerError(...args) })
+}));
+
+describe('deadLetterResolvers', () => {
+    let mockDeadLetterService: Record<string, jest.Mock>;
+    let context: { user?: { id: string; role: string }; deadLetterService: Record<string, jest.Mock> };
+
+    beforeEach(() => {
+        mockLoggerError.mockReset();
+        mockDeadLetterService = {
+            listMessages: jest.fn(),
+            getMessage: jest.fn(),
+            requeueMessage: jest.fn(),
+            discardMessage: jest.fn()
+        };
+        context = { user: { id: 'admin-1', role: 'ADMIN' }, deadLetterService: mockDeadLetterService };
+    });
+
+    it('should log and rethrow service failures', async () => {
+        const failure = new Error('Dead-letter message dlq-1 not found');
+        mockDeadLetterService.requeueMessage!.mockRejectedValue(failure);
+
+        await expect(deadLetterResolvers.Mutation.requeueDeadLetterMessage(null, { id: 'dlq-1' }, context))
+            .rejects.toBe(failure);
+        expect(mockDeadLetterService.requeueMessage).toHaveBeenCalledWith('dlq-1', 'admin-1');
+        expect(mockLoggerError).toHaveBeenCalledWith('Error re-queueing dead-letter message', failure, { id: 'dlq-1' });
+    });
+
+    it('should reject requests without an authenticated admin', async () => {
+        const coach = { ...context, user: { id: 'coach-1', role: 'COACH' } };
+
+        await expect(deadLetterResolvers.Query.deadLetterMessage(null, { id: 'dlq-1' }, coach))
+            .rejects.toBeInstanceOf(ForbiddenError);
+        await expect(deadLetterResolvers.Query.deadLetterMessages(null, {}, { deadLetterService: mockDeadLetterService }))
+            .rejects.toBeInstanceOf(AuthenticationError);
+        expect(mockDeadLetterService.getMessage).not.toHaveBeenCalled();
+        expect(mockDeadLetterService.listMessages).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,124 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import {
+    SENSOR_FRAME_PROTOCOL,
+    SENSOR_JSON_PROTOCOL,
+    SensorFrame,
+    encodeSensorFrame
+} from '@smart-apparel/sensor-frame';
+
+import { SensorWebSocketHandler } from '../../../../../src/api/websocket/handlers/sensor.handler';
+import { SensorStreamProcessor } from '../../../../../src/services/sensor/stream.processor';
+import { ISensorData } from '../../../../../src/interfaces/sensor.interface';
+import { SENSOR_STATUS_CODES, SENSOR_TYPES } from '../../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../../src/services/sensor/stream.processor', () => ({
+    SensorStreamProcessor: class {}
+}));
+
+describe('SensorWebSocketHandler', () => {
+    const baseTimestamp = 1700000000000;
+
+    let mockStreamProcessor: { processStream: jest.Mock };
+    let handler: SensorWebSocketHandler;
+
+    /**
+     * Client socket that agreed on the given subprotocol during the handshake
+     */
+    const createSocket = (protocol: string) => Object.assign(new EventEmitter(), {
+        protocol,
+        readyState: WebSocket.OPEN,
+        send: jest.fn(),
+        close: jest.fn(),
+        ping: jest.fn()
+    });
+
+    const request = {
+        headers: { 'sec-websocket-protocol': 'token', origin: 'https://app.example.com' },
+        socket: { remoteAddress: '10.0.0.1' }
+    };
+
+    const frame = (sensorType: SensorFrame['sensorType'], confidence: number): SensorFrame => ({
+        sensorId: `${sensorType}-sensor`,
+        sessionId: 'session-1',
+        sensorType,
+        baseTimestamp,
+        dataQuality: 90,
+        readings: [
+            { timestamp: baseTimestamp, value: [1, 2, 3], confidence },
+            { timestamp: baseTimestamp + 5, value: [4, 5, 6], confidence }
+        ]
+    });
+
+    /**
+     * Delivers a message and waits for the handler to process it
+     */
+    const deliver = async (ws: EventEmitter, data: Uint8Array | string): Promise<void> => {
+        ws.emit('message', Buffer.from(data));
+        await new Promise(resolve => setImmediate(resolve));
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        mockStreamProcessor = { processStream: jest.fn().mockResolvedValue(undefined) };
+        handler = new SensorWebSocketHandler(mockStreamProcessor as unknown as SensorStreamProcessor);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('should decode binary frames on connections that agreed on the frame subprotocol', async () => {
+        const ws = createSocket(SENSOR_FRAME_PROTOCOL);
+        await handler.handleConnection(ws as unknown as WebSocket, request);
+
+        const imu = encodeSensorFrame(frame('imu', 0.9));
+        const tof = encodeSensorFrame(frame('tof', 0.5));
+        const message = new Uint8Array(imu.length + tof.length);
+        message.set(imu);
+        message.set(tof, imu.length);
+        await deliver(ws, message);
+
+        const packets: ISensorData[] = mockStreamProcessor.processStream.mock.calls.map(([packet]) => packet);
+        expect(packets.map(packet => packet.sensorId)).toEqual(['imu-sensor', 'tof-sensor']);
+        expect(packets[0]!.readings.map(reading => reading.type)).toEqual([SENSOR_TYPES.IMU, SENSOR_TYPES.IMU]);
+        expect(packets[1]!.readings.map(reading => reading.type)).toEqual([SENSOR_TYPES.TOF, SENSOR_TYPES.TOF]);
+        expect(packets[0]!.readings[0]!.confidence).toBeCloseTo(0.9, 2);
+        expect(packets[1]!.readings[0]!.confidence).toBeCloseTo(0.5, 2);
+        expect(JSON.parse(ws.send.mock.calls[0]![0])).toEqual({
+            type: 'ack',
+            timestamp: baseTimestamp,
+            status: SENSOR_STATUS_CODES.DATA_ACQUISITION_SUCCESS
+        });
+    });
+
+    it('should still accept JSON messages on binary connections', async () => {
+        const ws = createSocket(SENSOR_FRAME_PROTOCOL);
+        await handler.handleConnection(ws as unknown as WebSocket, request);
+
+        const packet = { sensorId: 'imu-sensor', timestamp: baseTimestamp, readings: [] };
+        await deliver(ws, JSON.stringify(packet));
+
+        expect(mockStreamProcessor.processStream).toHaveBeenCalledWith(packet);
+    });
+
+    it('should parse JSON on connections that agreed on the JSON subprotocol and reject frames there', async () => {
+        const ws = createSocket(SENSOR_JSON_PROTOCOL);
+        await handler.handleConnection(ws as unknown as WebSocket, request);
+
+        await deliver(ws, encodeSensorFrame(frame('imu', 0.9)));
+
+        expect(mockStreamProcessor.processStream).not.toHaveBeenCalled();
+        expect(JSON.parse(ws.send.mock.calls[0]![0])).toEqual(expect.objectContaining({
+            type: 'error',
+            code: SENSOR_STATUS_CODES.DATA_ACQUISITION_FAILURE
+        }));
+
+        const packet = { sensorId: 'tof-sensor', timestamp: baseTimestamp, readings: [] };
+        await deliver(ws, JSON.stringify(packet));
+
+        expect(mockStreamProcessor.processStream).toHaveBeenCalledWith(packet);
+    });
+});
@@ -0,0 +1,213 @@
+import { SensorRepository } from '../../../../src/db/repositories/sensor.repository';
+import { SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/models/sensor.model', () => ({
+    SensorModel: {}
+}));
+
+describe('SensorRepository', () => {
+    const sensorId = 'imu-left-shank';
+    const sessionId = '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40';
+    const baseTimestamp = 1700000000000;
+    const MINUTE_MS = 60 * 1000;
+
+    let repository: SensorRepository;
+    let tables: Record<string, unknown[]>;
+    let queries: Array<{ table: string; calls: Array<[string, unknown[]]> }>;
+
+    // Chainable stand-in for a knex query builder that records calls and resolves to the table's rows
+    const createBuilder = (table: string): any => {
+        const calls: Array<[string, unknown[]]> = [];
+        const builder: any = {
+            then: (resolve: any, reject: any) => Promise.resolve(tables[table] ?? []).then(resolve, reject)
+        };
+        ['where', 'andWhere', 'andWhereBetween', 'whereIn', 'andWhereRaw', 'orWhereRaw', 'select', 'orderBy', 'limit', 'sum']
+            .forEach(method => {
+                builder[method] = jest.fn((...args: unknown[]) => {
+                    calls.push([method, args]);
+                    if (typeof args[0] === 'function') {
+                        (args[0] as (inner: any) => void)(builder);
+                    }
+                    return builder;
+                });
+            });
+        queries.push({ table, calls });
+        return builder;
+    };
+
+    const callsOf = (table: string, method: string) =>
+        queries.filter(query => query.table === table)
+            .flatMap(query => query.calls.filter(([name]) => name === method).map(([, args]) => args));
+
+    const createRawRow = (offsetMs: number, readings: unknown[]) => ({
+        id: `row-${offsetMs}`,
+        session_id: sessionId,
+        sensor_id: sensorId,
+        timestamp: new Date(baseTimestamp + offsetMs),
+        readings,
+        metadata: { processingSteps: [] },
+        data_quality: 95
+    });
+
+    beforeEach(() => {
+        tables = {};
+        queries = [];
+
+        const db: any = jest.fn((table: string) => createBuilder(table));
+        const logger: any = { child: () => ({ info: jest.fn(), error: jest.fn() }) };
+
+        repository = new SensorRepository({} as any, logger, db);
+    });
+
+    it('should read raw packets when the range holds fewer packets than the budget', async () => {
+        tables.sensor_data_1s = [{ packets: '150' }];
+        tables.sensor_data = [createRawRow(0, []), createRawRow(5, [])];
+
+        const series = await repository.getSensorData({ sensorId, start: baseTimestamp, end: baseTimestamp + MINUTE_MS });
+
+        expect(series.resolution).toBe('raw');
+        expect(series.bucketMs).toBe(0);
+        expect(series.data.map(packet => packet.timestamp)).toEqual([baseTimestamp, baseTimestamp + 5]);
+        expect(series.truncated).toBe(false);
+    });
+
+    it('should read the finest rollup when raw packets exceed the budget', async () => {
+        tables.sensor_data_1s = [{ packets: '5000' }];
+
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + 10 * MINUTE_MS,
+            maxPoints: 2000
+        });
+
+        expect(series.resolution).toBe('1s');
+        expect(series.bucketMs).toBe(1000);
+    });
+
+    it('should skip rollups whose buckets exceed the budget without counting packets', async () => {
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + 24 * 60 * MINUTE_MS
+        });
+
+        expect(series.resolution).toBe('1m');
+        expect(callsOf('sensor_data_1s', 'sum')).toHaveLength(0);
+    });
+
+    it('should fall back to the coarsest rollup when no resolution fits', async () => {
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + 365 * 24 * 60 * MINUTE_MS,
+            maxPoints: 10
+        });
+
+        expect(series.resolution).toBe('1h');
+    });
+
+    it('should aggregate every reading of a rollup bucket per channel', async () => {
+        tables.sensor_data_1m = [{
+            bucket: new Date(baseTimestamp),
+            session_id: sessionId,
+            sensor_id: sensorId,
+            packet_count: '4',
+            avg_quality: 90,
+            min_quality: 80,
+            max_quality: 98,
+            reading_type: 'imu',
+            confidence_sum: 36,
+            reading_count: 40,
+            metadata: { processingSteps: [] },
+            ch0_sum: 20, ch0_count: 40, ch0_min: -1, ch0_max: 2,
+            ch1_sum: 392, ch1_count: 40, ch1_min: 9.6, ch1_max: 10,
+            ch2_sum: null, ch2_count: 0, ch2_min: null, ch2_max: null
+        }];
+
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + MINUTE_MS,
+            resolution: '1m'
+        });
+
+        const point = series.data[0]!;
+        expect(point.timestamp).toBe(baseTimestamp);
+        expect(point.dataQuality).toBe(90);
+        expect(point.readings).toHaveLength(1);
+        expect(point.readings[0]!.type).toBe('imu');
+        expect(point.readings[0]!.value).toEqual([0.5, 9.8]);
+        expect(point.readings[0]!.confidence).toBeCloseTo(0.9);
+        expect(point.rollup).toEqual({
+            packetCount: 4,
+            readingCount: 40,
+            minQuality: 80,
+            maxQuality: 98,
+            channels: [
+                { channel: 0, avg: 0.5, min: -1, max: 2 },
+                { channel: 1, avg: 9.8, min: 9.6, max: 10 }
+            ]
+        });
+    });
+
+    it('should report truncation when more points match than the budget allows', async () => {
+        tables.sensor_data = [createRawRow(0, []), createRawRow(5, []), createRawRow(10, [])];
+
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + MINUTE_MS,
+            resolution: 'raw',
+            maxPoints: 2
+        });
+
+        expect(callsOf('sensor_data', 'limit')).toEqual([[3]]);
+        expect(series.data).toHaveLength(2);
+        expect(series.truncated).toBe(true);
+    });
+
+    it('should filter raw readings by type and confidence and continue after a cursor', async () => {
+        tables.sensor_data = [createRawRow(5, [
+            { type: SENSOR_TYPES.IMU, value: [1], timestamp: baseTimestamp + 5, confidence: 0.9 },
+            { type: SENSOR_TYPES.IMU, value: [2], timestamp: baseTimestamp + 6, confidence: 0.4 },
+            { type: SENSOR_TYPES.TOF, value: [300], timestamp: baseTimestamp + 5, confidence: 0.9 }
+        ])];
+
+        const series = await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + MINUTE_MS,
+            resolution: 'raw',
+            types: [SENSOR_TYPES.IMU],
+            minConfidence: 0.5,
+            after: baseTimestamp
+        });
+
+        expect(series.data[0]!.readings.map(reading => reading.value)).toEqual([[1]]);
+        expect(callsOf('sensor_data', 'orWhereRaw')).toEqual([['readings @> ?::jsonb', ['[{"type":"imu"}]']]]);
+        expect(callsOf('sensor_data', 'andWhereRaw')[0]![1]).toEqual([0.5]);
+        expect(callsOf('sensor_data', 'andWhere')).toContainEqual(['timestamp', '>', new Date(baseTimestamp)]);
+    });
+
+    it('should filter rollup buckets by reading type and mean confidence', async () => {
+        await repository.getSensorData({
+            sensorId,
+            start: baseTimestamp,
+            end: baseTimestamp + MINUTE_MS,
+            resolution: '1s',
+            types: [SENSOR_TYPES.TOF],
+            minConfidence: 0.8
+        });
+
+        expect(callsOf('sensor_data_1s', 'whereIn')).toEqual([['reading_type', [SENSOR_TYPES.TOF]]]);
+        expect(callsOf('sensor_data_1s', 'andWhereRaw')).toEqual([['confidence_sum >= ? * reading_count', [0.8]]]);
+    });
+
+    it('should reject inverted ranges and invalid point budgets', async () => {
+        await expect(repository.getSensorData({ sensorId, start: baseTimestamp, end: baseTimestamp - 1 }))
+            .rejects.toThrow('Invalid time range');
+        await expect(repository.getSensorData({ sensorId, start: baseTimestamp, end: baseTimestamp, maxPoints: 0 }))
+            .rejects.toThrow('Invalid point budget');
+    });
+});
@@ -0,0 +1,130 @@
+import {
+    extractBaselineFeatures,
+    isInjured,
+    learnBaseline,
+    robustStatistic
+} from '../../../../src/services/analytics/baseline.learning';
+import { IBaselineSample, IInjuryPeriod } from '../../../../src/interfaces/baseline.interface';
+import { ISessionMetrics } from '../../../../src/interfaces/session.interface';
+import { BASELINE_LEARNING } from '../../../../src/constants/sensor.constants';
+
+describe('Baseline learning', () => {
+    const day = 86400000;
+    const learnedAt = new Date('2026-03-31T00:00:00Z');
+
+    /**
+     * Sample of a session with the given features
+     */
+    const sample = (index: number, features: Record<string, number>): IBaselineSample => ({
+        sessionId: `session-${index}`,
+        athleteId: 'athlete-1',
+        startTime: new Date(learnedAt.getTime() - (10 - index) * day),
+        features
+    });
+
+    describe('extractBaselineFeatures', () => {
+        it('reads muscle activity, joint range of motion and segment forces', () => {
+            const metrics = {
+                muscleActivity: { quadriceps: { current: 0.6, baseline: 0.5, variance: 0.1 } },
+                rangeOfMotion: {
+                    left_knee_flexion: { min: 5, max: 120, baseline: 100, reps: [{ rom: 100 }] },
+                    left_hip_flexion: { min: 10, max: 80, baseline: 0, reps: [] }
+                },
+                forceDistribution: { pelvis: { magnitude: 900, direction: 0, balance: 0.52 } }
+            } as unknown as Partial<ISessionMetrics>;
+
+            expect(extractBaselineFeatures(metrics)).toEqual({
+                'muscle:quadriceps': 0.6,
+                'rom:left_knee_flexion:min': 5,
+                'rom:left_knee_flexion:max': 120,
+                'rom:left_knee_flexion:rep': 100,
+                'rom:left_hip_flexion:min': 10,
+                'rom:left_hip_flexion:max': 80,
+                'force:pelvis:magnitude': 900,
+                'force:pelvis:balance': 0.52
+            });
+            expect(extractBaselineFeatures({})).toEqual({});
+        });
+    });
+
+    describe('robustStatistic', () => {
+        it('rejects values far from the median before taking it', () => {
+            const statistic = robustStatistic([10, 11, 9, 10, 12, 8, 100]);
+
+            expect(statistic).toEqual({ median: 10, mad: 1, count: 6, rejected: 1 });
+        });
+
+        it('keeps every value without spread', () => {
+            expect(robustStatistic([4, 4, 4])).toEqual({ median: 4, mad: 0, count: 3, rejected: 0 });
+        });
+    });
+
+    describe('isInjured', () => {
+        const injury = (startDate: string, endDate: string | null): IInjuryPeriod => ({
+            id: 'injury-1',
+            athleteId: 'athlete-1',
+            startDate: new Date(startDate),
+            endDate: endDate ? new Date(endDate) : null,
+            description: 'Hamstring strain',
+            recordedBy: 'physio-1',
+            createdAt: new Date(startDate)
+        });
+
+        it('covers the injury and its return-to-play period', () => {
+            const injuries = [injury('2026-03-01T00:00:00Z', '2026-03-10T00:00:00Z')];
+            const end = Date.parse('2026-03-10T00:00:00Z');
+
+            expect(isInjured(new Date('2026-02-28T23:59:59Z'), injuries)).toBe(false);
+            expect(isInjured(new Date('2026-03-05T00:00:00Z'), injuries)).toBe(true);
+            expect(isInjured(new Date(end + BASELINE_LEARNING.returnToPlayDays * day), injuries)).toBe(true);
+            expect(isInjured(new Date(end + BASELINE_LEARNING.returnToPlayDays * day + 1), injuries)).toBe(false);
+        });
+
+        it('covers everything after the start of an open injury', () => {
+            expect(isInjured(new Date('2027-01-01T00:00:00Z'), [injury('2026-03-01T00:00:00Z', null)])).toBe(true);
+        });
+    });
+
+    describe('learnBaseline', () => {
+        it('maps robust feature medians onto the baseline', () => {
+            const samples = [1, 2, 3, 4, 5].map(index => sample(index, {
+                'muscle:quadriceps': index === 5 ? 5 : 0.5,
+                'rom:left_knee_flexion:min': 5,
+                'rom:left_knee_flexion:max': 120 + index,
+                'rom:left_knee_flexion:rep': 100,
+                'rom:left_hip_flexion:min': 10,
+                'rom:left_hip_flexion:max': 80,
+                'force:pelvis:magnitude': 900,
+                'force:pelvis:balance': 0.5
+            }));
+
+            const { baseline, statistics } = learnBaseline(samples, learnedAt);
+
+            expect(statistics['rom:left_knee_flexion:max']).toEqual({ median: 123, mad: 1, count: 5, rejected: 0 });
+            expect(baseline.lastUpdated).toBe(learnedAt);
+            expect(baseline.muscleProfiles.quadriceps).toEqual({ value: 0.5, timestamp: learnedAt, confidence: 1 });
+            expect(baseline.rangeOfMotion).toEqual({
+                left_knee_flexion: { min: 5, max: 123, optimal: 100, lastMeasured: learnedAt },
+                left_hip_flexion: { min: 10, max: 80, optimal: 70, lastMeasured: learnedAt }
+            });
+            expect(baseline.forceDistribution).toEqual({
+                pelvis: { distribution: 900, symmetry: 0.5, timestamp: learnedAt }
+            });
+        });
+
+        it('lowers confidence for features few sessions measured or that vary', () => {
+            const samples = [
+                sample(1, { 'muscle:quadriceps': 0.4, 'muscle:hamstrings': 0.3 }),
+                sample(2, { 'muscle:quadriceps': 0.5 }),
+                sample(3, { 'muscle:quadriceps': 0.6 }),
+                sample(4, { 'muscle:quadriceps': 0.5 })
+            ];
+
+            const { baseline } = learnBaseline(samples, learnedAt);
+
+            expect(baseline.muscleProfiles.hamstrings!.confidence).toBeCloseTo(0.25, 9);
+            expect(baseline.muscleProfiles.quadriceps!.confidence)
+                .toBeCloseTo(1 / (1 + BASELINE_LEARNING.madScale * 0.05 / 0.5), 9);
+        });
+    });
+});
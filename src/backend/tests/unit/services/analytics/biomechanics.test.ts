@@ -1,6 +1,7 @@
 import { BiomechanicsAnalyzer } from '../../../../src/services/analytics/biomechanics.analyzer';
 import { ISensorData, ISensorCalibrationParams } from '../../../../src/interfaces/sensor.interface';
 import { SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+import { SensorTimeSynchronizer } from '../../../../src/services/sensor/time.synchronizer';
 import * as winston from 'winston'; // v3.10.0
 
 describe('BiomechanicsAnalyzer', () => {
@@ -38,7 +39,8 @@ describe('BiomechanicsAnalyzer', () => {
         biomechanicsAnalyzer = new BiomechanicsAnalyzer(
             mockCalibrationParams,
             100, // sampling window
-            mockLogger
+            mockLogger,
+            new SensorTimeSynchronizer()
         );
 
         // Initialize mock sensor data
@@ -199,7 +201,7 @@ describe('BiomechanicsAnalyzer', () => {
     describe('error handling', () => {
         it('should handle initialization with invalid calibration parameters', () => {
             const invalidParams = { ...mockCalibrationParams, tofGain: 20 }; // Invalid gain value
-            expect(() => new BiomechanicsAnalyzer(invalidParams, 100, mockLogger))
+            expect(() => new BiomechanicsAnalyzer(invalidParams, 100, mockLogger, new SensorTimeSynchronizer()))
                 .toThrow('Invalid calibration parameters');
         });
 
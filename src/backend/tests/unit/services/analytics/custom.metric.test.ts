@@ -0,0 +1,163 @@
+import {
+    CustomMetricFormula,
+    CustomMetricTracker,
+    validateCustomMetrics
+} from '../../../../src/services/analytics/custom.metric';
+import { ISessionMetrics } from '../../../../src/interfaces/session.interface';
+import { CUSTOM_METRICS } from '../../../../src/constants/sensor.constants';
+
+describe('Custom metrics', () => {
+    const metrics = {
+        muscleActivity: {
+            quadriceps: { current: 0.6, baseline: 0.5, variance: 0.02 },
+            hamstrings: { current: 0.3, baseline: 0.4, variance: 0.01 }
+        },
+        forceDistribution: {
+            left_thigh: { magnitude: 420, direction: 0, balance: 0.48 },
+            right_thigh: { magnitude: 380, direction: 0, balance: 0.52 }
+        },
+        rangeOfMotion: {
+            left_knee_flexion: { min: 5, max: 120 },
+            right_knee_flexion: { min: 4, max: 100 }
+        },
+        performanceIndicators: {
+            efficiency: { value: 0.75, trend: 0, threshold: 0.8 }
+        }
+    } as unknown as Partial<ISessionMetrics>;
+
+    /**
+     * Evaluates a formula once against the test metrics
+     */
+    const evaluate = (source: string, input: Partial<ISessionMetrics> = metrics): number | null => {
+        const formula = CustomMetricFormula.parse(source);
+        return formula.evaluate(input, 0, formula.createWindows());
+    };
+
+    describe('CustomMetricFormula', () => {
+        it('evaluates arithmetic with precedence over metric fields', () => {
+            expect(evaluate('muscleActivity.quadriceps.current / muscleActivity.hamstrings.current')).toBeCloseTo(2, 9);
+            expect(evaluate('1 + 2 * 3 ^ 2')).toBe(19);
+            expect(evaluate('-2 ^ 2')).toBe(-4);
+            expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+            expect(evaluate('(1 + 2) * 3 - 10 % 4')).toBe(7);
+            expect(evaluate('.5e1 + 1.5')).toBe(6.5);
+        });
+
+        it('resolves left and right references by side', () => {
+            expect(evaluate('left(rangeOfMotion.knee_flexion.max) - right(rangeOfMotion.knee_flexion.max)')).toBe(20);
+            expect(evaluate('abs(left(forceDistribution.thigh.magnitude) - right(forceDistribution.thigh.magnitude))'))
+                .toBe(40);
+        });
+
+        it('supports comparisons, logic, functions and conditionals', () => {
+            expect(evaluate('performanceIndicators.efficiency.value < 0.8 and not (1 > 2)')).toBe(1);
+            expect(evaluate('0 or 0')).toBe(0);
+            expect(evaluate('if(muscleActivity.quadriceps.current >= 0.5, 10, 20)')).toBe(10);
+            expect(evaluate('clamp(5, 0, 1) + min(3, 1, 2) + max(1, 4) + round(2.4) + sqrt(9)')).toBe(1 + 1 + 4 + 2 + 3);
+        });
+
+        it('has no value for missing fields or non-finite results', () => {
+            expect(evaluate('muscleActivity.calves.current')).toBeNull();
+            expect(evaluate('rangeOfMotion.left_knee_flexion')).toBeNull();
+            expect(evaluate('performanceIndicators.constructor.length')).toBeNull();
+            expect(evaluate('1 / (muscleActivity.quadriceps.current - 0.6)')).toBeNull();
+            expect(evaluate('sqrt(-1)')).toBeNull();
+            // Only the branch taken needs its fields
+            expect(evaluate('if(1, 2, muscleActivity.calves.current)')).toBe(2);
+            expect(evaluate('0 and muscleActivity.calves.current')).toBe(0);
+        });
+
+        it('aggregates expression values over a sliding time window', () => {
+            const formula = CustomMetricFormula.parse('window_avg(performanceIndicators.efficiency.value, 2) + 0 * window_max(muscleActivity.quadriceps.current, 1)');
+            const windows = formula.createWindows();
+            const at = (value: number) => ({ performanceIndicators: { efficiency: { value, trend: 0, threshold: 0 } } }) as unknown as Partial<ISessionMetrics>;
+
+            expect(formula.evaluate(at(1), 0, windows)).toBeNull();
+            expect(windows[0]).toEqual([{ time: 0, value: 1 }]);
+
+            const sum = CustomMetricFormula.parse('window_sum(performanceIndicators.efficiency.value, 2)');
+            const sumWindows = sum.createWindows();
+            expect(sum.evaluate(at(1), 0, sumWindows)).toBe(1);
+            expect(sum.evaluate(at(2), 1000, sumWindows)).toBe(3);
+            expect(sum.evaluate(at(4), 2000, sumWindows)).toBe(7);
+            // The first value falls out of the window
+            expect(sum.evaluate(at(8), 2500, sumWindows)).toBe(14);
+            // Packets without the field leave the window as it is
+            expect(sum.evaluate({}, 3000, sumWindows)).toBe(14);
+
+            const deviation = CustomMetricFormula.parse('window_stddev(performanceIndicators.efficiency.value, 10)');
+            const deviationWindows = deviation.createWindows();
+            deviation.evaluate(at(2), 0, deviationWindows);
+            expect(deviation.evaluate(at(4), 1000, deviationWindows)).toBe(1);
+        });
+
+        it('rejects invalid formulas with the position of the problem', () => {
+            expect(() => CustomMetricFormula.parse('')).toThrow('Formula is required');
+            expect(() => CustomMetricFormula.parse('1 +')).toThrow('Unexpected "end of formula" at position 4');
+            expect(() => CustomMetricFormula.parse('1 $ 2')).toThrow('Unexpected character "$" at position 3');
+            expect(() => CustomMetricFormula.parse('heartRate.value')).toThrow('Unknown field "heartRate" at position 1');
+            expect(() => CustomMetricFormula.parse('muscleActivity')).toThrow('must name a metric');
+            expect(() => CustomMetricFormula.parse('eval(1)')).toThrow('Unknown function "eval"');
+            expect(() => CustomMetricFormula.parse('__proto__(muscleActivity.quadriceps.current, 5)'))
+                .toThrow('Unknown function "__proto__"');
+            expect(() => CustomMetricFormula.parse('constructor(muscleActivity.quadriceps.current, 5)'))
+                .toThrow('Unknown function "constructor"');
+            expect(() => CustomMetricFormula.parse('valueOf(1, 2)')).toThrow('Unknown function "valueOf"');
+            expect(() => CustomMetricFormula.parse('toString(1)')).toThrow('Unknown function "toString"');
+            expect(() => CustomMetricFormula.parse('abs(1, 2)')).toThrow('abs() at position 1 takes 1 argument');
+            expect(() => CustomMetricFormula.parse('left(1)')).toThrow('left() at position 1 takes a field');
+            expect(() => CustomMetricFormula.parse('window_avg(window_sum(jumps.jumpCount, 5), 10)'))
+                .toThrow('cannot be nested');
+            expect(() => CustomMetricFormula.parse(`window_avg(jumps.jumpCount, ${CUSTOM_METRICS.maxWindowSeconds + 1})`))
+                .toThrow('takes a window');
+            expect(() => CustomMetricFormula.parse('(1')).toThrow('Expected ")"');
+            expect(() => CustomMetricFormula.parse(Array(CUSTOM_METRICS.maxFormulaNodes).fill('1').join('+')))
+                .toThrow('at most');
+        });
+    });
+
+    describe('CustomMetricTracker', () => {
+        it('reports the change since the previous value and restarts when the formula changes', () => {
+            const tracker = new CustomMetricTracker();
+            const doubled = CustomMetricFormula.parse('muscleActivity.quadriceps.current * 2');
+
+            expect(tracker.evaluate('team-1:load', doubled, metrics, 0)).toEqual({ value: 1.2, trend: 0 });
+            expect(tracker.evaluate('team-1:load', CustomMetricFormula.parse('muscleActivity.quadriceps.current * 2'), {
+                muscleActivity: { quadriceps: { current: 0.7, baseline: 0, variance: 0 } }
+            } as unknown as Partial<ISessionMetrics>, 100)).toEqual({ value: 1.4, trend: expect.closeTo(0.2, 9) });
+            expect(tracker.evaluate('team-1:load', CustomMetricFormula.parse('1'), metrics, 200)).toEqual({ value: 1, trend: 0 });
+            expect(tracker.evaluate('team-1:missing', CustomMetricFormula.parse('gait.cadence'), metrics, 200)).toBeNull();
+        });
+    });
+
+    describe('validateCustomMetrics', () => {
+        const valid = { enabled: true, formula: 'performanceIndicators.efficiency.value', threshold: 0.8 };
+
+        it('accepts valid definitions and missing settings', () => {
+            expect(() => validateCustomMetrics({ efficiency_floor: { ...valid, direction: 'below' } })).not.toThrow();
+            expect(() => validateCustomMetrics(undefined)).not.toThrow();
+        });
+
+        it('names the metric and its problem', () => {
+            expect(() => validateCustomMetrics({ knee: { ...valid, formula: 'rangeOfMotion.knee +' } }))
+                .toThrow('Custom metric knee: Unexpected "end of formula"');
+            expect(() => validateCustomMetrics({ knee: { ...valid, threshold: 'high' } }))
+                .toThrow('Custom metric knee: threshold must be a finite number');
+            expect(() => validateCustomMetrics({ knee: { ...valid, enabled: 'yes' } }))
+                .toThrow('Custom metric knee: enabled must be a boolean');
+            expect(() => validateCustomMetrics({ knee: { ...valid, direction: 'sideways' } }))
+                .toThrow('Custom metric knee: direction must be one of above, below');
+            expect(() => validateCustomMetrics({ knee: { ...valid, formula: '__proto__(muscleActivity.a.current, 5)' } }))
+                .toThrow('Custom metric knee: Unknown function "__proto__"');
+            expect(() => validateCustomMetrics({ knee: { ...valid, formula: 'constructor(muscleActivity.a.current, 5)' } }))
+                .toThrow('Custom metric knee: Unknown function "constructor"');
+            expect(() => validateCustomMetrics({ '1knee': valid })).toThrow('Custom metric name "1knee"');
+            expect(() => validateCustomMetrics([valid])).toThrow('Custom metrics must be an object');
+
+            const tooMany = Object.fromEntries(
+                Array.from({ length: CUSTOM_METRICS.maxMetricsPerTeam + 1 }, (_, index) => [`metric_${index}`, valid])
+            );
+            expect(() => validateCustomMetrics(tooMany)).toThrow(`at most ${CUSTOM_METRICS.maxMetricsPerTeam} custom metrics`);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { GaitTracker } from '../../../../src/services/analytics/gait.analysis';
+import { MovementEventDetector } from '../../../../src/services/analytics/movement.events';
+import { OrientationFilter } from '../../../../src/services/sensor/orientation.fusion';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { GAIT_ANALYSIS, SENSOR_SIMULATOR, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+describe('GaitTracker', () => {
+    const startTime = 1700000000000;
+    const defaultSlots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+    const calfSlots: IGarmentSlot[] = (['left', 'right'] as const).map(side => ({
+        id: `${side}_calf_tof`,
+        segment: 'shank',
+        side,
+        orientation: { roll: 0, pitch: 0, yaw: 0 },
+        sensorType: SENSOR_TYPES.TOF
+    }));
+
+    /**
+     * Runs simulated running through orientation fusion, stride detection and the tracker
+     */
+    const track = (slots: IGarmentSlot[], seconds: number): GaitTracker => {
+        const packets = new GarmentSimulator({
+            id: 'athlete-1',
+            sessionId: 'session-1',
+            activity: 'running',
+            slots,
+            faults: NO_FAULTS,
+            seed: 5
+        }, startTime).generate(startTime + seconds * 1000);
+
+        const detector = new MovementEventDetector('session-1');
+        const tracker = new GaitTracker();
+        const filters = new Map<string, OrientationFilter>();
+
+        for (const packet of packets) {
+            const slot = slots.find(candidate => simulatorSensorId('athlete-1', candidate.id) === packet.sensorId)!;
+            if (slot.sensorType === SENSOR_TYPES.IMU && !filters.has(packet.sensorId)) {
+                filters.set(packet.sensorId, new OrientationFilter(0.5, slot.orientation));
+            }
+
+            const data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'> = {
+                sensorId: packet.sensorId,
+                readings: packet.readings,
+                metadata: {
+                    ...packet.metadata,
+                    athleteId: 'athlete-1',
+                    placement: {
+                        sensorId: packet.sensorId,
+                        pairingId: 'pairing-1',
+                        templateId: 'template-1',
+                        templateName: 'Simulated garment',
+                        slotId: slot.id,
+                        segment: slot.segment,
+                        side: slot.side,
+                        orientation: slot.orientation,
+                        location: slot.side === 'center' ? slot.segment : `${slot.side}_${slot.segment}`
+                    },
+                    ...(filters.has(packet.sensorId)
+                        ? { orientation: filters.get(packet.sensorId)!.update(packet.readings) }
+                        : {})
+                }
+            };
+            tracker.add(data, slot.sensorType === SENSOR_TYPES.IMU ? detector.add(data) : []);
+        }
+
+        return tracker;
+    };
+
+    it('measures running gait per stride from the leg and pelvis IMUs', () => {
+        const gait = track(defaultSlots, 20).analysis();
+
+        expect(gait.strideCount).toBe(GAIT_ANALYSIS.windowStrides);
+        expect(gait.cadence).toBeGreaterThan(150);
+        expect(gait.cadence).toBeLessThan(190);
+        for (const stride of gait.strides) {
+            expect(stride.contactSource).toBe('imu');
+            expect(stride.flightTimeMs).toBe(Math.max(0, stride.strideTimeMs / 2 - stride.groundContactTimeMs!));
+            expect(stride.verticalOscillationCm).toBeGreaterThan(2);
+            expect(stride.verticalOscillationCm).toBeLessThan(15);
+            expect(stride.strideLengthM).toBeGreaterThan(1);
+            expect(stride.strideLengthM).toBeLessThan(4);
+        }
+
+        // The simulated legs mirror each other
+        expect(gait.contactTimeAsymmetry).toBeLessThan(0.1);
+        expect(gait.strides.map(stride => stride.timestamp))
+            .toEqual([...gait.strides.map(stride => stride.timestamp)].sort((a, b) => a - b));
+    });
+
+    it('takes ground contact from lower-leg load when a ToF sensor covers the stride', () => {
+        const gait = track([...defaultSlots, ...calfSlots], 12).analysis();
+
+        expect(gait.strideCount).toBeGreaterThan(20);
+        const measured = gait.strides.filter(stride => stride.contactSource === 'tof');
+        expect(measured.length).toBeGreaterThan(gait.strideCount - 4);
+        for (const stride of measured) {
+            expect(stride.groundContactTimeMs).toBeGreaterThan(50);
+            expect(stride.groundContactTimeMs).toBeLessThan(stride.strideTimeMs / 2);
+            expect(stride.flightTimeMs).toBeGreaterThan(0);
+        }
+    });
+
+    it('reports gait indicators with trends against the earlier strides', () => {
+        const tracker = track(defaultSlots, 20);
+        const indicators = tracker.indicators();
+        const gait = tracker.analysis();
+
+        expect(Object.keys(indicators).sort()).toEqual(Object.keys(GAIT_ANALYSIS.thresholds).sort());
+        expect(indicators.cadence).toEqual({
+            value: gait.cadence,
+            trend: expect.any(Number),
+            threshold: GAIT_ANALYSIS.thresholds.cadence
+        });
+        // Steady simulated running barely changes over the window
+        for (const indicator of Object.values(indicators)) {
+            expect(Math.abs(indicator.trend)).toBeLessThan(0.05);
+        }
+
+        expect(new GaitTracker().indicators()).toEqual({});
+        expect(new GaitTracker().analysis()).toEqual(expect.objectContaining({ strideCount: 0, cadence: null, strides: [] }));
+    });
+});
@@ -0,0 +1,146 @@
+import {
+    JointKinematicsTracker,
+    computeJointAngles,
+    segmentRepetitions
+} from '../../../../src/services/analytics/joint.kinematics';
+import { OrientationFilter, quaternionFromEuler } from '../../../../src/services/sensor/orientation.fusion';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { IOrientationSample } from '../../../../src/interfaces/sensor.interface';
+import { JOINT_DEFINITIONS, SENSOR_SIMULATOR, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+describe('joint kinematics', () => {
+    const startTime = 1700000000000;
+
+    const sample = (timestamp: number, pitch: number, roll = 0): IOrientationSample => ({
+        timestamp,
+        quaternion: quaternionFromEuler({ roll, pitch, yaw: 0 }),
+        euler: { roll, pitch, yaw: 0 }
+    });
+
+    const series = (angles: number[]) => angles.map((angle, index) => ({ timestamp: startTime + index * 10, angle }));
+
+    describe('computeJointAngles', () => {
+        it('measures flexion from the relative pitch of the segments', () => {
+            const thigh = [sample(startTime, 95), sample(startTime + 5, 40)];
+            const shank = [sample(startTime, -30), sample(startTime + 5, -10)];
+
+            const angles = computeJointAngles(thigh, shank, JOINT_DEFINITIONS.knee_flexion!, 'left');
+
+            expect(angles.map(angle => angle.timestamp)).toEqual([startTime, startTime + 5]);
+            expect(angles[0]!.angle).toBeCloseTo(125, 6);
+            expect(angles[1]!.angle).toBeCloseTo(50, 6);
+        });
+
+        it('mirrors abduction between sides', () => {
+            const pelvis = [sample(startTime, 0)];
+            const thigh = [sample(startTime, 0, 20)];
+
+            const left = computeJointAngles(pelvis, thigh, JOINT_DEFINITIONS.hip_abduction!, 'left');
+            const right = computeJointAngles(pelvis, thigh, JOINT_DEFINITIONS.hip_abduction!, 'right');
+
+            expect(left[0]!.angle).toBeCloseTo(20, 6);
+            expect(right[0]!.angle).toBeCloseTo(-20, 6);
+        });
+
+        it('skips samples without a proximal sample close in time', () => {
+            const pelvis = [sample(startTime, 0), sample(startTime + 100, 0)];
+            const thigh = [sample(startTime + 2, 30), sample(startTime + 50, 30), sample(startTime + 98, 30)];
+
+            const angles = computeJointAngles(pelvis, thigh, JOINT_DEFINITIONS.hip_flexion!, 'right');
+            expect(angles.map(angle => angle.timestamp)).toEqual([startTime + 2, startTime + 98]);
+        });
+    });
+
+    describe('segmentRepetitions', () => {
+        it('measures each completed repetition from trough to trough', () => {
+            const angles = Array.from({ length: 400 }, (_, index) => 5 + 40 * (1 - Math.cos(2 * Math.PI * index / 100)) / 2
+                + (index >= 200 && index < 300 ? 20 * (1 - Math.cos(2 * Math.PI * index / 100)) / 2 : 0));
+
+            const reps = segmentRepetitions(series(angles));
+
+            expect(reps).toHaveLength(4);
+            expect(reps[0]).toEqual(expect.objectContaining({ start: startTime, end: startTime + 1000 }));
+            expect(reps[0]!.rom).toBeCloseTo(40, 1);
+            expect(reps[2]!.rom).toBeCloseTo(60, 1);
+            expect(reps[3]!.max).toBeCloseTo(45, 1);
+        });
+
+        it('skips repetitions in progress at either end and ignores small oscillations', () => {
+            const angles = Array.from({ length: 225 }, (_, index) => 30 + 30 * Math.cos(2 * Math.PI * index / 100));
+            expect(segmentRepetitions(series(angles))).toHaveLength(1);
+
+            expect(segmentRepetitions(series(angles.map(angle => angle / 10)))).toEqual([]);
+        });
+    });
+
+    describe('JointKinematicsTracker', () => {
+        it('reports per-rep range of motion of simulated squats by joint and plane', () => {
+            const slots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+            const packets = new GarmentSimulator({
+                id: 'athlete-1',
+                sessionId: 'session-1',
+                activity: 'squats',
+                slots,
+                faults: NO_FAULTS,
+                seed: 11
+            }, startTime).generate(startTime + 20000);
+
+            const tracker = new JointKinematicsTracker();
+            const filters = new Map<string, OrientationFilter>();
+            for (const slot of slots.filter(candidate => candidate.sensorType === SENSOR_TYPES.IMU)) {
+                filters.set(simulatorSensorId('athlete-1', slot.id), new OrientationFilter(0.5, slot.orientation));
+            }
+
+            for (const packet of packets) {
+                const filter = filters.get(packet.sensorId);
+                if (!filter) {
+                    continue;
+                }
+                const slot = slots.find(candidate => simulatorSensorId('athlete-1', candidate.id) === packet.sensorId)!;
+                tracker.add({
+                    sensorId: packet.sensorId,
+                    metadata: {
+                        ...packet.metadata,
+                        placement: {
+                            sensorId: packet.sensorId,
+                            pairingId: 'pairing-1',
+                            templateId: 'template-1',
+                            templateName: 'Simulated garment',
+                            slotId: slot.id,
+                            segment: slot.segment,
+                            side: slot.side,
+                            orientation: slot.orientation,
+                            location: slot.side === 'center' ? slot.segment : `${slot.side}_${slot.segment}`
+                        },
+                        orientation: filter.update(packet.readings)
+                    }
+                });
+            }
+
+            const rom = tracker.rangeOfMotion();
+
+            expect(Object.keys(rom).sort()).toEqual([
+                'left_hip_abduction',
+                'left_hip_flexion',
+                'left_knee_flexion',
+                'right_hip_abduction',
+                'right_hip_flexion',
+                'right_knee_flexion'
+            ]);
+            expect(rom.left_knee_flexion).toEqual(expect.objectContaining({ joint: 'knee', side: 'left', plane: 'sagittal', movement: 'flexion' }));
+            expect(rom.left_knee_flexion!.reps.length).toBeGreaterThanOrEqual(4);
+            rom.left_knee_flexion!.reps.forEach(rep => {
+                expect(rep.rom).toBeGreaterThan(105);
+                expect(rep.rom).toBeLessThan(145);
+            });
+            expect(rom.right_hip_flexion!.current).toBeGreaterThan(55);
+            expect(rom.right_hip_flexion!.current).toBeLessThan(85);
+            expect(rom.left_hip_abduction!.reps).toEqual([]);
+            expect(Math.abs(rom.left_hip_abduction!.max)).toBeLessThan(5);
+
+            const knee = tracker.jointAngles().find(joint => joint.jointId === 'left_knee_flexion')!;
+            expect(knee.samples.length).toBeGreaterThan(3500);
+        });
+    });
+});
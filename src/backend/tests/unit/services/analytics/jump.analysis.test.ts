@@ -0,0 +1,135 @@
+import { JumpTracker, landingQuality } from '../../../../src/services/analytics/jump.analysis';
+import { MovementEventDetector } from '../../../../src/services/analytics/movement.events';
+import { OrientationFilter } from '../../../../src/services/sensor/orientation.fusion';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { IJump } from '../../../../src/interfaces/jump.interface';
+import { SimulatedActivity } from '../../../../src/interfaces/simulator.interface';
+import { GRAVITY_MS2, JUMP_ANALYSIS, SENSOR_SIMULATOR, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+import { ALERT_THRESHOLDS } from '../../../../src/constants/alert.constants';
+
+describe('JumpTracker', () => {
+    const startTime = 1700000000000;
+    const slots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+
+    /**
+     * Runs a simulated activity through orientation fusion, event detection and the tracker
+     */
+    const track = (activity: SimulatedActivity, seconds: number): { tracker: JumpTracker; measured: IJump[] } => {
+        const packets = new GarmentSimulator({
+            id: 'athlete-1',
+            sessionId: 'session-1',
+            activity,
+            slots,
+            faults: NO_FAULTS,
+            seed: 5
+        }, startTime).generate(startTime + seconds * 1000);
+
+        const detector = new MovementEventDetector('session-1');
+        const tracker = new JumpTracker();
+        const filters = new Map<string, OrientationFilter>();
+        const measured: IJump[] = [];
+
+        for (const packet of packets) {
+            const slot = slots.find(candidate => simulatorSensorId('athlete-1', candidate.id) === packet.sensorId)!;
+            if (slot.sensorType === SENSOR_TYPES.IMU && !filters.has(packet.sensorId)) {
+                filters.set(packet.sensorId, new OrientationFilter(0.5, slot.orientation));
+            }
+
+            const data: Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'> = {
+                sensorId: packet.sensorId,
+                readings: packet.readings,
+                metadata: {
+                    ...packet.metadata,
+                    athleteId: 'athlete-1',
+                    placement: {
+                        sensorId: packet.sensorId,
+                        pairingId: 'pairing-1',
+                        templateId: 'template-1',
+                        templateName: 'Simulated garment',
+                        slotId: slot.id,
+                        segment: slot.segment,
+                        side: slot.side,
+                        orientation: slot.orientation,
+                        location: slot.side === 'center' ? slot.segment : `${slot.side}_${slot.segment}`
+                    },
+                    ...(filters.has(packet.sensorId)
+                        ? { orientation: filters.get(packet.sensorId)!.update(packet.readings) }
+                        : {})
+                }
+            };
+            measured.push(...tracker.add(data, slot.sensorType === SENSOR_TYPES.IMU ? detector.add(data) : []));
+        }
+
+        return { tracker, measured };
+    };
+
+    it('measures take-off and landing of each jump', () => {
+        const { tracker, measured } = track('jumping', 15);
+        const analysis = tracker.analysis();
+
+        expect(measured.length).toBeGreaterThanOrEqual(4);
+        expect(analysis.jumpCount).toBe(measured.length);
+        expect(analysis.jumps).toEqual(measured);
+        expect(analysis.cumulativeLandingLoadBw)
+            .toBeCloseTo(measured.reduce((sum, jump) => sum + jump.landingPeakForceBw!, 0), 6);
+
+        for (const jump of measured) {
+            expect(jump.landing - jump.timestamp).toBe(jump.flightTimeMs);
+            expect(jump.jumpHeightCm).toBeCloseTo(100 * GRAVITY_MS2 * (jump.flightTimeMs / 1000) ** 2 / 8, 6);
+            expect(jump.landingPeakForceBw).toBeGreaterThan(2);
+            expect(jump.landingRfdBwPerS).toBeGreaterThan(20);
+            expect(jump.landingQuality).toBe(landingQuality(jump.landingPeakForceBw, jump.landingRfdBwPerS, jump.kneeValgusDeg));
+        }
+
+        // The first jump's propulsion started before the recording, later ones are fully covered
+        for (const jump of measured.slice(1)) {
+            expect(jump.impulseJumpHeightCm).toBeGreaterThan(10);
+            expect(jump.impulseJumpHeightCm).toBeLessThan(60);
+            // The simulated legs push off and land alike
+            expect(jump.takeOffAsymmetry).toBeLessThan(5);
+            expect(Math.abs(jump.kneeValgusDeg!)).toBeLessThan(5);
+        }
+        expect(measured[0]!.impulseJumpHeightCm).toBeNull();
+    });
+
+    it('reports jump indicators with the landing load against its session limit', () => {
+        const { tracker } = track('jumping', 15);
+        const indicators = tracker.indicators();
+
+        expect(indicators.cumulativeLandingLoadBw).toEqual({
+            value: tracker.analysis().cumulativeLandingLoadBw,
+            trend: 0,
+            threshold: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_LOAD
+        });
+        expect(indicators.jumpHeightCm!.threshold).toBe(JUMP_ANALYSIS.targetJumpHeightCm);
+        expect(indicators.landingQuality).toEqual(expect.objectContaining({
+            value: 100,
+            threshold: ALERT_THRESHOLDS.BIOMECHANICAL.LANDING_QUALITY
+        }));
+        expect(Math.abs(indicators.landingPeakForceBw!.trend)).toBeLessThan(0.05);
+    });
+
+    it('finds no jumps in running', () => {
+        const { tracker, measured } = track('running', 8);
+
+        expect(measured).toEqual([]);
+        expect(tracker.indicators()).toEqual({});
+        expect(tracker.analysis()).toEqual(expect.objectContaining({ jumpCount: 0, cumulativeLandingLoadBw: 0, landingQuality: null }));
+    });
+
+    describe('landingQuality', () => {
+        const { LANDING_FORCE, LANDING_RFD, KNEE_VALGUS } = ALERT_THRESHOLDS.BIOMECHANICAL;
+
+        it('scores landings within every limit as 100', () => {
+            expect(landingQuality(LANDING_FORCE, LANDING_RFD / 2, 0)).toBe(100);
+        });
+
+        it('scores each factor over its limit by limit over value', () => {
+            expect(landingQuality(2 * LANDING_FORCE, LANDING_RFD, KNEE_VALGUS)).toBeCloseTo(100 * (0.5 + 1 + 1) / 3, 6);
+            expect(landingQuality(null, 4 * LANDING_RFD, null)).toBeCloseTo(25, 6);
+            expect(landingQuality(null, null, null)).toBeNull();
+        });
+    });
+});
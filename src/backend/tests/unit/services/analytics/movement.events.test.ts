@@ -0,0 +1,124 @@
+import { MovementEventDetector, DetectedMovementEvent } from '../../../../src/services/analytics/movement.events';
+import { OrientationFilter } from '../../../../src/services/sensor/orientation.fusion';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { SimulatedActivity } from '../../../../src/interfaces/simulator.interface';
+import { SENSOR_SIMULATOR, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+describe('MovementEventDetector', () => {
+    const startTime = 1700000000000;
+    const slots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+
+    /**
+     * Runs a simulated activity through orientation fusion and the detector
+     */
+    const detect = (activity: SimulatedActivity, seconds: number): DetectedMovementEvent[] => {
+        const packets = new GarmentSimulator({
+            id: 'athlete-1',
+            sessionId: 'session-1',
+            activity,
+            slots,
+            faults: NO_FAULTS,
+            seed: 5
+        }, startTime).generate(startTime + seconds * 1000);
+
+        const detector = new MovementEventDetector('session-1');
+        const filters = new Map<string, OrientationFilter>();
+        const events: DetectedMovementEvent[] = [];
+
+        for (const packet of packets) {
+            const slot = slots.find(candidate => simulatorSensorId('athlete-1', candidate.id) === packet.sensorId)!;
+            if (slot.sensorType !== SENSOR_TYPES.IMU) {
+                continue;
+            }
+            if (!filters.has(packet.sensorId)) {
+                filters.set(packet.sensorId, new OrientationFilter(0.5, slot.orientation));
+            }
+
+            events.push(...detector.add({
+                sensorId: packet.sensorId,
+                readings: packet.readings,
+                metadata: {
+                    ...packet.metadata,
+                    athleteId: 'athlete-1',
+                    placement: {
+                        sensorId: packet.sensorId,
+                        pairingId: 'pairing-1',
+                        templateId: 'template-1',
+                        templateName: 'Simulated garment',
+                        slotId: slot.id,
+                        segment: slot.segment,
+                        side: slot.side,
+                        orientation: slot.orientation,
+                        location: slot.side === 'center' ? slot.segment : `${slot.side}_${slot.segment}`
+                    },
+                    orientation: filters.get(packet.sensorId)!.update(packet.readings)
+                }
+            }));
+        }
+
+        return events;
+    };
+
+    it('cuts running into strides per leg at foot strikes', () => {
+        const events = detect('running', 10);
+        const strides = events.filter(event => event.type === 'stride');
+
+        expect(events.filter(event => event.type !== 'stride')).toEqual([]);
+        const left = strides.filter(stride => stride.side === 'left');
+        const right = strides.filter(stride => stride.side === 'right');
+        expect(left.length).toBeGreaterThanOrEqual(11);
+        expect(right.length).toBeGreaterThanOrEqual(11);
+
+        for (const stride of strides) {
+            expect(stride).toEqual(expect.objectContaining({ sessionId: 'session-1', athleteId: 'athlete-1' }));
+            expect(stride.endTime - stride.startTime).toBe(stride.metrics.strideTimeMs);
+            expect(stride.metrics.cadence).toBeGreaterThan(150);
+            expect(stride.metrics.cadence).toBeLessThan(190);
+            expect(stride.metrics.peakImpactG).toBeGreaterThan(2);
+            expect(stride.phases.toeOff).toBeGreaterThan(stride.phases.footStrike!);
+            expect(stride.phases.toeOff).toBeLessThan(stride.phases.nextFootStrike!);
+            expect(stride.metrics.contactTimeMs! + stride.metrics.swingTimeMs!).toBe(stride.metrics.strideTimeMs);
+        }
+
+        // Legs strike half a stride apart
+        const offset = right.find(stride => stride.startTime > left[0]!.startTime)!.startTime - left[0]!.startTime;
+        expect(offset / left[0]!.metrics.strideTimeMs!).toBeCloseTo(0.5, 1);
+    });
+
+    it('detects jumps from the free fall of the pelvis sensor', () => {
+        const events = detect('jumping', 15);
+        const jumps = events.filter(event => event.type === 'jump');
+
+        expect(events.filter(event => event.type !== 'jump')).toEqual([]);
+        expect(jumps.length).toBeGreaterThanOrEqual(4);
+        for (const jump of jumps) {
+            expect(jump.side).toBeNull();
+            expect(jump.source).toBe(simulatorSensorId('athlete-1', 'pelvis_back'));
+            expect(jump.metrics.flightTimeMs).toBeGreaterThan(350);
+            expect(jump.metrics.flightTimeMs).toBeLessThan(500);
+            expect(jump.metrics.jumpHeightCm).toBeCloseTo(100 * 9.81 * (jump.metrics.flightTimeMs! / 1000) ** 2 / 8, 6);
+            expect(jump.metrics.landingPeakG).toBeGreaterThan(2);
+        }
+    });
+
+    it('splits squats into eccentric and concentric phases', () => {
+        const reps = detect('squats', 22).filter(event => event.type === 'rep');
+
+        expect(reps.length).toBeGreaterThanOrEqual(4);
+        expect(new Set(reps.map(rep => rep.startTime)).size).toBe(reps.length);
+        for (const rep of reps) {
+            expect(rep.source).toBe(`${rep.side}_knee_flexion`);
+            expect(rep.metrics.romDeg).toBeGreaterThan(105);
+            expect(rep.phases.eccentricStart).toBe(rep.startTime);
+            expect(rep.phases.concentricEnd).toBe(rep.endTime);
+            expect(rep.metrics.eccentricMs! + rep.metrics.concentricMs!).toBe(rep.endTime - rep.startTime);
+        }
+
+        // The first repetition starts from the standing pose the recording began in
+        for (const rep of reps.slice(1)) {
+            expect(rep.metrics.eccentricMs! / (rep.endTime - rep.startTime)).toBeCloseTo(0.5, 1);
+            expect(rep.metrics.concentricVelocity).toBeCloseTo(rep.metrics.romDeg! / (rep.metrics.concentricMs! / 1000), 6);
+        }
+    });
+});
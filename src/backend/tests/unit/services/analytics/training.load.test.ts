@@ -0,0 +1,184 @@
+import { SessionLoadTracker, computeTrainingLoad, dayKey } from '../../../../src/services/analytics/training.load';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { IDailyLoad, ITeamTrainingLoadSettings } from '../../../../src/interfaces/load.interface';
+import { SimulatedActivity } from '../../../../src/interfaces/simulator.interface';
+import { GRAVITY_MS2, SENSOR_SIMULATOR, SENSOR_TYPES, TRAINING_LOAD } from '../../../../src/constants/sensor.constants';
+
+describe('Training load', () => {
+    const startTime = 1700000000000;
+    const slots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+
+    describe('SessionLoadTracker', () => {
+        /**
+         * Runs a simulated activity through the tracker
+         */
+        const track = (activity: SimulatedActivity, seconds: number): SessionLoadTracker => {
+            const packets = new GarmentSimulator({
+                id: 'athlete-1',
+                sessionId: 'session-1',
+                activity,
+                slots,
+                faults: NO_FAULTS,
+                seed: 5
+            }, startTime).generate(startTime + seconds * 1000);
+
+            const tracker = new SessionLoadTracker();
+            for (const packet of packets) {
+                const slot = slots.find(candidate => simulatorSensorId('athlete-1', candidate.id) === packet.sensorId)!;
+                tracker.add({
+                    sensorId: packet.sensorId,
+                    readings: packet.readings,
+                    metadata: {
+                        ...packet.metadata,
+                        placement: {
+                            sensorId: packet.sensorId,
+                            pairingId: 'pairing-1',
+                            templateId: 'template-1',
+                            templateName: 'Simulated garment',
+                            slotId: slot.id,
+                            segment: slot.segment,
+                            side: slot.side,
+                            orientation: slot.orientation,
+                            location: slot.side === 'center' ? slot.segment : `${slot.side}_${slot.segment}`
+                        }
+                    }
+                });
+            }
+            return tracker;
+        };
+
+        /**
+         * Packet of a trunk IMU with one reading per acceleration vector in m/s²
+         */
+        const trunkPacket = (timestamps: number[], accels: number[][]): Pick<ISensorData, 'sensorId' | 'readings' | 'metadata'> => ({
+            sensorId: 'trunk-imu',
+            readings: timestamps.map((timestamp, index) => ({
+                type: SENSOR_TYPES.IMU,
+                value: [...accels[index]!, 0, 0, 0],
+                timestamp,
+                confidence: 1,
+                rawData: Buffer.alloc(0)
+            })),
+            metadata: { placement: { segment: 'trunk', side: 'center' } } as unknown as ISensorData['metadata']
+        });
+
+        it('accumulates the pelvis load of a session, more for running than squats', () => {
+            const running = track('running', 10).snapshot()!;
+            const squats = track('squats', 10).snapshot()!;
+
+            expect(running.sourceSensorId).toBe(simulatorSensorId('athlete-1', 'pelvis_back'));
+            expect(running.startTime).toBeGreaterThanOrEqual(startTime);
+            expect(running.endTime).toBeGreaterThan(startTime + 9000);
+            expect(running.load).toBeGreaterThan(0);
+            expect(running.load).toBeGreaterThan(2 * squats.load);
+        });
+
+        it('sums acceleration changes in g and skips pairs across a dropout', () => {
+            const tracker = new SessionLoadTracker();
+            const g = GRAVITY_MS2;
+
+            expect(tracker.add(trunkPacket([0, 10, 20], [[0, 0, g], [3 * g, 4 * g, g], [3 * g, 4 * g, g]])))
+                .toBeCloseTo(TRAINING_LOAD.loadScale * 5, 9);
+            // The next sample follows a dropout, so only the change after it counts
+            expect(tracker.add(trunkPacket([20 + TRAINING_LOAD.maxSampleGapMs + 1, 300], [[0, 0, 0], [0, 0, 2 * g]])))
+                .toBe(0);
+            expect(tracker.add(trunkPacket([310], [[0, 0, 0]]))).toBeCloseTo(TRAINING_LOAD.loadScale * 2, 9);
+            expect(tracker.add({ ...trunkPacket([320], [[g, 0, 0]]), sensorId: 'other-imu' })).toBe(0);
+
+            expect(tracker.snapshot()).toEqual({
+                startTime: 0,
+                endTime: 310,
+                load: expect.closeTo(TRAINING_LOAD.loadScale * 7, 9),
+                sourceSensorId: 'trunk-imu'
+            });
+            expect(new SessionLoadTracker().snapshot()).toBeNull();
+        });
+    });
+
+    describe('computeTrainingLoad', () => {
+        const asOf = '2026-03-31';
+        const settings = (model: 'ewma' | 'rolling', coupling: 'coupled' | 'uncoupled'): ITeamTrainingLoadSettings => ({
+            model,
+            coupling,
+            acwrBand: { lower: 0.8, upper: 1.3 }
+        });
+
+        /**
+         * Daily loads ending on asOf, oldest first
+         */
+        const daily = (loads: number[]): IDailyLoad[] => loads.map((load, index) => ({
+            date: dayKey(Date.parse(`${asOf}T00:00:00Z`) - (loads.length - 1 - index) * 86400000),
+            load
+        }));
+
+        it('keeps ACWR at 1 for a steady load', () => {
+            const steady = daily(Array(TRAINING_LOAD.historyDays).fill(100));
+
+            for (const coupling of ['coupled', 'uncoupled'] as const) {
+                const rolling = computeTrainingLoad('athlete-1', steady, asOf, settings('rolling', coupling));
+                expect(rolling.acuteLoad).toBeCloseTo(100, 9);
+                expect(rolling.chronicLoad).toBeCloseTo(100, 9);
+                expect(rolling.acwr).toBeCloseTo(1, 9);
+
+                const ewma = computeTrainingLoad('athlete-1', steady, asOf, settings('ewma', coupling));
+                expect(ewma.acwr).toBeCloseTo(1, 3);
+            }
+
+            const load = computeTrainingLoad('athlete-1', steady, asOf, settings('rolling', 'coupled'));
+            expect(load.weeklyLoad).toBe(700);
+            expect(load.monotony).toBeNull();
+            expect(load.strain).toBeNull();
+            expect(load.historyDays).toBe(TRAINING_LOAD.historyDays);
+            expect(load.series).toHaveLength(TRAINING_LOAD.seriesDays);
+            expect(load.series[load.series.length - 1]!.date).toBe(asOf);
+        });
+
+        it('excludes the acute week from the uncoupled chronic load', () => {
+            const spike = daily([...Array(35).fill(100), ...Array(7).fill(200)]);
+
+            const uncoupled = computeTrainingLoad('athlete-1', spike, asOf, settings('rolling', 'uncoupled'));
+            expect(uncoupled.acuteLoad).toBeCloseTo(200, 9);
+            expect(uncoupled.chronicLoad).toBeCloseTo(100, 9);
+            expect(uncoupled.acwr).toBeCloseTo(2, 9);
+
+            const coupled = computeTrainingLoad('athlete-1', spike, asOf, settings('rolling', 'coupled'));
+            expect(coupled.chronicLoad).toBeCloseTo((21 * 100 + 7 * 200) / 28, 9);
+            expect(coupled.acwr).toBeCloseTo(200 / 125, 9);
+        });
+
+        it('weights recent days exponentially and lags the uncoupled chronic EWMA by a week', () => {
+            const loads = [300, 0, 150, 0, 0, 450, 0, 200, 100, 0, 0];
+            const ewma = (days: number, count: number) => loads.slice(0, count)
+                .reduce((average, load) => average + 2 / (days + 1) * (load - average), 0);
+
+            const coupled = computeTrainingLoad('athlete-1', daily(loads), asOf, settings('ewma', 'coupled'));
+            expect(coupled.acuteLoad).toBeCloseTo(ewma(7, loads.length), 9);
+            expect(coupled.chronicLoad).toBeCloseTo(ewma(28, loads.length), 9);
+
+            const uncoupled = computeTrainingLoad('athlete-1', daily(loads), asOf, settings('ewma', 'uncoupled'));
+            expect(uncoupled.chronicLoad).toBeCloseTo(ewma(28, loads.length - 7), 9);
+            expect(uncoupled.acwr).toBeCloseTo(ewma(7, loads.length) / ewma(28, loads.length - 7), 9);
+            expect(uncoupled.historyDays).toBe(loads.length);
+        });
+
+        it('computes monotony and strain over the last week', () => {
+            const week = [100, 0, 100, 0, 100, 0, 100];
+            const load = computeTrainingLoad('athlete-1', daily(week), asOf, settings('rolling', 'coupled'));
+            const mean = 400 / 7;
+            const deviation = Math.sqrt(week.reduce((sum, value) => sum + (value - mean) ** 2, 0) / 7);
+
+            expect(load.weeklyLoad).toBe(400);
+            expect(load.monotony).toBeCloseTo(mean / deviation, 9);
+            expect(load.strain).toBeCloseTo(400 * mean / deviation, 9);
+        });
+
+        it('reports no ratio without load', () => {
+            const load = computeTrainingLoad('athlete-1', [], asOf, settings('ewma', 'uncoupled'));
+
+            expect(load).toEqual(expect.objectContaining({ acuteLoad: 0, chronicLoad: 0, acwr: null, historyDays: 0, weeklyLoad: 0 }));
+            expect(load.series.every(day => day.load === 0 && day.acwr === null)).toBe(true);
+        });
+    });
+});
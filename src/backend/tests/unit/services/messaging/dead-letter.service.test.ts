@@ -0,0 +1,182 @@
+import { DeadLetterService } from '../../../../src/services/messaging/dead-letter.service';
+import { IDeadLetterMessage } from '../../../../src/interfaces/dead-letter.interface';
+import { DEAD_LETTER_HEADERS } from '../../../../src/utils/dead-letter.util';
+
+jest.mock('../../../../src/config/kafka.config', () => ({
+    KAFKA_TOPICS: { DEAD_LETTER: 'sensor-dead-letter' }
+}));
+jest.mock('../../../../src/db/repositories/dead-letter.repository', () => ({
+    DeadLetterRepository: jest.fn()
+}));
+
+describe('DeadLetterService', () => {
+    let deadLetterService: DeadLetterService;
+    let stored: IDeadLetterMessage;
+    let mockRepository: Record<string, jest.Mock>;
+    let mockProducer: { connect: jest.Mock; disconnect: jest.Mock; send: jest.Mock };
+    let mockConsumer: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    beforeEach(() => {
+        stored = {
+            id: 'dlq-1',
+            sourceTopic: 'sensor-data',
+            sourcePartition: 2,
+            sourceOffset: '1042',
+            workerName: 'sensor-worker',
+            errorType: 'PARSE_ERROR',
+            errorMessage: 'Message payload is not valid JSON',
+            retryCount: 0,
+            attempts: 1,
+            failedAt: new Date('2024-01-01T00:00:00Z'),
+            key: 'imu-left-shank',
+            payload: '{"sensorId":',
+            headers: { 'x-correlation-id': 'abc' },
+            status: 'PENDING',
+            resolvedBy: null,
+            resolvedAt: null,
+            discardReason: null
+        };
+
+        mockRepository = {
+            recordMessage: jest.fn().mockResolvedValue(true),
+            listMessages: jest.fn().mockResolvedValue({ messages: [stored], total: 1 }),
+            getMessage: jest.fn(async (id: string) => (id === stored.id ? stored : null)),
+            resolveMessage: jest.fn(async (_id, status, resolvedBy, discardReason) => ({
+                ...stored,
+                status,
+                resolvedBy,
+                resolvedAt: new Date(),
+                discardReason
+            })),
+            reopenMessage: jest.fn().mockResolvedValue(true)
+        };
+        mockProducer = {
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            send: jest.fn().mockResolvedValue(undefined)
+        };
+        mockConsumer = {
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            subscribe: jest.fn(),
+            run: jest.fn()
+        };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        deadLetterService = new DeadLetterService(
+            mockRepository as any,
+            mockProducer as any,
+            mockConsumer as any,
+            mockLogger as any
+        );
+    });
+
+    it('should store dead-letter topic messages with their failure context', async () => {
+        await deadLetterService.storeMessage({
+            key: Buffer.from('imu-left-shank'),
+            value: Buffer.from('{"sensorId":'),
+            offset: '7',
+            timestamp: '1700000000000',
+            attributes: 0,
+            headers: {
+                'x-correlation-id': Buffer.from('abc'),
+                [DEAD_LETTER_HEADERS.SOURCE_TOPIC]: Buffer.from('sensor-data'),
+                [DEAD_LETTER_HEADERS.SOURCE_PARTITION]: Buffer.from('2'),
+                [DEAD_LETTER_HEADERS.SOURCE_OFFSET]: Buffer.from('1042'),
+                [DEAD_LETTER_HEADERS.WORKER]: Buffer.from('sensor-worker'),
+                [DEAD_LETTER_HEADERS.ERROR_TYPE]: Buffer.from('PARSE_ERROR'),
+                [DEAD_LETTER_HEADERS.ERROR_MESSAGE]: Buffer.from('Message payload is not valid JSON'),
+                [DEAD_LETTER_HEADERS.ATTEMPTS]: Buffer.from('1'),
+                [DEAD_LETTER_HEADERS.RETRY_COUNT]: Buffer.from('0'),
+                [DEAD_LETTER_HEADERS.FAILED_AT]: Buffer.from('2024-01-01T00:00:00.000Z')
+            }
+        });
+
+        expect(mockRepository.recordMessage).toHaveBeenCalledWith({
+            sourceTopic: 'sensor-data',
+            sourcePartition: 2,
+            sourceOffset: '1042',
+            workerName: 'sensor-worker',
+            errorType: 'PARSE_ERROR',
+            errorMessage: 'Message payload is not valid JSON',
+            retryCount: 0,
+            attempts: 1,
+            failedAt: new Date('2024-01-01T00:00:00Z'),
+            key: 'imu-left-shank',
+            payload: '{"sensorId":',
+            headers: { 'x-correlation-id': 'abc' }
+        });
+    });
+
+    it('should re-queue a message to its source topic with an incremented retry count', async () => {
+        const result = await deadLetterService.requeueMessage(stored.id, 'admin-1');
+
+        expect(mockProducer.send).toHaveBeenCalledWith({
+            topic: 'sensor-data',
+            messages: [{
+                key: 'imu-left-shank',
+                value: '{"sensorId":',
+                headers: {
+                    'x-correlation-id': 'abc',
+                    [DEAD_LETTER_HEADERS.RETRY_COUNT]: '1'
+                }
+            }]
+        });
+        expect(mockRepository.resolveMessage).toHaveBeenCalledWith(stored.id, 'REQUEUED', 'admin-1', null);
+        expect(result.status).toBe('REQUEUED');
+    });
+
+    it('should refuse to re-queue past the retry limit', async () => {
+        stored = { ...stored, retryCount: 5 };
+
+        await expect(deadLetterService.requeueMessage(stored.id, 'admin-1'))
+            .rejects.toThrow('has reached the re-queue limit of 5');
+        expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    it('should not publish a message another request already claimed', async () => {
+        mockRepository.resolveMessage!.mockResolvedValue(null);
+
+        await expect(deadLetterService.requeueMessage(stored.id, 'admin-1'))
+            .rejects.toThrow('was resolved by another request');
+        expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    it('should return the message to pending when publishing fails', async () => {
+        mockProducer.send.mockRejectedValue(new Error('broker unavailable'));
+
+        await expect(deadLetterService.requeueMessage(stored.id, 'admin-1')).rejects.toThrow('broker unavailable');
+        expect(mockRepository.resolveMessage).toHaveBeenCalledWith(stored.id, 'REQUEUED', 'admin-1', null);
+        expect(mockRepository.reopenMessage).toHaveBeenCalledWith(stored.id);
+    });
+
+    it('should discard a message with a reason', async () => {
+        const result = await deadLetterService.discardMessage(stored.id, 'admin-1', 'firmware bug, fixed in 2.1');
+
+        expect(mockRepository.resolveMessage)
+            .toHaveBeenCalledWith(stored.id, 'DISCARDED', 'admin-1', 'firmware bug, fixed in 2.1');
+        expect(result.discardReason).toBe('firmware bug, fixed in 2.1');
+        expect(mockProducer.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject actions on resolved or unknown messages', async () => {
+        await expect(deadLetterService.getMessage('missing')).rejects.toThrow('Dead-letter message missing not found');
+
+        stored = { ...stored, status: 'DISCARDED' };
+        await expect(deadLetterService.requeueMessage(stored.id, 'admin-1')).rejects.toThrow('is already discarded');
+
+        stored = { ...stored, status: 'PENDING' };
+        mockRepository.resolveMessage!.mockResolvedValue(null);
+        await expect(deadLetterService.discardMessage(stored.id, 'admin-1'))
+            .rejects.toThrow('was resolved by another request');
+    });
+
+    it('should validate pagination options', async () => {
+        await expect(deadLetterService.listMessages({ limit: 0 })).rejects.toThrow('Limit must be a positive integer');
+        await expect(deadLetterService.listMessages({ offset: -1 })).rejects.toThrow('Offset must be a non-negative integer');
+
+        const result = await deadLetterService.listMessages({ status: 'PENDING' });
+        expect(result.total).toBe(1);
+    });
+});
@@ -0,0 +1,206 @@
+import { Readable } from 'stream';
+
+import { RetentionService } from '../../../../src/services/retention/retention.service';
+import {
+    IArchiveRecord,
+    IRetentionCandidate,
+    ISessionRetention
+} from '../../../../src/interfaces/retention.interface';
+import { RETENTION_CONFIG } from '../../../../src/constants/system.constants';
+
+jest.mock('../../../../src/db/repositories/retention.repository', () => ({
+    RetentionRepository: jest.fn()
+}));
+
+describe('RetentionService', () => {
+    const sessionId = '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40';
+    const now = new Date('2024-06-01T00:00:00Z');
+
+    let retentionService: RetentionService;
+    let archives: Map<string, Buffer>;
+    let restoredRecords: IArchiveRecord[][];
+    let mockRepository: Record<string, jest.Mock>;
+    let mockStore: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const records: IArchiveRecord[][] = [
+        [{ table: 'sessions', row: { id: sessionId, type: 'sprint' } }],
+        [
+            { table: 'sensor_data', row: { id: 'd1', readings: [{ type: 'imu', value: [0.1, 9.8] }] } },
+            { table: 'sensor_data', row: { id: 'd2', readings: [{ type: 'imu', value: [0.2, 9.7] }] } }
+        ],
+        [{ table: 'alerts', row: { id: 'a1', message: 'Asymmetry détectée' } }]
+    ];
+
+    const createRetention = (overrides: Partial<ISessionRetention> = {}): ISessionRetention => ({
+        sessionId,
+        endTime: new Date('2024-03-01T10:00:00Z'),
+        storageTier: 'hot',
+        archiveKey: null,
+        archivedAt: null,
+        restoredUntil: null,
+        policy: { hotDays: 7, warmDays: 30, coldYears: 5 },
+        ...overrides
+    });
+
+    const createCandidate = (overrides: Partial<IRetentionCandidate> = {}): IRetentionCandidate => ({
+        ...createRetention(),
+        action: 'archive',
+        ...overrides
+    });
+
+    beforeEach(() => {
+        archives = new Map();
+        restoredRecords = [];
+
+        mockRepository = {
+            getCompressionHorizonDays: jest.fn().mockResolvedValue(7),
+            compressSensorData: jest.fn().mockResolvedValue(2),
+            findRetentionCandidates: jest.fn().mockResolvedValue([]),
+            getSessionRetention: jest.fn().mockResolvedValue(createRetention()),
+            streamArchiveRecords: jest.fn(async function* () {
+                yield* records;
+            }),
+            archiveSession: jest.fn().mockResolvedValue({ sensor_data: 2, alerts: 1 }),
+            restoreSession: jest.fn(async (_id, batches: AsyncIterable<IArchiveRecord[]>) => {
+                for await (const batch of batches) {
+                    restoredRecords.push(batch);
+                }
+                return { sensor_data: 2, alerts: 1 };
+            }),
+            deleteSession: jest.fn().mockResolvedValue(undefined)
+        };
+        mockStore = {
+            put: jest.fn(async (key: string, data: Readable) => {
+                const chunks: Buffer[] = [];
+                for await (const chunk of data) {
+                    chunks.push(chunk as Buffer);
+                }
+                archives.set(key, Buffer.concat(chunks));
+            }),
+            get: jest.fn(async (key: string) => Readable.from([archives.get(key)!])),
+            delete: jest.fn(async (key: string) => { archives.delete(key); }),
+            exists: jest.fn(async (key: string) => archives.has(key))
+        };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        retentionService = new RetentionService(
+            mockRepository as any,
+            mockStore as any,
+            mockLogger as any
+        );
+    });
+
+    it('should compress chunks past the longest hot period before handling sessions', async () => {
+        mockRepository.getCompressionHorizonDays!.mockResolvedValue(14);
+
+        const result = await retentionService.runRetention(now);
+
+        expect(mockRepository.compressSensorData).toHaveBeenCalledWith(14);
+        expect(mockRepository.findRetentionCandidates).toHaveBeenCalledWith(now, RETENTION_CONFIG.BATCH_SIZE);
+        expect(result.compressedChunks).toBe(2);
+    });
+
+    it('should write the archive before removing session data from the database', async () => {
+        mockRepository.findRetentionCandidates!.mockResolvedValue([createCandidate()]);
+        mockRepository.archiveSession!.mockImplementation(async (_id: string, key: string) => {
+            expect(archives.has(key)).toBe(true);
+            return {};
+        });
+
+        const result = await retentionService.runRetention(now);
+
+        const archiveKey = `sessions/2024/${sessionId}.ndjson.gz`;
+        expect(mockRepository.archiveSession)
+            .toHaveBeenCalledWith(sessionId, archiveKey, RETENTION_CONFIG.SYSTEM_USER_ID);
+        expect(result.archivedSessions).toBe(1);
+    });
+
+    it('should not rewrite the archive of a restored session', async () => {
+        const archiveKey = `sessions/2024/${sessionId}.ndjson.gz`;
+        archives.set(archiveKey, Buffer.from('existing'));
+        mockRepository.findRetentionCandidates!.mockResolvedValue([createCandidate({ archiveKey })]);
+
+        await retentionService.runRetention(now);
+
+        expect(mockStore.put).not.toHaveBeenCalled();
+        expect(mockRepository.archiveSession).toHaveBeenCalledWith(sessionId, archiveKey, expect.any(String));
+    });
+
+    it('should delete expired sessions along with their archives', async () => {
+        const archiveKey = `sessions/2018/${sessionId}.ndjson.gz`;
+        archives.set(archiveKey, Buffer.from('archived'));
+        mockRepository.findRetentionCandidates!.mockResolvedValue([
+            createCandidate({ action: 'delete', storageTier: 'cold', archiveKey })
+        ]);
+
+        const result = await retentionService.runRetention(now);
+
+        expect(archives.has(archiveKey)).toBe(false);
+        expect(mockRepository.deleteSession).toHaveBeenCalledWith(sessionId, RETENTION_CONFIG.SYSTEM_USER_ID);
+        expect(result.deletedSessions).toBe(1);
+    });
+
+    it('should record failed sessions and continue with the rest of the batch', async () => {
+        mockRepository.findRetentionCandidates!.mockResolvedValue([
+            createCandidate({ sessionId: 'failing' }),
+            createCandidate()
+        ]);
+        mockRepository.archiveSession!
+            .mockRejectedValueOnce(new Error('deadlock detected'))
+            .mockResolvedValueOnce({});
+
+        const result = await retentionService.runRetention(now);
+
+        expect(result.archivedSessions).toBe(1);
+        expect(result.failures).toEqual([{ sessionId: 'failing', action: 'archive', error: 'deadlock detected' }]);
+    });
+
+    it('should restore the archived records with an audited user', async () => {
+        mockRepository.findRetentionCandidates!.mockResolvedValue([createCandidate()]);
+        await retentionService.runRetention(now);
+        const archiveKey = `sessions/2024/${sessionId}.ndjson.gz`;
+        mockRepository.getSessionRetention!.mockResolvedValue(createRetention({ storageTier: 'cold', archiveKey }));
+
+        const result = await retentionService.restoreSession(sessionId, 'coach-1');
+
+        expect(restoredRecords).toEqual(records);
+        expect(mockRepository.restoreSession)
+            .toHaveBeenCalledWith(sessionId, expect.anything(), result.restoredUntil, 'coach-1');
+        expect(result.restored).toBe(true);
+        expect(result.restoredUntil!.getTime() - Date.now()).toBeGreaterThan(6 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should share concurrent restores of the same session', async () => {
+        mockRepository.findRetentionCandidates!.mockResolvedValue([createCandidate()]);
+        await retentionService.runRetention(now);
+        mockRepository.getSessionRetention!.mockResolvedValue(
+            createRetention({ storageTier: 'cold', archiveKey: `sessions/2024/${sessionId}.ndjson.gz` })
+        );
+
+        await Promise.all([
+            retentionService.ensureSessionAvailable(sessionId, 'coach-1'),
+            retentionService.restoreSession(sessionId, 'coach-2')
+        ]);
+
+        expect(mockRepository.restoreSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave sessions that are already in the database untouched', async () => {
+        const result = await retentionService.restoreSession(sessionId, 'coach-1');
+
+        expect(result.restored).toBe(false);
+        expect(mockStore.get).not.toHaveBeenCalled();
+        expect(mockRepository.restoreSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject truncated archives', async () => {
+        const archiveKey = `sessions/2024/${sessionId}.ndjson.gz`;
+        mockRepository.findRetentionCandidates!.mockResolvedValue([createCandidate()]);
+        await retentionService.runRetention(now);
+        archives.set(archiveKey, require('zlib').gzipSync('{"table":"sensor_data","row":{"id":"d1"}}\n{"table":'));
+        mockRepository.getSessionRetention!.mockResolvedValue(createRetention({ storageTier: 'cold', archiveKey }));
+
+        await expect(retentionService.restoreSession(sessionId, 'coach-1')).rejects.toThrow('Archive is truncated');
+    });
+});
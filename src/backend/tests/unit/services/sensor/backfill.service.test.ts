@@ -0,0 +1,278 @@
+import { createHash } from 'crypto';
+
+import { SensorBackfillService } from '../../../../src/services/sensor/backfill.service';
+import { ISensorData, IBackfillUpload } from '../../../../src/interfaces/sensor.interface';
+import { SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/config/kafka.config', () => ({
+    KAFKA_TOPICS: { SENSOR_DATA: 'sensor-data-stream' }
+}));
+jest.mock('../../../../src/db/repositories/backfill.repository', () => ({
+    BackfillRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+jest.mock('../../../../src/services/sensor/data.processor', () => ({
+    SensorDataProcessor: jest.fn()
+}));
+
+describe('SensorBackfillService', () => {
+    const sessionId = '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40';
+    const baseTimestamp = 1700000000000;
+
+    let backfillService: SensorBackfillService;
+    let upload: IBackfillUpload;
+    let storedTokenHash: string;
+    let mockBackfillRepository: Record<string, jest.Mock>;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockDataProcessor: { processData: jest.Mock };
+    let mockProducer: { connect: jest.Mock; disconnect: jest.Mock; send: jest.Mock };
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const createPacket = (offsetMs: number, sensorId = 'imu-left-shank'): ISensorData => ({
+        sensorId,
+        sessionId,
+        timestamp: baseTimestamp + offsetMs,
+        readings: [{
+            type: SENSOR_TYPES.IMU,
+            value: [0.1, 0.2, 9.8],
+            timestamp: baseTimestamp + offsetMs,
+            confidence: 0.95,
+            rawData: Buffer.alloc(0)
+        }],
+        metadata: {
+            calibrationVersion: '1.0.0',
+            processingSteps: [],
+            quality: 95,
+            environmentalFactors: {},
+            processingLatency: 5
+        },
+        dataQuality: 95
+    });
+
+    const flushBackground = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        upload = {
+            id: 'upload-1',
+            sessionId,
+            status: 'receiving',
+            totalChunks: 3,
+            receivedChunks: [],
+            packetsReceived: 0,
+            packetsInserted: 0,
+            packetsDuplicate: 0,
+            rangeStart: null,
+            rangeEnd: null,
+            requestedBy: 'athlete-1',
+            error: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            expiresAt: new Date(Date.now() + 60000)
+        };
+
+        mockBackfillRepository = {
+            sessionExists: jest.fn().mockResolvedValue(true),
+            createUpload: jest.fn(async ({ resumeTokenHash }) => {
+                storedTokenHash = resumeTokenHash;
+                return upload;
+            }),
+            getUpload: jest.fn(async () => upload),
+            getUploadByTokenHash: jest.fn(async (hash: string) => (hash === storedTokenHash ? upload : null)),
+            getChunk: jest.fn().mockResolvedValue(null),
+            storeChunk: jest.fn(async (_upload, chunkIndex: number, _checksum, packets: ISensorData[]) => {
+                upload = { ...upload, receivedChunks: [...upload.receivedChunks, chunkIndex] };
+                return packets;
+            }),
+            getInsertedTimestamps: jest.fn().mockResolvedValue([]),
+            updateStatus: jest.fn(async (_id, status, error = null) => {
+                upload = { ...upload, status, error };
+            })
+        };
+        mockSensorRepository = {
+            streamSessionSensorData: jest.fn(),
+            updateSensorDataProcessing: jest.fn().mockResolvedValue(undefined),
+            replaceSensorGaps: jest.fn().mockResolvedValue(undefined)
+        };
+        mockDataProcessor = {
+            processData: jest.fn(async (packet: ISensorData) => ({
+                quality: 0.9,
+                metadata: {
+                    ...packet.metadata,
+                    gapStats: { gaps: [] }
+                }
+            }))
+        };
+        mockProducer = { connect: jest.fn(), disconnect: jest.fn(), send: jest.fn().mockResolvedValue(undefined) };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        backfillService = new SensorBackfillService(
+            mockBackfillRepository as any,
+            mockSensorRepository as any,
+            mockDataProcessor as any,
+            mockProducer as any,
+            mockLogger as any
+        );
+    });
+
+    it('should issue a resume token and report chunk progress', async () => {
+        const created = await backfillService.createUpload(sessionId, { totalChunks: 3, requestedBy: 'athlete-1' });
+
+        expect(created.resumeToken).toBeDefined();
+        expect(storedTokenHash).toBe(createHash('sha256').update(created.resumeToken as string).digest('hex'));
+        expect(created.percentComplete).toBe(0);
+        expect(created.missingChunks).toEqual([0, 1, 2]);
+
+        const progress = await backfillService.uploadChunk(upload.id, created.resumeToken as string, {
+            chunkIndex: 1,
+            packets: [createPacket(0)]
+        });
+
+        expect(progress.percentComplete).toBe(33);
+        expect(progress.missingChunks).toEqual([0, 2]);
+        expect(progress.nextChunkIndex).toBe(0);
+        expect(progress.resumeToken).toBeUndefined();
+    });
+
+    it('should resume an upload from its token', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { requestedBy: 'athlete-1' });
+        upload = { ...upload, totalChunks: null, receivedChunks: [0, 1] };
+
+        const resumed = await backfillService.resumeUpload(resumeToken as string);
+
+        expect(resumed.id).toBe(upload.id);
+        expect(resumed.nextChunkIndex).toBe(2);
+        expect(resumed.percentComplete).toBeNull();
+        await expect(backfillService.resumeUpload('unknown')).rejects.toThrow('Invalid resume token');
+    });
+
+    it('should deduplicate repeated samples within a chunk', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { requestedBy: 'athlete-1' });
+
+        await backfillService.uploadChunk(upload.id, resumeToken as string, {
+            chunkIndex: 0,
+            packets: [createPacket(0), createPacket(0), createPacket(5)]
+        });
+
+        const storedPackets = mockBackfillRepository.storeChunk!.mock.calls[0][3] as ISensorData[];
+        expect(storedPackets.map(packet => packet.timestamp)).toEqual([baseTimestamp, baseTimestamp + 5]);
+    });
+
+    it('should treat a re-sent chunk as a no-op and reject conflicting contents', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { requestedBy: 'athlete-1' });
+        const packets = [createPacket(0)];
+        const checksum = createHash('sha256').update(JSON.stringify(packets)).digest('hex');
+        mockBackfillRepository.getChunk!.mockResolvedValue({ chunkIndex: 0, checksum, packetCount: 1, insertedCount: 1 });
+
+        await backfillService.uploadChunk(upload.id, resumeToken as string, { chunkIndex: 0, packets, checksum });
+        expect(mockBackfillRepository.storeChunk).not.toHaveBeenCalled();
+
+        await expect(backfillService.uploadChunk(upload.id, resumeToken as string, {
+            chunkIndex: 0,
+            packets: [createPacket(10)]
+        })).rejects.toThrow('already received with different contents');
+    });
+
+    it('should validate tokens, checksums and chunk indexes', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { totalChunks: 3, requestedBy: 'athlete-1' });
+        const token = resumeToken as string;
+
+        await expect(backfillService.uploadChunk(upload.id, 'wrong', { chunkIndex: 0, packets: [] }))
+            .rejects.toThrow('Invalid resume token');
+        await expect(backfillService.uploadChunk(upload.id, token, { chunkIndex: 3, packets: [] }))
+            .rejects.toThrow('Invalid chunk index 3');
+        await expect(backfillService.uploadChunk(upload.id, token, {
+            chunkIndex: 0,
+            packets: [createPacket(0)],
+            checksum: 'deadbeef'
+        })).rejects.toThrow('Checksum mismatch for chunk 0');
+        await expect(backfillService.uploadChunk(upload.id, token, {
+            chunkIndex: 0,
+            packets: [{ ...createPacket(0), sessionId: 'other-session' }]
+        })).rejects.toThrow('does not belong');
+    });
+
+    it('should reject uploads for unknown sessions', async () => {
+        mockBackfillRepository.sessionExists!.mockResolvedValue(false);
+
+        await expect(backfillService.createUpload(sessionId, { requestedBy: 'athlete-1' }))
+            .rejects.toThrow(`Session ${sessionId} not found`);
+    });
+
+    it('should refuse to complete an upload with missing chunks', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { totalChunks: 2, requestedBy: 'athlete-1' });
+        upload = { ...upload, totalChunks: 2, receivedChunks: [0] };
+
+        await expect(backfillService.completeUpload(upload.id, resumeToken as string))
+            .rejects.toThrow('is missing chunks: 1');
+    });
+
+    it('should reprocess backfilled ranges and replace their gaps on completion', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { totalChunks: 1, requestedBy: 'athlete-1' });
+        upload = { ...upload, totalChunks: 1, receivedChunks: [0] };
+        mockBackfillRepository.getInsertedTimestamps!.mockResolvedValue([{
+            sensorId: 'imu-left-shank',
+            timestamps: [baseTimestamp, baseTimestamp + 5, baseTimestamp + 60000]
+        }]);
+        mockSensorRepository.streamSessionSensorData!.mockImplementation(async function* () {
+            yield [createPacket(0), createPacket(5)];
+        });
+
+        const progress = await backfillService.completeUpload(upload.id, resumeToken as string);
+        expect(progress.status).toBe('processing');
+        await flushBackground();
+
+        expect(mockSensorRepository.streamSessionSensorData).toHaveBeenCalledTimes(2);
+        expect(mockSensorRepository.streamSessionSensorData!.mock.calls[0][2]).toEqual({
+            sensorId: 'imu-left-shank',
+            start: baseTimestamp - 1000,
+            end: baseTimestamp + 1005
+        });
+        expect(mockSensorRepository.replaceSensorGaps).toHaveBeenCalledTimes(2);
+
+        const updates = mockSensorRepository.updateSensorDataProcessing!.mock.calls[0][1];
+        expect(updates[0].dataQuality).toBeCloseTo(90);
+        expect(updates[0].metadata.processingSteps).toContain('backfill_reprocess');
+        expect(upload.status).toBe('completed');
+    });
+
+    it('should hand only the backfilled packets to analytics', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { totalChunks: 1, requestedBy: 'athlete-1' });
+        upload = { ...upload, totalChunks: 1, receivedChunks: [0] };
+        mockBackfillRepository.getInsertedTimestamps!.mockResolvedValue([{
+            sensorId: 'imu-left-shank',
+            timestamps: [baseTimestamp + 5]
+        }]);
+        // The packet at 0 was received live and is only re-read as filter context
+        mockSensorRepository.streamSessionSensorData!.mockImplementation(async function* () {
+            yield [createPacket(0), createPacket(5)];
+        });
+
+        await backfillService.completeUpload(upload.id, resumeToken as string);
+        await flushBackground();
+
+        expect(mockProducer.send).toHaveBeenCalledTimes(1);
+        const { topic, messages } = mockProducer.send.mock.calls[0][0];
+        expect(topic).toBe('sensor-data-stream');
+        expect(messages).toHaveLength(1);
+        expect(messages[0].key).toBe('imu-left-shank');
+        const published = JSON.parse(messages[0].value);
+        expect(published.timestamp).toBe(baseTimestamp + 5);
+        expect(published.sessionId).toBe(sessionId);
+        expect(published.metadata.processingSteps).toContain('backfill_reprocess');
+        expect(upload.status).toBe('completed');
+    });
+
+    it('should record reprocessing failures on the upload', async () => {
+        const { resumeToken } = await backfillService.createUpload(sessionId, { totalChunks: 1, requestedBy: 'athlete-1' });
+        upload = { ...upload, totalChunks: 1, receivedChunks: [0] };
+        mockBackfillRepository.getInsertedTimestamps!.mockRejectedValue(new Error('connection reset'));
+
+        await backfillService.completeUpload(upload.id, resumeToken as string);
+        await flushBackground();
+
+        expect(upload.status).toBe('failed');
+        expect(upload.error).toBe('connection reset');
+    });
+});
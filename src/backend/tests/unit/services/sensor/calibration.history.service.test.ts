@@ -0,0 +1,206 @@
+import { CalibrationHistoryService } from '../../../../src/services/sensor/calibration.history.service';
+import { ICalibrationVersion } from '../../../../src/interfaces/calibration.interface';
+import { ISensorCalibrationParams } from '../../../../src/interfaces/sensor.interface';
+import { CALIBRATION_HISTORY, SENSOR_STATUS } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/calibration.repository', () => ({
+    CalibrationRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+
+describe('CalibrationHistoryService', () => {
+    const sensorId = 'sensor-1';
+
+    let historyService: CalibrationHistoryService;
+    let versions: ICalibrationVersion[];
+    let sensorStatus: SENSOR_STATUS;
+    let mockCalibrationRepository: Record<string, jest.Mock>;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const createParams = (overrides: Partial<ISensorCalibrationParams> = {}): ISensorCalibrationParams => ({
+        tofGain: 8,
+        imuDriftCorrection: 0.5,
+        pressureThreshold: 1.0,
+        sampleWindow: 100,
+        filterCutoff: 2,
+        calibrationMatrix: [[1, 0], [0, 1]],
+        temperatureCompensation: 0.02,
+        ...overrides
+    });
+
+    const record = (params: ISensorCalibrationParams, createdAt: Date) =>
+        historyService.recordCalibration(sensorId, params, {
+            operatorId: 'coach-1',
+            qualityScore: 0.9,
+            environmentalConditions: { temperature: 21 }
+        }).then(stored => {
+            stored.createdAt = createdAt;
+            return stored;
+        });
+
+    beforeEach(() => {
+        versions = [];
+        sensorStatus = SENSOR_STATUS.ACTIVE;
+
+        mockCalibrationRepository = {
+            createVersion: jest.fn(async (version: Omit<ICalibrationVersion, 'id' | 'version' | 'createdAt'>) => {
+                const stored = {
+                    ...version,
+                    id: `calibration-${versions.length + 1}`,
+                    version: versions.length + 1,
+                    createdAt: new Date()
+                };
+                versions.push(stored);
+                return stored;
+            }),
+            getVersion: jest.fn(async (id: string, version: number) =>
+                versions.find(stored => stored.sensorId === id && stored.version === version) ?? null
+            ),
+            listVersions: jest.fn(async (id: string) => versions.filter(stored => stored.sensorId === id))
+        };
+
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => (id === sensorId ? { id, status: sensorStatus } : null)),
+            bulkUpdateSensors: jest.fn().mockResolvedValue({ modifiedCount: 1 })
+        };
+
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        historyService = new CalibrationHistoryService(
+            mockCalibrationRepository as any,
+            mockSensorRepository as any,
+            mockLogger as any
+        );
+    });
+
+    describe('recordCalibration', () => {
+        it('stores each calibration as the next version with its context', async () => {
+            await record(createParams(), new Date(1000));
+            const second = await record(createParams({ tofGain: 10 }), new Date(2000));
+
+            expect(second.version).toBe(2);
+            expect(second.operatorId).toBe('coach-1');
+            expect(second.qualityScore).toBe(0.9);
+            expect(second.environmentalConditions).toEqual({ temperature: 21 });
+            expect(second.restoredFrom).toBeNull();
+        });
+
+        it('rejects a calibration without a quality score', async () => {
+            await expect(historyService.recordCalibration(sensorId, createParams(), {
+                operatorId: 'coach-1',
+                qualityScore: NaN
+            })).rejects.toThrow('quality score must be a number');
+            expect(mockCalibrationRepository.createVersion).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('diffVersions', () => {
+        it('lists changed scalar parameters and matrix cells', async () => {
+            await record(createParams(), new Date(1000));
+            await record(createParams({ tofGain: 10, calibrationMatrix: [[1, 0.1], [0, 1]] }), new Date(2000));
+
+            const diff = await historyService.diffVersions(sensorId, 1, 2);
+
+            expect(diff.changes).toEqual([
+                { param: 'tofGain', from: 8, to: 10, delta: 2 },
+                { param: 'calibrationMatrix[0][1]', from: 0, to: 0.1, delta: 0.1 }
+            ]);
+        });
+
+        it('reports cells missing from one version without a delta', async () => {
+            await record(createParams(), new Date(1000));
+            await record(createParams({ calibrationMatrix: [[1, 0, 0], [0, 1, 0]] }), new Date(2000));
+
+            const diff = await historyService.diffVersions(sensorId, 2, 1);
+
+            expect(diff.changes).toEqual([
+                { param: 'calibrationMatrix[0][2]', from: 0, to: null, delta: null },
+                { param: 'calibrationMatrix[1][2]', from: 0, to: null, delta: null }
+            ]);
+        });
+
+        it('fails for unknown or invalid versions', async () => {
+            await record(createParams(), new Date(1000));
+
+            await expect(historyService.diffVersions(sensorId, 1, 5))
+                .rejects.toThrow('Calibration version 5 of sensor sensor-1 not found');
+            await expect(historyService.diffVersions(sensorId, 0, 1))
+                .rejects.toThrow('Invalid calibration version');
+        });
+    });
+
+    describe('rollbackToVersion', () => {
+        it('restores earlier parameters as a new version', async () => {
+            const original = createParams({ calibrationMatrix: [[1.02, 0], [0, 0.98]] });
+            await record(original, new Date(1000));
+            await record(createParams({ calibrationMatrix: [[1.3, 0], [0, 0.7]] }), new Date(2000));
+
+            const rollback = await historyService.rollbackToVersion(sensorId, 1, 'admin-1');
+
+            expect(rollback.version).toBe(3);
+            expect(rollback.restoredFrom).toBe(1);
+            expect(rollback.operatorId).toBe('admin-1');
+            expect(rollback.params.calibrationMatrix).toEqual([[1.02, 0], [0, 0.98]]);
+            expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenCalledWith([{
+                id: sensorId,
+                updates: { calibrationParams: original, lastCalibration: expect.any(Date) }
+            }]);
+        });
+
+        it('refuses to restore the active calibration', async () => {
+            await record(createParams(), new Date(1000));
+
+            await expect(historyService.rollbackToVersion(sensorId, 1, 'admin-1'))
+                .rejects.toThrow('Calibration version 1 is already active');
+            expect(mockSensorRepository.bulkUpdateSensors).not.toHaveBeenCalled();
+        });
+
+        it('refuses to roll back a sensor that is being calibrated', async () => {
+            await record(createParams(), new Date(1000));
+            await record(createParams({ tofGain: 10 }), new Date(2000));
+            sensorStatus = SENSOR_STATUS.CALIBRATING;
+
+            await expect(historyService.rollbackToVersion(sensorId, 1, 'admin-1'))
+                .rejects.toThrow('Sensor is already being calibrated');
+            expect(versions).toHaveLength(2);
+        });
+    });
+
+    describe('getVersionTag', () => {
+        it('tags data with the version active at its timestamp', async () => {
+            await record(createParams(), new Date(1000));
+            await record(createParams({ tofGain: 10 }), new Date(2000));
+
+            expect(await historyService.getVersionTag(sensorId, 500)).toBeNull();
+            expect(await historyService.getVersionTag(sensorId, 1500))
+                .toBe(`${CALIBRATION_HISTORY.versionTagPrefix}1`);
+            expect(await historyService.getVersionTag(sensorId, 2500))
+                .toBe(`${CALIBRATION_HISTORY.versionTagPrefix}2`);
+        });
+
+        it('re-tags data recorded after a rollback', async () => {
+            await record(createParams(), new Date(1000));
+            await record(createParams({ tofGain: 10 }), new Date(2000));
+            expect(await historyService.getVersionTag(sensorId, Date.now())).toBe('cal-v2');
+
+            const rollback = await historyService.rollbackToVersion(sensorId, 1, 'admin-1');
+
+            expect(await historyService.getVersionTag(sensorId, rollback.createdAt.getTime()))
+                .toBe('cal-v3');
+            expect(await historyService.getVersionTag(sensorId, 1500)).toBe('cal-v1');
+        });
+
+        it('serves repeated lookups from memory', async () => {
+            await record(createParams(), new Date(1000));
+            mockCalibrationRepository.listVersions!.mockClear();
+
+            await historyService.getVersionTag(sensorId, 1500);
+            await historyService.getVersionTag(sensorId, 1600);
+
+            expect(mockCalibrationRepository.listVersions).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,328 @@
+import { CalibrationProtocolService } from '../../../../src/services/sensor/calibration.protocol.service';
+import {
+    countCycles,
+    deriveProtocolParams,
+    evaluateCapture
+} from '../../../../src/services/sensor/calibration.protocol';
+import { ICalibrationProgress } from '../../../../src/interfaces/calibration.interface';
+import { ISensorData, ISensorReading } from '../../../../src/interfaces/sensor.interface';
+import {
+    CALIBRATION_PARAMS,
+    CALIBRATION_PROTOCOL,
+    SENSOR_STATUS,
+    SENSOR_TYPES
+} from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+jest.mock('../../../../src/services/sensor/calibration.history.service', () => ({
+    CalibrationHistoryService: jest.fn()
+}));
+
+const SAMPLES_PER_SECOND = 20;
+const PROTOCOL_MS = CALIBRATION_PROTOCOL.steps.reduce(
+    (sum, step) => sum + CALIBRATION_PROTOCOL.prepareMs + step.captureMs,
+    0
+);
+
+/**
+ * Builds an IMU reading from an acceleration magnitude along z and a constant gyro bias
+ */
+const imuReading = (accelZ: number, timestamp: number, gyroX = 0.3): ISensorReading => ({
+    type: SENSOR_TYPES.IMU,
+    value: [0, 0, accelZ, gyroX, 0, 0],
+    timestamp,
+    confidence: 0.9,
+    rawData: Buffer.alloc(0)
+});
+
+/**
+ * Simulates an athlete following each step; t is seconds since the capture started
+ */
+const movements: Record<string, (t: number) => number> = {
+    static_stand: () => 9.81,
+    t_pose: t => 9.81 + 0.05 * Math.sin(2 * Math.PI * 0.2 * t),
+    squat: t => 9.81 + 2 * Math.sin(2 * Math.PI * 0.5 * t),
+    walk: t => 9.81 + 3 * Math.sin(2 * Math.PI * 1.8 * t)
+};
+
+const captureSeconds = (seconds: number, movement: (t: number) => number, gyroX?: number) =>
+    Array.from({ length: seconds * SAMPLES_PER_SECOND }, (_, i) =>
+        imuReading(movement(i / SAMPLES_PER_SECOND), i * 50, gyroX)
+    );
+
+describe('calibration protocol checks', () => {
+    const [staticStand, , squat] = CALIBRATION_PROTOCOL.steps;
+
+    it('counts movement cycles but not noise', () => {
+        const sine = Array.from({ length: 200 }, (_, i) => Math.sin(2 * Math.PI * i / 40));
+        const noise = Array.from({ length: 200 }, (_, i) => (i % 2 ? 0.01 : -0.01));
+
+        expect(countCycles(sine, 0.5)).toBe(4);
+        expect(countCycles(noise, 0.5)).toBe(0);
+    });
+
+    it('accepts a still standing capture', () => {
+        const result = evaluateCapture(staticStand, 1, captureSeconds(5, movements.static_stand!), SENSOR_TYPES.IMU);
+
+        expect(result.passed).toBe(true);
+        expect(result.sampleCount).toBe(100);
+        expect(result.metrics.accelMagnitudeMean).toBeCloseTo(9.81);
+        expect(result.metrics.gyroBias).toBeCloseTo(0.3);
+    });
+
+    it('rejects a standing capture with rotation and names the failed criterion', () => {
+        const result = evaluateCapture(staticStand, 2, captureSeconds(5, movements.static_stand!, 20), SENSOR_TYPES.IMU);
+
+        expect(result.passed).toBe(false);
+        expect(result.attempt).toBe(2);
+        expect(result.failures).toEqual(['gyroRms 20.00 is above 5']);
+    });
+
+    it('rejects captures with too few samples', () => {
+        const result = evaluateCapture(squat, 1, captureSeconds(1, movements.squat!), SENSOR_TYPES.IMU);
+
+        expect(result.passed).toBe(false);
+        expect(result.failures[0]).toMatch(/^Only 20 samples captured/);
+    });
+
+    it('judges ToF captures on load', () => {
+        const loads = Array.from({ length: 200 }, (_, i) => ({
+            type: SENSOR_TYPES.TOF,
+            value: [40 + 15 * Math.sin(2 * Math.PI * 0.5 * i / SAMPLES_PER_SECOND)],
+            timestamp: i * 50,
+            confidence: 0.8,
+            rawData: Buffer.alloc(0)
+        }));
+
+        const result = evaluateCapture(squat, 1, loads, SENSOR_TYPES.TOF);
+
+        expect(result.passed).toBe(true);
+        expect(result.metrics.loadRange).toBeCloseTo(0.75, 1);
+    });
+
+    it('derives drift correction and filter cutoff from accepted captures', () => {
+        const params = deriveProtocolParams(
+            { tofGain: 12 },
+            [
+                { step: 'static_stand', attempt: 1, passed: true, sampleCount: 100, metrics: { gyroBias: 0.4 }, failures: [] },
+                { step: 'walk', attempt: 1, passed: true, sampleCount: 300, metrics: { cycleRateHz: 5 }, failures: [] }
+            ],
+            SENSOR_TYPES.IMU
+        );
+
+        expect(params.tofGain).toBe(12);
+        expect(params.imuDriftCorrection).toBeCloseTo(0.4);
+        expect(params.filterCutoff).toBe(CALIBRATION_PARAMS.filterCutoff.max);
+    });
+});
+
+describe('CalibrationProtocolService', () => {
+    const sensorId = 'sensor-1';
+
+    let protocolService: CalibrationProtocolService;
+    let events: ICalibrationProgress[];
+    let sensorStatus: SENSOR_STATUS;
+    let gyroBiasFor: (step: string, attempt: number) => number;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockHistoryService: { recordCalibration: jest.Mock };
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const packet = (readings: ISensorReading[]): ISensorData => ({
+        sensorId,
+        sessionId: 'session-1',
+        timestamp: Date.now(),
+        dataQuality: 90,
+        readings,
+        metadata: {
+            calibrationVersion: '',
+            processingSteps: [],
+            quality: 90,
+            environmentalFactors: { temperature: 24 },
+            processingLatency: 0
+        }
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+
+        events = [];
+        sensorStatus = SENSOR_STATUS.ACTIVE;
+        gyroBiasFor = () => 0.3;
+
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => (id === sensorId ? {
+                id,
+                type: SENSOR_TYPES.IMU,
+                status: sensorStatus,
+                calibrationParams: {
+                    tofGain: 8,
+                    imuDriftCorrection: 0.5,
+                    pressureThreshold: 1,
+                    sampleWindow: 100,
+                    filterCutoff: 2,
+                    calibrationMatrix: [[1, 0], [0, 1]],
+                    temperatureCompensation: 0
+                }
+            } : null)),
+            bulkUpdateSensors: jest.fn().mockResolvedValue({ modifiedCount: 1 })
+        };
+        mockHistoryService = {
+            recordCalibration: jest.fn().mockResolvedValue({ version: 4 })
+        };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        protocolService = new CalibrationProtocolService(
+            mockSensorRepository as any,
+            mockHistoryService as any,
+            mockLogger as any
+        );
+
+        // The athlete moves as instructed; each capture tick delivers one second of readings
+        let tick = 0;
+        protocolService.progressUpdates.subscribe(event => {
+            events.push(event);
+            if (event.phase === 'preparing') {
+                tick = 0;
+            }
+            if (event.phase === 'capturing' && event.status === 'running') {
+                const movement = movements[event.step]!;
+                const gyroX = gyroBiasFor(event.step, event.attempt);
+                protocolService.ingest(packet(Array.from({ length: SAMPLES_PER_SECOND }, (_, i) =>
+                    imuReading(movement(tick + i / SAMPLES_PER_SECOND), Date.now() + i * 50, gyroX)
+                )));
+                tick++;
+            }
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('coaches the athlete through every step and records the calibration', async () => {
+        const run = await protocolService.startProtocol(sensorId, 'coach-1');
+        expect(run.status).toBe('running');
+        expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenCalledWith([{
+            id: sensorId,
+            updates: { status: SENSOR_STATUS.CALIBRATING }
+        }]);
+
+        await jest.advanceTimersByTimeAsync(PROTOCOL_MS);
+
+        const finished = protocolService.getRun(sensorId);
+        expect(finished.status).toBe('completed');
+        expect(finished.version).toBe(4);
+        expect(finished.results.map(result => [result.step, result.passed])).toEqual([
+            ['static_stand', true],
+            ['t_pose', true],
+            ['squat', true],
+            ['walk', true]
+        ]);
+
+        const [, params, context] = mockHistoryService.recordCalibration.mock.calls[0];
+        expect(params.imuDriftCorrection).toBeCloseTo(0.3);
+        expect(params.filterCutoff).toBeGreaterThan(6);
+        expect(params.calibrationMatrix).toEqual([[1, 0], [0, 1]]);
+        expect(context).toEqual({
+            operatorId: 'coach-1',
+            qualityScore: expect.closeTo(0.9),
+            environmentalConditions: { temperature: 24 }
+        });
+        expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenLastCalledWith([{
+            id: sensorId,
+            updates: { calibrationParams: params, lastCalibration: expect.any(Date), status: SENSOR_STATUS.ACTIVE }
+        }]);
+
+        const last = events[events.length - 1]!;
+        expect(last).toEqual(expect.objectContaining({ status: 'completed', progress: 100, version: 4 }));
+        expect(events.map(event => event.step)).toContain('walk');
+    });
+
+    it('streams step instructions and capture progress', async () => {
+        await protocolService.startProtocol(sensorId, 'coach-1');
+        await jest.advanceTimersByTimeAsync(CALIBRATION_PROTOCOL.prepareMs + 1000);
+
+        expect(events[0]).toEqual(expect.objectContaining({
+            step: 'static_stand',
+            phase: 'preparing',
+            attempt: 1,
+            instruction: CALIBRATION_PROTOCOL.steps[0].instruction,
+            progress: 0,
+            estimatedTimeRemaining: PROTOCOL_MS
+        }));
+        expect(events[2]).toEqual(expect.objectContaining({
+            phase: 'capturing',
+            estimatedTimeRemaining: PROTOCOL_MS - CALIBRATION_PROTOCOL.prepareMs - 1000
+        }));
+    });
+
+    it('retries a rejected capture before moving on', async () => {
+        gyroBiasFor = (step, attempt) => (step === 'static_stand' && attempt === 1 ? 20 : 0.3);
+
+        await protocolService.startProtocol(sensorId, 'coach-1');
+        await jest.advanceTimersByTimeAsync(PROTOCOL_MS + CALIBRATION_PROTOCOL.prepareMs +
+            CALIBRATION_PROTOCOL.steps[0].captureMs);
+
+        const run = protocolService.getRun(sensorId);
+        expect(run.status).toBe('completed');
+        expect(run.results.slice(0, 2).map(result => [result.step, result.attempt, result.passed])).toEqual([
+            ['static_stand', 1, false],
+            ['static_stand', 2, true]
+        ]);
+        expect(events.find(event => event.result && !event.result.passed)?.result?.failures)
+            .toEqual(['gyroRms 20.00 is above 5']);
+    });
+
+    it('fails after the last attempt and restores the sensor status', async () => {
+        gyroBiasFor = step => (step === 't_pose' ? 20 : 0.3);
+
+        await protocolService.startProtocol(sensorId, 'coach-1');
+        await jest.advanceTimersByTimeAsync(PROTOCOL_MS * 2);
+
+        const run = protocolService.getRun(sensorId);
+        expect(run.status).toBe('failed');
+        expect(run.error).toBe(`Step t_pose failed after ${CALIBRATION_PROTOCOL.maxAttempts} attempts: gyroRms 20.00 is above 10`);
+        expect(run.results.filter(result => result.step === 't_pose')).toHaveLength(CALIBRATION_PROTOCOL.maxAttempts);
+        expect(mockHistoryService.recordCalibration).not.toHaveBeenCalled();
+        expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenLastCalledWith([{
+            id: sensorId,
+            updates: { status: SENSOR_STATUS.ACTIVE }
+        }]);
+        expect(events[events.length - 1]).toEqual(expect.objectContaining({ status: 'failed', error: run.error }));
+    });
+
+    it('cancels a running protocol', async () => {
+        await protocolService.startProtocol(sensorId, 'coach-1');
+        await jest.advanceTimersByTimeAsync(CALIBRATION_PROTOCOL.prepareMs + 2000);
+
+        expect(protocolService.cancelProtocol(sensorId).status).toBe('cancelled');
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(events[events.length - 1]!.status).toBe('cancelled');
+        expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenLastCalledWith([{
+            id: sensorId,
+            updates: { status: SENSOR_STATUS.ACTIVE }
+        }]);
+        expect(() => protocolService.cancelProtocol(sensorId)).toThrow('Calibration run of sensor sensor-1 not found');
+
+        await jest.advanceTimersByTimeAsync(PROTOCOL_MS);
+        expect(mockHistoryService.recordCalibration).not.toHaveBeenCalled();
+    });
+
+    it('refuses to start while the sensor is being calibrated or updated', async () => {
+        await protocolService.startProtocol(sensorId, 'coach-1');
+        await expect(protocolService.startProtocol(sensorId, 'coach-2'))
+            .rejects.toThrow('Sensor is already being calibrated');
+
+        protocolService.cancelProtocol(sensorId);
+        await jest.advanceTimersByTimeAsync(0);
+        sensorStatus = SENSOR_STATUS.UPDATING;
+
+        await expect(protocolService.startProtocol(sensorId, 'coach-2'))
+            .rejects.toThrow('cannot be calibrated during a firmware update');
+        await expect(protocolService.startProtocol('unknown', 'coach-2'))
+            .rejects.toThrow('Sensor unknown not found');
+    });
+});
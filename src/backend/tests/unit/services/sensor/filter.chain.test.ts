@@ -0,0 +1,106 @@
+import {
+    SensorFilterChain,
+    savitzkyGolayCoefficients,
+    describeFilterStage,
+    validateFilterStages
+} from '../../../../src/services/sensor/filter.chain';
+import { FILTER_PROFILES, SAMPLING_RATES, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+describe('SensorFilterChain', () => {
+    const sampleRate = 200;
+
+    const sine = (frequencyHz: number, count: number, offset = 0): number[] =>
+        Array.from({ length: count }, (_, i) => Math.sin(2 * Math.PI * frequencyHz * (i + offset) / sampleRate));
+
+    const amplitude = (values: number[]): number => Math.max(...values.map(Math.abs));
+
+    it('should attenuate frequencies above the low-pass cutoff', () => {
+        const chain = new SensorFilterChain([{ type: 'low_pass', cutoffHz: 10, order: 2 }], sampleRate);
+
+        // Skip the settling period before measuring
+        const output = chain.apply(sine(80, 400)).slice(200);
+
+        expect(amplitude(output)).toBeLessThan(0.01);
+    });
+
+    it('should pass frequencies inside the band-pass band', () => {
+        const chain = new SensorFilterChain(
+            [{ type: 'band_pass', lowCutoffHz: 2, highCutoffHz: 30, order: 1 }],
+            sampleRate
+        );
+
+        const output = chain.apply(sine(8, 400)).slice(200);
+
+        expect(amplitude(output)).toBeGreaterThan(0.8);
+    });
+
+    it('should smooth noise with the Kalman stage', () => {
+        const chain = new SensorFilterChain(
+            [{ type: 'kalman', processNoise: 0.001, measurementNoise: 1 }],
+            sampleRate
+        );
+        const noisy = Array.from({ length: 200 }, (_, i) => 5 + (i % 2 === 0 ? 1 : -1));
+
+        const output = chain.apply(noisy).slice(100);
+
+        output.forEach(value => expect(Math.abs(value - 5)).toBeLessThan(0.2));
+    });
+
+    it('should preserve polynomials up to the Savitzky-Golay order', () => {
+        const chain = new SensorFilterChain(
+            [{ type: 'savitzky_golay', windowSize: 9, polynomialOrder: 2 }],
+            sampleRate
+        );
+        const quadratic = Array.from({ length: 30 }, (_, i) => 0.5 * i * i - 3 * i + 2);
+
+        const output = chain.apply(quadratic);
+
+        output.forEach((value, i) => expect(value).toBeCloseTo(quadratic[i]!, 6));
+    });
+
+    it('should carry state across blocks and keep channels independent', () => {
+        const stages = [{ type: 'low_pass' as const, cutoffHz: 20, order: 2 }];
+        const blocked = new SensorFilterChain(stages, sampleRate);
+        const continuous = new SensorFilterChain(stages, sampleRate);
+        const signal = sine(5, 100);
+
+        blocked.apply(sine(40, 100), 1);
+        const output = [...blocked.apply(signal.slice(0, 50)), ...blocked.apply(signal.slice(50))];
+
+        expect(output).toEqual(continuous.apply(signal));
+    });
+
+    it('should reject stages that are invalid for the sampling rate', () => {
+        expect(() => new SensorFilterChain([{ type: 'low_pass', cutoffHz: 120 }], sampleRate))
+            .toThrow('Invalid low_pass stage 0');
+        expect(() => validateFilterStages([{ type: 'savitzky_golay', windowSize: 5, polynomialOrder: 5 }], sampleRate))
+            .toThrow('polynomialOrder');
+        expect(() => validateFilterStages([{ type: 'kalman', processNoise: 0, measurementNoise: 1 }], sampleRate))
+            .toThrow('processNoise');
+    });
+
+    it('should validate every built-in profile', () => {
+        Object.values(FILTER_PROFILES).forEach(profile => {
+            expect(() => validateFilterStages(profile.chains[SENSOR_TYPES.IMU]!, SAMPLING_RATES.IMU)).not.toThrow();
+            expect(() => validateFilterStages(profile.chains[SENSOR_TYPES.TOF]!, SAMPLING_RATES.TOF)).not.toThrow();
+        });
+    });
+
+    it('should describe stages with their parameters', () => {
+        const chain = new SensorFilterChain([
+            { type: 'median', windowSize: 5 },
+            { type: 'kalman', processNoise: 0.01, measurementNoise: 0.1 }
+        ], sampleRate);
+
+        expect(chain.steps).toEqual(['median(window=5)', 'kalman(q=0.01,r=0.1)']);
+        expect(describeFilterStage({ type: 'low_pass', cutoffHz: 20, order: 2 }))
+            .toBe('low_pass(cutoff=20Hz,order=2)');
+    });
+
+    it('should produce Savitzky-Golay coefficients that sum to one', () => {
+        const coefficients = savitzkyGolayCoefficients(15, 3);
+
+        expect(coefficients).toHaveLength(15);
+        expect(coefficients.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 10);
+    });
+});
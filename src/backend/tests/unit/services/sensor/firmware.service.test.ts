@@ -0,0 +1,324 @@
+import { createHash } from 'crypto';
+
+import { FirmwareService } from '../../../../src/services/sensor/firmware.service';
+import {
+    IFirmwareImage,
+    IFirmwareProgress,
+    IFirmwareRollout,
+    IFirmwareUpdate
+} from '../../../../src/interfaces/firmware.interface';
+import { ISensorConfig } from '../../../../src/interfaces/sensor.interface';
+import { FIRMWARE_UPDATE, SENSOR_STATUS, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/firmware.repository', () => ({
+    FirmwareRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+
+describe('FirmwareService', () => {
+    const binary = Buffer.alloc(1000, 7);
+    const checksum = createHash('sha256').update(binary).digest('hex');
+
+    let firmwareService: FirmwareService;
+    let images: IFirmwareImage[];
+    let updates: IFirmwareUpdate[];
+    let rollouts: Map<string, IFirmwareRollout>;
+    let sensors: Map<string, ISensorConfig>;
+    let events: IFirmwareProgress[];
+    let mockFirmwareRepository: Record<string, jest.Mock>;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockTransport: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const createSensor = (id: string, type = SENSOR_TYPES.IMU): ISensorConfig => ({
+        id,
+        type,
+        samplingRate: 200,
+        calibrationParams: {} as any,
+        lastCalibration: new Date(),
+        batteryLevel: 80,
+        status: SENSOR_STATUS.ACTIVE,
+        firmwareVersion: '1.0.0',
+        location: 'left-shank'
+    });
+
+    const createImage = (version: string, sensorTypes = [SENSOR_TYPES.IMU]): IFirmwareImage => ({
+        id: `image-${version}`,
+        version,
+        checksum,
+        sensorTypes,
+        sizeBytes: binary.length,
+        releaseNotes: null,
+        createdBy: 'admin-1',
+        createdAt: new Date()
+    });
+
+    const createUpdateRow = (update: Partial<IFirmwareUpdate>): IFirmwareUpdate => ({
+        id: `update-${updates.length + 1}`,
+        rolloutId: null,
+        stage: 0,
+        sensorId: '',
+        firmwareId: '',
+        fromVersion: '1.0.0',
+        toVersion: '2.0.0',
+        state: 'queued',
+        progress: 0,
+        error: null,
+        requestedBy: 'admin-1',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...update
+    });
+
+    const settle = async () => {
+        for (let i = 0; i < 5; i++) {
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    };
+
+    beforeEach(() => {
+        images = [createImage('1.0.0'), createImage('2.0.0'), createImage('1.5.0')];
+        updates = [];
+        rollouts = new Map();
+        sensors = new Map(['imu-1', 'imu-2'].map(id => [id, createSensor(id)]));
+        events = [];
+
+        mockFirmwareRepository = {
+            getImageByVersion: jest.fn(async (version: string) => images.find(image => image.version === version) ?? null),
+            createImage: jest.fn(async (image) => ({ ...image, id: 'image-new', createdAt: new Date() })),
+            listImages: jest.fn(async (type: SENSOR_TYPES) => images.filter(image => image.sensorTypes.includes(type))),
+            getImageBinary: jest.fn().mockResolvedValue(binary),
+            getTeamSensorIds: jest.fn(async () => [...sensors.keys()]),
+            getUnfinishedSensorIds: jest.fn(async (ids: string[]) => updates
+                .filter(update => ids.includes(update.sensorId) &&
+                    ['queued', 'transferring', 'verifying'].includes(update.state))
+                .map(update => update.sensorId)),
+            createUpdate: jest.fn(async (update) => {
+                const row = createUpdateRow(update);
+                updates.push(row);
+                return row;
+            }),
+            createRollout: jest.fn(async (rollout, queued) => {
+                const row: IFirmwareRollout = {
+                    ...rollout,
+                    id: 'rollout-1',
+                    version: '2.0.0',
+                    currentStage: 0,
+                    status: 'running',
+                    haltReason: null,
+                    createdAt: new Date(),
+                    updatedAt: new Date()
+                };
+                rollouts.set(row.id, row);
+                queued.forEach((update: Partial<IFirmwareUpdate>) => updates.push(createUpdateRow({
+                    ...update,
+                    rolloutId: row.id,
+                    firmwareId: rollout.firmwareId
+                })));
+                return row;
+            }),
+            getRollout: jest.fn(async (id: string) => (rollouts.has(id) ? { ...rollouts.get(id)! } : null)),
+            findUnfinishedRollout: jest.fn().mockResolvedValue(null),
+            updateRollout: jest.fn(async (id: string, changes, expectedStatus: string[]) => {
+                const rollout = rollouts.get(id);
+                if (!rollout || !expectedStatus.includes(rollout.status)) {
+                    return null;
+                }
+                Object.assign(rollout, changes);
+                return { ...rollout };
+            }),
+            deleteQueuedUpdates: jest.fn(async (rolloutId: string) => {
+                const before = updates.length;
+                updates = updates.filter(update => update.rolloutId !== rolloutId || update.state !== 'queued');
+                return before - updates.length;
+            }),
+            listRolloutUpdates: jest.fn(async (rolloutId: string, stage?: number) => updates
+                .filter(update => update.rolloutId === rolloutId && (stage === undefined || update.stage === stage))
+                .map(update => ({ ...update }))),
+            transitionUpdate: jest.fn(async (id: string, fromState: string, changes) => {
+                const update = updates.find(row => row.id === id);
+                if (!update || update.state !== fromState) {
+                    return null;
+                }
+                Object.assign(update, changes);
+                return { ...update };
+            }),
+            updateTransferProgress: jest.fn().mockResolvedValue(undefined)
+        };
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => (sensors.has(id) ? { ...sensors.get(id)! } : null)),
+            bulkUpdateSensors: jest.fn(async (changes: Array<{ id: string; updates: Partial<ISensorConfig> }>) => {
+                changes.forEach(change => Object.assign(sensors.get(change.id)!, change.updates));
+            })
+        };
+        mockTransport = {
+            transfer: jest.fn(async (_sensorId: string, image: Buffer, onProgress: (bytes: number) => void) => {
+                onProgress(image.length / 2);
+                onProgress(image.length);
+            }),
+            verify: jest.fn().mockResolvedValue(checksum),
+            apply: jest.fn().mockResolvedValue('2.0.0'),
+            rollback: jest.fn().mockResolvedValue('1.0.0')
+        };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        firmwareService = new FirmwareService(
+            mockFirmwareRepository as any,
+            mockSensorRepository as any,
+            mockTransport as any,
+            mockLogger as any
+        );
+        firmwareService.progressUpdates.subscribe(event => events.push(event));
+    });
+
+    it('should register images with a computed checksum', async () => {
+        const image = await firmwareService.registerImage(
+            { version: '2.1.0', sensorTypes: [SENSOR_TYPES.IMU, SENSOR_TYPES.IMU] },
+            binary,
+            'admin-1'
+        );
+
+        expect(image.checksum).toBe(checksum);
+        expect(image.sensorTypes).toEqual([SENSOR_TYPES.IMU]);
+        expect(mockFirmwareRepository.createImage).toHaveBeenCalledWith(expect.anything(), binary);
+    });
+
+    it('should reject invalid and duplicate image versions', async () => {
+        await expect(firmwareService.registerImage({ version: 'v2', sensorTypes: [SENSOR_TYPES.IMU] }, binary, 'admin-1'))
+            .rejects.toThrow('Invalid firmware version');
+        await expect(firmwareService.registerImage({ version: '2.0.0', sensorTypes: [SENSOR_TYPES.IMU] }, binary, 'admin-1'))
+            .rejects.toThrow('already exists');
+        await expect(firmwareService.registerImage({ version: '3.0.0', sensorTypes: [] }, binary, 'admin-1'))
+            .rejects.toThrow('at least one supported sensor type');
+    });
+
+    it('should move an update through transfer and verification to applied', async () => {
+        const update = await firmwareService.updateSensor('imu-1', undefined, 'admin-1');
+        await settle();
+
+        expect(update.toVersion).toBe('2.0.0');
+        expect(events.map(event => [event.state, event.progress])).toEqual([
+            ['transferring', 0],
+            ['transferring', 50],
+            ['transferring', 100],
+            ['verifying', 100],
+            ['applied', 100]
+        ]);
+        expect(sensors.get('imu-1')).toMatchObject({ firmwareVersion: '2.0.0', status: SENSOR_STATUS.ACTIVE });
+        expect(updates[0]!.state).toBe('applied');
+    });
+
+    it('should mark the sensor as updating while the image is transferred', async () => {
+        mockTransport.transfer!.mockImplementation(async (sensorId: string) => {
+            expect(sensors.get(sensorId)!.status).toBe(SENSOR_STATUS.UPDATING);
+        });
+
+        await firmwareService.updateSensor('imu-1', '2.0.0', 'admin-1');
+        await settle();
+
+        expect(mockTransport.transfer).toHaveBeenCalled();
+        expect(sensors.get('imu-1')!.status).toBe(SENSOR_STATUS.ACTIVE);
+    });
+
+    it('should roll back when the sensor reports a different checksum', async () => {
+        mockTransport.verify!.mockResolvedValue('0'.repeat(64));
+
+        await firmwareService.updateSensor('imu-1', '2.0.0', 'admin-1');
+        await settle();
+
+        expect(mockTransport.apply).not.toHaveBeenCalled();
+        expect(mockTransport.rollback).toHaveBeenCalledWith('imu-1');
+        expect(updates[0]).toMatchObject({ state: 'rolled_back', error: expect.stringContaining('Checksum mismatch') });
+        expect(sensors.get('imu-1')).toMatchObject({ firmwareVersion: '1.0.0', status: SENSOR_STATUS.ACTIVE });
+    });
+
+    it('should leave the sensor in the error status when the rollback fails', async () => {
+        mockTransport.apply!.mockRejectedValue(new Error('Sensor did not reboot'));
+        mockTransport.rollback!.mockRejectedValue(new Error('Connection lost'));
+
+        await firmwareService.updateSensor('imu-1', '2.0.0', 'admin-1');
+        await settle();
+
+        expect(updates[0]!.error).toBe('Sensor did not reboot; rollback failed: Connection lost');
+        expect(sensors.get('imu-1')!.status).toBe(SENSOR_STATUS.ERROR);
+    });
+
+    it('should reject updates the sensor cannot or need not install', async () => {
+        images.push(createImage('3.0.0', [SENSOR_TYPES.TOF]));
+        sensors.get('imu-2')!.firmwareVersion = '2.0.0';
+
+        await expect(firmwareService.updateSensor('imu-1', '3.0.0', 'admin-1')).rejects.toThrow('not compatible');
+        await expect(firmwareService.updateSensor('imu-2', undefined, 'admin-1')).rejects.toThrow('already runs');
+        await expect(firmwareService.updateSensor('missing', undefined, 'admin-1')).rejects.toThrow('not found');
+
+        await firmwareService.updateSensor('imu-1', '2.0.0', 'admin-1');
+        await expect(firmwareService.updateSensor('imu-1', '1.5.0', 'admin-1')).rejects.toThrow('in progress');
+    });
+
+    it('should spread a rollout over its stages and complete them in order', async () => {
+        sensors.set('imu-3', createSensor('imu-3'));
+        sensors.set('imu-4', createSensor('imu-4'));
+        sensors.set('tof-1', createSensor('tof-1', SENSOR_TYPES.TOF));
+
+        const report = await firmwareService.startRollout('team-1', '2.0.0', { stages: [25, 100] }, 'admin-1');
+
+        expect(mockFirmwareRepository.getTeamSensorIds).toHaveBeenCalledWith('team-1');
+        expect(report.updates.map(update => [update.sensorId, update.stage])).toEqual([
+            ['imu-1', 0], ['imu-2', 1], ['imu-3', 1], ['imu-4', 1]
+        ]);
+
+        await settle();
+
+        const finished = await firmwareService.getRollout('rollout-1');
+        expect(finished.rollout.status).toBe('completed');
+        expect(finished.stateCounts.applied).toBe(4);
+        expect(sensors.get('tof-1')!.firmwareVersion).toBe('1.0.0');
+    });
+
+    it('should halt a rollout when a stage fails too often and continue on resume', async () => {
+        mockTransport.transfer!.mockImplementation(async (sensorId: string) => {
+            if (sensorId === 'imu-1') {
+                throw new Error('Transfer timed out');
+            }
+        });
+        sensors.set('imu-3', createSensor('imu-3'));
+
+        await firmwareService.startRollout('team-1', '2.0.0', { stages: [50, 100], maxFailureRate: 0.4 }, 'admin-1');
+        await settle();
+
+        let report = await firmwareService.getRollout('rollout-1');
+        expect(report.rollout.status).toBe('halted');
+        expect(report.rollout.haltReason).toBe('1 of 2 updates in stage 1 rolled back');
+        expect(report.stateCounts).toMatchObject({ applied: 1, rolled_back: 1, queued: 1 });
+
+        await firmwareService.resumeRollout('rollout-1');
+        await settle();
+
+        report = await firmwareService.getRollout('rollout-1');
+        expect(report.rollout.status).toBe('completed');
+        expect(report.stateCounts).toMatchObject({ applied: 2, rolled_back: 1, queued: 0 });
+    });
+
+    it('should finish updates in progress but start no more once a rollout is paused', async () => {
+        ['imu-3', 'imu-4', 'imu-5', 'imu-6', 'imu-7'].forEach(id => sensors.set(id, createSensor(id)));
+        mockTransport.transfer!.mockImplementationOnce(async () => {
+            await firmwareService.pauseRollout('rollout-1');
+        });
+
+        await firmwareService.startRollout('team-1', '2.0.0', { stages: [100] }, 'admin-1');
+        await settle();
+
+        const report = await firmwareService.getRollout('rollout-1');
+        expect(report.rollout.status).toBe('paused');
+        expect(report.stateCounts).toMatchObject({ applied: FIRMWARE_UPDATE.maxConcurrentUpdates, queued: 2 });
+    });
+
+    it('should reject rollout stages that do not end at 100 percent', async () => {
+        await expect(firmwareService.startRollout('team-1', '2.0.0', { stages: [50, 80] }, 'admin-1'))
+            .rejects.toThrow('ending at 100');
+        await expect(firmwareService.startRollout('team-1', '2.0.0', { stages: [50, 20, 100] }, 'admin-1'))
+            .rejects.toThrow('ascending');
+    });
+});
@@ -0,0 +1,124 @@
+import { KafkaFirmwareTransport } from '../../../../src/services/sensor/firmware.transport';
+import { FIRMWARE_UPDATE } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/config/kafka.config', () => ({
+    KAFKA_TOPICS: { FIRMWARE_COMMANDS: 'sensor-firmware-commands', FIRMWARE_RESPONSES: 'sensor-firmware-responses' }
+}));
+
+describe('KafkaFirmwareTransport', () => {
+    let transport: KafkaFirmwareTransport;
+    let commands: Array<Record<string, any>>;
+    let respond: (command: Record<string, any>) => Record<string, unknown> | null;
+    let eachMessage: (payload: any) => Promise<void>;
+    let mockProducer: { connect: jest.Mock; disconnect: jest.Mock; send: jest.Mock };
+    let mockConsumer: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const deliver = (response: Record<string, unknown>) => eachMessage({
+        topic: 'sensor-firmware-responses',
+        partition: 0,
+        message: { offset: '1', value: Buffer.from(JSON.stringify(response)) }
+    });
+
+    beforeEach(async () => {
+        commands = [];
+        respond = command => ({ requestId: command.requestId, status: 'ok' });
+
+        mockProducer = {
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            send: jest.fn(async ({ messages }) => {
+                const command = JSON.parse(messages[0].value);
+                commands.push({ key: messages[0].key, ...command });
+                const response = respond(command);
+                if (response) {
+                    setImmediate(() => deliver(response));
+                }
+            })
+        };
+        mockConsumer = {
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            subscribe: jest.fn(),
+            run: jest.fn(async (config) => {
+                eachMessage = config.eachMessage;
+            })
+        };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        transport = new KafkaFirmwareTransport(mockProducer as any, mockConsumer as any, mockLogger as any);
+        await transport.start();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should send the image in acknowledged chunks keyed by sensor', async () => {
+        const image = Buffer.alloc(FIRMWARE_UPDATE.transferChunkBytes * 2 + 10, 3);
+        respond = command => ({
+            requestId: command.requestId,
+            status: 'ok',
+            bytesReceived: command.offset + Buffer.from(command.data, 'base64').length
+        });
+        const progress: number[] = [];
+
+        await transport.transfer('imu-1', image, bytesSent => progress.push(bytesSent));
+
+        expect(mockConsumer.subscribe).toHaveBeenCalledWith({ topic: 'sensor-firmware-responses', fromBeginning: false });
+        expect(commands.map(command => [command.key, command.command, command.offset])).toEqual([
+            ['imu-1', 'transfer_chunk', 0],
+            ['imu-1', 'transfer_chunk', FIRMWARE_UPDATE.transferChunkBytes],
+            ['imu-1', 'transfer_chunk', FIRMWARE_UPDATE.transferChunkBytes * 2]
+        ]);
+        expect(Buffer.concat(commands.map(command => Buffer.from(command.data, 'base64')))).toEqual(image);
+        expect(progress).toEqual([FIRMWARE_UPDATE.transferChunkBytes, FIRMWARE_UPDATE.transferChunkBytes * 2, image.length]);
+    });
+
+    it('should return the checksum and versions the sensor reports', async () => {
+        respond = command => ({
+            requestId: command.requestId,
+            status: 'ok',
+            ...(command.command === 'verify' ? { checksum: 'abc123' } : { version: `${command.command}-version` })
+        });
+
+        await expect(transport.verify('imu-1')).resolves.toBe('abc123');
+        await expect(transport.apply('imu-1')).resolves.toBe('apply-version');
+        await expect(transport.rollback('imu-1')).resolves.toBe('rollback-version');
+    });
+
+    it('should fail commands the gateway rejects or answers incompletely', async () => {
+        respond = command => ({ requestId: command.requestId, status: 'error', error: 'sensor disconnected' });
+        await expect(transport.verify('imu-1')).rejects.toThrow('Sensor imu-1 failed verify: sensor disconnected');
+
+        respond = command => ({ requestId: command.requestId, status: 'ok' });
+        await expect(transport.apply('imu-1')).rejects.toThrow('Sensor imu-1 response is missing its version');
+    });
+
+    it('should time out commands without a response and ignore responses of other instances', async () => {
+        jest.useFakeTimers();
+        respond = () => null;
+
+        const verifying = transport.verify('imu-1');
+        const failure = expect(verifying).rejects.toThrow(
+            `Sensor imu-1 did not answer verify within ${FIRMWARE_UPDATE.commandTimeoutMs}ms`
+        );
+        await Promise.resolve();
+        await deliver({ requestId: 'other-instance', status: 'ok', checksum: 'abc123' });
+        jest.advanceTimersByTime(FIRMWARE_UPDATE.commandTimeoutMs);
+
+        await failure;
+    });
+
+    it('should cancel waiting commands when stopped', async () => {
+        respond = () => null;
+
+        const applying = transport.apply('imu-1');
+        await Promise.resolve();
+        await transport.stop();
+
+        await expect(applying).rejects.toThrow('transport stopped');
+        expect(mockConsumer.disconnect).toHaveBeenCalled();
+        expect(mockProducer.disconnect).toHaveBeenCalled();
+    });
+});
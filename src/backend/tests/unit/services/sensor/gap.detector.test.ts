@@ -0,0 +1,146 @@
+import { SensorGapDetector } from '../../../../src/services/sensor/gap.detector';
+import { ISensorReading } from '../../../../src/interfaces/sensor.interface';
+import { SENSOR_TYPES, GAP_DETECTION } from '../../../../src/constants/sensor.constants';
+
+describe('SensorGapDetector', () => {
+    const baseTimestamp = 1700000000000;
+    const imuInterval = 5; // 200Hz
+
+    let detector: SensorGapDetector;
+
+    const createReading = (offsetMs: number, value: number[] = [offsetMs], type = SENSOR_TYPES.IMU): ISensorReading => ({
+        type,
+        value,
+        timestamp: baseTimestamp + offsetMs,
+        confidence: 1,
+        rawData: Buffer.alloc(0)
+    });
+
+    beforeEach(() => {
+        detector = new SensorGapDetector();
+    });
+
+    it('should report full completeness for evenly sampled readings', () => {
+        const readings = [0, 5, 10, 15].map(offset => createReading(offset));
+
+        const { readings: output, stats } = detector.detectGaps('imu-1', readings);
+
+        expect(output).toHaveLength(4);
+        expect(stats.gaps).toHaveLength(0);
+        expect(stats.completeness).toBe(1);
+    });
+
+    it('should tolerate timing jitter below the gap threshold', () => {
+        const readings = [0, 6, 10, 17].map(offset => createReading(offset));
+
+        const { stats } = detector.detectGaps('imu-1', readings);
+
+        expect(stats.gaps).toHaveLength(0);
+    });
+
+    it('should linearly interpolate short gaps', () => {
+        const readings = [createReading(0, [0]), createReading(20, [12])];
+
+        const { readings: output, stats } = detector.detectGaps('imu-1', readings);
+
+        expect(stats.gaps).toEqual([expect.objectContaining({
+            classification: 'jitter',
+            missingSamples: 3,
+            interpolated: true
+        })]);
+        expect(output.map(reading => reading.timestamp - baseTimestamp)).toEqual([0, 5, 10, 15, 20]);
+        expect(output.map(reading => reading.value[0])).toEqual([0, 3, 6, 9, 12]);
+        expect(output[1]!.confidence).toBeLessThan(1);
+        expect(stats.interpolatedSamples).toBe(3);
+        expect(stats.completeness).toBeCloseTo(2 / 5);
+    });
+
+    it('should hold the previous value when configured', () => {
+        const readings = [createReading(0, [4]), createReading(15, [10])];
+
+        const { readings: output } = detector.detectGaps('imu-1', readings, { interpolation: 'previous' });
+
+        expect(output.map(reading => reading.value[0])).toEqual([4, 4, 4, 10]);
+    });
+
+    it('should reproduce linear trends with cubic interpolation', () => {
+        const readings = [0, 5, 20, 25].map(offset => createReading(offset, [offset * 2]));
+
+        const { readings: output } = detector.detectGaps('imu-1', readings, { interpolation: 'cubic' });
+
+        [0, 10, 20, 30, 40, 50].forEach((expected, i) => {
+            expect(output[i]!.value[0]).toBeCloseTo(expected, 6);
+        });
+    });
+
+    it('should classify long gaps as dropouts without filling them', () => {
+        const readings = [createReading(0), createReading(500)];
+
+        const { readings: output, stats } = detector.detectGaps('imu-1', readings);
+
+        expect(output).toHaveLength(2);
+        expect(stats.gaps[0]).toEqual(expect.objectContaining({
+            classification: 'dropout',
+            missingSamples: 99,
+            interpolated: false
+        }));
+        expect(stats.longestGapMs).toBe(500);
+        expect(stats.completeness).toBeCloseTo(2 / 101);
+    });
+
+    it('should honour the configured sampling rate', () => {
+        const readings = [0, 10, 20].map(offset => createReading(offset));
+
+        expect(detector.detectGaps('imu-1', readings, { samplingRate: 100 }).stats.gaps).toHaveLength(0);
+    });
+
+    it('should detect gaps across packet boundaries', () => {
+        detector.detectGaps('imu-1', [createReading(0), createReading(imuInterval)]);
+
+        const { readings: output, stats } = detector.detectGaps('imu-1', [createReading(20), createReading(25)]);
+
+        expect(stats.gaps).toHaveLength(1);
+        expect(stats.gaps[0]!.start).toBe(baseTimestamp + imuInterval);
+        expect(output.map(reading => reading.timestamp - baseTimestamp)).toEqual([10, 15, 20, 25]);
+    });
+
+    it('should keep replay history separate from live history', () => {
+        detector.detectGaps('imu-1', [createReading(0)]);
+
+        const { stats } = detector.detectGaps('imu-1', [createReading(1000)], { scope: 'replay-1' });
+
+        expect(stats.gaps).toHaveLength(0);
+    });
+
+    it('should forget session history when the session is cleared', () => {
+        detector.detectGaps('imu-1', [createReading(0)], { scope: 'session-1' });
+        detector.detectGaps('imu-2', [createReading(0)], { scope: 'session-2' });
+
+        detector.clearSession('session-1');
+
+        expect(detector.detectGaps('imu-1', [createReading(1000)], { scope: 'session-1' }).stats.gaps).toHaveLength(0);
+        expect(detector.detectGaps('imu-2', [createReading(1000)], { scope: 'session-2' }).stats.gaps).toHaveLength(1);
+    });
+
+    it('should drop history of streams that stopped sending', () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(baseTimestamp);
+        detector.detectGaps('imu-1', [createReading(0)]);
+
+        now.mockReturnValue(baseTimestamp + GAP_DETECTION.historyIdleMs + 1);
+        detector.detectGaps('imu-2', [createReading(0)]);
+
+        expect(detector.detectGaps('imu-1', [createReading(1000)]).stats.gaps).toHaveLength(0);
+        now.mockRestore();
+    });
+
+    it('should track sensor types independently', () => {
+        const readings = [
+            createReading(0, [1], SENSOR_TYPES.IMU),
+            createReading(0, [300], SENSOR_TYPES.TOF),
+            createReading(5, [1], SENSOR_TYPES.IMU),
+            createReading(10, [301], SENSOR_TYPES.TOF)
+        ];
+
+        expect(detector.detectGaps('garment-1', readings).stats.gaps).toHaveLength(0);
+    });
+});
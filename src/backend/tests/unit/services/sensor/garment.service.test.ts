@@ -0,0 +1,267 @@
+import { GarmentService } from '../../../../src/services/sensor/garment.service';
+import { placementLocation, segmentCell, validateTemplate } from '../../../../src/services/sensor/garment.template';
+import { IGarmentPairing, IGarmentSlot, IGarmentTemplate } from '../../../../src/interfaces/garment.interface';
+import { GARMENT_TEMPLATES, SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/garment.repository', () => ({
+    GarmentRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+
+const slot = (overrides: Partial<IGarmentSlot> = {}): IGarmentSlot => ({
+    id: 'left_thigh_front',
+    segment: 'thigh',
+    side: 'left',
+    orientation: { roll: 0, pitch: 90, yaw: 0 },
+    sensorType: SENSOR_TYPES.IMU,
+    ...overrides
+});
+
+const shortsSlots = (): IGarmentSlot[] => [
+    slot(),
+    slot({ id: 'right_thigh_front', side: 'right' }),
+    slot({ id: 'left_quad_tof', sensorType: SENSOR_TYPES.TOF }),
+    slot({ id: 'pelvis_back', segment: 'pelvis', side: 'center', orientation: { roll: 180, pitch: 0, yaw: 0 } })
+];
+
+describe('garment template model', () => {
+    it('derives the same location key for a segment on every garment', () => {
+        expect(placementLocation('thigh', 'left')).toBe('left_thigh');
+        expect(placementLocation('pelvis', 'center')).toBe('pelvis');
+    });
+
+    it('mirrors right-side heat map cells and centers midline segments', () => {
+        const [row, col] = GARMENT_TEMPLATES.heatMapLayout.thigh;
+
+        expect(segmentCell('thigh', 'left')).toEqual({ row, col });
+        expect(segmentCell('thigh', 'right')).toEqual({ row, col: GARMENT_TEMPLATES.heatMapColumns - 1 - col });
+        expect(segmentCell('trunk', 'center').col).toBe(Math.floor(GARMENT_TEMPLATES.heatMapColumns / 2));
+    });
+
+    it('rejects invalid slots', () => {
+        expect(() => validateTemplate('shorts', [])).toThrow('at least one sensor slot');
+        expect(() => validateTemplate('shorts', [slot(), slot()])).toThrow('Duplicate slot ID left_thigh_front');
+        expect(() => validateTemplate('shorts', [slot({ id: 'Left Thigh' })])).toThrow('Invalid slot ID');
+        expect(() => validateTemplate('shorts', [slot({ segment: 'tail' as any })])).toThrow('unknown body segment tail');
+        expect(() => validateTemplate('shorts', [slot({ side: 'center' })])).toThrow('needs a left or right side');
+        expect(() => validateTemplate('shorts', [slot({ segment: 'trunk' })])).toThrow('must be on the center side');
+        expect(() => validateTemplate('shorts', [slot({ orientation: { roll: 0, pitch: 270, yaw: 0 } })]))
+            .toThrow('orientation angles must be between -180 and 180 degrees');
+        expect(() => validateTemplate('shorts', shortsSlots())).not.toThrow();
+    });
+});
+
+describe('GarmentService', () => {
+    let garmentService: GarmentService;
+    let templates: IGarmentTemplate[];
+    let pairings: IGarmentPairing[];
+    let activeBindings: Map<string, string>;
+    let sensors: Record<string, { id: string; type: SENSOR_TYPES }>;
+    let mockGarmentRepository: Record<string, jest.Mock>;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const registerShorts = () =>
+        garmentService.createTemplate({ name: 'compression shorts v2', slots: shortsSlots() }, 'admin-1');
+
+    beforeEach(() => {
+        templates = [];
+        pairings = [];
+        activeBindings = new Map();
+        sensors = {
+            'imu-1': { id: 'imu-1', type: SENSOR_TYPES.IMU },
+            'imu-2': { id: 'imu-2', type: SENSOR_TYPES.IMU },
+            'tof-1': { id: 'tof-1', type: SENSOR_TYPES.TOF }
+        };
+
+        mockGarmentRepository = {
+            createTemplate: jest.fn(async (template: Omit<IGarmentTemplate, 'id' | 'createdAt'>) => {
+                const stored = { ...template, id: `template-${templates.length + 1}`, createdAt: new Date() };
+                templates.push(stored);
+                return stored;
+            }),
+            getTemplate: jest.fn(async (id: string) => templates.find(template => template.id === id) ?? null),
+            getTemplateByName: jest.fn(async (name: string) => templates.find(template => template.name === name) ?? null),
+            listTemplates: jest.fn(async () => templates),
+            createPairing: jest.fn(async (pairing: Pick<IGarmentPairing, 'templateId' | 'athleteId' | 'bindings' | 'pairedBy'>) => {
+                const stored = { ...pairing, id: `pairing-${pairings.length + 1}`, pairedAt: new Date(), unpairedAt: null };
+                pairings.push(stored);
+                Object.values(pairing.bindings).forEach(sensorId => activeBindings.set(sensorId, stored.id));
+                return stored;
+            }),
+            getPairing: jest.fn(async (id: string) => pairings.find(pairing => pairing.id === id) ?? null),
+            getActivePairingIds: jest.fn(async (sensorIds: string[]) => new Map(
+                sensorIds.filter(id => activeBindings.has(id)).map(id => [id, activeBindings.get(id)!])
+            )),
+            unpair: jest.fn(async (id: string) => {
+                const pairing = pairings.find(candidate => candidate.id === id && !candidate.unpairedAt);
+                if (!pairing) {
+                    return null;
+                }
+                pairing.unpairedAt = new Date();
+                Object.values(pairing.bindings).forEach(sensorId => activeBindings.delete(sensorId));
+                return pairing;
+            })
+        };
+
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => sensors[id] ?? null),
+            bulkUpdateSensors: jest.fn().mockResolvedValue({ modifiedCount: 1 })
+        };
+
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        garmentService = new GarmentService(
+            mockGarmentRepository as any,
+            mockSensorRepository as any,
+            mockLogger as any
+        );
+    });
+
+    describe('createTemplate', () => {
+        it('registers a template once per name', async () => {
+            const template = await registerShorts();
+
+            expect(template.slots).toHaveLength(4);
+            expect(template.createdBy).toBe('admin-1');
+            await expect(registerShorts()).rejects.toThrow('Garment template compression shorts v2 already exists');
+        });
+    });
+
+    describe('pairGarment', () => {
+        it('binds sensors to slots and sets their location to the slot location', async () => {
+            const template = await registerShorts();
+
+            const pairing = await garmentService.pairGarment(
+                template.id,
+                { left_thigh_front: 'imu-1', left_quad_tof: 'tof-1' },
+                'athlete-1',
+                'coach-1'
+            );
+
+            expect(pairing.bindings).toEqual({ left_thigh_front: 'imu-1', left_quad_tof: 'tof-1' });
+            expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenCalledWith([
+                { id: 'imu-1', updates: { location: 'left_thigh' } },
+                { id: 'tof-1', updates: { location: 'left_thigh' } }
+            ]);
+        });
+
+        it('rejects unknown slots, sensors and sensor types', async () => {
+            const template = await registerShorts();
+
+            await expect(garmentService.pairGarment(template.id, { left_shank: 'imu-1' }, null, 'coach-1'))
+                .rejects.toThrow('Garment template compression shorts v2 has no slot left_shank');
+            await expect(garmentService.pairGarment(template.id, { left_thigh_front: 'imu-9' }, null, 'coach-1'))
+                .rejects.toThrow('Sensor imu-9 not found');
+            await expect(garmentService.pairGarment(template.id, { left_quad_tof: 'imu-1' }, null, 'coach-1'))
+                .rejects.toThrow('Slot left_quad_tof expects a tof sensor but sensor imu-1 is imu');
+            await expect(garmentService.pairGarment(template.id,
+                { left_thigh_front: 'imu-1', right_thigh_front: 'imu-1' }, null, 'coach-1'))
+                .rejects.toThrow('Sensor imu-1 is bound to more than one slot');
+            await expect(garmentService.pairGarment('template-9', { left_thigh_front: 'imu-1' }, null, 'coach-1'))
+                .rejects.toThrow('Garment template template-9 not found');
+        });
+
+        it('rejects sensors that are paired to another garment until it is unpaired', async () => {
+            const template = await registerShorts();
+            const first = await garmentService.pairGarment(template.id, { left_thigh_front: 'imu-1' }, null, 'coach-1');
+
+            await expect(garmentService.pairGarment(template.id, { right_thigh_front: 'imu-1' }, null, 'coach-1'))
+                .rejects.toThrow(`Sensor imu-1 is already paired; unpair garment pairing ${first.id} first`);
+
+            await garmentService.unpairGarment(first.id, 'coach-1');
+            await expect(garmentService.pairGarment(template.id, { right_thigh_front: 'imu-1' }, null, 'coach-1'))
+                .resolves.toEqual(expect.objectContaining({ bindings: { right_thigh_front: 'imu-1' } }));
+        });
+    });
+
+    describe('unpairGarment', () => {
+        it('rejects unknown and already unpaired garments', async () => {
+            const template = await registerShorts();
+            const pairing = await garmentService.pairGarment(template.id, { left_thigh_front: 'imu-1' }, null, 'coach-1');
+            await garmentService.unpairGarment(pairing.id, 'coach-1');
+
+            await expect(garmentService.unpairGarment(pairing.id, 'coach-1'))
+                .rejects.toThrow(`Garment pairing ${pairing.id} is already unpaired`);
+            await expect(garmentService.unpairGarment('pairing-9', 'coach-1'))
+                .rejects.toThrow('Garment pairing pairing-9 not found');
+        });
+    });
+
+    describe('resolvePlacement', () => {
+        it('resolves segment, side and orientation through the template', async () => {
+            const template = await registerShorts();
+            const pairing = await garmentService.pairGarment(template.id, { pelvis_back: 'imu-2' }, null, 'coach-1');
+
+            await expect(garmentService.resolvePlacement('imu-2')).resolves.toEqual({
+                sensorId: 'imu-2',
+                pairingId: pairing.id,
+                templateId: template.id,
+                templateName: 'compression shorts v2',
+                slotId: 'pelvis_back',
+                segment: 'pelvis',
+                side: 'center',
+                orientation: { roll: 180, pitch: 0, yaw: 0 },
+                location: 'pelvis'
+            });
+            await expect(garmentService.resolvePlacement('imu-1')).resolves.toBeNull();
+        });
+
+        it('caches placements until the sensor is paired or unpaired', async () => {
+            const template = await registerShorts();
+            await expect(garmentService.resolvePlacement('imu-1')).resolves.toBeNull();
+            await garmentService.resolvePlacement('imu-1');
+            expect(mockGarmentRepository.getActivePairingIds).toHaveBeenCalledTimes(1);
+
+            const pairing = await garmentService.pairGarment(template.id, { right_thigh_front: 'imu-1' }, null, 'coach-1');
+            await expect(garmentService.resolvePlacement('imu-1'))
+                .resolves.toEqual(expect.objectContaining({ location: 'right_thigh' }));
+
+            await garmentService.unpairGarment(pairing.id, 'coach-1');
+            await expect(garmentService.resolvePlacement('imu-1')).resolves.toBeNull();
+        });
+
+        it('resolves the placements of paired sensors only', async () => {
+            const template = await registerShorts();
+            await garmentService.pairGarment(template.id, { left_thigh_front: 'imu-1', left_quad_tof: 'tof-1' }, null, 'coach-1');
+
+            const placements = await garmentService.resolvePlacements(['imu-1', 'imu-2', 'tof-1']);
+
+            expect(Array.from(placements.keys())).toEqual(['imu-1', 'tof-1']);
+        });
+    });
+
+    describe('getSessionHeatMap', () => {
+        it('averages stored readings per segment through their recorded placements', async () => {
+            const template = await registerShorts();
+            await garmentService.pairGarment(template.id, { left_quad_tof: 'tof-1' }, null, 'coach-1');
+            const placement = await garmentService.resolvePlacement('tof-1');
+            const packet = (sensorId: string, values: number[], withPlacement: boolean) => ({
+                sensorId,
+                sessionId: 'session-1',
+                timestamp: 1000,
+                readings: values.map(value => ({ type: SENSOR_TYPES.TOF, value: [value], timestamp: 1000, confidence: 1 })),
+                metadata: { ...(withPlacement ? { placement } : {}) }
+            });
+            mockSensorRepository.streamSessionSensorData = jest.fn(async function* () {
+                yield [packet('tof-1', [10, 20], true), packet('tof-2', [500], false)];
+                yield [packet('tof-1', [30], true)];
+            });
+
+            const cells = await garmentService.getSessionHeatMap('session-1');
+
+            expect(mockSensorRepository.streamSessionSensorData).toHaveBeenCalledWith('session-1');
+            expect(cells).toEqual([{
+                location: 'left_thigh',
+                segment: 'thigh',
+                side: 'left',
+                ...segmentCell('thigh', 'left'),
+                value: 20,
+                sensorCount: 1
+            }]);
+            await expect(garmentService.getSessionHeatMap('session-1', SENSOR_TYPES.IMU)).resolves.toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import {
+    OrientationFilter,
+    quaternionFromEuler,
+    quaternionToEuler
+} from '../../../../src/services/sensor/orientation.fusion';
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { IGarmentSlot } from '../../../../src/interfaces/garment.interface';
+import { GRAVITY_MS2, SENSOR_SIMULATOR } from '../../../../src/constants/sensor.constants';
+
+describe('OrientationFilter', () => {
+    const startTime = 1700000000000;
+
+    /**
+     * Readings of a still IMU tilted by roll and pitch, at 200 Hz
+     */
+    const stillReadings = (seconds: number, roll: number, pitch: number, gyroBias = [0, 0, 0], from = startTime) => {
+        const r = roll * Math.PI / 180;
+        const p = pitch * Math.PI / 180;
+        const accel = [-Math.sin(p), Math.cos(p) * Math.sin(r), Math.cos(p) * Math.cos(r)].map(value => value * GRAVITY_MS2);
+        return Array.from({ length: seconds * 200 }, (_, index) => ({
+            timestamp: from + index * 5,
+            value: [...accel, ...gyroBias]
+        }));
+    };
+
+    it('levels the initial orientation from gravity', () => {
+        const estimate = new OrientationFilter(0.5).update(stillReadings(1, -20, 30));
+
+        expect(estimate.frame).toBe('sensor');
+        expect(estimate.samples).toHaveLength(200);
+        const { roll, pitch } = estimate.samples[199]!.euler;
+        expect(roll).toBeCloseTo(-20, 1);
+        expect(pitch).toBeCloseTo(30, 1);
+    });
+
+    it('estimates gyro bias on the axes gravity observes', () => {
+        const filter = new OrientationFilter(1.0);
+        const bias = [2, -1.5, 0];
+
+        let estimate = filter.update(stillReadings(30, 0, 0, bias));
+        estimate = filter.update(stillReadings(30, 0, 0, bias, startTime + 30000));
+
+        expect(estimate.gyroBias[0]).toBeCloseTo(2, 1);
+        expect(estimate.gyroBias[1]).toBeCloseTo(-1.5, 1);
+        const { roll, pitch } = estimate.samples[estimate.samples.length - 1]!.euler;
+        expect(Math.abs(roll)).toBeLessThan(0.5);
+        expect(Math.abs(pitch)).toBeLessThan(0.5);
+    });
+
+    it('drifts less with a higher drift correction', () => {
+        const finalPitch = (driftCorrection: number) => {
+            const estimate = new OrientationFilter(driftCorrection).update(stillReadings(10, 0, 0, [0, 5, 0]));
+            return Math.abs(estimate.samples[estimate.samples.length - 1]!.euler.pitch);
+        };
+
+        expect(finalPitch(2.0)).toBeLessThan(finalPitch(0.1));
+    });
+
+    it('ignores the accelerometer during impacts', () => {
+        const filter = new OrientationFilter(2.0);
+        filter.update(stillReadings(1, 0, 10));
+
+        const impact = Array.from({ length: 20 }, (_, index) => ({
+            timestamp: startTime + 1000 + index * 5,
+            value: [-3 * GRAVITY_MS2, 0, 0.5 * GRAVITY_MS2, 0, 0, 0]
+        }));
+        const estimate = filter.update(impact);
+
+        expect(estimate.samples[19]!.euler.pitch).toBeCloseTo(10, 1);
+    });
+
+    it('re-initializes from gravity after a long gap', () => {
+        const filter = new OrientationFilter(0.5);
+        filter.update(stillReadings(1, 0, 0));
+
+        const estimate = filter.update(stillReadings(1, 0, 45, [0, 0, 0], startTime + 5000));
+        expect(estimate.samples[0]!.euler.pitch).toBeCloseTo(45, 1);
+    });
+
+    it('rejects drift corrections outside the calibration range', () => {
+        expect(() => new OrientationFilter(5)).toThrow('IMU drift correction must be between 0.1 and 2');
+    });
+
+    it('tracks segment pitch through the slot mounting orientation', () => {
+        const slots = SENSOR_SIMULATOR.defaultSlots as unknown as IGarmentSlot[];
+        const simulator = new GarmentSimulator({
+            id: 'athlete-1',
+            sessionId: 'session-1',
+            activity: 'squats',
+            slots,
+            faults: NO_FAULTS,
+            seed: 7
+        }, startTime);
+        const packets = simulator.generate(startTime + 12000);
+
+        const pitchRange = (slotId: string): [number, number] => {
+            const slot = slots.find(candidate => candidate.id === slotId)!;
+            const filter = new OrientationFilter(0.5, slot.orientation);
+            const pitches = packets
+                .filter(packet => packet.sensorId === simulatorSensorId('athlete-1', slotId))
+                .flatMap(packet => filter.update(packet.readings).samples)
+                .filter(sample => sample.timestamp >= startTime + 4000)
+                .map(sample => sample.euler.pitch);
+            return [Math.min(...pitches), Math.max(...pitches)];
+        };
+
+        // The pelvis sensor is mounted facing backwards, so its raw pitch is inverted
+        const [pelvisMin, pelvisMax] = pitchRange('pelvis_back');
+        expect(Math.abs(pelvisMin)).toBeLessThan(3);
+        expect(pelvisMax).toBeGreaterThan(20);
+        expect(pelvisMax).toBeLessThan(31);
+
+        const [shankMin, shankMax] = pitchRange('left_shank_front');
+        expect(shankMin).toBeLessThan(-25);
+        expect(shankMin).toBeGreaterThan(-36);
+        expect(Math.abs(shankMax)).toBeLessThan(3);
+    });
+
+    it('converts between Euler angles and quaternions', () => {
+        const angles = { roll: 15, pitch: -40, yaw: 120 };
+        const euler = quaternionToEuler(quaternionFromEuler(angles));
+
+        expect(euler.roll).toBeCloseTo(15, 6);
+        expect(euler.pitch).toBeCloseTo(-40, 6);
+        expect(euler.yaw).toBeCloseTo(120, 6);
+    });
+});
@@ -0,0 +1,355 @@
+import { SensorHealthService } from '../../../../src/services/sensor/sensor.health.service';
+import {
+    countErrorEvents,
+    evaluateSensorHealth,
+    forecastCalibration,
+    measureDischargeRate,
+    SensorHealthInput
+} from '../../../../src/services/sensor/sensor.health';
+import { ICalibrationVersion } from '../../../../src/interfaces/calibration.interface';
+import {
+    IMaintenanceNotification,
+    IMaintenanceSchedule,
+    ISensorHealthUpdate,
+    ISensorTelemetry
+} from '../../../../src/interfaces/health.interface';
+import { SENSOR_HEALTH, SENSOR_STATUS } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor-health.repository', () => ({
+    SensorHealthRepository: jest.fn()
+}));
+jest.mock('../../../../src/services/sensor/calibration.history.service', () => ({
+    CalibrationHistoryService: jest.fn()
+}));
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+const now = new Date('2026-03-01T12:00:00Z');
+
+/**
+ * Hourly telemetry ending at now, one snapshot per battery level
+ */
+const telemetryOf = (levels: number[], status = SENSOR_STATUS.ACTIVE): ISensorTelemetry[] =>
+    levels.map((batteryLevel, i) => ({
+        sensorId: 'sensor-1',
+        recordedAt: new Date(now.getTime() - (levels.length - 1 - i) * HOUR_MS),
+        batteryLevel,
+        status
+    }));
+
+const versionAt = (daysAgo: number, qualityScore: number, version = 1): ICalibrationVersion => ({
+    id: `calibration-${version}`,
+    sensorId: 'sensor-1',
+    version,
+    params: {} as any,
+    operatorId: 'coach-1',
+    qualityScore,
+    environmentalConditions: {},
+    restoredFrom: null,
+    createdAt: new Date(now.getTime() - daysAgo * DAY_MS)
+});
+
+const healthyInput = (overrides: Partial<SensorHealthInput> = {}): SensorHealthInput => ({
+    sensorId: 'sensor-1',
+    batteryLevel: 90,
+    lastCalibration: new Date(now.getTime() - DAY_MS),
+    telemetry: telemetryOf([94, 92, 90]),
+    calibrationVersions: [versionAt(1, 0.95)],
+    temperatureWithinSpec: null,
+    packetLoss: 0,
+    lastMaintenance: null,
+    now,
+    ...overrides
+});
+
+describe('sensor health model', () => {
+    it('measures the discharge rate of the current cycle only', () => {
+        // A fast discharge before the charge is ignored
+        const telemetry = telemetryOf([80, 60, 40, 95, 93, 91, 89]);
+
+        expect(measureDischargeRate(telemetry)).toBeCloseTo(2, 5);
+    });
+
+    it('skips disconnected snapshots and needs a long enough cycle', () => {
+        const telemetry = [
+            ...telemetryOf([90, 88, 86]),
+            { sensorId: 'sensor-1', recordedAt: new Date(now.getTime() + HOUR_MS), batteryLevel: 50, status: SENSOR_STATUS.DISCONNECTED }
+        ];
+
+        expect(measureDischargeRate(telemetry)).toBeCloseTo(2, 5);
+        expect(measureDischargeRate(telemetryOf([90, 88]))).toBeNull();
+    });
+
+    it('forecasts remaining battery life and schedules a charge before the battery runs low', () => {
+        const report = evaluateSensorHealth(healthyInput({
+            batteryLevel: 30,
+            telemetry: telemetryOf([36, 33, 30])
+        }));
+
+        expect(report.battery.dischargeRate).toBeCloseTo(3, 5);
+        expect(report.battery.remainingHours).toBeCloseTo(10, 5);
+        expect(report.battery.hoursToLow).toBeCloseTo(3.3, 5);
+        expect(report.batteryHealth).toBe(100);
+        expect(report.issues).toEqual([expect.objectContaining({
+            reason: 'battery',
+            priority: 4,
+            scheduledTime: new Date(now.getTime() + 3.3 * HOUR_MS)
+        })]);
+    });
+
+    it('scores a battery that discharges faster than nominal as degraded', () => {
+        const rate = SENSOR_HEALTH.battery.nominalDischargeRate * 2;
+        const report = evaluateSensorHealth(healthyInput({
+            batteryLevel: 90,
+            telemetry: telemetryOf([90 + rate * 2, 90 + rate, 90])
+        }));
+
+        expect(report.battery.dischargeRate).toBeCloseTo(rate, 5);
+        expect(report.batteryHealth).toBe(50);
+        expect(report.issues).toEqual([expect.objectContaining({ reason: 'battery', priority: 3 })]);
+    });
+
+    it('brings recalibration forward when calibration quality declines', () => {
+        const versions = [versionAt(20, 0.98, 1), versionAt(10, 0.93, 2), versionAt(0, 0.88, 3)];
+
+        const forecast = forecastCalibration(versions, versions[2]!.createdAt, null, now);
+
+        // Quality falls 0.005 per day, reaching 0.8 sixteen days after the latest version
+        expect(forecast.qualityTrend).toBeCloseTo(-0.005, 4);
+        expect(forecast.daysRemaining).toBeCloseTo(16, 1);
+        expect(forecast.dueAt.getTime()).toBeLessThan(
+            now.getTime() + SENSOR_HEALTH.calibration.intervalDays * DAY_MS
+        );
+    });
+
+    it('reports recalibration as overdue without any calibration', () => {
+        const report = evaluateSensorHealth(healthyInput({ lastCalibration: null, calibrationVersions: [] }));
+
+        expect(report.calibrationHealth).toBe(0);
+        expect(report.issues).toEqual(expect.arrayContaining([
+            expect.objectContaining({ reason: 'calibration', priority: 4, description: 'Recalibration is overdue' })
+        ]));
+    });
+
+    it('counts transitions into the error state', () => {
+        const telemetry = [
+            SENSOR_STATUS.ACTIVE, SENSOR_STATUS.ERROR, SENSOR_STATUS.ERROR,
+            SENSOR_STATUS.ACTIVE, SENSOR_STATUS.ERROR, SENSOR_STATUS.ACTIVE
+        ].map((status, i) => ({ sensorId: 'sensor-1', recordedAt: new Date(i * HOUR_MS), batteryLevel: 90, status }));
+
+        expect(countErrorEvents(telemetry)).toBe(2);
+    });
+
+    it('raises packet loss, error and overall health issues', () => {
+        const errorTelemetry = Array.from({ length: 200 }, (_, i) => ({
+            sensorId: 'sensor-1',
+            recordedAt: new Date(now.getTime() - (200 - i) * HOUR_MS / 2),
+            batteryLevel: 90,
+            status: i % 2 === 0 ? SENSOR_STATUS.ERROR : SENSOR_STATUS.CONNECTING
+        }));
+
+        const report = evaluateSensorHealth(healthyInput({
+            telemetry: errorTelemetry,
+            packetLoss: SENSOR_HEALTH.packetLoss.max,
+            lastCalibration: null,
+            calibrationVersions: []
+        }));
+
+        expect(report.connectionQuality).toBe(0);
+        expect(report.errorHealth).toBe(0);
+        expect(report.overallHealth).toBeLessThan(SENSOR_HEALTH.minOverallHealth);
+        expect(report.issues.map(issue => issue.reason)).toEqual(['calibration', 'packet_loss', 'errors', 'health']);
+        expect(report.recommendations).toHaveLength(4);
+    });
+
+    it('reports a healthy sensor without issues', () => {
+        const report = evaluateSensorHealth(healthyInput());
+
+        expect(report.issues).toEqual([]);
+        expect(report.overallHealth).toBeGreaterThan(SENSOR_HEALTH.degradedHealth);
+    });
+});
+
+describe('SensorHealthService', () => {
+    let healthService: SensorHealthService;
+    let sensors: any[];
+    let maintenance: IMaintenanceSchedule[];
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockHealthRepository: Record<string, jest.Mock>;
+    let mockCalibrationHistoryService: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    beforeEach(() => {
+        sensors = [
+            { id: 'sensor-1', batteryLevel: 10, status: SENSOR_STATUS.ACTIVE, lastCalibration: new Date(now.getTime() - DAY_MS) },
+            { id: 'sensor-2', batteryLevel: 95, status: SENSOR_STATUS.ACTIVE, lastCalibration: new Date(now.getTime() - DAY_MS) }
+        ];
+        maintenance = [];
+
+        mockSensorRepository = {
+            listSensors: jest.fn(async () => sensors),
+            getSensor: jest.fn(async (id: string) => sensors.find(sensor => sensor.id === id) ?? null)
+        };
+
+        mockHealthRepository = {
+            recordTelemetry: jest.fn().mockResolvedValue(undefined),
+            getTelemetry: jest.fn().mockResolvedValue([]),
+            getPacketLoss: jest.fn().mockResolvedValue(0),
+            getLastCompletedMaintenance: jest.fn().mockResolvedValue(null),
+            createMaintenance: jest.fn(async (entry: any) => {
+                if (entry.reason !== 'manual' &&
+                    maintenance.some(open => open.sensorId === entry.sensorId && open.reason === entry.reason && open.status === 'scheduled')) {
+                    return null;
+                }
+                const stored = {
+                    ...entry,
+                    id: `maintenance-${maintenance.length + 1}`,
+                    status: 'scheduled',
+                    createdAt: now,
+                    completedAt: null
+                };
+                maintenance.push(stored);
+                return stored;
+            }),
+            cancelResolvedMaintenance: jest.fn().mockResolvedValue(0),
+            getSensorTeamAdmins: jest.fn().mockResolvedValue([
+                { teamId: 'team-1', adminIds: ['admin-1', 'admin-2'] },
+                { teamId: 'team-2', adminIds: [] }
+            ]),
+            closeMaintenance: jest.fn(async (id: string, status: string) => {
+                const entry = maintenance.find(open => open.id === id && open.status === 'scheduled');
+                if (!entry) {
+                    return null;
+                }
+                entry.status = status as any;
+                return entry;
+            }),
+            getMaintenance: jest.fn(async (id: string) => maintenance.find(entry => entry.id === id) ?? null)
+        };
+
+        mockCalibrationHistoryService = {
+            getHistory: jest.fn().mockResolvedValue([versionAt(1, 0.95)])
+        };
+
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        healthService = new SensorHealthService(
+            mockSensorRepository as any,
+            mockHealthRepository as any,
+            mockCalibrationHistoryService as any,
+            mockLogger as any
+        );
+    });
+
+    describe('runHealthChecks', () => {
+        it('snapshots telemetry and schedules maintenance for crossed thresholds', async () => {
+            const result = await healthService.runHealthChecks(now);
+
+            expect(mockHealthRepository.recordTelemetry).toHaveBeenCalledWith([
+                { sensorId: 'sensor-1', recordedAt: now, batteryLevel: 10, status: SENSOR_STATUS.ACTIVE },
+                { sensorId: 'sensor-2', recordedAt: now, batteryLevel: 95, status: SENSOR_STATUS.ACTIVE }
+            ]);
+            expect(result.evaluated).toBe(2);
+            expect(result.scheduled).toEqual([
+                expect.objectContaining({ sensorId: 'sensor-1', reason: 'battery', priority: 5, createdBy: null })
+            ]);
+            expect(result.failures).toEqual([]);
+            expect(mockHealthRepository.cancelResolvedMaintenance).toHaveBeenCalledWith('sensor-2', []);
+        });
+
+        it('notifies the admins of teams using the sensor once per new entry', async () => {
+            const notifications: IMaintenanceNotification[] = [];
+            healthService.notifications.subscribe(notification => notifications.push(notification));
+
+            await healthService.runHealthChecks(now);
+            await healthService.runHealthChecks(now);
+
+            expect(notifications).toEqual([{
+                maintenance: expect.objectContaining({ sensorId: 'sensor-1', reason: 'battery' }),
+                teamId: 'team-1',
+                recipientIds: ['admin-1', 'admin-2']
+            }]);
+            expect(maintenance).toHaveLength(1);
+        });
+
+        it('publishes health metrics of every evaluated sensor', async () => {
+            const updates: ISensorHealthUpdate[] = [];
+            healthService.healthUpdates.subscribe(update => updates.push(update));
+
+            await healthService.runHealthChecks(now);
+
+            expect(updates.filter(update => update.metric === 'overallHealth')).toHaveLength(2);
+            expect(updates.every(update => ['healthy', 'degraded', 'critical'].includes(update.status))).toBe(true);
+        });
+
+        it('records failures without stopping the check', async () => {
+            mockHealthRepository.getPacketLoss!.mockRejectedValueOnce(new Error('connection reset'));
+
+            const result = await healthService.runHealthChecks(now);
+
+            expect(result.evaluated).toBe(1);
+            expect(result.failures).toEqual([{ sensorId: 'sensor-1', error: 'connection reset' }]);
+        });
+
+        it('shares a check in progress between concurrent calls', async () => {
+            const [first, second] = await Promise.all([
+                healthService.runHealthChecks(now),
+                healthService.runHealthChecks(now)
+            ]);
+
+            expect(first).toBe(second);
+            expect(mockSensorRepository.listSensors).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('scheduleMaintenance', () => {
+        const request = {
+            scheduledTime: new Date(Date.now() + DAY_MS),
+            description: 'Replace strap',
+            duration: 20
+        };
+
+        it('schedules manual maintenance with a default priority', async () => {
+            const entry = await healthService.scheduleMaintenance('sensor-2', request, 'coach-1');
+
+            expect(entry).toEqual(expect.objectContaining({
+                sensorId: 'sensor-2',
+                reason: 'manual',
+                priority: 2,
+                createdBy: 'coach-1'
+            }));
+        });
+
+        it('rejects unknown sensors and invalid requests', async () => {
+            await expect(healthService.scheduleMaintenance('missing', request, 'coach-1'))
+                .rejects.toThrow('Sensor missing not found');
+            await expect(healthService.scheduleMaintenance('sensor-2',
+                { ...request, scheduledTime: new Date(Date.now() - DAY_MS) }, 'coach-1'))
+                .rejects.toThrow('Maintenance must be scheduled in the future');
+            await expect(healthService.scheduleMaintenance('sensor-2', { ...request, duration: 0 }, 'coach-1'))
+                .rejects.toThrow('Maintenance duration must be a positive number of minutes');
+            await expect(healthService.scheduleMaintenance('sensor-2', { ...request, priority: 9 }, 'coach-1'))
+                .rejects.toThrow('Maintenance priority must be between 1 and 5');
+        });
+    });
+
+    describe('completeMaintenance', () => {
+        it('completes a scheduled entry once', async () => {
+            const entry = await healthService.scheduleMaintenance('sensor-2', {
+                scheduledTime: new Date(Date.now() + DAY_MS),
+                description: 'Inspect housing',
+                duration: 10
+            }, 'coach-1');
+
+            await expect(healthService.completeMaintenance(entry.id, 'coach-1'))
+                .resolves.toEqual(expect.objectContaining({ status: 'completed' }));
+            await expect(healthService.completeMaintenance(entry.id, 'coach-1'))
+                .rejects.toThrow(`Maintenance ${entry.id} is already completed`);
+            await expect(healthService.cancelMaintenance('unknown', 'coach-1'))
+                .rejects.toThrow('Maintenance unknown not found');
+        });
+    });
+});
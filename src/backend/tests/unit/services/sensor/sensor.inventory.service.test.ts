@@ -0,0 +1,213 @@
+import { SensorInventoryService } from '../../../../src/services/sensor/sensor.inventory.service';
+import { IInventorySensor, ISensorAssignment, InventoryState } from '../../../../src/interfaces/inventory.interface';
+
+jest.mock('../../../../src/db/repositories/sensor-inventory.repository', () => ({
+    SensorInventoryRepository: jest.fn()
+}));
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+
+describe('SensorInventoryService', () => {
+    let inventoryService: SensorInventoryService;
+    let inventory: Map<string, Omit<IInventorySensor, 'assignment'>>;
+    let assignments: ISensorAssignment[];
+    let mockInventoryRepository: Record<string, jest.Mock>;
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3600000);
+
+    const withAssignment = (sensor: Omit<IInventorySensor, 'assignment'>): IInventorySensor => ({
+        ...sensor,
+        assignment: assignments.find(assignment => assignment.sensorId === sensor.sensorId && !assignment.returnedAt) ?? null
+    });
+
+    beforeEach(() => {
+        inventory = new Map();
+        assignments = [];
+
+        mockInventoryRepository = {
+            registerSensors: jest.fn(async (teamId: string, sensorIds: string[], registeredBy: string) =>
+                sensorIds.map(sensorId => {
+                    const sensor = {
+                        sensorId,
+                        teamId,
+                        state: 'available' as InventoryState,
+                        notes: null,
+                        registeredBy,
+                        registeredAt: new Date(),
+                        stateChangedAt: new Date()
+                    };
+                    inventory.set(sensorId, sensor);
+                    return withAssignment(sensor);
+                })),
+            getSensors: jest.fn(async (sensorIds: string[]) => sensorIds
+                .filter(sensorId => inventory.has(sensorId))
+                .map(sensorId => withAssignment(inventory.get(sensorId)!))),
+            listSensors: jest.fn(async (teamId: string) => Array.from(inventory.values())
+                .filter(sensor => sensor.teamId === teamId)
+                .map(withAssignment)),
+            transferSensor: jest.fn(async (sensorId: string, teamId: string) => {
+                inventory.get(sensorId)!.teamId = teamId;
+                return true;
+            }),
+            checkout: jest.fn(async (sensorId: string, athleteId: string, at: Date, userId: string) => {
+                const sensor = inventory.get(sensorId)!;
+                if (sensor.state !== 'available') {
+                    return null;
+                }
+                sensor.state = 'checked_out';
+                const assignment: ISensorAssignment = {
+                    id: `assignment-${assignments.length + 1}`,
+                    sensorId,
+                    athleteId,
+                    teamId: sensor.teamId,
+                    checkedOutAt: at,
+                    returnedAt: null,
+                    endReason: null,
+                    checkedOutBy: userId,
+                    returnedBy: null
+                };
+                assignments.push(assignment);
+                return assignment;
+            }),
+            transition: jest.fn(async (sensorId: string, from: InventoryState[], to: InventoryState, change: any) => {
+                const sensor = inventory.get(sensorId)!;
+                if (!from.includes(sensor.state)) {
+                    return false;
+                }
+                sensor.state = to;
+                const open = assignments.find(assignment => assignment.sensorId === sensorId && !assignment.returnedAt);
+                if (open && change.endReason) {
+                    Object.assign(open, { returnedAt: change.at, returnedBy: change.userId, endReason: change.endReason });
+                }
+                return true;
+            }),
+            getAssignments: jest.fn(async (sensorId: string, from?: Date) => assignments.filter(assignment =>
+                assignment.sensorId === sensorId
+                && (!from || !assignment.returnedAt || assignment.returnedAt > from))),
+            isTeamAthlete: jest.fn(async (teamId: string, athleteId: string) =>
+                teamId === 'team-1' && athleteId.startsWith('athlete-'))
+        };
+
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => (id.startsWith('imu-') ? { id } : null))
+        };
+
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        inventoryService = new SensorInventoryService(
+            mockInventoryRepository as any,
+            mockSensorRepository as any,
+            mockLogger as any
+        );
+    });
+
+    describe('registerSensors', () => {
+        it('registers existing sensors to one team only', async () => {
+            const sensors = await inventoryService.registerSensors('team-1', ['imu-1', 'imu-2'], 'admin-1');
+
+            expect(sensors.map(sensor => sensor.state)).toEqual(['available', 'available']);
+            await expect(inventoryService.registerSensors('team-2', ['imu-2'], 'admin-2'))
+                .rejects.toThrow('Sensor imu-2 is already registered to team team-1');
+            await expect(inventoryService.registerSensors('team-1', ['tof-9'], 'admin-1'))
+                .rejects.toThrow('Sensor tof-9 not found');
+            await expect(inventoryService.registerSensors('team-1', ['imu-3', 'imu-3'], 'admin-1'))
+                .rejects.toThrow('Each sensor can be registered once');
+        });
+    });
+
+    describe('checkout and return', () => {
+        beforeEach(async () => {
+            await inventoryService.registerSensors('team-1', ['imu-1'], 'admin-1');
+        });
+
+        it('checks a sensor out to one team athlete at a time', async () => {
+            const assignment = await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1');
+
+            expect(assignment).toEqual(expect.objectContaining({ athleteId: 'athlete-1', teamId: 'team-1', returnedAt: null }));
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1'))
+                .rejects.toThrow('Sensor imu-1 is already checked out to athlete athlete-1');
+        });
+
+        it('rejects athletes of other teams and future times', async () => {
+            await expect(inventoryService.checkoutSensor('imu-1', 'guest-1', 'coach-1'))
+                .rejects.toThrow('Athlete guest-1 is not a member of team team-1');
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1', hoursAgo(-1)))
+                .rejects.toThrow('Assignment times cannot be in the future');
+        });
+
+        it('records swaps after the fact without overlapping earlier assignments', async () => {
+            await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1', hoursAgo(5));
+            await inventoryService.returnSensor('imu-1', 'coach-1', hoursAgo(3));
+
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1', hoursAgo(4)))
+                .rejects.toThrow(/^Sensor imu-1 was checked out to athlete athlete-1 until .+; checkouts cannot overlap$/);
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1', hoursAgo(2)))
+                .resolves.toEqual(expect.objectContaining({ athleteId: 'athlete-2' }));
+        });
+
+        it('rejects returns of sensors that are not checked out or before checkout', async () => {
+            await expect(inventoryService.returnSensor('imu-1', 'coach-1')).rejects.toThrow('Sensor imu-1 is not checked out');
+
+            await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1', hoursAgo(2));
+            await expect(inventoryService.returnSensor('imu-1', 'coach-1', hoursAgo(3)))
+                .rejects.toThrow('Sensor imu-1 cannot be returned before it was checked out');
+
+            await expect(inventoryService.returnSensor('imu-1', 'coach-1'))
+                .resolves.toEqual(expect.objectContaining({ endReason: 'returned', returnedBy: 'coach-1' }));
+        });
+    });
+
+    describe('lost and retired sensors', () => {
+        beforeEach(async () => {
+            await inventoryService.registerSensors('team-1', ['imu-1'], 'admin-1');
+        });
+
+        it('ends the assignment of a sensor reported lost and blocks checkouts until found', async () => {
+            await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1', hoursAgo(1));
+
+            const lost = await inventoryService.reportLost('imu-1', 'coach-1', 'left at the track');
+            expect(lost.state).toBe('lost');
+            expect(assignments[0]!.endReason).toBe('lost');
+
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1'))
+                .rejects.toThrow('Sensor imu-1 is lost and cannot be checked out');
+
+            await inventoryService.reportFound('imu-1', 'coach-1');
+            await expect(inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1')).resolves.toBeDefined();
+        });
+
+        it('retires returned sensors permanently', async () => {
+            await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1');
+            await expect(inventoryService.retireSensor('imu-1', 'admin-1'))
+                .rejects.toThrow('Sensor imu-1 is checked out and cannot be retired');
+
+            await inventoryService.returnSensor('imu-1', 'coach-1');
+            await expect(inventoryService.retireSensor('imu-1', 'admin-1', 'cracked housing'))
+                .resolves.toEqual(expect.objectContaining({ state: 'retired' }));
+            await expect(inventoryService.transferSensor('imu-1', 'team-2', 'admin-1'))
+                .rejects.toThrow('Sensor imu-1 is retired and cannot be transferred');
+        });
+    });
+
+    describe('resolveAthlete', () => {
+        it('attributes data to the athlete holding the sensor at the time, across swaps', async () => {
+            await inventoryService.registerSensors('team-1', ['imu-1'], 'admin-1');
+            await inventoryService.checkoutSensor('imu-1', 'athlete-1', 'coach-1', hoursAgo(6));
+            await inventoryService.returnSensor('imu-1', 'coach-1', hoursAgo(4));
+            await inventoryService.checkoutSensor('imu-1', 'athlete-2', 'coach-1', hoursAgo(2));
+
+            await expect(inventoryService.resolveAthlete('imu-1', hoursAgo(7).getTime())).resolves.toBeNull();
+            await expect(inventoryService.resolveAthlete('imu-1', hoursAgo(5).getTime())).resolves.toBe('athlete-1');
+            await expect(inventoryService.resolveAthlete('imu-1', hoursAgo(3).getTime())).resolves.toBeNull();
+            await expect(inventoryService.resolveAthlete('imu-1', Date.now())).resolves.toBe('athlete-2');
+            expect(mockInventoryRepository.getAssignments).toHaveBeenCalledTimes(3);
+
+            // A return refreshes the cached history
+            await inventoryService.returnSensor('imu-1', 'coach-1');
+            await expect(inventoryService.resolveAthlete('imu-1', Date.now() + 1000)).resolves.toBeNull();
+        });
+    });
+});
@@ -0,0 +1,328 @@
+import { TemperatureCompensationService } from '../../../../src/services/sensor/temperature.compensation.service';
+import { compensateReadings } from '../../../../src/services/sensor/temperature.compensation';
+import { ITemperatureModel } from '../../../../src/interfaces/calibration.interface';
+import { ISensorCalibrationParams, ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { SENSOR_DATA_ROLLUPS, SENSOR_STATUS, SENSOR_TYPES, TEMPERATURE_COMPENSATION } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+jest.mock('../../../../src/services/sensor/calibration.history.service', () => ({
+    CalibrationHistoryService: jest.fn()
+}));
+
+describe('TemperatureCompensationService', () => {
+    const sensorId = 'sensor-1';
+    const range = { start: 0, end: 3600000 };
+
+    let service: TemperatureCompensationService;
+    let sensor: { id: string; type: SENSOR_TYPES; status: SENSOR_STATUS; calibrationParams: ISensorCalibrationParams };
+    let packets: ISensorData[];
+    let mockSensorRepository: Record<string, jest.Mock>;
+    let mockHistoryService: Record<string, jest.Mock>;
+
+    const params: ISensorCalibrationParams = {
+        tofGain: 8,
+        imuDriftCorrection: 0.5,
+        pressureThreshold: 1.0,
+        sampleWindow: 100,
+        filterCutoff: 2,
+        calibrationMatrix: [],
+        temperatureCompensation: 0
+    };
+
+    /**
+     * Builds a packet of ten readings logged at a temperature; gyro channels carry the bias
+     * plus an alternating swing of the given size
+     */
+    const imuPacket = (temperature: number, bias: number, swing = 0.1): ISensorData => ({
+        sensorId,
+        sessionId: 'session-1',
+        timestamp: temperature * 1000,
+        readings: Array.from({ length: 10 }, (_, index) => {
+            const gyro = bias + (index % 2 === 0 ? swing : -swing);
+            return {
+                type: SENSOR_TYPES.IMU,
+                value: [0, 0, 9.81, gyro, gyro, gyro],
+                timestamp: temperature * 1000 + index * 5,
+                confidence: 0.95,
+                rawData: Buffer.alloc(0)
+            };
+        }),
+        metadata: {
+            calibrationVersion: 'cal-v1',
+            processingSteps: [],
+            quality: 1,
+            environmentalFactors: { skinTemperature: temperature },
+            processingLatency: 0
+        },
+        dataQuality: 1
+    });
+
+    const tofPacket = (temperature: number, load: number): ISensorData => ({
+        ...imuPacket(temperature, 0),
+        readings: Array.from({ length: 10 }, (_, index) => ({
+            type: SENSOR_TYPES.TOF,
+            value: [load],
+            timestamp: temperature * 1000 + index * 10,
+            confidence: 0.95,
+            rawData: Buffer.alloc(0)
+        }))
+    });
+
+    /**
+     * Logs one still packet per half degree across a temperature range
+     */
+    const logRange = (from: number, to: number, bias: (temperature: number) => number): ISensorData[] => {
+        const logged: ISensorData[] = [];
+        for (let temperature = from; temperature <= to; temperature += 0.5) {
+            logged.push(imuPacket(temperature, bias(temperature)));
+        }
+        return logged;
+    };
+
+    const fittedModel = (): ITemperatureModel =>
+        mockHistoryService.recordCalibration!.mock.calls[0][1].temperatureModel;
+
+    beforeEach(() => {
+        packets = [];
+        sensor = { id: sensorId, type: SENSOR_TYPES.IMU, status: SENSOR_STATUS.ACTIVE, calibrationParams: { ...params } };
+
+        mockSensorRepository = {
+            getSensor: jest.fn(async (id: string) => (id === sensorId ? sensor : null)),
+            getSensorData: jest.fn(async () => ({
+                sensorId,
+                resolution: 'raw',
+                bucketMs: 0,
+                data: packets,
+                truncated: false
+            })),
+            bulkUpdateSensors: jest.fn().mockResolvedValue({ modifiedCount: 1 })
+        };
+        mockHistoryService = {
+            recordCalibration: jest.fn(async (id: string, calibrationParams: ISensorCalibrationParams) => ({
+                id: 'calibration-2',
+                sensorId: id,
+                version: 2,
+                params: calibrationParams,
+                createdAt: new Date()
+            }))
+        };
+
+        service = new TemperatureCompensationService(
+            mockSensorRepository as any,
+            mockHistoryService as any,
+            { info: jest.fn(), error: jest.fn() } as any
+        );
+    });
+
+    describe('fitModel', () => {
+        it('fits the gyro bias slope from still packets and applies it as a calibration version', async () => {
+            packets = logRange(20, 35, temperature => 0.3 + 0.1 * (temperature - 25));
+
+            const record = await service.fitModel(sensorId, range, 'coach-1');
+            const model = fittedModel();
+
+            expect(mockSensorRepository.getSensorData).toHaveBeenCalledWith(
+                expect.objectContaining({ sensorId, resolution: 'raw', maxPoints: SENSOR_DATA_ROLLUPS.maxPoints })
+            );
+            expect(model.factor).toBe('skinTemperature');
+            expect(model.channels.map(channel => channel.channel)).toEqual([3, 4, 5]);
+            expect(model.channels[0]!.coefficients).toHaveLength(2);
+            expect(model.channels[0]!.coefficients[0]).toBeCloseTo(0.3, 6);
+            expect(model.channels[0]!.coefficients[1]).toBeCloseTo(0.1, 6);
+            expect(model.temperatureRange).toEqual({ min: 20, max: 35 });
+            expect(model.residualDrift.withinSpec).toBe(true);
+            expect(record.params.temperatureCompensation).toBeCloseTo(0.1, 6);
+
+            expect(mockSensorRepository.bulkUpdateSensors).toHaveBeenCalledWith([{
+                id: sensorId,
+                updates: expect.objectContaining({ calibrationParams: record.params })
+            }]);
+            expect(mockHistoryService.recordCalibration).toHaveBeenCalledWith(sensorId, record.params, {
+                operatorId: 'coach-1',
+                qualityScore: expect.closeTo(1, 6),
+                environmentalConditions: { minTemperature: 20, maxTemperature: 35 }
+            });
+        });
+
+        it('pages through ranges holding more packets than a single query returns', async () => {
+            packets = logRange(20, 35, temperature => 0.3 + 0.1 * (temperature - 25));
+            const pages = [packets.slice(0, 20), packets.slice(20)];
+            mockSensorRepository.getSensorData!
+                .mockResolvedValueOnce({ sensorId, resolution: 'raw', bucketMs: 0, data: pages[0], truncated: true })
+                .mockResolvedValueOnce({ sensorId, resolution: 'raw', bucketMs: 0, data: pages[1], truncated: false });
+
+            await service.fitModel(sensorId, range, 'coach-1');
+
+            expect(mockSensorRepository.getSensorData).toHaveBeenCalledTimes(2);
+            expect(mockSensorRepository.getSensorData!.mock.calls[0][0]).not.toHaveProperty('after');
+            expect(mockSensorRepository.getSensorData!.mock.calls[1][0]).toMatchObject({ after: pages[0]![19]!.timestamp });
+            expect(fittedModel().sampleCount).toBe(packets.length);
+        });
+
+        it('rejects ranges holding more packets than a fit reads', async () => {
+            packets = logRange(20, 35, () => 0);
+            mockSensorRepository.getSensorData!.mockResolvedValue({
+                sensorId,
+                resolution: 'raw',
+                bucketMs: 0,
+                data: Array(TEMPERATURE_COMPENSATION.maxPackets / 2 + 1).fill(packets[0]),
+                truncated: true
+            });
+
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow(`holds more than ${TEMPERATURE_COMPENSATION.maxPackets} packets`);
+            expect(mockSensorRepository.bulkUpdateSensors).not.toHaveBeenCalled();
+        });
+
+        it('fits a quadratic term when the logged temperatures span enough of the range', async () => {
+            packets = logRange(10, 40, temperature => 0.2 + 0.05 * (temperature - 25) + 0.004 * (temperature - 25) ** 2);
+
+            await service.fitModel(sensorId, range, 'coach-1');
+
+            const [constant, slope, curvature] = fittedModel().channels[0]!.coefficients;
+            expect(constant).toBeCloseTo(0.2, 6);
+            expect(slope).toBeCloseTo(0.05, 6);
+            expect(curvature).toBeCloseTo(0.004, 6);
+            expect(fittedModel().residualDrift.bands.map(band => band.sampleCount)).toEqual([16, 28, 17]);
+        });
+
+        it('reports the bands in which the bias left after compensation is out of spec', async () => {
+            // A linear fit cannot follow the extra bias that appears above 32°C
+            packets = logRange(18, 34, temperature => 0.1 * (temperature - 25) + (temperature >= 32 ? 2 : 0));
+
+            await service.fitModel(sensorId, range, 'coach-1');
+            const drift = fittedModel().residualDrift;
+
+            expect(drift.withinSpec).toBe(false);
+            expect(drift.bands.find(band => band.band === 'hot')!.withinSpec).toBe(false);
+            expect(drift.bands.find(band => band.band === 'cold')).toMatchObject({
+                sampleCount: 0,
+                maxResidual: null,
+                withinSpec: null
+            });
+        });
+
+        it('skips packets in which the IMU was moving', async () => {
+            packets = [
+                ...logRange(20, 35, temperature => 0.1 * (temperature - 25)),
+                ...logRange(20, 35, () => 50).map(packet => imuPacket(
+                    packet.metadata.environmentalFactors.skinTemperature!, 0, 40
+                ))
+            ];
+
+            await service.fitModel(sensorId, range, 'coach-1');
+
+            expect(fittedModel().sampleCount).toBe(31);
+            expect(fittedModel().channels[0]!.coefficients[1]).toBeCloseTo(0.1, 6);
+        });
+
+        it('fits the ToF load offset from unloaded packets only', async () => {
+            sensor.type = SENSOR_TYPES.TOF;
+            packets = [];
+            for (let temperature = 20; temperature <= 35; temperature += 0.5) {
+                packets.push(tofPacket(temperature, 0.02 * (temperature - 25)));
+                packets.push(tofPacket(temperature, 70));
+            }
+
+            await service.fitModel(sensorId, range, 'coach-1');
+
+            expect(fittedModel().channels).toEqual([
+                { channel: 0, coefficients: [expect.closeTo(0, 6), expect.closeTo(0.02, 6)] }
+            ]);
+            expect(fittedModel().sampleCount).toBe(31);
+        });
+
+        it('rejects fits without enough usable packets or temperature spread', async () => {
+            packets = logRange(20, 30, () => 0).slice(0, 10);
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow('Only 10 usable packets were logged; at least 30 are needed');
+
+            packets = [...logRange(22, 28, () => 0), ...logRange(22, 28, () => 0), ...logRange(22, 28, () => 0)];
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow('Logged temperatures span 6.0°C; at least 8°C are needed');
+
+            packets = logRange(20, 35, () => 0).map(packet => ({
+                ...packet,
+                metadata: { ...packet.metadata, environmentalFactors: {} }
+            }));
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow(`No temperature was logged with the data of sensor ${sensorId}`);
+
+            expect(mockSensorRepository.bulkUpdateSensors).not.toHaveBeenCalled();
+        });
+
+        it('does not fit sensors that are being calibrated or updated', async () => {
+            sensor.status = SENSOR_STATUS.CALIBRATING;
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow('Sensor is already being calibrated');
+
+            sensor.status = SENSOR_STATUS.UPDATING;
+            await expect(service.fitModel(sensorId, range, 'coach-1'))
+                .rejects.toThrow(`Sensor ${sensorId} cannot be calibrated during a firmware update`);
+
+            await expect(service.fitModel('missing', range, 'coach-1')).rejects.toThrow('Sensor missing not found');
+        });
+    });
+
+    describe('getModel', () => {
+        it('returns the fitted model of the sensor', async () => {
+            packets = logRange(20, 35, temperature => 0.1 * (temperature - 25));
+            const record = await service.fitModel(sensorId, range, 'coach-1');
+            sensor.calibrationParams = record.params;
+
+            await expect(service.getModel(sensorId)).resolves.toBe(fittedModel());
+        });
+
+        it('rejects sensors without a fitted model', async () => {
+            await expect(service.getModel(sensorId))
+                .rejects.toThrow(`Temperature model of sensor ${sensorId} not found`);
+        });
+    });
+
+    describe('compensateReadings', () => {
+        let model: ITemperatureModel;
+
+        beforeEach(async () => {
+            packets = logRange(20, 35, temperature => 0.3 + 0.1 * (temperature - 25));
+            await service.fitModel(sensorId, range, 'coach-1');
+            model = fittedModel();
+        });
+
+        it('removes the temperature-dependent bias from the compensated channels', () => {
+            const packet = imuPacket(30, 0.8, 0);
+            const { readings, compensation } = compensateReadings(packet.readings, model, packet.metadata);
+
+            expect(readings[0]!.value.slice(0, 3)).toEqual([0, 0, 9.81]);
+            readings[0]!.value.slice(3).forEach(value => expect(value).toBeCloseTo(0.3, 6));
+            expect(compensation).toMatchObject({
+                factor: 'skinTemperature',
+                temperature: 30,
+                band: 'normal',
+                extrapolated: false,
+                withinSpec: true
+            });
+            expect(compensation!.corrections[3]).toBeCloseTo(0.5, 6);
+        });
+
+        it('leaves readings at the reference temperature and packets without temperature unchanged', () => {
+            const atReference = imuPacket(25, 0.3, 0);
+            compensateReadings(atReference.readings, model, atReference.metadata).readings[0]!.value
+                .slice(3).forEach(value => expect(value).toBeCloseTo(0.3, 9));
+
+            const withoutTemperature = { ...atReference.metadata, environmentalFactors: { ambientTemperature: 30 } };
+            expect(compensateReadings(atReference.readings, model, withoutTemperature))
+                .toEqual({ readings: atReference.readings, compensation: null });
+        });
+
+        it('clamps corrections beyond the extrapolation margin and flags them', () => {
+            const packet = imuPacket(50, 0, 0);
+            const { compensation } = compensateReadings(packet.readings, model, packet.metadata);
+
+            // Fitted up to 35°C, trusted up to 40°C
+            expect(compensation!.corrections[3]).toBeCloseTo(1.5, 6);
+            expect(compensation).toMatchObject({ band: 'hot', extrapolated: true });
+        });
+    });
+});
@@ -0,0 +1,207 @@
+import { SensorTimeSynchronizer } from '../../../../src/services/sensor/time.synchronizer';
+import { ISensorData, ISensorReading } from '../../../../src/interfaces/sensor.interface';
+import { SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+describe('SensorTimeSynchronizer', () => {
+    const sessionId = '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40';
+    const baseTimestamp = 1700000000000;
+
+    let synchronizer: SensorTimeSynchronizer;
+
+    const createReading = (timestamp: number, value: number[], type = SENSOR_TYPES.IMU): ISensorReading => ({
+        type,
+        value,
+        timestamp,
+        confidence: 1,
+        rawData: Buffer.alloc(0)
+    });
+
+    const createPacket = (sensorId: string, readings: ISensorReading[]): ISensorData => ({
+        sensorId,
+        sessionId,
+        timestamp: readings[0]?.timestamp ?? baseTimestamp,
+        readings,
+        metadata: {
+            calibrationVersion: '1.0.0',
+            processingSteps: [],
+            quality: 95,
+            environmentalFactors: {},
+            processingLatency: 5
+        },
+        dataQuality: 95
+    });
+
+    // Deterministic bursts of movement so the activity signal has distinct peaks to correlate
+    const movement = (t: number): number => {
+        const phase = (t - baseTimestamp) / 1000;
+        return 1 + Math.sin(phase * 7) * Math.sin(phase * 1.3) + (Math.floor(phase * 3) % 4 === 0 ? 2 : 0);
+    };
+
+    beforeEach(() => {
+        synchronizer = new SensorTimeSynchronizer();
+    });
+
+    it('should fit clock offset and drift from sync events', () => {
+        // Sensor clock starts 40ms behind the session clock and runs 100ppm slow
+        [0, 10000, 20000, 30000].forEach(elapsed => {
+            synchronizer.recordSyncEvent(sessionId, 'imu-1', {
+                sensorTimestamp: baseTimestamp + elapsed,
+                sessionTimestamp: baseTimestamp + elapsed + 40 + elapsed * 100e-6
+            });
+        });
+
+        const model = synchronizer.getAlignment(sessionId)?.sensors[0];
+        expect(model?.method).toBe('sync_events');
+        expect(model?.offsetMs).toBeCloseTo(40, 6);
+        expect(model?.driftPpm).toBeCloseTo(100, 3);
+        expect(model?.residualMs).toBeCloseTo(0, 6);
+    });
+
+    it('should fall back to a constant offset for a single sync event', () => {
+        const model = synchronizer.recordSyncEvent(sessionId, 'imu-1', {
+            sensorTimestamp: baseTimestamp,
+            sessionTimestamp: baseTimestamp + 25
+        });
+
+        expect(model.offsetMs).toBe(25);
+        expect(model.driftPpm).toBe(0);
+    });
+
+    it('should correct packet timestamps using embedded sync events', () => {
+        const packet = {
+            ...createPacket('imu-1', [createReading(baseTimestamp + 5, [1])]),
+            syncEvents: [{ sensorTimestamp: baseTimestamp, sessionTimestamp: baseTimestamp + 30 }]
+        };
+
+        const corrected = synchronizer.correctTimestamps(packet);
+
+        expect(corrected.readings[0]!.timestamp).toBe(baseTimestamp + 35);
+        expect(corrected.metadata.processingSteps).toEqual(['clock_correction']);
+        expect(synchronizer.correctTimestamps(corrected).readings[0]!.timestamp).toBe(baseTimestamp + 35);
+    });
+
+    it('should estimate offsets by cross-correlating sensor activity', () => {
+        const lagMs = 60;
+        const imuReadings: ISensorReading[] = [];
+        const tofReadings: ISensorReading[] = [];
+        for (let t = baseTimestamp; t < baseTimestamp + 20000; t += 5) {
+            imuReadings.push(createReading(t, [movement(t), 0, 9.8]));
+        }
+        // ToF clock runs ahead, so the same movement appears 60ms later in its timestamps
+        for (let t = baseTimestamp; t < baseTimestamp + 20000; t += 10) {
+            tofReadings.push(createReading(t + lagMs, [300 + 20 * movement(t)], SENSOR_TYPES.TOF));
+        }
+
+        const alignment = synchronizer.estimateAlignment(sessionId, [
+            createPacket('imu-1', imuReadings),
+            createPacket('tof-1', tofReadings)
+        ]);
+
+        expect(alignment.referenceSensorId).toBe('imu-1');
+        const tofModel = alignment.sensors.find(model => model.sensorId === 'tof-1');
+        expect(tofModel?.method).toBe('cross_correlation');
+        expect(tofModel?.offsetMs).toBeCloseTo(-lagMs, -1);
+    });
+
+    it('should estimate offsets from live packets as they are corrected', () => {
+        const lagMs = 60;
+        let lastTof: ISensorData | undefined;
+        for (let start = baseTimestamp; start < baseTimestamp + 12000; start += 100) {
+            const imuReadings: ISensorReading[] = [];
+            const tofReadings: ISensorReading[] = [];
+            for (let t = start; t < start + 100; t += 5) {
+                imuReadings.push(createReading(t, [movement(t), 0, 9.8]));
+            }
+            for (let t = start; t < start + 100; t += 10) {
+                tofReadings.push(createReading(t + lagMs, [300 + 20 * movement(t)], SENSOR_TYPES.TOF));
+            }
+            synchronizer.correctTimestamps(createPacket('imu-1', imuReadings));
+            lastTof = synchronizer.correctTimestamps(createPacket('tof-1', tofReadings));
+        }
+
+        const tofModel = synchronizer.getAlignment(sessionId)?.sensors.find(model => model.sensorId === 'tof-1');
+        expect(tofModel?.method).toBe('cross_correlation');
+        expect(tofModel?.offsetMs).toBeCloseTo(-lagMs, -1);
+        expect(lastTof?.metadata.processingSteps).toEqual(['clock_correction']);
+        expect(lastTof!.readings[0]!.timestamp).toBeCloseTo(baseTimestamp + 11900, -1);
+    });
+
+    it('should estimate short sessions from buffered packets when refreshed', () => {
+        const imuReadings: ISensorReading[] = [];
+        const tofReadings: ISensorReading[] = [];
+        for (let t = baseTimestamp; t < baseTimestamp + 5000; t += 5) {
+            imuReadings.push(createReading(t, [movement(t), 0, 9.8]));
+        }
+        for (let t = baseTimestamp; t < baseTimestamp + 5000; t += 10) {
+            tofReadings.push(createReading(t + 40, [300 + 20 * movement(t)], SENSOR_TYPES.TOF));
+        }
+        synchronizer.correctTimestamps(createPacket('imu-1', imuReadings));
+        synchronizer.correctTimestamps(createPacket('tof-1', tofReadings));
+        expect(synchronizer.getAlignment(sessionId)).toBeUndefined();
+
+        const alignment = synchronizer.refreshAlignment(sessionId);
+
+        expect(alignment?.referenceSensorId).toBe('imu-1');
+        expect(alignment?.sensors.find(model => model.sensorId === 'tof-1')?.offsetMs).toBeCloseTo(-40, -1);
+    });
+
+    it('should not estimate alignments from replayed packets', () => {
+        const readings = [createReading(baseTimestamp, [1]), createReading(baseTimestamp + 20000, [2])];
+        synchronizer.correctTimestamps({ ...createPacket('imu-1', readings), replayId: 'replay-1' });
+        synchronizer.correctTimestamps({ ...createPacket('tof-1', readings), replayId: 'replay-1' });
+
+        expect(synchronizer.refreshAlignment(sessionId)).toBeUndefined();
+    });
+
+    it('should keep sync-event models over cross-correlation estimates', () => {
+        synchronizer.recordSyncEvent(sessionId, 'tof-1', {
+            sensorTimestamp: baseTimestamp,
+            sessionTimestamp: baseTimestamp + 12
+        });
+
+        const alignment = synchronizer.estimateAlignment(sessionId, [
+            createPacket('imu-1', [createReading(baseTimestamp, [1]), createReading(baseTimestamp + 5, [2])]),
+            createPacket('tof-1', [createReading(baseTimestamp, [300], SENSOR_TYPES.TOF)])
+        ]);
+
+        expect(alignment.sensors.find(model => model.sensorId === 'tof-1')).toEqual(
+            expect.objectContaining({ method: 'sync_events', offsetMs: 12 })
+        );
+    });
+
+    it('should resample streams onto a shared timeline over their overlap', () => {
+        const imu = createPacket('imu-1', [0, 5, 10, 15, 20].map(offset =>
+            createReading(baseTimestamp + offset, [offset])
+        ));
+        const tof = createPacket('tof-1', [2, 12, 22].map(offset =>
+            createReading(baseTimestamp + offset, [offset * 10], SENSOR_TYPES.TOF)
+        ));
+
+        const aligned = synchronizer.resampleToTimeline([imu, tof], 200);
+
+        expect(aligned).toHaveLength(2);
+        aligned.forEach(packet => {
+            expect(packet.readings.map(reading => reading.timestamp - baseTimestamp)).toEqual([5, 10, 15, 20]);
+            expect(packet.metadata.processingSteps).toContain('time_alignment');
+        });
+        expect(aligned[1]!.readings.map(reading => reading.value[0])).toEqual([50, 100, 150, 200]);
+    });
+
+    it('should return no timeline when streams do not overlap', () => {
+        const imu = createPacket('imu-1', [createReading(baseTimestamp, [1]), createReading(baseTimestamp + 5, [1])]);
+        const tof = createPacket('tof-1', [createReading(baseTimestamp + 100, [300], SENSOR_TYPES.TOF)]);
+
+        expect(synchronizer.resampleToTimeline([imu, tof])).toEqual([]);
+    });
+
+    it('should release session state', () => {
+        synchronizer.recordSyncEvent(sessionId, 'imu-1', {
+            sensorTimestamp: baseTimestamp,
+            sessionTimestamp: baseTimestamp + 10
+        });
+
+        synchronizer.clearSession(sessionId);
+
+        expect(synchronizer.getAlignment(sessionId)).toBeUndefined();
+    });
+});
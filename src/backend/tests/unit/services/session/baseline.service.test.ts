@@ -0,0 +1,115 @@
+import { Logger } from 'winston';
+
+import { BaselineService } from '../../../../src/services/session/baseline.service';
+import { BaselineRepository } from '../../../../src/db/repositories/baseline.repository';
+import { AthleteRepository } from '../../../../src/db/repositories/athlete.repository';
+import { IBaselineSample, IBaselineVersion, IInjuryPeriod } from '../../../../src/interfaces/baseline.interface';
+import { ISession } from '../../../../src/interfaces/session.interface';
+import { BASELINE_LEARNING } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/athlete.repository', () => ({
+    AthleteRepository: class {}
+}));
+
+describe('BaselineService', () => {
+    const day = 86400000;
+    const firstSession = new Date('2026-01-01T09:00:00Z').getTime();
+
+    let samples: IBaselineSample[];
+    let mockRepository: Record<string, jest.Mock>;
+    let service: BaselineService;
+
+    /**
+     * Sample of the athlete's session on the given day
+     */
+    const sample = (dayIndex: number): IBaselineSample => ({
+        sessionId: `session-${dayIndex}`,
+        athleteId: 'athlete-1',
+        startTime: new Date(firstSession + dayIndex * day),
+        features: { 'muscle:quadriceps': 0.5 + dayIndex / 100 }
+    });
+
+    /**
+     * Injury whose return to play ends after the given day
+     */
+    const injuryUntil = (dayIndex: number): IInjuryPeriod => ({
+        id: 'injury-1',
+        athleteId: 'athlete-1',
+        startDate: new Date(firstSession - day),
+        endDate: new Date(firstSession + dayIndex * day - BASELINE_LEARNING.returnToPlayDays * day),
+        description: 'Hamstring strain',
+        recordedBy: 'physio-1',
+        createdAt: new Date(firstSession)
+    });
+
+    /**
+     * Ended 30-minute session on the day of the latest sample
+     */
+    const endedSession = (): ISession => {
+        const last = samples[samples.length - 1]!;
+        return {
+            id: last.sessionId,
+            athleteId: 'athlete-1',
+            startTime: last.startTime,
+            endTime: new Date(last.startTime.getTime() + 30 * 60000),
+            metrics: { muscleActivity: { quadriceps: { current: 0.6, baseline: 0.5, variance: 0.1 } } }
+        } as unknown as ISession;
+    };
+
+    beforeEach(() => {
+        samples = [];
+        mockRepository = {
+            recordSample: jest.fn().mockResolvedValue(undefined),
+            getState: jest.fn().mockResolvedValue(null),
+            listInjuries: jest.fn().mockResolvedValue([]),
+            listVersions: jest.fn().mockResolvedValue([]),
+            listSamples: jest.fn(async (_athleteId: string, since: Date, limit: number) => samples
+                .filter(candidate => candidate.startTime.getTime() >= since.getTime())
+                .slice(0, limit)),
+            createVersion: jest.fn(async (record: Omit<IBaselineVersion, 'id' | 'version' | 'createdAt'>) => ({
+                ...record,
+                id: 'version-1',
+                version: 1,
+                createdAt: new Date()
+            })),
+            saveState: jest.fn(async state => state)
+        };
+        const athleteRepository = { applyBaseline: jest.fn().mockResolvedValue(undefined) };
+        const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+        service = new BaselineService(
+            mockRepository as unknown as BaselineRepository,
+            athleteRepository as unknown as AthleteRepository,
+            logger
+        );
+    });
+
+    it('should learn the first baseline past a full page of injured sessions', async () => {
+        // The first page of samples falls entirely within the injury's return to play
+        const injuredDays = BASELINE_LEARNING.windowSessions + 2;
+        samples = Array.from({ length: injuredDays + 10 }, (_, index) => sample(index));
+        mockRepository.listInjuries!.mockResolvedValue([injuryUntil(injuredDays - 1)]);
+
+        const version = await service.recordSession(endedSession());
+
+        expect(version).not.toBeNull();
+        const { provenance } = mockRepository.createVersion!.mock.calls[0]![0];
+        expect(provenance.source).toBe('learned');
+        expect(provenance.sessionIds).toEqual(Array.from(
+            { length: BASELINE_LEARNING.learningSessions },
+            (_, index) => `session-${injuredDays + index}`
+        ));
+        expect(provenance.excludedSessionIds).toHaveLength(injuredDays);
+        expect(provenance.windowStart).toEqual(sample(injuredDays).startTime);
+        expect(mockRepository.listSamples).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not learn a baseline while too few sessions are outside injury periods', async () => {
+        const injuredDays = BASELINE_LEARNING.windowSessions + 2;
+        samples = Array.from({ length: injuredDays + BASELINE_LEARNING.learningSessions - 1 }, (_, index) => sample(index));
+        mockRepository.listInjuries!.mockResolvedValue([injuryUntil(injuredDays - 1)]);
+
+        await expect(service.recordSession(endedSession())).resolves.toBeNull();
+        expect(mockRepository.createVersion).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,192 @@
+import { SessionReplayService } from '../../../../src/services/session/session.replay';
+import { SensorRepository } from '../../../../src/db/repositories/sensor.repository';
+import { SensorStreamProcessor } from '../../../../src/services/sensor/stream.processor';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { SENSOR_TYPES } from '../../../../src/constants/sensor.constants';
+
+jest.mock('../../../../src/db/repositories/sensor.repository', () => ({
+    SensorRepository: jest.fn()
+}));
+jest.mock('../../../../src/services/sensor/stream.processor', () => ({
+    SensorStreamProcessor: jest.fn()
+}));
+jest.mock('../../../../src/services/retention/retention.service', () => ({
+    RetentionService: jest.fn()
+}));
+
+describe('SessionReplayService', () => {
+    const sessionId = '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40';
+    const baseTimestamp = 1700000000000;
+
+    let replayService: SessionReplayService;
+    let processed: ISensorData[];
+    let mockRepository: jest.Mocked<Pick<SensorRepository, 'countSessionSensorData' | 'streamSessionSensorData'>>;
+    let mockProcessor: jest.Mocked<Pick<SensorStreamProcessor, 'processStream'>>;
+    let mockRetentionService: { ensureSessionAvailable: jest.Mock };
+    let mockLogger: { info: jest.Mock; error: jest.Mock };
+
+    const createPacket = (offsetMs: number): ISensorData => ({
+        sensorId: 'imu-left-shank',
+        sessionId,
+        timestamp: baseTimestamp + offsetMs,
+        readings: [{
+            type: SENSOR_TYPES.IMU,
+            value: [0.1, 0.2, 9.8],
+            timestamp: baseTimestamp + offsetMs,
+            confidence: 0.95,
+            rawData: Buffer.alloc(0)
+        }],
+        metadata: {
+            calibrationVersion: '1.0.0',
+            processingSteps: ['kalman_filter'],
+            quality: 95,
+            environmentalFactors: {},
+            processingLatency: 5
+        },
+        dataQuality: 95
+    });
+
+    const useStoredPackets = (batches: ISensorData[][]) => {
+        mockRepository.countSessionSensorData.mockResolvedValue(
+            batches.reduce((total, batch) => total + batch.length, 0)
+        );
+        mockRepository.streamSessionSensorData.mockImplementation(async function* () {
+            for (const batch of batches) {
+                yield batch;
+            }
+        });
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        processed = [];
+        mockRepository = {
+            countSessionSensorData: jest.fn(),
+            streamSessionSensorData: jest.fn()
+        };
+        mockProcessor = {
+            processStream: jest.fn(async (data: ISensorData) => { processed.push(data); })
+        };
+        mockRetentionService = { ensureSessionAvailable: jest.fn().mockResolvedValue(undefined) };
+        mockLogger = { info: jest.fn(), error: jest.fn() };
+
+        replayService = new SessionReplayService(
+            mockRepository as any,
+            mockProcessor as any,
+            mockRetentionService as any,
+            mockLogger as any
+        );
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should replay stored packets in order and tag them as replayed', async () => {
+        useStoredPackets([[createPacket(0), createPacket(5)], [createPacket(10)]]);
+
+        const replay = await replayService.startReplay(sessionId, { speed: 'max', requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(processed.map(packet => packet.timestamp)).toEqual([
+            baseTimestamp, baseTimestamp + 5, baseTimestamp + 10
+        ]);
+        processed.forEach(packet => {
+            expect(packet.replayId).toBe(replay.id);
+            expect(packet.metadata.processingSteps).toEqual(['kalman_filter', 'replay']);
+        });
+
+        const status = replayService.getReplay(replay.id);
+        expect(status.state).toBe('completed');
+        expect(status.packetsReplayed).toBe(3);
+        expect(status.totalPackets).toBe(3);
+    });
+
+    it('should pace packets by recorded time divided by speed', async () => {
+        useStoredPackets([[createPacket(0), createPacket(1000), createPacket(2000)]]);
+
+        await replayService.startReplay(sessionId, { speed: 2, requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(processed).toHaveLength(1);
+
+        await jest.advanceTimersByTimeAsync(499);
+        expect(processed).toHaveLength(1);
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(processed).toHaveLength(2);
+
+        await jest.advanceTimersByTimeAsync(500);
+        expect(processed).toHaveLength(3);
+    });
+
+    it('should collapse long recorded gaps', async () => {
+        useStoredPackets([[createPacket(0), createPacket(60000)]]);
+
+        await replayService.startReplay(sessionId, { speed: 1, requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(processed).toHaveLength(2);
+    });
+
+    it('should pause, resume and stop a replay', async () => {
+        useStoredPackets([[createPacket(0), createPacket(100), createPacket(200), createPacket(300)]]);
+
+        const replay = await replayService.startReplay(sessionId, { requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(processed).toHaveLength(1);
+
+        expect(replayService.pauseReplay(replay.id).state).toBe('paused');
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(processed).toHaveLength(1);
+
+        expect(replayService.resumeReplay(replay.id).state).toBe('running');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(processed).toHaveLength(2);
+
+        await jest.advanceTimersByTimeAsync(100);
+        expect(processed).toHaveLength(3);
+
+        expect(replayService.stopReplay(replay.id).state).toBe('stopped');
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(processed).toHaveLength(3);
+        expect(replayService.getReplay(replay.id).state).toBe('stopped');
+    });
+
+    it('should record pipeline failures on the replay status', async () => {
+        useStoredPackets([[createPacket(0)]]);
+        mockProcessor.processStream.mockRejectedValueOnce(new Error('Invalid sensor data structure'));
+
+        const replay = await replayService.startReplay(sessionId, { speed: 'max', requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+
+        const status = replayService.getReplay(replay.id);
+        expect(status.state).toBe('failed');
+        expect(status.error).toBe('Invalid sensor data structure');
+    });
+
+    it('should restore archived session data before counting stored packets', async () => {
+        useStoredPackets([[createPacket(0)]]);
+        mockRetentionService.ensureSessionAvailable.mockImplementation(async () => {
+            expect(mockRepository.countSessionSensorData).not.toHaveBeenCalled();
+        });
+
+        await replayService.startReplay(sessionId, { speed: 'max', requestedBy: 'analyst-1' });
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(mockRetentionService.ensureSessionAvailable).toHaveBeenCalledWith(sessionId, 'analyst-1');
+        expect(mockRepository.countSessionSensorData).toHaveBeenCalled();
+    });
+
+    it('should reject invalid speeds and sessions without stored data', async () => {
+        useStoredPackets([]);
+
+        await expect(replayService.startReplay(sessionId, { speed: 500, requestedBy: 'analyst-1' }))
+            .rejects.toThrow('Replay speed must be between');
+        await expect(replayService.startReplay(sessionId, { requestedBy: 'analyst-1' }))
+            .rejects.toThrow('No stored sensor data');
+    });
+
+    it('should reject control actions for unknown replays', () => {
+        expect(() => replayService.pauseReplay('missing')).toThrow('Replay missing not found');
+    });
+});
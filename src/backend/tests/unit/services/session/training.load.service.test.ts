@@ -0,0 +1,94 @@
+import { Logger } from 'winston';
+
+import { TrainingLoadService } from '../../../../src/services/session/training.load.service';
+import { TrainingLoadRepository } from '../../../../src/db/repositories/training-load.repository';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { GRAVITY_MS2, SENSOR_TYPES, TRAINING_LOAD } from '../../../../src/constants/sensor.constants';
+
+describe('TrainingLoadService', () => {
+    const startTime = 1700000000000;
+    const g = GRAVITY_MS2;
+
+    let mockRepository: { upsertSessionLoad: jest.Mock; getTeamLoadSettings: jest.Mock; getDailyLoads: jest.Mock };
+    let service: TrainingLoadService;
+    let now: number;
+
+    /**
+     * Trunk IMU packet of a session with one reading per acceleration vector in m/s²
+     */
+    const trunkPacket = (sessionId: string, timestamps: number[], accels: number[][]): ISensorData => ({
+        sensorId: 'trunk-imu',
+        sessionId,
+        timestamp: timestamps[0]!,
+        readings: timestamps.map((timestamp, index) => ({
+            type: SENSOR_TYPES.IMU,
+            value: [...accels[index]!, 0, 0, 0],
+            timestamp,
+            confidence: 1,
+            rawData: Buffer.alloc(0)
+        })),
+        metadata: { athleteId: 'athlete-1', placement: { segment: 'trunk', side: 'center' } }
+    }) as unknown as ISensorData;
+
+    beforeEach(() => {
+        now = startTime;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        mockRepository = {
+            upsertSessionLoad: jest.fn().mockResolvedValue(undefined),
+            getTeamLoadSettings: jest.fn().mockResolvedValue([]),
+            getDailyLoads: jest.fn().mockResolvedValue([])
+        };
+        const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+        service = new TrainingLoadService(mockRepository as unknown as TrainingLoadRepository, logger);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should store the load of a session shorter than the flush interval when it ends', async () => {
+        await service.ingest(trunkPacket('session-1', [startTime, startTime + 10], [[0, 0, g], [g, 0, g]]));
+        await service.ingest(trunkPacket('session-1', [startTime + 20, startTime + 30], [[0, 0, g], [0, 0, 3 * g]]));
+
+        await service.flushSession('session-1');
+
+        expect(mockRepository.upsertSessionLoad).toHaveBeenLastCalledWith(expect.objectContaining({
+            sessionId: 'session-1',
+            athleteId: 'athlete-1',
+            endTime: startTime + 30
+        }));
+        const stored = mockRepository.upsertSessionLoad.mock.calls.at(-1)![0];
+        expect(stored.load).toBeCloseTo(TRAINING_LOAD.loadScale * 4);
+
+        // An ended session is no longer tracked, so a second flush stores nothing
+        const calls = mockRepository.upsertSessionLoad.mock.calls.length;
+        await service.flushSession('session-1');
+        expect(mockRepository.upsertSessionLoad).toHaveBeenCalledTimes(calls);
+    });
+
+    it('should keep live sessions tracked when full and drop only idle ones', async () => {
+        await service.ingest(trunkPacket('live', [startTime], [[0, 0, g]]));
+        for (let index = 1; index < TRAINING_LOAD.maxTrackedSessions; index++) {
+            await service.ingest(trunkPacket(`idle-${index}`, [startTime], [[0, 0, g]]));
+        }
+
+        // The live session keeps sending after the others went quiet
+        now = startTime + TRAINING_LOAD.sessionIdleMs;
+        await service.ingest(trunkPacket('live', [startTime + 10], [[g, 0, g]]));
+        now += 1;
+        await service.ingest(trunkPacket('new', [startTime + 20], [[0, 0, g]]));
+
+        mockRepository.upsertSessionLoad.mockClear();
+        await service.flushSession('live');
+        await service.flushSession('idle-1');
+
+        // The live session's load still covers its packets from before the others were dropped
+        expect(mockRepository.upsertSessionLoad).toHaveBeenCalledTimes(1);
+        expect(mockRepository.upsertSessionLoad.mock.calls[0]![0]).toEqual(expect.objectContaining({
+            sessionId: 'live',
+            startTime,
+            endTime: startTime + 10
+        }));
+        expect(mockRepository.upsertSessionLoad.mock.calls[0]![0].load).toBeCloseTo(TRAINING_LOAD.loadScale);
+    });
+});
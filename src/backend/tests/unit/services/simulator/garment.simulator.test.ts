@@ -0,0 +1,119 @@
+import { GarmentSimulator, NO_FAULTS, simulatorSensorId } from '../../../../src/services/simulator/garment.simulator';
+import { ISimulatedAthlete, ISimulatorFaults, SimulatedActivity } from '../../../../src/interfaces/simulator.interface';
+import { ISensorData } from '../../../../src/interfaces/sensor.interface';
+import { GRAVITY_MS2, IMU_CHANNELS, SENSOR_SIMULATOR } from '../../../../src/constants/sensor.constants';
+
+describe('GarmentSimulator', () => {
+    const startTime = 1700000000000;
+
+    const athlete = (activity: SimulatedActivity, faults: Partial<ISimulatorFaults> = {}): ISimulatedAthlete => ({
+        id: 'athlete-1',
+        sessionId: 'session-1',
+        activity,
+        slots: [...SENSOR_SIMULATOR.defaultSlots],
+        faults: { ...NO_FAULTS, ...faults },
+        seed: 42
+    });
+
+    const simulate = (activity: SimulatedActivity, seconds: number, faults: Partial<ISimulatorFaults> = {}) =>
+        new GarmentSimulator(athlete(activity, faults), startTime).generate(startTime + seconds * 1000);
+
+    const valuesOf = (packets: ISensorData[], slotId: string): number[][] =>
+        packets
+            .filter(packet => packet.sensorId === simulatorSensorId('athlete-1', slotId))
+            .flatMap(packet => packet.readings.map(reading => reading.value));
+
+    const magnitude = (value: number[]): number =>
+        Math.hypot(...IMU_CHANNELS.accel.map(channel => value[channel]!));
+
+    const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    it('streams every sensor at its sampling rate in packet-sized windows', () => {
+        const packets = simulate('running', 1);
+
+        const imu = valuesOf(packets, 'left_thigh_front');
+        const tof = valuesOf(packets, 'left_quad_tof');
+        expect(imu).toHaveLength(200);
+        expect(imu[0]).toHaveLength(6);
+        expect(tof).toHaveLength(100);
+        expect(tof[0]).toHaveLength(1);
+
+        const first = packets.find(packet => packet.sensorId === 'athlete-1-left_thigh_front')!;
+        expect(first.readings).toHaveLength(10);
+        expect(first.readings[1]!.timestamp - first.readings[0]!.timestamp).toBe(5);
+        expect(first).toEqual(expect.objectContaining({ sessionId: 'session-1', dataQuality: 100, timestamp: startTime }));
+    });
+
+    it('continues the sampling grid across calls', () => {
+        const simulator = new GarmentSimulator(athlete('squats'), startTime);
+        const first = simulator.generate(startTime + 120);
+        const second = simulator.generate(startTime + 200);
+
+        const timestamps = [...first, ...second]
+            .filter(packet => packet.sensorId === 'athlete-1-pelvis_back')
+            .flatMap(packet => packet.readings.map(reading => reading.timestamp));
+        expect(timestamps).toHaveLength(40);
+        expect(timestamps[39]).toBe(startTime + 195);
+    });
+
+    it('reproduces the same stream for the same seed', () => {
+        expect(valuesOf(simulate('jumping', 1), 'left_shank_front'))
+            .toEqual(valuesOf(simulate('jumping', 1), 'left_shank_front'));
+    });
+
+    it('produces plausible accelerations for each activity', () => {
+        const squats = valuesOf(simulate('squats', 8), 'pelvis_back').map(magnitude);
+        expect(mean(squats)).toBeCloseTo(GRAVITY_MS2, 0);
+
+        const running = valuesOf(simulate('running', 4), 'left_shank_front').map(magnitude);
+        expect(Math.max(...running)).toBeGreaterThan(3 * GRAVITY_MS2);
+
+        // Free fall during the flight phase reads close to zero
+        const jumping = valuesOf(simulate('jumping', 6), 'pelvis_back').map(magnitude);
+        expect(Math.min(...jumping)).toBeLessThan(0.1 * GRAVITY_MS2);
+        expect(Math.max(...jumping)).toBeGreaterThan(3 * GRAVITY_MS2);
+    });
+
+    it('withholds readings inside dropouts', () => {
+        const simulator = new GarmentSimulator(athlete('running', { dropoutsPerMinute: 30 }), startTime);
+        const packets = simulator.generate(startTime + 10000);
+
+        const received = packets.reduce((sum, packet) => sum + packet.readings.length, 0);
+        expect(simulator.droppedReadings).toBeGreaterThan(0);
+        expect(received + simulator.droppedReadings).toBe(10 * (5 * 200 + 2 * 100));
+        expect(packets.some(packet => packet.dataQuality < 100)).toBe(true);
+    });
+
+    it('clips accelerations at the saturation range', () => {
+        const range = 2 * GRAVITY_MS2;
+        const values = valuesOf(simulate('jumping', 6, { saturationG: 2 }), 'left_shank_front');
+
+        const accel = values.flatMap(value => IMU_CHANNELS.accel.map(channel => Math.abs(value[channel]!)));
+        expect(Math.max(...accel)).toBe(range);
+    });
+
+    it('adds a growing gyroscope bias when drifting', () => {
+        const gyro = (faults: Partial<ISimulatorFaults>) => {
+            const values = valuesOf(simulate('squats', 60, faults), 'pelvis_back').slice(-2000);
+            return mean(values.map(value => value[IMU_CHANNELS.gyro[2]]!));
+        };
+
+        expect(gyro({ gyroDriftPerMinute: 2 }) - gyro({})).toBeCloseTo(2 * 55 / 60, 1);
+    });
+
+    it('reduces right-side load with asymmetry', () => {
+        const packets = simulate('squats', 8, { asymmetry: 0.2 });
+        const left = mean(valuesOf(packets, 'left_quad_tof').map(([load]) => load!));
+        const right = mean(valuesOf(packets, 'right_quad_tof').map(([load]) => load!));
+
+        expect(right / left).toBeGreaterThan(0.75);
+        expect(right / left).toBeLessThan(0.9);
+    });
+
+    it('rejects invalid configurations', () => {
+        expect(() => new GarmentSimulator(athlete('swimming' as SimulatedActivity), startTime))
+            .toThrow('Unknown activity swimming');
+        expect(() => new GarmentSimulator(athlete('running', { asymmetry: 1.5 }), startTime))
+            .toThrow('Asymmetry must be between 0 and 1');
+    });
+});
@@ -0,0 +1,147 @@
+import {
+  processWithDeadLetter,
+  parseMessageValue,
+  classifyError,
+  getRetryCount,
+  MessageParseError,
+  DEAD_LETTER_HEADERS
+} from '../../../src/utils/dead-letter.util';
+
+jest.mock('../../../src/config/kafka.config', () => ({
+  KAFKA_TOPICS: { DEAD_LETTER: 'sensor-dead-letter' }
+}));
+
+describe('Dead Letter Utilities', () => {
+  const createMessage = (value: string, headers: Record<string, string> = {}) => ({
+    key: Buffer.from('imu-left-shank'),
+    value: Buffer.from(value),
+    headers,
+    offset: '42',
+    timestamp: '1700000000000',
+    attributes: 0
+  });
+
+  let producer: { send: jest.Mock };
+
+  beforeEach(() => {
+    producer = { send: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  describe('parseMessageValue', () => {
+    it('should parse JSON payloads and reject malformed ones', () => {
+      expect(parseMessageValue<{ sensorId: string }>(Buffer.from('{"sensorId":"imu-1"}')).sensorId).toBe('imu-1');
+      expect(() => parseMessageValue(Buffer.from('{"sensorId":'))).toThrow(MessageParseError);
+      expect(() => parseMessageValue(null)).toThrow('Message payload is empty');
+    });
+  });
+
+  describe('classifyError', () => {
+    it('should separate parse, validation and processing failures', () => {
+      expect(classifyError(new MessageParseError('bad json'))).toBe('PARSE_ERROR');
+      expect(classifyError(new Error('Invalid sensor data format'))).toBe('VALIDATION_ERROR');
+      expect(classifyError(new Error('connection reset'))).toBe('PROCESSING_ERROR');
+    });
+  });
+
+  describe('getRetryCount', () => {
+    it('should read the retry count header and default to zero', () => {
+      expect(getRetryCount({ [DEAD_LETTER_HEADERS.RETRY_COUNT]: Buffer.from('2') })).toBe(2);
+      expect(getRetryCount({ [DEAD_LETTER_HEADERS.RETRY_COUNT]: 'abc' })).toBe(0);
+      expect(getRetryCount(undefined)).toBe(0);
+    });
+  });
+
+  describe('processWithDeadLetter', () => {
+    it('should not publish when the handler succeeds', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+
+      const processed = await processWithDeadLetter({
+        producer: producer as any,
+        workerName: 'sensor-worker',
+        topic: 'sensor-data',
+        partition: 1,
+        message: createMessage('{}') as any,
+        handler
+      });
+
+      expect(processed).toBe(true);
+      expect(producer.send).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter malformed messages without retrying', async () => {
+      const message = createMessage('{"sensorId":', { 'x-correlation-id': 'abc' });
+      const handler = jest.fn(async () => {
+        parseMessageValue(message.value);
+      });
+
+      const processed = await processWithDeadLetter({
+        producer: producer as any,
+        workerName: 'sensor-worker',
+        topic: 'sensor-data',
+        partition: 1,
+        message: message as any,
+        handler
+      });
+
+      expect(processed).toBe(false);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      const { topic, messages } = producer.send.mock.calls[0][0];
+      expect(topic).toBe('sensor-dead-letter');
+      expect(messages[0].value).toBe(message.value);
+      expect(messages[0].headers).toMatchObject({
+        'x-correlation-id': 'abc',
+        [DEAD_LETTER_HEADERS.SOURCE_TOPIC]: 'sensor-data',
+        [DEAD_LETTER_HEADERS.SOURCE_PARTITION]: '1',
+        [DEAD_LETTER_HEADERS.SOURCE_OFFSET]: '42',
+        [DEAD_LETTER_HEADERS.WORKER]: 'sensor-worker',
+        [DEAD_LETTER_HEADERS.ERROR_TYPE]: 'PARSE_ERROR',
+        [DEAD_LETTER_HEADERS.ATTEMPTS]: '1',
+        [DEAD_LETTER_HEADERS.RETRY_COUNT]: '0'
+      });
+    });
+
+    it('should retry processing failures before dead-lettering', async () => {
+      jest.useFakeTimers();
+      const handler = jest.fn()
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockRejectedValueOnce(new Error('connection reset'));
+
+      const result = processWithDeadLetter({
+        producer: producer as any,
+        workerName: 'analytics-worker',
+        topic: 'sensor-data',
+        partition: 0,
+        message: createMessage('{}', { [DEAD_LETTER_HEADERS.RETRY_COUNT]: '1' }) as any,
+        handler,
+        maxAttempts: 3
+      });
+      await jest.runAllTimersAsync();
+
+      expect(await result).toBe(false);
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(producer.send.mock.calls[0][0].messages[0].headers).toMatchObject({
+        [DEAD_LETTER_HEADERS.ERROR_TYPE]: 'PROCESSING_ERROR',
+        [DEAD_LETTER_HEADERS.ATTEMPTS]: '3',
+        [DEAD_LETTER_HEADERS.RETRY_COUNT]: '1'
+      });
+      jest.useRealTimers();
+    });
+
+    it('should propagate dead-letter publish failures', async () => {
+      producer.send.mockRejectedValue(new Error('broker unavailable'));
+
+      await expect(processWithDeadLetter({
+        producer: producer as any,
+        workerName: 'sensor-worker',
+        topic: 'sensor-data',
+        partition: 1,
+        message: createMessage('not json') as any,
+        handler: async () => {
+          parseMessageValue(Buffer.from('not json'));
+        }
+      })).rejects.toThrow('broker unavailable');
+    });
+  });
+});
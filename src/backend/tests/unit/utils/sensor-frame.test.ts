@@ -0,0 +1,141 @@
+import {
+  encodeSensorFrame,
+  decodeSensorFrame,
+  decodeSensorFrames,
+  isSensorFrame,
+  SensorFrame,
+  SENSOR_FRAME_CONFIG
+} from '@smart-apparel/sensor-frame';
+
+describe('Sensor Frame Codec', () => {
+  const baseTimestamp = 1700000000000;
+
+  const createFrame = (overrides: Partial<SensorFrame> = {}): SensorFrame => ({
+    sensorId: 'imu-left-shank',
+    sessionId: '7f9c2ba4-e88f-4c7d-9a8b-3a1f2c6e5d40',
+    sensorType: 'imu',
+    baseTimestamp,
+    dataQuality: 96,
+    readings: Array.from({ length: 40 }, (_, i) => ({
+      timestamp: baseTimestamp + i * 5, // 200Hz
+      value: [0.012 * i, -9.806, 1.25, 0.5, -0.25, 12.5],
+      confidence: 0.95
+    })),
+    ...overrides
+  });
+
+  describe('round trip', () => {
+    it('should decode an encoded frame to the original values', () => {
+      const frame = createFrame();
+      const decoded = decodeSensorFrame(encodeSensorFrame(frame));
+
+      expect(decoded.sensorId).toBe(frame.sensorId);
+      expect(decoded.sessionId).toBe(frame.sessionId);
+      expect(decoded.sensorType).toBe('imu');
+      expect(decoded.baseTimestamp).toBe(baseTimestamp);
+      expect(decoded.dataQuality).toBe(96);
+      expect(decoded.readings).toHaveLength(frame.readings.length);
+
+      decoded.readings.forEach((reading, i) => {
+        expect(reading.timestamp).toBeCloseTo(frame.readings[i]!.timestamp, 3);
+        reading.value.forEach((value, c) => {
+          expect(value).toBeCloseTo(frame.readings[i]!.value[c]!, 3);
+        });
+        expect(reading.confidence).toBeCloseTo(0.95, 2);
+      });
+    });
+
+    it('should preserve sub-millisecond timestamp deltas', () => {
+      const frame = createFrame({
+        sensorType: 'tof',
+        readings: [
+          { timestamp: baseTimestamp + 0.25, value: [412], confidence: 1 },
+          { timestamp: baseTimestamp + 10.5, value: [415], confidence: 1 }
+        ]
+      });
+
+      const decoded = decodeSensorFrame(encodeSensorFrame(frame));
+      expect(decoded.sensorType).toBe('tof');
+      expect(decoded.readings[0]!.timestamp).toBeCloseTo(baseTimestamp + 0.25, 3);
+      expect(decoded.readings[1]!.timestamp).toBeCloseTo(baseTimestamp + 10.5, 3);
+    });
+
+    it('should honour a custom fixed-point scale', () => {
+      const frame = createFrame({
+        readings: [{ timestamp: baseTimestamp, value: [1.23456], confidence: 1 }]
+      });
+
+      const decoded = decodeSensorFrame(encodeSensorFrame(frame, { scale: 10 }));
+      expect(decoded.readings[0]!.value[0]).toBeCloseTo(1.2, 5);
+    });
+
+    it('should decode concatenated frames from a single message', () => {
+      const first = encodeSensorFrame(createFrame());
+      const second = encodeSensorFrame(createFrame({ sensorId: 'tof-right-quad', sensorType: 'tof' }));
+      const message = new Uint8Array(first.length + second.length);
+      message.set(first);
+      message.set(second, first.length);
+
+      const frames = decodeSensorFrames(message);
+      expect(frames).toHaveLength(2);
+      expect(frames[1]!.sensorId).toBe('tof-right-quad');
+      expect(frames[1]!.sensorType).toBe('tof');
+    });
+
+    it('should be substantially smaller than the JSON encoding', () => {
+      const frame = createFrame();
+      const encoded = encodeSensorFrame(frame);
+      expect(encoded.length).toBeLessThan(JSON.stringify(frame).length / 2);
+    });
+  });
+
+  describe('validation', () => {
+    it('should detect frames by magic bytes', () => {
+      expect(isSensorFrame(encodeSensorFrame(createFrame()))).toBe(true);
+      expect(isSensorFrame(Buffer.from(JSON.stringify(createFrame())))).toBe(false);
+    });
+
+    it('should reject readings with mismatched channel counts', () => {
+      const frame = createFrame({
+        readings: [
+          { timestamp: baseTimestamp, value: [1, 2, 3], confidence: 1 },
+          { timestamp: baseTimestamp + 5, value: [1, 2], confidence: 1 }
+        ]
+      });
+      expect(() => encodeSensorFrame(frame)).toThrow('same number of values');
+    });
+
+    it('should reject descending timestamps', () => {
+      const frame = createFrame({
+        readings: [
+          { timestamp: baseTimestamp + 5, value: [1], confidence: 1 },
+          { timestamp: baseTimestamp, value: [1], confidence: 1 }
+        ]
+      });
+      expect(() => encodeSensorFrame(frame)).toThrow('ascending');
+    });
+
+    it('should reject values outside the fixed-point range', () => {
+      const frame = createFrame({
+        readings: [{ timestamp: baseTimestamp, value: [3e6], confidence: 1 }]
+      });
+      expect(() => encodeSensorFrame(frame)).toThrow('fixed-point range');
+    });
+
+    it('should reject unsupported versions', () => {
+      const encoded = encodeSensorFrame(createFrame());
+      encoded[2] = 99;
+      expect(() => decodeSensorFrame(encoded)).toThrow('Unsupported sensor frame version');
+    });
+
+    it('should reject truncated payloads', () => {
+      const encoded = encodeSensorFrame(createFrame());
+      expect(() => decodeSensorFrame(encoded.subarray(0, encoded.length - 3))).toThrow('truncated');
+    });
+
+    it('should reject payloads without the frame header', () => {
+      const payload = new Uint8Array(SENSOR_FRAME_CONFIG.FIXED_HEADER_BYTES);
+      expect(() => decodeSensorFrame(payload)).toThrow('missing magic bytes');
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * @fileoverview Compact binary wire format for sensor frames exchanged over the WebSocket
+ * ingest path. Shared by the backend sensor handler and the web WebSocket service so both
+ * sides encode and decode frames from a single definition.
+ *
+ * Frame layout (big-endian):
+ *
+ *   offset  size  field
+ *   0       2     magic ('SF')
+ *   2       1     format version
+ *   3       1     sensor type code (0 = IMU, 1 = ToF)
+ *   4       4     body length in bytes (everything after this 8 byte prefix)
+ *   8       8     base timestamp (ms since epoch, float64)
+ *   16      2     fixed-point scale applied to reading values
+ *   18      1     values per reading (channels)
+ *   19      1     data quality (0-100)
+ *   20      2     reading count
+ *   22      1+n   sensorId (length-prefixed UTF-8)
+ *   ..      1+n   sessionId (length-prefixed UTF-8)
+ *   ..      per reading: uint32 timestamp delta (µs, relative to previous reading),
+ *           uint8 confidence (0-255), int32 × channels fixed-point values
+ *
+ * Frames are self-delimiting, so several frames may be concatenated into one message.
+ * Intentionally free of Node-only APIs so it runs unchanged in the browser.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * WebSocket subprotocol advertised by clients able to send binary frames
+ */
+export const SENSOR_FRAME_PROTOCOL = 'sensor-frame.v1';
+
+/**
+ * WebSocket subprotocol for the JSON-encoded fallback format
+ */
+export const SENSOR_JSON_PROTOCOL = 'sensor-data';
+
+/**
+ * Current binary frame format version
+ */
+export const SENSOR_FRAME_VERSION = 1;
+
+/**
+ * Frame format constants
+ */
+export const SENSOR_FRAME_CONFIG = {
+  MAGIC: [0x53, 0x46], // 'SF'
+  PREFIX_BYTES: 8,
+  FIXED_HEADER_BYTES: 22,
+  DEFAULT_SCALE: 1000, // 3 decimal places of precision
+  MAX_ID_BYTES: 255,
+  MAX_READINGS: 65535,
+  MAX_CHANNELS: 255
+} as const;
+
+/**
+ * Sensor type codes carried in the frame header
+ */
+const SENSOR_TYPE_CODES: Record<SensorFrameType, number> = {
+  imu: 0,
+  tof: 1
+};
+
+/**
+ * Supported sensor types, matching SENSOR_TYPES values
+ */
+export type SensorFrameType = 'imu' | 'tof';
+
+/**
+ * Individual reading carried in a binary frame
+ */
+export interface SensorFrameReading {
+  /** Reading timestamp in milliseconds */
+  timestamp: number;
+  /** Sensor values, one per channel */
+  value: number[];
+  /** Confidence score of the reading (0-1) */
+  confidence: number;
+}
+
+/**
+ * Decoded representation of a binary sensor frame
+ */
+export interface SensorFrame {
+  sensorId: string;
+  sessionId: string;
+  sensorType: SensorFrameType;
+  /** Timestamp of the frame; readings are delta-encoded against it */
+  baseTimestamp: number;
+  /** Overall data quality score (0-100) */
+  dataQuality: number;
+  readings: SensorFrameReading[];
+}
+
+/**
+ * Options controlling frame encoding
+ */
+export interface SensorFrameEncodeOptions {
+  /** Fixed-point multiplier applied to values (1-65535) */
+  scale?: number;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Checks whether a payload starts with the binary frame magic bytes
+ * @param bytes - Raw message payload
+ * @returns boolean indicating whether the payload is a binary frame
+ */
+export const isSensorFrame = (bytes: Uint8Array): boolean => {
+  return (
+    bytes.length >= SENSOR_FRAME_CONFIG.PREFIX_BYTES &&
+    bytes[0] === SENSOR_FRAME_CONFIG.MAGIC[0] &&
+    bytes[1] === SENSOR_FRAME_CONFIG.MAGIC[1]
+  );
+};
+
+/**
+ * Encodes a sensor frame into its binary wire representation
+ * @param frame - Frame to encode
+ * @param options - Encoding options
+ * @returns Encoded frame bytes
+ * @throws Error if the frame cannot be represented in the wire format
+ */
+export const encodeSensorFrame = (
+  frame: SensorFrame,
+  options: SensorFrameEncodeOptions = {}
+): Uint8Array => {
+  const scale = options.scale ?? SENSOR_FRAME_CONFIG.DEFAULT_SCALE;
+  if (!Number.isInteger(scale) || scale < 1 || scale > 0xffff) {
+    throw new Error(`Invalid fixed-point scale: ${scale}`);
+  }
+
+  const typeCode = SENSOR_TYPE_CODES[frame.sensorType];
+  if (typeCode === undefined) {
+    throw new Error(`Unsupported sensor type: ${frame.sensorType}`);
+  }
+
+  if (frame.readings.length > SENSOR_FRAME_CONFIG.MAX_READINGS) {
+    throw new Error('Too many readings for a single frame');
+  }
+
+  const channels = frame.readings[0]?.value.length ?? 0;
+  if (channels > SENSOR_FRAME_CONFIG.MAX_CHANNELS) {
+    throw new Error('Too many values per reading');
+  }
+  if (frame.readings.some(reading => reading.value.length !== channels)) {
+    throw new Error('All readings in a frame must have the same number of values');
+  }
+
+  const sensorIdBytes = encodeId(frame.sensorId, 'sensorId');
+  const sessionIdBytes = encodeId(frame.sessionId, 'sessionId');
+  const readingBytes = 4 + 1 + channels * 4;
+  const totalLength =
+    SENSOR_FRAME_CONFIG.FIXED_HEADER_BYTES +
+    1 + sensorIdBytes.length +
+    1 + sessionIdBytes.length +
+    frame.readings.length * readingBytes;
+
+  const buffer = new Uint8Array(totalLength);
+  const view = new DataView(buffer.buffer);
+
+  buffer[0] = SENSOR_FRAME_CONFIG.MAGIC[0];
+  buffer[1] = SENSOR_FRAME_CONFIG.MAGIC[1];
+  view.setUint8(2, SENSOR_FRAME_VERSION);
+  view.setUint8(3, typeCode);
+  view.setUint32(4, totalLength - SENSOR_FRAME_CONFIG.PREFIX_BYTES);
+  view.setFloat64(8, frame.baseTimestamp);
+  view.setUint16(16, scale);
+  view.setUint8(18, channels);
+  view.setUint8(19, clamp(Math.round(frame.dataQuality), 0, 100));
+  view.setUint16(20, frame.readings.length);
+
+  let offset: number = SENSOR_FRAME_CONFIG.FIXED_HEADER_BYTES;
+  offset = writeId(buffer, offset, sensorIdBytes);
+  offset = writeId(buffer, offset, sessionIdBytes);
+
+  let previousTimestamp = frame.baseTimestamp;
+  for (const reading of frame.readings) {
+    const deltaMicros = Math.round((reading.timestamp - previousTimestamp) * 1000);
+    if (deltaMicros < 0 || deltaMicros > 0xffffffff) {
+      throw new Error('Reading timestamps must be ascending and within range of the base timestamp');
+    }
+    view.setUint32(offset, deltaMicros);
+    offset += 4;
+
+    view.setUint8(offset, clamp(Math.round(reading.confidence * 255), 0, 255));
+    offset += 1;
+
+    for (const value of reading.value) {
+      const fixed = Math.round(value * scale);
+      if (fixed < -0x80000000 || fixed > 0x7fffffff) {
+        throw new Error(`Value ${value} exceeds fixed-point range at scale ${scale}`);
+      }
+      view.setInt32(offset, fixed);
+      offset += 4;
+    }
+
+    previousTimestamp += deltaMicros / 1000;
+  }
+
+  return buffer;
+};
+
+/**
+ * Decodes a single binary frame starting at the beginning of the payload
+ * @param bytes - Raw frame bytes
+ * @returns Decoded sensor frame
+ * @throws Error if the payload is not a valid frame
+ */
+export const decodeSensorFrame = (bytes: Uint8Array): SensorFrame => {
+  return decodeFrameAt(bytes, 0).frame;
+};
+
+/**
+ * Decodes every frame contained in a payload of concatenated frames
+ * @param bytes - Raw message payload
+ * @returns Array of decoded sensor frames
+ * @throws Error if any frame in the payload is invalid
+ */
+export const decodeSensorFrames = (bytes: Uint8Array): SensorFrame[] => {
+  const frames: SensorFrame[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const { frame, nextOffset } = decodeFrameAt(bytes, offset);
+    frames.push(frame);
+    offset = nextOffset;
+  }
+
+  return frames;
+};
+
+/**
+ * Decodes the frame starting at the given offset
+ */
+const decodeFrameAt = (
+  bytes: Uint8Array,
+  start: number
+): { frame: SensorFrame; nextOffset: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + start, bytes.length - start);
+
+  if (!isSensorFrame(bytes.subarray(start))) {
+    throw new Error('Invalid sensor frame: missing magic bytes');
+  }
+
+  const version = view.getUint8(2);
+  if (version !== SENSOR_FRAME_VERSION) {
+    throw new Error(`Unsupported sensor frame version: ${version}`);
+  }
+
+  const sensorType = decodeSensorType(view.getUint8(3));
+  const frameLength = SENSOR_FRAME_CONFIG.PREFIX_BYTES + view.getUint32(4);
+  if (frameLength > view.byteLength || frameLength < SENSOR_FRAME_CONFIG.FIXED_HEADER_BYTES) {
+    throw new Error('Invalid sensor frame: truncated payload');
+  }
+
+  const baseTimestamp = view.getFloat64(8);
+  const scale = view.getUint16(16);
+  const channels = view.getUint8(18);
+  const dataQuality = view.getUint8(19);
+  const readingCount = view.getUint16(20);
+
+  if (scale === 0) {
+    throw new Error('Invalid sensor frame: zero fixed-point scale');
+  }
+
+  let offset: number = SENSOR_FRAME_CONFIG.FIXED_HEADER_BYTES;
+  const sensorId = readId(view, offset, frameLength);
+  offset = sensorId.nextOffset;
+  const sessionId = readId(view, offset, frameLength);
+  offset = sessionId.nextOffset;
+
+  const readingBytes = 4 + 1 + channels * 4;
+  if (offset + readingCount * readingBytes !== frameLength) {
+    throw new Error('Invalid sensor frame: length does not match reading count');
+  }
+
+  const readings: SensorFrameReading[] = [];
+  let timestamp = baseTimestamp;
+  for (let i = 0; i < readingCount; i++) {
+    timestamp += view.getUint32(offset) / 1000;
+    offset += 4;
+
+    const confidence = view.getUint8(offset) / 255;
+    offset += 1;
+
+    const value: number[] = [];
+    for (let c = 0; c < channels; c++) {
+      value.push(view.getInt32(offset) / scale);
+      offset += 4;
+    }
+
+    readings.push({ timestamp, value, confidence });
+  }
+
+  return {
+    frame: {
+      sensorId: sensorId.value,
+      sessionId: sessionId.value,
+      sensorType,
+      baseTimestamp,
+      dataQuality,
+      readings
+    },
+    nextOffset: start + frameLength
+  };
+};
+
+/**
+ * Maps a header type code back to its sensor type
+ */
+const decodeSensorType = (code: number): SensorFrameType => {
+  const entry = (Object.entries(SENSOR_TYPE_CODES) as Array<[SensorFrameType, number]>)
+    .find(([, value]) => value === code);
+  if (!entry) {
+    throw new Error(`Invalid sensor frame: unknown sensor type code ${code}`);
+  }
+  return entry[0];
+};
+
+/**
+ * UTF-8 encodes an identifier and enforces the single-byte length prefix
+ */
+const encodeId = (id: string, field: string): Uint8Array => {
+  const bytes = textEncoder.encode(id);
+  if (bytes.length > SENSOR_FRAME_CONFIG.MAX_ID_BYTES) {
+    throw new Error(`${field} exceeds ${SENSOR_FRAME_CONFIG.MAX_ID_BYTES} bytes`);
+  }
+  return bytes;
+};
+
+/**
+ * Writes a length-prefixed identifier and returns the next offset
+ */
+const writeId = (buffer: Uint8Array, offset: number, idBytes: Uint8Array): number => {
+  buffer[offset] = idBytes.length;
+  buffer.set(idBytes, offset + 1);
+  return offset + 1 + idBytes.length;
+};
+
+/**
+ * Reads a length-prefixed identifier bounded by the frame length
+ */
+const readId = (
+  view: DataView,
+  offset: number,
+  frameLength: number
+): { value: string; nextOffset: number } => {
+  if (offset >= frameLength) {
+    throw new Error('Invalid sensor frame: truncated header');
+  }
+  const length = view.getUint8(offset);
+  const end = offset + 1 + length;
+  if (end > frameLength) {
+    throw new Error('Invalid sensor frame: truncated header');
+  }
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset + 1, length);
+  return { value: textDecoder.decode(bytes), nextOffset: end };
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
@@ -24,6 +24,7 @@ const config: Config = {
     '^@store/(.*)$': '<rootDir>/src/store/$1',
     '^@assets/(.*)$': '<rootDir>/src/assets/$1',
     '^@styles/(.*)$': '<rootDir>/src/styles/$1',
+    '^@smart-apparel/sensor-frame$': '<rootDir>/../shared/sensor-frame/src',
 
     // Handle style and asset imports
     '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
@@ -1,13 +1,15 @@
 /**
  * @fileoverview Sensor Calibration Panel Component
  * Implements comprehensive sensor calibration interface with real-time validation,
- * performance monitoring, and sub-100ms latency feedback
+ * performance monitoring, and sub-100ms latency feedback. The guided protocol coaches the
+ * athlete through each calibration step with live progress and capture feedback
  * @version 1.0.0
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
 import { debounce } from 'lodash';
 import { useSensor } from '../../hooks/useSensor';
+import { useCalibrationProtocol } from '../../hooks/useCalibrationProtocol';
 import Button from '../common/Button';
 import { ISensorCalibrationParams } from '../../interfaces/sensor.interface';
 import { CALIBRATION_PARAMS, SENSOR_STATUS, SENSOR_TYPES } from '../../constants/sensor.constants';
@@ -53,6 +55,14 @@ export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
     filterCutoff: CALIBRATION_PARAMS.filterCutoff.default,
   });
 
+  const {
+    progress: protocolProgress,
+    isRunning: isProtocolRunning,
+    error: protocolError,
+    startProtocol,
+    cancelProtocol,
+  } = useCalibrationProtocol(sensorId);
+
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [validationState, setValidationState] = useState<ValidationState>({
     isValid: true,
@@ -141,6 +151,37 @@ export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
     }
   }, [sensorId, calibrationParams, calibrateSensor, onCalibrationComplete, onCalibrationError, sensorStatus]);
 
+  /**
+   * Start the guided calibration protocol
+   */
+  const handleStartProtocol = useCallback(async () => {
+    try {
+      await startProtocol();
+    } catch (error) {
+      onCalibrationError?.(error as Error);
+    }
+  }, [startProtocol, onCalibrationError]);
+
+  /**
+   * Cancel the running guided calibration
+   */
+  const handleCancelProtocol = useCallback(async () => {
+    try {
+      await cancelProtocol();
+    } catch (error) {
+      onCalibrationError?.(error as Error);
+    }
+  }, [cancelProtocol, onCalibrationError]);
+
+  /**
+   * Report the outcome of a finished guided run
+   */
+  useEffect(() => {
+    if (protocolProgress?.status === 'FAILED' && protocolProgress.error) {
+      onCalibrationError?.(new Error(protocolProgress.error));
+    }
+  }, [protocolProgress?.status, protocolProgress?.error, onCalibrationError]);
+
   /**
    * Monitor sensor status changes
    */
@@ -223,13 +264,79 @@ export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
           variant="contained"
           color="primary"
           isLoading={isCalibrating}
-          disabled={!validationState.isValid || isCalibrating}
+          disabled={!validationState.isValid || isCalibrating || isProtocolRunning}
           ariaLabel="Start sensor calibration"
         >
           {isCalibrating ? 'Calibrating...' : 'Calibrate Sensor'}
         </Button>
+        {isProtocolRunning ? (
+          <Button
+            type="button"
+            variant="outlined"
+            color="secondary"
+            onClick={handleCancelProtocol}
+            ariaLabel="Cancel guided calibration"
+          >
+            Cancel Guided Calibration
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="outlined"
+            color="primary"
+            onClick={handleStartProtocol}
+            disabled={isCalibrating}
+            ariaLabel="Start guided calibration"
+          >
+            Guided Calibration
+          </Button>
+        )}
       </div>
 
+      {/* Guided calibration progress */}
+      {protocolProgress && (
+        <div className="calibration-panel__protocol" aria-live="polite">
+          {protocolProgress.status === 'RUNNING' && (
+            <>
+              <div className="calibration-panel__step">
+                Step {protocolProgress.stepIndex + 1} of {protocolProgress.totalSteps}
+                {protocolProgress.attempt > 1 &&
+                  ` (attempt ${protocolProgress.attempt} of ${protocolProgress.maxAttempts})`}
+              </div>
+              <div className="calibration-panel__instruction">
+                {protocolProgress.phase === 'PREPARING' && 'Get ready: '}
+                {protocolProgress.instruction}
+              </div>
+              <progress
+                className="calibration-panel__progress"
+                max={100}
+                value={protocolProgress.progress}
+              />
+              <span className="calibration-panel__value">
+                {Math.ceil(protocolProgress.estimatedTimeRemaining / 1000)}s remaining
+              </span>
+            </>
+          )}
+          {protocolProgress.result && !protocolProgress.result.passed && (
+            <ul className="calibration-panel__error">
+              {protocolProgress.result.failures.map((failure) => (
+                <li key={failure}>{failure}</li>
+              ))}
+            </ul>
+          )}
+          {protocolProgress.status === 'COMPLETED' && (
+            <span>Calibration complete (version {protocolProgress.version})</span>
+          )}
+          {protocolProgress.status === 'FAILED' && (
+            <span className="calibration-panel__error">{protocolProgress.error}</span>
+          )}
+          {protocolProgress.status === 'CANCELLED' && <span>Guided calibration cancelled</span>}
+        </div>
+      )}
+      {protocolError && (
+        <span className="calibration-panel__error">{protocolError.message}</span>
+      )}
+
       {/* Status indicator */}
       <div className="calibration-panel__status">
         <span>Status: {sensorStatus.get(sensorId) || 'Unknown'}</span>
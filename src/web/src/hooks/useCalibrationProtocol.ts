@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Custom React hook for guided sensor calibration
+ * Starts and cancels the guided calibration protocol of a sensor and follows its
+ * step-by-step progress over the calibration progress subscription
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'; // ^18.0.0
+import { gql } from '@apollo/client';
+
+import { graphqlService } from '../services/graphql.service';
+import type { ICalibrationProgress } from '../interfaces/sensor.interface';
+
+// GraphQL Mutations
+const CALIBRATION_MUTATIONS = {
+  START_PROTOCOL: gql`
+    mutation StartCalibrationProtocol($id: ID!) {
+      startCalibrationProtocol(id: $id) {
+        id
+        status
+      }
+    }
+  `,
+  CANCEL_PROTOCOL: gql`
+    mutation CancelCalibrationProtocol($id: ID!) {
+      cancelCalibrationProtocol(id: $id) {
+        id
+        status
+      }
+    }
+  `
+};
+
+// GraphQL Subscriptions
+const CALIBRATION_SUBSCRIPTIONS = {
+  PROGRESS: gql`
+    subscription OnCalibrationProgress($id: ID!) {
+      onCalibrationProgress(id: $id) {
+        runId
+        sensorId
+        status
+        step
+        stepIndex
+        totalSteps
+        attempt
+        maxAttempts
+        phase
+        instruction
+        progress
+        estimatedTimeRemaining
+        result {
+          step
+          attempt
+          passed
+          failures
+        }
+        version
+        error
+      }
+    }
+  `
+};
+
+interface ICalibrationProtocolState {
+  /** Latest progress of the sensor's guided run, null before a run starts */
+  progress: ICalibrationProgress | null;
+  isRunning: boolean;
+  error: Error | null;
+}
+
+interface ICalibrationProtocolOperations {
+  startProtocol: () => Promise<void>;
+  cancelProtocol: () => Promise<void>;
+}
+
+/**
+ * Hook for coaching an athlete through the guided calibration protocol of a sensor
+ * @param sensorId - Sensor to calibrate
+ * @returns Latest run progress and protocol operations
+ */
+export const useCalibrationProtocol = (
+  sensorId: string
+): ICalibrationProtocolState & ICalibrationProtocolOperations => {
+  const [progress, setProgress] = useState<ICalibrationProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const subscriptionRef = useRef<ZenObservable.Subscription | null>(null);
+
+  // Follow protocol progress for the lifetime of the sensor; manual calibrations
+  // share the subscription but carry no run id
+  useEffect(() => {
+    let cancelled = false;
+
+    graphqlService
+      .subscribeToData<{ onCalibrationProgress: ICalibrationProgress }>(
+        CALIBRATION_SUBSCRIPTIONS.PROGRESS,
+        { id: sensorId },
+        (data) => {
+          if (data.onCalibrationProgress?.runId) {
+            setProgress(data.onCalibrationProgress);
+          }
+        }
+      )
+      .then((subscription) => {
+        if (cancelled) {
+          subscription.unsubscribe();
+        } else {
+          subscriptionRef.current = subscription;
+        }
+      })
+      .catch((err) => setError(err as Error));
+
+    return () => {
+      cancelled = true;
+      subscriptionRef.current?.unsubscribe();
+      subscriptionRef.current = null;
+      setProgress(null);
+    };
+  }, [sensorId]);
+
+  /**
+   * Starts a guided run; steps and results follow on the progress subscription
+   */
+  const startProtocol = useCallback(async () => {
+    try {
+      setError(null);
+      setProgress(null);
+      await graphqlService.executeMutation(CALIBRATION_MUTATIONS.START_PROTOCOL, { id: sensorId });
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    }
+  }, [sensorId]);
+
+  /**
+   * Cancels the running guided run; the sensor keeps its previous calibration
+   */
+  const cancelProtocol = useCallback(async () => {
+    try {
+      await graphqlService.executeMutation(CALIBRATION_MUTATIONS.CANCEL_PROTOCOL, { id: sensorId });
+    } catch (err) {
+      setError(err as Error);
+      throw err;
+    }
+  }, [sensorId]);
+
+  return {
+    progress,
+    isRunning: progress?.status === 'RUNNING',
+    error,
+    startProtocol,
+    cancelProtocol
+  };
+};
+
+export default useCalibrationProtocol;
@@ -108,6 +108,7 @@ export interface IStreamConfig {
   compression?: boolean;
   priority: 'high' | 'medium' | 'low';
   qos: 0 | 1 | 2; // MQTT QoS levels
+  binaryFrames?: boolean; // Negotiate the compact binary sensor frame format
 }
 
 /**
@@ -60,6 +60,8 @@ export interface ISensorReading {
   value: number[];
   /** High-precision timestamp in milliseconds */
   timestamp: number;
+  /** Confidence in the reading between 0 and 1, when the sensor reports one */
+  confidence?: number;
 }
 
 /**
@@ -88,4 +90,51 @@ export interface ISensorData {
   readings: Array<ISensorReading>;
   /** Associated metadata for the readings */
   metadata: ISensorMetadata;
-}
\ No newline at end of file
+}
+/**
+ * Steps of the guided calibration protocol, in protocol order
+ */
+export type CalibrationStep = 'STATIC_STAND' | 'T_POSE' | 'SQUAT' | 'WALK';
+
+/**
+ * State of a guided calibration run
+ */
+export type CalibrationRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+/**
+ * Interface for the result of one capture of a guided calibration step
+ */
+export interface ICalibrationStepResult {
+  step: CalibrationStep;
+  /** Capture attempt, starting at 1 */
+  attempt: number;
+  passed: boolean;
+  /** Reasons the capture was rejected */
+  failures: string[];
+}
+
+/**
+ * Interface for guided calibration progress streamed while the athlete is coached
+ */
+export interface ICalibrationProgress {
+  runId: string;
+  sensorId: string;
+  status: CalibrationRunStatus;
+  step: CalibrationStep;
+  stepIndex: number;
+  totalSteps: number;
+  attempt: number;
+  maxAttempts: number;
+  phase: 'PREPARING' | 'CAPTURING' | 'EVALUATING';
+  /** What the athlete should do during the current step */
+  instruction: string;
+  /** Overall progress through the protocol (0-100) */
+  progress: number;
+  /** Milliseconds until the protocol completes without further retries */
+  estimatedTimeRemaining: number;
+  /** Result of the capture just evaluated */
+  result?: ICalibrationStepResult | null;
+  /** Calibration version recorded when the run completed */
+  version?: number | null;
+  error?: string | null;
+}
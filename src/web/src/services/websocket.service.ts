@@ -8,9 +8,18 @@
 import { injectable } from 'inversify';
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
+import {
+  SENSOR_FRAME_PROTOCOL,
+  SENSOR_JSON_PROTOCOL,
+  SensorFrame,
+  decodeSensorFrames,
+  encodeSensorFrame,
+  isSensorFrame
+} from '@smart-apparel/sensor-frame';
 import { ISensorData } from '../interfaces/sensor.interface';
 import { ISession } from '../interfaces/session.interface';
 import { IWebSocketMessage, IStreamConfig } from '../interfaces/common.interface';
+import { SENSOR_TYPES } from '../constants/sensor.constants';
 
 // WebSocket configuration constants
 const WS_CONFIG = {
@@ -58,12 +67,18 @@ export class WebSocketService {
       return;
     }
 
+    // Offer the binary frame format first; the server falls back to JSON if unsupported
+    const protocols = options.binaryFrames
+      ? [SENSOR_FRAME_PROTOCOL, SENSOR_JSON_PROTOCOL]
+      : [SENSOR_JSON_PROTOCOL];
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(url, {
+        this.ws = new WebSocket(url, protocols, {
           handshakeTimeout: WS_CONFIG.CONNECTION_TIMEOUT,
           ...options
         });
+        this.ws.binaryType = 'arraybuffer';
 
         this.ws.onopen = () => {
           this.isConnected = true;
@@ -199,6 +214,50 @@ export class WebSocketService {
     });
   }
 
+  /**
+   * Sends a sensor data packet using the wire format negotiated for this connection
+   * @param data Sensor data packet to send
+   * @param sessionId Session the packet belongs to
+   */
+  public async sendSensorData(data: ISensorData, sessionId: string): Promise<void> {
+    // A frame has one sensor type and a confidence per reading, so packets mixing sensor
+    // types or lacking confidences are sent as JSON, which binary connections accept too
+    const sensorType = data.readings[0]?.type;
+    const readings = data.readings.flatMap(reading =>
+      reading.type === sensorType && reading.confidence !== undefined
+        ? [{ timestamp: reading.timestamp, value: reading.value, confidence: reading.confidence }]
+        : []
+    );
+
+    if (
+      !this.isConnected ||
+      this.ws?.protocol !== SENSOR_FRAME_PROTOCOL ||
+      !sensorType ||
+      readings.length !== data.readings.length
+    ) {
+      return this.sendMessage({
+        type: 'sensorData',
+        payload: data,
+        timestamp: new Date(),
+        sessionId,
+        sequence: 0
+      });
+    }
+
+    const frame = encodeSensorFrame({
+      sensorId: data.sensorId,
+      sessionId,
+      sensorType,
+      baseTimestamp: readings[0]?.timestamp ?? data.timestamp,
+      dataQuality: data.metadata.quality,
+      readings
+    });
+
+    return new Promise((resolve, reject) => {
+      this.ws!.send(frame, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
   /**
    * Sets up heartbeat mechanism for connection health monitoring
    */
@@ -222,6 +281,17 @@ export class WebSocketService {
    */
   private handleMessage(data: WebSocket.Data): void {
     try {
+      if (data instanceof ArrayBuffer && isSensorFrame(new Uint8Array(data))) {
+        this.lastHeartbeat = Date.now();
+        decodeSensorFrames(new Uint8Array(data)).forEach(frame => {
+          const sensorData = this.frameToSensorData(frame);
+          this.subscriptions.get(sensorData.sensorId)?.forEach(callback => {
+            callback(sensorData);
+          });
+        });
+        return;
+      }
+
       const message: IWebSocketMessage = JSON.parse(data.toString());
       this.lastHeartbeat = Date.now();
 
@@ -247,6 +317,30 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Converts a decoded binary frame into the sensor data shape used by subscribers
+   * @param frame Decoded sensor frame
+   */
+  private frameToSensorData(frame: SensorFrame): ISensorData {
+    const type = frame.sensorType === SENSOR_TYPES.IMU ? SENSOR_TYPES.IMU : SENSOR_TYPES.TOF;
+
+    return {
+      sensorId: frame.sensorId,
+      timestamp: frame.baseTimestamp,
+      readings: frame.readings.map(reading => ({
+        type,
+        value: reading.value,
+        timestamp: reading.timestamp,
+        confidence: reading.confidence
+      })),
+      metadata: {
+        calibrationVersion: '',
+        processingSteps: [],
+        quality: frame.dataQuality
+      }
+    };
+  }
+
   /**
    * Handles disconnection with reconnection logic
    */